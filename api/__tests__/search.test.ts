@@ -0,0 +1,238 @@
+jest.mock("../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../src/server/models/book", () => ({
+  listBooksInSeriesOrCollections: jest.fn(),
+  searchBooksByText: jest.fn(),
+  toPublicBook: jest.fn(({ score: _score, ...book }) => book),
+}));
+
+jest.mock("../../src/server/models/series", () => ({
+  searchSeriesByText: jest.fn(),
+}));
+
+jest.mock("../../src/server/models/collection", () => ({
+  searchCollectionsByText: jest.fn(),
+}));
+
+import searchHandler from "../search";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { listBooksInSeriesOrCollections, searchBooksByText } from "@/server/models/book";
+import { searchCollectionsByText } from "@/server/models/collection";
+import { searchSeriesByText } from "@/server/models/series";
+
+type HandlerRequest = Parameters<typeof searchHandler>[0];
+type HandlerResponse = Parameters<typeof searchHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const search = async (query: Record<string, string>, method = "GET") => {
+  const response = createMockResponse();
+  await searchHandler(
+    { body: {}, headers: {}, method, query } as unknown as HandlerRequest,
+    response as unknown as HandlerResponse,
+  );
+  return response;
+};
+
+type SearchResponse = {
+  results: {
+    item: { id: string };
+    score: number;
+    matches: { field: string; segments: { text: string; match: boolean }[] }[];
+  }[];
+};
+
+const earthsea = {
+  id: "book-1",
+  title: "A Wizard of Earthsea",
+  author: "Ursula K. Le Guin",
+  genre: ["Fantasy"],
+  notes: "Reread the wizard duel",
+  seriesId: "series-1",
+};
+
+const tombs = {
+  id: "book-2",
+  title: "The Tombs of Atuan",
+  author: "Ursula K. Le Guin",
+  seriesId: "series-1",
+};
+
+describe("GET /api/search", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+    (searchBooksByText as jest.Mock).mockResolvedValue([]);
+    (searchSeriesByText as jest.Mock).mockResolvedValue([]);
+    (searchCollectionsByText as jest.Mock).mockResolvedValue([]);
+    (listBooksInSeriesOrCollections as jest.Mock).mockResolvedValue([]);
+  });
+
+  it("returns books ranked by score with highlighted segments", async () => {
+    (searchBooksByText as jest.Mock).mockResolvedValue([{ ...earthsea, score: 11.5 }]);
+
+    const response = await search({ q: "wizard" });
+
+    expect(searchBooksByText).toHaveBeenCalledWith("user-1", "wizard", {
+      caseSensitive: false,
+      limit: 200,
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual({
+      results: [
+        {
+          item: earthsea,
+          score: 11.5,
+          matches: [
+            {
+              field: "title",
+              segments: [
+                { text: "A ", match: false },
+                { text: "Wizard", match: true },
+                { text: " of Earthsea", match: false },
+              ],
+            },
+            {
+              field: "notes",
+              segments: [
+                { text: "Reread the ", match: false },
+                { text: "wizard", match: true },
+                { text: " duel", match: false },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("finds books through matching series and collection names", async () => {
+    (searchBooksByText as jest.Mock).mockResolvedValue([{ ...tombs, score: 1 }]);
+    (searchSeriesByText as jest.Mock).mockResolvedValue([
+      { id: "series-1", name: "Earthsea Cycle", books: [], score: 1 },
+    ]);
+    (searchCollectionsByText as jest.Mock).mockResolvedValue([
+      { id: "collection-1", name: "Earthsea favourites", bookIds: ["book-1"], score: 0.75 },
+    ]);
+    (listBooksInSeriesOrCollections as jest.Mock).mockResolvedValue([earthsea, tombs]);
+
+    const response = await search({ q: "earthsea" });
+    const { results } = response.jsonBody as SearchResponse;
+
+    expect(listBooksInSeriesOrCollections).toHaveBeenCalledWith(
+      "user-1",
+      { seriesIds: ["series-1"], collectionIds: ["collection-1"], bookIds: ["book-1"] },
+      200,
+    );
+    expect(results.map(({ item, score }) => [item.id, score])).toEqual([
+      ["book-1", 8.25],
+      ["book-2", 7],
+    ]);
+    expect(results[0].matches.map(({ field }) => field)).toEqual([
+      "title",
+      "seriesName",
+      "collectionName",
+    ]);
+  });
+
+  it("highlights books matched by their tags", async () => {
+    (searchBooksByText as jest.Mock).mockResolvedValue([
+      { ...tombs, tags: ["signed", "first edition"], score: 4 },
+    ]);
+
+    const response = await search({ q: "signed" });
+    const { results } = response.jsonBody as SearchResponse;
+
+    expect(results.map(({ item }) => item.id)).toEqual(["book-2"]);
+    expect(results[0].matches).toEqual([
+      {
+        field: "tags",
+        segments: [
+          { text: "signed", match: true },
+          { text: ", first edition", match: false },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps only books matching in the chosen fields", async () => {
+    (searchBooksByText as jest.Mock).mockResolvedValue([
+      { ...earthsea, score: 11.5 },
+      { ...tombs, notes: "Better than the wizard one", score: 2 },
+    ]);
+
+    const response = await search({ q: "wizard", fields: "title,seriesName" });
+    const { results } = response.jsonBody as SearchResponse;
+
+    expect(results.map(({ item }) => item.id)).toEqual(["book-1"]);
+    expect(results[0].matches.map(({ field }) => field)).toEqual(["title"]);
+  });
+
+  it("searches exact phrases and highlights the whole phrase", async () => {
+    (searchBooksByText as jest.Mock).mockResolvedValue([{ ...earthsea, score: 10 }]);
+
+    const response = await search({ q: "wizard of", exact: "true", limit: "5" });
+    const { results } = response.jsonBody as SearchResponse;
+
+    expect(searchBooksByText).toHaveBeenCalledWith("user-1", '"wizard of"', expect.anything());
+    expect(results[0].matches[0].segments).toEqual([
+      { text: "A ", match: false },
+      { text: "Wizard of", match: true },
+      { text: " Earthsea", match: false },
+    ]);
+  });
+
+  it.each([{}, { q: "wizard", fields: "isbn" }, { q: "wizard", limit: "101" }, { q: "wizard", exact: "yes" }])(
+    "rejects %p",
+    async (query) => {
+      const response = await search(query as Record<string, string>);
+
+      expect(searchBooksByText).not.toHaveBeenCalled();
+      expect(response.statusCode).toBe(400);
+    },
+  );
+
+  it("only allows GET", async () => {
+    const response = await search({ q: "wizard" }, "POST");
+
+    expect(response.statusCode).toBe(405);
+  });
+});
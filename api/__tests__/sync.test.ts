@@ -0,0 +1,174 @@
+jest.mock("../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../src/server/models/book", () => ({
+  listBooksByUserId: jest.fn(),
+  listBooksUpdatedSince: jest.fn(),
+  toPublicBook: jest.fn((book) => book),
+}));
+
+jest.mock("../../src/server/models/series", () => ({
+  listSeriesByUserId: jest.fn(),
+  listSeriesUpdatedSince: jest.fn(),
+  toPublicSeries: jest.fn((series) => series),
+}));
+
+jest.mock("../../src/server/models/collection", () => ({
+  listCollectionsByUserId: jest.fn(),
+  listCollectionsModifiedSince: jest.fn(),
+  toPublicCollection: jest.fn((collection) => collection),
+}));
+
+jest.mock("../../src/server/models/loan", () => ({
+  listLoansByUserId: jest.fn(),
+  listLoansUpdatedSince: jest.fn(),
+  toPublicLoan: jest.fn((loan) => loan),
+}));
+
+jest.mock("../../src/server/models/sync-tombstone", () => ({
+  SYNC_TOMBSTONE_RETENTION_DAYS: 30,
+  listSyncTombstonesSince: jest.fn(),
+}));
+
+import syncHandler from "../sync";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { listBooksByUserId, listBooksUpdatedSince } from "@/server/models/book";
+import { listCollectionsByUserId, listCollectionsModifiedSince } from "@/server/models/collection";
+import { listLoansByUserId, listLoansUpdatedSince } from "@/server/models/loan";
+import { listSeriesByUserId, listSeriesUpdatedSince } from "@/server/models/series";
+import { listSyncTombstonesSince } from "@/server/models/sync-tombstone";
+
+type HandlerRequest = Parameters<typeof syncHandler>[0];
+type HandlerResponse = Parameters<typeof syncHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (query: Record<string, unknown> = {}, method = "GET") =>
+  ({
+    body: {},
+    headers: {},
+    method,
+    query,
+  }) as unknown as HandlerRequest;
+
+describe("sync route", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+    (listBooksByUserId as jest.Mock).mockResolvedValue([{ id: "book-1" }, { id: "book-2" }]);
+    (listSeriesByUserId as jest.Mock).mockResolvedValue([{ id: "series-1" }]);
+    (listCollectionsByUserId as jest.Mock).mockResolvedValue([]);
+    (listLoansByUserId as jest.Mock).mockResolvedValue([{ id: "loan-1" }]);
+    (listBooksUpdatedSince as jest.Mock).mockResolvedValue([{ id: "book-2" }]);
+    (listSeriesUpdatedSince as jest.Mock).mockResolvedValue([]);
+    (listCollectionsModifiedSince as jest.Mock).mockResolvedValue([{ id: "collection-1" }]);
+    (listLoansUpdatedSince as jest.Mock).mockResolvedValue([]);
+    (listSyncTombstonesSince as jest.Mock).mockResolvedValue([
+      { entity: "books", entityId: "book-3" },
+      { entity: "series", entityId: "series-2" },
+      { entity: "loans", entityId: "loan-2" },
+    ]);
+  });
+
+  it("returns the whole library when no since is given", async () => {
+    const response = createMockResponse();
+
+    await syncHandler(createRequest(), response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toMatchObject({
+      full: true,
+      books: [{ id: "book-1" }, { id: "book-2" }],
+      series: [{ id: "series-1" }],
+      collections: [],
+      loans: [{ id: "loan-1" }],
+      deleted: { books: [], series: [], collections: [], loans: [] },
+    });
+    expect(listSyncTombstonesSince).not.toHaveBeenCalled();
+  });
+
+  it("returns changes and deletions after since", async () => {
+    const since = new Date(Date.now() - 60 * 60 * 1000);
+    const response = createMockResponse();
+
+    await syncHandler(
+      createRequest({ since: since.toISOString() }),
+      response as unknown as HandlerResponse,
+    );
+
+    // Pulled again from a few minutes before since, for writes that
+    // committed after the previous pull read past them
+    const overlapStart = new Date(since.getTime() - 5 * 60 * 1000);
+    expect(listBooksUpdatedSince).toHaveBeenCalledWith("user-1", overlapStart);
+    expect(listLoansUpdatedSince).toHaveBeenCalledWith("user-1", overlapStart);
+    expect(listSyncTombstonesSince).toHaveBeenCalledWith("user-1", overlapStart);
+    expect(response.jsonBody).toMatchObject({
+      full: false,
+      books: [{ id: "book-2" }],
+      series: [],
+      collections: [{ id: "collection-1" }],
+      loans: [],
+      deleted: { books: ["book-3"], series: ["series-2"], collections: [], loans: ["loan-2"] },
+    });
+  });
+
+  it("falls back to the whole library when since is older than deletions are kept", async () => {
+    const response = createMockResponse();
+
+    await syncHandler(
+      createRequest({ since: "2000-01-01T00:00:00.000Z" }),
+      response as unknown as HandlerResponse,
+    );
+
+    expect(listBooksUpdatedSince).not.toHaveBeenCalled();
+    expect(response.jsonBody).toMatchObject({ full: true });
+  });
+
+  it("rejects an invalid since and other methods", async () => {
+    const invalid = createMockResponse();
+    await syncHandler(createRequest({ since: "yesterday" }), invalid as unknown as HandlerResponse);
+
+    const post = createMockResponse();
+    await syncHandler(createRequest({}, "POST"), post as unknown as HandlerResponse);
+
+    expect(invalid.statusCode).toBe(400);
+    expect(post.statusCode).toBe(405);
+  });
+});
@@ -1,12 +1,28 @@
 import { VercelRequest, VercelResponse } from "@vercel/node";
 import { randomBytes } from "node:crypto";
-import { MongoServerError } from "mongodb";
+import { once } from "node:events";
+import {
+  AnyBulkWriteOperation,
+  Collection,
+  Document,
+  Filter,
+  MongoServerError,
+} from "mongodb";
 
-import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
 import {
+  ApiError,
+  methodNotAllowed,
+  sendError,
+  sendJson,
+} from "../../src/server/lib/api-response.js";
+import {
+  AdminAuditAction,
   createAdminAuditLog,
+  findAdminAuditLogs,
   listAdminAuditLogs,
+  listAdminAuditLogsPage,
   toAdminAuditLogEntry,
+  verifyAdminAuditLogChain,
 } from "../../src/server/models/admin-audit-log.js";
 import {
   findSystemAnnouncementById,
@@ -21,9 +37,43 @@ import {
   updateSystemAnnouncementById,
   deleteSystemAnnouncementById,
 } from "../../src/server/models/system-announcement.js";
+import {
+  ACCOUNT_ARCHIVE_BACKUP_VERSION,
+  ACCOUNT_ARCHIVE_VERSION,
+  AccountArchive,
+  AccountArchiveRecordSection,
+  getAccountArchiveProjection,
+  parseAccountArchive,
+  withoutUndefinedFields,
+} from "../../src/server/lib/account-archive.js";
+import {
+  ADMIN_AUDIT_LOG_CSV_COLUMNS,
+  encodeAdminAuditLogCursor,
+  isAdminAuditLogPageRequest,
+  parseAdminAuditLogExportFormat,
+  parseAdminAuditLogQuery,
+  toAdminAuditLogCsvRow,
+} from "../../src/server/lib/admin-audit-log-query.js";
 import { ensureBootstrapAdminUser } from "../../src/server/lib/admin-bootstrap.js";
-import { signAuthToken } from "../../src/server/lib/auth.js";
+import {
+  signAuthToken,
+  signTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+} from "../../src/server/lib/auth.js";
 import { sendPasswordResetEmail } from "../../src/server/lib/email.js";
+import { getRequestDeviceInfo } from "../../src/server/lib/session-device.js";
+import {
+  encodeUserListCursor,
+  isUserListPageRequest,
+  parseUserListQuery,
+} from "../../src/server/lib/user-query.js";
+import {
+  buildTotpProvisioningUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from "../../src/server/lib/totp.js";
 import {
   CredentialValidationError,
   hashPassword,
@@ -40,28 +90,70 @@ import {
   requireAuthenticatedUser,
 } from "../../src/server/middleware/auth.js";
 import {
+  clearFailedSignIns,
+  enforceRateLimit,
+  RateLimitRule,
+  recordFailedSignIn,
+  requireAccountNotLocked,
+} from "../../src/server/middleware/rate-limit.js";
+import {
+  clearAccountLockout,
+  listLockedAccounts,
+  toLockedAccount,
+} from "../../src/server/models/account-lockout.js";
+import {
+  consumeUserRecoveryCode,
   countAdmins,
+  disableUserTwoFactor,
+  enableUserTwoFactor,
   findUserByEmail,
   findUserById,
+  findUsersByIds,
   deleteUserById,
   insertUser,
+  invalidateUserSessionsByIds,
   listUsers,
+  listUsersPage,
+  recordUserTotpStep,
+  replaceUserRecoveryCodes,
+  setUserPendingTwoFactorSecret,
   toPublicUser,
   updateUserEmailById,
   updateUserLastLoginById,
   updateUserPasswordById,
   updateUserPreferredNameById,
   updateUserRoleById,
+  updateUserRolesByIds,
+  UserDocument,
 } from "../../src/server/models/user.js";
-import { getBooksCollection } from "../../src/server/models/book.js";
-import { getSeriesCollection } from "../../src/server/models/series.js";
-import { getCollectionsCollection } from "../../src/server/models/collection.js";
-import { getUpcomingReleasesCollection } from "../../src/server/models/upcoming-release.js";
-import { getNotificationsCollection } from "../../src/server/models/notification.js";
-import { getUserSettingsCollection } from "../../src/server/models/user-settings.js";
+import { ensureBookIndexes, getBooksCollection } from "../../src/server/models/book.js";
+import { ensureSeriesIndexes, getSeriesCollection } from "../../src/server/models/series.js";
+import {
+  ensureCollectionIndexes,
+  getCollectionsCollection,
+} from "../../src/server/models/collection.js";
+import {
+  ensureUpcomingReleaseIndexes,
+  getUpcomingReleasesCollection,
+} from "../../src/server/models/upcoming-release.js";
+import {
+  ensureNotificationIndexes,
+  getNotificationsCollection,
+} from "../../src/server/models/notification.js";
+import {
+  ensureUserSettingsIndexes,
+  getUserSettingsCollection,
+} from "../../src/server/models/user-settings.js";
+import {
+  ensureReadingSessionIndexes,
+  getReadingSessionsCollection,
+} from "../../src/server/models/reading-session.js";
+import { ensureLoanIndexes, getLoansCollection } from "../../src/server/models/loan.js";
 import {
   dismissAnnouncement,
+  ensureUserAnnouncementStateIndexes,
   getAnnouncementStateCounts,
+  getUserAnnouncementStatesCollection,
   getUserAnnouncementStates,
   markAnnouncementSeen,
 } from "../../src/server/models/user-announcement-state.js";
@@ -71,13 +163,26 @@ import {
   invalidatePasswordResetOtpsForUser,
   verifyPasswordResetOtp,
 } from "../../src/server/models/password-reset-otp.js";
+import {
+  createSession,
+  deleteSessionsByUserId,
+  listActiveSessionsByUserId,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeSessionsByUserId,
+  rotateSessionRefreshToken,
+  toPublicSession,
+} from "../../src/server/models/session.js";
 
 type AuthRequestBody = {
   announcementId?: string;
   announcementBody?: string;
+  challengeToken?: string;
+  code?: string;
   ctaLabel?: string;
   ctaUrl?: string;
   currentPassword?: string;
+  dryRun?: boolean;
   email?: string;
   endsAt?: string;
   environment?: "all" | "preview" | "production";
@@ -86,14 +191,19 @@ type AuthRequestBody = {
   maxAppVersion?: string;
   minAppVersion?: string;
   newPassword?: string;
+  operation?: "sign-out" | "set-role" | "delete";
   otp?: string;
   password?: string;
   preferredName?: string;
+  recoveryCode?: string;
+  refreshToken?: string;
   role?: "user" | "admin";
+  sessionId?: string;
   severity?: "info" | "success" | "warning" | "critical";
   startsAt?: string;
   title?: string;
   userId?: string;
+  userIds?: string[];
 };
 
 type DeletedAccountSummary = {
@@ -103,6 +213,58 @@ type DeletedAccountSummary = {
   upcomingReleases: number;
   notifications: number;
   userSettings: number;
+  readingSessions: number;
+  loans: number;
+};
+
+type BulkUserSkip = {
+  userId: string;
+  email?: string;
+  reason: string;
+};
+
+type RestoredSectionSummary = {
+  created: number;
+  updated: number;
+};
+
+type ImportedAccountSummary = Record<
+  AccountArchiveRecordSection | "settings" | "announcementStates",
+  RestoredSectionSummary
+>;
+
+const TOTP_ISSUER = "Book Collection App";
+const MAX_BULK_USERS = 100;
+const RATE_LIMIT_WINDOW_MS = 1000 * 60 * 15;
+
+// Per-IP budgets. Repeated failures for one account are handled separately
+// by the account lockout, which backs off exponentially.
+const LOGIN_RATE_LIMIT: RateLimitRule = {
+  name: "login",
+  limit: 20,
+  windowMs: RATE_LIMIT_WINDOW_MS,
+};
+const LOGIN_TWO_FACTOR_RATE_LIMIT: RateLimitRule = {
+  name: "login-2fa",
+  limit: 20,
+  windowMs: RATE_LIMIT_WINDOW_MS,
+};
+const FORGOT_PASSWORD_RATE_LIMIT: RateLimitRule = {
+  name: "forgot-password",
+  limit: 10,
+  windowMs: RATE_LIMIT_WINDOW_MS * 4,
+};
+/** Keeps one inbox from being flooded with reset emails */
+const FORGOT_PASSWORD_EMAIL_RATE_LIMIT: RateLimitRule = {
+  name: "forgot-password-email",
+  limit: 3,
+  windowMs: RATE_LIMIT_WINDOW_MS * 4,
+};
+/** Shared by verify-reset-otp and reset-password, which both check the code */
+const RESET_OTP_RATE_LIMIT: RateLimitRule = {
+  name: "reset-otp",
+  limit: 20,
+  windowMs: RATE_LIMIT_WINDOW_MS,
 };
 
 const createTemporaryPassword = (): string => {
@@ -336,6 +498,8 @@ const deleteOwnedUserData = async (
     upcomingReleasesCollection,
     notificationsCollection,
     userSettingsCollection,
+    readingSessionsCollection,
+    loansCollection,
   ] = await Promise.all([
     getBooksCollection(),
     getSeriesCollection(),
@@ -343,6 +507,8 @@ const deleteOwnedUserData = async (
     getUpcomingReleasesCollection(),
     getNotificationsCollection(),
     getUserSettingsCollection(),
+    getReadingSessionsCollection(),
+    getLoansCollection(),
   ]);
 
   const [
@@ -352,6 +518,8 @@ const deleteOwnedUserData = async (
     upcomingReleasesResult,
     notificationsResult,
     userSettingsResult,
+    readingSessionsResult,
+    loansResult,
   ] = await Promise.all([
     booksCollection.deleteMany({ userId }),
     seriesCollection.deleteMany({ userId }),
@@ -359,25 +527,1066 @@ const deleteOwnedUserData = async (
     upcomingReleasesCollection.deleteMany({ userId }),
     notificationsCollection.deleteMany({ userId }),
     userSettingsCollection.deleteMany({ userId }),
+    readingSessionsCollection.deleteMany({ userId }),
+    loansCollection.deleteMany({ userId }),
+  ]);
+
+  const userDeleted = await deleteUserById(userId);
+
+  if (!userDeleted) {
+    throw new ApiError(500, "INTERNAL_SERVER_ERROR", "Failed to delete account.");
+  }
+
+  await deleteSessionsByUserId(userId);
+
+  return {
+    books: booksResult.deletedCount,
+    series: seriesResult.deletedCount,
+    collections: collectionsResult.deletedCount,
+    upcomingReleases: upcomingReleasesResult.deletedCount,
+    notifications: notificationsResult.deletedCount,
+    userSettings: userSettingsResult.deletedCount,
+    readingSessions: readingSessionsResult.deletedCount,
+    loans: loansResult.deletedCount,
+  };
+};
+
+/**
+ * What deleteOwnedUserData would remove, without removing it
+ */
+const countOwnedUserData = async (
+  userId: string,
+): Promise<DeletedAccountSummary> => {
+  const [
+    booksCollection,
+    seriesCollection,
+    collectionsCollection,
+    upcomingReleasesCollection,
+    notificationsCollection,
+    userSettingsCollection,
+    readingSessionsCollection,
+    loansCollection,
+  ] = await Promise.all([
+    getBooksCollection(),
+    getSeriesCollection(),
+    getCollectionsCollection(),
+    getUpcomingReleasesCollection(),
+    getNotificationsCollection(),
+    getUserSettingsCollection(),
+    getReadingSessionsCollection(),
+    getLoansCollection(),
+  ]);
+
+  const [
+    books,
+    series,
+    collections,
+    upcomingReleases,
+    notifications,
+    userSettings,
+    readingSessions,
+    loans,
+  ] = await Promise.all([
+    booksCollection.countDocuments({ userId }),
+    seriesCollection.countDocuments({ userId }),
+    collectionsCollection.countDocuments({ userId }),
+    upcomingReleasesCollection.countDocuments({ userId }),
+    notificationsCollection.countDocuments({ userId }),
+    userSettingsCollection.countDocuments({ userId }),
+    readingSessionsCollection.countDocuments({ userId }),
+    loansCollection.countDocuments({ userId }),
+  ]);
+
+  return {
+    books,
+    series,
+    collections,
+    upcomingReleases,
+    notifications,
+    userSettings,
+    readingSessions,
+    loans,
+  };
+};
+
+/**
+ * Writes one piece of a streamed response, waiting for the socket to drain
+ * when its buffer is full so a large library is not held in memory.
+ */
+const writeResponseChunk = async (
+  response: VercelResponse,
+  chunk: string,
+): Promise<void> => {
+  if (!response.write(chunk)) {
+    await once(response, "drain");
+  }
+};
+
+/**
+ * Streams every record a user owns in one collection as a JSON array under
+ * the given key, in id order, and returns how many were written.
+ */
+const streamArchiveSection = async <TSchema extends { userId: string }>(
+  response: VercelResponse,
+  key: AccountArchiveRecordSection | "announcementStates",
+  collection: Collection<TSchema>,
+  userId: string,
+  sortField: string,
+): Promise<number> => {
+  const cursor = collection
+    .find({ userId } as Filter<TSchema>, { projection: getAccountArchiveProjection(key) })
+    .sort({ [sortField]: 1 });
+  let count = 0;
+
+  await writeResponseChunk(response, `,${JSON.stringify(key)}:[`);
+
+  for await (const record of cursor) {
+    await writeResponseChunk(response, `${count > 0 ? "," : ""}${JSON.stringify(record)}`);
+    count += 1;
+  }
+
+  await writeResponseChunk(response, "]");
+  return count;
+};
+
+/**
+ * Upserts records by their key so importing the same archive again updates
+ * what the first import created instead of adding copies.
+ */
+const restoreArchiveRecords = async <TSchema extends Document>(
+  collection: Collection<TSchema>,
+  upserts: Array<{ filter: Document; update: Document }>,
+): Promise<RestoredSectionSummary> => {
+  if (upserts.length === 0) {
+    return { created: 0, updated: 0 };
+  }
+
+  const result = await collection.bulkWrite(
+    upserts.map(({ filter, update }) => ({
+      updateOne: { filter, update, upsert: true },
+    })) as AnyBulkWriteOperation<TSchema>[],
+    { ordered: false },
+  );
+
+  return { created: result.upsertedCount, updated: result.matchedCount };
+};
+
+const restoreOwnedUserData = async (
+  userId: string,
+  archive: AccountArchive,
+): Promise<ImportedAccountSummary> => {
+  await Promise.all([
+    ensureBookIndexes(),
+    ensureSeriesIndexes(),
+    ensureCollectionIndexes(),
+    ensureUpcomingReleaseIndexes(),
+    ensureNotificationIndexes(),
+    ensureUserSettingsIndexes(),
+    ensureReadingSessionIndexes(),
+    ensureLoanIndexes(),
+    ensureUserAnnouncementStateIndexes(),
+  ]);
+
+  const [
+    booksCollection,
+    seriesCollection,
+    collectionsCollection,
+    upcomingReleasesCollection,
+    notificationsCollection,
+    userSettingsCollection,
+    readingSessionsCollection,
+    loansCollection,
+    announcementStatesCollection,
+  ] = await Promise.all([
+    getBooksCollection(),
+    getSeriesCollection(),
+    getCollectionsCollection(),
+    getUpcomingReleasesCollection(),
+    getNotificationsCollection(),
+    getUserSettingsCollection(),
+    getReadingSessionsCollection(),
+    getLoansCollection(),
+    getUserAnnouncementStatesCollection(),
+  ]);
+  const now = new Date();
+
+  // Same bookkeeping as the insert and update paths of each model
+  const timestamped = <T extends { id: string }>(records: T[], bumpRevision = false) =>
+    records.map((record) => ({
+      filter: { userId, id: record.id },
+      update: {
+        $set: { ...withoutUndefinedFields(record), updatedAt: now },
+        $setOnInsert: { userId, createdAt: now },
+        ...(bumpRevision ? { $inc: { revision: 1 } } : {}),
+      },
+    }));
+
+  const [
+    books,
+    series,
+    collections,
+    upcomingReleases,
+    notifications,
+    readingSessions,
+    loans,
+    settings,
+    announcementStates,
+  ] = await Promise.all([
+    restoreArchiveRecords(booksCollection, timestamped(archive.books, true)),
+    restoreArchiveRecords(seriesCollection, timestamped(archive.series, true)),
+    restoreArchiveRecords(
+      collectionsCollection,
+      archive.collections.map((collection) => ({
+        filter: { userId, id: collection.id },
+        update: {
+          $set: {
+            ...withoutUndefinedFields(collection),
+            createdAtDate: new Date(collection.createdAt),
+            updatedAtDate: new Date(collection.updatedAt),
+            modifiedAt: now,
+          },
+          $setOnInsert: { userId },
+          $inc: { revision: 1 },
+        },
+      })),
+    ),
+    restoreArchiveRecords(upcomingReleasesCollection, timestamped(archive.upcomingReleases)),
+    restoreArchiveRecords(
+      notificationsCollection,
+      archive.notifications.map((notification) => ({
+        filter: { userId, id: notification.id },
+        update: {
+          $set: { ...withoutUndefinedFields(notification), updatedAt: now },
+          $setOnInsert: { userId },
+        },
+      })),
+    ),
+    restoreArchiveRecords(readingSessionsCollection, timestamped(archive.readingSessions)),
+    restoreArchiveRecords(loansCollection, timestamped(archive.loans)),
+    restoreArchiveRecords(
+      userSettingsCollection,
+      archive.settings
+        ? [
+            {
+              filter: { userId },
+              update: {
+                $set: { ...withoutUndefinedFields(archive.settings), updatedAt: now },
+                $setOnInsert: { userId, createdAt: now },
+              },
+            },
+          ]
+        : [],
+    ),
+    restoreArchiveRecords(
+      announcementStatesCollection,
+      archive.announcementStates.map((state) => ({
+        filter: { userId, announcementId: state.announcementId },
+        update: {
+          $set: {
+            ...(state.seenAt ? { seenAt: new Date(state.seenAt) } : {}),
+            ...(state.dismissedAt ? { dismissedAt: new Date(state.dismissedAt) } : {}),
+            updatedAt: now,
+          },
+          $setOnInsert: { userId, createdAt: now },
+        },
+      })),
+    ),
+  ]);
+
+  return {
+    books,
+    series,
+    collections,
+    upcomingReleases,
+    notifications,
+    readingSessions,
+    loans,
+    settings,
+    announcementStates,
+  };
+};
+
+/**
+ * Starts a session for the requesting device and returns its first pair of
+ * tokens. The short-lived access token names the session so revoking the
+ * device cuts it off straight away.
+ */
+const issueSessionTokens = async (
+  request: VercelRequest,
+  user: UserDocument,
+): Promise<{ token: string; refreshToken: string }> => {
+  const userId = user._id!.toString();
+  const { session, refreshToken } = await createSession(
+    userId,
+    getRequestDeviceInfo(request),
+  );
+  const token = signAuthToken({
+    sub: userId,
+    email: user.email,
+    sid: session.id,
+  });
+
+  return { token, refreshToken };
+};
+
+/**
+ * Checks an authenticator code, or failing that a recovery code, for a user
+ * with two-factor authentication on. Each code is only accepted once.
+ */
+const verifySecondFactor = async (
+  user: UserDocument,
+  body: AuthRequestBody,
+): Promise<"totp" | "recovery" | null> => {
+  if (!user._id || !user.twoFactor) {
+    return null;
+  }
+
+  const userId = user._id.toString();
+
+  if (typeof body.code === "string" && body.code.trim()) {
+    const step = verifyTotpCode(user.twoFactor.secret, body.code, new Date());
+
+    if (step !== null && (await recordUserTotpStep(userId, step))) {
+      return "totp";
+    }
+
+    return null;
+  }
+
+  if (typeof body.recoveryCode === "string" && body.recoveryCode.trim()) {
+    const consumed = await consumeUserRecoveryCode(
+      userId,
+      hashRecoveryCode(body.recoveryCode),
+    );
+
+    return consumed ? "recovery" : null;
+  }
+
+  return null;
+};
+
+const handleRegister = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const body = getRequestBody(request);
+  const credentials = validateRegisterCredentials({
+    email: body.email || "",
+    password: body.password || "",
+    preferredName: body.preferredName,
+  });
+
+  const existingUser = await findUserByEmail(credentials.email);
+
+  if (existingUser) {
+    throw new ApiError(409, "CONFLICT", "User already exists.");
+  }
+
+  const passwordHash = await hashPassword(credentials.password);
+  const user = await insertUser({
+    email: credentials.email,
+    passwordHash,
+    preferredName: credentials.preferredName,
+  });
+  const { token, refreshToken } = await issueSessionTokens(request, user);
+
+  return sendJson(response, 201, {
+    token,
+    refreshToken,
+    user: toPublicUser(user),
+  });
+};
+
+const handleLogin = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  await enforceRateLimit(request, LOGIN_RATE_LIMIT);
+
+  const body = getRequestBody(request);
+  const credentials = validateLoginCredentials({
+    email: body.email || "",
+    password: body.password || "",
+  });
+
+  await requireAccountNotLocked(credentials.email);
+
+  const user = await findUserByEmail(credentials.email);
+  const isValidPassword = user
+    ? await verifyPassword(credentials.password, user.passwordHash)
+    : false;
+
+  if (!user || !isValidPassword) {
+    await recordFailedSignIn(request, credentials.email);
+    throw new ApiError(401, "UNAUTHORIZED", "Invalid credentials.");
+  }
+
+  if (user.twoFactor) {
+    return sendJson(response, 200, {
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallengeToken(user._id!.toString()),
+    });
+  }
+
+  await clearFailedSignIns(credentials.email);
+
+  const loggedInUser = await updateUserLastLoginById(user._id!.toString());
+
+  if (!loggedInUser?._id) {
+    throw new ApiError(500, "INTERNAL_SERVER_ERROR", "Failed to update login state.");
+  }
+
+  const { token, refreshToken } = await issueSessionTokens(request, loggedInUser);
+
+  return sendJson(response, 200, {
+    token,
+    refreshToken,
+    user: toPublicUser(loggedInUser),
+  });
+};
+
+const handleMe = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "GET") {
+    return methodNotAllowed(response, ["GET"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  return sendJson(response, 200, toPublicUser(user));
+};
+
+const handleLoginTwoFactor = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  await enforceRateLimit(request, LOGIN_TWO_FACTOR_RATE_LIMIT);
+
+  const body = getRequestBody(request);
+  let userId: string;
+
+  try {
+    userId = verifyTwoFactorChallengeToken(body.challengeToken || "");
+  } catch {
+    throw new ApiError(401, "UNAUTHORIZED", "Sign-in has expired. Please sign in again.");
+  }
+
+  const user = await findUserById(userId);
+
+  if (!user?._id || !user.twoFactor) {
+    throw new ApiError(401, "UNAUTHORIZED", "Sign-in has expired. Please sign in again.");
+  }
+
+  await requireAccountNotLocked(user.email);
+
+  const method = await verifySecondFactor(user, body);
+
+  if (!method) {
+    await recordFailedSignIn(request, user.email);
+    throw new ApiError(401, "INVALID_TWO_FACTOR_CODE", "Code is invalid or expired.");
+  }
+
+  await clearFailedSignIns(user.email);
+
+  const loggedInUser = await updateUserLastLoginById(userId);
+
+  if (!loggedInUser?._id) {
+    throw new ApiError(500, "INTERNAL_SERVER_ERROR", "Failed to update login state.");
+  }
+
+  const { token, refreshToken } = await issueSessionTokens(request, loggedInUser);
+
+  return sendJson(response, 200, {
+    token,
+    refreshToken,
+    user: toPublicUser(loggedInUser),
+    ...(method === "recovery"
+      ? { recoveryCodesRemaining: loggedInUser.twoFactor?.recoveryCodeHashes.length ?? 0 }
+      : {}),
+  });
+};
+
+const handleTwoFactorSetup = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user?._id) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  if (user.twoFactor) {
+    throw new ApiError(409, "CONFLICT", "Two-factor authentication is already on.");
+  }
+
+  const secret = generateTotpSecret();
+  await setUserPendingTwoFactorSecret(authUser.sub, secret);
+
+  return sendJson(response, 200, {
+    secret,
+    otpauthUrl: buildTotpProvisioningUri({
+      accountName: user.email,
+      issuer: TOTP_ISSUER,
+      secret,
+    }),
+  });
+};
+
+const handleTwoFactorEnable = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const body = getRequestBody(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user?._id) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  if (user.twoFactor) {
+    throw new ApiError(409, "CONFLICT", "Two-factor authentication is already on.");
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    throw new ApiError(400, "BAD_REQUEST", "Start two-factor setup first.");
+  }
+
+  const now = new Date();
+  const step = verifyTotpCode(user.twoFactorPendingSecret, body.code || "", now);
+
+  if (step === null) {
+    throw new ApiError(400, "INVALID_TWO_FACTOR_CODE", "Code is invalid or expired.");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const updatedUser = await enableUserTwoFactor(authUser.sub, {
+    secret: user.twoFactorPendingSecret,
+    enabledAt: now,
+    lastUsedStep: step,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+
+  if (!updatedUser?._id) {
+    throw new ApiError(
+      500,
+      "INTERNAL_SERVER_ERROR",
+      "Failed to turn on two-factor authentication.",
+    );
+  }
+
+  await createAdminAuditLog({
+    actorUserId: authUser.sub,
+    actorEmail: user.email,
+    action: "user.two_factor.enabled",
+    targetUserId: authUser.sub,
+    targetUserEmail: user.email,
+  });
+
+  return sendJson(response, 200, {
+    recoveryCodes,
+    user: toPublicUser(updatedUser),
+  });
+};
+
+/**
+ * Turning two-factor off or replacing the recovery codes needs both the
+ * password and a current code, so a stolen session alone cannot do either
+ */
+const requirePasswordAndSecondFactor = async (
+  user: UserDocument,
+  body: AuthRequestBody,
+): Promise<void> => {
+  const currentPassword = validatePassword(body.currentPassword || "");
+
+  if (!user.twoFactor) {
+    throw new ApiError(400, "BAD_REQUEST", "Two-factor authentication is not on.");
+  }
+
+  const isValidPassword = await verifyPassword(currentPassword, user.passwordHash);
+
+  if (!isValidPassword) {
+    throw new ApiError(401, "UNAUTHORIZED", "Current password is incorrect.");
+  }
+
+  if (!(await verifySecondFactor(user, body))) {
+    throw new ApiError(400, "INVALID_TWO_FACTOR_CODE", "Code is invalid or expired.");
+  }
+};
+
+const handleTwoFactorDisable = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const body = getRequestBody(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user?._id) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  if ((user.role || "user") === "admin") {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "Admin accounts must keep two-factor authentication on.",
+    );
+  }
+
+  await requirePasswordAndSecondFactor(user, body);
+  await disableUserTwoFactor(authUser.sub);
+
+  await createAdminAuditLog({
+    actorUserId: authUser.sub,
+    actorEmail: user.email,
+    action: "user.two_factor.disabled",
+    targetUserId: authUser.sub,
+    targetUserEmail: user.email,
+  });
+
+  const updatedUser = await findUserById(authUser.sub);
+
+  return sendJson(response, 200, toPublicUser(updatedUser || user));
+};
+
+const handleTwoFactorRecoveryCodes = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const body = getRequestBody(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user?._id) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  await requirePasswordAndSecondFactor(user, body);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await replaceUserRecoveryCodes(authUser.sub, recoveryCodes.map(hashRecoveryCode));
+
+  return sendJson(response, 200, { recoveryCodes });
+};
+
+const handleAdminResetTwoFactor = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const adminUser = await requireAdminUser(request);
+  const body = getRequestBody(request);
+  const userId = (body.userId || "").trim();
+
+  if (!userId) {
+    throw new ApiError(400, "BAD_REQUEST", "User ID is required.");
+  }
+
+  if (userId === adminUser._id.toString()) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "Admins cannot reset their own two-factor authentication.",
+    );
+  }
+
+  const user = await findUserById(userId);
+
+  if (!user?._id) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  if (!user.twoFactor) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      "Two-factor authentication is not on for this account.",
+    );
+  }
+
+  await disableUserTwoFactor(userId);
+
+  await createAdminAuditLog({
+    actorUserId: adminUser._id.toString(),
+    actorEmail: adminUser.email,
+    action: "admin.user.two_factor_reset",
+    targetUserId: userId,
+    targetUserEmail: user.email,
+    details: {
+      role: user.role || "user",
+    },
+  });
+
+  const updatedUser = await findUserById(userId);
+
+  return sendJson(response, 200, {
+    success: true,
+    user: toPublicUser(updatedUser || user),
+  });
+};
+
+const handleRefresh = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const body = getRequestBody(request);
+  const presentedToken = typeof body.refreshToken === "string" ? body.refreshToken.trim() : "";
+
+  if (!presentedToken) {
+    throw new ApiError(400, "BAD_REQUEST", "Refresh token is required.");
+  }
+
+  const result = await rotateSessionRefreshToken(
+    presentedToken,
+    getRequestDeviceInfo(request),
+  );
+
+  if (result.status === "reused") {
+    console.warn("[AUTH] Refresh token reuse detected; session revoked", {
+      userId: result.session.userId,
+      sessionId: result.session.id,
+    });
+
+    throw new ApiError(
+      401,
+      "REFRESH_TOKEN_REUSED",
+      "This sign-in was used somewhere else and has been ended. Please sign in again.",
+    );
+  }
+
+  if (result.status === "superseded") {
+    throw new ApiError(
+      401,
+      "REFRESH_TOKEN_SUPERSEDED",
+      "This session was refreshed by another request.",
+    );
+  }
+
+  if (result.status !== "rotated") {
+    throw new ApiError(
+      401,
+      "INVALID_REFRESH_TOKEN",
+      "Session has expired. Please sign in again.",
+    );
+  }
+
+  const { session, refreshToken } = result;
+  const user = await findUserById(session.userId);
+
+  if (!user?._id) {
+    throw new ApiError(
+      401,
+      "INVALID_REFRESH_TOKEN",
+      "User account is no longer available.",
+    );
+  }
+
+  if (
+    user.sessionInvalidBefore &&
+    session.createdAt.getTime() <= user.sessionInvalidBefore.getTime()
+  ) {
+    await revokeSession(session.userId, session.id, "account-signed-out");
+
+    throw new ApiError(
+      401,
+      "INVALID_REFRESH_TOKEN",
+      "Session has expired. Please sign in again.",
+    );
+  }
+
+  const token = signAuthToken({
+    sub: user._id.toString(),
+    email: user.email,
+    sid: session.id,
+  });
+
+  return sendJson(response, 200, {
+    token,
+    refreshToken,
+    user: toPublicUser(user),
+  });
+};
+
+const handleSessions = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "GET") {
+    return methodNotAllowed(response, ["GET"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const sessions = await listActiveSessionsByUserId(authUser.sub);
+
+  return sendJson(response, 200, {
+    sessions: sessions.map((session) => toPublicSession(session, authUser.sid)),
+  });
+};
+
+const handleRevokeSession = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const body = getRequestBody(request);
+  const sessionId = (body.sessionId || "").trim();
+
+  if (!sessionId) {
+    throw new ApiError(400, "BAD_REQUEST", "Session ID is required.");
+  }
+
+  const revoked = await revokeSession(authUser.sub, sessionId, "revoked");
+
+  if (!revoked) {
+    throw new ApiError(404, "NOT_FOUND", "Session not found.");
+  }
+
+  return sendJson(response, 200, {
+    success: true,
+    current: sessionId === authUser.sid,
+  });
+};
+
+const handleRevokeSessions = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const revoked = await revokeSessionsByUserId(authUser.sub, "revoked", {
+    exceptSessionId: authUser.sid,
+  });
+
+  console.info("[AUTH] User signed out other devices", {
+    userId: authUser.sub,
+    revoked,
+  });
+
+  return sendJson(response, 200, { success: true, revoked });
+};
+
+/**
+ * Signs this device out. The refresh token identifies the session, so this
+ * still works after the access token has expired.
+ */
+const handleLogout = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const body = getRequestBody(request);
+  const refreshToken = typeof body.refreshToken === "string" ? body.refreshToken.trim() : "";
+
+  if (!refreshToken) {
+    throw new ApiError(400, "BAD_REQUEST", "Refresh token is required.");
+  }
+
+  await revokeSessionByRefreshToken(refreshToken, "signed-out");
+
+  return sendJson(response, 200, { success: true });
+};
+
+const handleDeleteAccount = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "DELETE") {
+    return methodNotAllowed(response, ["DELETE"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  const summary = await deleteOwnedUserData(authUser.sub);
+
+  return sendJson(response, 200, { success: true, summary });
+};
+
+/**
+ * Streams everything the account owns as one JSON document. The top level
+ * matches the in-app backup format, so the file also loads through Import.
+ */
+const handleExportAccount = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "GET") {
+    return methodNotAllowed(response, ["GET"]);
+  }
+
+  const authUser = await requireAuthenticatedUser(request);
+  const user = await findUserById(authUser.sub);
+
+  if (!user) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  const [
+    booksCollection,
+    seriesCollection,
+    collectionsCollection,
+    upcomingReleasesCollection,
+    notificationsCollection,
+    userSettingsCollection,
+    readingSessionsCollection,
+    loansCollection,
+    announcementStatesCollection,
+  ] = await Promise.all([
+    getBooksCollection(),
+    getSeriesCollection(),
+    getCollectionsCollection(),
+    getUpcomingReleasesCollection(),
+    getNotificationsCollection(),
+    getUserSettingsCollection(),
+    getReadingSessionsCollection(),
+    getLoansCollection(),
+    getUserAnnouncementStatesCollection(),
   ]);
+  const exportDate = new Date().toISOString();
+  const counts = {} as Record<AccountArchiveRecordSection, number>;
+
+  response.status(200);
+  response.setHeader("Content-Type", "application/json; charset=utf-8");
+  response.setHeader("Cache-Control", "no-store");
+  response.setHeader(
+    "Content-Disposition",
+    `attachment; filename="book-collection-account-${exportDate.slice(0, 10)}.json"`,
+  );
 
-  const userDeleted = await deleteUserById(userId);
+  // Headers are out from here on, so a failure can only cut the download
+  // short rather than turn into an error response
+  try {
+    await writeResponseChunk(
+      response,
+      JSON.stringify({
+        version: ACCOUNT_ARCHIVE_BACKUP_VERSION,
+        archiveVersion: ACCOUNT_ARCHIVE_VERSION,
+        timestamp: exportDate,
+        account: {
+          email: user.email,
+          preferredName: user.preferredName,
+          createdAt: user.createdAt,
+        },
+      }).slice(0, -1),
+    );
 
-  if (!userDeleted) {
-    throw new ApiError(500, "INTERNAL_SERVER_ERROR", "Failed to delete account.");
+    const streamRecords = <TSchema extends { userId: string }>(
+      section: AccountArchiveRecordSection,
+      collection: Collection<TSchema>,
+    ) => streamArchiveSection(response, section, collection, authUser.sub, "id");
+
+    counts.books = await streamRecords("books", booksCollection);
+    counts.series = await streamRecords("series", seriesCollection);
+    counts.collections = await streamRecords("collections", collectionsCollection);
+    counts.upcomingReleases = await streamRecords("upcomingReleases", upcomingReleasesCollection);
+    counts.notifications = await streamRecords("notifications", notificationsCollection);
+    counts.readingSessions = await streamRecords("readingSessions", readingSessionsCollection);
+    counts.loans = await streamRecords("loans", loansCollection);
+
+    const settings = await userSettingsCollection.findOne(
+      { userId: authUser.sub },
+      { projection: getAccountArchiveProjection("settings") },
+    );
+
+    await writeResponseChunk(response, `,"settings":${JSON.stringify(settings)}`);
+    await streamArchiveSection(
+      response,
+      "announcementStates",
+      announcementStatesCollection,
+      authUser.sub,
+      "announcementId",
+    );
+    await writeResponseChunk(
+      response,
+      `,"metadata":${JSON.stringify({
+        bookCount: counts.books,
+        seriesCount: counts.series,
+        collectionCount: counts.collections,
+        upcomingReleaseCount: counts.upcomingReleases,
+        notificationCount: counts.notifications,
+        readingSessionCount: counts.readingSessions,
+        loanCount: counts.loans,
+        appVersion: ACCOUNT_ARCHIVE_BACKUP_VERSION,
+        exportDate,
+      })}}`,
+    );
+    response.end();
+  } catch (error) {
+    console.error("[AUTH] Account export failed part way", {
+      userId: authUser.sub,
+      error,
+    });
+    response.destroy(error instanceof Error ? error : undefined);
   }
 
-  return {
-    books: booksResult.deletedCount,
-    series: seriesResult.deletedCount,
-    collections: collectionsResult.deletedCount,
-    upcomingReleases: upcomingReleasesResult.deletedCount,
-    notifications: notificationsResult.deletedCount,
-    userSettings: userSettingsResult.deletedCount,
-  };
+  return response;
 };
 
-const handleRegister = async (
+/**
+ * Restores an archive from export-account into the signed-in account. The
+ * whole archive is validated before anything is written, and records are
+ * matched by id, so running the same import twice leaves one copy of each.
+ */
+const handleImportAccount = async (
   request: VercelRequest,
   response: VercelResponse,
 ): Promise<VercelResponse> => {
@@ -385,37 +1594,63 @@ const handleRegister = async (
     return methodNotAllowed(response, ["POST"]);
   }
 
-  const body = getRequestBody(request);
-  const credentials = validateRegisterCredentials({
-    email: body.email || "",
-    password: body.password || "",
-    preferredName: body.preferredName,
+  const authUser = await requireAuthenticatedUser(request);
+  const archive = parseAccountArchive(request.body);
+  const user = await findUserById(authUser.sub);
+
+  if (!user) {
+    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  }
+
+  const summary = await restoreOwnedUserData(authUser.sub, archive);
+
+  console.info("[AUTH] User imported account archive", {
+    userId: authUser.sub,
+    summary,
   });
 
-  const existingUser = await findUserByEmail(credentials.email);
+  return sendJson(response, 200, { success: true, summary });
+};
 
-  if (existingUser) {
-    throw new ApiError(409, "CONFLICT", "User already exists.");
+const handleAdminUsers = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "GET") {
+    return methodNotAllowed(response, ["GET"]);
   }
 
-  const passwordHash = await hashPassword(credentials.password);
-  const user = await insertUser({
-    email: credentials.email,
-    passwordHash,
-    preferredName: credentials.preferredName,
-  });
-  const token = signAuthToken({
-    sub: user._id!.toString(),
-    email: user.email,
-  });
+  await requireAdminUser(request);
 
-  return sendJson(response, 201, {
-    token,
-    user: toPublicUser(user),
-  });
+  if (isUserListPageRequest(request.query)) {
+    const query = parseUserListQuery(request.query);
+    const page = await listUsersPage(query);
+    const lastUser = page.users[page.users.length - 1];
+
+    return sendJson(response, 200, {
+      items: page.users.map((user) => toPublicUser(user)),
+      nextCursor: page.hasMore && lastUser ? encodeUserListCursor(query, lastUser) : null,
+      total: page.total,
+    });
+  }
+
+  const users = await listUsers();
+
+  return sendJson(
+    response,
+    200,
+    users.map((user) => toPublicUser(user)),
+  );
 };
 
-const handleLogin = async (
+/**
+ * Signs out, changes the role of, or deletes several users at once. The
+ * acting admin and users the action would not change are skipped and
+ * reported. A dry run checks the same things and, for deletes, counts what
+ * would be removed, without writing anything. Every affected user gets an
+ * audit entry of their own.
+ */
+const handleAdminUsersBulk = async (
   request: VercelRequest,
   response: VercelResponse,
 ): Promise<VercelResponse> => {
@@ -423,44 +1658,139 @@ const handleLogin = async (
     return methodNotAllowed(response, ["POST"]);
   }
 
+  const adminUser = await requireAdminUser(request);
+  const adminUserId = adminUser._id.toString();
   const body = getRequestBody(request);
-  const credentials = validateLoginCredentials({
-    email: body.email || "",
-    password: body.password || "",
-  });
-  const user = await findUserByEmail(credentials.email);
+  const { operation, role } = body;
+  const dryRun = body.dryRun === true;
+  const userIds = Array.from(
+    new Set(
+      (Array.isArray(body.userIds) ? body.userIds : [])
+        .filter((userId): userId is string => typeof userId === "string")
+        .map((userId) => userId.trim())
+        .filter(Boolean),
+    ),
+  );
 
-  if (!user) {
-    throw new ApiError(401, "UNAUTHORIZED", "Invalid credentials.");
+  if (operation !== "sign-out" && operation !== "set-role" && operation !== "delete") {
+    throw new ApiError(400, "BAD_REQUEST", "A valid bulk operation is required.");
   }
 
-  const isValidPassword = await verifyPassword(
-    credentials.password,
-    user.passwordHash,
+  if (operation === "set-role" && role !== "user" && role !== "admin") {
+    throw new ApiError(400, "BAD_REQUEST", "A valid role is required.");
+  }
+
+  if (userIds.length === 0) {
+    throw new ApiError(400, "BAD_REQUEST", "At least one user ID is required.");
+  }
+
+  if (userIds.length > MAX_BULK_USERS) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `At most ${MAX_BULK_USERS} users can be changed at once.`,
+    );
+  }
+
+  const usersById = new Map(
+    (await findUsersByIds(userIds)).map((user) => [user._id!.toString(), user]),
   );
+  const targets: UserDocument[] = [];
+  const skipped: BulkUserSkip[] = [];
+
+  userIds.forEach((userId) => {
+    const user = usersById.get(userId);
+
+    if (!user) {
+      skipped.push({ userId, reason: "User not found." });
+    } else if (userId === adminUserId) {
+      // The same limits as the single-user actions, which refuse these too
+      skipped.push({ userId, email: user.email, reason: "This is your own account." });
+    } else if (operation === "set-role" && (user.role || "user") === role) {
+      skipped.push({ userId, email: user.email, reason: "Already has this role." });
+    } else {
+      targets.push(user);
+    }
+  });
 
-  if (!isValidPassword) {
-    throw new ApiError(401, "UNAUTHORIZED", "Invalid credentials.");
+  const targetIds = targets.map((user) => user._id!.toString());
+  // Audit entries are chained, so they are appended one after another
+  const writeAuditLogs = async (
+    action: (user: UserDocument) => AdminAuditAction,
+    details: (user: UserDocument) => Record<string, unknown>,
+  ) => {
+    for (const user of targets) {
+      await createAdminAuditLog({
+        actorUserId: adminUserId,
+        actorEmail: adminUser.email,
+        action: action(user),
+        targetUserId: user._id!.toString(),
+        targetUserEmail: user.email,
+        details: { ...details(user), bulk: true },
+      });
+    }
+  };
+  const summaries = new Map<string, DeletedAccountSummary>();
+
+  if (operation === "sign-out" && !dryRun && targets.length > 0) {
+    await invalidateUserSessionsByIds(targetIds);
+    await writeAuditLogs(
+      () => "admin.user.signed_out",
+      () => ({}),
+    );
   }
 
-  const loggedInUser = await updateUserLastLoginById(user._id!.toString());
+  if (operation === "set-role" && !dryRun && targets.length > 0) {
+    const nextRole = role!;
 
-  if (!loggedInUser?._id) {
-    throw new ApiError(500, "INTERNAL_SERVER_ERROR", "Failed to update login state.");
+    await updateUserRolesByIds(targetIds, nextRole);
+    await writeAuditLogs(
+      () => (nextRole === "admin" ? "admin.user.promoted" : "admin.user.demoted"),
+      (user) => ({ previousRole: user.role || "user", nextRole }),
+    );
   }
 
-  const token = signAuthToken({
-    sub: loggedInUser._id.toString(),
-    email: loggedInUser.email,
-  });
+  if (operation === "delete") {
+    // One account at a time, so a failure part way leaves the rest untouched
+    // and every account already deleted has its audit entry
+    for (const user of targets) {
+      const userId = user._id!.toString();
+
+      if (dryRun) {
+        summaries.set(userId, await countOwnedUserData(userId));
+        continue;
+      }
+
+      const summary = await deleteOwnedUserData(userId);
+
+      summaries.set(userId, summary);
+      await createAdminAuditLog({
+        actorUserId: adminUserId,
+        actorEmail: adminUser.email,
+        action: "admin.user.deleted",
+        targetUserId: userId,
+        targetUserEmail: user.email,
+        details: { summary, role: user.role || "user", bulk: true },
+      });
+    }
+  }
 
   return sendJson(response, 200, {
-    token,
-    user: toPublicUser(loggedInUser),
+    success: true,
+    operation,
+    dryRun,
+    affected: targets.map((user) => ({
+      ...toPublicUser(user),
+      ...(operation === "set-role" ? { role } : {}),
+      ...(summaries.has(user._id!.toString())
+        ? { summary: summaries.get(user._id!.toString()) }
+        : {}),
+    })),
+    skipped,
   });
 };
 
-const handleMe = async (
+const handleAdminAuditLogs = async (
   request: VercelRequest,
   response: VercelResponse,
 ): Promise<VercelResponse> => {
@@ -468,37 +1798,86 @@ const handleMe = async (
     return methodNotAllowed(response, ["GET"]);
   }
 
-  const authUser = await requireAuthenticatedUser(request);
-  const user = await findUserById(authUser.sub);
+  await requireAdminUser(request);
 
-  if (!user) {
-    throw new ApiError(404, "NOT_FOUND", "User not found.");
+  if (isAdminAuditLogPageRequest(request.query)) {
+    const page = await listAdminAuditLogsPage(parseAdminAuditLogQuery(request.query));
+    const lastLog = page.logs[page.logs.length - 1];
+
+    return sendJson(response, 200, {
+      items: page.logs.map((log) => toAdminAuditLogEntry(log)),
+      nextCursor: page.hasMore && lastLog ? encodeAdminAuditLogCursor(lastLog) : null,
+      total: page.total,
+    });
   }
 
-  return sendJson(response, 200, toPublicUser(user));
+  const logs = await listAdminAuditLogs(100);
+
+  return sendJson(
+    response,
+    200,
+    logs.map((log) => toAdminAuditLogEntry(log)),
+  );
 };
 
-const handleDeleteAccount = async (
+/**
+ * Streams every audit entry matching the same filters as the list, oldest
+ * first, as CSV or newline-delimited JSON, so it can be archived outside the
+ * retention window and its chain checked independently.
+ */
+const handleAdminAuditLogsExport = async (
   request: VercelRequest,
   response: VercelResponse,
 ): Promise<VercelResponse> => {
-  if (request.method !== "DELETE") {
-    return methodNotAllowed(response, ["DELETE"]);
+  if (request.method !== "GET") {
+    return methodNotAllowed(response, ["GET"]);
   }
 
-  const authUser = await requireAuthenticatedUser(request);
-  const user = await findUserById(authUser.sub);
+  await requireAdminUser(request);
 
-  if (!user) {
-    throw new ApiError(404, "NOT_FOUND", "User not found.");
-  }
+  const format = parseAdminAuditLogExportFormat(request.query);
+  const { limit: _limit, cursor: _cursor, ...filters } = parseAdminAuditLogQuery(request.query);
+  const cursor = await findAdminAuditLogs(filters);
+  const exportDate = new Date().toISOString().slice(0, 10);
 
-  const summary = await deleteOwnedUserData(authUser.sub);
+  response.status(200);
+  response.setHeader(
+    "Content-Type",
+    format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+  );
+  response.setHeader("Cache-Control", "no-store");
+  response.setHeader(
+    "Content-Disposition",
+    `attachment; filename="admin-audit-log-${exportDate}.${format}"`,
+  );
 
-  return sendJson(response, 200, { success: true, summary });
+  // Headers are out from here on, so a failure can only cut the download
+  // short rather than turn into an error response
+  try {
+    if (format === "csv") {
+      await writeResponseChunk(response, `${ADMIN_AUDIT_LOG_CSV_COLUMNS.join(",")}\r\n`);
+    }
+
+    for await (const log of cursor) {
+      const entry = toAdminAuditLogEntry(log);
+
+      await writeResponseChunk(
+        response,
+        format === "csv" ? toAdminAuditLogCsvRow(entry) : `${JSON.stringify(entry)}\n`,
+      );
+    }
+
+    response.end();
+  } catch (error) {
+    console.error("[AUTH] Admin audit log export failed part way", { format, error });
+    await cursor.close();
+    response.destroy(error instanceof Error ? error : undefined);
+  }
+
+  return response;
 };
 
-const handleAdminUsers = async (
+const handleAdminAuditLogsVerify = async (
   request: VercelRequest,
   response: VercelResponse,
 ): Promise<VercelResponse> => {
@@ -507,16 +1886,11 @@ const handleAdminUsers = async (
   }
 
   await requireAdminUser(request);
-  const users = await listUsers();
 
-  return sendJson(
-    response,
-    200,
-    users.map((user) => toPublicUser(user)),
-  );
+  return sendJson(response, 200, await verifyAdminAuditLogChain());
 };
 
-const handleAdminAuditLogs = async (
+const handleAdminLockedAccounts = async (
   request: VercelRequest,
   response: VercelResponse,
 ): Promise<VercelResponse> => {
@@ -525,15 +1899,49 @@ const handleAdminAuditLogs = async (
   }
 
   await requireAdminUser(request);
-  const logs = await listAdminAuditLogs(100);
+  const lockouts = await listLockedAccounts();
 
   return sendJson(
     response,
     200,
-    logs.map((log) => toAdminAuditLogEntry(log)),
+    lockouts.map((lockout) => toLockedAccount(lockout)),
   );
 };
 
+const handleAdminUnlockAccount = async (
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse> => {
+  if (request.method !== "POST") {
+    return methodNotAllowed(response, ["POST"]);
+  }
+
+  const adminUser = await requireAdminUser(request);
+  const body = getRequestBody(request);
+  const email = validateEmail(body.email || "");
+  const lockout = await clearAccountLockout(email);
+
+  if (!lockout) {
+    throw new ApiError(404, "NOT_FOUND", "No failed sign-in attempts are recorded for that email.");
+  }
+
+  const user = await findUserByEmail(email);
+
+  await createAdminAuditLog({
+    actorUserId: adminUser._id.toString(),
+    actorEmail: adminUser.email,
+    action: "admin.user.unlocked",
+    targetUserId: user?._id?.toString(),
+    targetUserEmail: email,
+    details: {
+      failedAttempts: lockout.failedAttempts,
+      lockedUntil: lockout.lockedUntil?.toISOString(),
+    },
+  });
+
+  return sendJson(response, 200, { success: true });
+};
+
 const handleAdminSystemAnnouncements = async (
   request: VercelRequest,
   response: VercelResponse,
@@ -1056,6 +2464,8 @@ const handleAdminResetPassword = async (
     );
   }
 
+  const sessionsRevoked = await revokeSessionsByUserId(userId, "password-changed");
+
   await createAdminAuditLog({
     actorUserId: adminUser._id.toString(),
     actorEmail: adminUser.email,
@@ -1064,6 +2474,7 @@ const handleAdminResetPassword = async (
     targetUserEmail: user.email,
     details: {
       sessionsInvalidated: true,
+      sessionsRevoked,
     },
   });
 
@@ -1122,6 +2533,7 @@ const handleChangeEmail = async (
   const token = signAuthToken({
     sub: updatedUser._id.toString(),
     email: updatedUser.email,
+    sid: authUser.sid,
   });
 
   return sendJson(response, 200, {
@@ -1165,6 +2577,8 @@ const handleChangePassword = async (
     );
   }
 
+  await revokeSessionsByUserId(authUser.sub, "password-changed");
+
   console.info("[AUTH] User changed password", {
     userId: authUser.sub,
   });
@@ -1223,8 +2637,15 @@ const handleForgotPassword = async (
     return methodNotAllowed(response, ["POST"]);
   }
 
+  await enforceRateLimit(request, FORGOT_PASSWORD_RATE_LIMIT);
+
   const body = getRequestBody(request);
   const email = validateEmail(body.email || "");
+
+  await enforceRateLimit(request, FORGOT_PASSWORD_EMAIL_RATE_LIMIT, {
+    subject: `email:${email}`,
+  });
+
   const user = await findUserByEmail(email);
 
   if (user?._id) {
@@ -1252,6 +2673,8 @@ const handleVerifyResetOtp = async (
     return methodNotAllowed(response, ["POST"]);
   }
 
+  await enforceRateLimit(request, RESET_OTP_RATE_LIMIT);
+
   const body = getRequestBody(request);
   const email = validateEmail(body.email || "");
   const otp = getResetOtp(body.otp);
@@ -1260,14 +2683,21 @@ const handleVerifyResetOtp = async (
     throw new ApiError(400, "BAD_REQUEST", "Reset code is required.");
   }
 
+  await requireAccountNotLocked(email);
+
   const user = await findUserByEmail(email);
 
   if (!user?._id) {
+    await recordFailedSignIn(request, email);
     throw new ApiError(400, "INVALID_RESET_OTP", "Code is invalid or expired.");
   }
 
   const result = await verifyPasswordResetOtp(user._id.toString(), otp);
 
+  if (result.status !== "valid") {
+    await recordFailedSignIn(request, email);
+  }
+
   if (result.status === "exhausted") {
     throw new ApiError(
       400,
@@ -1294,6 +2724,8 @@ const handleResetPassword = async (
     return methodNotAllowed(response, ["POST"]);
   }
 
+  await enforceRateLimit(request, RESET_OTP_RATE_LIMIT);
+
   const body = getRequestBody(request);
   const email = validateEmail(body.email || "");
   const otp = getResetOtp(body.otp);
@@ -1303,14 +2735,21 @@ const handleResetPassword = async (
     throw new ApiError(400, "BAD_REQUEST", "Reset code is required.");
   }
 
+  await requireAccountNotLocked(email);
+
   const user = await findUserByEmail(email);
 
   if (!user?._id) {
+    await recordFailedSignIn(request, email);
     throw new ApiError(400, "INVALID_RESET_OTP", "Code is invalid or expired.");
   }
 
   const result = await verifyPasswordResetOtp(user._id.toString(), otp);
 
+  if (result.status !== "valid") {
+    await recordFailedSignIn(request, email);
+  }
+
   if (result.status === "exhausted") {
     throw new ApiError(
       400,
@@ -1335,6 +2774,8 @@ const handleResetPassword = async (
 
   await consumePasswordResetOtp(result.record._id);
   await invalidatePasswordResetOtpsForUser(result.record.userId);
+  await revokeSessionsByUserId(result.record.userId, "password-changed");
+  await clearFailedSignIns(email);
 
   return sendJson(response, 200, {
     success: true,
@@ -1362,18 +2803,78 @@ export default async function handler(
       return await handleMe(request, response);
     }
 
+    if (action === "login-2fa") {
+      return await handleLoginTwoFactor(request, response);
+    }
+
+    if (action === "two-factor-setup") {
+      return await handleTwoFactorSetup(request, response);
+    }
+
+    if (action === "two-factor-enable") {
+      return await handleTwoFactorEnable(request, response);
+    }
+
+    if (action === "two-factor-disable") {
+      return await handleTwoFactorDisable(request, response);
+    }
+
+    if (action === "two-factor-recovery-codes") {
+      return await handleTwoFactorRecoveryCodes(request, response);
+    }
+
+    if (action === "refresh") {
+      return await handleRefresh(request, response);
+    }
+
+    if (action === "sessions") {
+      return await handleSessions(request, response);
+    }
+
+    if (action === "revoke-session") {
+      return await handleRevokeSession(request, response);
+    }
+
+    if (action === "revoke-sessions") {
+      return await handleRevokeSessions(request, response);
+    }
+
+    if (action === "logout") {
+      return await handleLogout(request, response);
+    }
+
     if (action === "account") {
       return await handleDeleteAccount(request, response);
     }
 
+    if (action === "export-account") {
+      return await handleExportAccount(request, response);
+    }
+
+    if (action === "import-account") {
+      return await handleImportAccount(request, response);
+    }
+
     if (action === "admin-users") {
       return await handleAdminUsers(request, response);
     }
 
+    if (action === "admin-users-bulk") {
+      return await handleAdminUsersBulk(request, response);
+    }
+
     if (action === "admin-audit-logs") {
       return await handleAdminAuditLogs(request, response);
     }
 
+    if (action === "admin-audit-logs-export") {
+      return await handleAdminAuditLogsExport(request, response);
+    }
+
+    if (action === "admin-audit-logs-verify") {
+      return await handleAdminAuditLogsVerify(request, response);
+    }
+
     if (action === "admin-system-announcements") {
       return await handleAdminSystemAnnouncements(request, response);
     }
@@ -1414,6 +2915,10 @@ export default async function handler(
       return await handleAdminResetPassword(request, response);
     }
 
+    if (action === "admin-reset-two-factor") {
+      return await handleAdminResetTwoFactor(request, response);
+    }
+
     if (action === "change-email") {
       return await handleChangeEmail(request, response);
     }
@@ -1430,6 +2935,14 @@ export default async function handler(
       return await handleForgotPassword(request, response);
     }
 
+    if (action === "admin-locked-accounts") {
+      return await handleAdminLockedAccounts(request, response);
+    }
+
+    if (action === "admin-unlock-account") {
+      return await handleAdminUnlockAccount(request, response);
+    }
+
     if (action === "verify-reset-otp") {
       return await handleVerifyResetOtp(request, response);
     }
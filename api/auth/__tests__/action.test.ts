@@ -10,6 +10,8 @@ jest.mock("../../../src/server/lib/admin-bootstrap", () => ({
 
 jest.mock("../../../src/server/lib/auth", () => ({
   signAuthToken: jest.fn().mockReturnValue("signed-token"),
+  signTwoFactorChallengeToken: jest.fn().mockReturnValue("challenge-token"),
+  verifyTwoFactorChallengeToken: jest.fn(),
 }));
 
 jest.mock("../../../src/server/lib/email", () => ({
@@ -39,13 +41,35 @@ jest.mock("../../../src/server/middleware/auth", () => ({
   requireAuthenticatedUser: jest.fn(),
 }));
 
+jest.mock("../../../src/server/middleware/rate-limit", () => ({
+  clearFailedSignIns: jest.fn(),
+  enforceRateLimit: jest.fn(),
+  recordFailedSignIn: jest.fn(),
+  requireAccountNotLocked: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/account-lockout", () => ({
+  clearAccountLockout: jest.fn(),
+  listLockedAccounts: jest.fn(),
+  toLockedAccount: jest.fn(),
+}));
+
 jest.mock("../../../src/server/models/user", () => ({
+  consumeUserRecoveryCode: jest.fn(),
   countAdmins: jest.fn(),
+  disableUserTwoFactor: jest.fn(),
+  enableUserTwoFactor: jest.fn(),
   findUserByEmail: jest.fn(),
   findUserById: jest.fn(),
+  findUsersByIds: jest.fn(),
   deleteUserById: jest.fn(),
   insertUser: jest.fn(),
+  invalidateUserSessionsByIds: jest.fn(),
   listUsers: jest.fn(),
+  listUsersPage: jest.fn(),
+  recordUserTotpStep: jest.fn(),
+  replaceUserRecoveryCodes: jest.fn(),
+  setUserPendingTwoFactorSecret: jest.fn(),
   toPublicUser: jest.fn((user) => ({
     id: user._id?.toString?.() || user.id || "user-id",
     email: user.email,
@@ -61,12 +85,16 @@ jest.mock("../../../src/server/models/user", () => ({
   updateUserPasswordById: jest.fn(),
   updateUserPreferredNameById: jest.fn(),
   updateUserRoleById: jest.fn(),
+  updateUserRolesByIds: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/admin-audit-log", () => ({
   createAdminAuditLog: jest.fn(),
+  findAdminAuditLogs: jest.fn(),
   listAdminAuditLogs: jest.fn(),
+  listAdminAuditLogsPage: jest.fn(),
   toAdminAuditLogEntry: jest.fn(),
+  verifyAdminAuditLogChain: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/system-announcement", () => ({
@@ -80,33 +108,51 @@ jest.mock("../../../src/server/models/system-announcement", () => ({
 }));
 
 jest.mock("../../../src/server/models/book", () => ({
+  ensureBookIndexes: jest.fn(),
   getBooksCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/series", () => ({
+  ensureSeriesIndexes: jest.fn(),
   getSeriesCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/collection", () => ({
+  ensureCollectionIndexes: jest.fn(),
   getCollectionsCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/upcoming-release", () => ({
+  ensureUpcomingReleaseIndexes: jest.fn(),
   getUpcomingReleasesCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/notification", () => ({
+  ensureNotificationIndexes: jest.fn(),
   getNotificationsCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/user-settings", () => ({
+  ensureUserSettingsIndexes: jest.fn(),
   getUserSettingsCollection: jest.fn(),
 }));
 
+jest.mock("../../../src/server/models/reading-session", () => ({
+  ensureReadingSessionIndexes: jest.fn(),
+  getReadingSessionsCollection: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  ensureLoanIndexes: jest.fn(),
+  getLoansCollection: jest.fn(),
+}));
+
 jest.mock("../../../src/server/models/user-announcement-state", () => ({
   dismissAnnouncement: jest.fn(),
+  ensureUserAnnouncementStateIndexes: jest.fn(),
   getAnnouncementStateCounts: jest.fn(),
   getUserAnnouncementStates: jest.fn(),
+  getUserAnnouncementStatesCollection: jest.fn(),
   markAnnouncementSeen: jest.fn(),
 }));
 
@@ -117,24 +163,66 @@ jest.mock("../../../src/server/models/password-reset-otp", () => ({
   verifyPasswordResetOtp: jest.fn(),
 }));
 
+jest.mock("../../../src/server/models/session", () => ({
+  createSession: jest.fn().mockResolvedValue({
+    session: { id: "session-1" },
+    refreshToken: "session-1.refresh-secret",
+  }),
+  deleteSessionsByUserId: jest.fn(),
+  listActiveSessionsByUserId: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeSessionByRefreshToken: jest.fn(),
+  revokeSessionsByUserId: jest.fn(),
+  rotateSessionRefreshToken: jest.fn(),
+  toPublicSession: jest.fn(),
+}));
+
 import handler from "../[action]";
-import { signAuthToken } from "@/server/lib/auth";
+import { signAuthToken, verifyTwoFactorChallengeToken } from "@/server/lib/auth";
+import { generateTotpCode, hashRecoveryCode } from "@/server/lib/totp";
 import {
   validateLoginCredentials,
   validateRegisterCredentials,
   verifyPassword,
   hashPassword,
 } from "@/server/lib/password";
+import { RateLimitError } from "@/server/lib/api-response";
 import { requireAuthenticatedUser } from "@/server/middleware/auth";
 import {
+  clearFailedSignIns,
+  enforceRateLimit,
+  recordFailedSignIn,
+  requireAccountNotLocked,
+} from "@/server/middleware/rate-limit";
+import {
+  consumeUserRecoveryCode,
+  enableUserTwoFactor,
   findUserByEmail,
   findUserById,
   insertUser,
+  recordUserTotpStep,
   toPublicUser,
   updateUserEmailById,
   updateUserLastLoginById,
   updateUserPasswordById,
 } from "@/server/models/user";
+import {
+  createSession,
+  listActiveSessionsByUserId,
+  revokeSessionsByUserId,
+  rotateSessionRefreshToken,
+  toPublicSession,
+} from "@/server/models/session";
+import { createAdminAuditLog } from "@/server/models/admin-audit-log";
+import { getBooksCollection } from "@/server/models/book";
+import { getSeriesCollection } from "@/server/models/series";
+import { getCollectionsCollection } from "@/server/models/collection";
+import { getUpcomingReleasesCollection } from "@/server/models/upcoming-release";
+import { getNotificationsCollection } from "@/server/models/notification";
+import { getUserSettingsCollection } from "@/server/models/user-settings";
+import { getReadingSessionsCollection } from "@/server/models/reading-session";
+import { getLoansCollection } from "@/server/models/loan";
+import { getUserAnnouncementStatesCollection } from "@/server/models/user-announcement-state";
 
 type MockResponse = {
   headers: Record<string, string>;
@@ -149,6 +237,7 @@ type HandlerRequest = Parameters<typeof handler>[0];
 type HandlerResponse = Parameters<typeof handler>[1];
 type AuthSuccessBody = {
   token?: string;
+  refreshToken?: string;
   user?: {
     email: string;
   };
@@ -230,10 +319,20 @@ describe("auth action handler", () => {
       passwordHash: "hashed-password",
       preferredName: "Reader",
     });
-    expect(signAuthToken).toHaveBeenCalled();
+    expect(createSession).toHaveBeenCalledWith("user-1", {
+      deviceName: "Unknown device",
+      ip: undefined,
+      userAgent: undefined,
+    });
+    expect(signAuthToken).toHaveBeenCalledWith({
+      sub: "user-1",
+      email: "reader@example.com",
+      sid: "session-1",
+    });
     expect(response.statusCode).toBe(201);
     expect(response.jsonBody).toEqual({
       token: "signed-token",
+      refreshToken: "session-1.refresh-secret",
       user: (toPublicUser as jest.Mock).mock.results[0]?.value || {
         id: "user-1",
         email: "reader@example.com",
@@ -313,10 +412,12 @@ describe("auth action handler", () => {
     await handler(request, response as unknown as HandlerResponse);
 
     expect(verifyPassword).toHaveBeenCalledWith("Password123!", "stored-hash");
+    expect(clearFailedSignIns).toHaveBeenCalledWith("reader@example.com");
     expect(updateUserLastLoginById).toHaveBeenCalledWith("user-1");
     expect(response.statusCode).toBe(200);
     const body = response.jsonBody as AuthSuccessBody;
     expect(body.token).toBe("signed-token");
+    expect(body.refreshToken).toBe("session-1.refresh-secret");
     expect(body.user?.email).toBe("reader@example.com");
   });
 
@@ -352,6 +453,75 @@ describe("auth action handler", () => {
         details: undefined,
       },
     });
+    expect(recordFailedSignIn).toHaveBeenCalledWith(request, "reader@example.com");
+  });
+
+  it("refuses a locked account with 429 and Retry-After before checking the password", async () => {
+    (validateLoginCredentials as jest.Mock).mockReturnValue({
+      email: "reader@example.com",
+      password: "Password123!",
+    });
+    (requireAccountNotLocked as jest.Mock).mockRejectedValueOnce(
+      new RateLimitError(
+        90_000,
+        "Too many failed attempts. Please try again in 2 minutes.",
+        "ACCOUNT_LOCKED",
+      ),
+    );
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "login" },
+      body: {
+        email: "reader@example.com",
+        password: "Password123!",
+      },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(enforceRateLimit).toHaveBeenCalledWith(
+      request,
+      expect.objectContaining({ name: "login" }),
+    );
+    expect(findUserByEmail).not.toHaveBeenCalled();
+    expect(verifyPassword).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(429);
+    expect(response.headers["Retry-After"]).toBe("90");
+    expect(response.jsonBody).toEqual({
+      error: {
+        code: "ACCOUNT_LOCKED",
+        message: "Too many failed attempts. Please try again in 2 minutes.",
+        details: { retryAfterSeconds: 90 },
+      },
+    });
+  });
+
+  it("limits reset emails per address as well as per IP", async () => {
+    (enforceRateLimit as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(
+        new RateLimitError(600_000, "Too many attempts. Please try again in 10 minutes."),
+      );
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "forgot-password" },
+      body: { email: "Reader@Example.com" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(enforceRateLimit).toHaveBeenLastCalledWith(
+      request,
+      expect.objectContaining({ name: "forgot-password-email" }),
+      { subject: "email:reader@example.com" },
+    );
+    expect(findUserByEmail).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(429);
+    expect(response.headers["Retry-After"]).toBe("600");
   });
 
   it("returns the current user for the me route", async () => {
@@ -508,6 +678,7 @@ describe("auth action handler", () => {
 
     expect(hashPassword).toHaveBeenCalledWith("BetterPassword123!");
     expect(updateUserPasswordById).toHaveBeenCalledWith("user-1", "next-hash");
+    expect(revokeSessionsByUserId).toHaveBeenCalledWith("user-1", "password-changed");
     expect(response.statusCode).toBe(200);
     expect(response.jsonBody).toEqual({
       success: true,
@@ -551,4 +722,481 @@ describe("auth action handler", () => {
       },
     });
   });
+
+  it("rotates a refresh token and signs an access token for the same session", async () => {
+    const session = {
+      id: "session-1",
+      userId: "user-1",
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+    };
+
+    (rotateSessionRefreshToken as jest.Mock).mockResolvedValue({
+      status: "rotated",
+      session,
+      refreshToken: "session-1.next-secret",
+    });
+    (findUserById as jest.Mock).mockResolvedValue({
+      _id: { toString: () => "user-1" },
+      email: "reader@example.com",
+      sessionInvalidBefore: new Date("2026-03-01T12:00:00.000Z"),
+    });
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "refresh" },
+      headers: {
+        "user-agent":
+          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36",
+        "x-forwarded-for": "203.0.113.7, 10.0.0.1",
+      },
+      body: { refreshToken: "session-1.refresh-secret" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(rotateSessionRefreshToken).toHaveBeenCalledWith(
+      "session-1.refresh-secret",
+      expect.objectContaining({ deviceName: "Chrome on macOS", ip: "203.0.113.7" }),
+    );
+    expect(signAuthToken).toHaveBeenCalledWith({
+      sub: "user-1",
+      email: "reader@example.com",
+      sid: "session-1",
+    });
+    expect(response.statusCode).toBe(200);
+    const body = response.jsonBody as AuthSuccessBody;
+    expect(body.token).toBe("signed-token");
+    expect(body.refreshToken).toBe("session-1.next-secret");
+  });
+
+  it("rejects a reused refresh token", async () => {
+    (rotateSessionRefreshToken as jest.Mock).mockResolvedValue({
+      status: "reused",
+      session: { id: "session-1", userId: "user-1" },
+    });
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "refresh" },
+      body: { refreshToken: "session-1.old-secret" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(401);
+    expect(response.jsonBody).toMatchObject({
+      error: { code: "REFRESH_TOKEN_REUSED" },
+    });
+    expect(signAuthToken).not.toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it("lists active sessions and flags the current device", async () => {
+    const sessions = [{ id: "session-1" }, { id: "session-2" }];
+
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      sid: "session-2",
+    });
+    (listActiveSessionsByUserId as jest.Mock).mockResolvedValue(sessions);
+    (toPublicSession as jest.Mock).mockImplementation((session, currentSessionId) => ({
+      id: session.id,
+      current: session.id === currentSessionId,
+    }));
+
+    const request = createRequest({
+      method: "GET",
+      query: { action: "sessions" },
+      headers: { authorization: "Bearer signed-token" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(listActiveSessionsByUserId).toHaveBeenCalledWith("user-1");
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual({
+      sessions: [
+        { id: "session-1", current: false },
+        { id: "session-2", current: true },
+      ],
+    });
+  });
+
+  it("signs out every other device but keeps the current one", async () => {
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      sid: "session-2",
+    });
+    (revokeSessionsByUserId as jest.Mock).mockResolvedValue(3);
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "revoke-sessions" },
+      headers: { authorization: "Bearer signed-token" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(revokeSessionsByUserId).toHaveBeenCalledWith("user-1", "revoked", {
+      exceptSessionId: "session-2",
+    });
+    expect(response.jsonBody).toEqual({ success: true, revoked: 3 });
+  });
+
+  describe("two-factor authentication", () => {
+    const secret = "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP";
+    const now = new Date("2026-03-20T12:00:10.000Z");
+    const twoFactorUser = {
+      _id: { toString: () => "user-1" },
+      email: "reader@example.com",
+      passwordHash: "stored-hash",
+      role: "user",
+      twoFactor: {
+        secret,
+        enabledAt: new Date("2026-03-01T12:00:00.000Z"),
+        recoveryCodeHashes: [hashRecoveryCode("abcde-fghjk")],
+      },
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+      updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now, doNotFake: ["nextTick", "setImmediate", "queueMicrotask"] });
+      (verifyTwoFactorChallengeToken as jest.Mock).mockReturnValue("user-1");
+      (findUserById as jest.Mock).mockResolvedValue(twoFactorUser);
+      (updateUserLastLoginById as jest.Mock).mockResolvedValue(twoFactorUser);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("asks for a second step instead of signing in when two-factor is on", async () => {
+      (validateLoginCredentials as jest.Mock).mockReturnValue({
+        email: "reader@example.com",
+        password: "Password123!",
+      });
+      (findUserByEmail as jest.Mock).mockResolvedValue(twoFactorUser);
+      (verifyPassword as jest.Mock).mockResolvedValue(true);
+
+      const request = createRequest({
+        method: "POST",
+        query: { action: "login" },
+        body: { email: "reader@example.com", password: "Password123!" },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(response.jsonBody).toEqual({
+        twoFactorRequired: true,
+        challengeToken: "challenge-token",
+      });
+      expect(createSession).not.toHaveBeenCalled();
+      expect(updateUserLastLoginById).not.toHaveBeenCalled();
+    });
+
+    it("signs in with the authenticator code for the current time step", async () => {
+      (recordUserTotpStep as jest.Mock).mockResolvedValue(true);
+
+      const request = createRequest({
+        method: "POST",
+        query: { action: "login-2fa" },
+        body: { challengeToken: "challenge-token", code: generateTotpCode(secret, now) },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(verifyTwoFactorChallengeToken).toHaveBeenCalledWith("challenge-token");
+      expect(recordUserTotpStep).toHaveBeenCalledWith(
+        "user-1",
+        Math.floor(now.getTime() / 30_000),
+      );
+      expect(response.statusCode).toBe(200);
+      expect((response.jsonBody as AuthSuccessBody).refreshToken).toBe(
+        "session-1.refresh-secret",
+      );
+    });
+
+    it("refuses a code that was already used", async () => {
+      (recordUserTotpStep as jest.Mock).mockResolvedValue(false);
+
+      const request = createRequest({
+        method: "POST",
+        query: { action: "login-2fa" },
+        body: { challengeToken: "challenge-token", code: generateTotpCode(secret, now) },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(response.statusCode).toBe(401);
+      expect(response.jsonBody).toMatchObject({
+        error: { code: "INVALID_TWO_FACTOR_CODE" },
+      });
+      expect(createSession).not.toHaveBeenCalled();
+    });
+
+    it("signs in with a recovery code and reports how many are left", async () => {
+      (consumeUserRecoveryCode as jest.Mock).mockResolvedValue(true);
+      (updateUserLastLoginById as jest.Mock).mockResolvedValue({
+        ...twoFactorUser,
+        twoFactor: { ...twoFactorUser.twoFactor, recoveryCodeHashes: [] },
+      });
+
+      const request = createRequest({
+        method: "POST",
+        query: { action: "login-2fa" },
+        body: { challengeToken: "challenge-token", recoveryCode: "ABCDE FGHJK" },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(consumeUserRecoveryCode).toHaveBeenCalledWith(
+        "user-1",
+        hashRecoveryCode("abcde-fghjk"),
+      );
+      expect(response.statusCode).toBe(200);
+      expect(response.jsonBody).toMatchObject({ recoveryCodesRemaining: 0 });
+    });
+
+    it("turns two-factor on once a code from the new secret checks out", async () => {
+      const pendingUser = {
+        ...twoFactorUser,
+        twoFactor: undefined,
+        twoFactorPendingSecret: secret,
+      };
+
+      (requireAuthenticatedUser as jest.Mock).mockResolvedValue({ sub: "user-1" });
+      (findUserById as jest.Mock).mockResolvedValue(pendingUser);
+      (enableUserTwoFactor as jest.Mock).mockResolvedValue(twoFactorUser);
+
+      const request = createRequest({
+        method: "POST",
+        query: { action: "two-factor-enable" },
+        headers: { authorization: "Bearer signed-token" },
+        body: { code: generateTotpCode(secret, new Date(now.getTime() - 30_000)) },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(response.statusCode).toBe(200);
+      const { recoveryCodes } = response.jsonBody as { recoveryCodes: string[] };
+      expect(recoveryCodes).toHaveLength(10);
+      expect(enableUserTwoFactor).toHaveBeenCalledWith("user-1", {
+        secret,
+        enabledAt: now,
+        lastUsedStep: Math.floor(now.getTime() / 30_000) - 1,
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      });
+      expect(createAdminAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "user.two_factor.enabled",
+          actorUserId: "user-1",
+          targetUserId: "user-1",
+        }),
+      );
+    });
+  });
+
+  describe("account archive", () => {
+    const user = {
+      _id: { toString: () => "user-1" },
+      email: "reader@example.com",
+      preferredName: "Reader",
+      role: "user",
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+      updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+    };
+    const archivedBook = {
+      id: "book-1",
+      title: "The Hobbit",
+      author: "J.R.R. Tolkien",
+      status: "completed",
+      spineColor: 3,
+      addedDate: "2026-01-02T00:00:00.000Z",
+    };
+
+    /** A collection whose finds return the given records and whose writes upsert */
+    const mockArchiveCollection = (records: unknown[] = [], findOneResult: unknown = null) => ({
+      find: jest.fn(() => ({ sort: jest.fn(() => records) })),
+      findOne: jest.fn().mockResolvedValue(findOneResult),
+      bulkWrite: jest.fn((operations: unknown[]) =>
+        Promise.resolve({ upsertedCount: operations.length, matchedCount: 0 }),
+      ),
+    });
+
+    const mockArchiveCollections = (
+      overrides: Partial<Record<string, ReturnType<typeof mockArchiveCollection>>> = {},
+    ) => {
+      const collections = {
+        books: mockArchiveCollection(),
+        series: mockArchiveCollection(),
+        collections: mockArchiveCollection(),
+        upcomingReleases: mockArchiveCollection(),
+        notifications: mockArchiveCollection(),
+        settings: mockArchiveCollection(),
+        readingSessions: mockArchiveCollection(),
+        loans: mockArchiveCollection(),
+        announcementStates: mockArchiveCollection(),
+        ...overrides,
+      };
+
+      (getBooksCollection as jest.Mock).mockResolvedValue(collections.books);
+      (getSeriesCollection as jest.Mock).mockResolvedValue(collections.series);
+      (getCollectionsCollection as jest.Mock).mockResolvedValue(collections.collections);
+      (getUpcomingReleasesCollection as jest.Mock).mockResolvedValue(collections.upcomingReleases);
+      (getNotificationsCollection as jest.Mock).mockResolvedValue(collections.notifications);
+      (getUserSettingsCollection as jest.Mock).mockResolvedValue(collections.settings);
+      (getReadingSessionsCollection as jest.Mock).mockResolvedValue(collections.readingSessions);
+      (getLoansCollection as jest.Mock).mockResolvedValue(collections.loans);
+      (getUserAnnouncementStatesCollection as jest.Mock).mockResolvedValue(
+        collections.announcementStates,
+      );
+
+      return collections;
+    };
+
+    beforeEach(() => {
+      (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+        sub: "user-1",
+        email: "reader@example.com",
+      });
+      (findUserById as jest.Mock).mockResolvedValue(user);
+    });
+
+    it("streams an archive the in-app backup import can read", async () => {
+      const collections = mockArchiveCollections({
+        books: mockArchiveCollection([archivedBook]),
+        settings: mockArchiveCollection([], { defaultView: "grid" }),
+        announcementStates: mockArchiveCollection([
+          { announcementId: "announcement-1", dismissedAt: "2026-03-01T00:00:00.000Z" },
+        ]),
+      });
+      const request = createRequest({ method: "GET", query: { action: "export-account" } });
+      const response = createMockResponse();
+      let body = "";
+      const streamingResponse = Object.assign(response, {
+        write: jest.fn((chunk: string) => {
+          body += chunk;
+          return true;
+        }),
+        end: jest.fn(),
+        destroy: jest.fn(),
+      });
+
+      await handler(request, streamingResponse as unknown as HandlerResponse);
+
+      expect(streamingResponse.end).toHaveBeenCalled();
+      expect(streamingResponse.destroy).not.toHaveBeenCalled();
+      expect(response.headers["Content-Disposition"]).toMatch(
+        /^attachment; filename="book-collection-account-\d{4}-\d{2}-\d{2}\.json"$/,
+      );
+      expect(collections.books.find).toHaveBeenCalledWith(
+        { userId: "user-1" },
+        {
+          projection: { _id: 0, userId: 0, revision: 0, createdAt: 0, updatedAt: 0 },
+        },
+      );
+
+      const archive = JSON.parse(body);
+      expect(archive).toMatchObject({
+        version: "2.0.0",
+        archiveVersion: 1,
+        account: { email: "reader@example.com", preferredName: "Reader" },
+        books: [archivedBook],
+        series: [],
+        loans: [],
+        settings: { defaultView: "grid" },
+        announcementStates: [{ announcementId: "announcement-1" }],
+        metadata: { bookCount: 1, seriesCount: 0, collectionCount: 0 },
+      });
+    });
+
+    it("restores an archive by id so importing it twice keeps one copy", async () => {
+      const collections = mockArchiveCollections();
+      const request = createRequest({
+        method: "POST",
+        query: { action: "import-account" },
+        body: {
+          version: "2.0.0",
+          archiveVersion: 1,
+          books: [archivedBook],
+          announcementStates: [
+            { announcementId: "announcement-1", seenAt: "2026-03-01T00:00:00.000Z" },
+          ],
+        },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(response.statusCode).toBe(200);
+      expect(collections.books.bulkWrite).toHaveBeenCalledWith(
+        [
+          {
+            updateOne: {
+              filter: { userId: "user-1", id: "book-1" },
+              update: expect.objectContaining({
+                $set: expect.objectContaining({ title: "The Hobbit", status: "completed" }),
+                $setOnInsert: expect.objectContaining({ userId: "user-1" }),
+                $inc: { revision: 1 },
+              }),
+              upsert: true,
+            },
+          },
+        ],
+        { ordered: false },
+      );
+      expect(collections.announcementStates.bulkWrite).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            updateOne: expect.objectContaining({
+              filter: { userId: "user-1", announcementId: "announcement-1" },
+            }),
+          }),
+        ],
+        { ordered: false },
+      );
+      expect(collections.series.bulkWrite).not.toHaveBeenCalled();
+      expect(response.jsonBody).toMatchObject({
+        success: true,
+        summary: {
+          books: { created: 1, updated: 0 },
+          series: { created: 0, updated: 0 },
+          announcementStates: { created: 1, updated: 0 },
+        },
+      });
+    });
+
+    it("rejects the whole archive when one record is invalid", async () => {
+      const collections = mockArchiveCollections();
+      const request = createRequest({
+        method: "POST",
+        query: { action: "import-account" },
+        body: {
+          version: "2.0.0",
+          archiveVersion: 1,
+          books: [archivedBook, { id: "book-2", author: "Unknown" }],
+        },
+      });
+      const response = createMockResponse();
+
+      await handler(request, response as unknown as HandlerResponse);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.jsonBody).toMatchObject({
+        error: { message: expect.stringMatching(/^books\[1\]: /) },
+      });
+      expect(collections.books.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
 });
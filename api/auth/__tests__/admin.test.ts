@@ -16,6 +16,8 @@ jest.mock("../../../src/server/lib/admin-bootstrap", () => ({
 
 jest.mock("../../../src/server/lib/auth", () => ({
   signAuthToken: jest.fn(),
+  signTwoFactorChallengeToken: jest.fn().mockReturnValue("challenge-token"),
+  verifyTwoFactorChallengeToken: jest.fn(),
 }));
 
 jest.mock("../../../src/server/lib/email", () => ({
@@ -45,13 +47,35 @@ jest.mock("../../../src/server/middleware/auth", () => ({
   requireAuthenticatedUser: jest.fn(),
 }));
 
+jest.mock("../../../src/server/middleware/rate-limit", () => ({
+  clearFailedSignIns: jest.fn(),
+  enforceRateLimit: jest.fn(),
+  recordFailedSignIn: jest.fn(),
+  requireAccountNotLocked: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/account-lockout", () => ({
+  clearAccountLockout: jest.fn(),
+  listLockedAccounts: jest.fn(),
+  toLockedAccount: jest.fn(),
+}));
+
 jest.mock("../../../src/server/models/user", () => ({
+  consumeUserRecoveryCode: jest.fn(),
   countAdmins: jest.fn(),
+  disableUserTwoFactor: jest.fn(),
+  enableUserTwoFactor: jest.fn(),
   findUserByEmail: jest.fn(),
   findUserById: jest.fn(),
+  findUsersByIds: jest.fn(),
   deleteUserById: jest.fn(),
   insertUser: jest.fn(),
+  invalidateUserSessionsByIds: jest.fn(),
   listUsers: jest.fn(),
+  listUsersPage: jest.fn(),
+  recordUserTotpStep: jest.fn(),
+  replaceUserRecoveryCodes: jest.fn(),
+  setUserPendingTwoFactorSecret: jest.fn(),
   toPublicUser: jest.fn((user) => ({
     id: user._id?.toString?.() || user.id || "user-id",
     email: user.email,
@@ -67,12 +91,17 @@ jest.mock("../../../src/server/models/user", () => ({
   updateUserPasswordById: jest.fn(),
   updateUserPreferredNameById: jest.fn(),
   updateUserRoleById: jest.fn(),
+  updateUserRolesByIds: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/admin-audit-log", () => ({
+  ADMIN_AUDIT_ACTIONS: ["admin.user.promoted", "admin.user.deleted"],
   createAdminAuditLog: jest.fn(),
+  findAdminAuditLogs: jest.fn(),
   listAdminAuditLogs: jest.fn(),
+  listAdminAuditLogsPage: jest.fn(),
   toAdminAuditLogEntry: jest.fn((log) => log),
+  verifyAdminAuditLogChain: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/system-announcement", () => ({
@@ -91,35 +120,55 @@ const mockCollectionsCollection = { deleteMany: jest.fn(), countDocuments: jest.
 const mockUpcomingCollection = { deleteMany: jest.fn(), countDocuments: jest.fn() };
 const mockNotificationsCollection = { deleteMany: jest.fn(), countDocuments: jest.fn() };
 const mockUserSettingsCollection = { deleteMany: jest.fn(), countDocuments: jest.fn() };
+const mockReadingSessionsCollection = { deleteMany: jest.fn(), countDocuments: jest.fn() };
+const mockLoansCollection = { deleteMany: jest.fn(), countDocuments: jest.fn() };
 
 jest.mock("../../../src/server/models/book", () => ({
+  ensureBookIndexes: jest.fn(),
   getBooksCollection: jest.fn(() => Promise.resolve(mockBooksCollection)),
 }));
 
 jest.mock("../../../src/server/models/series", () => ({
+  ensureSeriesIndexes: jest.fn(),
   getSeriesCollection: jest.fn(() => Promise.resolve(mockSeriesCollection)),
 }));
 
 jest.mock("../../../src/server/models/collection", () => ({
+  ensureCollectionIndexes: jest.fn(),
   getCollectionsCollection: jest.fn(() => Promise.resolve(mockCollectionsCollection)),
 }));
 
 jest.mock("../../../src/server/models/upcoming-release", () => ({
+  ensureUpcomingReleaseIndexes: jest.fn(),
   getUpcomingReleasesCollection: jest.fn(() => Promise.resolve(mockUpcomingCollection)),
 }));
 
 jest.mock("../../../src/server/models/notification", () => ({
+  ensureNotificationIndexes: jest.fn(),
   getNotificationsCollection: jest.fn(() => Promise.resolve(mockNotificationsCollection)),
 }));
 
 jest.mock("../../../src/server/models/user-settings", () => ({
+  ensureUserSettingsIndexes: jest.fn(),
   getUserSettingsCollection: jest.fn(() => Promise.resolve(mockUserSettingsCollection)),
 }));
 
+jest.mock("../../../src/server/models/reading-session", () => ({
+  ensureReadingSessionIndexes: jest.fn(),
+  getReadingSessionsCollection: jest.fn(() => Promise.resolve(mockReadingSessionsCollection)),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  ensureLoanIndexes: jest.fn(),
+  getLoansCollection: jest.fn(() => Promise.resolve(mockLoansCollection)),
+}));
+
 jest.mock("../../../src/server/models/user-announcement-state", () => ({
   dismissAnnouncement: jest.fn(),
+  ensureUserAnnouncementStateIndexes: jest.fn(),
   getAnnouncementStateCounts: jest.fn(),
   getUserAnnouncementStates: jest.fn(),
+  getUserAnnouncementStatesCollection: jest.fn(),
   markAnnouncementSeen: jest.fn(),
 }));
 
@@ -130,6 +179,20 @@ jest.mock("../../../src/server/models/password-reset-otp", () => ({
   verifyPasswordResetOtp: jest.fn(),
 }));
 
+jest.mock("../../../src/server/models/session", () => ({
+  createSession: jest.fn().mockResolvedValue({
+    session: { id: "session-1" },
+    refreshToken: "session-1.refresh-secret",
+  }),
+  deleteSessionsByUserId: jest.fn(),
+  listActiveSessionsByUserId: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeSessionByRefreshToken: jest.fn(),
+  revokeSessionsByUserId: jest.fn(),
+  rotateSessionRefreshToken: jest.fn(),
+  toPublicSession: jest.fn(),
+}));
+
 import handler from "../[action]";
 import { hashPassword } from "@/server/lib/password";
 import {
@@ -139,13 +202,25 @@ import {
 import {
   countAdmins,
   deleteUserById,
+  disableUserTwoFactor,
+  findUserByEmail,
   findUserById,
+  findUsersByIds,
+  invalidateUserSessionsByIds,
   listUsers,
+  listUsersPage,
   toPublicUser,
   updateUserPasswordById,
   updateUserRoleById,
+  updateUserRolesByIds,
 } from "@/server/models/user";
-import { createAdminAuditLog } from "@/server/models/admin-audit-log";
+import {
+  createAdminAuditLog,
+  findAdminAuditLogs,
+  listAdminAuditLogsPage,
+} from "@/server/models/admin-audit-log";
+import { clearAccountLockout } from "@/server/models/account-lockout";
+import { deleteSessionsByUserId, revokeSessionsByUserId } from "@/server/models/session";
 
 type HandlerRequest = Parameters<typeof handler>[0];
 type HandlerResponse = Parameters<typeof handler>[1];
@@ -208,6 +283,8 @@ describe("admin auth routes", () => {
     mockUpcomingCollection.deleteMany.mockResolvedValue({ deletedCount: 1 });
     mockNotificationsCollection.deleteMany.mockResolvedValue({ deletedCount: 3 });
     mockUserSettingsCollection.deleteMany.mockResolvedValue({ deletedCount: 1 });
+    mockReadingSessionsCollection.deleteMany.mockResolvedValue({ deletedCount: 4 });
+    mockLoansCollection.deleteMany.mockResolvedValue({ deletedCount: 2 });
   });
 
   it("blocks non-admin access to admin users", async () => {
@@ -258,6 +335,201 @@ describe("admin auth routes", () => {
     expect(response.jsonBody).toEqual([(toPublicUser as jest.Mock).mock.results[0]?.value]);
   });
 
+  it("pages through users matching the directory filters", async () => {
+    const lastUser = {
+      _id: { toString: () => "65f9a0c0e4b0a1b2c3d4e5f6" },
+      email: "reader@example.com",
+      role: "user",
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+      updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+    };
+    (listUsersPage as jest.Mock).mockResolvedValue({
+      users: [lastUser],
+      hasMore: true,
+      total: 3,
+    });
+
+    const request = createRequest({
+      method: "GET",
+      query: {
+        action: "admin-users",
+        q: "reader",
+        role: "user",
+        inactiveDays: "30",
+        limit: "1",
+        sort: "email",
+        order: "asc",
+      },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(listUsers).not.toHaveBeenCalled();
+    expect(listUsersPage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        limit: 1,
+        sort: "email",
+        order: "asc",
+        search: "reader",
+        role: "user",
+        inactiveDays: 30,
+      }),
+    );
+    expect(response.statusCode).toBe(200);
+
+    const body = response.jsonBody as { items: unknown[]; nextCursor: string; total: number };
+    expect(body.items).toHaveLength(1);
+    expect(body.total).toBe(3);
+    expect(JSON.parse(Buffer.from(body.nextCursor, "base64url").toString("utf8"))).toEqual([
+      "email",
+      "asc",
+      "reader@example.com",
+      "65f9a0c0e4b0a1b2c3d4e5f6",
+    ]);
+  });
+
+  it("signs out several users at once with an audit log for each, skipping the admin", async () => {
+    const readers = ["user-1", "user-2"].map((id) => ({
+      _id: { toString: () => id },
+      email: `${id}@example.com`,
+      role: "user",
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+      updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+    }));
+    (findUsersByIds as jest.Mock).mockResolvedValue([...readers, adminUser]);
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "admin-users-bulk" },
+      body: {
+        operation: "sign-out",
+        userIds: ["user-1", "user-2", "admin-1", "user-missing", "user-1"],
+      },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(200);
+    expect(invalidateUserSessionsByIds).toHaveBeenCalledWith(["user-1", "user-2"]);
+    expect(createAdminAuditLog).toHaveBeenCalledTimes(2);
+    expect(createAdminAuditLog).toHaveBeenCalledWith({
+      actorUserId: "admin-1",
+      actorEmail: "admin@example.com",
+      action: "admin.user.signed_out",
+      targetUserId: "user-2",
+      targetUserEmail: "user-2@example.com",
+      details: { bulk: true },
+    });
+    expect(response.jsonBody).toMatchObject({
+      operation: "sign-out",
+      dryRun: false,
+      affected: [{ id: "user-1" }, { id: "user-2" }],
+      skipped: [
+        { userId: "admin-1", reason: "This is your own account." },
+        { userId: "user-missing", reason: "User not found." },
+      ],
+    });
+  });
+
+  it("changes roles in bulk, leaving users who already have the role alone", async () => {
+    (findUsersByIds as jest.Mock).mockResolvedValue([
+      {
+        _id: { toString: () => "user-1" },
+        email: "reader@example.com",
+        role: "user",
+        createdAt: new Date("2026-03-19T12:00:00.000Z"),
+        updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+      },
+      {
+        _id: { toString: () => "user-2" },
+        email: "editor@example.com",
+        role: "admin",
+        createdAt: new Date("2026-03-19T12:00:00.000Z"),
+        updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+      },
+    ]);
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "admin-users-bulk" },
+      body: { operation: "set-role", role: "admin", userIds: ["user-1", "user-2"] },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(updateUserRolesByIds).toHaveBeenCalledWith(["user-1"], "admin");
+    expect(createAdminAuditLog).toHaveBeenCalledTimes(1);
+    expect(createAdminAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "admin.user.promoted",
+        targetUserId: "user-1",
+        details: { previousRole: "user", nextRole: "admin", bulk: true },
+      }),
+    );
+    expect(response.jsonBody).toMatchObject({
+      affected: [{ id: "user-1", role: "admin" }],
+      skipped: [{ userId: "user-2", reason: "Already has this role." }],
+    });
+  });
+
+  it("counts what a bulk delete would remove without deleting on a dry run", async () => {
+    (findUsersByIds as jest.Mock).mockResolvedValue([
+      {
+        _id: { toString: () => "user-1" },
+        email: "reader@example.com",
+        role: "user",
+        createdAt: new Date("2026-03-19T12:00:00.000Z"),
+        updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+      },
+    ]);
+    [
+      mockBooksCollection,
+      mockSeriesCollection,
+      mockCollectionsCollection,
+      mockUpcomingCollection,
+      mockNotificationsCollection,
+      mockUserSettingsCollection,
+      mockReadingSessionsCollection,
+      mockLoansCollection,
+    ].forEach((collection) => collection.countDocuments.mockResolvedValue(2));
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "admin-users-bulk" },
+      body: { operation: "delete", dryRun: true, userIds: ["user-1"] },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(200);
+    expect(mockBooksCollection.deleteMany).not.toHaveBeenCalled();
+    expect(deleteUserById).not.toHaveBeenCalled();
+    expect(createAdminAuditLog).not.toHaveBeenCalled();
+    expect(response.jsonBody).toMatchObject({
+      operation: "delete",
+      dryRun: true,
+      affected: [
+        {
+          id: "user-1",
+          summary: {
+            books: 2,
+            series: 2,
+            collections: 2,
+            upcomingReleases: 2,
+            notifications: 2,
+            userSettings: 2,
+            readingSessions: 2,
+            loans: 2,
+          },
+        },
+      ],
+    });
+  });
+
   it("promotes a user to admin and writes an audit log", async () => {
     const user = {
       _id: { toString: () => "user-1" },
@@ -349,6 +621,7 @@ describe("admin auth routes", () => {
     (findUserById as jest.Mock).mockResolvedValue(user);
     (hashPassword as jest.Mock).mockResolvedValue("hashed-temp-password");
     (updateUserPasswordById as jest.Mock).mockResolvedValue(true);
+    (revokeSessionsByUserId as jest.Mock).mockResolvedValue(2);
 
     const request = createRequest({
       method: "POST",
@@ -363,6 +636,7 @@ describe("admin auth routes", () => {
 
     expect(hashPassword).toHaveBeenCalledWith("temporary-password-123");
     expect(updateUserPasswordById).toHaveBeenCalledWith("user-1", "hashed-temp-password");
+    expect(revokeSessionsByUserId).toHaveBeenCalledWith("user-1", "password-changed");
     expect(createAdminAuditLog).toHaveBeenCalledWith({
       actorUserId: "admin-1",
       actorEmail: "admin@example.com",
@@ -371,6 +645,7 @@ describe("admin auth routes", () => {
       targetUserEmail: "reader@example.com",
       details: {
         sessionsInvalidated: true,
+        sessionsRevoked: 2,
       },
     });
     expect(response.statusCode).toBe(200);
@@ -382,6 +657,77 @@ describe("admin auth routes", () => {
     });
   });
 
+  it("resets another user's two-factor authentication and writes an audit log", async () => {
+    const user = {
+      _id: { toString: () => "user-1" },
+      email: "reader@example.com",
+      role: "user",
+      twoFactor: { secret: "SECRET", enabledAt: new Date(), recoveryCodeHashes: [] },
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+      updatedAt: new Date("2026-03-19T12:00:00.000Z"),
+    };
+
+    (findUserById as jest.Mock).mockResolvedValue(user);
+    (disableUserTwoFactor as jest.Mock).mockResolvedValue(true);
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "admin-reset-two-factor" },
+      body: { userId: "user-1" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(disableUserTwoFactor).toHaveBeenCalledWith("user-1");
+    expect(createAdminAuditLog).toHaveBeenCalledWith({
+      actorUserId: "admin-1",
+      actorEmail: "admin@example.com",
+      action: "admin.user.two_factor_reset",
+      targetUserId: "user-1",
+      targetUserEmail: "reader@example.com",
+      details: {
+        role: "user",
+      },
+    });
+    expect(response.statusCode).toBe(200);
+  });
+
+  it("unlocks an account locked out by failed sign-ins and writes an audit log", async () => {
+    (clearAccountLockout as jest.Mock).mockResolvedValue({
+      email: "reader@example.com",
+      failedAttempts: 7,
+      lockedUntil: new Date("2026-03-19T12:04:00.000Z"),
+    });
+    (findUserByEmail as jest.Mock).mockResolvedValue({
+      _id: { toString: () => "user-1" },
+      email: "reader@example.com",
+    });
+
+    const request = createRequest({
+      method: "POST",
+      query: { action: "admin-unlock-account" },
+      body: { email: " Reader@Example.com " },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(clearAccountLockout).toHaveBeenCalledWith("reader@example.com");
+    expect(createAdminAuditLog).toHaveBeenCalledWith({
+      actorUserId: "admin-1",
+      actorEmail: "admin@example.com",
+      action: "admin.user.unlocked",
+      targetUserId: "user-1",
+      targetUserEmail: "reader@example.com",
+      details: {
+        failedAttempts: 7,
+        lockedUntil: "2026-03-19T12:04:00.000Z",
+      },
+    });
+    expect(response.statusCode).toBe(200);
+  });
+
   it("deletes another user account, returns a summary, and writes an audit log", async () => {
     const user = {
       _id: { toString: () => "user-1" },
@@ -407,6 +753,7 @@ describe("admin auth routes", () => {
     await handler(request, response as unknown as HandlerResponse);
 
     expect(deleteUserById).toHaveBeenCalledWith("user-1");
+    expect(deleteSessionsByUserId).toHaveBeenCalledWith("user-1");
     expect(createAdminAuditLog).toHaveBeenCalledWith({
       actorUserId: "admin-1",
       actorEmail: "admin@example.com",
@@ -421,6 +768,8 @@ describe("admin auth routes", () => {
           upcomingReleases: 1,
           notifications: 3,
           userSettings: 1,
+          readingSessions: 4,
+          loans: 2,
         },
         role: "user",
       },
@@ -441,6 +790,8 @@ describe("admin auth routes", () => {
         upcomingReleases: 1,
         notifications: 3,
         userSettings: 1,
+        readingSessions: 4,
+        loans: 2,
       },
     });
   });
@@ -466,4 +817,107 @@ describe("admin auth routes", () => {
       },
     });
   });
+
+  it("pages audit logs filtered by actor and date", async () => {
+    const log = {
+      _id: { toString: () => "65f9a0c0e4b0a1b2c3d4e5f6" },
+      actorUserId: "admin-1",
+      actorEmail: "admin@example.com",
+      action: "admin.user.deleted",
+      createdAt: new Date("2026-03-19T12:00:00.000Z"),
+    };
+    (listAdminAuditLogsPage as jest.Mock).mockResolvedValue({ logs: [log], hasMore: true, total: 3 });
+
+    const request = createRequest({
+      method: "GET",
+      query: {
+        action: "admin-audit-logs",
+        limit: "1",
+        actor: "Admin@Example.com",
+        from: "2026-03-01",
+        to: "2026-03-31",
+      },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(200);
+    expect(listAdminAuditLogsPage).toHaveBeenCalledWith({
+      limit: 1,
+      cursor: undefined,
+      actions: undefined,
+      actor: "Admin@Example.com",
+      target: undefined,
+      created: {
+        from: new Date("2026-03-01T00:00:00.000Z"),
+        before: new Date("2026-04-01T00:00:00.000Z"),
+      },
+    });
+    expect(response.jsonBody).toEqual({
+      items: [log],
+      nextCursor: Buffer.from(
+        JSON.stringify(["2026-03-19T12:00:00.000Z", "65f9a0c0e4b0a1b2c3d4e5f6"]),
+      ).toString("base64url"),
+      total: 3,
+    });
+  });
+
+  it("rejects an audit action filter that is not a known action", async () => {
+    const request = createRequest({
+      method: "GET",
+      query: { action: "admin-audit-logs", auditAction: "admin.user.promoted,admin.user.renamed" },
+    });
+    const response = createMockResponse();
+
+    await handler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(400);
+    expect(listAdminAuditLogsPage).not.toHaveBeenCalled();
+  });
+
+  it("streams audit logs as CSV with formula-like cells neutralized", async () => {
+    const cursor = {
+      async *[Symbol.asyncIterator]() {
+        yield {
+          id: "log-1",
+          createdAt: "2026-03-19T12:00:00.000Z",
+          action: "admin.user.promoted",
+          actorUserId: "admin-1",
+          actorEmail: "admin@example.com",
+          targetUserId: "user-1",
+          targetUserEmail: "=cmd@example.com",
+          details: { previousRole: "user", nextRole: "admin" },
+          sequence: 7,
+        };
+      },
+      close: jest.fn(),
+    };
+    (findAdminAuditLogs as jest.Mock).mockResolvedValue(cursor);
+
+    const request = createRequest({
+      method: "GET",
+      query: { action: "admin-audit-logs-export", format: "csv" },
+    });
+    const response = createMockResponse();
+    let body = "";
+    const streamingResponse = Object.assign(response, {
+      write: jest.fn((chunk: string) => {
+        body += chunk;
+        return true;
+      }),
+      end: jest.fn(),
+      destroy: jest.fn(),
+    });
+
+    await handler(request, streamingResponse as unknown as HandlerResponse);
+
+    expect(streamingResponse.end).toHaveBeenCalled();
+    expect(response.headers["Content-Type"]).toBe("text/csv; charset=utf-8");
+    expect(body.split("\r\n")).toEqual([
+      "id,createdAt,action,actorUserId,actorEmail,targetUserId,targetUserEmail,details,sequence,previousHash,hash",
+      'log-1,2026-03-19T12:00:00.000Z,admin.user.promoted,admin-1,admin@example.com,user-1,\'=cmd@example.com,"{""previousRole"":""user"",""nextRole"":""admin""}",7,,',
+      "",
+    ]);
+  });
 });
@@ -10,6 +10,8 @@ jest.mock("../../../src/server/lib/admin-bootstrap", () => ({
 
 jest.mock("../../../src/server/lib/auth", () => ({
   signAuthToken: jest.fn(),
+  signTwoFactorChallengeToken: jest.fn().mockReturnValue("challenge-token"),
+  verifyTwoFactorChallengeToken: jest.fn(),
 }));
 
 jest.mock("../../../src/server/lib/email", () => ({
@@ -39,25 +41,51 @@ jest.mock("../../../src/server/middleware/auth", () => ({
   requireAuthenticatedUser: jest.fn(),
 }));
 
+jest.mock("../../../src/server/middleware/rate-limit", () => ({
+  clearFailedSignIns: jest.fn(),
+  enforceRateLimit: jest.fn(),
+  recordFailedSignIn: jest.fn(),
+  requireAccountNotLocked: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/account-lockout", () => ({
+  clearAccountLockout: jest.fn(),
+  listLockedAccounts: jest.fn(),
+  toLockedAccount: jest.fn(),
+}));
+
 jest.mock("../../../src/server/models/user", () => ({
+  consumeUserRecoveryCode: jest.fn(),
   countAdmins: jest.fn(),
+  disableUserTwoFactor: jest.fn(),
+  enableUserTwoFactor: jest.fn(),
   findUserByEmail: jest.fn(),
   findUserById: jest.fn(),
+  findUsersByIds: jest.fn(),
   deleteUserById: jest.fn(),
   insertUser: jest.fn(),
+  invalidateUserSessionsByIds: jest.fn(),
   listUsers: jest.fn(),
+  listUsersPage: jest.fn(),
+  recordUserTotpStep: jest.fn(),
+  replaceUserRecoveryCodes: jest.fn(),
+  setUserPendingTwoFactorSecret: jest.fn(),
   toPublicUser: jest.fn(),
   updateUserEmailById: jest.fn(),
   updateUserLastLoginById: jest.fn(),
   updateUserPasswordById: jest.fn(),
   updateUserPreferredNameById: jest.fn(),
   updateUserRoleById: jest.fn(),
+  updateUserRolesByIds: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/admin-audit-log", () => ({
   createAdminAuditLog: jest.fn(),
+  findAdminAuditLogs: jest.fn(),
   listAdminAuditLogs: jest.fn(),
+  listAdminAuditLogsPage: jest.fn(),
   toAdminAuditLogEntry: jest.fn(),
+  verifyAdminAuditLogChain: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/system-announcement", () => ({
@@ -81,33 +109,51 @@ jest.mock("../../../src/server/models/system-announcement", () => ({
 }));
 
 jest.mock("../../../src/server/models/book", () => ({
+  ensureBookIndexes: jest.fn(),
   getBooksCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/series", () => ({
+  ensureSeriesIndexes: jest.fn(),
   getSeriesCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/collection", () => ({
+  ensureCollectionIndexes: jest.fn(),
   getCollectionsCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/upcoming-release", () => ({
+  ensureUpcomingReleaseIndexes: jest.fn(),
   getUpcomingReleasesCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/notification", () => ({
+  ensureNotificationIndexes: jest.fn(),
   getNotificationsCollection: jest.fn(),
 }));
 
 jest.mock("../../../src/server/models/user-settings", () => ({
+  ensureUserSettingsIndexes: jest.fn(),
   getUserSettingsCollection: jest.fn(),
 }));
 
+jest.mock("../../../src/server/models/reading-session", () => ({
+  ensureReadingSessionIndexes: jest.fn(),
+  getReadingSessionsCollection: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  ensureLoanIndexes: jest.fn(),
+  getLoansCollection: jest.fn(),
+}));
+
 jest.mock("../../../src/server/models/user-announcement-state", () => ({
   dismissAnnouncement: jest.fn(),
+  ensureUserAnnouncementStateIndexes: jest.fn(),
   getAnnouncementStateCounts: jest.fn(),
   getUserAnnouncementStates: jest.fn(),
+  getUserAnnouncementStatesCollection: jest.fn(),
   markAnnouncementSeen: jest.fn(),
 }));
 
@@ -118,6 +164,20 @@ jest.mock("../../../src/server/models/password-reset-otp", () => ({
   verifyPasswordResetOtp: jest.fn(),
 }));
 
+jest.mock("../../../src/server/models/session", () => ({
+  createSession: jest.fn().mockResolvedValue({
+    session: { id: "session-1" },
+    refreshToken: "session-1.refresh-secret",
+  }),
+  deleteSessionsByUserId: jest.fn(),
+  listActiveSessionsByUserId: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeSessionByRefreshToken: jest.fn(),
+  revokeSessionsByUserId: jest.fn(),
+  rotateSessionRefreshToken: jest.fn(),
+  toPublicSession: jest.fn(),
+}));
+
 import handler from "../[action]";
 import { requireAuthenticatedUser } from "@/server/middleware/auth";
 import {
@@ -2,6 +2,11 @@ import { VercelRequest, VercelResponse } from "@vercel/node";
 
 import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
 import { validateUpdateBookPayload } from "../../src/server/lib/book-payload.js";
+import {
+  getRevisionPrecondition,
+  revisionConflictError,
+  setETag,
+} from "../../src/server/lib/revision.js";
 import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
 import {
   deleteBook,
@@ -9,6 +14,8 @@ import {
   toPublicBook,
   updateBook,
 } from "../../src/server/models/book.js";
+import { deleteLoansByBookId } from "../../src/server/models/loan.js";
+import { deleteReadingSessionsByBookId } from "../../src/server/models/reading-session.js";
 
 const getBookIdFromRequest = (request: VercelRequest): string => {
   const rawId = request.query.id;
@@ -36,17 +43,26 @@ export default async function handler(
         throw new ApiError(404, "NOT_FOUND", "Book not found.");
       }
 
+      setETag(response, book.revision ?? 0);
       return sendJson(response, 200, toPublicBook(book));
     }
 
     if (request.method === "PUT") {
       const updates = validateUpdateBookPayload(request.body);
-      const book = await updateBook(authUser.sub, id, updates);
+      const precondition = getRevisionPrecondition(request);
+      const book = await updateBook(authUser.sub, id, updates, precondition?.revision);
 
       if (!book) {
+        const current = precondition ? await findBookById(authUser.sub, id) : null;
+
+        if (precondition && current) {
+          throw revisionConflictError(precondition, "Book", toPublicBook(current));
+        }
+
         throw new ApiError(404, "NOT_FOUND", "Book not found.");
       }
 
+      setETag(response, book.revision ?? 0);
       return sendJson(response, 200, toPublicBook(book));
     }
 
@@ -57,6 +73,9 @@ export default async function handler(
         throw new ApiError(404, "NOT_FOUND", "Book not found.");
       }
 
+      await deleteReadingSessionsByBookId(authUser.sub, id);
+      await deleteLoansByBookId(authUser.sub, id);
+
       return sendJson(response, 200, { success: true });
     }
 
@@ -0,0 +1,190 @@
+jest.mock("../../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/book", () => ({
+  buildCollectionRulesFilter: jest.fn(),
+  deleteBooks: jest.fn(),
+  findBookById: jest.fn(),
+  findBooksByIds: jest.fn(),
+  insertBook: jest.fn(),
+  listBooksByUserId: jest.fn(),
+  toPublicBook: jest.fn((book) => book),
+  updateBooks: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/collection", () => ({
+  findCollectionById: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/series", () => ({
+  listSeriesByUserId: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/reading-session", () => ({
+  deleteReadingSessionsByBookIds: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  deleteLoansByBookIds: jest.fn(),
+}));
+
+import booksHandler from "../index";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { deleteBooks, findBooksByIds, updateBooks } from "@/server/models/book";
+import { deleteLoansByBookIds } from "@/server/models/loan";
+import { deleteReadingSessionsByBookIds } from "@/server/models/reading-session";
+
+type HandlerRequest = Parameters<typeof booksHandler>[0];
+type HandlerResponse = Parameters<typeof booksHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (overrides: Record<string, unknown> = {}) =>
+  ({
+    body: {},
+    headers: {},
+    method: "PATCH",
+    query: {},
+    ...overrides,
+  }) as unknown as HandlerRequest;
+
+describe("bulk book routes", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+    (findBooksByIds as jest.Mock).mockImplementation(async (_userId: string, ids: string[]) =>
+      ids.map((id) => ({ id })),
+    );
+  });
+
+  it("applies the shared patch and per-book patches in one update", async () => {
+    (updateBooks as jest.Mock).mockResolvedValue([{ id: "book-1" }, { id: "book-2" }]);
+
+    const request = createRequest({
+      body: {
+        ids: ["book-1", "book-2"],
+        patch: { seriesId: "series-1", isPartOfSeries: true },
+        patches: {
+          "book-1": { seriesPosition: 1 },
+          "book-2": { seriesPosition: 2 },
+        },
+      },
+    });
+    const response = createMockResponse();
+
+    await booksHandler(request, response as unknown as HandlerResponse);
+
+    expect(updateBooks).toHaveBeenCalledWith("user-1", {
+      "book-1": { seriesId: "series-1", isPartOfSeries: true, seriesPosition: 1 },
+      "book-2": { seriesId: "series-1", isPartOfSeries: true, seriesPosition: 2 },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual([{ id: "book-1" }, { id: "book-2" }]);
+  });
+
+  it("clears fields sent as null so a batch can be reverted", async () => {
+    (updateBooks as jest.Mock).mockResolvedValue([{ id: "book-1" }]);
+
+    const request = createRequest({
+      body: { ids: ["book-1"], patch: { rating: null, status: "reading" } },
+    });
+    const response = createMockResponse();
+
+    await booksHandler(request, response as unknown as HandlerResponse);
+
+    expect(updateBooks).toHaveBeenCalledWith("user-1", {
+      "book-1": { rating: undefined, status: "reading" },
+    });
+  });
+
+  it("returns 404 without changing anything when a book is not owned by the user", async () => {
+    (findBooksByIds as jest.Mock).mockResolvedValue([{ id: "book-1" }]);
+
+    const request = createRequest({
+      body: { ids: ["book-1", "book-2"], patch: { status: "completed" } },
+    });
+    const response = createMockResponse();
+
+    await booksHandler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(404);
+    expect(updateBooks).not.toHaveBeenCalled();
+  });
+
+  it("rejects a bulk update without changes or ids", async () => {
+    const emptyPatch = createMockResponse();
+    await booksHandler(
+      createRequest({ body: { ids: ["book-1"], patch: {} } }),
+      emptyPatch as unknown as HandlerResponse,
+    );
+
+    const noIds = createMockResponse();
+    await booksHandler(
+      createRequest({ body: { ids: [], patch: { status: "completed" } } }),
+      noIds as unknown as HandlerResponse,
+    );
+
+    const strayPatch = createMockResponse();
+    await booksHandler(
+      createRequest({ body: { ids: ["book-1"], patches: { "book-2": { rating: 3 } } } }),
+      strayPatch as unknown as HandlerResponse,
+    );
+
+    expect(emptyPatch.statusCode).toBe(400);
+    expect(noIds.statusCode).toBe(400);
+    expect(strayPatch.statusCode).toBe(400);
+    expect(updateBooks).not.toHaveBeenCalled();
+  });
+
+  it("deletes many books and their reading sessions", async () => {
+    const request = createRequest({
+      method: "DELETE",
+      body: { ids: ["book-1", "book-2", "book-1"] },
+    });
+    const response = createMockResponse();
+
+    await booksHandler(request, response as unknown as HandlerResponse);
+
+    expect(deleteBooks).toHaveBeenCalledWith("user-1", ["book-1", "book-2"]);
+    expect(deleteReadingSessionsByBookIds).toHaveBeenCalledWith("user-1", ["book-1", "book-2"]);
+    expect(deleteLoansByBookIds).toHaveBeenCalledWith("user-1", ["book-1", "book-2"]);
+    expect(response.jsonBody).toEqual({ success: true, deletedIds: ["book-1", "book-2"] });
+  });
+});
@@ -0,0 +1,302 @@
+jest.mock("../../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/book", () => ({
+  buildCollectionRulesFilter: jest.fn(),
+  deleteBooks: jest.fn(),
+  findBookById: jest.fn(),
+  findBooksByIds: jest.fn(),
+  insertBook: jest.fn(),
+  listBooksByUserId: jest.fn(),
+  listBooksPage: jest.fn(),
+  toPublicBook: jest.fn((book) => book),
+  updateBooks: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/collection", () => ({
+  findCollectionById: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/series", () => ({
+  listSeriesByUserId: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/reading-session", () => ({
+  deleteReadingSessionsByBookIds: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  deleteLoansByBookIds: jest.fn(),
+}));
+
+import booksHandler from "../index";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import {
+  buildCollectionRulesFilter,
+  listBooksByUserId,
+  listBooksPage,
+} from "@/server/models/book";
+import { findCollectionById } from "@/server/models/collection";
+import { listSeriesByUserId } from "@/server/models/series";
+
+type HandlerRequest = Parameters<typeof booksHandler>[0];
+type HandlerResponse = Parameters<typeof booksHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (query: Record<string, string | string[]> = {}) =>
+  ({
+    body: {},
+    headers: {},
+    method: "GET",
+    query,
+  }) as unknown as HandlerRequest;
+
+const createBook = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: `Book ${id}`,
+  author: "Author",
+  spineColor: 1,
+  addedDate: "2026-03-19T12:00:00.000Z",
+  updatedAt: new Date("2026-03-20T12:00:00.000Z"),
+  ...overrides,
+});
+
+const getBooks = async (query: Record<string, string | string[]>) => {
+  const response = createMockResponse();
+  await booksHandler(createRequest(query), response as unknown as HandlerResponse);
+  return response;
+};
+
+describe("GET /api/books", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+  });
+
+  it("returns the whole library when no paging parameters are given", async () => {
+    (listBooksByUserId as jest.Mock).mockResolvedValue([createBook("book-1")]);
+
+    const response = await getBooks({});
+
+    expect(listBooksPage).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual([createBook("book-1")]);
+  });
+
+  it("returns the first page newest first by default", async () => {
+    (listBooksPage as jest.Mock).mockResolvedValue({
+      books: [createBook("book-1")],
+      hasMore: false,
+      total: 1,
+    });
+
+    const response = await getBooks({ limit: "20" });
+
+    expect(listBooksPage).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ limit: 20, sort: "addedDate", order: "desc", cursor: undefined }),
+    );
+    expect(response.jsonBody).toEqual({
+      items: [createBook("book-1")],
+      nextCursor: null,
+      total: 1,
+    });
+  });
+
+  it("parses every filter", async () => {
+    (listBooksPage as jest.Mock).mockResolvedValue({ books: [], hasMore: false, total: 0 });
+
+    await getBooks({
+      status: "reading,completed",
+      genre: ["Fantasy", "Science Fiction"],
+      author: " le guin ",
+      seriesId: "series-1",
+      collectionId: "collection-1",
+      minRating: "3",
+      maxRating: "5",
+      addedFrom: "2026-01-01",
+      addedTo: "2026-01-31",
+      completedFrom: "2026-02-01T08:00:00.000Z",
+      completedTo: "2026-02-01T18:00:00.000Z",
+      q: "earthsea",
+    });
+
+    expect(listBooksPage).toHaveBeenCalledWith("user-1", {
+      limit: 50,
+      sort: "addedDate",
+      order: "desc",
+      cursor: undefined,
+      statuses: ["reading", "completed"],
+      genres: ["Fantasy", "Science Fiction"],
+      author: "le guin",
+      seriesId: "series-1",
+      collectionId: "collection-1",
+      minRating: 3,
+      maxRating: 5,
+      added: { from: "2026-01-01", before: "2026-02-01" },
+      completed: {
+        from: "2026-02-01T08:00:00.000Z",
+        before: "2026-02-01T18:00:00.001Z",
+      },
+      search: "earthsea",
+    });
+  });
+
+  it("lists a smart collection by its rules instead of its book ids", async () => {
+    const rules = {
+      match: "all",
+      conditions: [{ field: "series", operator: "contains", value: "earthsea" }],
+    };
+    const series = [{ id: "series-1", name: "Earthsea Cycle" }];
+    const rulesFilter = { seriesId: { $in: ["series-1"] } };
+
+    (findCollectionById as jest.Mock).mockResolvedValue({ id: "collection-1", bookIds: [], rules });
+    (listSeriesByUserId as jest.Mock).mockResolvedValue(series);
+    (buildCollectionRulesFilter as jest.Mock).mockReturnValue(rulesFilter);
+    (listBooksPage as jest.Mock).mockResolvedValue({ books: [], hasMore: false, total: 0 });
+
+    await getBooks({ collectionId: "collection-1", status: "completed" });
+
+    expect(findCollectionById).toHaveBeenCalledWith("user-1", "collection-1");
+    expect(buildCollectionRulesFilter).toHaveBeenCalledWith(rules, series, expect.any(Date));
+    expect(listBooksPage).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ collectionId: undefined, statuses: ["completed"] }),
+      rulesFilter,
+    );
+  });
+
+  it("lists a plain collection by its book ids", async () => {
+    (findCollectionById as jest.Mock).mockResolvedValue({ id: "collection-1", bookIds: ["book-1"] });
+    (listBooksPage as jest.Mock).mockResolvedValue({ books: [], hasMore: false, total: 0 });
+
+    await getBooks({ collectionId: "collection-1" });
+
+    expect(buildCollectionRulesFilter).not.toHaveBeenCalled();
+    expect(listBooksPage).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ collectionId: "collection-1" }),
+    );
+  });
+
+  it("returns a cursor that continues after the last book", async () => {
+    (listBooksPage as jest.Mock).mockResolvedValueOnce({
+      books: [createBook("book-1", { title: "Alpha" }), createBook("book-2", { title: "Beta" })],
+      hasMore: true,
+      total: 3,
+    });
+
+    const firstPage = await getBooks({ limit: "2", sort: "title", order: "asc" });
+    const { nextCursor } = firstPage.jsonBody as { nextCursor: string };
+
+    expect(nextCursor).toEqual(expect.any(String));
+
+    (listBooksPage as jest.Mock).mockResolvedValueOnce({
+      books: [createBook("book-3", { title: "Gamma" })],
+      hasMore: false,
+      total: 3,
+    });
+
+    const secondPage = await getBooks({ limit: "2", sort: "title", order: "asc", cursor: nextCursor });
+
+    expect(listBooksPage).toHaveBeenLastCalledWith(
+      "user-1",
+      expect.objectContaining({ cursor: { value: "Beta", id: "book-2" } }),
+    );
+    expect(secondPage.jsonBody).toMatchObject({ nextCursor: null, total: 3 });
+  });
+
+  it("keeps dates in cursors for the updated sort", async () => {
+    (listBooksPage as jest.Mock).mockResolvedValue({
+      books: [createBook("book-1")],
+      hasMore: true,
+      total: 2,
+    });
+
+    const firstPage = await getBooks({ limit: "1", sort: "updatedAt" });
+    await getBooks({
+      limit: "1",
+      sort: "updatedAt",
+      cursor: (firstPage.jsonBody as { nextCursor: string }).nextCursor,
+    });
+
+    expect(listBooksPage).toHaveBeenLastCalledWith(
+      "user-1",
+      expect.objectContaining({
+        cursor: { value: new Date("2026-03-20T12:00:00.000Z"), id: "book-1" },
+      }),
+    );
+  });
+
+  it("rejects a cursor from a different sort", async () => {
+    (listBooksPage as jest.Mock).mockResolvedValue({
+      books: [createBook("book-1")],
+      hasMore: true,
+      total: 2,
+    });
+
+    const firstPage = await getBooks({ sort: "title" });
+    const response = await getBooks({
+      sort: "rating",
+      cursor: (firstPage.jsonBody as { nextCursor: string }).nextCursor,
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it.each([
+    { limit: "0" },
+    { limit: "500" },
+    { sort: "pageCount" },
+    { order: "up" },
+    { status: "borrowed" },
+    { minRating: "6" },
+    { minRating: "4", maxRating: "2" },
+    { addedFrom: "last week" },
+    { addedFrom: "2026-02-01", addedTo: "2026-01-01" },
+    { cursor: "not-a-cursor" },
+  ])("rejects %p", async (query) => {
+    const response = await getBooks(query);
+
+    expect(listBooksPage).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,191 @@
+jest.mock("../../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/book", () => ({
+  deleteBook: jest.fn(),
+  findBookById: jest.fn(),
+  toPublicBook: jest.fn((book) => book),
+  updateBook: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/collection", () => ({
+  remapCollectionBookReferences: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/notification", () => ({
+  reassignNotificationsToBook: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/reading-session", () => ({
+  reassignReadingSessionsToBook: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  reassignLoansToBook: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/series", () => ({
+  remapSeriesBookReferences: jest.fn(),
+}));
+
+import mergeHandler from "../merge";
+
+import { remapMergedBookIds } from "@/server/lib/book-merge";
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { deleteBook, findBookById, updateBook } from "@/server/models/book";
+import { remapCollectionBookReferences } from "@/server/models/collection";
+import { reassignNotificationsToBook } from "@/server/models/notification";
+import { reassignLoansToBook } from "@/server/models/loan";
+import { reassignReadingSessionsToBook } from "@/server/models/reading-session";
+import { remapSeriesBookReferences } from "@/server/models/series";
+
+type HandlerRequest = Parameters<typeof mergeHandler>[0];
+type HandlerResponse = Parameters<typeof mergeHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (overrides: Record<string, unknown> = {}) =>
+  ({
+    body: {},
+    headers: {},
+    method: "POST",
+    query: {},
+    ...overrides,
+  }) as unknown as HandlerRequest;
+
+describe("book merge route", () => {
+  const mergedBook = {
+    id: "book-1",
+    title: "The Hobbit",
+    author: "J.R.R. Tolkien",
+    seriesId: "series-1",
+    collectionIds: ["collection-1"],
+    spineColor: 3,
+    addedDate: "2026-03-19T12:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+  });
+
+  it("updates the surviving book, re-points references and removes the others", async () => {
+    (findBookById as jest.Mock).mockImplementation(async (_userId: string, id: string) => ({ id }));
+    (updateBook as jest.Mock).mockResolvedValue(mergedBook);
+
+    const request = createRequest({
+      body: {
+        targetId: "book-1",
+        sourceIds: ["book-2", "book-3"],
+        updates: { title: "The Hobbit", seriesId: "series-1" },
+      },
+    });
+    const response = createMockResponse();
+
+    await mergeHandler(request, response as unknown as HandlerResponse);
+
+    const mergedIds = ["book-1", "book-2", "book-3"];
+    expect(updateBook).toHaveBeenCalledWith("user-1", "book-1", {
+      title: "The Hobbit",
+      seriesId: "series-1",
+    });
+    expect(remapSeriesBookReferences).toHaveBeenCalledWith("user-1", mergedIds, "book-1", "series-1");
+    expect(remapCollectionBookReferences).toHaveBeenCalledWith("user-1", mergedIds, "book-1", ["collection-1"]);
+    expect(reassignReadingSessionsToBook).toHaveBeenCalledWith("user-1", ["book-2", "book-3"], "book-1");
+    expect(reassignLoansToBook).toHaveBeenCalledWith("user-1", ["book-2", "book-3"], "book-1");
+    expect(reassignNotificationsToBook).toHaveBeenCalledWith("user-1", ["book-2", "book-3"], "book-1");
+    expect(deleteBook).toHaveBeenCalledWith("user-1", "book-2");
+    expect(deleteBook).toHaveBeenCalledWith("user-1", "book-3");
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual({ book: mergedBook, removedIds: ["book-2", "book-3"] });
+  });
+
+  it("returns 404 without changing anything when a book is not owned by the user", async () => {
+    (findBookById as jest.Mock).mockImplementation(async (_userId: string, id: string) =>
+      id === "book-2" ? null : { id },
+    );
+
+    const request = createRequest({
+      body: { targetId: "book-1", sourceIds: ["book-2"] },
+    });
+    const response = createMockResponse();
+
+    await mergeHandler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(404);
+    expect(updateBook).not.toHaveBeenCalled();
+    expect(deleteBook).not.toHaveBeenCalled();
+  });
+
+  it("rejects merging a book into itself", async () => {
+    const request = createRequest({
+      body: { targetId: "book-1", sourceIds: ["book-1"] },
+    });
+    const response = createMockResponse();
+
+    await mergeHandler(request, response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(400);
+    expect(findBookById).not.toHaveBeenCalled();
+  });
+
+  it("only accepts POST", async () => {
+    const response = createMockResponse();
+
+    await mergeHandler(createRequest({ method: "GET" }), response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(405);
+  });
+});
+
+describe("remapMergedBookIds", () => {
+  it("replaces the first merged id with the survivor where it is kept", () => {
+    expect(remapMergedBookIds(["a", "book-2", "b", "book-1"], ["book-1", "book-2"], "book-1", true))
+      .toEqual(["a", "book-1", "b"]);
+  });
+
+  it("drops every merged id where the survivor is not kept", () => {
+    expect(remapMergedBookIds(["a", "book-2", "book-1"], ["book-1", "book-2"], "book-1", false))
+      .toEqual(["a"]);
+  });
+
+  it("adds the survivor to a kept list that did not reference any merged book", () => {
+    expect(remapMergedBookIds(["a"], ["book-1", "book-2"], "book-1", true)).toEqual(["a", "book-1"]);
+  });
+});
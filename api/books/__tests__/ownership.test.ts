@@ -11,6 +11,7 @@ jest.mock("../../../src/server/middleware/auth", () => ({
 }));
 
 jest.mock("../../../src/server/models/book", () => ({
+  buildCollectionRulesFilter: jest.fn(),
   deleteBook: jest.fn(),
   findBookById: jest.fn(),
   insertBook: jest.fn(),
@@ -19,6 +20,23 @@ jest.mock("../../../src/server/models/book", () => ({
   updateBook: jest.fn(),
 }));
 
+jest.mock("../../../src/server/models/collection", () => ({
+  findCollectionById: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/series", () => ({
+  listSeriesByUserId: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/reading-session", () => ({
+  deleteReadingSessionsByBookId: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  deleteLoansByBookId: jest.fn(),
+  deleteLoansByBookIds: jest.fn(),
+}));
+
 import booksHandler from "../index";
 import bookByIdHandler from "../[id]";
 
@@ -35,6 +53,8 @@ import {
   validateCreateBookPayload,
   validateUpdateBookPayload,
 } from "@/server/lib/book-payload";
+import { deleteLoansByBookId } from "@/server/models/loan";
+import { deleteReadingSessionsByBookId } from "@/server/models/reading-session";
 
 type HandlerRequest = Parameters<typeof booksHandler>[0];
 type HandlerResponse = Parameters<typeof booksHandler>[1];
@@ -210,7 +230,7 @@ describe("book route ownership enforcement", () => {
 
     expect(updateBook).toHaveBeenCalledWith("user-1", "book-2", {
       title: "Updated Title",
-    });
+    }, undefined);
     expect(response.statusCode).toBe(404);
     expect(response.jsonBody).toEqual({
       error: {
@@ -246,7 +266,7 @@ describe("book route ownership enforcement", () => {
     });
     expect(updateBook).toHaveBeenCalledWith("user-1", "book-1", {
       title: "Updated Title",
-    });
+    }, undefined);
     expect(response.statusCode).toBe(200);
     expect(response.jsonBody).toEqual(updatedBook);
   });
@@ -285,6 +305,8 @@ describe("book route ownership enforcement", () => {
     await bookByIdHandler(request, response as unknown as HandlerResponse);
 
     expect(deleteBook).toHaveBeenCalledWith("user-1", "book-1");
+    expect(deleteReadingSessionsByBookId).toHaveBeenCalledWith("user-1", "book-1");
+    expect(deleteLoansByBookId).toHaveBeenCalledWith("user-1", "book-1");
     expect(response.statusCode).toBe(200);
     expect(response.jsonBody).toEqual({ success: true });
   });
@@ -0,0 +1,180 @@
+jest.mock("../../../src/server/lib/book-payload", () => ({
+  validateUpdateBookPayload: jest.fn((value) => {
+    const { expectedRevision: _expectedRevision, ...updates } = value;
+    return updates;
+  }),
+}));
+
+jest.mock("../../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/book", () => ({
+  deleteBook: jest.fn(),
+  findBookById: jest.fn(),
+  toPublicBook: jest.fn((book) => book),
+  updateBook: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/reading-session", () => ({
+  deleteReadingSessionsByBookId: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  deleteLoansByBookId: jest.fn(),
+}));
+
+import bookByIdHandler from "../[id]";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { findBookById, updateBook } from "@/server/models/book";
+
+type HandlerRequest = Parameters<typeof bookByIdHandler>[0];
+type HandlerResponse = Parameters<typeof bookByIdHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (overrides: Record<string, unknown> = {}) =>
+  ({
+    body: {},
+    headers: {},
+    method: "PUT",
+    query: { id: "book-1" },
+    ...overrides,
+  }) as unknown as HandlerRequest;
+
+describe("book revisions", () => {
+  const serverBook = {
+    id: "book-1",
+    title: "Edited elsewhere",
+    author: "Author",
+    spineColor: 3,
+    addedDate: "2026-03-19T12:00:00.000Z",
+    revision: 4,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+  });
+
+  it("returns the revision as an ETag", async () => {
+    (findBookById as jest.Mock).mockResolvedValue(serverBook);
+
+    const response = createMockResponse();
+    await bookByIdHandler(createRequest({ method: "GET" }), response as unknown as HandlerResponse);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers.ETag).toBe('"4"');
+  });
+
+  it("updates only the revision named in If-Match and returns the new ETag", async () => {
+    (updateBook as jest.Mock).mockResolvedValue({ ...serverBook, title: "Mine", revision: 5 });
+
+    const response = createMockResponse();
+    await bookByIdHandler(
+      createRequest({ headers: { "if-match": '"4"' }, body: { title: "Mine" } }),
+      response as unknown as HandlerResponse,
+    );
+
+    expect(updateBook).toHaveBeenCalledWith("user-1", "book-1", { title: "Mine" }, 4);
+    expect(response.statusCode).toBe(200);
+    expect(response.headers.ETag).toBe('"5"');
+  });
+
+  it("returns 412 with the current copy when If-Match is stale", async () => {
+    (updateBook as jest.Mock).mockResolvedValue(null);
+    (findBookById as jest.Mock).mockResolvedValue(serverBook);
+
+    const response = createMockResponse();
+    await bookByIdHandler(
+      createRequest({ headers: { "if-match": '"3"' }, body: { title: "Mine" } }),
+      response as unknown as HandlerResponse,
+    );
+
+    expect(response.statusCode).toBe(412);
+    expect(response.jsonBody).toEqual({
+      error: {
+        code: "PRECONDITION_FAILED",
+        message: "Book was changed since revision 3.",
+        details: { current: serverBook },
+      },
+    });
+  });
+
+  it("returns 409 with the current copy when expectedRevision is stale", async () => {
+    (updateBook as jest.Mock).mockResolvedValue(null);
+    (findBookById as jest.Mock).mockResolvedValue(serverBook);
+
+    const response = createMockResponse();
+    await bookByIdHandler(
+      createRequest({ body: { title: "Mine", expectedRevision: 3 } }),
+      response as unknown as HandlerResponse,
+    );
+
+    expect(updateBook).toHaveBeenCalledWith("user-1", "book-1", { title: "Mine" }, 3);
+    expect(response.statusCode).toBe(409);
+    expect(response.jsonBody).toMatchObject({
+      error: { code: "CONFLICT", details: { current: serverBook } },
+    });
+  });
+
+  it("returns 404 when a conditional update targets a missing book", async () => {
+    (updateBook as jest.Mock).mockResolvedValue(null);
+    (findBookById as jest.Mock).mockResolvedValue(null);
+
+    const response = createMockResponse();
+    await bookByIdHandler(
+      createRequest({ headers: { "if-match": '"3"' }, body: { title: "Mine" } }),
+      response as unknown as HandlerResponse,
+    );
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("rejects an If-Match that is not a revision", async () => {
+    const response = createMockResponse();
+    await bookByIdHandler(
+      createRequest({ headers: { "if-match": '"abc"' }, body: { title: "Mine" } }),
+      response as unknown as HandlerResponse,
+    );
+
+    expect(updateBook).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(400);
+  });
+});
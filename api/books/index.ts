@@ -1,16 +1,73 @@
 import { VercelRequest, VercelResponse } from "@vercel/node";
+import { Filter } from "mongodb";
 
 import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
+import {
+  validateBookBulkDeletePayload,
+  validateBookBulkUpdatePayload,
+} from "../../src/server/lib/book-bulk.js";
 import {
   validateCreateBookPayload,
 } from "../../src/server/lib/book-payload.js";
+import {
+  BookListQuery,
+  encodeBookListCursor,
+  isBookListPageRequest,
+  parseBookListQuery,
+} from "../../src/server/lib/book-query.js";
 import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
 import {
+  BookDocument,
+  buildCollectionRulesFilter,
+  deleteBooks,
   findBookById,
+  findBooksByIds,
   insertBook,
   listBooksByUserId,
+  listBooksPage,
   toPublicBook,
+  updateBooks,
 } from "../../src/server/models/book.js";
+import { findCollectionById } from "../../src/server/models/collection.js";
+import { deleteLoansByBookIds } from "../../src/server/models/loan.js";
+import { deleteReadingSessionsByBookIds } from "../../src/server/models/reading-session.js";
+import { listSeriesByUserId } from "../../src/server/models/series.js";
+
+const assertBooksExist = async (userId: string, ids: string[]): Promise<void> => {
+  const books = await findBooksByIds(userId, ids);
+  const foundIds = new Set(books.map((book) => book.id));
+  const missingId = ids.find((id) => !foundIds.has(id));
+
+  if (missingId) {
+    throw new ApiError(404, "NOT_FOUND", `Book ${missingId} not found.`);
+  }
+};
+
+/**
+ * A smart collection holds the books matching its rules rather than the
+ * books listing it, so its id becomes a rules filter
+ */
+const resolveCollectionRules = async (
+  userId: string,
+  query: BookListQuery,
+): Promise<{ query: BookListQuery; rulesFilter?: Filter<BookDocument> }> => {
+  if (!query.collectionId) {
+    return { query };
+  }
+
+  const collection = await findCollectionById(userId, query.collectionId);
+
+  if (!collection?.rules) {
+    return { query };
+  }
+
+  const series = await listSeriesByUserId(userId);
+
+  return {
+    query: { ...query, collectionId: undefined },
+    rulesFilter: buildCollectionRulesFilter(collection.rules, series, new Date()),
+  };
+};
 
 export default async function handler(
   request: VercelRequest,
@@ -19,6 +76,23 @@ export default async function handler(
   try {
     const authUser = await requireAuthenticatedUser(request);
 
+    if (request.method === "GET" && isBookListPageRequest(request.query)) {
+      const { query, rulesFilter } = await resolveCollectionRules(
+        authUser.sub,
+        parseBookListQuery(request.query),
+      );
+      const page = rulesFilter
+        ? await listBooksPage(authUser.sub, query, rulesFilter)
+        : await listBooksPage(authUser.sub, query);
+      const lastBook = page.books[page.books.length - 1];
+
+      return sendJson(response, 200, {
+        items: page.books.map((book) => toPublicBook(book)),
+        nextCursor: page.hasMore && lastBook ? encodeBookListCursor(query, lastBook) : null,
+        total: page.total,
+      });
+    }
+
     if (request.method === "GET") {
       const books = await listBooksByUserId(authUser.sub);
       return sendJson(
@@ -44,7 +118,34 @@ export default async function handler(
       return sendJson(response, 201, toPublicBook(book));
     }
 
-    return methodNotAllowed(response, ["GET", "POST"]);
+    if (request.method === "PATCH") {
+      const { ids, patch, patches } = validateBookBulkUpdatePayload(request.body);
+      await assertBooksExist(authUser.sub, ids);
+
+      const books = await updateBooks(
+        authUser.sub,
+        Object.fromEntries(ids.map((id) => [id, { ...patch, ...patches[id] }])),
+      );
+
+      return sendJson(
+        response,
+        200,
+        books.map((book) => toPublicBook(book)),
+      );
+    }
+
+    if (request.method === "DELETE") {
+      const { ids } = validateBookBulkDeletePayload(request.body);
+      await assertBooksExist(authUser.sub, ids);
+
+      await deleteBooks(authUser.sub, ids);
+      await deleteReadingSessionsByBookIds(authUser.sub, ids);
+      await deleteLoansByBookIds(authUser.sub, ids);
+
+      return sendJson(response, 200, { success: true, deletedIds: ids });
+    }
+
+    return methodNotAllowed(response, ["GET", "POST", "PATCH", "DELETE"]);
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       return sendError(
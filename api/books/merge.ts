@@ -0,0 +1,69 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
+import { validateBookMergePayload } from "../../src/server/lib/book-merge.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
+import {
+  deleteBook,
+  findBookById,
+  toPublicBook,
+  updateBook,
+} from "../../src/server/models/book.js";
+import { remapCollectionBookReferences } from "../../src/server/models/collection.js";
+import { reassignNotificationsToBook } from "../../src/server/models/notification.js";
+import { reassignLoansToBook } from "../../src/server/models/loan.js";
+import { reassignReadingSessionsToBook } from "../../src/server/models/reading-session.js";
+import { remapSeriesBookReferences } from "../../src/server/models/series.js";
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+
+    if (request.method !== "POST") {
+      return methodNotAllowed(response, ["POST"]);
+    }
+
+    const { targetId, sourceIds, updates } = validateBookMergePayload(request.body);
+    const mergedIds = [targetId, ...sourceIds];
+
+    for (const id of mergedIds) {
+      if (!(await findBookById(authUser.sub, id))) {
+        throw new ApiError(404, "NOT_FOUND", `Book ${id} not found.`);
+      }
+    }
+
+    const book = await updateBook(authUser.sub, targetId, updates);
+
+    if (!book) {
+      throw new ApiError(404, "NOT_FOUND", "Book not found.");
+    }
+
+    // Only the series and collections the merged book lists keep it
+    await remapSeriesBookReferences(authUser.sub, mergedIds, targetId, book.seriesId);
+    await remapCollectionBookReferences(authUser.sub, mergedIds, targetId, book.collectionIds);
+    await reassignReadingSessionsToBook(authUser.sub, sourceIds, targetId);
+    await reassignLoansToBook(authUser.sub, sourceIds, targetId);
+    await reassignNotificationsToBook(authUser.sub, sourceIds, targetId);
+
+    for (const id of sourceIds) {
+      await deleteBook(authUser.sub, id);
+    }
+
+    return sendJson(response, 200, {
+      book: toPublicBook(book),
+      removedIds: sourceIds,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
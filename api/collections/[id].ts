@@ -2,6 +2,11 @@ import { VercelRequest, VercelResponse } from "@vercel/node";
 
 import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
 import { validateUpdateCollectionPayload } from "../../src/server/lib/collection-payload.js";
+import {
+  getRevisionPrecondition,
+  revisionConflictError,
+  setETag,
+} from "../../src/server/lib/revision.js";
 import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
 import {
   deleteCollection,
@@ -36,17 +41,26 @@ export default async function handler(
         throw new ApiError(404, "NOT_FOUND", "Collection not found.");
       }
 
+      setETag(response, collection.revision ?? 0);
       return sendJson(response, 200, toPublicCollection(collection));
     }
 
     if (request.method === "PUT") {
       const updates = validateUpdateCollectionPayload(request.body);
-      const collection = await updateCollection(authUser.sub, id, updates);
+      const precondition = getRevisionPrecondition(request);
+      const collection = await updateCollection(authUser.sub, id, updates, precondition?.revision);
 
       if (!collection) {
+        const current = precondition ? await findCollectionById(authUser.sub, id) : null;
+
+        if (precondition && current) {
+          throw revisionConflictError(precondition, "Collection", toPublicCollection(current));
+        }
+
         throw new ApiError(404, "NOT_FOUND", "Collection not found.");
       }
 
+      setETag(response, collection.revision ?? 0);
       return sendJson(response, 200, toPublicCollection(collection));
     }
 
@@ -0,0 +1,87 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
+import { assertLoanDates, validateUpdateLoanPayload } from "../../src/server/lib/loan-payload.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
+import {
+  deleteLoan,
+  findLoanById,
+  toPublicLoan,
+  updateLoan,
+} from "../../src/server/models/loan.js";
+
+const getLoanIdFromRequest = (request: VercelRequest): string => {
+  const rawId = request.query.id;
+  const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+  if (!id || typeof id !== "string") {
+    throw new ApiError(400, "BAD_REQUEST", "Loan id is required.");
+  }
+
+  return id;
+};
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+    const id = getLoanIdFromRequest(request);
+
+    if (request.method === "GET") {
+      const loan = await findLoanById(authUser.sub, id);
+
+      if (!loan) {
+        throw new ApiError(404, "NOT_FOUND", "Loan not found.");
+      }
+
+      return sendJson(response, 200, toPublicLoan(loan));
+    }
+
+    if (request.method === "PUT") {
+      const updates = validateUpdateLoanPayload(request.body);
+      const existingLoan = await findLoanById(authUser.sub, id);
+
+      if (!existingLoan) {
+        throw new ApiError(404, "NOT_FOUND", "Loan not found.");
+      }
+
+      assertLoanDates({
+        loanedDate: updates.loanedDate ?? existingLoan.loanedDate,
+        dueDate: "dueDate" in updates ? updates.dueDate : existingLoan.dueDate,
+        returnedDate:
+          "returnedDate" in updates ? updates.returnedDate : existingLoan.returnedDate,
+      });
+
+      const loan = await updateLoan(authUser.sub, id, updates);
+
+      if (!loan) {
+        throw new ApiError(404, "NOT_FOUND", "Loan not found.");
+      }
+
+      return sendJson(response, 200, toPublicLoan(loan));
+    }
+
+    if (request.method === "DELETE") {
+      const deleted = await deleteLoan(authUser.sub, id);
+
+      if (!deleted) {
+        throw new ApiError(404, "NOT_FOUND", "Loan not found.");
+      }
+
+      return sendJson(response, 200, { success: true });
+    }
+
+    return methodNotAllowed(response, ["GET", "PUT", "DELETE"]);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
@@ -0,0 +1,203 @@
+jest.mock("../../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/book", () => ({
+  findBookById: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/loan", () => ({
+  deleteLoan: jest.fn(),
+  findLoanById: jest.fn(),
+  insertLoan: jest.fn(),
+  listLoansByUserId: jest.fn(),
+  toPublicLoan: jest.fn((loan) => loan),
+  updateLoan: jest.fn(),
+}));
+
+import loansHandler from "../index";
+import loanByIdHandler from "../[id]";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { findBookById } from "@/server/models/book";
+import {
+  deleteLoan,
+  findLoanById,
+  insertLoan,
+  listLoansByUserId,
+  updateLoan,
+} from "@/server/models/loan";
+
+type HandlerRequest = Parameters<typeof loansHandler>[0];
+type HandlerResponse = Parameters<typeof loansHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (overrides: Record<string, unknown> = {}) =>
+  ({
+    body: {},
+    headers: {},
+    method: "GET",
+    query: {},
+    ...overrides,
+  }) as unknown as HandlerRequest;
+
+describe("loan route ownership enforcement", () => {
+  const sampleLoan = {
+    id: "loan-1",
+    bookId: "book-1",
+    direction: "lent",
+    person: "Sam",
+    loanedDate: "2026-03-01",
+    dueDate: "2026-03-29",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+  });
+
+  it("lists overdue loans for the authenticated user", async () => {
+    (listLoansByUserId as jest.Mock).mockResolvedValue([sampleLoan]);
+
+    const request = createRequest({ method: "GET", query: { status: "overdue" } });
+    const response = createMockResponse();
+
+    await loansHandler(request, response as unknown as HandlerResponse);
+
+    expect(listLoansByUserId).toHaveBeenCalledWith("user-1", {
+      bookId: undefined,
+      status: "overdue",
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual([sampleLoan]);
+  });
+
+  it("rejects an unknown status filter", async () => {
+    const request = createRequest({ method: "GET", query: { status: "late" } });
+    const response = createMockResponse();
+
+    await loansHandler(request, response as unknown as HandlerResponse);
+
+    expect(listLoansByUserId).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(400);
+  });
+
+  it("creates a loan for a book owned by the authenticated user", async () => {
+    (findBookById as jest.Mock).mockResolvedValue({ id: "book-1" });
+    (findLoanById as jest.Mock).mockResolvedValue(null);
+    (insertLoan as jest.Mock).mockResolvedValue(sampleLoan);
+
+    const request = createRequest({ method: "POST", body: sampleLoan });
+    const response = createMockResponse();
+
+    await loansHandler(request, response as unknown as HandlerResponse);
+
+    expect(findBookById).toHaveBeenCalledWith("user-1", "book-1");
+    expect(insertLoan).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ id: "loan-1", person: "Sam", direction: "lent" }),
+    );
+    expect(response.statusCode).toBe(201);
+  });
+
+  it("returns 404 when lending a book the user does not own", async () => {
+    (findBookById as jest.Mock).mockResolvedValue(null);
+
+    const request = createRequest({ method: "POST", body: sampleLoan });
+    const response = createMockResponse();
+
+    await loansHandler(request, response as unknown as HandlerResponse);
+
+    expect(insertLoan).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(404);
+    expect(response.jsonBody).toEqual({
+      error: {
+        code: "NOT_FOUND",
+        message: "Book not found.",
+        details: undefined,
+      },
+    });
+  });
+
+  it("rejects a returned date before the stored loaned date", async () => {
+    (findLoanById as jest.Mock).mockResolvedValue(sampleLoan);
+
+    const request = createRequest({
+      method: "PUT",
+      query: { id: "loan-1" },
+      body: { returnedDate: "2026-02-20" },
+    });
+    const response = createMockResponse();
+
+    await loanByIdHandler(request, response as unknown as HandlerResponse);
+
+    expect(updateLoan).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(400);
+  });
+
+  it("returns 404 when updating a loan not owned by the authenticated user", async () => {
+    (findLoanById as jest.Mock).mockResolvedValue(null);
+
+    const request = createRequest({
+      method: "PUT",
+      query: { id: "loan-2" },
+      body: { returnedDate: "2026-03-20" },
+    });
+    const response = createMockResponse();
+
+    await loanByIdHandler(request, response as unknown as HandlerResponse);
+
+    expect(findLoanById).toHaveBeenCalledWith("user-1", "loan-2");
+    expect(updateLoan).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("deletes a loan owned by the authenticated user", async () => {
+    (deleteLoan as jest.Mock).mockResolvedValue(true);
+
+    const request = createRequest({ method: "DELETE", query: { id: "loan-1" } });
+    const response = createMockResponse();
+
+    await loanByIdHandler(request, response as unknown as HandlerResponse);
+
+    expect(deleteLoan).toHaveBeenCalledWith("user-1", "loan-1");
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual({ success: true });
+  });
+});
@@ -0,0 +1,73 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
+import { parseLoanStatus, validateCreateLoanPayload } from "../../src/server/lib/loan-payload.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
+import { findBookById } from "../../src/server/models/book.js";
+import {
+  findLoanById,
+  insertLoan,
+  listLoansByUserId,
+  toPublicLoan,
+} from "../../src/server/models/loan.js";
+
+const getBookIdFilter = (request: VercelRequest): string | undefined => {
+  const rawBookId = request.query.bookId;
+  const bookId = Array.isArray(rawBookId) ? rawBookId[0] : rawBookId;
+
+  return typeof bookId === "string" && bookId.trim() ? bookId.trim() : undefined;
+};
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+
+    if (request.method === "GET") {
+      const loans = await listLoansByUserId(authUser.sub, {
+        bookId: getBookIdFilter(request),
+        status: parseLoanStatus(request.query.status),
+      });
+      return sendJson(
+        response,
+        200,
+        loans.map((loan) => toPublicLoan(loan)),
+      );
+    }
+
+    if (request.method === "POST") {
+      const payload = validateCreateLoanPayload(request.body);
+      const book = await findBookById(authUser.sub, payload.bookId);
+
+      if (!book) {
+        throw new ApiError(404, "NOT_FOUND", "Book not found.");
+      }
+
+      const existingLoan = await findLoanById(authUser.sub, payload.id);
+
+      if (existingLoan) {
+        throw new ApiError(
+          409,
+          "CONFLICT",
+          "A loan with that id already exists for this user.",
+        );
+      }
+
+      const loan = await insertLoan(authUser.sub, payload);
+      return sendJson(response, 201, toPublicLoan(loan));
+    }
+
+    return methodNotAllowed(response, ["GET", "POST"]);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
@@ -0,0 +1,74 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
+import { validateUpdateReadingSessionPayload } from "../../src/server/lib/reading-session-payload.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
+import {
+  deleteReadingSession,
+  findReadingSessionById,
+  toPublicReadingSession,
+  updateReadingSession,
+} from "../../src/server/models/reading-session.js";
+
+const getReadingSessionIdFromRequest = (request: VercelRequest): string => {
+  const rawId = request.query.id;
+  const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+  if (!id || typeof id !== "string") {
+    throw new ApiError(400, "BAD_REQUEST", "Reading session id is required.");
+  }
+
+  return id;
+};
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+    const id = getReadingSessionIdFromRequest(request);
+
+    if (request.method === "GET") {
+      const session = await findReadingSessionById(authUser.sub, id);
+
+      if (!session) {
+        throw new ApiError(404, "NOT_FOUND", "Reading session not found.");
+      }
+
+      return sendJson(response, 200, toPublicReadingSession(session));
+    }
+
+    if (request.method === "PUT") {
+      const updates = validateUpdateReadingSessionPayload(request.body);
+      const session = await updateReadingSession(authUser.sub, id, updates);
+
+      if (!session) {
+        throw new ApiError(404, "NOT_FOUND", "Reading session not found.");
+      }
+
+      return sendJson(response, 200, toPublicReadingSession(session));
+    }
+
+    if (request.method === "DELETE") {
+      const deleted = await deleteReadingSession(authUser.sub, id);
+
+      if (!deleted) {
+        throw new ApiError(404, "NOT_FOUND", "Reading session not found.");
+      }
+
+      return sendJson(response, 200, { success: true });
+    }
+
+    return methodNotAllowed(response, ["GET", "PUT", "DELETE"]);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
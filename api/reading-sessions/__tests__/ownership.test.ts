@@ -0,0 +1,176 @@
+jest.mock("../../../src/server/lib/reading-session-payload", () => ({
+  validateCreateReadingSessionPayload: jest.fn((value) => value),
+  validateUpdateReadingSessionPayload: jest.fn((value) => value),
+}));
+
+jest.mock("../../../src/server/middleware/auth", () => ({
+  UnauthorizedError: class UnauthorizedError extends Error {
+    statusCode = 401;
+  },
+  requireAuthenticatedUser: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/book", () => ({
+  findBookById: jest.fn(),
+}));
+
+jest.mock("../../../src/server/models/reading-session", () => ({
+  deleteReadingSession: jest.fn(),
+  findReadingSessionById: jest.fn(),
+  insertReadingSession: jest.fn(),
+  listReadingSessionsByUserId: jest.fn(),
+  toPublicReadingSession: jest.fn((session) => session),
+  updateReadingSession: jest.fn(),
+}));
+
+import readingSessionsHandler from "../index";
+import readingSessionByIdHandler from "../[id]";
+
+import { requireAuthenticatedUser } from "@/server/middleware/auth";
+import { findBookById } from "@/server/models/book";
+import {
+  deleteReadingSession,
+  findReadingSessionById,
+  insertReadingSession,
+  listReadingSessionsByUserId,
+  updateReadingSession,
+} from "@/server/models/reading-session";
+
+type HandlerRequest = Parameters<typeof readingSessionsHandler>[0];
+type HandlerResponse = Parameters<typeof readingSessionsHandler>[1];
+
+type MockResponse = {
+  headers: Record<string, string>;
+  jsonBody: unknown;
+  statusCode: number;
+  json: jest.Mock;
+  setHeader: jest.Mock;
+  status: jest.Mock;
+};
+
+const createMockResponse = (): MockResponse => {
+  const response: MockResponse = {
+    headers: {},
+    jsonBody: undefined,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+const createRequest = (overrides: Record<string, unknown> = {}) =>
+  ({
+    body: {},
+    headers: {},
+    method: "GET",
+    query: {},
+    ...overrides,
+  }) as unknown as HandlerRequest;
+
+describe("reading session route ownership enforcement", () => {
+  const sampleSession = {
+    id: "session-1",
+    bookId: "book-1",
+    date: "2026-03-19T12:00:00.000Z",
+    startPage: 10,
+    endPage: 42,
+    minutes: 35,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireAuthenticatedUser as jest.Mock).mockResolvedValue({
+      sub: "user-1",
+      email: "reader@example.com",
+    });
+  });
+
+  it("lists sessions for the authenticated user filtered by book", async () => {
+    (listReadingSessionsByUserId as jest.Mock).mockResolvedValue([sampleSession]);
+
+    const request = createRequest({ method: "GET", query: { bookId: "book-1" } });
+    const response = createMockResponse();
+
+    await readingSessionsHandler(request, response as unknown as HandlerResponse);
+
+    expect(listReadingSessionsByUserId).toHaveBeenCalledWith("user-1", "book-1");
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual([sampleSession]);
+  });
+
+  it("creates a session for a book owned by the authenticated user", async () => {
+    (findBookById as jest.Mock).mockResolvedValue({ id: "book-1" });
+    (findReadingSessionById as jest.Mock).mockResolvedValue(null);
+    (insertReadingSession as jest.Mock).mockResolvedValue(sampleSession);
+
+    const request = createRequest({ method: "POST", body: sampleSession });
+    const response = createMockResponse();
+
+    await readingSessionsHandler(request, response as unknown as HandlerResponse);
+
+    expect(findBookById).toHaveBeenCalledWith("user-1", "book-1");
+    expect(insertReadingSession).toHaveBeenCalledWith("user-1", sampleSession);
+    expect(response.statusCode).toBe(201);
+    expect(response.jsonBody).toEqual(sampleSession);
+  });
+
+  it("returns 404 when logging a session for a book the user does not own", async () => {
+    (findBookById as jest.Mock).mockResolvedValue(null);
+
+    const request = createRequest({ method: "POST", body: sampleSession });
+    const response = createMockResponse();
+
+    await readingSessionsHandler(request, response as unknown as HandlerResponse);
+
+    expect(insertReadingSession).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(404);
+    expect(response.jsonBody).toEqual({
+      error: {
+        code: "NOT_FOUND",
+        message: "Book not found.",
+        details: undefined,
+      },
+    });
+  });
+
+  it("returns 404 when updating a session not owned by the authenticated user", async () => {
+    (updateReadingSession as jest.Mock).mockResolvedValue(null);
+
+    const request = createRequest({
+      method: "PUT",
+      query: { id: "session-2" },
+      body: { minutes: 20 },
+    });
+    const response = createMockResponse();
+
+    await readingSessionByIdHandler(request, response as unknown as HandlerResponse);
+
+    expect(updateReadingSession).toHaveBeenCalledWith("user-1", "session-2", { minutes: 20 });
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("deletes a session owned by the authenticated user", async () => {
+    (deleteReadingSession as jest.Mock).mockResolvedValue(true);
+
+    const request = createRequest({ method: "DELETE", query: { id: "session-1" } });
+    const response = createMockResponse();
+
+    await readingSessionByIdHandler(request, response as unknown as HandlerResponse);
+
+    expect(deleteReadingSession).toHaveBeenCalledWith("user-1", "session-1");
+    expect(response.statusCode).toBe(200);
+    expect(response.jsonBody).toEqual({ success: true });
+  });
+});
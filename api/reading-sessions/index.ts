@@ -0,0 +1,75 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
+import {
+  validateCreateReadingSessionPayload,
+} from "../../src/server/lib/reading-session-payload.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
+import { findBookById } from "../../src/server/models/book.js";
+import {
+  findReadingSessionById,
+  insertReadingSession,
+  listReadingSessionsByUserId,
+  toPublicReadingSession,
+} from "../../src/server/models/reading-session.js";
+
+const getBookIdFilter = (request: VercelRequest): string | undefined => {
+  const rawBookId = request.query.bookId;
+  const bookId = Array.isArray(rawBookId) ? rawBookId[0] : rawBookId;
+
+  return typeof bookId === "string" && bookId.trim() ? bookId.trim() : undefined;
+};
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+
+    if (request.method === "GET") {
+      const sessions = await listReadingSessionsByUserId(
+        authUser.sub,
+        getBookIdFilter(request),
+      );
+      return sendJson(
+        response,
+        200,
+        sessions.map((session) => toPublicReadingSession(session)),
+      );
+    }
+
+    if (request.method === "POST") {
+      const payload = validateCreateReadingSessionPayload(request.body);
+      const book = await findBookById(authUser.sub, payload.bookId);
+
+      if (!book) {
+        throw new ApiError(404, "NOT_FOUND", "Book not found.");
+      }
+
+      const existingSession = await findReadingSessionById(authUser.sub, payload.id);
+
+      if (existingSession) {
+        throw new ApiError(
+          409,
+          "CONFLICT",
+          "A reading session with that id already exists for this user.",
+        );
+      }
+
+      const session = await insertReadingSession(authUser.sub, payload);
+      return sendJson(response, 201, toPublicReadingSession(session));
+    }
+
+    return methodNotAllowed(response, ["GET", "POST"]);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
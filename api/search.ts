@@ -0,0 +1,71 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../src/server/lib/api-response.js";
+import {
+  MAX_SEARCH_LIMIT,
+  parseSearchQuery,
+  rankSearchResults,
+  toTextSearch,
+} from "../src/server/lib/search.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../src/server/middleware/auth.js";
+import {
+  listBooksInSeriesOrCollections,
+  searchBooksByText,
+  toPublicBook,
+} from "../src/server/models/book.js";
+import { searchCollectionsByText } from "../src/server/models/collection.js";
+import { searchSeriesByText } from "../src/server/models/series.js";
+
+// Candidates fetched from each source before ranking cuts them to the limit
+const CANDIDATE_LIMIT = MAX_SEARCH_LIMIT * 2;
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+
+    if (request.method !== "GET") {
+      return methodNotAllowed(response, ["GET"]);
+    }
+
+    const query = parseSearchQuery(request.query);
+    const search = toTextSearch(query);
+    const options = { caseSensitive: query.caseSensitive, limit: CANDIDATE_LIMIT };
+
+    const [books, series, collections] = await Promise.all([
+      searchBooksByText(authUser.sub, search, options),
+      searchSeriesByText(authUser.sub, search, options),
+      searchCollectionsByText(authUser.sub, search, options),
+    ]);
+
+    const linkedBooks = await listBooksInSeriesOrCollections(
+      authUser.sub,
+      {
+        seriesIds: series.map((match) => match.id),
+        collectionIds: collections.map((match) => match.id),
+        bookIds: [
+          ...series.flatMap((match) => match.books ?? []),
+          ...collections.flatMap((match) => match.bookIds ?? []),
+        ],
+      },
+      CANDIDATE_LIMIT,
+    );
+
+    const results = rankSearchResults(query, { books, linkedBooks, series, collections });
+
+    return sendJson(response, 200, {
+      results: results.map((result) => ({ ...result, item: toPublicBook(result.item) })),
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
@@ -2,6 +2,11 @@ import { VercelRequest, VercelResponse } from "@vercel/node";
 
 import { ApiError, methodNotAllowed, sendError, sendJson } from "../../src/server/lib/api-response.js";
 import { validateUpdateSeriesPayload } from "../../src/server/lib/series-payload.js";
+import {
+  getRevisionPrecondition,
+  revisionConflictError,
+  setETag,
+} from "../../src/server/lib/revision.js";
 import { UnauthorizedError, requireAuthenticatedUser } from "../../src/server/middleware/auth.js";
 import {
   deleteSeries,
@@ -36,17 +41,26 @@ export default async function handler(
         throw new ApiError(404, "NOT_FOUND", "Series not found.");
       }
 
+      setETag(response, series.revision ?? 0);
       return sendJson(response, 200, toPublicSeries(series));
     }
 
     if (request.method === "PUT") {
       const updates = validateUpdateSeriesPayload(request.body);
-      const series = await updateSeries(authUser.sub, id, updates);
+      const precondition = getRevisionPrecondition(request);
+      const series = await updateSeries(authUser.sub, id, updates, precondition?.revision);
 
       if (!series) {
+        const current = precondition ? await findSeriesById(authUser.sub, id) : null;
+
+        if (precondition && current) {
+          throw revisionConflictError(precondition, "Series", toPublicSeries(current));
+        }
+
         throw new ApiError(404, "NOT_FOUND", "Series not found.");
       }
 
+      setETag(response, series.revision ?? 0);
       return sendJson(response, 200, toPublicSeries(series));
     }
 
@@ -0,0 +1,123 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError, methodNotAllowed, sendError, sendJson } from "../src/server/lib/api-response.js";
+import { UnauthorizedError, requireAuthenticatedUser } from "../src/server/middleware/auth.js";
+import {
+  listBooksByUserId,
+  listBooksUpdatedSince,
+  toPublicBook,
+} from "../src/server/models/book.js";
+import {
+  listCollectionsByUserId,
+  listCollectionsModifiedSince,
+  toPublicCollection,
+} from "../src/server/models/collection.js";
+import {
+  listLoansByUserId,
+  listLoansUpdatedSince,
+  toPublicLoan,
+} from "../src/server/models/loan.js";
+import {
+  listSeriesByUserId,
+  listSeriesUpdatedSince,
+  toPublicSeries,
+} from "../src/server/models/series.js";
+import {
+  SYNC_TOMBSTONE_RETENTION_DAYS,
+  SyncEntity,
+  listSyncTombstonesSince,
+} from "../src/server/models/sync-tombstone.js";
+
+/**
+ * How far before since changes are pulled again. A write is stamped before
+ * it commits, and instances' clocks can drift, so a change stamped just
+ * before the previous serverTime may only have become visible after that
+ * pull. Clients skip records they already hold.
+ */
+const SYNC_PULL_OVERLAP_MS = 5 * 60 * 1000;
+
+const parseSince = (value: unknown): Date | null => {
+  if (value === undefined || value === "") {
+    return null;
+  }
+
+  const since = typeof value === "string" ? new Date(value) : new Date(NaN);
+
+  if (Number.isNaN(since.getTime())) {
+    throw new ApiError(400, "BAD_REQUEST", "since must be an ISO date.");
+  }
+
+  return since;
+};
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+): Promise<VercelResponse | void> {
+  try {
+    const authUser = await requireAuthenticatedUser(request);
+
+    if (request.method !== "GET") {
+      return methodNotAllowed(response, ["GET"]);
+    }
+
+    // Taken before reading so writes made during the reads are pulled next time
+    const serverTime = new Date();
+    const requestedSince = parseSince(request.query.since);
+    const retentionStart = new Date(
+      serverTime.getTime() - SYNC_TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    // Deletions older than the retention window are forgotten, so a client
+    // that far behind gets everything and replaces its copy
+    const since =
+      requestedSince && requestedSince > retentionStart
+        ? new Date(requestedSince.getTime() - SYNC_PULL_OVERLAP_MS)
+        : null;
+
+    const [books, series, collections, loans, tombstones] = since
+      ? await Promise.all([
+          listBooksUpdatedSince(authUser.sub, since),
+          listSeriesUpdatedSince(authUser.sub, since),
+          listCollectionsModifiedSince(authUser.sub, since),
+          listLoansUpdatedSince(authUser.sub, since),
+          listSyncTombstonesSince(authUser.sub, since),
+        ])
+      : await Promise.all([
+          listBooksByUserId(authUser.sub),
+          listSeriesByUserId(authUser.sub),
+          listCollectionsByUserId(authUser.sub),
+          listLoansByUserId(authUser.sub),
+          Promise.resolve([]),
+        ]);
+
+    const deleted: Record<SyncEntity, string[]> = {
+      books: [],
+      series: [],
+      collections: [],
+      loans: [],
+    };
+    tombstones.forEach((tombstone) => {
+      deleted[tombstone.entity].push(tombstone.entityId);
+    });
+
+    return sendJson(response, 200, {
+      full: !since,
+      serverTime: serverTime.toISOString(),
+      books: books.map(toPublicBook),
+      series: series.map(toPublicSeries),
+      collections: collections.map(toPublicCollection),
+      loans: loans.map((loan) => toPublicLoan(loan)),
+      deleted,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return sendError(
+        response,
+        new ApiError(401, "UNAUTHORIZED", error.message),
+      );
+    }
+
+    return sendError(response, error);
+  }
+}
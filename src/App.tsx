@@ -10,15 +10,18 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { UIProvider } from "@/components/ui-common/UIProvider";
 import LocalStorageCheck from "@/components/debug/LocalStorageCheck";
 import { ImportProvider } from "@/contexts/ImportContext";
+import { LoansProvider } from "@/contexts/LoansContext";
 import { SettingsProvider } from "@/contexts/SettingsContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import PaletteProvider from "@/contexts/PaletteContext";
+import { useHistoryShortcuts } from "@/hooks/useHistory";
 import AboutPage from "@/pages/AboutPage";
 import AdminPage from "@/pages/AdminPage";
 import CollectionDetailPage from "@/pages/CollectionDetailPage";
 import CollectionsPage from "@/pages/CollectionsPage";
 import Index from "@/pages/Index";
 import InsightsPage from "@/pages/InsightsPage";
+import LoansPage from "@/pages/LoansPage";
 import LoginPage from "@/pages/LoginPage";
 import NotFound from "@/pages/NotFound";
 import ForgotPasswordPage from "@/pages/ForgotPasswordPage";
@@ -26,24 +29,32 @@ import RegisterPage from "@/pages/RegisterPage";
 import ResetPasswordPage from "@/pages/ResetPasswordPage";
 import SeriesDetailPage from "@/pages/SeriesDetailPage";
 import SeriesPage from "@/pages/SeriesPage";
+import TagsPage from "@/pages/TagsPage";
 
 const queryClient = new QueryClient();
 
-const ProtectedLibraryLayout = () => (
-  <ProtectedRoute>
-    <SettingsProvider>
-      <PaletteProvider>
-        <ImportProvider>
-          <ImportStatusDisplay />
-          <BirthdayCelebration />
-          <DatabasePreloader>
-            <Outlet />
-          </DatabasePreloader>
-        </ImportProvider>
-      </PaletteProvider>
-    </SettingsProvider>
-  </ProtectedRoute>
-);
+const ProtectedLibraryLayout = () => {
+  // The undo history is shared by every library page
+  useHistoryShortcuts();
+
+  return (
+    <ProtectedRoute>
+      <SettingsProvider>
+        <PaletteProvider>
+          <ImportProvider>
+            <ImportStatusDisplay />
+            <BirthdayCelebration />
+            <DatabasePreloader>
+              <LoansProvider>
+                <Outlet />
+              </LoansProvider>
+            </DatabasePreloader>
+          </ImportProvider>
+        </PaletteProvider>
+      </SettingsProvider>
+    </ProtectedRoute>
+  );
+};
 
 const AppRoutes = () => (
   <Routes>
@@ -62,6 +73,8 @@ const AppRoutes = () => (
         path="/collections/:collectionId"
         element={<CollectionDetailPage />}
       />
+      <Route path="/tags" element={<TagsPage />} />
+      <Route path="/loans" element={<LoansPage />} />
       <Route path="/insights" element={<InsightsPage />} />
       <Route
         path="/test-backend"
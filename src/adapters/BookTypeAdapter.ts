@@ -5,7 +5,7 @@
  * IndexedDB Book types, resolving type mismatches and inconsistencies.
  */
 
-import { Book as UIBook } from '@/types/book';
+import { Book as UIBook, BookCopy, ReadThrough } from '@/types/book';
 import { Book as ModelBook, ReadingStatus } from '@/types/models/Book';
 import { normalizeGenreData } from '@/utils/genreUtils';
 
@@ -34,6 +34,9 @@ export interface DBBook {
   completedDate?: string;
   rating?: number;
   notes?: string;
+  readThroughs?: ReadThrough[];
+  tags?: string[];
+  copies?: BookCopy[];
   
   // Series fields
   isPartOfSeries?: boolean;
@@ -100,11 +103,14 @@ export function convertDbBookToUiBook(dbBook: DBBook): UIBook {
     rating: dbBook.rating,
     notes: dbBook.notes,
     progress: dbBook.progress,
+    readThroughs: dbBook.readThroughs,
     isPartOfSeries: dbBook.isPartOfSeries || false,
     seriesId: dbBook.seriesId,
     volumeNumber: dbBook.volumeNumber,
     seriesPosition: dbBook.seriesPosition,
     collectionIds: (dbBook as any).collectionIds,
+    tags: dbBook.tags,
+    copies: dbBook.copies,
     _legacySeriesName: dbBook._legacySeriesName,
     _legacyNextBookTitle: dbBook._legacyNextBookTitle,
     _legacyNextBookExpectedYear: dbBook._legacyNextBookExpectedYear,
@@ -151,6 +157,9 @@ export function convertUiBookToDbBook(uiBook: UIBook): DBBook {
     completedDate: uiBook.completedDate,
     rating: uiBook.rating,
     notes: uiBook.notes,
+    readThroughs: uiBook.readThroughs,
+    tags: uiBook.tags,
+    copies: uiBook.copies,
     isPartOfSeries: uiBook.isPartOfSeries,
     seriesId: uiBook.seriesId,
     volumeNumber: uiBook.volumeNumber,
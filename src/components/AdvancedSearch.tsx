@@ -1,22 +1,48 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, Settings2, X } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Bookmark, Search, Settings2, Sparkles, Trash2, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { SearchOptions, SearchableField } from '@/services/search/SearchService';
+import searchService, {
+  SearchOptions,
+  SearchResult,
+  SearchSource,
+  SearchableField
+} from '@/services/search/SearchService';
+import {
+  QuerySuggestion,
+  QuerySyntaxError,
+  applyQuerySuggestion,
+  getQuerySuggestions,
+  hasQuerySyntax,
+  parseQuery
+} from '@/services/search/query';
 import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { useSettings } from '@/contexts/SettingsContext';
+import { getStoredAuthToken } from '@/lib/auth-storage';
 import { cn } from '@/lib/utils';
+import { collectionRepository } from '@/repositories/CollectionRepository';
+import { Book } from '@/types/book';
+import { SavedSearch } from '@/types/user-settings';
+import { queryToCollectionRules } from '@/utils/collectionRules';
+
+// Wait for typing to pause before searching the server
+const SEARCH_DELAY_MS = 250;
 
 interface AdvancedSearchProps {
   onSearch: (query: string, options: SearchOptions) => void;
+  /** When given, the library is searched here and the ranked results passed on */
+  onResults?: (results: SearchResult<Book>[], source: SearchSource) => void;
   placeholder?: string;
   className?: string;
 }
 
-export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...", className }: AdvancedSearchProps) => {
+export const AdvancedSearch = ({ onSearch, onResults, placeholder = "Search your books...", className }: AdvancedSearchProps) => {
   const [query, setQuery] = useState('');
   const [showOptions, setShowOptions] = useState(false);
   const [options, setOptions] = useState<SearchOptions>({
@@ -27,8 +53,41 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
     limit: 100
   });
   
+  const [source, setSource] = useState<SearchSource | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [showSaved, setShowSaved] = useState(false);
+  const [savedSearchName, setSavedSearchName] = useState('');
+  const { settings, updateSettings } = useSettings();
+  const { toast } = useToast();
+  const savedSearches = settings.savedSearches ?? [];
+
+  // Queries like `author:"Le Guin" rating:>=4` are parsed; plain words keep
+  // the fuzzy search and its options
+  const isStructured = useMemo(() => hasQuerySyntax(query), [query]);
+  const queryError = useMemo(() => {
+    if (!isStructured) return null;
+
+    try {
+      parseQuery(query);
+      return null;
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) return error;
+      throw error;
+    }
+  }, [query, isStructured]);
+
+  const suggestions = useMemo(
+    () => getQuerySuggestions(query, cursor, searchService.getQuerySuggestionSource()),
+    [query, cursor]
+  );
+  const suggestionsOpen = showSuggestions && suggestions.suggestions.length > 0;
+  
   // Reference to the search input
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const onResultsRef = useRef(onResults);
+  onResultsRef.current = onResults;
   
   // Focus the input when the component mounts
   useEffect(() => {
@@ -37,6 +96,32 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
     }
   }, []);
   
+  // Search the server while signed in, or this device's index offline.
+  // Answers to queries that have since changed are dropped.
+  useEffect(() => {
+    if (!onResultsRef.current || queryError) return;
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      const search = isStructured
+        ? searchService.searchQuery(query, { limit: options.limit })
+        : searchService.searchLibrary(query, options);
+
+      search
+        .then(({ results, source }) => {
+          if (cancelled) return;
+          setSource(source);
+          onResultsRef.current?.(results, source);
+        })
+        .catch(error => console.error('Error searching books:', error));
+    }, query ? SEARCH_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query, options, isStructured, queryError]);
+  
   // Handle search submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,10 +131,110 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
   // Handle input change
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setQuery(e.target.value);
+    setCursor(e.target.selectionStart ?? e.target.value.length);
+    setShowSuggestions(true);
+    setActiveSuggestion(0);
     // For immediate search as-you-type
     onSearch(e.target.value, options);
   };
 
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const { value, cursor: nextCursor } = applyQuerySuggestion(query, suggestions, suggestion);
+
+    setQuery(value);
+    setCursor(nextCursor);
+    setActiveSuggestion(0);
+    onSearch(value, options);
+
+    // Put the caret after the inserted text once React has updated the input
+    requestAnimationFrame(() => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  // Arrow keys move through suggestions; Enter or Tab takes one
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestionsOpen) return;
+
+    const count = suggestions.suggestions.length;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion(current => (current + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions.suggestions[Math.min(activeSuggestion, count - 1)]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  const runQuery = (value: string) => {
+    setQuery(value);
+    setCursor(value.length);
+    setShowSaved(false);
+    onSearch(value, options);
+  };
+
+  const saveSearches = async (nextSearches: SavedSearch[], failure: string) => {
+    try {
+      await updateSettings({ savedSearches: nextSearches });
+      return true;
+    } catch (error) {
+      console.error('Error saving searches:', error);
+      toast({ title: 'Error', description: failure, variant: 'destructive' });
+      return false;
+    }
+  };
+
+  // Only queries that parse are worth keeping
+  const canSaveSearch = Boolean(query.trim()) && !queryError && Boolean(savedSearchName.trim());
+
+  const handleSaveSearch = async () => {
+    if (!canSaveSearch) return;
+
+    const savedSearch: SavedSearch = {
+      id: `search-${uuidv4()}`,
+      name: savedSearchName.trim(),
+      query: query.trim(),
+      createdAt: new Date().toISOString(),
+    };
+
+    if (await saveSearches([...savedSearches, savedSearch], 'Failed to save the search')) {
+      setSavedSearchName('');
+      toast({ title: 'Search saved', description: `"${savedSearch.name}" is in your saved searches` });
+    }
+  };
+
+  const handleDeleteSearch = async (savedSearch: SavedSearch) => {
+    await saveSearches(
+      savedSearches.filter(search => search.id !== savedSearch.id),
+      'Failed to delete the saved search'
+    );
+  };
+
+  // A saved search becomes a smart collection that keeps matching new books
+  const handleMakeSmartCollection = async (savedSearch: SavedSearch) => {
+    const { rules, error } = queryToCollectionRules(savedSearch.query);
+
+    if (!rules) {
+      toast({ title: "Can't make a smart collection", description: error, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await collectionRepository.add({ name: savedSearch.name, bookIds: [], rules });
+      toast({
+        title: 'Smart collection created',
+        description: `"${savedSearch.name}" now collects the books matching this search`
+      });
+    } catch (error) {
+      console.error('Error creating smart collection:', error);
+      toast({ title: 'Error', description: 'Failed to create the smart collection', variant: 'destructive' });
+    }
+  };
+
   // Get active options count for badge
   const getActiveOptionsCount = () => {
     let count = 0;
@@ -111,8 +296,17 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
           type="text"
           value={query}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onSelect={e => setCursor(e.currentTarget.selectionStart ?? query.length)}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
           placeholder={placeholder}
-          className="pl-10 pr-20 text-sm h-10"
+          className="pl-10 pr-28 text-sm h-10"
+          role="combobox"
+          aria-expanded={suggestionsOpen}
+          aria-controls="advanced-search-suggestions"
+          aria-invalid={Boolean(queryError)}
+          aria-describedby={queryError ? 'advanced-search-error' : undefined}
         />
         <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex gap-1">
           {query && (
@@ -123,6 +317,7 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
               className="h-6 w-6"
               onClick={() => {
                 setQuery('');
+                setCursor(0);
                 onSearch('', options);
                 searchInputRef.current?.focus();
               }}
@@ -130,6 +325,92 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
               <X className="h-4 w-4" />
             </Button>
           )}
+          <Popover open={showSaved} onOpenChange={setShowSaved}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label="Saved searches"
+              >
+                <Bookmark className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80" align="end">
+              <div className="space-y-4">
+                <h4 className="text-sm font-medium">Saved Searches</h4>
+
+                {savedSearches.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Save a search to run it again, or to turn it into a smart collection.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {savedSearches.map(savedSearch => (
+                      <li key={savedSearch.id} className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          className="flex-grow min-w-0 rounded-sm px-2 py-1 text-left hover:bg-accent"
+                          onClick={() => runQuery(savedSearch.query)}
+                        >
+                          <span className="block truncate text-sm">{savedSearch.name}</span>
+                          <span className="block truncate font-mono text-xs text-muted-foreground">{savedSearch.query}</span>
+                        </button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 flex-shrink-0"
+                          title="Make smart collection"
+                          aria-label={`Make a smart collection from ${savedSearch.name}`}
+                          onClick={() => handleMakeSmartCollection(savedSearch)}
+                        >
+                          <Sparkles className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 flex-shrink-0"
+                          aria-label={`Delete ${savedSearch.name}`}
+                          onClick={() => handleDeleteSearch(savedSearch)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="space-y-2 border-t pt-3">
+                  <Label htmlFor="saved-search-name" className="text-xs">Save this search</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="saved-search-name"
+                      placeholder="Name"
+                      value={savedSearchName}
+                      onChange={e => setSavedSearchName(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          void handleSaveSearch();
+                        }
+                      }}
+                      className="h-8 text-sm"
+                      disabled={!query.trim() || Boolean(queryError)}
+                    />
+                    <Button type="button" size="sm" className="h-8" onClick={handleSaveSearch} disabled={!canSaveSearch}>
+                      Save
+                    </Button>
+                  </div>
+                  {(!query.trim() || queryError) && (
+                    <p className="text-xs text-muted-foreground">Type a search without errors to save it.</p>
+                  )}
+                </div>
+              </div>
+            </PopoverContent>
+          </Popover>
           <Popover open={showOptions} onOpenChange={setShowOptions}>
             <PopoverTrigger asChild>
               <Button
@@ -172,6 +453,7 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
                       { value: 'author', label: 'Author' },
                       { value: 'genre', label: 'Genre' },
                       { value: 'seriesName', label: 'Series' },
+                      { value: 'collectionName', label: 'Collection' },
                       { value: 'notes', label: 'Notes' }
                     ].map((field) => (
                       <Badge
@@ -188,6 +470,10 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
                 
                 <div className="space-y-2">
                   <Label className="text-xs">Matching Options</Label>
+                  <p className="text-xs text-muted-foreground">
+                    These apply to plain words. Fields such as{' '}
+                    <code>author:"Le Guin" rating:&gt;=4 -genre:horror</code> are matched as typed.
+                  </p>
                   <div className="flex flex-col gap-2">
                     <div className="flex items-center space-x-2">
                       <Checkbox
@@ -232,6 +518,57 @@ export const AdvancedSearch = ({ onSearch, placeholder = "Search your books...",
           </Popover>
         </div>
       </form>
+      {suggestionsOpen && (
+        <ul
+          id="advanced-search-suggestions"
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-64 overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+        >
+          {suggestions.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              role="option"
+              aria-selected={index === activeSuggestion}
+              className={cn(
+                "flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5",
+                index === activeSuggestion && "bg-accent text-accent-foreground"
+              )}
+              // Keep focus in the input so the blur doesn't close the list first
+              onMouseDown={e => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveSuggestion(index)}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="text-xs text-muted-foreground truncate">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {queryError && (
+        <p id="advanced-search-error" role="alert" className="mt-1 text-xs text-destructive">
+          {queryError.message}
+          {queryError.position < query.length && (
+            <>
+              {': '}
+              <span className="font-mono">
+                {query.slice(0, queryError.position)}
+                <span className="underline decoration-wavy">{query.slice(queryError.position, queryError.end)}</span>
+                {query.slice(queryError.end)}
+              </span>
+            </>
+          )}
+        </p>
+      )}
+      {/* Queries on fields alone are always checked on this device */}
+      {onResults && query && source === 'local' && getStoredAuthToken() && (!isStructured || !navigator.onLine) && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          Searching the books on this device while the server can't be reached.
+        </p>
+      )}
     </div>
   );
 };
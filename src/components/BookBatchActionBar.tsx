@@ -0,0 +1,385 @@
+import { useEffect, useState } from "react";
+import {
+  BookMarked,
+  CheckSquare,
+  FolderMinus,
+  FolderPlus,
+  Loader2,
+  Star,
+  Tags,
+  Trash2,
+  X
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { collectionRepository } from "@/repositories/CollectionRepository";
+import { seriesRepository } from "@/repositories/SeriesRepository";
+import { Book } from "@/types/book";
+import { Collection } from "@/types/collection";
+import { Series } from "@/types/series";
+import { BookBatchAction } from "@/utils/bookBatch";
+
+interface BookBatchActionBarProps {
+  /** Selected books, in the order they were selected */
+  selectedBooks: Book[];
+  visibleCount: number;
+  isWorking?: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onAction: (action: BookBatchAction) => void;
+}
+
+const STATUS_OPTIONS: { value: NonNullable<Book['status']>; label: string }[] = [
+  { value: 'reading', label: 'Reading' },
+  { value: 'want-to-read', label: 'Want to Read' },
+  { value: 'completed', label: 'Read' },
+  { value: 'on-hold', label: 'On Hold' },
+  { value: 'dnf', label: 'Did Not Finish' },
+];
+
+const parseGenres = (value: string): string[] =>
+  value.split(',').map(genre => genre.trim()).filter(Boolean);
+
+/**
+ * Action bar shown while books are selected in the library views
+ */
+export const BookBatchActionBar = ({
+  selectedBooks,
+  visibleCount,
+  isWorking = false,
+  onSelectAll,
+  onClear,
+  onAction,
+}: BookBatchActionBarProps) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [showSeriesDialog, setShowSeriesDialog] = useState(false);
+  const [seriesId, setSeriesId] = useState('');
+  const [startPosition, setStartPosition] = useState('1');
+  const [showGenreDialog, setShowGenreDialog] = useState(false);
+  const [genresToAdd, setGenresToAdd] = useState('');
+  const [genresToRemove, setGenresToRemove] = useState<string[]>([]);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  const count = selectedBooks.length;
+  const disabled = count === 0 || isWorking;
+
+  useEffect(() => {
+    const loadTargets = async () => {
+      try {
+        const [allCollections, allSeries] = await Promise.all([
+          collectionRepository.getAll(),
+          seriesRepository.getAll(),
+        ]);
+        setCollections(allCollections);
+        setSeriesList(allSeries);
+      } catch (error) {
+        console.error('Error loading collections and series for batch actions:', error);
+      }
+    };
+
+    loadTargets();
+  }, []);
+
+  // Continue numbering after the books already in the chosen series
+  const handleSeriesChange = (id: string) => {
+    setSeriesId(id);
+    const series = seriesList.find(entry => entry.id === id);
+    const selectedIds = selectedBooks.map(book => book.id);
+    const remaining = series ? series.books.filter(bookId => !selectedIds.includes(bookId)).length : 0;
+    setStartPosition(String(remaining + 1));
+  };
+
+  const selectedGenres = Array.from(new Set(
+    selectedBooks.flatMap(book => (Array.isArray(book.genre) ? book.genre : book.genre ? [book.genre] : []))
+  )).sort((a, b) => a.localeCompare(b));
+
+  const position = Number(startPosition);
+  const isValidPosition = Number.isInteger(position) && position >= 1;
+
+  return (
+    <>
+      <div className="sticky bottom-4 z-30 mx-4 mt-4 flex flex-wrap items-center gap-2 rounded-lg border bg-card p-3 shadow-elegant">
+        <span className="text-sm font-medium">
+          {count} selected
+        </span>
+        {isWorking && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={isWorking || count === visibleCount}>
+          <CheckSquare className="h-4 w-4 mr-1" /> Select all ({visibleCount})
+        </Button>
+
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={disabled}>Set status</Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {STATUS_OPTIONS.map(option => (
+                <DropdownMenuItem key={option.value} onSelect={() => onAction({ type: 'status', status: option.value })}>
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={disabled}>
+                <Star className="h-4 w-4 mr-1" /> Rating
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {[5, 4, 3, 2, 1].map(rating => (
+                <DropdownMenuItem key={rating} onSelect={() => onAction({ type: 'rating', rating })}>
+                  {rating} {rating === 1 ? 'star' : 'stars'}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => onAction({ type: 'rating', rating: null })}>
+                Clear rating
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={disabled}>Collections</Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {collections.length === 0 && (
+                <DropdownMenuLabel className="font-normal text-muted-foreground">No collections yet</DropdownMenuLabel>
+              )}
+              {collections.length > 0 && (
+                <>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <FolderPlus className="h-4 w-4 mr-2" /> Add to
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {collections.map(collection => (
+                        <DropdownMenuItem
+                          key={collection.id}
+                          onSelect={() => onAction({ type: 'add-collection', collectionId: collection.id })}
+                        >
+                          {collection.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <FolderMinus className="h-4 w-4 mr-2" /> Remove from
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {collections.map(collection => (
+                        <DropdownMenuItem
+                          key={collection.id}
+                          onSelect={() => onAction({ type: 'remove-collection', collectionId: collection.id })}
+                        >
+                          {collection.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button variant="outline" size="sm" disabled={disabled || seriesList.length === 0} onClick={() => setShowSeriesDialog(true)}>
+            <BookMarked className="h-4 w-4 mr-1" /> Series
+          </Button>
+
+          <Button variant="outline" size="sm" disabled={disabled} onClick={() => setShowGenreDialog(true)}>
+            <Tags className="h-4 w-4 mr-1" /> Genres
+          </Button>
+
+          <Button variant="destructive" size="sm" disabled={disabled} onClick={() => setShowDeleteDialog(true)}>
+            <Trash2 className="h-4 w-4 mr-1" /> Delete
+          </Button>
+
+          <Button variant="ghost" size="icon" onClick={onClear} title="Clear selection (Esc)">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={showSeriesDialog} onOpenChange={setShowSeriesDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign to Series</DialogTitle>
+            <DialogDescription>
+              The {count} selected books are numbered in the order you selected them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-series">Series</Label>
+              <Select value={seriesId} onValueChange={handleSeriesChange}>
+                <SelectTrigger id="batch-series">
+                  <SelectValue placeholder="Choose a series" />
+                </SelectTrigger>
+                <SelectContent>
+                  {seriesList.map(series => (
+                    <SelectItem key={series.id} value={series.id}>{series.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-series-start">First position</Label>
+              <Input
+                id="batch-series-start"
+                type="number"
+                min={1}
+                value={startPosition}
+                onChange={(e) => setStartPosition(e.target.value)}
+              />
+              {isValidPosition && count > 1 && (
+                <p className="text-xs text-muted-foreground">
+                  Books will be numbered {position} to {position + count - 1}.
+                </p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSeriesDialog(false)}>Cancel</Button>
+            <Button
+              disabled={!seriesId || !isValidPosition}
+              onClick={() => {
+                onAction({ type: 'series', seriesId, startPosition: position });
+                setShowSeriesDialog(false);
+              }}
+            >
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={showGenreDialog}
+        onOpenChange={(open) => {
+          setShowGenreDialog(open);
+          if (!open) {
+            setGenresToAdd('');
+            setGenresToRemove([]);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Genres</DialogTitle>
+            <DialogDescription>
+              Add or remove genres on the {count} selected books.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-genres-add">Add genres</Label>
+              <Input
+                id="batch-genres-add"
+                placeholder="Fantasy, Classics"
+                value={genresToAdd}
+                onChange={(e) => setGenresToAdd(e.target.value)}
+              />
+            </div>
+            {selectedGenres.length > 0 && (
+              <div className="space-y-2">
+                <Label>Remove genres</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {selectedGenres.map(genre => (
+                    <label key={genre} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={genresToRemove.includes(genre)}
+                        onCheckedChange={(checked) =>
+                          setGenresToRemove(current =>
+                            checked ? [...current, genre] : current.filter(entry => entry !== genre)
+                          )
+                        }
+                      />
+                      {genre}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowGenreDialog(false)}>Cancel</Button>
+            <Button
+              disabled={parseGenres(genresToAdd).length === 0 && genresToRemove.length === 0}
+              onClick={() => {
+                onAction({ type: 'genres', add: parseGenres(genresToAdd), remove: genresToRemove });
+                setShowGenreDialog(false);
+                setGenresToAdd('');
+                setGenresToRemove([]);
+              }}
+            >
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {count} {count === 1 ? 'book' : 'books'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected books and their reading logs will be removed from your library.
+              You can undo this from the notification that follows.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => onAction({ type: 'delete' })}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -2,6 +2,8 @@ import React from 'react';
 import { Book } from '@/types/book';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { TagChips } from '@/components/TagChips';
+import { LoanBadge } from '@/components/loans/LoanBadge';
 import { Star, BookOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { createLogger } from '@/utils/loggingUtils';
@@ -111,6 +113,9 @@ export const BookCard = ({
             </div>
           </>
         )}
+        <div className="absolute top-2 left-2">
+          <LoanBadge bookId={book.id} />
+        </div>
       </div>
       
       <CardContent className={cn(
@@ -132,6 +137,7 @@ export const BookCard = ({
         
         {renderRating(book.rating)}
         {!compact && renderGenre(book.genre)}
+        {!compact && <TagChips tags={book.tags} max={3} className="mt-1" />}
       </CardContent>
     </Card>
   );
@@ -10,6 +10,8 @@ import { Book } from '@/types/book';
 import { collectionRepository } from '@/repositories/CollectionRepository';
 import { bookRepository } from '@/repositories/BookRepository';
 import { useToast } from '@/components/ui/use-toast';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { historyService } from '@/services/HistoryService';
 
 interface BookCollectionAssignmentProps {
   book: Book;
@@ -35,8 +37,8 @@ const BookCollectionAssignment: React.FC<BookCollectionAssignmentProps> = ({
   const loadCollections = useCallback(async () => {
     setIsLoading(true);
     try {
-      // Get all collections
-      const allCollections = await collectionRepository.getAll();
+      // Get all collections; smart ones pick their books by rules instead
+      const allCollections = (await collectionRepository.getAll()).filter(collection => !collection.rules);
       setCollections(allCollections);
       
       // Filter to get collections that contain this book
@@ -83,16 +85,18 @@ const BookCollectionAssignment: React.FC<BookCollectionAssignmentProps> = ({
           return;
         }
         
-        // Add book to collection
-        await collectionRepository.addBook(collection.id, book.id);
+        await historyService.group(async () => {
+          // Add book to collection
+          await collectionRepository.addBook(collection.id, book.id);
+          
+          // Update book's collectionIds
+          const nextCollectionIds = [...(book.collectionIds || [])];
+          if (!nextCollectionIds.includes(collection.id)) {
+            nextCollectionIds.push(collection.id);
+            await bookRepository.update(book.id, { collectionIds: nextCollectionIds });
+          }
+        }, `Add "${book.title}" to "${collection.name}"`);
         setBookCollections(prev => [...prev, collection]);
-        
-        // Update book's collectionIds
-        const nextCollectionIds = [...(book.collectionIds || [])];
-        if (!nextCollectionIds.includes(collection.id)) {
-          nextCollectionIds.push(collection.id);
-          await bookRepository.update(book.id, { collectionIds: nextCollectionIds });
-        }
       }
       
       // Notify parent component if needed
@@ -124,20 +128,24 @@ const BookCollectionAssignment: React.FC<BookCollectionAssignmentProps> = ({
     
     setIsLoading(true);
     try {
-      // Create new collection
-      const newCollection = await collectionRepository.add({
-        name: newCollectionName.trim(),
-        description: '',
-        bookIds: [book.id]
+      const newCollection = await historyService.group(async () => {
+        // Create new collection
+        const createdCollection = await collectionRepository.add({
+          name: newCollectionName.trim(),
+          description: '',
+          bookIds: [book.id]
+        });
+        
+        // Update book's collectionIds
+        const nextCollectionIds = [...(book.collectionIds || [])];
+        if (!nextCollectionIds.includes(createdCollection.id)) {
+          nextCollectionIds.push(createdCollection.id);
+          await bookRepository.update(book.id, { collectionIds: nextCollectionIds });
+        }
+
+        return createdCollection;
       });
       
-      // Update book's collectionIds
-      const nextCollectionIds = [...(book.collectionIds || [])];
-      if (!nextCollectionIds.includes(newCollection.id)) {
-        nextCollectionIds.push(newCollection.id);
-        await bookRepository.update(book.id, { collectionIds: nextCollectionIds });
-      }
-      
       // Update UI
       setCollections(prev => [...prev, newCollection]);
       setBookCollections(prev => [...prev, newCollection]);
@@ -146,7 +154,8 @@ const BookCollectionAssignment: React.FC<BookCollectionAssignmentProps> = ({
       
       toast({
         title: 'Success',
-        description: `Created collection "${newCollectionName}" and added book`
+        description: `Created collection "${newCollectionName}" and added book`,
+        action: <UndoToastAction command={historyService.peekUndo()} />
       });
       
       // Notify parent component if needed
@@ -2,20 +2,31 @@ import React from "react";
 import { Book } from "@/types/book";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Star } from "lucide-react";
+import { Check, Star } from "lucide-react";
 import { usePalette } from "@/contexts/PaletteContext";
 import { useState, useEffect } from "react";
 import { useTheme } from "@/components/ui-common/ThemeProvider";
 import { TruncatedText } from "@/components/common/TruncatedText";
 import { GenreCollapsible } from "@/components/common/GenreCollapsible";
+import { BookSelectionProps, isSelectionClick } from "@/hooks/useBookSelection";
 
 interface BookCoverViewProps {
   books: Book[];
   onBookClick: (book: Book) => void;
+  selection?: BookSelectionProps;
 }
 
-export const BookCoverView = ({ books, onBookClick }: BookCoverViewProps) => {
+export const BookCoverView = ({ books, onBookClick, selection }: BookCoverViewProps) => {
   const { selectedPalette } = usePalette();
+  const bookIds = books.map(book => book.id);
+
+  const handleCardClick = (book: Book, event: React.MouseEvent) => {
+    if (selection && isSelectionClick(selection, event)) {
+      selection.onSelect(book.id, bookIds, event);
+    } else {
+      onBookClick(book);
+    }
+  };
   
   // Function to get a color from the palette based on book spine color
   const getPlaceholderColor = (spineColor: number) => {
@@ -72,11 +83,19 @@ export const BookCoverView = ({ books, onBookClick }: BookCoverViewProps) => {
       {books.map((book) => (
         <Card 
           key={book.id}
-          className="overflow-hidden cursor-pointer transition-all duration-300 hover:shadow-elegant"
-          onClick={() => onBookClick(book)}
+          className={`overflow-hidden cursor-pointer transition-all duration-300 hover:shadow-elegant ${selection?.active ? 'select-none' : ''} ${selection?.selectedIds.includes(book.id) ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+          onClick={(event) => handleCardClick(book, event)}
+          aria-selected={selection?.active ? selection.selectedIds.includes(book.id) : undefined}
         >
           <CardContent className="p-0 relative flex flex-col h-full">
             <div className="aspect-[2/3] w-full bg-muted relative">
+              {selection?.active && (
+                <div
+                  className={`absolute top-2 left-2 z-10 flex h-5 w-5 items-center justify-center rounded-sm border border-primary ${selection.selectedIds.includes(book.id) ? 'bg-primary text-primary-foreground' : 'bg-background/80'}`}
+                >
+                  {selection.selectedIds.includes(book.id) && <Check className="h-4 w-4" />}
+                </div>
+              )}
               {book.thumbnail ? (
                 <img 
                   src={book.thumbnail} 
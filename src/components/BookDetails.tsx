@@ -29,7 +29,9 @@ import {
   Star,
   Database,
   Eye,
-  EyeOff
+  EyeOff,
+  Layers,
+  RotateCcw
 } from "lucide-react";
 import { createLogger } from "@/utils/loggingUtils";
 
@@ -56,6 +58,13 @@ import { seriesService } from "@/services/SeriesService";
 import { seriesApiService, SeriesDetectionResult } from "@/services/api/SeriesApiService";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/components/ui/use-toast";
+import { UndoToastAction } from "@/components/UndoToastAction";
+import { TagChips } from "@/components/TagChips";
+import { BookTagsEditor } from "@/components/BookTagsEditor";
+import { MergeConflictDialog } from "@/components/dialogs/MergeConflictDialog";
+import { useSyncConflict } from "@/hooks/useSync";
+import { BOOK_CONFLICT_FIELDS } from "@/utils/syncConflicts";
+import { historyService } from "@/services/HistoryService";
 import { enhancedStorageService } from "@/services/storage/EnhancedStorageService";
 import { bookRepository } from "@/repositories/BookRepository";
 import { seriesRepository } from "@/repositories/SeriesRepository";
@@ -86,6 +95,12 @@ const CreateSeriesDialog = React.lazy(() =>
 
 const BookCollectionAssignment = React.lazy(() => import('@/components/BookCollectionAssignment'));
 
+const ReadingSessionLog = React.lazy(() => import('@/components/reading/ReadingSessionLog'));
+
+const ReadThroughHistory = React.lazy(() => import('@/components/reading/ReadThroughHistory'));
+
+const BookCopies = React.lazy(() => import('@/components/copies/BookCopies'));
+
 interface BookDetailsProps {
   book: Book;
   onUpdate: (updatedBook: Book) => void;
@@ -139,6 +154,9 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
   const [showRemoveConfirm, setShowRemoveConfirm] = useState(false);
   const [showMetadataInfo, setShowMetadataInfo] = useState(false);
   const [showCollectionsInfo, setShowCollectionsInfo] = useState(false);
+  const [showReadingSessions, setShowReadingSessions] = useState(false);
+  const [showReadHistory, setShowReadHistory] = useState(false);
+  const [showCopies, setShowCopies] = useState(false);
   const [seriesDetectionResult, setSeriesDetectionResult] = useState<SeriesDetectionResult | null>(null);
   // Format date for HTML date input (YYYY-MM-DD)
   const formatDateForInput = (dateString?: string): string => {
@@ -228,6 +246,36 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
   const descriptionInputRef = useRef<HTMLTextAreaElement>(null);
   const genreInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { conflict, resolveLater: resolveConflictLater, dismiss: dismissConflict } = useSyncConflict<Book>('books', book.id);
+
+  // Save the merge of a change that was refused because the book had been
+  // changed elsewhere; the local copy already holds the other version
+  const handleResolveConflict = async (changes: Partial<Book>) => {
+    try {
+      const resolvedBook = Object.keys(changes).length > 0
+        ? await bookRepository.update(book.id, changes)
+        : await bookRepository.getById(book.id);
+      await dismissConflict();
+
+      if (resolvedBook) {
+        setEditedBook({ ...resolvedBook });
+        onUpdate(resolvedBook);
+      }
+
+      toast({
+        title: "Changes merged",
+        description: `"${book.title}" now has the versions you picked`,
+      });
+    } catch (error) {
+      console.error('Error merging book changes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the merged book",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
 
   // Function to detect series and open the advanced dialog
   const detectAndOpenSeriesDialog = async () => {
@@ -527,11 +575,14 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
         rating: editedBook.rating,
         notes: editedBook.notes,
         progress: editedBook.progress,
+        readThroughs: editedBook.readThroughs,
         isPartOfSeries: !!selectedSeriesId,
         seriesId: selectedSeriesId || undefined,
         volumeNumber: volumeNumber,
         seriesPosition: volumeNumber,
         collectionIds: editedBook.collectionIds,
+        tags: editedBook.tags,
+        copies: editedBook.copies,
         _legacySeriesName: editedBook._legacySeriesName,
         _legacyNextBookTitle: editedBook._legacyNextBookTitle,
         _legacyNextBookExpectedYear: editedBook._legacyNextBookExpectedYear,
@@ -539,26 +590,29 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
         addedDate: editedBook.addedDate,
       };
       
-      // If a series was selected, make sure the book is added to that series
-      if (selectedSeriesId) {
-        try {
-          await seriesService.addBookToSeries(selectedSeriesId, book.id);
+      // The series membership and the book edit are undone together
+      const persistedBook = await historyService.group(async () => {
+        // If a series was selected, make sure the book is added to that series
+        if (selectedSeriesId) {
+          try {
+            await seriesService.addBookToSeries(selectedSeriesId, book.id);
 
-          toast({
-            title: "Series Updated",
-            description: "Book successfully added to series."
-          });
-        } catch (error) {
-          console.error('Error adding book to series:', error);
-          toast({
-            title: "Error",
-            description: "Failed to add book to series.",
-            variant: "destructive"
-          });
+            toast({
+              title: "Series Updated",
+              description: "Book successfully added to series."
+            });
+          } catch (error) {
+            console.error('Error adding book to series:', error);
+            toast({
+              title: "Error",
+              description: "Failed to add book to series.",
+              variant: "destructive"
+            });
+          }
         }
-      }
 
-      const persistedBook = await bookRepository.update(updatedBook.id, updatedBook);
+        return bookRepository.update(updatedBook.id, updatedBook);
+      }, `Edit "${book.title}"`);
 
       // Update UI state via parent callback
       onUpdate(persistedBook);
@@ -573,7 +627,8 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
 
       toast({
         title: "Changes Saved",
-        description: "Book details updated successfully."
+        description: "Book details updated successfully.",
+        action: <UndoToastAction command={historyService.peekUndo()} />
       });
     } catch (error) {
       log.error('Error saving book changes', {
@@ -940,6 +995,22 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
     setEditedBook({ ...editedBook, rating });
   };
 
+  // A logged or deleted session has already stored the derived progress, so
+  // keep unsaved edits here and hand the parent the stored book
+  const handleSessionProgressChange = async (progress: number | undefined) => {
+    setEditedBook(prev => ({ ...prev, progress }));
+
+    try {
+      const storedBook = await bookRepository.getById(book.id);
+
+      if (storedBook) {
+        onUpdate(storedBook);
+      }
+    } catch (error) {
+      console.error('Error loading book after reading session change:', error);
+    }
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: globalThis.KeyboardEvent) => {
@@ -1566,6 +1637,25 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
             </div>
           </div>
 
+          {/* Tags */}
+          <div>
+            <Label htmlFor="book-tags">Tags</Label>
+            <div className="mt-1">
+              {isViewMode ? (
+                editedBook.tags?.length ? (
+                  <TagChips tags={editedBook.tags} />
+                ) : (
+                  <div className="text-sm text-muted-foreground italic">No tags.</div>
+                )
+              ) : (
+                <BookTagsEditor
+                  tags={editedBook.tags}
+                  onChange={(tags) => setEditedBook({ ...editedBook, tags })}
+                />
+              )}
+            </div>
+          </div>
+
           {/* Notes */}
           <div>
             <Label htmlFor="notes">Notes</Label>
@@ -1853,6 +1943,88 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
             )}
           </div>
 
+          {/* Copies */}
+          <div className="space-y-3 mt-4">
+            <div 
+              className="flex items-center justify-between cursor-pointer"
+              onClick={() => setShowCopies(!showCopies)}
+            >
+              <div className="flex items-center gap-2">
+                <Layers className="h-5 w-5 text-primary" />
+                <h3 className="text-base font-medium">Copies</h3>
+              </div>
+              <Button variant="ghost" size="sm" className="p-1 h-8 w-8">
+                {showCopies ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+            
+            {showCopies && (
+              <div className="bg-muted/30 p-4 rounded-md border">
+                <Suspense fallback={<div className="text-sm text-muted-foreground">Loading copies...</div>}>
+                  <BookCopies 
+                    book={editedBook} 
+                    readOnly={isViewMode}
+                    onChange={(updates) => setEditedBook({ ...editedBook, ...updates })}
+                  />
+                </Suspense>
+              </div>
+            )}
+          </div>
+
+          {/* Read History */}
+          <div className="space-y-3 mt-4">
+            <div 
+              className="flex items-center justify-between cursor-pointer"
+              onClick={() => setShowReadHistory(!showReadHistory)}
+            >
+              <div className="flex items-center gap-2">
+                <RotateCcw className="h-5 w-5 text-primary" />
+                <h3 className="text-base font-medium">Read History</h3>
+              </div>
+              <Button variant="ghost" size="sm" className="p-1 h-8 w-8">
+                {showReadHistory ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+            
+            {showReadHistory && (
+              <div className="bg-muted/30 p-4 rounded-md border">
+                <Suspense fallback={<div className="text-sm text-muted-foreground">Loading read history...</div>}>
+                  <ReadThroughHistory 
+                    book={editedBook} 
+                    onChange={(updates) => setEditedBook({ ...editedBook, ...updates })}
+                  />
+                </Suspense>
+              </div>
+            )}
+          </div>
+
+          {/* Reading Sessions */}
+          <div className="space-y-3 mt-4">
+            <div 
+              className="flex items-center justify-between cursor-pointer"
+              onClick={() => setShowReadingSessions(!showReadingSessions)}
+            >
+              <div className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5 text-primary" />
+                <h3 className="text-base font-medium">Reading Sessions</h3>
+              </div>
+              <Button variant="ghost" size="sm" className="p-1 h-8 w-8">
+                {showReadingSessions ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+            
+            {showReadingSessions && (
+              <div className="bg-muted/30 p-4 rounded-md border">
+                <Suspense fallback={<div className="text-sm text-muted-foreground">Loading reading sessions...</div>}>
+                  <ReadingSessionLog 
+                    book={editedBook} 
+                    onProgressChange={(progress) => void handleSessionProgressChange(progress)}
+                  />
+                </Suspense>
+              </div>
+            )}
+          </div>
+
           {/* Collections */}
           <div className="space-y-3 mt-4">
             <div 
@@ -2122,6 +2294,15 @@ export const BookDetails = ({ book, onUpdate, onDelete, onClose }: BookDetailsPr
               />
             </Suspense>
           )}
+
+          {/* Merge a change that conflicted with one made elsewhere */}
+          <MergeConflictDialog
+            conflict={conflict}
+            fields={BOOK_CONFLICT_FIELDS}
+            itemName={book.title}
+            onResolve={handleResolveConflict}
+            onResolveLater={resolveConflictLater}
+          />
         </CardContent>
       </Card>
       </DialogContent>
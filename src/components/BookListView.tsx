@@ -6,6 +6,9 @@ import { Star, ChevronUp, ChevronDown } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { TruncatedText } from "@/components/common/TruncatedText";
 import { GenreCollapsible } from "@/components/common/GenreCollapsible";
+import { TagChips } from "@/components/TagChips";
+import { Checkbox } from "@/components/ui/checkbox";
+import { BookSelectionProps, isSelectionClick } from "@/hooks/useBookSelection";
 
 // Define sort fields for the BookListView
 type SortField = 'title' | 'author' | 'genre' | 'status' | 'rating' | 'addedDate';
@@ -16,9 +19,10 @@ type SortDirection = 'asc' | 'desc';
 interface BookListViewProps {
   books: Book[];
   onBookClick: (book: Book) => void;
+  selection?: BookSelectionProps;
 }
 
-export const BookListView = ({ books, onBookClick }: BookListViewProps) => {
+export const BookListView = ({ books, onBookClick, selection }: BookListViewProps) => {
   // State for tracking the sort field and direction
   const [sortField, setSortField] = useState<SortField>('title');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
@@ -88,6 +92,16 @@ export const BookListView = ({ books, onBookClick }: BookListViewProps) => {
     if (valueA > valueB) return sortDirection === 'asc' ? 1 : -1;
     return 0;
   });
+  const sortedIds = sortedBooks.map(book => book.id);
+
+  const handleRowClick = (book: Book, event: React.MouseEvent) => {
+    if (selection && isSelectionClick(selection, event)) {
+      selection.onSelect(book.id, sortedIds, event);
+    } else {
+      onBookClick(book);
+    }
+  };
+
   if (books.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 text-center">
@@ -102,6 +116,11 @@ export const BookListView = ({ books, onBookClick }: BookListViewProps) => {
       <Table>
         <TableHeader>
           <TableRow>
+            {selection?.active && (
+              <TableHead className="w-[40px]">
+                <span className="sr-only">Selected</span>
+              </TableHead>
+            )}
             <SortableHeader field="title" className="w-[250px]">Title</SortableHeader>
             <SortableHeader field="author" className="w-[180px]">Author</SortableHeader>
             <SortableHeader field="genre" className="w-[120px]">Genre</SortableHeader>
@@ -111,67 +130,85 @@ export const BookListView = ({ books, onBookClick }: BookListViewProps) => {
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sortedBooks.map((book) => (
-            <TableRow 
-              key={book.id} 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => onBookClick(book)}
-            >
-              <TableCell className="font-medium font-serif">
-                <div className="break-words pr-2">{book.title}</div>
-                {book.isPartOfSeries && (
-                  <Badge variant="outline" className="ml-2">Series</Badge>
+          {sortedBooks.map((book) => {
+            const isSelected = Boolean(selection?.selectedIds.includes(book.id));
+
+            return (
+              <TableRow 
+                key={book.id} 
+                className={`cursor-pointer hover:bg-muted/50 ${selection?.active ? 'select-none' : ''}`}
+                data-state={isSelected ? 'selected' : undefined}
+                onClick={(event) => handleRowClick(book, event)}
+              >
+                {selection?.active && (
+                  <TableCell>
+                    <Checkbox
+                      checked={isSelected}
+                      aria-label={`Select ${book.title}`}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        selection.onSelect(book.id, sortedIds, event);
+                      }}
+                    />
+                  </TableCell>
                 )}
-              </TableCell>
-              <TableCell><TruncatedText text={book.author} maxLength={30} /></TableCell>
-              <TableCell>
-                {book.genre 
-                  ? (Array.isArray(book.genre) 
-                    ? <GenreCollapsible genres={book.genre} limit={2} /> 
-                    : <TruncatedText text={book.genre} maxLength={30} />) 
-                  : '-'}
-              </TableCell>
-              <TableCell>
-                <Badge 
-                  className={
-                    book.status === 'want-to-read'
-                      ? "bg-gradient-cool text-white"
+                <TableCell className="font-medium font-serif">
+                  <div className="break-words pr-2">{book.title}</div>
+                  {book.isPartOfSeries && (
+                    <Badge variant="outline" className="ml-2">Series</Badge>
+                  )}
+                  <TagChips tags={book.tags} max={3} className="mt-1" />
+                </TableCell>
+                <TableCell><TruncatedText text={book.author} maxLength={30} /></TableCell>
+                <TableCell>
+                  {book.genre 
+                    ? (Array.isArray(book.genre) 
+                      ? <GenreCollapsible genres={book.genre} limit={2} /> 
+                      : <TruncatedText text={book.genre} maxLength={30} />) 
+                    : '-'}
+                </TableCell>
+                <TableCell>
+                  <Badge 
+                    className={
+                      book.status === 'want-to-read'
+                        ? "bg-gradient-cool text-white"
+                        : book.status === 'completed' || (!book.status && book.completedDate)
+                          ? "bg-gradient-success text-white" 
+                          : book.status === 'dnf'
+                            ? "bg-gradient-danger text-white"
+                            : book.status === 'on-hold'
+                              ? "bg-gradient-amber text-white"
+                              : "bg-gradient-warm text-white"
+                    }
+                  >
+                    {book.status === 'want-to-read'
+                      ? "Want to Read"
                       : book.status === 'completed' || (!book.status && book.completedDate)
-                        ? "bg-gradient-success text-white" 
+                        ? "Read" 
                         : book.status === 'dnf'
-                          ? "bg-gradient-danger text-white"
+                          ? "Did Not Finish"
                           : book.status === 'on-hold'
-                            ? "bg-gradient-amber text-white"
-                            : "bg-gradient-warm text-white"
-                  }
-                >
-                  {book.status === 'want-to-read'
-                    ? "Want to Read"
-                    : book.status === 'completed' || (!book.status && book.completedDate)
-                      ? "Read" 
-                      : book.status === 'dnf'
-                        ? "Did Not Finish"
-                        : book.status === 'on-hold'
-                          ? "On Hold"
-                          : "Reading"
-                  }
-                </Badge>
-              </TableCell>
-              <TableCell>
-                <div className="flex">
-                  {book.rating ? Array(book.rating).fill(0).map((_, i) => (
-                    <Star 
-                      key={i} 
-                      className="h-4 w-4 fill-accent-warm text-accent-warm" 
-                    />
-                  )) : '-'}
-                </div>
-              </TableCell>
-              <TableCell className="text-muted-foreground text-sm">
-                {book.addedDate ? formatDistanceToNow(new Date(book.addedDate), { addSuffix: true }) : '-'}
-              </TableCell>
-            </TableRow>
-          ))}
+                            ? "On Hold"
+                            : "Reading"
+                    }
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex">
+                    {book.rating ? Array(book.rating).fill(0).map((_, i) => (
+                      <Star 
+                        key={i} 
+                        className="h-4 w-4 fill-accent-warm text-accent-warm" 
+                      />
+                    )) : '-'}
+                  </div>
+                </TableCell>
+                <TableCell className="text-muted-foreground text-sm">
+                  {book.addedDate ? formatDistanceToNow(new Date(book.addedDate), { addSuffix: true }) : '-'}
+                </TableCell>
+              </TableRow>
+            );
+          })}
         </TableBody>
       </Table>
     </div>
@@ -16,6 +16,7 @@ import { SeriesAssignmentDialog } from "@/components/dialogs/SeriesAssignmentDia
 import { Badge } from "@/components/ui/badge";
 import { bookRepository } from "@/repositories/BookRepository";
 import { seriesRepository } from "@/repositories/SeriesRepository";
+import { createBookFromDetails, isSearchItemInLibrary } from "@/utils/bookSearchUtils";
 
 interface BookSearchProps {
   onAddBook: (book: Book) => void;
@@ -63,27 +64,9 @@ export const BookSearch = ({ onAddBook, existingBooks, maxResultsHeight }: BookS
       });
       
       // Filter out books that are already in the library
-      const filteredResults = searchResult.books.filter((apiBook) => {
-        // Check if this book already exists in the user's library
-        // First check by provider-specific ID
-        const existsById = apiBook.id && existingBooks.some(existingBook => 
-          existingBook.googleBooksId === apiBook.id ||
-          existingBook.sourceId === apiBook.id
-        );
-        
-        if (existsById) return false;
-        
-        // If no ID match, check by title and author
-        const apiBookAuthor = typeof apiBook.author === 'string' ? apiBook.author.toLowerCase() : 
-          (Array.isArray(apiBook.author) && apiBook.author.length > 0) ? apiBook.author[0].toLowerCase() : '';
-          
-        const existsByTitleAndAuthor = existingBooks.some(existingBook => 
-          existingBook.title.toLowerCase() === apiBook.title.toLowerCase() && 
-          existingBook.author.toLowerCase() === apiBookAuthor
-        );
-        
-        return !existsByTitleAndAuthor;
-      });
+      const filteredResults = searchResult.books.filter(
+        (apiBook) => !isSearchItemInLibrary(apiBook, existingBooks)
+      );
       
       setSearchResults(filteredResults);
     } catch (error) {
@@ -126,38 +109,11 @@ export const BookSearch = ({ onAddBook, existingBooks, maxResultsHeight }: BookS
       // Fetch detailed book information using our API client
       const detailedBook = await bookApiClient.getBookDetails(book.id);
       
-      // Convert the ReadingStatus enum to string status for the existing application
       // Use user's preferred default status if no status is provided
       const defaultStatus = settings.defaultStatus || 'want-to-read';
       
       // Create a book object compatible with the existing application
-      const newBook: Book = {
-        id: `book-${Math.random().toString(36).substring(2, 10)}`,
-        title: detailedBook.title,
-        author: Array.isArray(detailedBook.author) && detailedBook.author.length > 0 
-          ? detailedBook.author[0] : typeof detailedBook.author === 'string' ? detailedBook.author : 'Unknown',
-        thumbnail: detailedBook.thumbnail,
-        genre: Array.isArray(detailedBook.genre) && detailedBook.genre.length > 0 
-          ? detailedBook.genre[0] : typeof detailedBook.genre === 'string' ? detailedBook.genre : undefined,
-        description: detailedBook.description,
-        publishedDate: detailedBook.publishedDate,
-        pageCount: detailedBook.pageCount,
-        googleBooksId: detailedBook.sourceType === 'google' ? detailedBook.id : undefined,
-        openLibraryId: detailedBook.sourceType === 'openlib' ? detailedBook.id : undefined,
-        
-        // Set source tracking fields
-        sourceId: detailedBook.id,
-        sourceType: detailedBook.sourceType as 'google' | 'openlib' | 'manual',
-        
-        // Set ISBN fields if available
-        isbn10: detailedBook.isbn10 || [],
-        isbn13: detailedBook.isbn13 || [],
-        
-        status: defaultStatus as 'reading' | 'completed' | 'want-to-read',
-        isPartOfSeries: false, // Initially set to false
-        addedDate: new Date().toISOString(),
-        spineColor: Math.floor(Math.random() * 8) + 1, // Random spine color 1-8
-      };
+      const newBook = createBookFromDetails(detailedBook, defaultStatus as Book['status']);
       
       // Set the current book for reference in the series dialog
       setCurrentBook(newBook);
@@ -9,13 +9,15 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { BookSelectionProps, isSelectionClick } from "@/hooks/useBookSelection";
 
 interface BookShelfProps {
   books: Book[];
   onBookClick: (book: Book) => void;
+  selection?: BookSelectionProps;
 }
 
-export const BookShelf = ({ books, onBookClick }: BookShelfProps) => {
+export const BookShelf = ({ books, onBookClick, selection }: BookShelfProps) => {
   // Get settings to check display preferences
   const { settings } = useSettings();
   const groupSpecialStatuses = settings.displayOptions?.groupSpecialStatuses || false;
@@ -195,7 +197,8 @@ export const BookShelf = ({ books, onBookClick }: BookShelfProps) => {
               <BookSpine
                 key={book.id}
                 book={book}
-                onClick={() => onBookClick(book)}
+                onClick={(event) => handleSpineClick(book, event)}
+                selected={selection?.selectedIds.includes(book.id)}
               />
             ))}
             {/* Empty shelf placeholder when there are few books */}
@@ -263,6 +266,19 @@ export const BookShelf = ({ books, onBookClick }: BookShelfProps) => {
     return offset;
   };
 
+  // Books in the order they appear across the visible shelves, for shift-click ranges
+  const displayedIds = customShelfOrder
+    .filter(status => !(groupSpecialStatuses && (status === 'on-hold' || status === 'dnf')))
+    .flatMap(status => getShelfBooks(status).flat().map(book => book.id));
+
+  const handleSpineClick = (book: Book, event: React.MouseEvent) => {
+    if (selection && isSelectionClick(selection, event)) {
+      selection.onSelect(book.id, displayedIds, event);
+    } else {
+      onBookClick(book);
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* Render shelves in custom order */}
@@ -4,13 +4,15 @@ import { usePalette } from "@/contexts/PaletteContext";
 import { useSettings } from "@/contexts/SettingsContext";
 import { useMemo } from "react";
 import { useTheme } from "@/components/ui-common/ThemeProvider";
+import { LoanBadge } from "@/components/loans/LoanBadge";
 
 interface BookSpineProps {
   book: Book;
-  onClick: () => void;
+  onClick: (event: React.MouseEvent) => void;
+  selected?: boolean;
 }
 
-export const BookSpine = ({ book, onClick }: BookSpineProps) => {
+export const BookSpine = ({ book, onClick, selected = false }: BookSpineProps) => {
   const { selectedPalette } = usePalette();
   const { settings } = useSettings();
   const disableHoverEffect = settings.displayOptions?.disableHoverEffect || false;
@@ -204,8 +206,10 @@ export const BookSpine = ({ book, onClick }: BookSpineProps) => {
         "relative cursor-pointer group",
         "rounded-sm shadow-book hover:shadow-elegant",
         "transition-all duration-300 ease-in-out",
-        !disableHoverEffect && "transform hover:translate-y-[-10px] hover:translate-z-0 hover:scale-[1.03]"
+        !disableHoverEffect && "transform hover:translate-y-[-10px] hover:translate-z-0 hover:scale-[1.03]",
+        selected && "ring-2 ring-primary ring-offset-1 translate-y-[-6px]"
       )}
+      aria-selected={selected || undefined}
       style={{ 
         height: `${spineHeight}px`, 
         width: spineWidth,
@@ -254,6 +258,9 @@ export const BookSpine = ({ book, onClick }: BookSpineProps) => {
 
         {/* No author name - removed to prevent overlap with title */}
 
+        {/* Out on loan */}
+        <LoanBadge bookId={book.id} compact className="absolute top-1 left-1/2 -translate-x-1/2 z-10" />
+
         {/* Subtle texture overlay */}
         <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent rounded-sm"></div>
       </div>
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { MAX_BOOK_TAGS, MAX_TAG_LENGTH, addTag } from '@/utils/bookTags';
+
+interface BookTagsEditorProps {
+  tags?: string[];
+  onChange: (tags: string[] | undefined) => void;
+}
+
+/**
+ * Adds and removes a book's tags. A tag is added on Enter or a comma; the
+ * book loses its tags field when the last one is removed.
+ */
+export const BookTagsEditor = ({ tags, onChange }: BookTagsEditorProps) => {
+  const [input, setInput] = useState('');
+  const current = tags || [];
+  const isFull = current.length >= MAX_BOOK_TAGS;
+
+  const commit = () => {
+    if (!input.trim() || isFull) return;
+    onChange(addTag(current, input));
+    setInput('');
+  };
+
+  const remove = (tag: string) => {
+    const remaining = current.filter(existing => existing !== tag);
+    onChange(remaining.length > 0 ? remaining : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      {current.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {current.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => remove(tag)}
+                aria-label={`Remove tag ${tag}`}
+                className="rounded-full hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id="book-tags"
+        value={input}
+        maxLength={MAX_TAG_LENGTH}
+        disabled={isFull}
+        placeholder={isFull ? `Books can have up to ${MAX_BOOK_TAGS} tags` : 'Add a tag, e.g. signed copy'}
+        onChange={(e) => setInput(e.target.value.replace(/,/g, ''))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          } else if (e.key === 'Backspace' && !input && current.length > 0) {
+            remove(current[current.length - 1]);
+          }
+        }}
+        onBlur={commit}
+      />
+    </div>
+  );
+};
+
+export default BookTagsEditor;
@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CollectionRule, CollectionRuleField, CollectionRules } from '@/types/collection';
+import {
+  COLLECTION_RULE_FIELDS,
+  COLLECTION_RULE_STATUSES,
+  CollectionRuleStatus,
+  MAX_COLLECTION_RULES,
+  createCollectionRule,
+  getCollectionRuleField,
+  isCollectionRuleComplete
+} from '@/utils/collectionRules';
+
+interface CollectionRuleBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The rules to start from; a single status rule when there are none */
+  rules?: CollectionRules | null;
+  onSave: (rules: CollectionRules) => Promise<void> | void;
+}
+
+const DEFAULT_RULES: CollectionRules = {
+  match: 'all',
+  conditions: [createCollectionRule('status')],
+};
+
+const RULE_PLACEHOLDERS = {
+  genre: 'e.g. Fantasy',
+  author: 'e.g. Le Guin',
+  series: 'e.g. Earthsea',
+  tags: 'e.g. signed',
+};
+
+// Empty number inputs leave that end of the range open
+const toOptionalNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+const trimRule = (rule: CollectionRule): CollectionRule =>
+  rule.field === 'genre' || rule.field === 'author' || rule.field === 'series' || rule.field === 'tags'
+    ? { ...rule, value: rule.value.trim() }
+    : rule;
+
+/**
+ * Edits the rules of a smart collection: a list of conditions that books
+ * must all, or any, match
+ */
+const CollectionRuleBuilder: React.FC<CollectionRuleBuilderProps> = ({ open, onOpenChange, rules, onSave }) => {
+  const [draft, setDraft] = useState<CollectionRules>(rules ?? DEFAULT_RULES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start over from the saved rules each time the builder opens
+  useEffect(() => {
+    if (open) setDraft(rules ?? DEFAULT_RULES);
+  }, [open, rules]);
+
+  const updateCondition = (index: number, rule: CollectionRule) => {
+    setDraft(current => ({
+      ...current,
+      conditions: current.conditions.map((condition, position) => (position === index ? rule : condition)),
+    }));
+  };
+
+  const removeCondition = (index: number) => {
+    setDraft(current => ({
+      ...current,
+      conditions: current.conditions.filter((_, position) => position !== index),
+    }));
+  };
+
+  const addCondition = () => {
+    setDraft(current => ({ ...current, conditions: [...current.conditions, createCollectionRule('genre')] }));
+  };
+
+  const canSave = draft.conditions.length > 0 && draft.conditions.every(isCollectionRuleComplete);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        conditions: draft.conditions.map(trimRule),
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOperator = (rule: CollectionRule, index: number) => {
+    if (rule.field === 'status') {
+      return (
+        <Select
+          value={rule.operator}
+          onValueChange={operator => updateCondition(index, { ...rule, operator: operator as 'is' | 'isNot' })}
+        >
+          <SelectTrigger className="w-[130px]" aria-label="Condition">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="is">is</SelectItem>
+            <SelectItem value="isNot">is not</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (rule.field === 'genre' || rule.field === 'author' || rule.field === 'series' || rule.field === 'tags') {
+      return (
+        <Select
+          value={rule.operator}
+          onValueChange={operator =>
+            updateCondition(index, { ...rule, operator: operator as 'contains' | 'notContains' })
+          }
+        >
+          <SelectTrigger className="w-[170px]" aria-label="Condition">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="contains">contains</SelectItem>
+            <SelectItem value="notContains">does not contain</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (rule.field === 'added' || rule.field === 'completed') {
+      return (
+        <Select
+          value={rule.operator}
+          onValueChange={operator =>
+            updateCondition(
+              index,
+              operator === 'withinDays'
+                ? { field: rule.field, operator: 'withinDays', days: 30 }
+                : { field: rule.field, operator: 'between' }
+            )
+          }
+        >
+          <SelectTrigger className="w-[150px]" aria-label="Condition">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="withinDays">in the last</SelectItem>
+            <SelectItem value="between">between</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return <span className="text-sm text-muted-foreground px-1">from</span>;
+  };
+
+  const renderValue = (rule: CollectionRule, index: number) => {
+    switch (rule.field) {
+      case 'status':
+        return (
+          <Select
+            value={rule.value}
+            onValueChange={value => updateCondition(index, { ...rule, value: value as CollectionRuleStatus })}
+          >
+            <SelectTrigger className="flex-1 min-w-[150px]" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLLECTION_RULE_STATUSES.map(status => (
+                <SelectItem key={status.value} value={status.value}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'genre':
+      case 'author':
+      case 'series':
+      case 'tags':
+        return (
+          <Input
+            className="flex-1 min-w-[150px]"
+            aria-label={getCollectionRuleField(rule.field).label}
+            placeholder={RULE_PLACEHOLDERS[rule.field]}
+            value={rule.value}
+            onChange={event => updateCondition(index, { ...rule, value: event.target.value })}
+          />
+        );
+      case 'rating':
+      case 'pages':
+        return (
+          <div className="flex flex-1 items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={rule.field === 'rating' ? 5 : undefined}
+              className="w-24"
+              aria-label="At least"
+              placeholder="Any"
+              value={rule.min ?? ''}
+              onChange={event => updateCondition(index, { ...rule, min: toOptionalNumber(event.target.value) })}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="number"
+              min={0}
+              max={rule.field === 'rating' ? 5 : undefined}
+              className="w-24"
+              aria-label="At most"
+              placeholder="Any"
+              value={rule.max ?? ''}
+              onChange={event => updateCondition(index, { ...rule, max: toOptionalNumber(event.target.value) })}
+            />
+          </div>
+        );
+      case 'added':
+      case 'completed':
+        if (rule.operator === 'withinDays') {
+          return (
+            <div className="flex flex-1 items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                className="w-24"
+                aria-label="Days"
+                value={Number.isNaN(rule.days) ? '' : rule.days}
+                onChange={event => updateCondition(index, { ...rule, days: Number.parseInt(event.target.value, 10) })}
+              />
+              <span className="text-sm text-muted-foreground">days</span>
+            </div>
+          );
+        }
+
+        return (
+          <div className="flex flex-1 items-center gap-2">
+            <Input
+              type="date"
+              className="flex-1"
+              aria-label="From"
+              value={rule.from ?? ''}
+              onChange={event => updateCondition(index, { ...rule, from: event.target.value || undefined })}
+            />
+            <span className="text-sm text-muted-foreground">and</span>
+            <Input
+              type="date"
+              className="flex-1"
+              aria-label="To"
+              value={rule.to ?? ''}
+              onChange={event => updateCondition(index, { ...rule, to: event.target.value || undefined })}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Collection rules</DialogTitle>
+          <DialogDescription>
+            Books join and leave this collection on their own as they match these rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Books matching</span>
+            <Select
+              value={draft.match}
+              onValueChange={match => setDraft(current => ({ ...current, match: match as CollectionRules['match'] }))}
+            >
+              <SelectTrigger className="w-[90px]" aria-label="Match">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">all</SelectItem>
+                <SelectItem value="any">any</SelectItem>
+              </SelectContent>
+            </Select>
+            <span>of these rules</span>
+          </div>
+
+          <div className="space-y-2">
+            {draft.conditions.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+                <Select
+                  value={rule.field}
+                  onValueChange={field => updateCondition(index, createCollectionRule(field as CollectionRuleField))}
+                >
+                  <SelectTrigger className="w-[150px]" aria-label="Field">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COLLECTION_RULE_FIELDS.map(field => (
+                      <SelectItem key={field.field} value={field.field}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderOperator(rule, index)}
+                {renderValue(rule, index)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeCondition(index)}
+                  aria-label="Remove rule"
+                  disabled={draft.conditions.length === 1}
+                >
+                  <X size={16} />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addCondition}
+            disabled={draft.conditions.length >= MAX_COLLECTION_RULES}
+          >
+            <Plus size={16} className="mr-2" />
+            Add rule
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>Save rules</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollectionRuleBuilder;
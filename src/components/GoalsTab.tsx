@@ -10,10 +10,17 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Trophy, Target, TrendingUp } from 'lucide-react';
+import { Trophy, Target, TrendingUp, LayoutDashboard } from 'lucide-react';
 import { useSettings } from '@/contexts/SettingsContext';
+import { GoalDashboard } from '@/components/goals/GoalDashboard';
+import { Book } from '@/types/book';
+import { ReadingGoal } from '@/types/user-settings';
 
-export const GoalsTab: React.FC = () => {
+interface GoalsTabProps {
+  books?: Book[];
+}
+
+export const GoalsTab: React.FC<GoalsTabProps> = ({ books = [] }) => {
   const { settings, updateSettings } = useSettings();
   
   // Local state for goal settings
@@ -54,6 +61,16 @@ export const GoalsTab: React.FC = () => {
     }
   };
 
+  // Handle adding or removing yearly, page, genre and custom goals
+  const handleGoalDefinitionsChange = (definitions: ReadingGoal[]) => {
+    updateSettings({
+      goals: {
+        ...settings.goals,
+        definitions
+      }
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col space-y-1.5">
@@ -139,6 +156,27 @@ export const GoalsTab: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      {goalsEnabled && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <LayoutDashboard className="h-4 w-4 text-primary" />
+              Goal Dashboard
+            </CardTitle>
+            <CardDescription>
+              Yearly, page-count, genre-diversity and custom-period goals with your current pace
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GoalDashboard
+              books={books}
+              goals={settings.goals?.definitions || []}
+              onChange={handleGoalDefinitionsChange}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
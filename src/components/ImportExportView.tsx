@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { Download, Upload, FileJson, FileSpreadsheet, Archive, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Download, Upload, FileJson, FileSpreadsheet, Archive, RefreshCw, AlertTriangle, CheckCircle, BookMarked, Library } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -10,7 +10,22 @@ import { useImport } from '@/contexts/ImportContext';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useAuth } from '@/hooks/useAuth';
 import { booksToCSV, booksToJSON, downloadFile } from '@/utils/exportUtils';
-import { importFromCSV, importFromJSON } from '@/utils/importUtils';
+import {
+  importFromCSV,
+  importFromGoodreadsCSV,
+  importFromJSON,
+  importWithFormatAdapter,
+  type CompleteImportResult,
+  type ImportResult,
+} from '@/utils/importUtils';
+import { stageImport } from '@/utils/importStaging';
+import {
+  BOOK_FORMAT_ADAPTERS,
+  getBookFormatAdapter,
+  previewFormatImport,
+  type BookFormatId,
+  type FormatImportPreview,
+} from '@/utils/formatAdapters';
 import {
   getLegacyImportSummary,
   importLegacyLibrary,
@@ -28,29 +43,35 @@ const LEGACY_ENTITY_LABELS: Record<LegacyMigrationEntity, string> = {
   notifications: 'Notifications',
 };
 
+const FORMAT_SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
 type ImportExportViewProps = {
   books: Book[];
-  onImportCSV?: (file: File) => Promise<void>;
-  onImportJSON?: (file: File) => Promise<void>;
+  onCommitImport?: (result: CompleteImportResult, source: string) => Promise<void>;
   onCreateBackup?: () => Promise<void>;
   onRestoreBackup?: (file: File) => Promise<void>;
 };
 
 export const ImportExportView: React.FC<ImportExportViewProps> = ({
   books,
-  onImportCSV,
-  onImportJSON,
+  onCommitImport,
   onCreateBackup,
   onRestoreBackup
 }) => {
   // Get import context functions for background processing
-  const { startImport, updateImportProgress, completeImport, errorImport, setCancelCallback } = useImport();
+  const { startImport, updateImportProgress, errorImport, setCancelCallback, reviewImport } = useImport();
   const { isAuthenticated, user } = useAuth();
   const { settings } = useSettings();
   const preferredName = user?.preferredName || settings.preferredName;
   
   // State for file inputs and operation status
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [goodreadsFile, setGoodreadsFile] = useState<File | null>(null);
+  const [importFormatId, setImportFormatId] = useState<BookFormatId>('storygraph');
+  const [exportFormatId, setExportFormatId] = useState<BookFormatId>('storygraph');
+  const [formatFile, setFormatFile] = useState<File | null>(null);
+  const [formatPreview, setFormatPreview] = useState<FormatImportPreview | null>(null);
   const [jsonFile, setJsonFile] = useState<File | null>(null);
   const [backupFile, setBackupFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState<string | null>(null);
@@ -68,6 +89,8 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
 
   // Input references
   const csvInputRef = React.useRef<HTMLInputElement>(null);
+  const goodreadsInputRef = React.useRef<HTMLInputElement>(null);
+  const formatInputRef = React.useRef<HTMLInputElement>(null);
   const jsonInputRef = React.useRef<HTMLInputElement>(null);
   const backupInputRef = React.useRef<HTMLInputElement>(null);
 
@@ -150,6 +173,40 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
     }
   };
 
+  const handleGoodreadsFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      setGoodreadsFile(files[0]);
+    }
+  };
+
+  // Parse the selected file straight away so the field mapping can be reviewed before importing
+  const handleFormatFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    const file = files[0];
+    const adapter = getBookFormatAdapter(importFormatId);
+    setFormatFile(file);
+    setFormatPreview(null);
+
+    try {
+      const content = await file.text();
+      setFormatPreview(previewFormatImport(adapter, content));
+    } catch (error) {
+      setStatusMessage({
+        type: 'error',
+        message: `Could not read ${file.name} as ${adapter.label}: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  };
+
+  const clearFormatImport = () => {
+    setFormatFile(null);
+    setFormatPreview(null);
+    if (formatInputRef.current) formatInputRef.current.value = '';
+  };
+
   const handleJsonFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
@@ -169,6 +226,14 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
     csvInputRef.current?.click();
   };
 
+  const triggerGoodreadsFileInput = () => {
+    goodreadsInputRef.current?.click();
+  };
+
+  const triggerFormatFileInput = () => {
+    formatInputRef.current?.click();
+  };
+
   const triggerJsonFileInput = () => {
     jsonInputRef.current?.click();
   };
@@ -279,21 +344,70 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
     }
   };
 
-  // Handle CSV import with background processing
-  const handleImportCSV = async () => {
-    if (!csvFile) {
+  // Handle StoryGraph / LibraryThing export
+  const handleExportFormat = async () => {
+    const adapter = getBookFormatAdapter(exportFormatId);
+
+    try {
+      setIsLoading('exportFormat');
       setStatusMessage({
         type: 'info',
-        message: 'Please select a CSV file first.'
+        message: `Preparing ${adapter.label} export...`
       });
-      return;
+
+      const [
+        { bookRepository },
+        { collectionRepository },
+        { seriesRepository },
+      ] = await Promise.all([
+        import('@/repositories/BookRepository'),
+        import('@/repositories/CollectionRepository'),
+        import('@/repositories/SeriesRepository'),
+      ]);
+
+      const [exportBooks, exportCollections, exportSeries] = await Promise.all([
+        bookRepository.getAll(),
+        collectionRepository.getAll(),
+        seriesRepository.getAll(),
+      ]);
+
+      const content = adapter.serialize(exportBooks, exportCollections, exportSeries);
+
+      const now = new Date();
+      const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
+      const prefix = preferredName ? `${preferredName.toLowerCase().replace(/\s+/g, '-')}-library` : 'library';
+      const filename = `${prefix}-${adapter.id}-${dateStr}.${adapter.fileExtension}`;
+
+      downloadFile(content, filename, `${adapter.mimeType};charset=utf-8`);
+
+      setStatusMessage({
+        type: 'success',
+        message: `${adapter.label} export created from ${dataScopeLabel}.`
+      });
+    } catch (error) {
+      setStatusMessage({
+        type: 'error',
+        message: `Failed to export ${adapter.label}: ${error instanceof Error ? error.message : String(error)}`
+      });
+    } finally {
+      setIsLoading(null);
     }
+  };
 
+  // Parse a file and compare it with the library without saving anything.
+  // The rows go to the review dialog and are only written once confirmed.
+  const runStagedImport = async (
+    loadingKey: string,
+    file: File,
+    source: string,
+    readFile: () => Promise<ImportResult | CompleteImportResult>,
+    clearSelection: () => void
+  ) => {
     try {
-      setIsLoading('importCSV');
+      setIsLoading(loadingKey);
       setStatusMessage({
         type: 'info',
-        message: `Importing from ${csvFile.name}...`
+        message: `Reading ${file.name}...`
       });
       
       // Create an abort controller for cancellation
@@ -301,7 +415,7 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
       const signal = controller.signal;
       
       // Start the import process in the background
-      startImport();
+      startImport(source);
       
       // Register cancel callback
       setCancelCallback(() => {
@@ -319,45 +433,38 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
           // Check if already cancelled
           if (signal.aborted) return;
           
-          updateImportProgress(10, 'Reading CSV file', csvFile.name);
+          updateImportProgress(10, `Reading ${source} file`, file.name);
           
-          // Process the CSV file using our utility
-          const importResult = await importFromCSV(csvFile);
+          const importResult = await readFile();
           
-          // Update progress after parsing
           if (signal.aborted) return;
           updateImportProgress(
-            50, 
+            60, 
             `Found ${importResult.total} books`, 
-            `${importResult.successful.length} valid, ${importResult.failed.length} with issues`
+            'Comparing with your library...'
           );
-          
-          // If we have an onImportCSV callback, call it with the successful imports
-          if (!signal.aborted && onImportCSV && importResult.successful.length > 0) {
-            updateImportProgress(75, 'Saving books to library...', '');
-            await onImportCSV(csvFile);
-          }
-          
-          // Final update and completion
+
+          const { bookRepository } = await import('@/repositories/BookRepository');
+          const existingBooks = await bookRepository.getAll();
+
           if (signal.aborted) return;
-          updateImportProgress(
-            100, 
-            'Import completed', 
-            `${importResult.successful.length} books imported, ${importResult.failed.length} failed`
-          );
-          
-          // Complete the import in the status indicator
-          completeImport(importResult);
+          const staged = stageImport(importResult, existingBooks, source);
+
+          reviewImport(staged, async (result) => {
+            await onCommitImport?.(result, source);
+
+            setStatusMessage({
+              type: result.failed.length > 0 ? 'info' : 'success',
+              message: `Import completed into ${dataScopeLabel}: ${result.successful.length} books saved, ${result.failed.length} invalid rows skipped.`
+            });
+          });
           
-          // Show a success message with summary
           setStatusMessage({
-            type: importResult.failed.length > 0 ? 'info' : 'success',
-            message: `Import completed into ${dataScopeLabel}: ${importResult.successful.length} books imported successfully, ${importResult.failed.length} failed.`
+            type: 'info',
+            message: `Review the ${staged.rows.length} rows from ${file.name}. Nothing is saved until you confirm.`
           });
           
-          // Clear the file input
-          setCsvFile(null);
-          if (csvInputRef.current) csvInputRef.current.value = '';
+          clearSelection();
           
         } catch (error) {
           if (signal.aborted) return;
@@ -367,7 +474,7 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
           
           setStatusMessage({
             type: 'error',
-            message: `Failed to import CSV: ${error instanceof Error ? error.message : String(error)}`
+            message: `Failed to import ${source}: ${error instanceof Error ? error.message : String(error)}`
           });
         } finally {
           if (!signal.aborted) {
@@ -382,123 +489,72 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
       
       setStatusMessage({
         type: 'error',
-        message: `Failed to import CSV: ${error instanceof Error ? error.message : String(error)}`
+        message: `Failed to import ${source}: ${error instanceof Error ? error.message : String(error)}`
       });
       setIsLoading(null);
     }
   };
 
-  // Handle JSON import with background processing
-  const handleImportJSON = async () => {
-    if (!jsonFile) {
+  // Handle CSV import
+  const handleImportCSV = async () => {
+    if (!csvFile) {
       setStatusMessage({
         type: 'info',
-        message: 'Please select a JSON file first.'
+        message: 'Please select a CSV file first.'
       });
       return;
     }
 
-    try {
-      setIsLoading('importJSON');
+    await runStagedImport('importCSV', csvFile, 'CSV', () => importFromCSV(csvFile), () => {
+      setCsvFile(null);
+      if (csvInputRef.current) csvInputRef.current.value = '';
+    });
+  };
+
+  // Handle Goodreads library export import
+  const handleImportGoodreads = async () => {
+    if (!goodreadsFile) {
       setStatusMessage({
         type: 'info',
-        message: `Importing from ${jsonFile.name}...`
+        message: 'Please select a Goodreads export file first.'
       });
-      
-      // Create an abort controller for cancellation
-      const controller = new AbortController();
-      const signal = controller.signal;
-      
-      // Start the import process in the background
-      startImport();
-      
-      // Register cancel callback
-      setCancelCallback(() => {
-        controller.abort();
-        setIsLoading(null);
-        setStatusMessage({
-          type: 'info',
-          message: 'Import cancelled by user'
-        });
+      return;
+    }
+
+    await runStagedImport('importGoodreads', goodreadsFile, 'Goodreads', () => importFromGoodreadsCSV(goodreadsFile), () => {
+      setGoodreadsFile(null);
+      if (goodreadsInputRef.current) goodreadsInputRef.current.value = '';
+    });
+  };
+
+  // Handle StoryGraph / LibraryThing import after the field mapping preview
+  const handleImportFormat = async () => {
+    if (!formatFile || !formatPreview) {
+      setStatusMessage({
+        type: 'info',
+        message: 'Please select a file and review the preview first.'
       });
-      
-      // Process in background
-      setTimeout(async () => {
-        try {
-          // Check if already cancelled
-          if (signal.aborted) return;
-          
-          updateImportProgress(10, 'Reading JSON file', jsonFile.name);
-          
-          // Process the JSON file using our utility
-          const importResult = await importFromJSON(jsonFile);
-          
-          // Update progress after parsing
-          if (signal.aborted) return;
-          updateImportProgress(
-            50, 
-            `Found ${importResult.total} books`, 
-            `${importResult.successful.length} valid, ${importResult.failed.length} with issues`
-          );
+      return;
+    }
 
-          if ('series' in importResult || 'collections' in importResult) {
-            throw new Error('This JSON file includes full-library backup data. Use Restore Backup instead of JSON Import.');
-          }
-          
-          // If we have an onImportJSON callback, call it with the successful imports
-          if (!signal.aborted && onImportJSON && importResult.successful.length > 0) {
-            updateImportProgress(75, 'Saving books to library...', '');
-            await onImportJSON(jsonFile);
-          }
-          
-          // Final update and completion
-          if (signal.aborted) return;
-          updateImportProgress(
-            100, 
-            'Import completed', 
-            `${importResult.successful.length} books imported, ${importResult.failed.length} failed`
-          );
-          
-          // Complete the import in the status indicator
-          completeImport(importResult);
-          
-          // Show a success message with summary
-          setStatusMessage({
-            type: importResult.failed.length > 0 ? 'info' : 'success',
-            message: `Import completed into ${dataScopeLabel}: ${importResult.successful.length} books imported successfully, ${importResult.failed.length} failed.`
-          });
-          
-          // Clear the file input
-          setJsonFile(null);
-          if (jsonInputRef.current) jsonInputRef.current.value = '';
-          
-        } catch (error) {
-          if (signal.aborted) return;
-          
-          // Report error in the status indicator
-          errorImport(error instanceof Error ? error : new Error(String(error)));
-          
-          setStatusMessage({
-            type: 'error',
-            message: `Failed to import JSON: ${error instanceof Error ? error.message : String(error)}`
-          });
-        } finally {
-          if (!signal.aborted) {
-            setIsLoading(null);
-          }
-        }
-      }, 100); // Small delay to allow UI to update first
-      
-    } catch (error) {
-      // Handle synchronous errors
-      errorImport(error instanceof Error ? error : new Error(String(error)));
-      
+    const { adapter } = formatPreview;
+    await runStagedImport('importFormat', formatFile, adapter.label, () => importWithFormatAdapter(formatFile, adapter), clearFormatImport);
+  };
+
+  // Handle JSON import, including enhanced exports with series and collections
+  const handleImportJSON = async () => {
+    if (!jsonFile) {
       setStatusMessage({
-        type: 'error',
-        message: `Failed to import JSON: ${error instanceof Error ? error.message : String(error)}`
+        type: 'info',
+        message: 'Please select a JSON file first.'
       });
-      setIsLoading(null);
+      return;
     }
+
+    await runStagedImport('importJSON', jsonFile, 'JSON', () => importFromJSON(jsonFile), () => {
+      setJsonFile(null);
+      if (jsonInputRef.current) jsonInputRef.current.value = '';
+    });
   };
 
   // Handle backup creation
@@ -741,6 +797,38 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
                 </Button>
               </div>
             </div>
+
+            <div className="space-y-4 flex flex-col">
+              <div>
+                <h3 className="text-lg font-medium">Other Services</h3>
+                <p className="text-gray-600 text-sm">
+                  Export books in a format StoryGraph or LibraryThing can import. Collections are written as tags.
+                </p>
+              </div>
+              <div className="mt-auto pt-4 flex flex-col gap-2 md:flex-row">
+                <select
+                  aria-label="Export format"
+                  className={FORMAT_SELECT_CLASS_NAME}
+                  value={exportFormatId}
+                  onChange={(e) => setExportFormatId(e.target.value as BookFormatId)}
+                  disabled={isLoading !== null}
+                >
+                  {BOOK_FORMAT_ADAPTERS.map(adapter => (
+                    <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+                  ))}
+                </select>
+                <Button
+                  onClick={handleExportFormat}
+                  disabled={isLoading !== null}
+                  className="flex items-center justify-center gap-2 md:w-48"
+                  variant="outline"
+                >
+                  <Library size={18} />
+                  <span>Export</span>
+                  {isLoading === 'exportFormat' && <RefreshCw className="animate-spin" size={18} />}
+                </Button>
+              </div>
+            </div>
           </div>
         </Card>
         
@@ -751,7 +839,7 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
             <ImportFormatHelp />
           </div>
           <p className="text-gray-600 mb-4">
-            Import books from CSV or JSON files into {dataScopeLabel}. For full-library backups with series and collections, use Backup Restore instead.
+            Import books from CSV, Goodreads, StoryGraph, LibraryThing or JSON files into {dataScopeLabel}. Each file is compared with your library first so you can keep, overwrite, merge or skip every row before anything is saved. For full-library backups, use Backup Restore instead.
           </p>
           
           <div className="flex flex-col gap-6">
@@ -909,10 +997,164 @@ export const ImportExportView: React.FC<ImportExportViewProps> = ({
               )}
             </div>
             
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Goodreads Import</h3>
+              <p className="text-gray-600 text-sm">
+                Import a Goodreads library export (My Books → Import and export → Export Library) into {dataScopeLabel}. Shelves become reading statuses and collections.
+              </p>
+              <input 
+                type="file" 
+                ref={goodreadsInputRef}
+                accept=".csv" 
+                className="hidden" 
+                onChange={handleGoodreadsFileChange}
+              />
+              <div className="mt-2">
+                <div className="flex">
+                  <Button 
+                    onClick={triggerGoodreadsFileInput}
+                    disabled={isLoading !== null}
+                    className="flex items-center gap-2 rounded-r-none"
+                    variant="outline"
+                  >
+                    <Upload size={18} />
+                    <span>Select Goodreads CSV</span>
+                  </Button>
+                  <div className="flex-1 border rounded-r-md px-3 py-2 text-sm text-muted-foreground flex items-center bg-background truncate">
+                    {goodreadsFile ? goodreadsFile.name : 'No file selected'}
+                  </div>
+                </div>
+              </div>
+              {goodreadsFile && (
+                <Button 
+                  onClick={handleImportGoodreads}
+                  disabled={isLoading !== null}
+                  className="mt-2 flex items-center gap-2"
+                >
+                  <BookMarked size={18} />
+                  <span>Import from Goodreads</span>
+                  {isLoading === 'importGoodreads' && <RefreshCw className="animate-spin" size={18} />}
+                </Button>
+              )}
+            </div>
+            
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Other Services</h3>
+              <p className="text-gray-600 text-sm">
+                Import a StoryGraph or LibraryThing export into {dataScopeLabel}. You can review how fields are mapped before anything is saved.
+              </p>
+              <select
+                aria-label="Import format"
+                className={FORMAT_SELECT_CLASS_NAME}
+                value={importFormatId}
+                onChange={(e) => {
+                  setImportFormatId(e.target.value as BookFormatId);
+                  clearFormatImport();
+                }}
+                disabled={isLoading !== null}
+              >
+                {BOOK_FORMAT_ADAPTERS.map(adapter => (
+                  <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+                ))}
+              </select>
+              <input 
+                type="file" 
+                ref={formatInputRef}
+                accept={`.${getBookFormatAdapter(importFormatId).fileExtension}`}
+                className="hidden" 
+                onChange={handleFormatFileChange}
+              />
+              <div className="mt-2">
+                <div className="flex">
+                  <Button 
+                    onClick={triggerFormatFileInput}
+                    disabled={isLoading !== null}
+                    className="flex items-center gap-2 rounded-r-none"
+                    variant="outline"
+                  >
+                    <Upload size={18} />
+                    <span>Select {getBookFormatAdapter(importFormatId).label} file</span>
+                  </Button>
+                  <div className="flex-1 border rounded-r-md px-3 py-2 text-sm text-muted-foreground flex items-center bg-background truncate">
+                    {formatFile ? formatFile.name : 'No file selected'}
+                  </div>
+                </div>
+              </div>
+              {formatPreview && (
+                <div className="space-y-3 border rounded-lg p-4 bg-muted/20">
+                  <p className="text-sm font-medium">
+                    Found {formatPreview.totalBooks} book{formatPreview.totalBooks !== 1 ? 's' : ''} in this {formatPreview.adapter.label} file
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-1 pr-4 font-medium">{formatPreview.adapter.label} field</th>
+                          <th className="py-1 pr-4 font-medium">Imported as</th>
+                          <th className="py-1 font-medium">Notes</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {formatPreview.adapter.fieldMappings.map(mapping => (
+                          <tr key={mapping.source} className="border-t">
+                            <td className="py-1 pr-4">{mapping.source}</td>
+                            <td className="py-1 pr-4">{mapping.target}</td>
+                            <td className="py-1 text-gray-600">{mapping.note}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-1 pr-4 font-medium">Title</th>
+                          <th className="py-1 pr-4 font-medium">Author</th>
+                          <th className="py-1 pr-4 font-medium">Status</th>
+                          <th className="py-1 pr-4 font-medium">Rating</th>
+                          <th className="py-1 pr-4 font-medium">Reads</th>
+                          <th className="py-1 font-medium">Collections</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {formatPreview.sample.map((book, index) => (
+                          <tr key={`${book.title}-${index}`} className="border-t">
+                            <td className="py-1 pr-4">{book.title}</td>
+                            <td className="py-1 pr-4">{book.author}</td>
+                            <td className="py-1 pr-4">{book.status}</td>
+                            <td className="py-1 pr-4">{book.rating}</td>
+                            <td className="py-1 pr-4">{book.readThroughs?.length || ''}</td>
+                            <td className="py-1">
+                              {Array.isArray(book.collectionNames) ? book.collectionNames.join(', ') : book.collectionNames}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button 
+                      onClick={handleImportFormat}
+                      disabled={isLoading !== null || formatPreview.totalBooks === 0}
+                      className="flex items-center gap-2"
+                    >
+                      <Library size={18} />
+                      <span>Import {formatPreview.totalBooks} books</span>
+                      {isLoading === 'importFormat' && <RefreshCw className="animate-spin" size={18} />}
+                    </Button>
+                    <Button variant="outline" onClick={clearFormatImport} disabled={isLoading !== null}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+            
             <div className="space-y-4">
               <h3 className="text-lg font-medium">JSON Import</h3>
               <p className="text-gray-600 text-sm">
-                Import books from a JSON array or exported book JSON into {dataScopeLabel}. Full-library backup files should be restored from the Backup & Restore section instead.
+                Import books from a JSON array or an exported JSON file into {dataScopeLabel}. Series and collections in enhanced exports follow the choices made for their books. To replace the library with a full snapshot, use Backup & Restore instead.
               </p>
               <input 
                 type="file" 
@@ -18,10 +18,10 @@ interface ImportFormatHelpProps {
 
 export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) => {
   // Example CSV content
-  const csvExampleContent = `title,author,isbn,status,completedDate,rating,notes,genre,isPartOfSeries,seriesId,seriesName,volumeNumber,pageCount,publishedDate,addedDate,collectionNames
-"The Great Gatsby","F. Scott Fitzgerald","aBcDeFgHiJkL","completed","2025-01-15",4,"A classic tale of wealth and obsession","Fiction","false","","","",180,"1925","2026-02-17",""
-"Dune","Frank Herbert","mNoPqRsTuVwX","reading","","","Epic sci-fi adventure","Science Fiction","true","series-123","Dune Chronicles",1,412,"1965","2026-02-17","Science Fiction;Favorites"
-"Project Hail Mary","Andy Weir","yZaBcDeFgHiJ","want to read","","","","Science Fiction","false","","","",496,"2021","2026-02-17","Science Fiction"`;
+  const csvExampleContent = `title,author,isbn,status,completedDate,rating,notes,genre,isPartOfSeries,seriesId,seriesName,volumeNumber,pageCount,publishedDate,addedDate,collectionNames,tags
+"The Great Gatsby","F. Scott Fitzgerald","aBcDeFgHiJkL","completed","2025-01-15",4,"A classic tale of wealth and obsession","Fiction","false","","","",180,"1925","2026-02-17","","signed copy"
+"Dune","Frank Herbert","mNoPqRsTuVwX","reading","","","Epic sci-fi adventure","Science Fiction","true","series-123","Dune Chronicles",1,412,"1965","2026-02-17","Science Fiction;Favorites","audiobook;book club"
+"Project Hail Mary","Andy Weir","yZaBcDeFgHiJ","want to read","","","","Science Fiction","false","","","",496,"2021","2026-02-17","Science Fiction",""`;
 
   // Example simple JSON content
   const simpleJsonExampleContent = JSON.stringify([
@@ -53,7 +53,12 @@ export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) =
       "pageCount": 412,
       "publishedDate": "1965",
       "addedDate": "2026-02-17T00:00:00.000Z",
-      "collectionNames": ["Science Fiction", "Favorites"]
+      "collectionNames": ["Science Fiction", "Favorites"],
+      "tags": ["audiobook", "book club"],
+      "copies": [
+        { "id": "copy-1", "format": "audiobook", "publisher": "Macmillan Audio", "audioMinutes": 1293 },
+        { "id": "copy-2", "format": "paperback", "condition": "good", "shelfLocation": "Living room" }
+      ]
     },
     {
       "title": "Project Hail Mary",
@@ -169,7 +174,7 @@ export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) =
         <DialogHeader>
           <DialogTitle>Import File Format Guide</DialogTitle>
           <DialogDescription>
-            Learn how to format your CSV and JSON files for importing books, series, and collections
+            Learn how to format your CSV and JSON files, or bring in a Goodreads export, for importing books, series, and collections
           </DialogDescription>
         </DialogHeader>
 
@@ -184,6 +189,7 @@ export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) =
             <TabsList>
               <TabsTrigger value="csv">CSV Format</TabsTrigger>
               <TabsTrigger value="json">JSON Format</TabsTrigger>
+              <TabsTrigger value="goodreads">Goodreads</TabsTrigger>
               <TabsTrigger value="examples">Example Files</TabsTrigger>
             </TabsList>
 
@@ -219,6 +225,7 @@ export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) =
                       <li><code>seriesName</code> - Name of the series</li>
                       <li><code>volumeNumber</code> - Position in the series</li>
                       <li><code>collectionNames</code> - Collection names (semicolon-separated)</li>
+                      <li><code>tags</code> - Tags (semicolon-separated)</li>
                     </ul>
                   </div>
                 </div>
@@ -276,6 +283,8 @@ export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) =
                       <li><code>volumeNumber</code> - Position in the series</li>
                       <li><code>collectionIds</code> - Array of collection IDs</li>
                       <li><code>collectionNames</code> - Array of collection names</li>
+                      <li><code>tags</code> - Array of tags</li>
+                      <li><code>copies</code> - Array of copies, each with an <code>id</code> and a <code>format</code> (hardcover, paperback, ebook, audiobook, library or wishlist)</li>
                       <li><code>id</code> - Unique identifier for the book</li>
                     </ul>
                   </div>
@@ -371,6 +380,38 @@ export const ImportFormatHelp: React.FC<ImportFormatHelpProps> = ({ trigger }) =
               </div>
             </TabsContent>
 
+            <TabsContent value="goodreads" className="mt-4 space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Goodreads Library Export</h3>
+                <p className="mb-4">
+                  Export your library from Goodreads (My Books → Import and export → Export Library) and import the
+                  downloaded CSV with <strong>Import from Goodreads</strong>. Don't edit the file first; the columns are
+                  recognised by their Goodreads names.
+                </p>
+
+                <div className="bg-muted p-4 rounded-md">
+                  <h4 className="font-medium mb-2">Column Mapping:</h4>
+                  <ul className="list-disc pl-5 space-y-1">
+                    <li><code>Exclusive Shelf</code> → status: "read" is completed, "currently-reading" is reading, "to-read" is want to read. Custom shelves containing "dnf" or "hold" become did not finish or on hold</li>
+                    <li><code>My Rating</code> → rating (0, meaning not rated, is skipped)</li>
+                    <li><code>Date Read</code> → completed date</li>
+                    <li><code>Bookshelves</code> → collections, created by name if they don't exist yet</li>
+                    <li><code>ISBN13</code> / <code>ISBN</code> → ISBN, with the <code>="..."</code> wrapping removed</li>
+                    <li><code>Title</code> → title, with a "(Series Name, #3)" suffix split into the series name and volume number</li>
+                    <li><code>Number of Pages</code>, <code>Original Publication Year</code>, <code>Private Notes</code> / <code>My Review</code> → page count, published date and notes</li>
+                  </ul>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Goodreads Example Row</h3>
+                <pre className="bg-muted p-4 rounded-md overflow-x-auto text-sm whitespace-pre-wrap">
+                  Book Id,Title,Author,ISBN,ISBN13,My Rating,Date Read,Bookshelves,Exclusive Shelf{"\n"}
+                  2767052,"Catching Fire (The Hunger Games, #2)",Suzanne Collins,"=""0439023491""","=""9780439023498""",4,2024/03/14,"favorites, read",read
+                </pre>
+              </div>
+            </TabsContent>
+
             <TabsContent value="examples" className="mt-4 space-y-4">
               <div>
                 <h3 className="text-lg font-semibold mb-2">Download Example Files</h3>
@@ -1,16 +1,36 @@
 import React from 'react';
 import { useImport } from '@/contexts/ImportContext';
 import { ImportStatus } from '@/components/ui/ImportStatus';
+import { ImportReviewDialog } from '@/components/dialogs/ImportReviewDialog';
 
 /**
  * Global component that displays import status
  * This should be added once at the application root level
  */
 export const ImportStatusDisplay: React.FC = () => {
-  const { importState, resetImport } = useImport();
-  
-  const { status, progress, summary, details, cancelImport } = importState;
-  
+  const {
+    importState,
+    resetImport,
+    setRowResolution,
+    setKindResolution,
+    confirmImport,
+  } = useImport();
+
+  const { status, progress, summary, details, cancelImport, staged } = importState;
+
+  // Staged imports wait for a decision on every row before anything is written
+  if (status === 'reviewing') {
+    return staged ? (
+      <ImportReviewDialog
+        staged={staged}
+        onResolutionChange={setRowResolution}
+        onKindResolutionChange={setKindResolution}
+        onConfirm={confirmImport}
+        onDiscard={resetImport}
+      />
+    ) : null;
+  }
+
   return (
     <ImportStatus
       status={status}
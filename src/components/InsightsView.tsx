@@ -14,7 +14,18 @@ import { cn } from '@/lib/utils';
 import { SeriesInsights } from '@/components/insights/SeriesInsights';
 import { GenreChart } from '@/components/GenreChart';
 import { createLogger } from '@/utils/loggingUtils';
-import { calculateReadingStatusStatistics, getReadingStatusChartData } from '@/utils/statisticsUtils';
+import {
+  BOOK_FORMAT_LABELS,
+  calculateFormatBreakdown,
+  formatAudioLength,
+  getMainFormat
+} from '@/utils/bookCopies';
+import {
+  calculateReadingStatusStatistics,
+  getCompletedReads,
+  getCompletedReadsInYear,
+  getReadingStatusChartData
+} from '@/utils/statisticsUtils';
 
 // Create a logger for the InsightsView component
 const log = createLogger('InsightsView');
@@ -51,11 +62,11 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
   const availableYears = useMemo(() => {
     const years = new Set<number>();
     
+    getCompletedReads(books).forEach(read => {
+      years.add(new Date(read.finishedDate).getFullYear());
+    });
+    
     books.forEach(book => {
-      if (book.completedDate) {
-        const year = new Date(book.completedDate).getFullYear();
-        years.add(year);
-      }
       if (book.addedDate) {
         const year = new Date(book.addedDate).getFullYear();
         years.add(year);
@@ -77,13 +88,16 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
   const [genreFilter, setGenreFilter] = useState<string>('all');
   const [monthFilter, setMonthFilter] = useState<number>(-1); // -1 means all months
   const [ratingFilter, setRatingFilter] = useState<number>(-1); // -1 means all ratings
+  const [formatFilter, setFormatFilter] = useState<string>('all'); // 'none' means books without copies
 
-  // Filter books completed in the selected year
+  // One entry per read finished in the selected year, so re-reads count each time.
+  // Each entry carries the finish date and rating of that particular read-through.
   const completedBooksInYear = useMemo(() => {
-    return books.filter(book => 
-      book.completedDate && 
-      new Date(book.completedDate).getFullYear() === selectedYear
-    );
+    return getCompletedReadsInYear(books, selectedYear).map(read => ({
+      ...read.book,
+      completedDate: read.finishedDate,
+      rating: read.rating
+    }));
   }, [books, selectedYear]);
   
   // Get available genres from the books completed in the selected year
@@ -140,6 +154,11 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
         return false;
       }
       
+      // Format filter, by the book's main copy
+      if (formatFilter !== 'all' && (getMainFormat(book) ?? 'none') !== formatFilter) {
+        return false;
+      }
+      
       return true;
     });
     
@@ -149,7 +168,7 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
     });
     
     return result;
-  }, [completedBooksInYear, genreFilter, monthFilter, ratingFilter]);
+  }, [completedBooksInYear, genreFilter, monthFilter, ratingFilter, formatFilter]);
 
   // Books read per month chart data
   const booksPerMonth = useMemo(() => {
@@ -213,6 +232,17 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
     return result;
   }, [completedBooksInYear, selectedYear]);
 
+  // Reads by the format of each book's main copy, with pages and listening time
+  const formatData = useMemo(() => {
+    const breakdown = calculateFormatBreakdown(completedBooksInYear);
+    
+    return {
+      breakdown,
+      printPages: breakdown.reduce((sum, entry) => sum + entry.pages, 0),
+      audioMinutes: breakdown.reduce((sum, entry) => sum + entry.audioMinutes, 0)
+    };
+  }, [completedBooksInYear]);
+
   // Ratings distribution chart data
   const ratingsData = useMemo(() => {
     const ratings = [0, 0, 0, 0, 0]; // For ratings 1-5
@@ -521,6 +551,71 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
                 </div>
               </CardContent>
             </Card>
+
+            {/* Reading by format */}
+            <Card className="bg-card shadow-elegant lg:col-span-2">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-lg font-serif">Reading by Format</CardTitle>
+                  <CardDescription>
+                    {formatData.printPages} pages in print and ebooks, {formatAudioLength(formatData.audioMinutes)} of audiobooks in {selectedYear}
+                  </CardDescription>
+                </div>
+                <InfoTooltip 
+                  content={
+                    <div>
+                      <p>Each read counts towards the format of the book's main copy.</p>
+                      <p className="mt-1">Audiobooks add their running time instead of pages.</p>
+                    </div>
+                  } 
+                />
+              </CardHeader>
+              <CardContent>
+                {completedBooksInYear.length > 0 ? (
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart
+                        data={formatData.breakdown}
+                        margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
+                        <XAxis 
+                          dataKey="label" 
+                          tick={{ fontSize: 12 }}
+                        />
+                        <YAxis 
+                          allowDecimals={false} 
+                          tick={{ fontSize: 12 }}
+                          width={35}
+                        />
+                        <Tooltip
+                          formatter={(value, _name, item) => {
+                            const entry = item.payload as (typeof formatData.breakdown)[number];
+                            const detail = entry.format === 'audiobook'
+                              ? formatAudioLength(entry.audioMinutes)
+                              : `${entry.pages} pages`;
+                            return [`${value} books, ${detail}`, 'Read'];
+                          }}
+                          contentStyle={{ 
+                            backgroundColor: 'rgba(255, 255, 255, 0.95)', 
+                            borderRadius: '6px',
+                            padding: '8px',
+                            fontSize: '12px'
+                          }}
+                        />
+                        <Bar dataKey="books" radius={[4, 4, 0, 0]}>
+                          {formatData.breakdown.map((entry, index) => (
+                            <Cell key={`cell-${entry.label}`} fill={COLORS[index % COLORS.length]} />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground text-center py-8">No format data available for {selectedYear}</p>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Books Read This Year List */}
@@ -590,14 +685,30 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
                   </select>
                 </div>
                 
+                {/* Format Filter */}
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs text-muted-foreground">Format</label>
+                  <select
+                    className="h-8 w-[140px] rounded-md border border-input bg-background px-2 text-xs"
+                    value={formatFilter}
+                    onChange={(e) => setFormatFilter(e.target.value)}
+                  >
+                    <option value="all">All Formats</option>
+                    {formatData.breakdown.map((entry) => (
+                      <option key={entry.format ?? 'none'} value={entry.format ?? 'none'}>{entry.label}</option>
+                    ))}
+                  </select>
+                </div>
+                
                 {/* Clear Filters Button */}
-                {(genreFilter !== 'all' || monthFilter !== -1 || ratingFilter !== -1) && (
+                {(genreFilter !== 'all' || monthFilter !== -1 || ratingFilter !== -1 || formatFilter !== 'all') && (
                   <button 
                     className="text-xs text-primary hover:text-primary/80 underline self-end mb-1"
                     onClick={() => {
                       setGenreFilter('all');
                       setMonthFilter(-1);
                       setRatingFilter(-1);
+                      setFormatFilter('all');
                     }}
                   >
                     Clear Filters
@@ -620,6 +731,7 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
                       setGenreFilter('all');
                       setMonthFilter(-1);
                       setRatingFilter(-1);
+                      setFormatFilter('all');
                     }}
                   >
                     Clear Filters
@@ -632,18 +744,18 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
                     .sort((a, b) => new Date(a.completedDate!).getTime() - new Date(b.completedDate!).getTime())
                     .map(book => (
                       <div 
-  key={book.id} 
+  key={`${book.id}-${book.completedDate}`} 
   className={cn(
     "flex flex-col sm:flex-row gap-4 border-b pb-4 last:border-0",
     onBookClick ? "cursor-pointer hover:bg-accent/10 rounded transition-colors" : ""
   )}
-  onClick={() => onBookClick?.(book)}
+  onClick={() => onBookClick?.(books.find(original => original.id === book.id) ?? book)}
   role={onBookClick ? "button" : undefined}
   tabIndex={onBookClick ? 0 : undefined}
   onKeyDown={(e) => {
     if (onBookClick && (e.key === "Enter" || e.key === " ")) {
       e.preventDefault();
-      onBookClick(book);
+      onBookClick(books.find(original => original.id === book.id) ?? book);
     }
   }}
   aria-label={onBookClick ? `View details for ${book.title}` : undefined}
@@ -685,6 +797,12 @@ export const InsightsView: React.FC<InsightsViewProps> = ({ books, onBookClick }
                               </div>
                             )}
                             
+                            {getMainFormat(book) && (
+                              <div className="text-xs">
+                                <span className="text-muted-foreground">Format:</span> {BOOK_FORMAT_LABELS[getMainFormat(book)!]}
+                              </div>
+                            )}
+                            
                             {book.genre && (
                               <div className="text-xs">
                                 <span className="text-muted-foreground">Genre:</span>{' '}
@@ -0,0 +1,372 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Camera, CameraOff, Check, ImageUp, Loader2, Plus, ScanBarcode, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useToast } from "@/hooks/use-toast";
+import { bookApiClient } from "@/services/api";
+import { BookSearchItem } from "@/types/api/BookApiProvider";
+import { Book } from "@/types/book";
+import { BarcodeImage, decodeISBNBarcode } from "@/utils/barcodeDecoder";
+import { createBookFromDetails, isSearchItemInLibrary } from "@/utils/bookSearchUtils";
+import { getBookISBNs } from "@/utils/importStaging";
+import { toValidISBN13 } from "@/utils/isbn";
+
+interface IsbnScannerProps {
+  onAddBook: (book: Book) => void;
+  existingBooks: Book[];
+}
+
+type ScanStatus = 'looking-up' | 'found' | 'not-found' | 'in-library' | 'adding' | 'added' | 'error';
+
+interface ScannedIsbn {
+  isbn: string;
+  status: ScanStatus;
+  item?: BookSearchItem;
+}
+
+const STATUS_LABELS: Record<ScanStatus, string> = {
+  'looking-up': 'Looking up...',
+  found: 'Ready to add',
+  'not-found': 'No match found',
+  'in-library': 'Already in library',
+  adding: 'Adding...',
+  added: 'Added',
+  error: 'Lookup failed',
+};
+
+/** How often a camera frame is decoded */
+const SCAN_INTERVAL_MS = 300;
+
+/** Frames and photos are scaled down to this width before decoding */
+const MAX_DECODE_WIDTH = 1024;
+
+/** The same barcode held in front of the camera is ignored for this long */
+const RESCAN_DELAY_MS = 3000;
+
+const drawForDecoding = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvas: HTMLCanvasElement
+): BarcodeImage | null => {
+  const scale = Math.min(1, MAX_DECODE_WIDTH / sourceWidth);
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context || canvas.width === 0 || canvas.height === 0) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const loadImageFile = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The file could not be read as an image'));
+    };
+    image.src = url;
+  });
+
+/**
+ * "Scan ISBN" mode for adding books: reads EAN-13 barcodes from the camera or
+ * a photo, or takes a typed ISBN-10/13, and looks each one up by ISBN. In
+ * batch mode scans are queued and added together.
+ */
+export const IsbnScanner = ({ onAddBook, existingBooks }: IsbnScannerProps) => {
+  const { settings } = useSettings();
+  const { toast } = useToast();
+  const [scans, setScans] = useState<ScannedIsbn[]>([]);
+  const [batchMode, setBatchMode] = useState(false);
+  const [cameraActive, setCameraActive] = useState(false);
+  const [manualIsbn, setManualIsbn] = useState('');
+  const [manualError, setManualError] = useState<string | null>(null);
+  const [isDecodingImage, setIsDecodingImage] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScanRef = useRef<{ isbn: string; at: number } | null>(null);
+  const scansRef = useRef<ScannedIsbn[]>([]);
+  const batchModeRef = useRef(batchMode);
+
+  scansRef.current = scans;
+  batchModeRef.current = batchMode;
+
+  const updateScan = (isbn: string, updates: Partial<ScannedIsbn>) => {
+    setScans(current => current.map(scan => (scan.isbn === isbn ? { ...scan, ...updates } : scan)));
+  };
+
+  const addScannedBook = useCallback(async (scan: ScannedIsbn) => {
+    if (!scan.item) return;
+
+    updateScan(scan.isbn, { status: 'adding' });
+    try {
+      const details = await bookApiClient.getBookDetails(scan.item.id);
+      const book = createBookFromDetails(details, (settings.defaultStatus || 'want-to-read') as Book['status']);
+
+      // Providers do not always return the ISBN that was scanned
+      if (!book.isbn13?.includes(scan.isbn)) {
+        book.isbn13 = [...(book.isbn13 || []), scan.isbn];
+      }
+
+      onAddBook(book);
+      updateScan(scan.isbn, { status: 'added' });
+    } catch (error) {
+      console.error(`Error adding scanned book ${scan.isbn}:`, error);
+      updateScan(scan.isbn, { status: 'error' });
+    }
+  }, [onAddBook, settings.defaultStatus]);
+
+  const handleIsbn = useCallback(async (isbn: string) => {
+    if (scansRef.current.some(scan => scan.isbn === isbn && scan.status !== 'error')) return;
+
+    if (existingBooks.some(book => getBookISBNs(book).includes(isbn))) {
+      setScans(current => [{ isbn, status: 'in-library' }, ...current.filter(scan => scan.isbn !== isbn)]);
+      return;
+    }
+
+    setScans(current => [{ isbn, status: 'looking-up' }, ...current.filter(scan => scan.isbn !== isbn)]);
+
+    try {
+      const result = await bookApiClient.searchBooks({ query: isbn, type: 'isbn', limit: 1 });
+      const item = result.books[0];
+
+      if (!item) {
+        updateScan(isbn, { status: 'not-found' });
+      } else if (isSearchItemInLibrary(item, existingBooks)) {
+        updateScan(isbn, { status: 'in-library', item });
+      } else {
+        updateScan(isbn, { status: 'found', item });
+        if (!batchModeRef.current) {
+          await addScannedBook({ isbn, status: 'found', item });
+        }
+      }
+    } catch (error) {
+      console.error(`Error looking up ISBN ${isbn}:`, error);
+      updateScan(isbn, { status: 'error' });
+    }
+  }, [addScannedBook, existingBooks]);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setCameraActive(false);
+  }, []);
+
+  const startCamera = async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      toast({
+        title: "Camera Unavailable",
+        description: "This browser cannot access a camera. Upload a photo of the barcode instead.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      streamRef.current = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false,
+      });
+      setCameraActive(true);
+    } catch (error) {
+      console.error('Error starting camera:', error);
+      toast({
+        title: "Camera Unavailable",
+        description: error instanceof Error ? error.message : "Camera access was denied.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Attach the stream once the video element is rendered, then decode frames
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!cameraActive || !video || !streamRef.current) return;
+
+    video.srcObject = streamRef.current;
+    video.play().catch(error => console.error('Error playing camera stream:', error));
+    canvasRef.current = canvasRef.current || document.createElement('canvas');
+
+    const timer = window.setInterval(() => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !canvasRef.current) return;
+
+      const frame = drawForDecoding(video, video.videoWidth, video.videoHeight, canvasRef.current);
+      const isbn = frame && decodeISBNBarcode(frame);
+      if (!isbn) return;
+
+      const now = Date.now();
+      const last = lastScanRef.current;
+      if (last && last.isbn === isbn && now - last.at < RESCAN_DELAY_MS) return;
+
+      lastScanRef.current = { isbn, at: now };
+      handleIsbn(isbn);
+    }, SCAN_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [cameraActive, handleIsbn]);
+
+  // Release the camera when the scanner closes
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsDecodingImage(true);
+    canvasRef.current = canvasRef.current || document.createElement('canvas');
+
+    try {
+      for (const file of files) {
+        const image = await loadImageFile(file);
+        const pixels = drawForDecoding(image, image.naturalWidth, image.naturalHeight, canvasRef.current);
+        const isbn = pixels && decodeISBNBarcode(pixels);
+
+        if (isbn) {
+          await handleIsbn(isbn);
+        } else {
+          toast({
+            title: "No Barcode Found",
+            description: `Could not find an ISBN barcode in ${file.name}. Try a sharper, straight-on photo.`,
+            variant: "destructive"
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error decoding barcode image:', error);
+      toast({
+        title: "Image Error",
+        description: error instanceof Error ? error.message : 'The image could not be read.',
+        variant: "destructive"
+      });
+    } finally {
+      setIsDecodingImage(false);
+    }
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const isbn = toValidISBN13(manualIsbn);
+
+    if (!isbn) {
+      setManualError('Enter a valid ISBN-10 or ISBN-13. Check for a mistyped digit.');
+      return;
+    }
+
+    setManualError(null);
+    setManualIsbn('');
+    handleIsbn(isbn);
+  };
+
+  const addAll = async () => {
+    for (const scan of scansRef.current.filter(entry => entry.status === 'found')) {
+      await addScannedBook(scan);
+    }
+  };
+
+  const readyCount = scans.filter(scan => scan.status === 'found').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {cameraActive ? (
+          <Button variant="outline" onClick={stopCamera}>
+            <CameraOff className="h-4 w-4 mr-2" /> Stop camera
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={startCamera}>
+            <Camera className="h-4 w-4 mr-2" /> Use camera
+          </Button>
+        )}
+        <Button variant="outline" asChild disabled={isDecodingImage}>
+          <label className="cursor-pointer">
+            {isDecodingImage
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <ImageUp className="h-4 w-4 mr-2" />}
+            Upload photo
+            <input type="file" accept="image/*" multiple className="sr-only" onChange={handleImageUpload} />
+          </label>
+        </Button>
+        <label className="ml-auto flex items-center gap-2 text-sm">
+          <Switch checked={batchMode} onCheckedChange={setBatchMode} />
+          Batch mode
+        </label>
+      </div>
+
+      {cameraActive && (
+        <div className="relative overflow-hidden rounded-md border bg-black">
+          <video ref={videoRef} className="w-full max-h-72 object-contain" muted playsInline />
+          <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/80" />
+        </div>
+      )}
+
+      <form onSubmit={handleManualSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <ScanBarcode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder="Or type an ISBN-10 or ISBN-13..."
+            value={manualIsbn}
+            onChange={(e) => setManualIsbn(e.target.value)}
+            className="pl-10 font-sans"
+            aria-invalid={Boolean(manualError)}
+          />
+        </div>
+        <Button type="submit" disabled={!manualIsbn.trim()}>Look up</Button>
+      </form>
+      {manualError && <p className="text-sm text-destructive">{manualError}</p>}
+
+      {scans.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-serif text-foreground">Scanned ({scans.length})</h3>
+            {batchMode && (
+              <Button size="sm" onClick={addAll} disabled={readyCount === 0}>
+                <Plus className="h-4 w-4 mr-1" /> Add all ({readyCount})
+              </Button>
+            )}
+          </div>
+          {scans.map(scan => (
+            <div key={scan.isbn} className="flex items-center gap-3 rounded-md border p-3">
+              {scan.item?.thumbnail && (
+                <img src={scan.item.thumbnail} alt="" className="h-12 w-8 object-cover flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{scan.item?.title || scan.isbn}</div>
+                <div className="text-xs text-muted-foreground">ISBN {scan.isbn}</div>
+              </div>
+              <Badge variant={scan.status === 'not-found' || scan.status === 'error' ? 'destructive' : 'outline'}>
+                {(scan.status === 'looking-up' || scan.status === 'adding') && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                {scan.status === 'added' && <Check className="h-3 w-3 mr-1" />}
+                {STATUS_LABELS[scan.status]}
+              </Badge>
+              {scan.status === 'found' && batchMode && (
+                <Button size="sm" variant="ghost" onClick={() => addScannedBook(scan)} aria-label={`Add ${scan.item?.title}`}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setScans(current => current.filter(entry => entry.isbn !== scan.isbn))}
+                aria-label={`Remove ${scan.isbn}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -26,22 +26,29 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { useNavigate } from 'react-router-dom';
 import { ImportExportView } from './ImportExportView';
+import { DuplicateBooksDialog } from '@/components/dialogs/DuplicateBooksDialog';
 import { Settings as SettingsIcon, Trash2, AlertTriangle, Palette, Trophy, BookOpen, ArrowUp, ArrowDown, ListOrdered, Sun, Moon, Monitor, Sliders, FileUp, FileDown, LogOut, Shield, Library } from 'lucide-react';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useTheme } from '@/components/ui-common/ThemeProvider';
 import { PaletteSelector } from '@/components/PaletteSelector';
 import { GoalsTab } from '@/components/GoalsTab';
+import { AccountArchive } from '@/components/auth/AccountArchive';
+import { SignedInDevices } from '@/components/auth/SignedInDevices';
+import { TwoFactorSettings } from '@/components/auth/TwoFactorSettings';
 import { useAuth } from '@/hooks/useAuth';
 import { ApiClientError } from '@/lib/apiClient';
 import type { UserSettings } from '@/types/user-settings';
+import type { Book } from '@/types/book';
+import type { MergeFieldChoices } from '@/utils/duplicateBooks';
+import type { CompleteImportResult } from '@/utils/importUtils';
 import { useToast } from '@/hooks/use-toast';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
   books: unknown[];
-  onImportCSV?: (file: File) => Promise<void>;
-  onImportJSON?: (file: File) => Promise<void>;
+  onCommitImport?: (result: CompleteImportResult, source: string) => Promise<void>;
+  onMergeBooks?: (books: Book[], targetId: string, choices: MergeFieldChoices) => Promise<void>;
   onCreateBackup?: () => Promise<void>;
   onRestoreBackup?: (file: File) => Promise<void>;
   onDeleteAccount?: () => Promise<void>;
@@ -53,8 +60,8 @@ export const Settings: React.FC<SettingsProps> = ({
   isOpen,
   onClose,
   books,
-  onImportCSV,
-  onImportJSON,
+  onCommitImport,
+  onMergeBooks,
   onCreateBackup,
   onRestoreBackup,
   onDeleteAccount,
@@ -63,6 +70,7 @@ export const Settings: React.FC<SettingsProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState('general');
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
   const [deleteMode, setDeleteMode] = useState<'delete' | 'reset' | 'account'>('delete');
   const { settings, updateSettings, isLoading } = useSettings();
   const { colorMode, setColorMode } = useTheme();
@@ -529,7 +537,7 @@ export const Settings: React.FC<SettingsProps> = ({
 
                   <Separator />
 
-                  <GoalsTab />
+                  <GoalsTab books={books as Book[]} />
                 </div>
               </TabsContent>
 
@@ -681,8 +689,7 @@ export const Settings: React.FC<SettingsProps> = ({
               <TabsContent value="import-export" className="mt-0">
                 <ImportExportView 
                   books={books}
-                  onImportCSV={onImportCSV}
-                  onImportJSON={onImportJSON}
+                  onCommitImport={onCommitImport}
                   onCreateBackup={onCreateBackup}
                   onRestoreBackup={onRestoreBackup}
                 />
@@ -698,6 +705,25 @@ export const Settings: React.FC<SettingsProps> = ({
                 </p>
 
                 <div className="space-y-6">
+                  {onMergeBooks && (
+                    <Card className="p-6">
+                      <h4 className="font-medium mb-2">Duplicate Books</h4>
+                      <p className="text-sm text-muted-foreground mb-4">
+                        Find books that share an ISBN or provider ID, or have a very similar title and author, and merge them into one.
+                        Series, collections, reading sessions and release notifications move to the book you keep.
+                      </p>
+                      <Button variant="outline" onClick={() => setShowDuplicates(true)}>
+                        Find Duplicates
+                      </Button>
+                      <DuplicateBooksDialog
+                        open={showDuplicates}
+                        onOpenChange={setShowDuplicates}
+                        books={books as Book[]}
+                        onMerge={onMergeBooks}
+                      />
+                    </Card>
+                  )}
+
                   <Card className="border-destructive/20 bg-destructive/5 p-6">
                     <h4 className="font-medium mb-2">Clear Books</h4>
                     <p className="text-sm text-muted-foreground mb-4">
@@ -811,7 +837,7 @@ export const Settings: React.FC<SettingsProps> = ({
                   <Card className="p-6">
                     <h4 className="font-medium mb-2">Change Password</h4>
                     <p className="text-sm text-muted-foreground mb-4">
-                      Password changes sign out the current session and invalidate older sessions. You will need to sign in again afterward.
+                      Password changes sign out every signed-in device, including this one. You will need to sign in again afterward.
                     </p>
 
                     <form className="space-y-4" onSubmit={handlePasswordChange}>
@@ -862,6 +888,12 @@ export const Settings: React.FC<SettingsProps> = ({
                     </form>
                   </Card>
 
+                  {isAuthenticated && <TwoFactorSettings />}
+
+                  {isAuthenticated && <SignedInDevices />}
+
+                  {isAuthenticated && <AccountArchive />}
+
                   {isAuthenticated && (
                     <Card className="border-destructive/20 bg-destructive/10 p-6">
                       <h4 className="font-medium mb-2">Delete Account</h4>
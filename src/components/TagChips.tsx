@@ -0,0 +1,43 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useSettings } from '@/contexts/SettingsContext';
+import { cn } from '@/lib/utils';
+import { DEFAULT_TAG_COLOR } from '@/utils/bookTags';
+
+interface TagChipsProps {
+  tags?: string[];
+  /** Show at most this many, with a count of the rest */
+  max?: number;
+  className?: string;
+}
+
+/**
+ * A book's tags as chips in the colours picked on the tags page
+ */
+export const TagChips = ({ tags, max, className }: TagChipsProps) => {
+  const { settings } = useSettings();
+
+  if (!tags?.length) return null;
+
+  const shown = max === undefined ? tags : tags.slice(0, max);
+  const tagColors = settings.tagColors ?? {};
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)} aria-label="Tags">
+      {shown.map(tag => (
+        <Badge
+          key={tag}
+          className="text-[10px] py-0 text-white border-transparent"
+          style={{ backgroundColor: tagColors[tag] || DEFAULT_TAG_COLOR }}
+        >
+          {tag}
+        </Badge>
+      ))}
+      {tags.length > shown.length && (
+        <span className="text-xs text-muted-foreground">+{tags.length - shown.length} more</span>
+      )}
+    </div>
+  );
+};
+
+export default TagChips;
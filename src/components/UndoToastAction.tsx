@@ -0,0 +1,22 @@
+import { ToastAction } from '@/components/ui/toast';
+import { undoWithToast } from '@/hooks/useHistory';
+import { HistoryCommand } from '@/services/HistoryService';
+
+interface UndoToastActionProps {
+  /** The change the toast reports, usually historyService.peekUndo() */
+  command: HistoryCommand | undefined;
+}
+
+/**
+ * "Undo" button for the notification shown after a library change. Renders
+ * nothing when the change was not recorded.
+ */
+export const UndoToastAction = ({ command }: UndoToastActionProps) => {
+  if (!command) return null;
+
+  return (
+    <ToastAction altText="Undo this change" onClick={() => undoWithToast(command)}>
+      Undo
+    </ToastAction>
+  );
+};
@@ -4,6 +4,7 @@ import { render, screen } from '@testing-library/react';
 import { BookCard } from '../BookCard';
 import { createLogger } from '@/utils/loggingUtils';
 import { Book } from '@/types/book';
+import { useLoans } from '@/contexts/loans-context';
 
 // Mock the loggingUtils module
 jest.mock('@/utils/loggingUtils', () => {
@@ -41,6 +42,16 @@ declare global {
   var mockError: jest.Mock;
 }
 
+// Tag chips read their colours from the user's settings
+jest.mock('@/contexts/SettingsContext', () => ({
+  useSettings: jest.fn().mockReturnValue({ settings: { tagColors: {} } })
+}));
+
+// Loan badges read the active loans from the loans context
+jest.mock('@/contexts/loans-context', () => ({
+  useLoans: jest.fn()
+}));
+
 // Mock the UI components to simplify testing
 jest.mock('@/components/ui/card', () => ({
   Card: ({ children, className }: { children: React.ReactNode, className?: string }) => (
@@ -59,7 +70,8 @@ jest.mock('@/components/ui/badge', () => ({
 
 jest.mock('lucide-react', () => ({
   Star: () => <span data-testid="star-icon">★</span>,
-  BookOpen: () => <span data-testid="book-open-icon">📖</span>
+  BookOpen: () => <span data-testid="book-open-icon">📖</span>,
+  Handshake: () => <span data-testid="handshake-icon">🤝</span>
 }));
 
 describe('BookCard Component', () => {
@@ -77,6 +89,7 @@ describe('BookCard Component', () => {
   
   beforeEach(() => {
     jest.clearAllMocks();
+    (useLoans as jest.Mock).mockReturnValue({ getActiveLoan: () => undefined });
   });
   
   test('renders book information correctly', () => {
@@ -151,6 +164,18 @@ describe('BookCard Component', () => {
     expect(mockDebug).not.toHaveBeenCalledWith('Rendering genre in BookCard', expect.any(Object));
   });
   
+  test('shows an on loan badge while the book is lent out', () => {
+    (useLoans as jest.Mock).mockReturnValue({
+      getActiveLoan: (bookId: string) => bookId === 'book123'
+        ? { id: 'loan-1', bookId, direction: 'lent', person: 'Sam', loanedDate: '2026-03-01' }
+        : undefined
+    });
+
+    render(<BookCard book={mockBook} compact={true} />);
+
+    expect(screen.getByText('On loan')).toBeInTheDocument();
+  });
+
   test('applies custom className when provided', () => {
     render(<BookCard book={mockBook} className="custom-class" />);
     
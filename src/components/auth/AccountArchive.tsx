@@ -0,0 +1,131 @@
+import React, { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { AccountImportSummary, ApiClientError, authApi } from "@/lib/apiClient";
+import { syncService } from "@/services/sync/SyncService";
+import { downloadFile } from "@/utils/exportUtils";
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiClientError ? error.message : fallback;
+
+const countRestored = (summary: AccountImportSummary): { created: number; updated: number } =>
+  Object.values(summary).reduce(
+    (total, section) => ({
+      created: total.created + section.created,
+      updated: total.updated + section.updated,
+    }),
+    { created: 0, updated: 0 },
+  );
+
+/**
+ * Downloads everything the account holds on the server as one file, and
+ * restores such a file into this account. Restoring matches records by id,
+ * so loading the same archive twice does not duplicate anything.
+ */
+export const AccountArchive = () => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+
+    try {
+      const archive = await authApi.exportAccount();
+
+      downloadFile(
+        JSON.stringify(archive, null, 2),
+        `book-collection-account-${archive.timestamp.slice(0, 10)}.json`,
+        "application/json",
+      );
+    } catch (error) {
+      toast({
+        title: "Could not download your account",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+
+    try {
+      let archive: unknown;
+
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error("This file is not valid JSON.");
+      }
+
+      const { summary } = await authApi.importAccount(archive);
+      const { created, updated } = countRestored(summary);
+
+      void syncService.sync();
+      toast({
+        title: "Account restored",
+        description: `${created} records added and ${updated} updated.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not restore the archive",
+        description:
+          error instanceof ApiClientError || !(error instanceof Error)
+            ? getErrorMessage(error, "Please try again.")
+            : error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h4 className="font-medium mb-2">Account Archive</h4>
+      <p className="text-sm text-muted-foreground mb-4">
+        Download your books, series, collections, upcoming releases, notifications, reading sessions, loans and settings
+        as one file, or restore a downloaded archive into this account.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" disabled={isExporting} onClick={() => void handleExport()}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Preparing Download..." : "Download Archive"}
+        </Button>
+        <Button
+          variant="outline"
+          disabled={isImporting}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {isImporting ? "Restoring..." : "Restore Archive"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+
+            if (file) {
+              void handleImport(file);
+            }
+          }}
+        />
+      </div>
+    </Card>
+  );
+};
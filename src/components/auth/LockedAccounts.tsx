@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Lock, LockOpen } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { AdminLockedAccountRecord, ApiClientError, authApi } from "@/lib/apiClient";
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiClientError ? error.message : fallback;
+
+/**
+ * Emails currently locked out after repeated failed sign-ins or reset codes,
+ * for admins to release early. Unknown emails lock out too, so not every
+ * entry is a real account.
+ */
+export const LockedAccounts = () => {
+  const { toast } = useToast();
+  const [lockedAccounts, setLockedAccounts] = useState<AdminLockedAccountRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+
+  const loadLockedAccounts = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+
+    try {
+      setLockedAccounts(await authApi.getAdminLockedAccounts());
+    } catch (error) {
+      setLoadError(getErrorMessage(error, "Unable to load locked accounts."));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadLockedAccounts();
+  }, [loadLockedAccounts]);
+
+  const handleUnlock = async (email: string) => {
+    setPendingEmail(email);
+
+    try {
+      await authApi.adminUnlockAccount({ email });
+      setLockedAccounts((current) => current.filter((entry) => entry.email !== email));
+      toast({
+        title: "Account unlocked",
+        description: `${email} can try signing in again straight away.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Unlock failed",
+        description: getErrorMessage(error, "Failed to unlock the account."),
+      });
+    } finally {
+      setPendingEmail(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="h-5 w-5 mr-2" />
+          Locked Accounts
+        </CardTitle>
+        <CardDescription>
+          Sign-in is paused for these emails after repeated failed attempts. Each further failure doubles the wait.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loadError ? (
+          <Alert variant="destructive">
+            <AlertTitle>Locked Accounts Error</AlertTitle>
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading locked accounts…</p>
+        ) : lockedAccounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accounts are locked right now.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {lockedAccounts.map((lockedAccount) => (
+              <li
+                key={lockedAccount.email}
+                className="flex items-center justify-between gap-3 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{lockedAccount.email}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[
+                      `${lockedAccount.failedAttempts} failed attempts`,
+                      `unlocks ${formatDistanceToNow(new Date(lockedAccount.lockedUntil), { addSuffix: true })}`,
+                      lockedAccount.lastFailedIp && `last from ${lockedAccount.lastFailedIp}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="shrink-0"
+                  disabled={pendingEmail === lockedAccount.email}
+                  onClick={() => void handleUnlock(lockedAccount.email)}
+                >
+                  <LockOpen className="h-4 w-4 mr-1" />
+                  {pendingEmail === lockedAccount.email ? "Unlocking…" : "Unlock"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
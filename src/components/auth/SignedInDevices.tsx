@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Laptop, LogOut, Smartphone } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiClientError, AuthSessionRecord, authApi } from "@/lib/apiClient";
+
+const MOBILE_DEVICE_PATTERN = /iPhone|iPad|Android/;
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiClientError ? error.message : fallback;
+
+/**
+ * Every device signed in to the account, with a way to sign any of them out.
+ * Signing out the device in use here is the same as logging out.
+ */
+export const SignedInDevices = () => {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<AuthSessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+
+    try {
+      const response = await authApi.getSessions();
+      setSessions(response.sessions);
+    } catch (error) {
+      setLoadError(getErrorMessage(error, "Unable to load your signed-in devices."));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: AuthSessionRecord) => {
+    setPendingSessionId(session.id);
+
+    try {
+      await authApi.revokeSession(session.id);
+
+      if (session.current) {
+        logout();
+        return;
+      }
+
+      setSessions((current) => current.filter((entry) => entry.id !== session.id));
+      toast({
+        title: "Device signed out",
+        description: `${session.deviceName} will need to sign in again.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not sign out device",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setPendingSessionId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setIsRevokingOthers(true);
+
+    try {
+      const { revoked } = await authApi.revokeOtherSessions();
+      setSessions((current) => current.filter((entry) => entry.current));
+      toast({
+        title: "Other devices signed out",
+        description:
+          revoked === 1 ? "1 device was signed out." : `${revoked} devices were signed out.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not sign out other devices",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const otherSessionCount = sessions.filter((session) => !session.current).length;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h4 className="font-medium mb-2">Signed-in Devices</h4>
+          <p className="text-sm text-muted-foreground">
+            Devices stay signed in until they are signed out here or go unused for a while.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isRevokingOthers || otherSessionCount === 0}
+          onClick={() => void handleRevokeOthers()}
+        >
+          {isRevokingOthers ? "Signing Out..." : "Sign Out Other Devices"}
+        </Button>
+      </div>
+
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading devices...</p>
+      )}
+
+      {!isLoading && loadError && (
+        <div className="flex items-center gap-3">
+          <p className="text-sm text-destructive">{loadError}</p>
+          <Button variant="ghost" size="sm" onClick={() => void loadSessions()}>
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {!isLoading && !loadError && sessions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          This device signed in before device tracking was added. Sign in again to see it here.
+        </p>
+      )}
+
+      {!isLoading && !loadError && sessions.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {sessions.map((session) => {
+            const DeviceIcon = MOBILE_DEVICE_PATTERN.test(session.userAgent || "")
+              ? Smartphone
+              : Laptop;
+
+            return (
+              <li key={session.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="flex min-w-0 items-center gap-3">
+                  <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium">{session.deviceName}</span>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[
+                        session.ip,
+                        `Active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`,
+                        `Signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0"
+                  disabled={pendingSessionId === session.id}
+                  onClick={() => void handleRevoke(session)}
+                  aria-label={`Sign out ${session.deviceName}`}
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  {session.current ? "Sign Out" : "Revoke"}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { FormEvent, useState } from "react";
+import { Copy, ShieldCheck } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { PasswordInput } from "@/components/ui/password-input";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiClientError, TwoFactorSetupResponse, authApi } from "@/lib/apiClient";
+
+type PasswordAction = "disable" | "regenerate";
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiClientError ? error.message : fallback;
+
+const toDigits = (value: string) => value.replace(/\D/g, "").slice(0, 6);
+
+/**
+ * Turning an authenticator app on and off for the signed-in account. There is
+ * no QR renderer bundled, so setup offers the otpauth link (which opens the
+ * authenticator directly on phones) alongside the key for manual entry.
+ */
+export const TwoFactorSettings = () => {
+  const { disableTwoFactor, enableTwoFactor, user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [confirmCode, setConfirmCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEnabled = Boolean(user?.twoFactorEnabled);
+
+  const resetPasswordAction = () => {
+    setPasswordAction(null);
+    setCurrentPassword("");
+    setConfirmCode("");
+    setError(null);
+  };
+
+  const handleStartSetup = async () => {
+    setError(null);
+    setRecoveryCodes(null);
+    setIsSubmitting(true);
+
+    try {
+      setSetup(await authApi.setupTwoFactor());
+      setSetupCode("");
+    } catch (setupError) {
+      setError(getErrorMessage(setupError, "Unable to start two-factor setup."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const codes = await enableTwoFactor({ code: setupCode });
+      setSetup(null);
+      setSetupCode("");
+      setRecoveryCodes(codes);
+      toast({
+        title: "Two-factor authentication on",
+        description: "You will be asked for a code from your authenticator app when you sign in.",
+      });
+    } catch (enableError) {
+      setError(getErrorMessage(enableError, "Unable to turn on two-factor authentication."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePasswordAction = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    const payload = { currentPassword, code: confirmCode };
+
+    try {
+      if (passwordAction === "disable") {
+        await disableTwoFactor(payload);
+        setRecoveryCodes(null);
+        toast({
+          title: "Two-factor authentication off",
+          description: "Signing in now only needs your password.",
+        });
+      } else {
+        const response = await authApi.regenerateRecoveryCodes(payload);
+        setRecoveryCodes(response.recoveryCodes);
+      }
+
+      resetPasswordAction();
+    } catch (actionError) {
+      setError(getErrorMessage(actionError, "Please check your password and code."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Recovery codes copied" });
+    } catch {
+      toast({
+        title: "Could not copy recovery codes",
+        description: "Select and copy them by hand instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <h4 className="font-medium">Two-Factor Authentication</h4>
+            {isEnabled && (
+              <Badge variant="secondary">
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                On
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {isEnabled
+              ? "Signing in asks for a code from your authenticator app after your password."
+              : "Add a code from an authenticator app to every sign-in."}
+            {user?.role === "admin" && " Admin accounts need it on to use admin tools."}
+          </p>
+        </div>
+        {!isEnabled && !setup && (
+          <Button
+            size="sm"
+            disabled={isSubmitting}
+            onClick={() => void handleStartSetup()}
+          >
+            Set Up
+          </Button>
+        )}
+      </div>
+
+      {setup && (
+        <form className="space-y-4" onSubmit={handleEnable}>
+          <ol className="list-decimal pl-5 space-y-2 text-sm text-muted-foreground">
+            <li>
+              Open{" "}
+              <a className="text-primary underline-offset-4 hover:underline" href={setup.otpauthUrl}>
+                this setup link
+              </a>{" "}
+              on the device with your authenticator app, or add an account by hand with the key
+              below.
+            </li>
+            <li>Enter the 6-digit code the app shows to finish.</li>
+          </ol>
+          <code className="block break-all rounded-md bg-muted px-3 py-2 text-sm font-mono">
+            {setup.secret.replace(/(.{4})/g, "$1 ").trim()}
+          </code>
+
+          <div className="grid gap-2">
+            <label htmlFor="two-factor-setup-code" className="text-sm font-medium">
+              Authentication Code
+            </label>
+            <Input
+              id="two-factor-setup-code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              maxLength={6}
+              placeholder="6-digit code"
+              value={setupCode}
+              onChange={(event) => setSetupCode(toDigits(event.target.value))}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button disabled={isSubmitting || setupCode.length !== 6} type="submit">
+              {isSubmitting ? "Verifying..." : "Turn On"}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setSetup(null);
+                setError(null);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className="space-y-3 rounded-md border p-4 mb-4">
+          <p className="text-sm font-medium">Save your recovery codes</p>
+          <p className="text-sm text-muted-foreground">
+            Each code signs you in once if you lose your authenticator. They will not be shown
+            again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {recoveryCodes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => void handleCopyRecoveryCodes()}>
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+              I Saved Them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isEnabled && !passwordAction && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => setPasswordAction("regenerate")}>
+            New Recovery Codes
+          </Button>
+          {user?.role !== "admin" && (
+            <Button size="sm" variant="outline" onClick={() => setPasswordAction("disable")}>
+              Turn Off
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isEnabled && passwordAction && (
+        <form className="space-y-4" onSubmit={handlePasswordAction}>
+          <p className="text-sm text-muted-foreground">
+            {passwordAction === "disable"
+              ? "Confirm with your password and a current code to turn two-factor authentication off."
+              : "Confirm with your password and a current code. Your old recovery codes will stop working."}
+          </p>
+          <div className="grid gap-2">
+            <label htmlFor="two-factor-current-password" className="text-sm font-medium">
+              Current Password
+            </label>
+            <PasswordInput
+              id="two-factor-current-password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(event) => setCurrentPassword(event.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="two-factor-confirm-code" className="text-sm font-medium">
+              Authentication Code
+            </label>
+            <Input
+              id="two-factor-confirm-code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              maxLength={6}
+              placeholder="6-digit code"
+              value={confirmCode}
+              onChange={(event) => setConfirmCode(toDigits(event.target.value))}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button
+              disabled={isSubmitting || !currentPassword || confirmCode.length !== 6}
+              type="submit"
+              variant={passwordAction === "disable" ? "destructive" : "default"}
+            >
+              {passwordAction === "disable" ? "Turn Off" : "Generate Codes"}
+            </Button>
+            <Button type="button" variant="ghost" onClick={resetPasswordAction}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {!setup && !passwordAction && error && (
+        <p className="text-sm text-destructive mt-3">{error}</p>
+      )}
+    </Card>
+  );
+};
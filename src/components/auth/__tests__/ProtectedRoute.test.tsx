@@ -12,7 +12,10 @@ const baseAuthContext: AuthContextValue = {
   changeEmail: jest.fn(),
   changePreferredName: jest.fn(),
   changePassword: jest.fn(),
+  completeTwoFactorLogin: jest.fn(),
   deleteAccount: jest.fn(),
+  disableTwoFactor: jest.fn(),
+  enableTwoFactor: jest.fn(),
   isAuthenticated: false,
   isLoadingAuth: false,
   login: jest.fn(),
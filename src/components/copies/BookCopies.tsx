@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { ArrowUp, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Book, BookCopy, BookFormat, CopyCondition } from '@/types/book';
+import {
+  BOOK_FORMATS,
+  BOOK_FORMAT_LABELS,
+  COPY_CONDITIONS,
+  COPY_CONDITION_LABELS,
+  MAX_BOOK_COPIES,
+  formatAudioLength,
+  getCopyCountLabel,
+  isOwnedCopy,
+} from '@/utils/bookCopies';
+
+interface BookCopiesProps {
+  book: Book;
+  /** Show the copies without the controls to change them */
+  readOnly?: boolean;
+  onChange: (updates: Partial<Book>) => void;
+}
+
+interface CopyFormState {
+  format: BookFormat;
+  edition: string;
+  publisher: string;
+  purchaseDate: string;
+  purchasePrice: string;
+  purchaseLocation: string;
+  condition: CopyCondition | '';
+  shelfLocation: string;
+  audioHours: string;
+  audioMinutes: string;
+}
+
+const NO_CONDITION = 'none';
+
+const EMPTY_FORM: CopyFormState = {
+  format: 'paperback',
+  edition: '',
+  publisher: '',
+  purchaseDate: '',
+  purchasePrice: '',
+  purchaseLocation: '',
+  condition: '',
+  shelfLocation: '',
+  audioHours: '',
+  audioMinutes: '',
+};
+
+const toIsoDate = (value: string): string | undefined =>
+  value ? new Date(`${value}T12:00:00`).toISOString() : undefined;
+
+const toFormState = (copy: BookCopy): CopyFormState => ({
+  format: copy.format,
+  edition: copy.edition || '',
+  publisher: copy.publisher || '',
+  purchaseDate: copy.purchaseDate ? format(new Date(copy.purchaseDate), 'yyyy-MM-dd') : '',
+  purchasePrice: copy.purchasePrice !== undefined ? String(copy.purchasePrice) : '',
+  purchaseLocation: copy.purchaseLocation || '',
+  condition: copy.condition || '',
+  shelfLocation: copy.shelfLocation || '',
+  audioHours: copy.audioMinutes ? String(Math.floor(copy.audioMinutes / 60)) : '',
+  audioMinutes: copy.audioMinutes ? String(copy.audioMinutes % 60) : '',
+});
+
+const describeCopy = (copy: BookCopy): string[] =>
+  [
+    copy.edition,
+    copy.publisher,
+    copy.condition && COPY_CONDITION_LABELS[copy.condition],
+    copy.audioMinutes ? formatAudioLength(copy.audioMinutes) : undefined,
+    copy.shelfLocation && `Shelf: ${copy.shelfLocation}`,
+  ].filter((detail): detail is string => Boolean(detail));
+
+const describePurchase = (copy: BookCopy): string | undefined => {
+  const parts = [
+    copy.purchaseDate && format(new Date(copy.purchaseDate), 'MMM d, yyyy'),
+    copy.purchasePrice !== undefined && copy.purchasePrice.toFixed(2),
+    copy.purchaseLocation && `at ${copy.purchaseLocation}`,
+  ].filter(Boolean);
+
+  if (parts.length === 0) return undefined;
+  return `${copy.format === 'library' ? 'Borrowed' : 'Bought'} ${parts.join(', ')}`;
+};
+
+/**
+ * The copies of a single book, such as a hardcover on the shelf and the
+ * audiobook. The first copy is the main one. Changes are passed up through
+ * onChange and persisted when the book details are saved.
+ */
+export const BookCopies: React.FC<BookCopiesProps> = ({ book, readOnly = false, onChange }) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState<CopyFormState>(EMPTY_FORM);
+
+  const copies = book.copies || [];
+  const ownedCount = copies.filter(isOwnedCopy).length;
+  const isFull = copies.length >= MAX_BOOK_COPIES;
+
+  const setCopies = (next: BookCopy[]) => onChange({ copies: next.length > 0 ? next : undefined });
+
+  const openDialog = (copy?: BookCopy) => {
+    setForm(copy ? toFormState(copy) : EMPTY_FORM);
+    setEditingId(copy?.id ?? null);
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    const purchasePrice = form.purchasePrice ? Number(form.purchasePrice) : undefined;
+    const hours = form.audioHours ? Number(form.audioHours) : 0;
+    const minutes = form.audioMinutes ? Number(form.audioMinutes) : 0;
+
+    if (purchasePrice !== undefined && (Number.isNaN(purchasePrice) || purchasePrice < 0)) {
+      setFormError('Price must be a number of at least 0.');
+      return;
+    }
+
+    if (
+      form.format === 'audiobook' &&
+      (!Number.isInteger(hours) || !Number.isInteger(minutes) || hours < 0 || minutes < 0 || minutes > 59)
+    ) {
+      setFormError('Length must be whole hours and 0 to 59 minutes.');
+      return;
+    }
+
+    const copy: BookCopy = {
+      id: editingId ?? `copy-${uuidv4()}`,
+      format: form.format,
+      edition: form.edition.trim() || undefined,
+      publisher: form.publisher.trim() || undefined,
+      purchaseDate: toIsoDate(form.purchaseDate),
+      purchasePrice,
+      purchaseLocation: form.purchaseLocation.trim() || undefined,
+      condition: form.condition || undefined,
+      shelfLocation: form.shelfLocation.trim() || undefined,
+      audioMinutes: form.format === 'audiobook' && hours * 60 + minutes > 0 ? hours * 60 + minutes : undefined,
+    };
+
+    setCopies(editingId ? copies.map(existing => (existing.id === editingId ? copy : existing)) : [...copies, copy]);
+    setIsDialogOpen(false);
+  };
+
+  const handleMakeMain = (id: string) => {
+    const copy = copies.find(existing => existing.id === id);
+    if (!copy) return;
+    setCopies([copy, ...copies.filter(existing => existing.id !== id)]);
+  };
+
+  const handleDelete = (id: string) => {
+    setCopies(copies.filter(copy => copy.id !== id));
+  };
+
+  const updateForm = (changes: Partial<CopyFormState>) => setForm({ ...form, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          {copies.length === 0
+            ? 'No copies recorded.'
+            : `${getCopyCountLabel(copies.length)} recorded, ${ownedCount} owned`}
+        </div>
+        {!readOnly && (
+          <Button size="sm" variant="outline" onClick={() => openDialog()} disabled={isFull}>
+            <Plus className="h-4 w-4 mr-1" /> Add copy
+          </Button>
+        )}
+      </div>
+
+      {copies.length > 0 && (
+        <ul className="divide-y rounded-md border bg-background text-sm">
+          {copies.map((copy, index) => {
+            const purchase = describePurchase(copy);
+            return (
+              <li key={copy.id} className="flex items-start justify-between gap-2 p-2">
+                <div>
+                  <div className="flex items-center gap-2 font-medium">
+                    {BOOK_FORMAT_LABELS[copy.format]}
+                    {index === 0 && copies.length > 1 && <Badge variant="secondary">Main copy</Badge>}
+                  </div>
+                  {describeCopy(copy).length > 0 && (
+                    <div className="text-muted-foreground">{describeCopy(copy).join(' · ')}</div>
+                  )}
+                  {purchase && <div className="text-xs text-muted-foreground">{purchase}</div>}
+                </div>
+                {!readOnly && (
+                  <div className="flex">
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleMakeMain(copy.id)}
+                        aria-label="Make main copy"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => openDialog(copy)}
+                      aria-label="Edit copy"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleDelete(copy.id)}
+                      aria-label="Delete copy"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit copy' : 'Add copy'}</DialogTitle>
+            <DialogDescription>
+              Record a copy you own, borrowed from a library or would like to have.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="copy-format">Format</Label>
+                <Select value={form.format} onValueChange={(value) => updateForm({ format: value as BookFormat })}>
+                  <SelectTrigger id="copy-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOOK_FORMATS.map(option => (
+                      <SelectItem key={option} value={option}>{BOOK_FORMAT_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="copy-condition">Condition</Label>
+                <Select
+                  value={form.condition || NO_CONDITION}
+                  onValueChange={(value) =>
+                    updateForm({ condition: value === NO_CONDITION ? '' : (value as CopyCondition) })
+                  }
+                >
+                  <SelectTrigger id="copy-condition">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CONDITION}>Not recorded</SelectItem>
+                    {COPY_CONDITIONS.map(option => (
+                      <SelectItem key={option} value={option}>{COPY_CONDITION_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="copy-edition">Edition</Label>
+                <Input
+                  id="copy-edition"
+                  placeholder="e.g. First edition"
+                  value={form.edition}
+                  onChange={(e) => updateForm({ edition: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="copy-publisher">Publisher</Label>
+                <Input
+                  id="copy-publisher"
+                  value={form.publisher}
+                  onChange={(e) => updateForm({ publisher: e.target.value })}
+                />
+              </div>
+            </div>
+            {form.format === 'audiobook' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="copy-audio-hours">Length (hours)</Label>
+                  <Input
+                    id="copy-audio-hours"
+                    type="number"
+                    min="0"
+                    value={form.audioHours}
+                    onChange={(e) => updateForm({ audioHours: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="copy-audio-minutes">Minutes</Label>
+                  <Input
+                    id="copy-audio-minutes"
+                    type="number"
+                    min="0"
+                    max="59"
+                    value={form.audioMinutes}
+                    onChange={(e) => updateForm({ audioMinutes: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="copy-purchase-date">
+                  {form.format === 'library' ? 'Borrowed on' : 'Bought on'}
+                </Label>
+                <Input
+                  id="copy-purchase-date"
+                  type="date"
+                  value={form.purchaseDate}
+                  onChange={(e) => updateForm({ purchaseDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="copy-purchase-price">Price</Label>
+                <Input
+                  id="copy-purchase-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.purchasePrice}
+                  onChange={(e) => updateForm({ purchasePrice: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="copy-purchase-location">
+                {form.format === 'library' ? 'Library' : 'Bought from'}
+              </Label>
+              <Input
+                id="copy-purchase-location"
+                value={form.purchaseLocation}
+                onChange={(e) => updateForm({ purchaseLocation: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="copy-shelf-location">Shelf location</Label>
+              <Input
+                id="copy-shelf-location"
+                placeholder="e.g. Study, shelf 3"
+                value={form.shelfLocation}
+                onChange={(e) => updateForm({ shelfLocation: e.target.value })}
+              />
+            </div>
+            {formError && (
+              <div className="text-destructive text-sm" role="alert">{formError}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>{editingId ? 'Save copy' : 'Add copy'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BookCopies;
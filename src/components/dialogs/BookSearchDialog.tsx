@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { BookSearch } from "@/components/BookSearch";
+import { IsbnScanner } from "@/components/IsbnScanner";
 import { Book } from "@/types/book";
 import {
   Dialog,
@@ -8,6 +9,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 interface BookSearchDialogProps {
   open: boolean;
@@ -58,13 +60,22 @@ export function BookSearchDialog({
         </DialogHeader>
         
         <ScrollArea className="px-6" style={{ maxHeight }}>
-          <div className="py-4">
-            <BookSearch 
-              onAddBook={handleAddBook} 
-              existingBooks={existingBooks} 
-              maxResultsHeight={`calc(${maxHeight} - 180px)`}
-            />
-          </div>
+          <Tabs defaultValue="search" className="py-4">
+            <TabsList className="mb-4">
+              <TabsTrigger value="search">Search</TabsTrigger>
+              <TabsTrigger value="scan">Scan ISBN</TabsTrigger>
+            </TabsList>
+            <TabsContent value="search">
+              <BookSearch 
+                onAddBook={handleAddBook} 
+                existingBooks={existingBooks} 
+                maxResultsHeight={`calc(${maxHeight} - 230px)`}
+              />
+            </TabsContent>
+            <TabsContent value="scan">
+              <IsbnScanner onAddBook={handleAddBook} existingBooks={existingBooks} />
+            </TabsContent>
+          </Tabs>
         </ScrollArea>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { seriesRepository } from '@/repositories/SeriesRepository';
+import { Book } from '@/types/book';
+import {
+  DuplicateGroup,
+  MERGE_FIELDS,
+  MergeField,
+  MergeFieldChoices,
+  findDuplicateGroups,
+  getDefaultMergeChoices,
+  hasMergeFieldValue,
+} from '@/utils/duplicateBooks';
+import type { ImportMatchReason } from '@/utils/importStaging';
+
+interface DuplicateBooksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  books: Book[];
+  onMerge: (books: Book[], targetId: string, choices: MergeFieldChoices) => Promise<void>;
+}
+
+const MATCH_LABELS: Record<ImportMatchReason, string> = {
+  isbn: 'Same ISBN',
+  'provider-id': 'Same provider ID',
+  'title-author': 'Similar title and author',
+};
+
+const STATUS_LABELS: Record<NonNullable<Book['status']>, string> = {
+  reading: 'Reading',
+  completed: 'Completed',
+  'want-to-read': 'Want to read',
+  dnf: 'Did not finish',
+  'on-hold': 'On hold',
+};
+
+const formatFieldValue = (book: Book, field: MergeField, seriesNames: Record<string, string>): React.ReactNode => {
+  switch (field) {
+    case 'thumbnail':
+      return <img src={book.thumbnail} alt="" className="h-16 w-auto rounded-sm" />;
+    case 'description':
+    case 'notes': {
+      const text = book[field] || '';
+      return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+    }
+    case 'genre':
+      return Array.isArray(book.genre) ? book.genre.join(', ') : book.genre;
+    case 'status':
+      return book.status && (
+        <>
+          {STATUS_LABELS[book.status]}
+          {book.completedDate && <div className="text-xs text-muted-foreground">{book.completedDate.slice(0, 10)}</div>}
+        </>
+      );
+    case 'rating':
+      return `${book.rating}/5`;
+    case 'series': {
+      const name = book.seriesId ? seriesNames[book.seriesId] || 'Unknown series' : '';
+      const position = book.seriesPosition ?? book.volumeNumber;
+      return position ? `${name} #${position}` : name;
+    }
+    case 'spineColor':
+      return `Color ${book.spineColor}`;
+    default:
+      return String(book[field] ?? '');
+  }
+};
+
+/**
+ * Lists likely duplicates in the library and merges a chosen group. The
+ * reader picks which book survives and, field by field, whose value it keeps.
+ */
+export const DuplicateBooksDialog: React.FC<DuplicateBooksDialogProps> = ({
+  open,
+  onOpenChange,
+  books,
+  onMerge,
+}) => {
+  const groups = useMemo(() => (open ? findDuplicateGroups(books) : []), [open, books]);
+  const [activeGroup, setActiveGroup] = useState<DuplicateGroup | null>(null);
+  const [targetId, setTargetId] = useState('');
+  const [choices, setChoices] = useState<MergeFieldChoices>({});
+  const [seriesNames, setSeriesNames] = useState<Record<string, string>>({});
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setActiveGroup(null);
+      return;
+    }
+
+    seriesRepository.getAll()
+      .then(seriesList => setSeriesNames(Object.fromEntries(seriesList.map(series => [series.id, series.name]))))
+      .catch(error => console.error('Error loading series for duplicate merge:', error));
+  }, [open]);
+
+  const selectGroup = (group: DuplicateGroup) => {
+    setActiveGroup(group);
+    setTargetId(group.books[0].id);
+    setChoices(getDefaultMergeChoices(group.books, group.books[0].id));
+  };
+
+  const changeTarget = (id: string) => {
+    if (!activeGroup) return;
+    setTargetId(id);
+    setChoices(getDefaultMergeChoices(activeGroup.books, id));
+  };
+
+  const handleMerge = async () => {
+    if (!activeGroup) return;
+
+    setIsMerging(true);
+    try {
+      await onMerge(activeGroup.books, targetId, choices);
+      setActiveGroup(null);
+    } catch {
+      // onMerge reports failures; stay on the group so it can be retried
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const fields = activeGroup
+    ? MERGE_FIELDS.filter(({ field }) => activeGroup.books.some(book => hasMergeFieldValue(book, field)))
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{activeGroup ? 'Merge duplicates' : 'Duplicate books'}</DialogTitle>
+          <DialogDescription>
+            {activeGroup
+              ? 'Choose the book to keep and which value wins for each field. Read history, ISBNs and collections from every copy are combined.'
+              : groups.length > 0
+                ? `Found ${groups.length} group${groups.length !== 1 ? 's' : ''} of books that look like the same title.`
+                : 'No likely duplicates were found in your library.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!activeGroup && groups.length > 0 && (
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {groups.map(group => (
+              <div key={group.key} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{group.books[0].title}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {group.books.length} copies by {Array.from(new Set(group.books.map(book => book.author))).join(' / ')}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {group.reasons.map(reason => (
+                      <Badge key={reason} variant="outline">{MATCH_LABELS[reason]}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => selectGroup(group)}>
+                  Review
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeGroup && (
+          <div className="flex-1 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  {activeGroup.books.map(book => (
+                    <TableHead key={book.id}>
+                      <label className="flex items-center gap-2 font-medium">
+                        <input
+                          type="radio"
+                          name="merge-target"
+                          checked={targetId === book.id}
+                          onChange={() => changeTarget(book.id)}
+                        />
+                        Keep this book
+                      </label>
+                      <div className="text-xs font-normal">Added {book.addedDate?.slice(0, 10)}</div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map(({ field, label }) => (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    {activeGroup.books.map(book => (
+                      <TableCell key={book.id} className="text-sm align-top">
+                        <label className="flex items-start gap-2">
+                          <input
+                            type="radio"
+                            name={`merge-${field}`}
+                            aria-label={`Use ${label.toLowerCase()} from ${book.title}`}
+                            checked={choices[field] === book.id}
+                            onChange={() => setChoices(current => ({ ...current, [field]: book.id }))}
+                          />
+                          <span className="min-w-0 break-words">
+                            {hasMergeFieldValue(book, field)
+                              ? formatFieldValue(book, field, seriesNames)
+                              : <span className="text-muted-foreground">—</span>}
+                          </span>
+                        </label>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {activeGroup ? (
+            <>
+              <Button variant="outline" onClick={() => setActiveGroup(null)} disabled={isMerging}>
+                Back
+              </Button>
+              <Button onClick={handleMerge} disabled={isMerging}>
+                {isMerging ? 'Merging...' : `Merge ${activeGroup.books.length} books`}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateBooksDialog;
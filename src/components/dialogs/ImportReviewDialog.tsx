@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ALLOWED_RESOLUTIONS,
+  ImportMatchReason,
+  ImportResolution,
+  StagedImport,
+  StagedRowKind,
+  countStagedRows,
+} from '@/utils/importStaging';
+import type { CompleteImportResult } from '@/utils/importUtils';
+
+interface ImportReviewDialogProps {
+  staged: StagedImport;
+  onResolutionChange: (key: string, resolution: ImportResolution) => void;
+  onKindResolutionChange: (kind: StagedRowKind, resolution: ImportResolution) => void;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}
+
+const SELECT_CLASS_NAME =
+  'h-8 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const KIND_LABELS: Record<StagedRowKind, string> = {
+  new: 'New',
+  updated: 'Updated',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const KIND_VARIANTS: Record<StagedRowKind, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  new: 'default',
+  updated: 'secondary',
+  duplicate: 'outline',
+  invalid: 'destructive',
+};
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  keep: 'Keep as new',
+  overwrite: 'Overwrite',
+  merge: 'Merge',
+  skip: 'Skip',
+};
+
+const MATCH_LABELS: Record<ImportMatchReason, string> = {
+  isbn: 'ISBN',
+  'provider-id': 'provider ID',
+  'title-author': 'title and author',
+};
+
+const KIND_ORDER: StagedRowKind[] = ['new', 'updated', 'duplicate', 'invalid'];
+
+/**
+ * Review table for a staged import. Every row shows how it matched the
+ * library and lets the reader choose keep, overwrite, merge or skip before
+ * anything is written.
+ */
+export const ImportReviewDialog: React.FC<ImportReviewDialogProps> = ({
+  staged,
+  onResolutionChange,
+  onKindResolutionChange,
+  onConfirm,
+  onDiscard,
+}) => {
+  const [kindFilter, setKindFilter] = useState<StagedRowKind | 'all'>('all');
+  const counts = useMemo(() => countStagedRows(staged), [staged]);
+  const rows = kindFilter === 'all' ? staged.rows : staged.rows.filter(row => row.kind === kindFilter);
+  const writeCount = staged.rows.filter(row => row.resolution !== 'skip').length;
+  const { series, collections } = staged.result as CompleteImportResult;
+  const relatedCount = (series?.successful.length || 0) + (collections?.successful.length || 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onDiscard(); }}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review import from {staged.source}</DialogTitle>
+          <DialogDescription>
+            Nothing has been saved yet. Choose what happens to each row, then import.
+            {relatedCount > 0 && ` Series and collections in the file follow the choices for their books.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant={kindFilter === 'all' ? 'default' : 'outline'}
+            onClick={() => setKindFilter('all')}
+          >
+            All ({staged.rows.length})
+          </Button>
+          {KIND_ORDER.map(kind => (
+            <Button
+              key={kind}
+              size="sm"
+              variant={kindFilter === kind ? 'default' : 'outline'}
+              onClick={() => setKindFilter(kind)}
+              disabled={counts[kind] === 0}
+            >
+              {KIND_LABELS[kind]} ({counts[kind]})
+            </Button>
+          ))}
+          {kindFilter !== 'all' && ALLOWED_RESOLUTIONS[kindFilter].length > 1 && (
+            <label className="ml-auto flex items-center gap-2 text-sm">
+              Set all to
+              <select
+                className={SELECT_CLASS_NAME}
+                defaultValue=""
+                onChange={(e) => {
+                  if (e.target.value) onKindResolutionChange(kindFilter, e.target.value as ImportResolution);
+                  e.target.value = '';
+                }}
+              >
+                <option value="" disabled>Choose...</option>
+                {ALLOWED_RESOLUTIONS[kindFilter].map(resolution => (
+                  <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Book</TableHead>
+                <TableHead>Matches</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    <Badge variant={KIND_VARIANTS[row.kind]}>{KIND_LABELS[row.kind]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{row.incoming?.title || row.rawData?.title || 'Untitled'}</div>
+                    <div className="text-xs text-muted-foreground">{row.incoming?.author || row.rawData?.author}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.existing ? (
+                      <>
+                        <div>{row.existing.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.matchedInFile ? 'Earlier row in this file' : 'In your library'}
+                          {row.matchedBy && `, by ${MATCH_LABELS[row.matchedBy]}`}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.kind === 'invalid'
+                      ? <span className="text-destructive">{row.reason}</span>
+                      : row.changedFields.length > 0
+                        ? row.changedFields.join(', ')
+                        : <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell>
+                    <select
+                      aria-label={`Action for ${row.incoming?.title || row.rawData?.title || 'row'}`}
+                      className={SELECT_CLASS_NAME}
+                      value={row.resolution}
+                      disabled={ALLOWED_RESOLUTIONS[row.kind].length === 1}
+                      onChange={(e) => onResolutionChange(row.key, e.target.value as ImportResolution)}
+                    >
+                      {ALLOWED_RESOLUTIONS[row.kind].map(resolution => (
+                        <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                      ))}
+                    </select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard}>
+            Discard
+          </Button>
+          <Button onClick={onConfirm} disabled={writeCount === 0 && relatedCount === 0}>
+            Import {writeCount} book{writeCount !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportReviewDialog;
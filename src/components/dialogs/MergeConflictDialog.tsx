@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SyncConflict } from '@/services/sync/SyncStore';
+import {
+  ConflictChoices,
+  ConflictField,
+  ConflictSide,
+  formatConflictValue,
+  getConflictingFields,
+  mergeConflict,
+} from '@/utils/syncConflicts';
+
+interface MergeConflictDialogProps<T> {
+  conflict: SyncConflict<T> | null;
+  fields: ConflictField<T>[];
+  /** What the record is called, e.g. the book title */
+  itemName: string;
+  /** Save the merge; gets the changes to make on top of the server's version */
+  onResolve: (changes: Partial<T>) => Promise<void>;
+  onResolveLater: () => void;
+}
+
+const SIDES: { side: ConflictSide; label: string }[] = [
+  { side: 'local', label: 'Your version' },
+  { side: 'server', label: 'Saved elsewhere' },
+];
+
+/**
+ * Shown when a change was refused because the record had been changed on
+ * another device or tab first. The reader picks, field by field, which
+ * version wins.
+ */
+export function MergeConflictDialog<T>({
+  conflict,
+  fields,
+  itemName,
+  onResolve,
+  onResolveLater,
+}: MergeConflictDialogProps<T>) {
+  const [choices, setChoices] = useState<ConflictChoices>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const conflictingFields = useMemo(
+    () => (conflict ? getConflictingFields(fields, conflict.local, conflict.server) : []),
+    [conflict, fields]
+  );
+
+  const chooseAll = (side: ConflictSide) => {
+    setChoices(Object.fromEntries(conflictingFields.map(field => [field.key, side])));
+  };
+
+  const handleSave = async () => {
+    if (!conflict) return;
+
+    setIsSaving(true);
+    try {
+      await onResolve(mergeConflict(fields, conflict.local, conflict.server, choices));
+    } catch {
+      // onResolve reports failures; keep the dialog open so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(conflict)} onOpenChange={open => !open && onResolveLater()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Merge changes to "{itemName}"</DialogTitle>
+          <DialogDescription>
+            {conflictingFields.length > 0
+              ? 'This was changed on another device or tab before your changes were saved. Choose which version to keep for each field.'
+              : 'This was changed on another device or tab before your changes were saved, but both versions now match.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && conflictingFields.length > 0 && (
+          <div className="flex-1 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  {SIDES.map(({ side, label }) => (
+                    <TableHead key={side}>
+                      <Button variant="link" className="h-auto p-0 font-medium" onClick={() => chooseAll(side)}>
+                        {label}
+                      </Button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conflictingFields.map(field => (
+                  <TableRow key={field.key}>
+                    <TableCell className="font-medium">{field.label}</TableCell>
+                    {SIDES.map(({ side, label }) => {
+                      const value = formatConflictValue(field, side === 'local' ? conflict.local : conflict.server);
+
+                      return (
+                        <TableCell key={side} className="text-sm align-top">
+                          <label className="flex items-start gap-2">
+                            <input
+                              type="radio"
+                              name={`conflict-${field.key}`}
+                              aria-label={`Use ${field.label.toLowerCase()} from ${label.toLowerCase()}`}
+                              checked={(choices[field.key] ?? 'local') === side}
+                              onChange={() => setChoices(current => ({ ...current, [field.key]: side }))}
+                            />
+                            <span className="min-w-0 break-words">
+                              {value || <span className="text-muted-foreground">—</span>}
+                            </span>
+                          </label>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onResolveLater} disabled={isSaving}>
+            Decide later
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save merged version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default MergeConflictDialog;
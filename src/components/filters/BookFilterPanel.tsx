@@ -0,0 +1,321 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { CircleSlash, Filter, X } from 'lucide-react';
+import { BOOK_FORMATS, BOOK_FORMAT_LABELS } from '@/utils/bookCopies';
+import {
+  BookFilters,
+  BookSort,
+  BookSortField,
+  BookStatus,
+  countActiveBookFilters
+} from '@/utils/bookFilters';
+
+const STATUS_OPTIONS: { value: BookStatus; label: string }[] = [
+  { value: 'reading', label: 'Reading' },
+  { value: 'want-to-read', label: 'Want to Read' },
+  { value: 'completed', label: 'Read' },
+  { value: 'on-hold', label: 'On Hold' },
+  { value: 'dnf', label: 'Did Not Finish' },
+];
+
+const SORT_OPTIONS: { value: string; label: string; sort: BookSort }[] = [
+  { value: 'addedDate-desc', label: 'Recently added', sort: { field: 'addedDate', order: 'desc' } },
+  { value: 'addedDate-asc', label: 'Oldest added', sort: { field: 'addedDate', order: 'asc' } },
+  { value: 'title-asc', label: 'Title A–Z', sort: { field: 'title', order: 'asc' } },
+  { value: 'author-asc', label: 'Author A–Z', sort: { field: 'author', order: 'asc' } },
+  { value: 'rating-desc', label: 'Highest rated', sort: { field: 'rating', order: 'desc' } },
+  { value: 'completedDate-desc', label: 'Recently finished', sort: { field: 'completedDate', order: 'desc' } },
+];
+
+const RATINGS = [1, 2, 3, 4, 5];
+const ANY = 'any';
+
+interface NamedOption {
+  id: string;
+  name: string;
+}
+
+interface BookFilterPanelProps {
+  filters: BookFilters;
+  onFiltersChange: (filters: BookFilters) => void;
+  sort: BookSort;
+  onSortChange: (sort: BookSort) => void;
+  genres: string[];
+  tags: string[];
+  series: NamedOption[];
+  collections: NamedOption[];
+}
+
+const sortKey = (field: BookSortField, order: BookSort['order']) => `${field}-${order}`;
+
+/**
+ * Filter and sort controls for the library views
+ */
+export const BookFilterPanel = ({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  genres,
+  tags,
+  series,
+  collections,
+}: BookFilterPanelProps) => {
+  const activeFilterCount = countActiveBookFilters(filters);
+
+  const update = (changes: Partial<BookFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const toggle = <T,>(values: T[] | undefined, value: T): T[] =>
+    values?.includes(value) ? values.filter(current => current !== value) : [...(values || []), value];
+
+  const parseRating = (value: string) => (value === ANY ? undefined : Number(value));
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={sortKey(sort.field, sort.order)}
+        onValueChange={value => {
+          const option = SORT_OPTIONS.find(candidate => candidate.value === value);
+          if (option) onSortChange(option.sort);
+        }}
+      >
+        <SelectTrigger className="h-9 w-[170px]" aria-label="Sort books">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant={activeFilterCount > 0 ? 'default' : 'outline'} size="sm" className="h-9">
+            <Filter className="h-4 w-4 mr-1" />
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 max-h-[70vh] overflow-y-auto space-y-4">
+          {activeFilterCount > 0 && (
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={() => onFiltersChange({})} className="text-xs h-8">
+                <CircleSlash className="h-3.5 w-3.5 mr-1" />
+                Clear all filters
+              </Button>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Status</Label>
+            <div className="flex flex-wrap gap-2">
+              {STATUS_OPTIONS.map(option => {
+                const selected = filters.statuses?.includes(option.value);
+                return (
+                  <Badge
+                    key={option.value}
+                    variant={selected ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => update({ statuses: toggle(filters.statuses, option.value) })}
+                  >
+                    {option.label}
+                    {selected && <X className="h-3 w-3 ml-1" />}
+                  </Badge>
+                );
+              })}
+            </div>
+          </div>
+
+          <Separator />
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Format</Label>
+            <div className="flex flex-wrap gap-2">
+              {BOOK_FORMATS.map(format => {
+                const selected = filters.formats?.includes(format);
+                return (
+                  <Badge
+                    key={format}
+                    variant={selected ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => update({ formats: toggle(filters.formats, format) })}
+                  >
+                    {BOOK_FORMAT_LABELS[format]}
+                    {selected && <X className="h-3 w-3 ml-1" />}
+                  </Badge>
+                );
+              })}
+            </div>
+          </div>
+
+          <Separator />
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Genre</Label>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {genres.map(genre => {
+                const selected = filters.genres?.includes(genre);
+                return (
+                  <Badge
+                    key={genre}
+                    variant={selected ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => update({ genres: toggle(filters.genres, genre) })}
+                  >
+                    {genre}
+                    {selected && <X className="h-3 w-3 ml-1" />}
+                  </Badge>
+                );
+              })}
+              {genres.length === 0 && (
+                <span className="text-sm text-muted-foreground">No genres available</span>
+              )}
+            </div>
+          </div>
+
+          <Separator />
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Tags</Label>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {tags.map(tag => {
+                const selected = filters.tags?.includes(tag);
+                return (
+                  <Badge
+                    key={tag}
+                    variant={selected ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => update({ tags: toggle(filters.tags, tag) })}
+                  >
+                    {tag}
+                    {selected && <X className="h-3 w-3 ml-1" />}
+                  </Badge>
+                );
+              })}
+              {tags.length === 0 && (
+                <span className="text-sm text-muted-foreground">No tags yet</span>
+              )}
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="book-filter-author" className="text-sm font-medium">Author</Label>
+            <Input
+              id="book-filter-author"
+              value={filters.author || ''}
+              onChange={event => update({ author: event.target.value || undefined })}
+              placeholder="Any author"
+              className="h-9"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Series</Label>
+              <Select
+                value={filters.seriesId || ANY}
+                onValueChange={value => update({ seriesId: value === ANY ? undefined : value })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any series</SelectItem>
+                  {series.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Collection</Label>
+              <Select
+                value={filters.collectionId || ANY}
+                onValueChange={value => update({ collectionId: value === ANY ? undefined : value })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any collection</SelectItem>
+                  {collections.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Rating</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['minRating', 'maxRating'] as const).map(key => (
+                <Select
+                  key={key}
+                  value={filters[key] !== undefined ? String(filters[key]) : ANY}
+                  onValueChange={value => update({ [key]: parseRating(value) })}
+                >
+                  <SelectTrigger className="h-9" aria-label={key === 'minRating' ? 'Lowest rating' : 'Highest rating'}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>{key === 'minRating' ? 'From any' : 'To any'}</SelectItem>
+                    {RATINGS.map(rating => (
+                      <SelectItem key={rating} value={String(rating)}>
+                        {key === 'minRating' ? 'From' : 'To'} {rating} ★
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+          </div>
+
+          {([
+            { label: 'Added', from: 'addedFrom', to: 'addedTo' },
+            { label: 'Finished', from: 'completedFrom', to: 'completedTo' },
+          ] as const).map(range => (
+            <div key={range.label} className="space-y-2">
+              <Label className="text-sm font-medium">{range.label}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  aria-label={`${range.label} from`}
+                  value={filters[range.from] || ''}
+                  onChange={event => update({ [range.from]: event.target.value || undefined })}
+                  className="h-9"
+                />
+                <Input
+                  type="date"
+                  aria-label={`${range.label} to`}
+                  value={filters[range.to] || ''}
+                  onChange={event => update({ [range.to]: event.target.value || undefined })}
+                  className="h-9"
+                />
+              </div>
+            </div>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default BookFilterPanel;
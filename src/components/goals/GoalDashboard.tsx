@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { CheckCircle2, ChevronDown, ChevronUp, Plus, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Book } from '@/types/book';
+import { ReadingGoal, ReadingGoalPeriod, ReadingGoalType } from '@/types/user-settings';
+import {
+  GoalProgress,
+  describeGoalPace,
+  getCurrentGoalProgress,
+  getGoalDisplayName,
+  getGoalHistory,
+  getGoalUnitLabel,
+} from '@/utils/goalUtils';
+
+interface GoalDashboardProps {
+  books: Book[];
+  goals: ReadingGoal[];
+  onChange: (goals: ReadingGoal[]) => void;
+  disabled?: boolean;
+}
+
+interface GoalFormState {
+  name: string;
+  type: ReadingGoalType;
+  period: ReadingGoalPeriod;
+  target: string;
+  startDate: string;
+  endDate: string;
+}
+
+const EMPTY_FORM: GoalFormState = {
+  name: '',
+  type: 'books',
+  period: 'yearly',
+  target: '12',
+  startDate: '',
+  endDate: '',
+};
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const STATUS_CLASS_NAMES: Record<GoalProgress['status'], string> = {
+  upcoming: 'text-muted-foreground',
+  behind: 'text-destructive',
+  'on-track': 'text-primary',
+  ahead: 'text-emerald-600',
+  met: 'text-amber-500',
+  missed: 'text-destructive',
+};
+
+const GoalCard: React.FC<{
+  goal: ReadingGoal;
+  books: Book[];
+  onDelete: () => void;
+  disabled?: boolean;
+}> = ({ goal, books, onDelete, disabled }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const progress = useMemo(() => getCurrentGoalProgress(goal, books), [goal, books]);
+  const history = useMemo(() => getGoalHistory(goal, books), [goal, books]);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">{getGoalDisplayName(goal)}</p>
+          <p className="text-xs text-muted-foreground">{progress.period.label}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={onDelete}
+          disabled={disabled}
+          aria-label={`Delete goal ${getGoalDisplayName(goal)}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Progress
+        value={progress.percent}
+        className={`h-2 ${progress.status === 'met' ? '[&>div]:bg-gradient-to-r [&>div]:from-amber-400 [&>div]:to-amber-500' : ''}`}
+      />
+
+      <div className="flex items-center justify-between text-xs">
+        <span>
+          <span className="font-medium">{progress.current}</span>
+          <span className="text-muted-foreground"> of {progress.target} {getGoalUnitLabel(goal.type, progress.target)}</span>
+        </span>
+        <span className={STATUS_CLASS_NAMES[progress.status]}>{describeGoalPace(progress)}</span>
+      </div>
+
+      {history.length > 0 && (
+        <div>
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setShowHistory(!showHistory)}
+            aria-expanded={showHistory}
+          >
+            {showHistory ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            Past periods
+          </button>
+          {showHistory && (
+            <ul className="mt-2 divide-y rounded-md border text-xs">
+              {history.map(entry => (
+                <li key={entry.period.label} className="flex items-center justify-between gap-2 px-2 py-1.5">
+                  <span>{entry.period.label}</span>
+                  <span className="flex items-center gap-1">
+                    {entry.current} / {entry.target}
+                    {entry.status === 'met' ? (
+                      <CheckCircle2 className="h-3.5 w-3.5 text-amber-500" aria-label="Goal met" />
+                    ) : (
+                      <XCircle className="h-3.5 w-3.5 text-muted-foreground" aria-label="Goal not met" />
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Dashboard of the reader's yearly, page, genre and custom-range goals with
+ * current pace and a history of past periods
+ */
+export const GoalDashboard: React.FC<GoalDashboardProps> = ({ books, goals, onChange, disabled }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<GoalFormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const target = parseInt(form.target);
+
+    if (isNaN(target) || target < 1) {
+      setFormError('Target must be a whole number of at least 1.');
+      return;
+    }
+
+    if (form.period === 'custom') {
+      if (!form.startDate || !form.endDate) {
+        setFormError('Choose a start and end date for a custom goal.');
+        return;
+      }
+
+      if (form.endDate < form.startDate) {
+        setFormError('End date must not be before the start date.');
+        return;
+      }
+    }
+
+    onChange([
+      ...goals,
+      {
+        id: `goal-${uuidv4()}`,
+        name: form.name.trim() || undefined,
+        type: form.type,
+        period: form.period,
+        target,
+        startDate: form.period === 'custom' ? form.startDate : undefined,
+        endDate: form.period === 'custom' ? form.endDate : undefined,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {goals.length === 0 && !isAdding && (
+        <p className="text-sm text-muted-foreground">
+          No goals yet. Add a yearly, page-count, genre or custom-range goal.
+        </p>
+      )}
+
+      <div className="grid gap-3">
+        {goals.map(goal => (
+          <GoalCard
+            key={goal.id}
+            goal={goal}
+            books={books}
+            disabled={disabled}
+            onDelete={() => onChange(goals.filter(existing => existing.id !== goal.id))}
+          />
+        ))}
+      </div>
+
+      {isAdding ? (
+        <div className="rounded-lg border p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="goal-type">Measure</Label>
+              <select
+                id="goal-type"
+                className={SELECT_CLASS_NAME}
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as ReadingGoalType })}
+              >
+                <option value="books">Books read</option>
+                <option value="pages">Pages read</option>
+                <option value="genres">Different genres</option>
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="goal-period">Period</Label>
+              <select
+                id="goal-period"
+                className={SELECT_CLASS_NAME}
+                value={form.period}
+                onChange={(e) => setForm({ ...form, period: e.target.value as ReadingGoalPeriod })}
+              >
+                <option value="yearly">Every year</option>
+                <option value="monthly">Every month</option>
+                <option value="custom">Custom dates</option>
+              </select>
+            </div>
+          </div>
+
+          {form.period === 'custom' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1.5">
+                <Label htmlFor="goal-start-date">Start</Label>
+                <Input
+                  id="goal-start-date"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="goal-end-date">End</Label>
+                <Input
+                  id="goal-end-date"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="goal-target">Target</Label>
+              <Input
+                id="goal-target"
+                type="number"
+                min="1"
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="goal-name">Name (optional)</Label>
+              <Input
+                id="goal-name"
+                placeholder="Summer reading"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {formError && (
+            <div className="text-destructive text-sm" role="alert">{formError}</div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAdd}>Add goal</Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsAdding(true)} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" /> Add goal
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GoalDashboard;
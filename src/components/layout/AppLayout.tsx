@@ -55,6 +55,18 @@ export function AppLayout({
       : "My Collections";
     subtitle = "Create custom collections of your favorite books";
     currentAddButtonLabel = "Add Collection";
+  } else if (location.pathname.startsWith('/tags')) {
+    title = preferredName
+      ? `${preferredName}'s Tags`
+      : "My Tags";
+    subtitle = "Label your books your own way";
+    currentAddButtonLabel = undefined; // Tags are added from a book's details
+  } else if (location.pathname.startsWith('/loans')) {
+    title = preferredName
+      ? `${preferredName}'s Loans`
+      : "My Loans";
+    subtitle = "Keep track of the books you lend and borrow";
+    currentAddButtonLabel = "New Loan";
   } else if (location.pathname.startsWith('/insights')) {
     title = preferredName
       ? `${preferredName}'s Reading Insights`
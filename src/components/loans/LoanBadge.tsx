@@ -0,0 +1,56 @@
+import React from 'react';
+import { Handshake } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useLoans } from '@/contexts/loans-context';
+import { cn } from '@/lib/utils';
+import { describeLoan, isLoanOverdue } from '@/utils/loanUtils';
+
+interface LoanBadgeProps {
+  bookId: string;
+  /** Icon only, for spines too narrow for a label */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Marks a book that is out on loan, in red once the loan is overdue
+ */
+export const LoanBadge = ({ bookId, compact = false, className }: LoanBadgeProps) => {
+  const { getActiveLoan } = useLoans();
+  const loan = getActiveLoan(bookId);
+
+  if (!loan) return null;
+
+  const overdue = isLoanOverdue(loan);
+  const label = overdue ? 'Overdue' : loan.direction === 'lent' ? 'On loan' : 'Borrowed';
+  const description = `${describeLoan(loan)}${loan.dueDate ? `, due ${new Date(loan.dueDate).toLocaleDateString()}` : ''}`;
+
+  if (compact) {
+    return (
+      <span
+        className={cn(
+          'flex h-5 w-5 items-center justify-center rounded-full shadow-sm',
+          overdue ? 'bg-destructive text-destructive-foreground' : 'bg-background/90 text-foreground',
+          className
+        )}
+        title={description}
+        aria-label={`${label}: ${description}`}
+      >
+        <Handshake className="h-3 w-3" />
+      </span>
+    );
+  }
+
+  return (
+    <Badge
+      variant={overdue ? 'destructive' : 'secondary'}
+      className={cn('gap-1 text-[10px] py-0', className)}
+      title={description}
+    >
+      <Handshake className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+};
+
+export default LoanBadge;
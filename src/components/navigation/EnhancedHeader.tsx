@@ -7,6 +7,7 @@ import { ViewMode } from '@/components/ViewToggle';
 import { Button } from '@/components/ui/button';
 import { PlusCircle, Settings, Search, PenLine } from 'lucide-react';
 import { NotificationBell } from '@/components/notifications/NotificationBell';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -45,11 +46,15 @@ export function EnhancedHeader({
   const [activeTab, setActiveTab] = useState('all');
   
   // Determine current section based on route
-  let currentSection: 'library' | 'series' | 'collections' | 'insights' = 'library';
+  let currentSection: 'library' | 'series' | 'collections' | 'tags' | 'loans' | 'insights' = 'library';
   if (location.pathname.startsWith('/series')) {
     currentSection = 'series';
   } else if (location.pathname.startsWith('/collections')) {
     currentSection = 'collections';
+  } else if (location.pathname.startsWith('/tags')) {
+    currentSection = 'tags';
+  } else if (location.pathname.startsWith('/loans')) {
+    currentSection = 'loans';
   } else if (location.pathname.startsWith('/insights')) {
     currentSection = 'insights';
   }
@@ -88,6 +93,7 @@ export function EnhancedHeader({
                 </Button>
               )
             )}
+            <SyncStatusIndicator />
             {showNotifications && (
               <NotificationBell />
             )}
@@ -1,6 +1,6 @@
 import { useLocation, useNavigate } from 'react-router-dom';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Library, LibrarySquare, FolderOpen, BarChart } from 'lucide-react';
+import { Library, LibrarySquare, FolderOpen, Tags, Handshake, BarChart } from 'lucide-react';
 
 interface PrimaryNavigationProps {
   currentPath: string;
@@ -13,6 +13,8 @@ export function PrimaryNavigation({ currentPath }: PrimaryNavigationProps) {
   const getActiveTab = (path: string): string => {
     if (path.startsWith('/series')) return '/series';
     if (path.startsWith('/collections')) return '/collections';
+    if (path.startsWith('/tags')) return '/tags';
+    if (path.startsWith('/loans')) return '/loans';
     if (path.startsWith('/insights')) return '/insights';
     return '/'; // Default to library
   };
@@ -21,7 +23,7 @@ export function PrimaryNavigation({ currentPath }: PrimaryNavigationProps) {
   
   return (
     <Tabs value={activeTab} className="w-full">
-      <TabsList className="grid grid-cols-4">
+      <TabsList className="grid grid-cols-6">
         <TabsTrigger 
           value="/" 
           onClick={() => navigate('/')}
@@ -46,6 +48,22 @@ export function PrimaryNavigation({ currentPath }: PrimaryNavigationProps) {
           <FolderOpen className="h-4 w-4" />
           <span className="hidden sm:inline">Collections</span>
         </TabsTrigger>
+        <TabsTrigger 
+          value="/tags" 
+          onClick={() => navigate('/tags')}
+          className="flex items-center gap-2"
+        >
+          <Tags className="h-4 w-4" />
+          <span className="hidden sm:inline">Tags</span>
+        </TabsTrigger>
+        <TabsTrigger 
+          value="/loans" 
+          onClick={() => navigate('/loans')}
+          className="flex items-center gap-2"
+        >
+          <Handshake className="h-4 w-4" />
+          <span className="hidden sm:inline">Loans</span>
+        </TabsTrigger>
         <TabsTrigger 
           value="/insights" 
           onClick={() => navigate('/insights')}
@@ -2,7 +2,7 @@ import { ViewToggle, ViewMode } from '@/components/ViewToggle';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 interface SecondaryNavigationProps {
-  section: 'library' | 'series' | 'collections' | 'insights';
+  section: 'library' | 'series' | 'collections' | 'tags' | 'loans' | 'insights';
   viewMode?: ViewMode;
   onViewModeChange?: (mode: ViewMode) => void;
   activeTab?: string;
@@ -31,6 +31,16 @@ export function SecondaryNavigation({
     return null;
   }
   
+  // Tags section - no secondary navigation
+  if (section === 'tags') {
+    return null;
+  }
+  
+  // Loans section - no secondary navigation
+  if (section === 'loans') {
+    return null;
+  }
+  
   // Insights section - no secondary navigation
   if (section === 'insights') {
     return null;
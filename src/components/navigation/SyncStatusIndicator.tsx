@@ -0,0 +1,95 @@
+import { useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { useSyncStatus } from '@/hooks/useSync';
+import { syncService } from '@/services/sync/SyncService';
+import { cn } from '@/lib/utils';
+
+const ENTITY_LABELS = {
+  books: 'book',
+  series: 'series',
+  collections: 'collection',
+} as const;
+
+/**
+ * Header button showing whether the signed-in library is in sync with the
+ * server. Clicking it syncs now. Conflicting edits are announced here, since
+ * they surface in the background after the editor may have closed.
+ */
+export const SyncStatusIndicator = () => {
+  const { isAuthenticated } = useAuth();
+  const status = useSyncStatus();
+
+  useEffect(() => {
+    return syncService.subscribe(event => {
+      if (event.type !== 'conflict') return;
+
+      const { local } = event.conflict;
+      const name = local.title ?? local.name;
+      toast({
+        title: 'Changes need merging',
+        description: `Your change to the ${ENTITY_LABELS[event.conflict.entity]}${name ? ` "${String(name)}"` : ''} clashed with one made on another device or tab. Open it to choose what to keep.`,
+      });
+    });
+  }, []);
+
+  if (!isAuthenticated) return null;
+
+  const pending = status.pendingCount > 0
+    ? `${status.pendingCount} ${status.pendingCount === 1 ? 'change' : 'changes'} waiting to sync`
+    : 'All changes synced';
+  const conflicts = status.conflictCount > 0
+    ? ` ${status.conflictCount} ${status.conflictCount === 1 ? 'change conflicts' : 'changes conflict'} with edits made elsewhere; open the item to merge.`
+    : '';
+  const lastSynced = status.lastSyncedAt
+    ? `Last synced ${formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true })}`
+    : 'Not synced yet';
+
+  let icon = <Cloud className="h-5 w-5" />;
+  let label = status.pendingCount > 0 ? 'Pending' : 'Synced';
+  let details = `${pending}. ${lastSynced}.${conflicts}`;
+
+  if (status.state === 'syncing') {
+    icon = <RefreshCw className="h-5 w-5 animate-spin" />;
+    label = 'Syncing';
+  } else if (status.state === 'offline') {
+    icon = <CloudOff className="h-5 w-5" />;
+    label = 'Offline';
+    details = `Offline. ${pending}; they will sync when you reconnect.`;
+  } else if (status.state === 'error') {
+    icon = <AlertTriangle className="h-5 w-5 text-destructive" />;
+    label = 'Sync error';
+    details = `Sync failed: ${status.lastError || 'unknown error'}. ${pending}. Click to retry.${conflicts}`;
+  } else if (status.conflictCount > 0) {
+    icon = <AlertTriangle className="h-5 w-5 text-amber-500" />;
+    label = 'Conflicts';
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="relative inline-flex items-center gap-2 rounded-md px-3"
+      onClick={() => void syncService.sync()}
+      disabled={status.state === 'syncing'}
+      title={details}
+      aria-label={`${label}. ${details}`}
+    >
+      {icon}
+      <span className="hidden md:inline">{label}</span>
+      {status.pendingCount > 0 && (
+        <span
+          className={cn(
+            'absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-medium',
+            status.state === 'error' ? 'bg-destructive text-destructive-foreground' : 'bg-muted text-muted-foreground'
+          )}
+        >
+          {status.pendingCount > 99 ? '99+' : status.pendingCount}
+        </span>
+      )}
+    </Button>
+  );
+};
@@ -4,7 +4,7 @@ import { Notification } from '@/types/notification';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CalendarClock, X, Check, BookOpen } from 'lucide-react';
+import { AlarmClock, CalendarClock, X, Check, BookOpen, Handshake } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface NotificationCardProps {
@@ -101,7 +101,11 @@ export const NotificationCard = ({
         <div className="flex items-start gap-3">
           <div className="flex-shrink-0 mt-1">
             <span className="flex h-8 w-8 items-center justify-center rounded-full bg-accent/15 text-accent">
-              <CalendarClock className="h-4 w-4" />
+              {notification.type === 'loan' ? (
+                <AlarmClock className="h-4 w-4" />
+              ) : (
+                <CalendarClock className="h-4 w-4" />
+              )}
             </span>
           </div>
           
@@ -152,6 +156,11 @@ export const NotificationCard = ({
                   {notification.actionUrl && 'Available now'}
                 </Badge>
               )}
+              {notification.type === 'loan' && (
+                <Badge variant="destructive" className="whitespace-nowrap text-xs">
+                  Overdue
+                </Badge>
+              )}
               <span className="text-xs text-muted-foreground">
                 {timeAgo(notification.createdAt)}
               </span>
@@ -167,7 +176,17 @@ export const NotificationCard = ({
                 </Button>
               </div>
             )}
-            {notification.actionUrl && !notification.seriesId && (
+            {notification.type === 'loan' && (
+              <div className="mt-3">
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={notification.actionUrl || '/loans'} className="flex items-center gap-1">
+                    <Handshake className="h-3.5 w-3.5" />
+                    View Loans
+                  </Link>
+                </Button>
+              </div>
+            )}
+            {notification.actionUrl && !notification.seriesId && notification.type !== 'loan' && (
               <div className="mt-3">
                 <Button variant="outline" size="sm" asChild>
                   <a href={notification.actionUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1">
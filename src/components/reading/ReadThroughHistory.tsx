@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Book, ReadThrough } from '@/types/book';
+
+interface ReadThroughHistoryProps {
+  book: Book;
+  onChange: (updates: Partial<Book>) => void;
+}
+
+interface ReadThroughFormState {
+  startedDate: string;
+  finishedDate: string;
+  rating: string;
+  notes: string;
+  dnf: boolean;
+}
+
+const EMPTY_FORM: ReadThroughFormState = {
+  startedDate: '',
+  finishedDate: '',
+  rating: '',
+  notes: '',
+  dnf: false,
+};
+
+const toIsoDate = (value: string): string | undefined =>
+  value ? new Date(`${value}T12:00:00`).toISOString() : undefined;
+
+const formatReadDate = (value?: string): string =>
+  value ? format(new Date(value), 'MMM d, yyyy') : '?';
+
+const sortNewestFirst = (readThroughs: ReadThrough[]): ReadThrough[] =>
+  [...readThroughs].sort((a, b) => {
+    const aTime = new Date(a.finishedDate || a.startedDate || 0).getTime();
+    const bTime = new Date(b.finishedDate || b.startedDate || 0).getTime();
+    return bTime - aTime;
+  });
+
+/**
+ * Read-through history for a single book. Changes are passed up through
+ * onChange and persisted when the book details are saved.
+ */
+export const ReadThroughHistory: React.FC<ReadThroughHistoryProps> = ({ book, onChange }) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState<ReadThroughFormState>(EMPTY_FORM);
+
+  const readThroughs = book.readThroughs || [];
+  const canStartReread = book.status === 'completed' && Boolean(book.completedDate);
+
+  // Move the current finished read into the history and start reading again
+  const handleStartReread = () => {
+    if (!book.completedDate) return;
+
+    const alreadyRecorded = readThroughs.some(
+      readThrough => readThrough.finishedDate === book.completedDate
+    );
+    const archived: ReadThrough[] = alreadyRecorded
+      ? readThroughs
+      : [
+          ...readThroughs,
+          {
+            id: `read-${uuidv4()}`,
+            finishedDate: book.completedDate,
+            rating: book.rating,
+          },
+        ];
+
+    onChange({
+      readThroughs: archived,
+      status: 'reading',
+      completedDate: undefined,
+      progress: 0,
+    });
+  };
+
+  const openDialog = () => {
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdd = () => {
+    const rating = form.rating ? Number(form.rating) : undefined;
+
+    if (rating !== undefined && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+      setFormError('Rating must be a whole number between 1 and 5.');
+      return;
+    }
+
+    if (!form.startedDate && !form.finishedDate) {
+      setFormError('Enter at least a start or finish date.');
+      return;
+    }
+
+    if (form.startedDate && form.finishedDate && form.finishedDate < form.startedDate) {
+      setFormError('Finish date must not be before the start date.');
+      return;
+    }
+
+    onChange({
+      readThroughs: [
+        ...readThroughs,
+        {
+          id: `read-${uuidv4()}`,
+          startedDate: toIsoDate(form.startedDate),
+          finishedDate: toIsoDate(form.finishedDate),
+          rating,
+          notes: form.notes.trim() || undefined,
+          dnf: form.dnf || undefined,
+        },
+      ],
+    });
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange({ readThroughs: readThroughs.filter(readThrough => readThrough.id !== id) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          {readThroughs.length === 0
+            ? 'No earlier reads recorded.'
+            : `${readThroughs.length} read-through${readThroughs.length !== 1 ? 's' : ''} recorded`}
+        </div>
+        <div className="flex gap-2">
+          {canStartReread && (
+            <Button size="sm" variant="outline" onClick={handleStartReread}>
+              <RotateCcw className="h-4 w-4 mr-1" /> Start re-read
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={openDialog}>
+            <Plus className="h-4 w-4 mr-1" /> Add read
+          </Button>
+        </div>
+      </div>
+
+      {readThroughs.length > 0 && (
+        <ul className="divide-y rounded-md border bg-background text-sm">
+          {sortNewestFirst(readThroughs).map(readThrough => (
+            <li key={readThrough.id} className="flex items-start justify-between gap-2 p-2">
+              <div>
+                <div className="font-medium">
+                  {formatReadDate(readThrough.startedDate)} – {formatReadDate(readThrough.finishedDate)}
+                  {readThrough.dnf && <span className="ml-2 text-muted-foreground">(Did not finish)</span>}
+                </div>
+                {readThrough.rating !== undefined && (
+                  <div className="text-accent-warm" aria-label={`${readThrough.rating} stars`}>
+                    {'★'.repeat(readThrough.rating)}
+                  </div>
+                )}
+                {readThrough.notes && <div className="mt-1 whitespace-pre-line">{readThrough.notes}</div>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => handleDelete(readThrough.id)}
+                aria-label="Delete read-through"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add read-through</DialogTitle>
+            <DialogDescription>
+              Record an earlier read of this book. Finished reads count towards the year they ended.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="read-started-date">Started</Label>
+                <Input
+                  id="read-started-date"
+                  type="date"
+                  value={form.startedDate}
+                  onChange={(e) => setForm({ ...form, startedDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="read-finished-date">Finished</Label>
+                <Input
+                  id="read-finished-date"
+                  type="date"
+                  value={form.finishedDate}
+                  onChange={(e) => setForm({ ...form, finishedDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div>
+                <Label htmlFor="read-rating">Rating</Label>
+                <Input
+                  id="read-rating"
+                  type="number"
+                  min="1"
+                  max="5"
+                  value={form.rating}
+                  onChange={(e) => setForm({ ...form, rating: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="read-dnf"
+                  checked={form.dnf}
+                  onCheckedChange={(checked) => setForm({ ...form, dnf: checked === true })}
+                />
+                <Label htmlFor="read-dnf">Did not finish</Label>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="read-notes">Notes</Label>
+              <Textarea
+                id="read-notes"
+                placeholder="Optional thoughts on this read..."
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            {formError && (
+              <div className="text-destructive text-sm" role="alert">{formError}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd}>Add read</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReadThroughHistory;
@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Clock, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Book } from '@/types/book';
+import { ReadingSession } from '@/types/reading-session';
+import { readingSessionRepository } from '@/repositories/ReadingSessionRepository';
+import {
+  deriveProgressFromSessions,
+  getLatestSessionWithEndPage,
+  getSessionPageCount,
+  summarizeReadingSessions,
+} from '@/utils/readingSessionUtils';
+
+interface ReadingSessionLogProps {
+  book: Book;
+  onProgressChange?: (progress: number | undefined) => void;
+}
+
+interface SessionFormState {
+  date: string;
+  startPage: string;
+  endPage: string;
+  minutes: string;
+  notes: string;
+}
+
+const todayInputValue = (): string => format(new Date(), 'yyyy-MM-dd');
+
+const parseOptionalWholeNumber = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : NaN;
+};
+
+/**
+ * Reading log for a single book: lists past sessions and lets the reader
+ * record a new one. Book progress is derived from the latest session.
+ */
+export const ReadingSessionLog: React.FC<ReadingSessionLogProps> = ({ book, onProgressChange }) => {
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [form, setForm] = useState<SessionFormState>({
+    date: todayInputValue(),
+    startPage: '',
+    endPage: '',
+    minutes: '',
+    notes: '',
+  });
+  const { toast } = useToast();
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await readingSessionRepository.getByBookId(book.id));
+    } catch (error) {
+      console.error('Error loading reading sessions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load reading sessions',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [book.id, toast]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const openDialog = () => {
+    // Start the next session where the last one stopped
+    const latestSession = getLatestSessionWithEndPage(sessions);
+    setForm({
+      date: todayInputValue(),
+      startPage: latestSession?.endPage !== undefined ? String(latestSession.endPage) : '',
+      endPage: '',
+      minutes: '',
+      notes: '',
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const startPage = parseOptionalWholeNumber(form.startPage);
+    const endPage = parseOptionalWholeNumber(form.endPage);
+    const minutes = parseOptionalWholeNumber(form.minutes);
+
+    if ([startPage, endPage, minutes].some(value => Number.isNaN(value))) {
+      setFormError('Pages and minutes must be positive whole numbers.');
+      return;
+    }
+
+    if (startPage !== undefined && endPage !== undefined && endPage < startPage) {
+      setFormError('End page must not be before the start page.');
+      return;
+    }
+
+    if (endPage !== undefined && book.pageCount && endPage > book.pageCount) {
+      setFormError(`End page cannot be past the last page (${book.pageCount}).`);
+      return;
+    }
+
+    if (!form.date) {
+      setFormError('Session date is required.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await readingSessionRepository.create({
+        bookId: book.id,
+        date: new Date(`${form.date}T12:00:00`).toISOString(),
+        startPage,
+        endPage,
+        minutes,
+        notes: form.notes.trim() || undefined,
+      });
+
+      const nextSessions = await readingSessionRepository.getByBookId(book.id);
+      setSessions(nextSessions);
+      onProgressChange?.(deriveProgressFromSessions(nextSessions, book.pageCount));
+      setIsDialogOpen(false);
+
+      toast({
+        title: 'Session Logged',
+        description: 'Your reading session has been saved.'
+      });
+    } catch (error) {
+      console.error('Error logging reading session:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to log reading session',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (session: ReadingSession) => {
+    try {
+      await readingSessionRepository.delete(session);
+      const nextSessions = sessions.filter(existing => existing.id !== session.id);
+      setSessions(nextSessions);
+      onProgressChange?.(deriveProgressFromSessions(nextSessions, book.pageCount));
+    } catch (error) {
+      console.error('Error deleting reading session:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete reading session',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const progress = deriveProgressFromSessions(sessions, book.pageCount);
+  const summary = summarizeReadingSessions(sessions);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          {summary.sessionCount === 0
+            ? 'No sessions logged yet.'
+            : `${summary.sessionCount} session${summary.sessionCount !== 1 ? 's' : ''} · ${summary.totalPages} pages · ${summary.totalMinutes} min`}
+        </div>
+        <Button size="sm" variant="outline" onClick={openDialog} disabled={isLoading}>
+          <Plus className="h-4 w-4 mr-1" /> Log session
+        </Button>
+      </div>
+
+      {progress !== undefined && (
+        <div className="space-y-1">
+          <Progress value={progress * 100} className="h-2" aria-label="Reading progress" />
+          <div className="text-xs text-muted-foreground">
+            {Math.round(progress * 100)}% read, based on your latest session
+          </div>
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <ul className="divide-y rounded-md border bg-background text-sm">
+          {sessions.map(session => (
+            <li key={session.id} className="flex items-start justify-between gap-2 p-2">
+              <div>
+                <div className="font-medium">{format(new Date(session.date), 'MMM d, yyyy')}</div>
+                <div className="text-muted-foreground flex flex-wrap items-center gap-x-3">
+                  {session.startPage !== undefined || session.endPage !== undefined ? (
+                    <span>
+                      Pages {session.startPage ?? '?'}–{session.endPage ?? '?'}
+                      {getSessionPageCount(session) > 0 && ` (${getSessionPageCount(session)})`}
+                    </span>
+                  ) : null}
+                  {session.minutes !== undefined && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" aria-hidden="true" /> {session.minutes} min
+                    </span>
+                  )}
+                </div>
+                {session.notes && <div className="mt-1 whitespace-pre-line">{session.notes}</div>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => handleDelete(session)}
+                aria-label="Delete reading session"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Log reading session</DialogTitle>
+            <DialogDescription>
+              Record where you started and stopped. Progress is updated from your latest session.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="session-start-page">Start page</Label>
+                <Input
+                  id="session-start-page"
+                  type="number"
+                  min="0"
+                  value={form.startPage}
+                  onChange={(e) => setForm({ ...form, startPage: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="session-end-page">End page</Label>
+                <Input
+                  id="session-end-page"
+                  type="number"
+                  min="0"
+                  max={book.pageCount || undefined}
+                  value={form.endPage}
+                  onChange={(e) => setForm({ ...form, endPage: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="session-minutes">Minutes</Label>
+                <Input
+                  id="session-minutes"
+                  type="number"
+                  min="0"
+                  value={form.minutes}
+                  onChange={(e) => setForm({ ...form, minutes: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="session-date">Date</Label>
+                <Input
+                  id="session-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="session-notes">Notes</Label>
+              <Textarea
+                id="session-notes"
+                placeholder="Optional thoughts on this session..."
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            {formError && (
+              <div className="text-destructive text-sm" role="alert">{formError}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save session'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReadingSessionLog;
@@ -21,6 +21,10 @@ import { Loader2 } from "lucide-react";
 import { useToast } from '@/hooks/use-toast';
 import { Series } from '@/types/indexeddb/Series';
 import { seriesRepository } from '@/repositories/SeriesRepository';
+import { MergeConflictDialog } from '@/components/dialogs/MergeConflictDialog';
+import { useSyncConflict } from '@/hooks/useSync';
+import type { SeriesRecord } from '@/lib/apiClient';
+import { SERIES_CONFLICT_FIELDS } from '@/utils/syncConflicts';
 
 interface SeriesEditDialogProps {
   series: Series;
@@ -29,10 +33,22 @@ interface SeriesEditDialogProps {
   onSave: (updatedSeries: Series) => void;
 }
 
+/**
+ * Series fields from a server record in the shape this dialog edits
+ */
+const toDialogSeries = (record: Partial<SeriesRecord>): Partial<Series> => {
+  const { genre, createdAt, updatedAt, revision, ...fields } = record;
+  return {
+    ...(fields as Partial<Series>),
+    ...('genre' in record ? { categories: genre } : {}),
+  };
+};
+
 export function SeriesEditDialog({ series, isOpen, onClose, onSave }: SeriesEditDialogProps) {
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
   const [editedSeries, setEditedSeries] = useState<Series>({...series});
+  const { conflict, resolveLater, dismiss } = useSyncConflict<SeriesRecord>('series', series.id);
   
   // Update the form state when the series prop changes
   useEffect(() => {
@@ -87,7 +103,40 @@ export function SeriesEditDialog({ series, isOpen, onClose, onSave }: SeriesEdit
     }
   };
   
+  // Save the merge of a change that was refused because the series had been
+  // changed elsewhere; the local copy already holds the other version
+  const handleResolveConflict = async (changes: Partial<SeriesRecord>) => {
+    try {
+      if (Object.keys(changes).length > 0) {
+        // Conflict fields never include the record's dates
+        const { createdAt, updatedAt, ...seriesChanges } = changes;
+        await seriesRepository.update(series.id, seriesChanges);
+      }
+      await dismiss();
+
+      onSave({
+        ...series,
+        ...toDialogSeries(conflict?.server ?? {}),
+        ...toDialogSeries(changes),
+      });
+
+      toast({
+        title: "Changes merged",
+        description: `"${series.name}" now has the versions you picked`
+      });
+    } catch (error) {
+      console.error('Error merging series changes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the merged series",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
   return (
+    <>
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[525px]">
         <DialogHeader>
@@ -202,5 +251,14 @@ export function SeriesEditDialog({ series, isOpen, onClose, onSave }: SeriesEdit
         </DialogFooter>
       </DialogContent>
     </Dialog>
+
+    <MergeConflictDialog
+      conflict={conflict}
+      fields={SERIES_CONFLICT_FIELDS}
+      itemName={series.name}
+      onResolve={handleResolveConflict}
+      onResolveLater={resolveLater}
+    />
+    </>
   );
 }
@@ -9,6 +9,8 @@ import {
   clearStoredAuthSession,
   getStoredAuthToken,
   getStoredAuthUser,
+  getStoredRefreshToken,
+  setStoredAuthSession,
   setStoredAuthToken,
   setStoredAuthUser,
 } from "@/lib/auth-storage";
@@ -16,8 +18,12 @@ import {
   AuthContext,
   AuthContextValue,
   LoginInput,
+  LoginResult,
   RegisterInput,
+  SecondFactorInput,
 } from "@/contexts/auth-context";
+import { historyService } from "@/services/HistoryService";
+import { syncService } from "@/services/sync/SyncService";
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<AuthUser | null>(getStoredAuthUser());
@@ -53,15 +59,32 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     void bootstrapAuth();
   }, []);
 
-  const login = async (input: LoginInput) => {
+  // Undo history belongs to the library it was recorded against, and only a
+  // signed-in account has a library to sync
+  const userId = user?.id;
+  useEffect(() => {
+    historyService.clear();
+
+    if (!userId) return;
+
+    syncService.start();
+    return () => syncService.stop();
+  }, [userId]);
+
+  const login = async (input: LoginInput): Promise<LoginResult> => {
     setAuthError(null);
     setIsLoadingAuth(true);
 
     try {
-      const { token, user: authenticatedUser } = await authApi.login(input);
-      setStoredAuthToken(token);
-      setStoredAuthUser(authenticatedUser);
-      setUser(authenticatedUser);
+      const response = await authApi.login(input);
+
+      if ("twoFactorRequired" in response) {
+        return { twoFactorRequired: true, challengeToken: response.challengeToken };
+      }
+
+      setStoredAuthSession(response);
+      setUser(response.user);
+      return { twoFactorRequired: false };
     } catch (error) {
       clearStoredAuthSession();
       setUser(null);
@@ -74,15 +97,35 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const completeTwoFactorLogin = async (
+    input: SecondFactorInput & { challengeToken: string },
+  ) => {
+    setAuthError(null);
+    setIsLoadingAuth(true);
+
+    try {
+      const session = await authApi.loginTwoFactor(input);
+      setStoredAuthSession(session);
+      setUser(session.user);
+      return { recoveryCodesRemaining: session.recoveryCodesRemaining };
+    } catch (error) {
+      setAuthError(
+        error instanceof ApiClientError ? error.message : "Login failed.",
+      );
+      throw error;
+    } finally {
+      setIsLoadingAuth(false);
+    }
+  };
+
   const register = async (input: RegisterInput) => {
     setAuthError(null);
     setIsLoadingAuth(true);
 
     try {
-      const { token, user: authenticatedUser } = await authApi.register(input);
-      setStoredAuthToken(token);
-      setStoredAuthUser(authenticatedUser);
-      setUser(authenticatedUser);
+      const session = await authApi.register(input);
+      setStoredAuthSession(session);
+      setUser(session.user);
     } catch (error) {
       clearStoredAuthSession();
       setUser(null);
@@ -98,9 +141,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const logout = () => {
+    const refreshToken = getStoredRefreshToken();
+
     clearStoredAuthSession();
     setUser(null);
     setAuthError(null);
+
+    // Ending the server session is best effort; the device is signed out
+    // locally either way
+    if (refreshToken) {
+      void authApi.logout(refreshToken).catch(() => undefined);
+    }
   };
 
   const deleteAccount = async () => {
@@ -123,6 +174,22 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const enableTwoFactor = async (input: { code: string }) => {
+    const { recoveryCodes, user: authenticatedUser } =
+      await authApi.enableTwoFactor(input);
+    setStoredAuthUser(authenticatedUser);
+    setUser(authenticatedUser);
+    return recoveryCodes;
+  };
+
+  const disableTwoFactor = async (
+    input: SecondFactorInput & { currentPassword: string },
+  ) => {
+    const authenticatedUser = await authApi.disableTwoFactor(input);
+    setStoredAuthUser(authenticatedUser);
+    setUser(authenticatedUser);
+  };
+
   const changeEmail = async (input: {
     currentPassword: string;
     email: string;
@@ -195,7 +262,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     changeEmail,
     changePreferredName,
     changePassword,
+    completeTwoFactorLogin,
     deleteAccount,
+    disableTwoFactor,
+    enableTwoFactor,
     isAuthenticated: Boolean(user),
     isLoadingAuth,
     login,
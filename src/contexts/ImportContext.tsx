@@ -1,8 +1,16 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
 import { Book } from '@/types/book';
-import { ImportResult } from '@/utils/importUtils';
+import { CompleteImportResult, ImportResult } from '@/utils/importUtils';
+import {
+  ImportResolution,
+  StagedImport,
+  StagedRowKind,
+  resolveStagedImport,
+  setStagedKindResolution,
+  setStagedRowResolution,
+} from '@/utils/importStaging';
 
-export type ImportStatus = 'idle' | 'processing' | 'completed' | 'error';
+export type ImportStatus = 'idle' | 'processing' | 'reviewing' | 'completed' | 'error';
 
 export interface ImportState {
   status: ImportStatus;
@@ -11,6 +19,8 @@ export interface ImportState {
   details: string;
   successful: Book[];
   failed: { reason: string }[];
+  format?: string; // Label of the source format, e.g. "StoryGraph"
+  staged?: StagedImport; // Parsed rows waiting for review while status is 'reviewing'
   cancelImport: () => void;
 }
 
@@ -27,12 +37,16 @@ const initialState: ImportState = {
 // Create the context
 const ImportContext = createContext<{
   importState: ImportState;
-  startImport: () => void;
+  startImport: (format?: string) => void;
   updateImportProgress: (progress: number, summary: string, details?: string) => void;
   completeImport: (result: ImportResult) => void;
   errorImport: (error: Error) => void;
   resetImport: () => void;
   setCancelCallback: (callback: () => void) => void;
+  reviewImport: (staged: StagedImport, onConfirm: (result: CompleteImportResult) => Promise<void>) => void;
+  setRowResolution: (key: string, resolution: ImportResolution) => void;
+  setKindResolution: (kind: StagedRowKind, resolution: ImportResolution) => void;
+  confirmImport: () => Promise<void>;
 }>({
   importState: initialState,
   startImport: () => {},
@@ -40,19 +54,26 @@ const ImportContext = createContext<{
   completeImport: () => {},
   errorImport: () => {},
   resetImport: () => {},
-  setCancelCallback: () => {}
+  setCancelCallback: () => {},
+  reviewImport: () => {},
+  setRowResolution: () => {},
+  setKindResolution: () => {},
+  confirmImport: async () => {}
 });
 
 // Provider component
 export const ImportProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [importState, setImportState] = useState<ImportState>({ ...initialState });
+  // Writes the reviewed rows; set by whoever staged the import
+  const confirmCallbackRef = useRef<((result: CompleteImportResult) => Promise<void>) | null>(null);
 
   // Set up handlers for import state
-  const startImport = useCallback(() => {
+  const startImport = useCallback((format?: string) => {
     setImportState({
       ...initialState,
       status: 'processing',
-      summary: 'Starting import...'
+      format,
+      summary: format ? `Starting ${format} import...` : 'Starting import...'
     });
   }, []);
 
@@ -73,7 +94,9 @@ export const ImportProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       ...prev,
       status: 'completed',
       progress: 100,
-      summary: `Imported ${successful.length} of ${result.total} books`,
+      summary: prev.format
+        ? `Imported ${successful.length} of ${result.total} books from ${prev.format}`
+        : `Imported ${successful.length} of ${result.total} books`,
       details: failed.length > 0 
         ? `${failed.length} books failed to import` 
         : 'All books imported successfully',
@@ -87,12 +110,13 @@ export const ImportProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       ...prev,
       status: 'error',
       progress: 0,
-      summary: 'Import failed',
+      summary: prev.format ? `${prev.format} import failed` : 'Import failed',
       details: error.message
     }));
   }, []);
 
   const resetImport = useCallback(() => {
+    confirmCallbackRef.current = null;
     setImportState({ ...initialState });
   }, []);
 
@@ -103,6 +127,62 @@ export const ImportProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }));
   }, []);
 
+  // Pause a parsed import so each row can be reviewed before anything is written
+  const reviewImport = useCallback((
+    staged: StagedImport,
+    onConfirm: (result: CompleteImportResult) => Promise<void>
+  ) => {
+    confirmCallbackRef.current = onConfirm;
+    setImportState(prev => ({
+      ...prev,
+      status: 'reviewing',
+      progress: 100,
+      summary: `Review ${staged.rows.length} rows from ${staged.source}`,
+      details: 'Nothing has been saved yet',
+      staged
+    }));
+  }, []);
+
+  const setRowResolution = useCallback((key: string, resolution: ImportResolution) => {
+    setImportState(prev => prev.staged
+      ? { ...prev, staged: setStagedRowResolution(prev.staged, key, resolution) }
+      : prev);
+  }, []);
+
+  const setKindResolution = useCallback((kind: StagedRowKind, resolution: ImportResolution) => {
+    setImportState(prev => prev.staged
+      ? { ...prev, staged: setStagedKindResolution(prev.staged, kind, resolution) }
+      : prev);
+  }, []);
+
+  const confirmImport = useCallback(async () => {
+    const { staged } = importState;
+    const onConfirm = confirmCallbackRef.current;
+
+    if (!staged || !onConfirm) {
+      return;
+    }
+
+    const result = resolveStagedImport(staged);
+    confirmCallbackRef.current = null;
+
+    setImportState(prev => ({
+      ...prev,
+      status: 'processing',
+      progress: 75,
+      summary: `Saving ${result.successful.length} books...`,
+      details: '',
+      staged: undefined
+    }));
+
+    try {
+      await onConfirm(result);
+      completeImport(result);
+    } catch (error) {
+      errorImport(error instanceof Error ? error : new Error(String(error)));
+    }
+  }, [completeImport, errorImport, importState]);
+
   return (
     <ImportContext.Provider
       value={{
@@ -112,7 +192,11 @@ export const ImportProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         completeImport,
         errorImport,
         resetImport,
-        setCancelCallback
+        setCancelCallback,
+        reviewImport,
+        setRowResolution,
+        setKindResolution,
+        confirmImport
       }}
     >
       {children}
@@ -0,0 +1,72 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useSyncRefresh } from '@/hooks/useSync';
+import { loanRepository } from '@/repositories/LoanRepository';
+import { loanService } from '@/services/LoanService';
+import { Loan } from '@/types/loan';
+import { getActiveLoansByBookId } from '@/utils/loanUtils';
+import { LoansContext } from './loans-context';
+
+// Provider component
+export const LoansProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const refreshLoans = useCallback(async () => {
+    try {
+      setLoans(await loanRepository.getAll());
+    } catch (err) {
+      console.error('Failed to load loans:', err);
+    }
+  }, []);
+
+  // Load loans when the library opens or the account changes, then raise
+  // reminders for any that have gone overdue since the last visit
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLoans = async () => {
+      try {
+        setIsLoading(true);
+        setLoans([]);
+        const storedLoans = await loanRepository.getAll();
+        if (cancelled) return;
+        setLoans(storedLoans);
+
+        const reminded = await loanService.sendOverdueReminders(storedLoans);
+        if (!cancelled && reminded.length > 0) {
+          const byId = new Map(reminded.map(loan => [loan.id, loan]));
+          setLoans(current => current.map(loan => byId.get(loan.id) || loan));
+        }
+      } catch (err) {
+        console.error('Failed to load loans:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadLoans();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Loans added, returned or deleted on another device arrive with a pull
+  useSyncRefresh(() => {
+    void refreshLoans();
+  });
+
+  const activeLoans = useMemo(() => getActiveLoansByBookId(loans), [loans]);
+  const getActiveLoan = useCallback((bookId: string) => activeLoans.get(bookId), [activeLoans]);
+
+  return (
+    <LoansContext.Provider value={{ loans, getActiveLoan, refreshLoans, isLoading }}>
+      {children}
+    </LoansContext.Provider>
+  );
+};
+
+export default LoansProvider;
@@ -1,6 +1,6 @@
 import React, { useContext } from "react";
 
-import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import "@testing-library/jest-dom";
 
 import { AuthProvider } from "@/contexts/AuthContext";
@@ -10,6 +10,8 @@ import {
   clearStoredAuthSession,
   getStoredAuthToken,
   getStoredAuthUser,
+  getStoredRefreshToken,
+  setStoredAuthSession,
   setStoredAuthUser,
 } from "@/lib/auth-storage";
 
@@ -26,11 +28,13 @@ jest.mock("@/lib/apiClient", () => ({
   authApi: {
     me: jest.fn(),
     login: jest.fn(),
+    loginTwoFactor: jest.fn(),
     register: jest.fn(),
     deleteAccount: jest.fn(),
     changeEmail: jest.fn(),
     changePreferredName: jest.fn(),
     changePassword: jest.fn(),
+    logout: jest.fn(),
   },
 }));
 
@@ -38,6 +42,8 @@ jest.mock("@/lib/auth-storage", () => ({
   clearStoredAuthSession: jest.fn(),
   getStoredAuthToken: jest.fn(),
   getStoredAuthUser: jest.fn(),
+  getStoredRefreshToken: jest.fn(),
+  setStoredAuthSession: jest.fn(),
   setStoredAuthToken: jest.fn(),
   setStoredAuthUser: jest.fn(),
 }));
@@ -45,7 +51,13 @@ jest.mock("@/lib/auth-storage", () => ({
 const mockedAuthApi = authApi as jest.Mocked<typeof authApi>;
 const mockedGetStoredAuthToken = getStoredAuthToken as jest.MockedFunction<typeof getStoredAuthToken>;
 const mockedGetStoredAuthUser = getStoredAuthUser as jest.MockedFunction<typeof getStoredAuthUser>;
+const mockedGetStoredRefreshToken = getStoredRefreshToken as jest.MockedFunction<
+  typeof getStoredRefreshToken
+>;
 const mockedSetStoredAuthUser = setStoredAuthUser as jest.MockedFunction<typeof setStoredAuthUser>;
+const mockedSetStoredAuthSession = setStoredAuthSession as jest.MockedFunction<
+  typeof setStoredAuthSession
+>;
 const mockedClearStoredAuthSession = clearStoredAuthSession as jest.MockedFunction<
   typeof clearStoredAuthSession
 >;
@@ -63,6 +75,7 @@ const AuthProbe = () => {
       <div data-testid="authenticated">{String(auth.isAuthenticated)}</div>
       <div data-testid="user-email">{auth.user?.email ?? "none"}</div>
       <div data-testid="auth-error">{auth.authError ?? "none"}</div>
+      <button onClick={auth.logout}>Sign out</button>
     </div>
   );
 };
@@ -125,4 +138,110 @@ describe("AuthProvider bootstrap", () => {
       "Session has expired. Please sign in again.",
     );
   });
+
+  it("ends the server session for this device on logout", async () => {
+    mockedGetStoredAuthToken.mockReturnValue("valid-token");
+    mockedGetStoredRefreshToken.mockReturnValue("session-1.refresh-secret");
+    mockedAuthApi.me.mockResolvedValue({
+      id: "user-1",
+      email: "reader@example.com",
+      role: "user",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    mockedAuthApi.logout.mockResolvedValue({ success: true });
+
+    render(
+      <AuthProvider>
+        <AuthProbe />
+      </AuthProvider>,
+    );
+
+    await waitFor(() =>
+      expect(screen.getByTestId("authenticated")).toHaveTextContent("true"),
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Sign out" }));
+
+    expect(mockedClearStoredAuthSession).toHaveBeenCalledTimes(1);
+    expect(mockedAuthApi.logout).toHaveBeenCalledWith("session-1.refresh-secret");
+    expect(screen.getByTestId("authenticated")).toHaveTextContent("false");
+  });
+
+  it("holds the session back until the second factor is verified", async () => {
+    const currentUser = {
+      id: "user-1",
+      email: "reader@example.com",
+      role: "user" as const,
+      twoFactorEnabled: true,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    mockedGetStoredAuthToken.mockReturnValue(null);
+    mockedAuthApi.login.mockResolvedValue({
+      twoFactorRequired: true,
+      challengeToken: "challenge-token",
+    });
+    mockedAuthApi.loginTwoFactor.mockResolvedValue({
+      token: "access-token",
+      refreshToken: "session-1.refresh-secret",
+      user: currentUser,
+    });
+
+    const TwoStepProbe = () => {
+      const auth = useContext(AuthContext);
+      const [challengeToken, setChallengeToken] = React.useState("");
+
+      return (
+        <div>
+          <div data-testid="authenticated">{String(auth?.isAuthenticated)}</div>
+          <div data-testid="challenge">{challengeToken || "none"}</div>
+          <button
+            onClick={async () => {
+              const result = await auth!.login({
+                email: "reader@example.com",
+                password: "password123",
+              });
+              if (result.twoFactorRequired) setChallengeToken(result.challengeToken);
+            }}
+          >
+            Sign in
+          </button>
+          <button
+            onClick={() =>
+              void auth!.completeTwoFactorLogin({ challengeToken, code: "123456" })
+            }
+          >
+            Verify
+          </button>
+        </div>
+      );
+    };
+
+    render(
+      <AuthProvider>
+        <TwoStepProbe />
+      </AuthProvider>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Sign in" }));
+    await waitFor(() =>
+      expect(screen.getByTestId("challenge")).toHaveTextContent("challenge-token"),
+    );
+    expect(mockedSetStoredAuthSession).not.toHaveBeenCalled();
+    expect(screen.getByTestId("authenticated")).toHaveTextContent("false");
+
+    fireEvent.click(screen.getByRole("button", { name: "Verify" }));
+    await waitFor(() =>
+      expect(screen.getByTestId("authenticated")).toHaveTextContent("true"),
+    );
+    expect(mockedAuthApi.loginTwoFactor).toHaveBeenCalledWith({
+      challengeToken: "challenge-token",
+      code: "123456",
+    });
+    expect(mockedSetStoredAuthSession).toHaveBeenCalledWith(
+      expect.objectContaining({ token: "access-token" }),
+    );
+  });
 });
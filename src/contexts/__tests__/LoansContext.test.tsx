@@ -0,0 +1,88 @@
+import React, { useContext } from "react";
+
+import { act, render, screen, waitFor } from "@testing-library/react";
+import "@testing-library/jest-dom";
+
+import { LoansProvider } from "@/contexts/LoansContext";
+import { LoansContext } from "@/contexts/loans-context";
+import { useAuth } from "@/hooks/useAuth";
+import { useSyncRefresh } from "@/hooks/useSync";
+import { loanRepository } from "@/repositories/LoanRepository";
+import { Loan } from "@/types/loan";
+
+jest.mock("@/hooks/useAuth", () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock("@/hooks/useSync", () => ({
+  useSyncRefresh: jest.fn(),
+}));
+
+jest.mock("@/repositories/LoanRepository", () => ({
+  loanRepository: { getAll: jest.fn() },
+}));
+
+jest.mock("@/services/LoanService", () => ({
+  loanService: { sendOverdueReminders: jest.fn().mockResolvedValue([]) },
+}));
+
+const mockedUseAuth = useAuth as jest.Mock;
+const mockedUseSyncRefresh = useSyncRefresh as jest.Mock;
+const mockedGetAll = loanRepository.getAll as jest.Mock;
+
+const loan = (id: string, person: string): Loan => ({
+  id,
+  bookId: "book-1",
+  direction: "lent",
+  person,
+  loanedDate: "2026-10-01",
+});
+
+const LoanPeople = () => {
+  const { loans } = useContext(LoansContext);
+  return <p>{loans.map((candidate) => candidate.person).join(", ") || "No loans"}</p>;
+};
+
+const renderProvider = () =>
+  render(
+    <LoansProvider>
+      <LoanPeople />
+    </LoansProvider>,
+  );
+
+describe("LoansProvider", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedUseAuth.mockReturnValue({ user: { id: "user-1" } });
+  });
+
+  it("reloads the loans when the account changes", async () => {
+    mockedGetAll.mockResolvedValueOnce([loan("loan-1", "Ged")]);
+    const { rerender } = renderProvider();
+
+    expect(await screen.findByText("Ged")).toBeInTheDocument();
+
+    mockedUseAuth.mockReturnValue({ user: null });
+    mockedGetAll.mockResolvedValueOnce([]);
+    rerender(
+      <LoansProvider>
+        <LoanPeople />
+      </LoansProvider>,
+    );
+
+    expect(await screen.findByText("No loans")).toBeInTheDocument();
+    expect(mockedGetAll).toHaveBeenCalledTimes(2);
+  });
+
+  it("reloads the loans after a sync pull", async () => {
+    mockedGetAll.mockResolvedValueOnce([loan("loan-1", "Ged")]);
+    renderProvider();
+    expect(await screen.findByText("Ged")).toBeInTheDocument();
+
+    mockedGetAll.mockResolvedValueOnce([loan("loan-1", "Ged"), loan("loan-2", "Tenar")]);
+    const onPulled = mockedUseSyncRefresh.mock.calls[mockedUseSyncRefresh.mock.calls.length - 1][0];
+    act(() => onPulled());
+
+    await waitFor(() => expect(screen.getByText("Ged, Tenar")).toBeInTheDocument());
+  });
+});
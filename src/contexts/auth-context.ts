@@ -7,6 +7,20 @@ export type LoginInput = {
   password: string;
 };
 
+/**
+ * Accounts with two-factor authentication turned on get a challenge token
+ * from the password step, to be exchanged with a code via
+ * completeTwoFactorLogin.
+ */
+export type LoginResult =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string };
+
+export type SecondFactorInput = {
+  code?: string;
+  recoveryCode?: string;
+};
+
 export type RegisterInput = LoginInput & {
   preferredName?: string;
 };
@@ -24,10 +38,17 @@ export type AuthContextValue = {
     currentPassword: string;
     newPassword: string;
   }) => Promise<void>;
+  completeTwoFactorLogin: (
+    input: SecondFactorInput & { challengeToken: string },
+  ) => Promise<{ recoveryCodesRemaining?: number }>;
   deleteAccount: () => Promise<void>;
+  disableTwoFactor: (
+    input: SecondFactorInput & { currentPassword: string },
+  ) => Promise<void>;
+  enableTwoFactor: (input: { code: string }) => Promise<string[]>;
   isAuthenticated: boolean;
   isLoadingAuth: boolean;
-  login: (input: LoginInput) => Promise<void>;
+  login: (input: LoginInput) => Promise<LoginResult>;
   logout: () => void;
   register: (input: RegisterInput) => Promise<void>;
   user: AuthUser | null;
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import { Loan } from '@/types/loan';
+
+// Context interface
+export interface LoansContextType {
+  loans: Loan[];
+  /** The loan a book is currently out on, if any */
+  getActiveLoan: (bookId: string) => Loan | undefined;
+  refreshLoans: () => Promise<void>;
+  isLoading: boolean;
+}
+
+// Create the context
+export const LoansContext = createContext<LoansContextType>({
+  loans: [],
+  getActiveLoan: () => undefined,
+  refreshLoans: async () => {},
+  isLoading: true,
+});
+
+// Custom hook for using the loans context
+export const useLoans = () => useContext(LoansContext);
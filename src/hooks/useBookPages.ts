@@ -0,0 +1,147 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import type { BookListParams } from '@/lib/apiClient';
+import { bookRepository } from '@/repositories/BookRepository';
+import { Book } from '@/types/book';
+
+const PAGE_SIZE = 50;
+// Wait for typing to pause before asking the server again
+const QUERY_DELAY_MS = 250;
+
+interface BookPagesState {
+  books: Book[];
+  total: number;
+  nextCursor: string | null;
+  /** Whether any page has arrived since paging was enabled */
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+const EMPTY_STATE: BookPagesState = {
+  books: [],
+  total: 0,
+  nextCursor: null,
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+};
+
+/**
+ * Books paged from the server for the given filters, loading the next page as
+ * the end of the list scrolls into view. Bumping version reloads from the
+ * first page, e.g. after a sync pull. While disabled nothing is fetched and
+ * the caller shows its local copy instead.
+ */
+export function useBookPages(params: BookListParams, enabled: boolean, version = 0) {
+  const [state, setState] = useState<BookPagesState>(EMPTY_STATE);
+  // Responses to anything but the latest request are dropped
+  const requestIdRef = useRef(0);
+  const paramsKey = JSON.stringify(params);
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const requestId = ++requestIdRef.current;
+    setState(current => ({ ...current, isLoading: true }));
+
+    try {
+      const page = await bookRepository.getPage({ ...JSON.parse(paramsKey), limit: PAGE_SIZE, cursor });
+
+      if (requestId !== requestIdRef.current) return;
+
+      setState(current => {
+        const loadedIds = new Set(cursor ? current.books.map(book => book.id) : []);
+
+        return {
+          books: cursor ? [...current.books, ...page.books.filter(book => !loadedIds.has(book.id))] : page.books,
+          total: page.total,
+          nextCursor: page.nextCursor,
+          isLoaded: true,
+          isLoading: false,
+          error: null,
+        };
+      });
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+
+      console.error('Error loading books:', error);
+      setState(current => ({
+        ...current,
+        isLoading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      }));
+    }
+  }, [paramsKey]);
+
+  useEffect(() => {
+    if (!enabled) {
+      requestIdRef.current++;
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => void fetchPage(), QUERY_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [enabled, fetchPage, version]);
+
+  const { nextCursor, isLoading, error } = state;
+
+  const loadMore = useCallback(() => {
+    if (enabled && nextCursor && !isLoading && !error) {
+      void fetchPage(nextCursor);
+    }
+  }, [enabled, fetchPage, nextCursor, isLoading, error]);
+
+  // Keep loadMore current for the observer without recreating it each render
+  const loadMoreRef = useRef(loadMore);
+  loadMoreRef.current = loadMore;
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const sentinelVisibleRef = useRef(false);
+
+  /** Attach to an element after the list; the next page loads when it shows */
+  const sentinelRef = useCallback((element: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    sentinelVisibleRef.current = false;
+
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+
+    observerRef.current = new IntersectionObserver(
+      entries => {
+        sentinelVisibleRef.current = entries.some(entry => entry.isIntersecting);
+
+        if (sentinelVisibleRef.current) {
+          loadMoreRef.current();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observerRef.current.observe(element);
+  }, []);
+
+  // A short page can leave the end of the list in view, which the observer
+  // does not report again
+  useEffect(() => {
+    if (sentinelVisibleRef.current) {
+      loadMore();
+    }
+  }, [loadMore]);
+
+  /** Patch the loaded books, e.g. after an edit, without refetching */
+  const setBooks: Dispatch<SetStateAction<Book[]>> = useCallback(update => {
+    setState(current => ({
+      ...current,
+      books: typeof update === 'function' ? update(current.books) : update,
+    }));
+  }, []);
+
+  return {
+    books: state.books,
+    total: state.total,
+    hasMore: Boolean(state.nextCursor),
+    isLoaded: state.isLoaded,
+    isLoading: state.isLoading,
+    error: state.error,
+    loadMore,
+    sentinelRef,
+    setBooks,
+  };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { applySelectionClick, BookSelectionState } from '@/utils/bookBatch';
+
+/**
+ * Selection props passed to the library views. Views report clicks with the
+ * ids in the order they display them, so shift-click ranges match what the
+ * user sees.
+ */
+export interface BookSelectionProps {
+  active: boolean;
+  selectedIds: string[];
+  onSelect: (bookId: string, orderedIds: string[], event: React.MouseEvent) => void;
+}
+
+/**
+ * Whether a click on a book should change the selection instead of opening it
+ */
+export const isSelectionClick = (selection: BookSelectionProps | undefined, event: React.MouseEvent): boolean =>
+  Boolean(selection && (selection.active || event.shiftKey || event.metaKey || event.ctrlKey));
+
+/**
+ * Multi-select state for the library views. Selecting is active while select
+ * mode is on or anything is selected; Escape clears the selection.
+ */
+export function useBookSelection(bookIds: string[]) {
+  const [state, setState] = useState<BookSelectionState>({ selectedIds: [], anchorId: null });
+  const [selectionMode, setSelectionMode] = useState(false);
+
+  // Drop books that are no longer in the library, e.g. after a delete
+  useEffect(() => {
+    setState(current => {
+      const selectedIds = current.selectedIds.filter(id => bookIds.includes(id));
+      return selectedIds.length === current.selectedIds.length ? current : { ...current, selectedIds };
+    });
+  }, [bookIds]);
+
+  const clearSelection = useCallback(() => {
+    setState({ selectedIds: [], anchorId: null });
+    setSelectionMode(false);
+  }, []);
+
+  const selectAll = useCallback((ids: string[]) => {
+    setState(current => ({
+      selectedIds: [...current.selectedIds, ...ids.filter(id => !current.selectedIds.includes(id))],
+      anchorId: current.anchorId,
+    }));
+  }, []);
+
+  const onSelect = useCallback((bookId: string, orderedIds: string[], event: React.MouseEvent) => {
+    setState(current => applySelectionClick(current, bookId, orderedIds, event.shiftKey));
+  }, []);
+
+  const active = selectionMode || state.selectedIds.length > 0;
+
+  useEffect(() => {
+    if (!active) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') clearSelection();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [active, clearSelection]);
+
+  const selection = useMemo<BookSelectionProps>(
+    () => ({ active, selectedIds: state.selectedIds, onSelect }),
+    [active, state.selectedIds, onSelect]
+  );
+
+  return {
+    selection,
+    selectedIds: state.selectedIds,
+    selectionMode,
+    setSelectionMode,
+    selectAll,
+    clearSelection,
+  };
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { HistoryCommand, historyService } from '@/services/HistoryService';
+
+const reportFailure = (title: string, error: unknown) => {
+  console.error(`${title}:`, error);
+  toast({
+    title,
+    description: error instanceof Error ? error.message : String(error),
+    variant: 'destructive',
+  });
+};
+
+/**
+ * Undo the latest change (or the given one) and say what was undone, with a
+ * Redo action in the notification
+ */
+export async function undoWithToast(command?: HistoryCommand): Promise<void> {
+  try {
+    const undone = await historyService.undo(command);
+
+    if (!undone) {
+      toast({ title: 'Nothing to Undo' });
+      return;
+    }
+
+    toast({
+      title: 'Undone',
+      description: undone.label,
+      action: (
+        <ToastAction altText="Redo this change" onClick={() => redoWithToast()}>
+          Redo
+        </ToastAction>
+      ),
+    });
+  } catch (error) {
+    reportFailure('Undo Failed', error);
+  }
+}
+
+export async function redoWithToast(): Promise<void> {
+  try {
+    const redone = await historyService.redo();
+
+    if (!redone) {
+      toast({ title: 'Nothing to Redo' });
+      return;
+    }
+
+    toast({
+      title: 'Redone',
+      description: redone.label,
+      action: (
+        <ToastAction altText="Undo this change" onClick={() => undoWithToast(redone)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  } catch (error) {
+    reportFailure('Redo Failed', error);
+  }
+}
+
+/**
+ * Call onChange after every undo or redo, so a page can reload what it shows
+ */
+export function useHistoryRefresh(onChange: () => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    return historyService.subscribe(event => {
+      if (event.type === 'undo' || event.type === 'redo') {
+        onChangeRef.current();
+      }
+    });
+  }, []);
+}
+
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo. Text fields
+ * keep their own undo.
+ */
+export function useHistoryShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        void undoWithToast();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) {
+        event.preventDefault();
+        void redoWithToast();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
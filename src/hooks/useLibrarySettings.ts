@@ -6,6 +6,8 @@ import { Book } from '@/types/book';
 import { notifyStorageReset } from '@/services/storage/CacheResetListener';
 import type { Collection } from '@/types/collection';
 import type { Series } from '@/types/series';
+import type { MergeFieldChoices } from '@/utils/duplicateBooks';
+import type { CompleteImportResult } from '@/utils/importUtils';
 
 /**
  * Helper function to clear an IndexedDB object store.
@@ -225,6 +227,40 @@ export function useLibrarySettings(options: UseLibrarySettingsOptions = {}) {
     }
   }, []);
 
+  // Files collection names carried on imported books (e.g. Goodreads shelves),
+  // reusing collections that already exist with the same name
+  const assignImportedCollections = useCallback(async (importedBooks: Book[]) => {
+    const bookIdsByName = new Map<string, { name: string; bookIds: string[] }>();
+
+    for (const book of importedBooks) {
+      for (const name of book._importedCollectionNames || []) {
+        const key = name.toLowerCase();
+        const entry = bookIdsByName.get(key) || { name, bookIds: [] };
+        entry.bookIds.push(book.id);
+        bookIdsByName.set(key, entry);
+      }
+    }
+
+    if (bookIdsByName.size === 0) {
+      return;
+    }
+
+    const { collectionRepository } = await import('@/repositories/CollectionRepository');
+    const existingCollections = await collectionRepository.getAll();
+
+    for (const [key, { name, bookIds }] of bookIdsByName) {
+      const existing = existingCollections.find((collection) => collection.name.toLowerCase() === key);
+
+      if (existing) {
+        await collectionRepository.update(existing.id, {
+          bookIds: Array.from(new Set([...existing.bookIds, ...bookIds])),
+        });
+      } else {
+        await collectionRepository.add({ name, bookIds });
+      }
+    }
+  }, []);
+
   const onDeleteLibrary = useCallback(async () => {
     try {
       const [
@@ -406,95 +442,91 @@ export function useLibrarySettings(options: UseLibrarySettingsOptions = {}) {
     }
   }, [deleteAccount, isAuthenticated, logout, onLibraryCleared, toast, updateBooks]);
 
-  const onImportCSV = useCallback(async (file: File) => {
+  // Writes an import after its rows were reviewed. Series and collections from
+  // enhanced JSON files are merged into any existing ones with the same id.
+  const onCommitImport = useCallback(async (result: CompleteImportResult, source: string) => {
     try {
-      const { importFromCSV } = await import('@/utils/importUtils');
-      const importResult = await importFromCSV(file);
-
-      if (importResult.successful.length > 0) {
-        try {
-          await upsertBooks(importResult.successful);
-          await reloadBooksFromRepository();
+      const [{ seriesRepository }, { collectionRepository }] = await Promise.all([
+        import('@/repositories/SeriesRepository'),
+        import('@/repositories/CollectionRepository'),
+      ]);
 
-          toast({
-            title: "Import Successful",
-            description: `${importResult.successful.length} books were imported into your ${isAuthenticated ? 'account library' : 'local library'}. ${importResult.failed.length > 0 ? `${importResult.failed.length} failed.` : ''}`
+      await upsertBooks(result.successful);
+
+      if (result.series && result.series.successful.length > 0) {
+        const seriesItems: Series[] = [];
+        for (const series of result.series.successful) {
+          const existing = await seriesRepository.getById(series.id);
+          seriesItems.push({
+            ...existing,
+            ...series,
+            books: Array.from(new Set([...(existing?.books || []), ...series.books])),
+            readingOrder: series.readingOrder || existing?.readingOrder || 'publication',
+            isTracked: series.isTracked ?? existing?.isTracked ?? false,
+            createdAt: existing?.createdAt || new Date(),
+            updatedAt: new Date(),
           });
+        }
+        await upsertSeries(seriesItems);
+      }
 
-          // Force page refresh so all views reflect the imported data
-          setTimeout(() => window.location.reload(), 1000);
-        } catch (saveError) {
-          console.error('Error saving imported books to IndexedDB:', saveError);
-          toast({
-            title: "Import Partial Success",
-            description: `Books imported but may not appear in all views. Please refresh the page. Error: ${saveError instanceof Error ? saveError.message : String(saveError)}`,
-            variant: "default"
+      if (result.collections && result.collections.successful.length > 0) {
+        const collectionItems: Collection[] = [];
+        for (const collection of result.collections.successful) {
+          const existing = await collectionRepository.getById(collection.id);
+          collectionItems.push({
+            ...existing,
+            ...collection,
+            bookIds: Array.from(new Set([...(existing?.bookIds || []), ...collection.bookIds])),
+            createdAt: existing?.createdAt || new Date(),
+            updatedAt: new Date(),
           });
         }
-      } else {
-        toast({
-          title: "Import Failed",
-          description: `No books were imported. Please check your file format.`,
-          variant: "destructive"
-        });
+        await upsertCollections(collectionItems);
       }
 
-      return Promise.resolve();
+      await assignImportedCollections(result.successful);
+      await reloadBooksFromRepository();
+
+      toast({
+        title: "Import Successful",
+        description: `${result.successful.length} ${source} books were saved to your ${isAuthenticated ? 'account library' : 'local library'}.`
+      });
+
+      // Force page refresh so all views reflect the imported data
+      setTimeout(() => window.location.reload(), 1000);
     } catch (error) {
-      console.error('CSV import error:', error);
+      console.error(`Error saving imported ${source} books:`, error);
       toast({
         title: "Import Error",
-        description: `Error importing CSV: ${error instanceof Error ? error.message : String(error)}`,
+        description: `Error saving imported books: ${error instanceof Error ? error.message : String(error)}`,
         variant: "destructive"
       });
-      return Promise.reject(error);
+      throw error;
     }
-  }, [isAuthenticated, reloadBooksFromRepository, toast, upsertBooks]);
+  }, [assignImportedCollections, isAuthenticated, reloadBooksFromRepository, toast, upsertBooks, upsertCollections, upsertSeries]);
 
-  const onImportJSON = useCallback(async (file: File) => {
+  // Merges a group of duplicate books into the chosen survivor
+  const onMergeBooks = useCallback(async (mergedBooks: Book[], targetId: string, choices: MergeFieldChoices) => {
     try {
-      const { importFromJSON } = await import('@/utils/importUtils');
-      const importResult = await importFromJSON(file);
-
-      if (importResult.successful.length > 0) {
-        try {
-          await upsertBooks(importResult.successful);
-          await reloadBooksFromRepository();
+      const { bookMergeService } = await import('@/services/BookMergeService');
+      const survivor = await bookMergeService.mergeBooks(mergedBooks, targetId, choices);
+      await reloadBooksFromRepository();
 
-          toast({
-            title: "Import Successful",
-            description: `${importResult.successful.length} books were imported into your ${isAuthenticated ? 'account library' : 'local library'}. ${importResult.failed.length > 0 ? `${importResult.failed.length} failed.` : ''}`
-          });
-
-          // Force page refresh so all views reflect the imported data
-          setTimeout(() => window.location.reload(), 1000);
-        } catch (saveError) {
-          console.error('Error saving imported books to IndexedDB:', saveError);
-          toast({
-            title: "Import Partial Success",
-            description: `Books imported but may not appear in all views. Please refresh the page. Error: ${saveError instanceof Error ? saveError.message : String(saveError)}`,
-            variant: "default"
-          });
-        }
-      } else {
-        toast({
-          title: "Import Failed",
-          description: `No books were imported. Please check your file format.`,
-          variant: "destructive"
-        });
-      }
-
-      return Promise.resolve();
+      toast({
+        title: "Books Merged",
+        description: `${mergedBooks.length} copies were merged into "${survivor.title}".`
+      });
     } catch (error) {
-      console.error('JSON import error:', error);
+      console.error('Error merging duplicate books:', error);
       toast({
-        title: "Import Error",
-        description: `Error importing JSON: ${error instanceof Error ? error.message : String(error)}`,
+        title: "Merge Error",
+        description: `Error merging books: ${error instanceof Error ? error.message : String(error)}`,
         variant: "destructive"
       });
-      return Promise.reject(error);
+      throw error;
     }
-  }, [isAuthenticated, reloadBooksFromRepository, toast, upsertBooks]);
+  }, [reloadBooksFromRepository, toast]);
 
   const onCreateBackup = useCallback(async () => {
     try {
@@ -612,8 +644,8 @@ export function useLibrarySettings(options: UseLibrarySettingsOptions = {}) {
     onDeleteAccount,
     onDeleteLibrary,
     onResetLibrary,
-    onImportCSV,
-    onImportJSON,
+    onCommitImport,
+    onMergeBooks,
     onCreateBackup,
     onRestoreBackup,
   };
@@ -628,8 +660,8 @@ export function useLibrarySettings(options: UseLibrarySettingsOptions = {}) {
     onDeleteLibrary,
     onDeleteAccount,
     onResetLibrary,
-    onImportCSV,
-    onImportJSON,
+    onCommitImport,
+    onMergeBooks,
     onCreateBackup,
     onRestoreBackup,
   };
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SyncStatus, syncService } from '@/services/sync/SyncService';
+import type { SyncConflict, SyncEntity } from '@/services/sync/SyncStore';
+
+/**
+ * The current sync status, updated as syncs run
+ */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(syncService.getStatus());
+
+  useEffect(() => {
+    return syncService.subscribe(event => {
+      if (event.type === 'status') {
+        setStatus(event.status);
+      }
+    });
+  }, []);
+
+  return status;
+}
+
+/**
+ * Call onPulled after server changes reach the local copy, so a page can
+ * reload what it shows
+ */
+export function useSyncRefresh(onPulled: () => void) {
+  const onPulledRef = useRef(onPulled);
+  onPulledRef.current = onPulled;
+
+  useEffect(() => {
+    return syncService.subscribe(event => {
+      if (event.type === 'pulled') {
+        onPulledRef.current();
+      }
+    });
+  }, []);
+}
+
+/**
+ * The unresolved sync conflict for a record, or for any record of the entity
+ * when no id is given. resolveLater hides it until the next conflict comes in;
+ * dismiss forgets it once merged.
+ */
+export function useSyncConflict<T>(entity: SyncEntity, id?: string) {
+  const [conflict, setConflict] = useState<SyncConflict<T> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      const request = id
+        ? syncService.getConflict<T>(entity, id)
+        : syncService.getConflicts<T>(entity).then(conflicts => conflicts[0]);
+
+      request
+        .then(found => {
+          if (!cancelled) setConflict(found ?? null);
+        })
+        // Not signed in, so there is nothing to merge
+        .catch(() => {
+          if (!cancelled) setConflict(null);
+        });
+    };
+
+    load();
+
+    const unsubscribe = syncService.subscribe(event => {
+      if (event.type === 'conflict' && event.conflict.entity === entity && (!id || event.conflict.id === id)) {
+        load();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [entity, id]);
+
+  const resolveLater = useCallback(() => setConflict(null), []);
+
+  const dismiss = useCallback(async () => {
+    if (!conflict) return;
+
+    await syncService.dismissConflict(conflict.entity, conflict.id);
+    setConflict(null);
+  }, [conflict]);
+
+  return { conflict, resolveLater, dismiss };
+}
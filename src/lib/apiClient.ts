@@ -2,7 +2,11 @@ import {
   AuthUser,
   clearStoredAuthSession,
   getStoredAuthToken,
+  getStoredRefreshToken,
+  refreshStoredAuthToken,
+  shouldRefreshStoredAuthToken,
 } from "@/lib/auth-storage";
+import type { CollectionRules } from "@/types/collection";
 import type { UserSettings } from "@/types/user-settings";
 
 type ApiErrorPayload = {
@@ -22,7 +26,37 @@ type ApiRequestOptions = {
 
 type AuthResponse = {
   token: string;
+  refreshToken: string;
   user: AuthUser;
+  /** Set when a recovery code was used to sign in */
+  recoveryCodesRemaining?: number;
+};
+
+export type TwoFactorChallengeResponse = {
+  twoFactorRequired: true;
+  challengeToken: string;
+};
+
+export type TwoFactorSetupResponse = {
+  secret: string;
+  otpauthUrl: string;
+};
+
+/** An authenticator code or, failing that, a recovery code */
+export type SecondFactorInput = {
+  code?: string;
+  recoveryCode?: string;
+};
+
+export type AuthSessionRecord = {
+  id: string;
+  deviceName: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
 };
 
 type PasswordResetRequestResponse = {
@@ -47,6 +81,17 @@ type AdminUserDetailResponse = {
   hasUserSettings: boolean;
 };
 
+export type AdminDeletedAccountSummary = {
+  books: number;
+  series: number;
+  collections: number;
+  upcomingReleases: number;
+  notifications: number;
+  userSettings: number;
+  readingSessions: number;
+  loans: number;
+};
+
 type AdminDeleteAccountResponse = {
   success: boolean;
   deletedUser: {
@@ -55,14 +100,45 @@ type AdminDeleteAccountResponse = {
     preferredName?: string;
     role: "user" | "admin";
   };
-  summary: {
-    books: number;
-    series: number;
-    collections: number;
-    upcomingReleases: number;
-    notifications: number;
-    userSettings: number;
-  };
+  summary: AdminDeletedAccountSummary;
+};
+
+export type AdminUserListParams = {
+  limit?: number;
+  cursor?: string;
+  sort?: "createdAt" | "lastLoginAt" | "email" | "preferredName";
+  order?: "asc" | "desc";
+  /** Matches any part of the email or preferred name */
+  q?: string;
+  role?: "user" | "admin";
+  twoFactor?: "enabled" | "disabled";
+  createdFrom?: string;
+  createdTo?: string;
+  lastLoginFrom?: string;
+  lastLoginTo?: string;
+  /** Users who have not signed in for at least this many days */
+  inactiveDays?: number;
+};
+
+export type AdminUserListPage = {
+  items: AuthUser[];
+  /** Pass back as cursor for the next page; null on the last page */
+  nextCursor: string | null;
+  total: number;
+};
+
+export type AdminBulkUsersRequest =
+  | { operation: "sign-out"; userIds: string[]; dryRun?: boolean }
+  | { operation: "set-role"; userIds: string[]; role: "user" | "admin"; dryRun?: boolean }
+  | { operation: "delete"; userIds: string[]; dryRun?: boolean };
+
+export type AdminBulkUsersResponse = {
+  success: boolean;
+  operation: AdminBulkUsersRequest["operation"];
+  dryRun: boolean;
+  /** With what a delete removed, or on a dry run would remove */
+  affected: Array<AuthUser & { summary?: AdminDeletedAccountSummary }>;
+  skipped: { userId: string; email?: string; reason: string }[];
 };
 
 type AdminSetRoleResponse = {
@@ -70,6 +146,11 @@ type AdminSetRoleResponse = {
   user: AuthUser;
 };
 
+type AdminResetTwoFactorResponse = {
+  success: boolean;
+  user: AuthUser;
+};
+
 type AdminResetPasswordResponse = {
   success: boolean;
   user: AuthUser;
@@ -97,20 +178,133 @@ type BookRecord = {
   rating?: number;
   notes?: string;
   progress?: number;
+  readThroughs?: {
+    id: string;
+    startedDate?: string;
+    finishedDate?: string;
+    rating?: number;
+    notes?: string;
+    dnf?: boolean;
+  }[];
   isPartOfSeries?: boolean;
   seriesId?: string;
   volumeNumber?: number;
   seriesPosition?: number;
   collectionIds?: string[];
+  tags?: string[];
+  copies?: {
+    id: string;
+    format: "hardcover" | "paperback" | "ebook" | "audiobook" | "library" | "wishlist";
+    edition?: string;
+    publisher?: string;
+    purchaseDate?: string;
+    purchasePrice?: number;
+    purchaseLocation?: string;
+    condition?: "new" | "like-new" | "very-good" | "good" | "fair" | "poor";
+    shelfLocation?: string;
+    audioMinutes?: number;
+  }[];
   _legacySeriesName?: string;
   _legacyNextBookTitle?: string;
   _legacyNextBookExpectedYear?: number;
   spineColor: number;
   addedDate: string;
+  revision?: number;
   createdAt?: string;
   updatedAt?: string;
 };
 
+/** Filters, sort and cursor for a page of GET /books */
+export type BookListParams = {
+  limit?: number;
+  cursor?: string;
+  sort?: "addedDate" | "updatedAt" | "title" | "author" | "rating" | "completedDate";
+  order?: "asc" | "desc";
+  status?: NonNullable<BookRecord["status"]>[];
+  genre?: string[];
+  tag?: string[];
+  format?: NonNullable<BookRecord["copies"]>[number]["format"][];
+  author?: string;
+  seriesId?: string;
+  collectionId?: string;
+  minRating?: number;
+  maxRating?: number;
+  addedFrom?: string;
+  addedTo?: string;
+  completedFrom?: string;
+  completedTo?: string;
+  q?: string;
+};
+
+export type BookListPage = {
+  items: BookRecord[];
+  /** Pass back as cursor for the next page; null on the last page */
+  nextCursor: string | null;
+  total: number;
+};
+
+/** Largest page the server hands out */
+const MAX_BOOK_PAGE_SIZE = 200;
+
+type QueryParams = Record<string, string | number | boolean | string[] | undefined>;
+
+const toQueryString = (params: QueryParams): string => {
+  const query = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === "") return;
+
+    if (Array.isArray(value)) {
+      value.forEach((entry) => query.append(key, entry));
+    } else {
+      query.set(key, String(value));
+    }
+  });
+
+  return query.toString();
+};
+
+/** A search result with its relevance score and highlighted fields */
+export type SearchResultRecord<T> = {
+  item: T;
+  score: number;
+  matches: {
+    field: string;
+    segments: { text: string; match: boolean }[];
+  }[];
+};
+
+export type BookSearchParams = {
+  q: string;
+  /** Fields a result must match in; all when left out */
+  fields?: string[];
+  exact?: boolean;
+  caseSensitive?: boolean;
+  limit?: number;
+};
+
+export type BookMergeRequest = {
+  targetId: string;
+  sourceIds: string[];
+  updates: Partial<BookRecord>;
+};
+
+type BookMergeResponse = {
+  book: BookRecord;
+  removedIds: string[];
+};
+
+/** Book changes where a null value clears the field */
+export type BookRecordPatch = {
+  [Field in keyof BookRecord]?: BookRecord[Field] | null;
+};
+
+export type BookBulkUpdateRequest = {
+  ids: string[];
+  patch: BookRecordPatch;
+  patches?: Record<string, BookRecordPatch>;
+};
+
 export type SeriesRecord = {
   id: string;
   name: string;
@@ -133,6 +327,7 @@ export type SeriesRecord = {
   };
   dateAdded: string;
   lastModified?: string;
+  revision?: number;
   createdAt?: string;
   updatedAt?: string;
 };
@@ -142,12 +337,33 @@ export type CollectionRecord = {
   name: string;
   description?: string;
   bookIds: string[];
+  rules?: CollectionRules | null;
   color?: string;
   imageUrl?: string;
+  revision?: number;
   createdAt: string;
   updatedAt: string;
 };
 
+/**
+ * Library changes since the last pull. With full set, the lists are the whole
+ * library and replace the local copy.
+ */
+export type SyncChangesResponse = {
+  full: boolean;
+  serverTime: string;
+  books: BookRecord[];
+  series: SeriesRecord[];
+  collections: CollectionRecord[];
+  loans: LoanRecord[];
+  deleted: {
+    books: string[];
+    series: string[];
+    collections: string[];
+    loans: string[];
+  };
+};
+
 export type UpcomingReleaseRecord = {
   id: string;
   title: string;
@@ -163,11 +379,47 @@ export type UpcomingReleaseRecord = {
   amazonProductId?: string;
 };
 
+export type ReadingSessionRecord = {
+  id: string;
+  bookId: string;
+  date: string;
+  startPage?: number;
+  endPage?: number;
+  minutes?: number;
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type LoanRecord = {
+  id: string;
+  bookId: string;
+  direction: "lent" | "borrowed";
+  person: string;
+  loanedDate: string;
+  dueDate?: string;
+  returnedDate?: string;
+  notes?: string;
+  remindedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/** Loan changes where a null value clears the field */
+export type LoanRecordPatch = {
+  [Field in keyof LoanRecord]?: LoanRecord[Field] | null;
+};
+
+export type LoanListParams = {
+  bookId?: string;
+  status?: "active" | "overdue" | "returned";
+};
+
 export type NotificationRecord = {
   id: string;
   title: string;
   message: string;
-  type: "release" | "system" | "update" | "alert";
+  type: "release" | "system" | "update" | "alert" | "loan";
   createdAt: string;
   isRead: boolean;
   isDismissed: boolean;
@@ -176,6 +428,35 @@ export type NotificationRecord = {
   actionUrl?: string;
 };
 
+/** A whole-account archive; the top level doubles as an in-app backup */
+export type AccountArchive = {
+  version: string;
+  archiveVersion: number;
+  timestamp: string;
+  [section: string]: unknown;
+};
+
+export type AccountImportSummary = Record<
+  | "books"
+  | "series"
+  | "collections"
+  | "upcomingReleases"
+  | "notifications"
+  | "readingSessions"
+  | "loans"
+  | "settings"
+  | "announcementStates",
+  { created: number; updated: number }
+>;
+
+export type AdminLockedAccountRecord = {
+  email: string;
+  failedAttempts: number;
+  lockedUntil: string;
+  lastFailedAt: string;
+  lastFailedIp?: string;
+};
+
 export type AdminAuditLogRecord = {
   id: string;
   actorUserId: string;
@@ -185,15 +466,62 @@ export type AdminAuditLogRecord = {
     | "admin.user.demoted"
     | "admin.user.password_reset"
     | "admin.user.deleted"
+    | "admin.user.two_factor_reset"
+    | "admin.user.unlocked"
+    | "admin.user.signed_out"
     | "admin.announcement.created"
     | "admin.announcement.updated"
     | "admin.announcement.deleted"
     | "admin.announcement.activated"
-    | "admin.announcement.deactivated";
+    | "admin.announcement.deactivated"
+    | "user.two_factor.enabled"
+    | "user.two_factor.disabled";
   targetUserId?: string;
   targetUserEmail?: string;
   details?: Record<string, unknown>;
   createdAt: string;
+  /** Position in the tamper-evident chain; absent on entries written before it */
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+};
+
+export type AdminAuditLogListParams = {
+  limit?: number;
+  cursor?: string;
+  auditAction?: AdminAuditLogRecord["action"][];
+  /** A user id or email address */
+  actor?: string;
+  /** A user id or email address */
+  target?: string;
+  from?: string;
+  to?: string;
+};
+
+export type AdminAuditLogPage = {
+  items: AdminAuditLogRecord[];
+  /** Pass back as cursor for the next page; null on the last page */
+  nextCursor: string | null;
+  total: number;
+};
+
+export type AdminAuditLogVerification = {
+  valid: boolean;
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  /** Entries written before chaining began, which cannot be verified */
+  unchained: number;
+  /** Oldest remaining sequence once retention has removed earlier entries */
+  prunedBefore: number | null;
+  breaks: {
+    sequence: number;
+    id: string;
+    reason: "hash-mismatch" | "previous-hash-mismatch" | "missing-entries";
+    missingFrom?: number;
+    missingTo?: number;
+  }[];
+  truncated: boolean;
 };
 
 export type SystemAnnouncementRecord = {
@@ -235,6 +563,28 @@ export class ApiClientError extends Error {
   }
 }
 
+/**
+ * The server's current copy from a 409 or 412 response to a change based on
+ * an old revision, or null for any other error
+ */
+export const getRevisionConflictCurrent = <T>(error: unknown): T | null => {
+  if (
+    !(error instanceof ApiClientError) ||
+    (error.status !== 409 && error.status !== 412)
+  ) {
+    return null;
+  }
+
+  const details = error.details as { current?: T } | undefined;
+  return details?.current ?? null;
+};
+
+/**
+ * Headers making an update apply only to the given revision
+ */
+export const revisionHeaders = (revision?: number): HeadersInit | undefined =>
+  revision === undefined ? undefined : { "If-Match": `"${revision}"` };
+
 export const getApiBaseUrl = (): string => {
   const configuredBaseUrl = import.meta.env.VITE_API_URL?.trim();
 
@@ -280,15 +630,46 @@ const parseResponseBody = async (response: Response): Promise<unknown> => {
   return response.text();
 };
 
+/**
+ * Trades the refresh token for a new access token. A rejected refresh token
+ * ends the session; network errors leave it in place for the next attempt.
+ */
+const refreshAuthSession = async (): Promise<boolean> => {
+  try {
+    const token = await refreshStoredAuthToken((refreshToken) =>
+      authApi.refresh(refreshToken),
+    );
+    return Boolean(token);
+  } catch (error) {
+    if (error instanceof ApiClientError && error.status === 401) {
+      clearStoredAuthSession();
+    }
+
+    return false;
+  }
+};
+
 export const apiRequest = async <T>(
   path: string,
   { auth = false, body, headers, method = "GET" }: ApiRequestOptions = {},
 ): Promise<T> => {
-  const response = await fetch(`${getApiBaseUrl()}${path}`, {
-    method,
-    headers: buildHeaders(auth, headers),
-    body: body === undefined ? undefined : JSON.stringify(body),
-  });
+  if (auth && shouldRefreshStoredAuthToken()) {
+    await refreshAuthSession();
+  }
+
+  const sendRequest = () =>
+    fetch(`${getApiBaseUrl()}${path}`, {
+      method,
+      headers: buildHeaders(auth, headers),
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  let response = await sendRequest();
+
+  if (response.status === 401 && auth && getStoredRefreshToken() && (await refreshAuthSession())) {
+    response = await sendRequest();
+  }
+
   const responseBody = await parseResponseBody(response);
 
   if (!response.ok) {
@@ -314,7 +695,35 @@ export const apiRequest = async <T>(
 
 export const authApi = {
   login: (payload: { email: string; password: string }) =>
-    apiRequest<AuthResponse>("/auth/login", {
+    apiRequest<AuthResponse | TwoFactorChallengeResponse>("/auth/login", {
+      method: "POST",
+      body: payload,
+    }),
+  loginTwoFactor: (payload: { challengeToken: string } & SecondFactorInput) =>
+    apiRequest<AuthResponse>("/auth/login-2fa", {
+      method: "POST",
+      body: payload,
+    }),
+  setupTwoFactor: () =>
+    apiRequest<TwoFactorSetupResponse>("/auth/two-factor-setup", {
+      auth: true,
+      method: "POST",
+    }),
+  enableTwoFactor: (payload: { code: string }) =>
+    apiRequest<{ recoveryCodes: string[]; user: AuthUser }>("/auth/two-factor-enable", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
+  disableTwoFactor: (payload: { currentPassword: string } & SecondFactorInput) =>
+    apiRequest<AuthUser>("/auth/two-factor-disable", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
+  regenerateRecoveryCodes: (payload: { currentPassword: string } & SecondFactorInput) =>
+    apiRequest<{ recoveryCodes: string[] }>("/auth/two-factor-recovery-codes", {
+      auth: true,
       method: "POST",
       body: payload,
     }),
@@ -331,21 +740,98 @@ export const authApi = {
     apiRequest<AuthUser>("/auth/me", {
       auth: true,
     }),
+  refresh: (refreshToken: string) =>
+    apiRequest<AuthResponse>("/auth/refresh", {
+      method: "POST",
+      body: { refreshToken },
+    }),
+  logout: (refreshToken: string) =>
+    apiRequest<{ success: boolean }>("/auth/logout", {
+      method: "POST",
+      body: { refreshToken },
+    }),
+  getSessions: () =>
+    apiRequest<{ sessions: AuthSessionRecord[] }>("/auth/sessions", {
+      auth: true,
+      method: "GET",
+    }),
+  revokeSession: (sessionId: string) =>
+    apiRequest<{ success: boolean; current: boolean }>("/auth/revoke-session", {
+      auth: true,
+      method: "POST",
+      body: { sessionId },
+    }),
+  revokeOtherSessions: () =>
+    apiRequest<{ success: boolean; revoked: number }>("/auth/revoke-sessions", {
+      auth: true,
+      method: "POST",
+    }),
   deleteAccount: () =>
     apiRequest<{ success: boolean }>("/auth/account", {
       auth: true,
       method: "DELETE",
     }),
+  exportAccount: () =>
+    apiRequest<AccountArchive>("/auth/export-account", {
+      auth: true,
+      method: "GET",
+    }),
+  importAccount: (archive: unknown) =>
+    apiRequest<{ success: boolean; summary: AccountImportSummary }>("/auth/import-account", {
+      auth: true,
+      method: "POST",
+      body: archive,
+    }),
   getAdminUsers: () =>
     apiRequest<AuthUser[]>("/auth/admin-users", {
       auth: true,
       method: "GET",
     }),
+  getAdminUsersPage: (params: AdminUserListParams = {}) =>
+    apiRequest<AdminUserListPage>(`/auth/admin-users?${toQueryString({ limit: 50, ...params })}`, {
+      auth: true,
+      method: "GET",
+    }),
+  adminBulkUsers: (payload: AdminBulkUsersRequest) =>
+    apiRequest<AdminBulkUsersResponse>("/auth/admin-users-bulk", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
+  getAdminLockedAccounts: () =>
+    apiRequest<AdminLockedAccountRecord[]>("/auth/admin-locked-accounts", {
+      auth: true,
+      method: "GET",
+    }),
+  adminUnlockAccount: (payload: { email: string }) =>
+    apiRequest<{ success: boolean }>("/auth/admin-unlock-account", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
   getAdminAuditLogs: () =>
     apiRequest<AdminAuditLogRecord[]>("/auth/admin-audit-logs", {
       auth: true,
       method: "GET",
     }),
+  getAdminAuditLogsPage: (params: AdminAuditLogListParams = {}) =>
+    apiRequest<AdminAuditLogPage>(`/auth/admin-audit-logs?${toQueryString({ limit: 50, ...params })}`, {
+      auth: true,
+      method: "GET",
+    }),
+  exportAdminAuditLogs: (
+    format: "csv" | "ndjson",
+    params: Omit<AdminAuditLogListParams, "limit" | "cursor"> = {},
+  ) =>
+    apiRequest<string>(`/auth/admin-audit-logs-export?${toQueryString({ ...params, format })}`, {
+      auth: true,
+      method: "GET",
+    }),
+  verifyAdminAuditLogs: () =>
+    apiRequest<AdminAuditLogVerification>("/auth/admin-audit-logs-verify", {
+      auth: true,
+      method: "GET",
+    }),
   getAdminSystemAnnouncements: () =>
     apiRequest<AdminSystemAnnouncementRecord[]>(
       "/auth/admin-system-announcements",
@@ -442,8 +928,14 @@ export const authApi = {
       method: "POST",
       body: payload,
     }),
+  adminResetTwoFactor: (payload: { userId: string }) =>
+    apiRequest<AdminResetTwoFactorResponse>("/auth/admin-reset-two-factor", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
   changeEmail: (payload: { currentPassword: string; email: string }) =>
-    apiRequest<AuthResponse>("/auth/change-email", {
+    apiRequest<Omit<AuthResponse, "refreshToken">>("/auth/change-email", {
       auth: true,
       method: "POST",
       body: payload,
@@ -484,10 +976,23 @@ export const authApi = {
 };
 
 export const booksApi = {
-  getAll: () =>
-    apiRequest<BookRecord[]>("/books", {
+  list: (params: BookListParams = {}) =>
+    apiRequest<BookListPage>(`/books?${toQueryString({ limit: 50, ...params })}`, {
       auth: true,
     }),
+  /** The whole library, fetched page by page */
+  getAll: async (): Promise<BookRecord[]> => {
+    const books: BookRecord[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await booksApi.list({ limit: MAX_BOOK_PAGE_SIZE, cursor });
+      books.push(...page.items);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return books;
+  },
   getById: (id: string) =>
     apiRequest<BookRecord>(`/books/${id}`, {
       auth: true,
@@ -498,17 +1003,36 @@ export const booksApi = {
       method: "POST",
       body: payload,
     }),
-  update: (id: string, payload: Partial<BookRecord>) =>
+  update: (id: string, payload: Partial<BookRecord>, revision?: number) =>
     apiRequest<BookRecord>(`/books/${id}`, {
       auth: true,
       method: "PUT",
       body: payload,
+      headers: revisionHeaders(revision),
     }),
   delete: (id: string) =>
     apiRequest<{ success: boolean }>(`/books/${id}`, {
       auth: true,
       method: "DELETE",
     }),
+  merge: (payload: BookMergeRequest) =>
+    apiRequest<BookMergeResponse>("/books/merge", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
+  bulkUpdate: (payload: BookBulkUpdateRequest) =>
+    apiRequest<BookRecord[]>("/books", {
+      auth: true,
+      method: "PATCH",
+      body: payload,
+    }),
+  bulkDelete: (ids: string[]) =>
+    apiRequest<{ success: boolean; deletedIds: string[] }>("/books", {
+      auth: true,
+      method: "DELETE",
+      body: { ids },
+    }),
 };
 
 export const seriesApi = {
@@ -526,11 +1050,12 @@ export const seriesApi = {
       method: "POST",
       body: payload,
     }),
-  update: (id: string, payload: Partial<SeriesRecord>) =>
+  update: (id: string, payload: Partial<SeriesRecord>, revision?: number) =>
     apiRequest<SeriesRecord>(`/series/${id}`, {
       auth: true,
       method: "PUT",
       body: payload,
+      headers: revisionHeaders(revision),
     }),
   delete: (id: string) =>
     apiRequest<{ success: boolean }>(`/series/${id}`, {
@@ -554,11 +1079,12 @@ export const collectionsApi = {
       method: "POST",
       body: payload,
     }),
-  update: (id: string, payload: Partial<CollectionRecord>) =>
+  update: (id: string, payload: Partial<CollectionRecord>, revision?: number) =>
     apiRequest<CollectionRecord>(`/collections/${id}`, {
       auth: true,
       method: "PUT",
       body: payload,
+      headers: revisionHeaders(revision),
     }),
   delete: (id: string) =>
     apiRequest<{ success: boolean }>(`/collections/${id}`, {
@@ -635,3 +1161,87 @@ export const notificationsApi = {
       method: "DELETE",
     }),
 };
+
+export const readingSessionsApi = {
+  getAll: (bookId?: string) =>
+    apiRequest<ReadingSessionRecord[]>(
+      bookId
+        ? `/reading-sessions?bookId=${encodeURIComponent(bookId)}`
+        : "/reading-sessions",
+      {
+        auth: true,
+      },
+    ),
+  getById: (id: string) =>
+    apiRequest<ReadingSessionRecord>(`/reading-sessions/${id}`, {
+      auth: true,
+    }),
+  create: (payload: ReadingSessionRecord) =>
+    apiRequest<ReadingSessionRecord>("/reading-sessions", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
+  update: (id: string, payload: Partial<ReadingSessionRecord>) =>
+    apiRequest<ReadingSessionRecord>(`/reading-sessions/${id}`, {
+      auth: true,
+      method: "PUT",
+      body: payload,
+    }),
+  delete: (id: string) =>
+    apiRequest<{ success: boolean }>(`/reading-sessions/${id}`, {
+      auth: true,
+      method: "DELETE",
+    }),
+};
+
+export const loansApi = {
+  getAll: (params: LoanListParams = {}) => {
+    const query = toQueryString(params);
+
+    return apiRequest<LoanRecord[]>(query ? `/loans?${query}` : "/loans", {
+      auth: true,
+    });
+  },
+  getById: (id: string) =>
+    apiRequest<LoanRecord>(`/loans/${id}`, {
+      auth: true,
+    }),
+  create: (payload: LoanRecord) =>
+    apiRequest<LoanRecord>("/loans", {
+      auth: true,
+      method: "POST",
+      body: payload,
+    }),
+  update: (id: string, payload: LoanRecordPatch) =>
+    apiRequest<LoanRecord>(`/loans/${id}`, {
+      auth: true,
+      method: "PUT",
+      body: payload,
+    }),
+  delete: (id: string) =>
+    apiRequest<{ success: boolean }>(`/loans/${id}`, {
+      auth: true,
+      method: "DELETE",
+    }),
+};
+
+export const searchApi = {
+  books: (params: BookSearchParams) =>
+    apiRequest<{ results: SearchResultRecord<BookRecord>[] }>(`/search?${toQueryString({
+      ...params,
+      fields: params.fields?.length ? params.fields.join(",") : undefined,
+    })}`, {
+      auth: true,
+    }),
+};
+
+export const syncApi = {
+  getChanges: (since?: string) =>
+    apiRequest<SyncChangesResponse>(
+      since ? `/sync?since=${encodeURIComponent(since)}` : "/sync",
+      {
+        auth: true,
+      },
+    ),
+};
@@ -5,11 +5,25 @@ export type AuthUser = {
   role: "user" | "admin";
   createdAt: string;
   lastLoginAt?: string;
+  twoFactorEnabled?: boolean;
   updatedAt: string;
 };
 
+export type AuthSessionTokens = {
+  token: string;
+  refreshToken: string;
+  user?: AuthUser;
+};
+
+export type AuthTokenRefresher = (refreshToken: string) => Promise<AuthSessionTokens>;
+
 const AUTH_TOKEN_KEY = "auth_token";
+const AUTH_REFRESH_TOKEN_KEY = "auth_refresh_token";
 const AUTH_USER_KEY = "auth_user";
+/** Refresh this long before the access token runs out */
+const AUTH_TOKEN_REFRESH_LEEWAY_MS = 1000 * 60;
+
+let pendingRefresh: Promise<string | null> | null = null;
 
 export const getStoredAuthToken = (): string | null => {
   return localStorage.getItem(AUTH_TOKEN_KEY);
@@ -23,6 +37,18 @@ export const clearStoredAuthToken = (): void => {
   localStorage.removeItem(AUTH_TOKEN_KEY);
 };
 
+export const getStoredRefreshToken = (): string | null => {
+  return localStorage.getItem(AUTH_REFRESH_TOKEN_KEY);
+};
+
+export const setStoredRefreshToken = (refreshToken: string): void => {
+  localStorage.setItem(AUTH_REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearStoredRefreshToken = (): void => {
+  localStorage.removeItem(AUTH_REFRESH_TOKEN_KEY);
+};
+
 export const getStoredAuthUser = (): AuthUser | null => {
   const rawUser = localStorage.getItem(AUTH_USER_KEY);
 
@@ -46,7 +72,90 @@ export const clearStoredAuthUser = (): void => {
   localStorage.removeItem(AUTH_USER_KEY);
 };
 
+export const setStoredAuthSession = ({ token, refreshToken, user }: AuthSessionTokens): void => {
+  setStoredAuthToken(token);
+  setStoredRefreshToken(refreshToken);
+
+  if (user) {
+    setStoredAuthUser(user);
+  }
+};
+
 export const clearStoredAuthSession = (): void => {
   clearStoredAuthToken();
+  clearStoredRefreshToken();
   clearStoredAuthUser();
 };
+
+/**
+ * When a JWT expires, read from its payload without verifying it
+ */
+const getTokenExpiresAt = (token: string): number | null => {
+  const [, payload] = token.split(".");
+
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/"))) as {
+      exp?: unknown;
+    };
+    return typeof decoded.exp === "number" ? decoded.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the stored access token has run out, or is about to, and there
+ * is a refresh token to replace it with
+ */
+export const shouldRefreshStoredAuthToken = (now = Date.now()): boolean => {
+  const token = getStoredAuthToken();
+
+  if (!token || !getStoredRefreshToken()) {
+    return false;
+  }
+
+  const expiresAt = getTokenExpiresAt(token);
+  return expiresAt !== null && expiresAt - AUTH_TOKEN_REFRESH_LEEWAY_MS <= now;
+};
+
+/**
+ * Swaps the stored refresh token for a new pair of tokens. Concurrent
+ * callers share one request, since each refresh token can only be used
+ * once. If the refresh fails because another tab already rotated the
+ * token, that tab's tokens are picked up instead.
+ */
+export const refreshStoredAuthToken = (refresher: AuthTokenRefresher): Promise<string | null> => {
+  if (pendingRefresh) {
+    return pendingRefresh;
+  }
+
+  const refreshToken = getStoredRefreshToken();
+
+  if (!refreshToken) {
+    return Promise.resolve(null);
+  }
+
+  pendingRefresh = refresher(refreshToken)
+    .then((session) => {
+      setStoredAuthSession(session);
+      return session.token;
+    })
+    .catch((error: unknown) => {
+      const latestRefreshToken = getStoredRefreshToken();
+
+      if (latestRefreshToken && latestRefreshToken !== refreshToken) {
+        return getStoredAuthToken();
+      }
+
+      throw error;
+    })
+    .finally(() => {
+      pendingRefresh = null;
+    });
+
+  return pendingRefresh;
+};
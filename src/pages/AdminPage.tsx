@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useLocation } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -14,6 +14,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -24,17 +25,24 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { FileText, KeyRound, Megaphone, Trash2, UserCircle } from "lucide-react";
+import { Download, FileText, KeyRound, LogOut, Megaphone, ShieldCheck, Trash2, UserCircle } from "lucide-react";
 import { PageHeader } from '@/components/ui/page-header';
+import { LockedAccounts } from '@/components/auth/LockedAccounts';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import {
+  AdminAuditLogListParams,
   AdminAuditLogRecord,
+  AdminAuditLogVerification,
+  AdminBulkUsersRequest,
+  AdminBulkUsersResponse,
   AdminSystemAnnouncementRecord,
+  AdminUserListParams,
   ApiClientError,
   authApi,
 } from '@/lib/apiClient';
 import type { AuthUser } from '@/lib/auth-storage';
+import { downloadFile } from '@/utils/exportUtils';
 
 type AnnouncementFormState = {
   title: string;
@@ -51,6 +59,130 @@ type AnnouncementFormState = {
   ctaUrl: string;
 };
 
+type UserListFilters = {
+  q: string;
+  role: 'all' | 'user' | 'admin';
+  twoFactor: 'all' | 'enabled' | 'disabled';
+  inactiveDays: 'any' | '30' | '90' | '180' | '365';
+  createdFrom: string;
+  createdTo: string;
+  sort: 'createdAt:desc' | 'createdAt:asc' | 'lastLoginAt:desc' | 'lastLoginAt:asc' | 'email:asc' | 'email:desc';
+};
+
+const DEFAULT_USER_LIST_FILTERS: UserListFilters = {
+  q: '',
+  role: 'all',
+  twoFactor: 'all',
+  inactiveDays: 'any',
+  createdFrom: '',
+  createdTo: '',
+  sort: 'createdAt:desc',
+};
+
+type AuditLogFilters = {
+  auditAction: 'all' | AdminAuditLogRecord['action'];
+  actor: string;
+  target: string;
+  from: string;
+  to: string;
+};
+
+const DEFAULT_AUDIT_LOG_FILTERS: AuditLogFilters = {
+  auditAction: 'all',
+  actor: '',
+  target: '',
+  from: '',
+  to: '',
+};
+
+const AUDIT_LOG_ACTIONS: AdminAuditLogRecord['action'][] = [
+  'admin.user.promoted',
+  'admin.user.demoted',
+  'admin.user.password_reset',
+  'admin.user.deleted',
+  'admin.user.two_factor_reset',
+  'admin.user.unlocked',
+  'admin.user.signed_out',
+  'admin.announcement.created',
+  'admin.announcement.updated',
+  'admin.announcement.deleted',
+  'admin.announcement.activated',
+  'admin.announcement.deactivated',
+  'user.two_factor.enabled',
+  'user.two_factor.disabled',
+];
+
+// Wait for typing to pause before asking the server again
+const USER_QUERY_DELAY_MS = 250;
+
+const toAuditLogListParams = (
+  filters: AuditLogFilters,
+): Omit<AdminAuditLogListParams, 'limit' | 'cursor'> => ({
+  auditAction: filters.auditAction === 'all' ? undefined : [filters.auditAction],
+  actor: filters.actor.trim() || undefined,
+  target: filters.target.trim() || undefined,
+  from: filters.from || undefined,
+  to: filters.to || undefined,
+});
+
+const describeChainBreak = (
+  chainBreak: AdminAuditLogVerification['breaks'][number],
+): string => {
+  switch (chainBreak.reason) {
+    case 'hash-mismatch':
+      return `Entry ${chainBreak.sequence} was changed after it was written.`;
+    case 'previous-hash-mismatch':
+      return `Entry ${chainBreak.sequence} does not link to the entry before it.`;
+    default:
+      return chainBreak.missingFrom === chainBreak.missingTo
+        ? `Entry ${chainBreak.missingFrom} is missing.`
+        : `Entries ${chainBreak.missingFrom} to ${chainBreak.missingTo} are missing.`;
+  }
+};
+
+const toUserListParams = (filters: UserListFilters): AdminUserListParams => {
+  const [sort, order] = filters.sort.split(':') as [AdminUserListParams['sort'], AdminUserListParams['order']];
+
+  return {
+    sort,
+    order,
+    q: filters.q.trim() || undefined,
+    role: filters.role === 'all' ? undefined : filters.role,
+    twoFactor: filters.twoFactor === 'all' ? undefined : filters.twoFactor,
+    inactiveDays: filters.inactiveDays === 'any' ? undefined : Number(filters.inactiveDays),
+    createdFrom: filters.createdFrom || undefined,
+    createdTo: filters.createdTo || undefined,
+  };
+};
+
+const describeBulkResult = (result: AdminBulkUsersResponse): string => {
+  const count = `${result.affected.length} ${result.affected.length === 1 ? 'user' : 'users'}`;
+  const skipped = result.skipped.length > 0
+    ? ` Skipped ${result.skipped.map((skip) => `${skip.email || skip.userId} (${skip.reason.replace(/\.$/, '').toLowerCase()})`).join(', ')}.`
+    : '';
+
+  switch (result.operation) {
+    case 'sign-out':
+      return `Signed out ${count} on every device.${skipped}`;
+    case 'set-role':
+      return `Updated the role of ${count}.${skipped}`;
+    default:
+      return `Permanently deleted ${count}.${skipped}`;
+  }
+};
+
+const sumDeleteSummaries = (result: AdminBulkUsersResponse) =>
+  result.affected.reduce(
+    (total, affectedUser) => ({
+      books: total.books + (affectedUser.summary?.books ?? 0),
+      series: total.series + (affectedUser.summary?.series ?? 0),
+      collections: total.collections + (affectedUser.summary?.collections ?? 0),
+      readingSessions: total.readingSessions + (affectedUser.summary?.readingSessions ?? 0),
+      loans: total.loans + (affectedUser.summary?.loans ?? 0),
+    }),
+    { books: 0, series: 0, collections: 0, readingSessions: 0, loans: 0 },
+  );
+
 const createEmptyAnnouncementForm = (): AnnouncementFormState => ({
   title: '',
   announcementBody: '',
@@ -121,8 +253,14 @@ export default function AdminPage() {
   const [activeTab, setActiveTab] = useState(tabParam || 'account');
   const [isLoadingUsers, setIsLoadingUsers] = useState(true);
   const [users, setUsers] = useState<AuthUser[]>([]);
-  const [userFilterQuery, setUserFilterQuery] = useState('');
+  const [usersTotal, setUsersTotal] = useState(0);
+  const [usersNextCursor, setUsersNextCursor] = useState<string | null>(null);
+  const [isLoadingMoreUsers, setIsLoadingMoreUsers] = useState(false);
+  const [userListFilters, setUserListFilters] = useState<UserListFilters>(DEFAULT_USER_LIST_FILTERS);
   const [usersError, setUsersError] = useState<string | null>(null);
+  const [checkedUserIds, setCheckedUserIds] = useState<string[]>([]);
+  const [isRunningBulkAction, setIsRunningBulkAction] = useState(false);
+  const [bulkDeletePreview, setBulkDeletePreview] = useState<AdminBulkUsersResponse | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [selectedUserDetail, setSelectedUserDetail] = useState<{
     user: AuthUser;
@@ -141,6 +279,7 @@ export default function AdminPage() {
   const [showResetPasswordConfirmation, setShowResetPasswordConfirmation] = useState(false);
   const [resetPasswordConfirmationValue, setResetPasswordConfirmationValue] = useState('');
   const [isResettingSelectedUserPassword, setIsResettingSelectedUserPassword] = useState(false);
+  const [isResettingSelectedUserTwoFactor, setIsResettingSelectedUserTwoFactor] = useState(false);
   const [generatedTemporaryPassword, setGeneratedTemporaryPassword] = useState<string | null>(null);
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [deleteConfirmationValue, setDeleteConfirmationValue] = useState('');
@@ -148,6 +287,13 @@ export default function AdminPage() {
   const [isLoadingAuditLogs, setIsLoadingAuditLogs] = useState(false);
   const [auditLogs, setAuditLogs] = useState<AdminAuditLogRecord[]>([]);
   const [auditLogsError, setAuditLogsError] = useState<string | null>(null);
+  const [auditLogFilters, setAuditLogFilters] = useState<AuditLogFilters>(DEFAULT_AUDIT_LOG_FILTERS);
+  const [auditLogsTotal, setAuditLogsTotal] = useState(0);
+  const [auditLogsNextCursor, setAuditLogsNextCursor] = useState<string | null>(null);
+  const [isLoadingMoreAuditLogs, setIsLoadingMoreAuditLogs] = useState(false);
+  const [exportingAuditLogFormat, setExportingAuditLogFormat] = useState<'csv' | 'ndjson' | null>(null);
+  const [isVerifyingAuditLogs, setIsVerifyingAuditLogs] = useState(false);
+  const [auditLogVerification, setAuditLogVerification] = useState<AdminAuditLogVerification | null>(null);
   const [isLoadingAnnouncements, setIsLoadingAnnouncements] = useState(false);
   const [announcementsError, setAnnouncementsError] = useState<string | null>(null);
   const [announcements, setAnnouncements] = useState<AdminSystemAnnouncementRecord[]>([]);
@@ -159,27 +305,61 @@ export default function AdminPage() {
   const [showDeleteAnnouncementConfirmation, setShowDeleteAnnouncementConfirmation] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
+  // Responses to anything but the latest user list request are dropped
+  const usersRequestIdRef = useRef(0);
+  const userListParamsKey = JSON.stringify(toUserListParams(userListFilters));
 
-  useEffect(() => {
-    const loadUsers = async () => {
-      try {
+  const loadUsers = useCallback(async (cursor?: string) => {
+    const requestId = ++usersRequestIdRef.current;
+
+    try {
+      if (cursor) {
+        setIsLoadingMoreUsers(true);
+      } else {
         setIsLoadingUsers(true);
-        setUsersError(null);
-        const nextUsers = await authApi.getAdminUsers();
-        setUsers(nextUsers);
-      } catch (error) {
-        setUsersError(
-          error instanceof ApiClientError
-            ? error.message
-            : 'Unable to load users.',
-        );
-      } finally {
+      }
+
+      setUsersError(null);
+      const page = await authApi.getAdminUsersPage({ ...JSON.parse(userListParamsKey), cursor });
+
+      if (requestId !== usersRequestIdRef.current) {
+        return;
+      }
+
+      setUsers((currentUsers) => {
+        const loadedIds = new Set(cursor ? currentUsers.map((listedUser) => listedUser.id) : []);
+        return cursor
+          ? [...currentUsers, ...page.items.filter((listedUser) => !loadedIds.has(listedUser.id))]
+          : page.items;
+      });
+      setUsersTotal(page.total);
+      setUsersNextCursor(page.nextCursor);
+
+      if (!cursor) {
+        setCheckedUserIds([]);
+      }
+    } catch (error) {
+      if (requestId !== usersRequestIdRef.current) {
+        return;
+      }
+
+      setUsersError(
+        error instanceof ApiClientError
+          ? error.message
+          : 'Unable to load users.',
+      );
+    } finally {
+      if (requestId === usersRequestIdRef.current) {
         setIsLoadingUsers(false);
+        setIsLoadingMoreUsers(false);
       }
-    };
+    }
+  }, [userListParamsKey]);
 
-    void loadUsers();
-  }, []);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => void loadUsers(), USER_QUERY_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [loadUsers]);
 
   useEffect(() => {
     if (!selectedUserId) {
@@ -212,30 +392,56 @@ export default function AdminPage() {
     void loadSelectedUser();
   }, [selectedUserId]);
 
-  useEffect(() => {
-    if (activeTab !== 'audit-logs') {
-      return;
-    }
+  // Responses to anything but the latest audit log request are dropped
+  const auditLogsRequestIdRef = useRef(0);
+  const auditLogParamsKey = JSON.stringify(toAuditLogListParams(auditLogFilters));
 
-    const loadAuditLogs = async () => {
-      try {
+  const loadAuditLogs = useCallback(async (cursor?: string) => {
+    const requestId = ++auditLogsRequestIdRef.current;
+
+    try {
+      if (cursor) {
+        setIsLoadingMoreAuditLogs(true);
+      } else {
         setIsLoadingAuditLogs(true);
-        setAuditLogsError(null);
-        const nextLogs = await authApi.getAdminAuditLogs();
-        setAuditLogs(nextLogs);
-      } catch (error) {
-        setAuditLogsError(
-          error instanceof ApiClientError
-            ? error.message
-            : 'Unable to load admin audit logs.',
-        );
-      } finally {
+      }
+
+      setAuditLogsError(null);
+      const page = await authApi.getAdminAuditLogsPage({ ...JSON.parse(auditLogParamsKey), cursor });
+
+      if (requestId !== auditLogsRequestIdRef.current) {
+        return;
+      }
+
+      setAuditLogs((currentLogs) => (cursor ? [...currentLogs, ...page.items] : page.items));
+      setAuditLogsTotal(page.total);
+      setAuditLogsNextCursor(page.nextCursor);
+    } catch (error) {
+      if (requestId !== auditLogsRequestIdRef.current) {
+        return;
+      }
+
+      setAuditLogsError(
+        error instanceof ApiClientError
+          ? error.message
+          : 'Unable to load admin audit logs.',
+      );
+    } finally {
+      if (requestId === auditLogsRequestIdRef.current) {
         setIsLoadingAuditLogs(false);
+        setIsLoadingMoreAuditLogs(false);
       }
-    };
+    }
+  }, [auditLogParamsKey]);
 
-    void loadAuditLogs();
-  }, [activeTab]);
+  useEffect(() => {
+    if (activeTab !== 'audit-logs') {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => void loadAuditLogs(), USER_QUERY_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [activeTab, loadAuditLogs]);
 
   useEffect(() => {
     if (activeTab !== 'announcements') {
@@ -269,18 +475,22 @@ export default function AdminPage() {
   const deleteConfirmationMatches =
     deleteConfirmationValue.trim().toLowerCase() ===
     (selectedUserDetail?.user.email || '').trim().toLowerCase();
-  const normalizedUserFilterQuery = userFilterQuery.trim().toLowerCase();
-  const filteredUsers = users.filter((listedUser) => {
-    if (!normalizedUserFilterQuery) {
-      return true;
-    }
-
-    return [
-      listedUser.email,
-      listedUser.preferredName || '',
-      listedUser.role,
-    ].some((value) => value.toLowerCase().includes(normalizedUserFilterQuery));
-  });
+  const bulkDeleteTotals = bulkDeletePreview ? sumDeleteSummaries(bulkDeletePreview) : null;
+  const allListedUsersChecked =
+    users.length > 0 && users.every((listedUser) => checkedUserIds.includes(listedUser.id));
+  const updateUserListFilter = <Key extends keyof UserListFilters>(
+    key: Key,
+    value: UserListFilters[Key],
+  ) => {
+    setUserListFilters((currentFilters) => ({ ...currentFilters, [key]: value }));
+  };
+  const toggleCheckedUser = (userId: string, checked: boolean) => {
+    setCheckedUserIds((currentIds) =>
+      checked
+        ? [...currentIds.filter((id) => id !== userId), userId]
+        : currentIds.filter((id) => id !== userId),
+    );
+  };
   const selectedAnnouncement = announcements.find(
     (announcement) => announcement.id === selectedAnnouncementId,
   ) || null;
@@ -374,6 +584,87 @@ export default function AdminPage() {
     }
   };
 
+  const handleBulkUserAction = async (request: AdminBulkUsersRequest) => {
+    try {
+      setIsRunningBulkAction(true);
+
+      const result = await authApi.adminBulkUsers(request);
+
+      if (result.dryRun) {
+        setBulkDeletePreview(result);
+        return;
+      }
+
+      if (selectedUserId && result.affected.some((affectedUser) => affectedUser.id === selectedUserId)) {
+        setSelectedUserId(null);
+      }
+
+      setBulkDeletePreview(null);
+      toast({
+        title: result.affected.length > 0 ? 'Bulk action complete' : 'Nothing changed',
+        description: describeBulkResult(result),
+      });
+      await loadUsers();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Bulk action failed",
+        description:
+          error instanceof ApiClientError
+            ? error.message
+            : 'Failed to update the selected users.',
+      });
+    } finally {
+      setIsRunningBulkAction(false);
+    }
+  };
+
+  const handleExportAuditLogs = async (format: 'csv' | 'ndjson') => {
+    try {
+      setExportingAuditLogFormat(format);
+
+      const content = await authApi.exportAdminAuditLogs(
+        format,
+        JSON.parse(auditLogParamsKey),
+      );
+
+      downloadFile(
+        content,
+        `admin-audit-log-${new Date().toISOString().slice(0, 10)}.${format}`,
+        format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Audit log export failed",
+        description:
+          error instanceof ApiClientError
+            ? error.message
+            : 'Failed to export the admin audit logs.',
+      });
+    } finally {
+      setExportingAuditLogFormat(null);
+    }
+  };
+
+  const handleVerifyAuditLogs = async () => {
+    try {
+      setIsVerifyingAuditLogs(true);
+      setAuditLogVerification(await authApi.verifyAdminAuditLogs());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Audit log verification failed",
+        description:
+          error instanceof ApiClientError
+            ? error.message
+            : 'Failed to verify the admin audit logs.',
+      });
+    } finally {
+      setIsVerifyingAuditLogs(false);
+    }
+  };
+
   const handleResetSelectedUserPassword = async () => {
     if (!selectedUserDetail) {
       return;
@@ -408,6 +699,50 @@ export default function AdminPage() {
     }
   };
 
+  const handleResetSelectedUserTwoFactor = async () => {
+    if (!selectedUserDetail) {
+      return;
+    }
+
+    try {
+      setIsResettingSelectedUserTwoFactor(true);
+
+      const result = await authApi.adminResetTwoFactor({
+        userId: selectedUserDetail.user.id,
+      });
+
+      setUsers((currentUsers) =>
+        currentUsers.map((listedUser) =>
+          listedUser.id === result.user.id ? result.user : listedUser,
+        ),
+      );
+      setSelectedUserDetail((currentDetail) =>
+        currentDetail
+          ? {
+              ...currentDetail,
+              user: result.user,
+            }
+          : currentDetail,
+      );
+
+      toast({
+        title: "Two-factor authentication reset",
+        description: `${result.user.email} can sign in with just their password and set up a new authenticator.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Two-factor reset failed",
+        description:
+          error instanceof ApiClientError
+            ? error.message
+            : 'Failed to reset two-factor authentication for the selected user.',
+      });
+    } finally {
+      setIsResettingSelectedUserTwoFactor(false);
+    }
+  };
+
   const handleSelectAnnouncement = (announcement: AdminSystemAnnouncementRecord) => {
     setSelectedAnnouncementId(announcement.id);
     setAnnouncementForm(toAnnouncementFormState(announcement));
@@ -586,6 +921,16 @@ export default function AdminPage() {
         return 'Password Reset';
       case 'admin.user.deleted':
         return 'Account Deleted';
+      case 'admin.user.two_factor_reset':
+        return 'Two-Factor Reset';
+      case 'admin.user.unlocked':
+        return 'Account Unlocked';
+      case 'admin.user.signed_out':
+        return 'Signed Out';
+      case 'user.two_factor.enabled':
+        return 'Two-Factor Turned On';
+      case 'user.two_factor.disabled':
+        return 'Two-Factor Turned Off';
       case 'admin.announcement.created':
         return 'Announcement Created';
       case 'admin.announcement.updated':
@@ -615,6 +960,16 @@ export default function AdminPage() {
       return 'Existing sessions invalidated.';
     }
 
+    if (log.action === 'admin.user.two_factor_reset') {
+      return 'Authenticator and recovery codes removed.';
+    }
+
+    if (log.action === 'admin.user.unlocked') {
+      const failedAttempts = typeof log.details?.failedAttempts === 'number' ? log.details.failedAttempts : undefined;
+
+      return failedAttempts === undefined ? null : `Cleared after ${failedAttempts} failed attempts.`;
+    }
+
     if (log.action === 'admin.user.deleted') {
       const summary = log.details?.summary;
 
@@ -654,6 +1009,15 @@ export default function AdminPage() {
         className="mb-8"
       >
       
+      {user && !user.twoFactorEnabled ? (
+        <Alert className="mb-6">
+          <AlertTitle>Two-factor authentication required</AlertTitle>
+          <AlertDescription>
+            Admin tools stay locked until you turn on two-factor authentication in your account settings.
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList className="mb-8 flex h-auto w-full justify-start gap-1 overflow-x-auto p-1">
           <TabsTrigger value="account" className="shrink-0 flex min-w-[220px] items-center justify-center gap-2">
@@ -678,57 +1042,215 @@ export default function AdminPage() {
                 User List
               </CardTitle>
               <CardDescription>
-                Basic admin view of signed-up users. This is the first read-only slice before user management actions are added.
+                Search and filter signed-up users, then select one to inspect it or several to act on them together.
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
+              <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+                <Input
+                  value={userListFilters.q}
+                  onChange={(event) => updateUserListFilter('q', event.target.value)}
+                  placeholder="Search by email or preferred name"
+                  aria-label="Search users"
+                  className="md:col-span-2 xl:col-span-3"
+                />
+                <Select
+                  value={userListFilters.role}
+                  onValueChange={(value: UserListFilters['role']) => updateUserListFilter('role', value)}
+                >
+                  <SelectTrigger aria-label="Filter by role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All roles</SelectItem>
+                    <SelectItem value="user">Users</SelectItem>
+                    <SelectItem value="admin">Admins</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={userListFilters.twoFactor}
+                  onValueChange={(value: UserListFilters['twoFactor']) => updateUserListFilter('twoFactor', value)}
+                >
+                  <SelectTrigger aria-label="Filter by two-factor authentication">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any two-factor status</SelectItem>
+                    <SelectItem value="enabled">Two-factor enabled</SelectItem>
+                    <SelectItem value="disabled">Two-factor not enabled</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={userListFilters.inactiveDays}
+                  onValueChange={(value: UserListFilters['inactiveDays']) => updateUserListFilter('inactiveDays', value)}
+                >
+                  <SelectTrigger aria-label="Filter by inactivity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any activity</SelectItem>
+                    <SelectItem value="30">Inactive 30+ days</SelectItem>
+                    <SelectItem value="90">Inactive 90+ days</SelectItem>
+                    <SelectItem value="180">Inactive 180+ days</SelectItem>
+                    <SelectItem value="365">Inactive 1+ year</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="space-y-1">
+                  <Label htmlFor="admin-users-created-from">Created from</Label>
+                  <Input
+                    id="admin-users-created-from"
+                    type="date"
+                    value={userListFilters.createdFrom}
+                    onChange={(event) => updateUserListFilter('createdFrom', event.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="admin-users-created-to">Created to</Label>
+                  <Input
+                    id="admin-users-created-to"
+                    type="date"
+                    value={userListFilters.createdTo}
+                    onChange={(event) => updateUserListFilter('createdTo', event.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="admin-users-sort">Sort by</Label>
+                  <Select
+                    value={userListFilters.sort}
+                    onValueChange={(value: UserListFilters['sort']) => updateUserListFilter('sort', value)}
+                  >
+                    <SelectTrigger id="admin-users-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="createdAt:desc">Newest first</SelectItem>
+                      <SelectItem value="createdAt:asc">Oldest first</SelectItem>
+                      <SelectItem value="lastLoginAt:desc">Recently signed in</SelectItem>
+                      <SelectItem value="lastLoginAt:asc">Longest since sign-in</SelectItem>
+                      <SelectItem value="email:asc">Email A–Z</SelectItem>
+                      <SelectItem value="email:desc">Email Z–A</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={allListedUsersChecked}
+                    disabled={users.length === 0}
+                    onCheckedChange={(checked) =>
+                      setCheckedUserIds(checked === true ? users.map((listedUser) => listedUser.id) : [])
+                    }
+                    aria-label="Select all listed users"
+                  />
+                  {checkedUserIds.length > 0
+                    ? `${checkedUserIds.length} selected`
+                    : `${users.length} of ${usersTotal} users shown`}
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={checkedUserIds.length === 0 || isRunningBulkAction}
+                    onClick={() => void handleBulkUserAction({ operation: 'sign-out', userIds: checkedUserIds })}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign Out
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={checkedUserIds.length === 0 || isRunningBulkAction}
+                    onClick={() =>
+                      void handleBulkUserAction({ operation: 'set-role', role: 'admin', userIds: checkedUserIds })
+                    }
+                  >
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Make Admin
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={checkedUserIds.length === 0 || isRunningBulkAction}
+                    onClick={() =>
+                      void handleBulkUserAction({ operation: 'set-role', role: 'user', userIds: checkedUserIds })
+                    }
+                  >
+                    Remove Admin
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={checkedUserIds.length === 0 || isRunningBulkAction}
+                    onClick={() =>
+                      void handleBulkUserAction({ operation: 'delete', userIds: checkedUserIds, dryRun: true })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
               {usersError ? (
                 <Alert variant="destructive">
                   <AlertTitle>User List Error</AlertTitle>
                   <AlertDescription>{usersError}</AlertDescription>
                 </Alert>
-              ) : isLoadingUsers ? (
+              ) : isLoadingUsers && users.length === 0 ? (
                 <p className="text-sm text-muted-foreground">Loading users…</p>
+              ) : users.length === 0 ? (
+                <p className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+                  No users match these filters.
+                </p>
               ) : (
                 <div className="space-y-3">
-                  <Input
-                    value={userFilterQuery}
-                    onChange={(event) => setUserFilterQuery(event.target.value)}
-                    placeholder="Filter by email, preferred name, or role"
-                    aria-label="Filter users"
-                  />
-
-                  {filteredUsers.length === 0 ? (
-                    <p className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
-                      No users match this filter.
-                    </p>
-                  ) : (
-                    filteredUsers.map((user) => (
+                  {users.map((user) => (
+                    <div
+                      key={user.id}
+                      className={`flex items-start gap-3 rounded-lg border p-4 transition-colors ${
+                        selectedUserId === user.id
+                          ? 'border-primary bg-primary/5'
+                          : 'hover:bg-muted/40'
+                      }`}
+                    >
+                      <Checkbox
+                        className="mt-1"
+                        checked={checkedUserIds.includes(user.id)}
+                        onCheckedChange={(checked) => toggleCheckedUser(user.id, checked === true)}
+                        aria-label={`Select ${user.email}`}
+                      />
                       <button
-                        key={user.id}
                         type="button"
                         onClick={() => setSelectedUserId(user.id)}
-                        className={`w-full rounded-lg border p-4 text-left transition-colors ${
-                          selectedUserId === user.id
-                            ? 'border-primary bg-primary/5'
-                            : 'hover:bg-muted/40'
-                        }`}
+                        className="flex flex-1 flex-wrap items-center justify-between gap-3 text-left"
                       >
-                        <div className="flex flex-wrap items-center justify-between gap-3">
-                          <div>
-                            <p className="font-medium">{user.email}</p>
-                            <p className="text-sm text-muted-foreground">
-                              {user.preferredName || 'No preferred name'}
-                            </p>
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            <p><span className="font-medium">Role:</span> {user.role}</p>
-                            <p><span className="font-medium">Created:</span> {new Date(user.createdAt).toLocaleDateString()}</p>
-                            <p><span className="font-medium">Last Login:</span> {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Not recorded'}</p>
-                          </div>
+                        <div>
+                          <p className="font-medium">{user.email}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {user.preferredName || 'No preferred name'}
+                          </p>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          <p><span className="font-medium">Role:</span> {user.role}</p>
+                          <p><span className="font-medium">Two-Factor:</span> {user.twoFactorEnabled ? 'Enabled' : 'Not enabled'}</p>
+                          <p><span className="font-medium">Created:</span> {new Date(user.createdAt).toLocaleDateString()}</p>
+                          <p><span className="font-medium">Last Login:</span> {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Not recorded'}</p>
                         </div>
                       </button>
-                    ))
+                    </div>
+                  ))}
+
+                  {usersNextCursor && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={isLoadingMoreUsers}
+                      onClick={() => void loadUsers(usersNextCursor)}
+                    >
+                      {isLoadingMoreUsers ? 'Loading…' : 'Load More'}
+                    </Button>
                   )}
                 </div>
               )}
@@ -764,6 +1286,7 @@ export default function AdminPage() {
                       <p><span className="font-medium">Email:</span> {selectedUserDetail.user.email}</p>
                       <p><span className="font-medium">Role:</span> {selectedUserDetail.user.role}</p>
                       <p><span className="font-medium">Preferred Name:</span> {selectedUserDetail.user.preferredName || 'Not set'}</p>
+                      <p><span className="font-medium">Two-Factor:</span> {selectedUserDetail.user.twoFactorEnabled ? 'On' : 'Off'}</p>
                     </div>
                     <div className="space-y-1 text-sm">
                       <p><span className="font-medium">User ID:</span> {selectedUserDetail.user.id}</p>
@@ -875,6 +1398,38 @@ export default function AdminPage() {
                     </div>
                   </div>
 
+                  <div className="rounded-lg border p-4">
+                    <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+                      <div className="space-y-2">
+                        <h3 className="flex items-center gap-2 font-semibold">
+                          <ShieldCheck className="h-4 w-4" />
+                          Two-Factor Authentication
+                        </h3>
+                        <p className="text-sm text-muted-foreground">
+                          Remove the authenticator and recovery codes for a user who has lost access to them. They can sign in with their password and set it up again.
+                        </p>
+                        {selectedUserIsCurrentAdmin ? (
+                          <p className="text-sm font-medium text-muted-foreground">
+                            Manage your own two-factor authentication from your account settings.
+                          </p>
+                        ) : null}
+                      </div>
+
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => void handleResetSelectedUserTwoFactor()}
+                        disabled={
+                          selectedUserIsCurrentAdmin ||
+                          !selectedUserDetail.user.twoFactorEnabled ||
+                          isResettingSelectedUserTwoFactor
+                        }
+                      >
+                        {isResettingSelectedUserTwoFactor ? 'Resetting…' : 'Reset Two-Factor'}
+                      </Button>
+                    </div>
+                  </div>
+
                   <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-4">
                     <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
                       <div className="space-y-2">
@@ -911,6 +1466,8 @@ export default function AdminPage() {
               ) : null}
             </CardContent>
           </Card>
+
+          <LockedAccounts />
         </TabsContent>
 
         <TabsContent value="announcements" className="space-y-6">
@@ -1187,20 +1744,136 @@ export default function AdminPage() {
                 Admin Audit Logs
               </CardTitle>
               <CardDescription>
-                Persistent records of privileged admin actions, including role changes, password resets, and account deletions.
+                Persistent records of privileged admin actions, including role changes, password resets, and account deletions. Each entry is chained to the one before, so edits or removals show up when the log is verified.
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
+              <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+                <Select
+                  value={auditLogFilters.auditAction}
+                  onValueChange={(value: AuditLogFilters['auditAction']) =>
+                    setAuditLogFilters((currentFilters) => ({ ...currentFilters, auditAction: value }))
+                  }
+                >
+                  <SelectTrigger aria-label="Filter by action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {AUDIT_LOG_ACTIONS.map((action) => (
+                      <SelectItem key={action} value={action}>{getAuditLogActionLabel(action)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={auditLogFilters.actor}
+                  onChange={(event) =>
+                    setAuditLogFilters((currentFilters) => ({ ...currentFilters, actor: event.target.value }))
+                  }
+                  placeholder="Actor email or user id"
+                  aria-label="Filter by actor"
+                />
+                <Input
+                  value={auditLogFilters.target}
+                  onChange={(event) =>
+                    setAuditLogFilters((currentFilters) => ({ ...currentFilters, target: event.target.value }))
+                  }
+                  placeholder="Target email or user id"
+                  aria-label="Filter by target user"
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="admin-audit-logs-from">From</Label>
+                  <Input
+                    id="admin-audit-logs-from"
+                    type="date"
+                    value={auditLogFilters.from}
+                    onChange={(event) =>
+                      setAuditLogFilters((currentFilters) => ({ ...currentFilters, from: event.target.value }))
+                    }
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="admin-audit-logs-to">To</Label>
+                  <Input
+                    id="admin-audit-logs-to"
+                    type="date"
+                    value={auditLogFilters.to}
+                    onChange={(event) =>
+                      setAuditLogFilters((currentFilters) => ({ ...currentFilters, to: event.target.value }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-muted/30 p-3">
+                <p className="text-sm text-muted-foreground">
+                  {auditLogs.length} of {auditLogsTotal} entries shown
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={exportingAuditLogFormat !== null}
+                    onClick={() => void handleExportAuditLogs('csv')}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {exportingAuditLogFormat === 'csv' ? 'Exporting…' : 'Export CSV'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={exportingAuditLogFormat !== null}
+                    onClick={() => void handleExportAuditLogs('ndjson')}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {exportingAuditLogFormat === 'ndjson' ? 'Exporting…' : 'Export NDJSON'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isVerifyingAuditLogs}
+                    onClick={() => void handleVerifyAuditLogs()}
+                  >
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    {isVerifyingAuditLogs ? 'Verifying…' : 'Verify Chain'}
+                  </Button>
+                </div>
+              </div>
+
+              {auditLogVerification ? (
+                <Alert variant={auditLogVerification.valid ? 'default' : 'destructive'}>
+                  <AlertTitle>
+                    {auditLogVerification.valid ? 'Audit log chain intact' : 'Audit log chain broken'}
+                  </AlertTitle>
+                  <AlertDescription className="space-y-1">
+                    <p>
+                      Checked {auditLogVerification.checked} chained entries
+                      {auditLogVerification.unchained > 0
+                        ? `; ${auditLogVerification.unchained} older entries predate chaining and cannot be verified`
+                        : ''}
+                      {auditLogVerification.prunedBefore !== null
+                        ? `; entries before ${auditLogVerification.prunedBefore} were removed by the retention policy`
+                        : ''}
+                      .
+                    </p>
+                    {auditLogVerification.breaks.map((chainBreak) => (
+                      <p key={`${chainBreak.sequence}-${chainBreak.reason}`}>{describeChainBreak(chainBreak)}</p>
+                    ))}
+                    {auditLogVerification.truncated ? <p>More breaks were found than are listed.</p> : null}
+                  </AlertDescription>
+                </Alert>
+              ) : null}
+
               {auditLogsError ? (
                 <Alert variant="destructive">
                   <AlertTitle>Audit Log Error</AlertTitle>
                   <AlertDescription>{auditLogsError}</AlertDescription>
                 </Alert>
-              ) : isLoadingAuditLogs ? (
+              ) : isLoadingAuditLogs && auditLogs.length === 0 ? (
                 <p className="text-sm text-muted-foreground">Loading audit logs…</p>
               ) : auditLogs.length === 0 ? (
                 <p className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
-                  No admin audit logs recorded yet.
+                  No admin audit logs match these filters.
                 </p>
               ) : (
                 <div className="space-y-3">
@@ -1225,10 +1898,22 @@ export default function AdminPage() {
                         </div>
                         <div className="text-sm text-muted-foreground">
                           <p>{new Date(log.createdAt).toLocaleString()}</p>
+                          {log.sequence !== undefined ? <p>Entry #{log.sequence}</p> : null}
                         </div>
                       </div>
                     </div>
                   ))}
+
+                  {auditLogsNextCursor && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={isLoadingMoreAuditLogs}
+                      onClick={() => void loadAuditLogs(auditLogsNextCursor)}
+                    >
+                      {isLoadingMoreAuditLogs ? 'Loading…' : 'Load More'}
+                    </Button>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -1318,6 +2003,72 @@ export default function AdminPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog
+        open={bulkDeletePreview !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setBulkDeletePreview(null);
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-destructive">
+              <Trash2 className="h-5 w-5" />
+              Permanently Delete {bulkDeletePreview?.affected.length || 0} Accounts
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-4 text-sm text-muted-foreground">
+                <p>
+                  This permanently deletes the accounts below and all remote data they own.
+                </p>
+                {bulkDeletePreview && (
+                  <>
+                    <ul className="max-h-40 list-disc overflow-y-auto pl-5">
+                      {bulkDeletePreview.affected.map((affectedUser) => (
+                        <li key={affectedUser.id}>{affectedUser.email}</li>
+                      ))}
+                    </ul>
+                    <div className="rounded-md border bg-muted/40 p-3">
+                      <p className="font-medium text-foreground">Deletion summary</p>
+                      <p>Books: {bulkDeleteTotals?.books}</p>
+                      <p>Series: {bulkDeleteTotals?.series}</p>
+                      <p>Collections: {bulkDeleteTotals?.collections}</p>
+                      <p>Reading Sessions: {bulkDeleteTotals?.readingSessions}</p>
+                      <p>Loans: {bulkDeleteTotals?.loans}</p>
+                    </div>
+                    {bulkDeletePreview.skipped.length > 0 && (
+                      <p>
+                        Skipped: {bulkDeletePreview.skipped.map((skip) => `${skip.email || skip.userId} (${skip.reason})`).join(', ')}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRunningBulkAction}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+
+                if (bulkDeletePreview) {
+                  void handleBulkUserAction({
+                    operation: 'delete',
+                    userIds: bulkDeletePreview.affected.map((affectedUser) => affectedUser.id),
+                  });
+                }
+              }}
+              disabled={!bulkDeletePreview?.affected.length || isRunningBulkAction}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isRunningBulkAction ? 'Deleting…' : 'Delete Permanently'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog
         open={showDeleteConfirmation}
         onOpenChange={(open) => {
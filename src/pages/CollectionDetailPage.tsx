@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { useHistoryRefresh } from '@/hooks/useHistory';
+import { useSyncConflict, useSyncRefresh } from '@/hooks/useSync';
 import { BookDetails } from "@/components/BookDetails";
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { Edit, Trash2, Plus, Search, Filter, SortAsc, SortDesc, Grid, List, BookOpen, Pencil, FolderOpen } from 'lucide-react';
+import { Edit, Trash2, Plus, Search, Filter, SortAsc, SortDesc, Grid, List, BookOpen, Pencil, FolderOpen, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
@@ -14,10 +16,15 @@ import { useToast } from '@/components/ui/use-toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Collection } from '@/types/collection';
+import { Collection, CollectionRules, CollectionUpdateData } from '@/types/collection';
 import { Book } from '@/types/book';
 import { collectionRepository } from '@/repositories/CollectionRepository';
 import { bookRepository } from '@/repositories/BookRepository';
+import { MergeConflictDialog } from '@/components/dialogs/MergeConflictDialog';
+import CollectionRuleBuilder from '@/components/CollectionRuleBuilder';
+import type { CollectionRecord } from '@/lib/apiClient';
+import { COLLECTION_CONFLICT_FIELDS } from '@/utils/syncConflicts';
+import { describeCollectionRule } from '@/utils/collectionRules';
 
 const CollectionDetailPage: React.FC = () => {
   const { collectionId } = useParams<{ collectionId: string }>();
@@ -39,6 +46,7 @@ const CollectionDetailPage: React.FC = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isAddBooksDialogOpen, setIsAddBooksDialogOpen] = useState(false);
+  const [isRuleBuilderOpen, setIsRuleBuilderOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<string>('books');
   const [selectedBookForDetails, setSelectedBookForDetails] = useState<Book | null>(null);
   const [isBookDetailsOpen, setIsBookDetailsOpen] = useState(false);
@@ -51,6 +59,16 @@ const CollectionDetailPage: React.FC = () => {
     imageUrl: ''
   });
   
+  // Reload after an undo, a redo or a sync pull
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  useHistoryRefresh(() => setLibraryVersion(version => version + 1));
+  useSyncRefresh(() => setLibraryVersion(version => version + 1));
+  const {
+    conflict: collectionConflict,
+    resolveLater: resolveCollectionConflictLater,
+    dismiss: dismissCollectionConflict,
+  } = useSyncConflict<CollectionRecord>('collections', collectionId);
+
   // Load collection and its books
   useEffect(() => {
     if (!collectionId) return;
@@ -100,12 +118,10 @@ const CollectionDetailPage: React.FC = () => {
     };
     
     loadCollectionAndBooks();
-  }, [collectionId, navigate, toast]);
+  }, [collectionId, navigate, toast, libraryVersion]);
   
   // Filter and sort books when books, searchQuery, or sortOrder changes
   useEffect(() => {
-    if (!books.length) return;
-    
     let filtered = [...books];
     
     // Apply search filter if query exists
@@ -130,6 +146,33 @@ const CollectionDetailPage: React.FC = () => {
     setFilteredBooks(filtered);
   }, [books, searchQuery, sortOrder]);
   
+  // Save the merge of a change that was refused because the collection had
+  // been changed elsewhere; the local copy already holds the other version
+  const handleResolveCollectionConflict = async (changes: Partial<CollectionRecord>) => {
+    if (!collectionConflict) return;
+
+    try {
+      if (Object.keys(changes).length > 0) {
+        await collectionRepository.update(collectionConflict.id, changes as CollectionUpdateData);
+      }
+      await dismissCollectionConflict();
+      setLibraryVersion(version => version + 1);
+
+      toast({
+        title: 'Changes merged',
+        description: `"${collectionConflict.local.name}" now has the versions you picked`
+      });
+    } catch (error) {
+      console.error('Error merging collection changes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the merged collection',
+        variant: 'destructive'
+      });
+      throw error;
+    }
+  };
+  
   // Handle editing a collection
   const handleEditCollection = async () => {
     if (!collection || !formData.name.trim()) {
@@ -197,6 +240,54 @@ const CollectionDetailPage: React.FC = () => {
     }
   };
   
+  // Save new rules, turning a plain collection into a smart one
+  const handleSaveRules = async (rules: CollectionRules) => {
+    if (!collection) return;
+
+    try {
+      await collectionRepository.update(collection.id, { rules });
+      setLibraryVersion(version => version + 1);
+
+      toast({
+        title: 'Rules saved',
+        description: `"${collection.name}" now holds the books matching its rules`
+      });
+    } catch (error) {
+      console.error('Error saving collection rules:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the collection rules',
+        variant: 'destructive'
+      });
+      throw error;
+    }
+  };
+
+  // Turn a smart collection back into a plain one that keeps its current books
+  const handleStopUsingRules = async () => {
+    if (!collection) return;
+
+    try {
+      await collectionRepository.update(collection.id, {
+        rules: null,
+        bookIds: books.map(book => book.id)
+      });
+      setLibraryVersion(version => version + 1);
+
+      toast({
+        title: 'Rules removed',
+        description: `"${collection.name}" keeps its ${books.length} ${books.length === 1 ? 'book' : 'books'}; add or remove them by hand from now on`
+      });
+    } catch (error) {
+      console.error('Error removing collection rules:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the collection rules',
+        variant: 'destructive'
+      });
+    }
+  };
+  
   // Handle removing a book from the collection
   const handleRemoveBook = async (bookId: string) => {
     if (!collection) return;
@@ -330,18 +421,20 @@ const CollectionDetailPage: React.FC = () => {
           </div>
         </div>
         
-        {/* Remove button */}
-        <Button
-          variant="destructive"
-          size="icon"
-          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity shadow-md z-10"
-          onClick={(e) => {
-            e.stopPropagation();
-            handleRemoveBook(book.id);
-          }}
-        >
-          <Trash2 size={16} />
-        </Button>
+        {/* Remove button; books in a smart collection follow its rules */}
+        {!isSmart && (
+          <Button
+            variant="destructive"
+            size="icon"
+            className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity shadow-md z-10"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRemoveBook(book.id);
+            }}
+          >
+            <Trash2 size={16} />
+          </Button>
+        )}
       </div>
     );
   };
@@ -406,23 +499,26 @@ const CollectionDetailPage: React.FC = () => {
         </div>
         
         {/* Remove button */}
-        <Button
-          variant="destructive"
-          size="icon"
-          className="opacity-0 group-hover:opacity-100 transition-opacity ml-2 flex-shrink-0"
-          onClick={(e) => {
-            e.stopPropagation();
-            handleRemoveBook(book.id);
-          }}
-        >
-          <Trash2 size={16} />
-        </Button>
+        {!isSmart && (
+          <Button
+            variant="destructive"
+            size="icon"
+            className="opacity-0 group-hover:opacity-100 transition-opacity ml-2 flex-shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRemoveBook(book.id);
+            }}
+          >
+            <Trash2 size={16} />
+          </Button>
+        )}
       </div>
     );
   };
   
   // Check if this is the default Favorites collection
   const isFavorites = collection?.name.toLowerCase() === 'favorites';
+  const isSmart = Boolean(collection?.rules);
   
   return (
     <div className="container max-w-7xl mx-auto px-4 py-6">
@@ -449,12 +545,29 @@ const CollectionDetailPage: React.FC = () => {
               backAriaLabel="Back to Collections"
               actions={
                 <>
-                  <HeaderActionButton
-                    icon={<Plus />}
-                    label="Add Books"
-                    onClick={() => setIsAddBooksDialogOpen(true)}
-                    variant="secondary"
-                  />
+                  {isSmart ? (
+                    <HeaderActionButton
+                      icon={<Sparkles />}
+                      label="Edit rules"
+                      onClick={() => setIsRuleBuilderOpen(true)}
+                      variant="secondary"
+                    />
+                  ) : (
+                    <>
+                      <HeaderActionButton
+                        icon={<Plus />}
+                        label="Add Books"
+                        onClick={() => setIsAddBooksDialogOpen(true)}
+                        variant="secondary"
+                      />
+                      <HeaderActionButton
+                        icon={<Sparkles />}
+                        label="Pick books with rules"
+                        onClick={() => setIsRuleBuilderOpen(true)}
+                        variant="secondary"
+                      />
+                    </>
+                  )}
                   <HeaderActionButton
                     icon={<Pencil />}
                     label="Edit collection"
@@ -509,6 +622,43 @@ const CollectionDetailPage: React.FC = () => {
               </TabsList>
               
               <TabsContent value="books" className="space-y-4">
+                {/* The rules that pick a smart collection's books */}
+                {collection.rules && (
+                  <Card>
+                    <CardContent className="pt-6 space-y-3">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary" className="gap-1">
+                            <Sparkles size={12} />
+                            Smart
+                          </Badge>
+                          <span className="text-sm text-muted-foreground">
+                            Books matching {collection.rules.match === 'all' ? 'all' : 'any'} of these rules
+                          </span>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setIsRuleBuilderOpen(true)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit rules
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={handleStopUsingRules}>
+                            Stop using rules
+                          </Button>
+                        </div>
+                      </div>
+                      <ul className="flex flex-wrap gap-2">
+                        {collection.rules.conditions.map((rule, index) => (
+                          <li key={index}>
+                            <Badge variant="outline" className="font-normal">
+                              {describeCollectionRule(rule)}
+                            </Badge>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Search and filter controls */}
                 <div className="mb-6 flex w-full flex-wrap items-center gap-4 sm:flex-nowrap">
                   <div className="relative w-full min-w-0 sm:flex-grow">
@@ -561,14 +711,25 @@ const CollectionDetailPage: React.FC = () => {
                 {filteredBooks.length === 0 ? (
                   <div className="flex flex-col items-center justify-center py-16 border-2 border-dashed border-muted-foreground/20 rounded-lg bg-muted/5">
                     <BookOpen className="h-20 w-20 text-muted-foreground/30 mb-6" />
-                    <h2 className="text-2xl font-medium mb-3">No Books Yet</h2>
+                    <h2 className="text-2xl font-medium mb-3">{isSmart ? 'No Matching Books' : 'No Books Yet'}</h2>
                     <p className="text-muted-foreground text-center max-w-md mb-8">
-                      {searchQuery ? 'Try a different search term' : 'This collection doesn\'t have any books yet. Add books to get started.'}
+                      {searchQuery
+                        ? 'Try a different search term'
+                        : isSmart
+                          ? 'No books match this collection\'s rules yet. They\'ll appear here as soon as they do.'
+                          : 'This collection doesn\'t have any books yet. Add books to get started.'}
                     </p>
-                    <Button size="lg" onClick={() => setIsAddBooksDialogOpen(true)}>
-                      <Plus className="h-5 w-5 mr-2" />
-                      Add Books
-                    </Button>
+                    {isSmart ? (
+                      <Button size="lg" onClick={() => setIsRuleBuilderOpen(true)}>
+                        <Sparkles className="h-5 w-5 mr-2" />
+                        Edit Rules
+                      </Button>
+                    ) : (
+                      <Button size="lg" onClick={() => setIsAddBooksDialogOpen(true)}>
+                        <Plus className="h-5 w-5 mr-2" />
+                        Add Books
+                      </Button>
+                    )}
                   </div>
                 ) : (
                   <div className={viewMode === 'grid' ? 'grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6' : 'space-y-2 divide-y divide-border'}>
@@ -709,6 +870,23 @@ const CollectionDetailPage: React.FC = () => {
             </DialogContent>
           </Dialog>
           
+          {/* Rules of a smart collection */}
+          <CollectionRuleBuilder
+            open={isRuleBuilderOpen}
+            onOpenChange={setIsRuleBuilderOpen}
+            rules={collection.rules}
+            onSave={handleSaveRules}
+          />
+
+          {/* Merge a change that conflicted with one made elsewhere */}
+          <MergeConflictDialog
+            conflict={collectionConflict}
+            fields={COLLECTION_CONFLICT_FIELDS}
+            itemName={collectionConflict?.local.name ?? ''}
+            onResolve={handleResolveCollectionConflict}
+            onResolveLater={resolveCollectionConflictLater}
+          />
+
           {/* Delete Confirmation Dialog */}
           <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
             <DialogContent>
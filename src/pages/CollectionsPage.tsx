@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useHistoryRefresh } from '@/hooks/useHistory';
+import { useSyncConflict, useSyncRefresh } from '@/hooks/useSync';
 import { Settings } from '@/components/Settings';
 import { useNavigate } from 'react-router-dom';
-import { Plus, Filter, SortAsc, SortDesc, Grid, List, Trash2, Edit, Image, ChevronLeft, Search, X, Grid3X3 } from 'lucide-react';
+import { Plus, Filter, SortAsc, SortDesc, Grid, List, Trash2, Edit, Image, ChevronLeft, Search, X, Grid3X3, Sparkles } from 'lucide-react';
 import { SearchInput } from '@/components/SearchInput';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
@@ -11,11 +14,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Collection } from '@/types/collection';
+import { Collection, CollectionUpdateData } from '@/types/collection';
 import { collectionRepository } from '@/repositories/CollectionRepository';
 import { useToast } from '@/components/ui/use-toast';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useLibrarySettings } from '@/hooks/useLibrarySettings';
+import { MergeConflictDialog } from '@/components/dialogs/MergeConflictDialog';
+import type { CollectionRecord } from '@/lib/apiClient';
+import { COLLECTION_CONFLICT_FIELDS } from '@/utils/syncConflicts';
 
 const CollectionsPage: React.FC = () => {
   const [collections, setCollections] = useState<Collection[]>([]);
@@ -28,6 +34,8 @@ const CollectionsPage: React.FC = () => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedCollection, setSelectedCollection] = useState<Collection | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Smart collections have no fixed books, so their counts come from their rules
+  const [smartBookCounts, setSmartBookCounts] = useState<Record<string, number>>({});
   const { settingsProps, setShowSettings } = useLibrarySettings({
     onLibraryCleared: () => {
       setCollections([]);
@@ -45,6 +53,11 @@ const CollectionsPage: React.FC = () => {
   
   const navigate = useNavigate();
   const { toast } = useToast();
+  const {
+    conflict: collectionConflict,
+    resolveLater: resolveCollectionConflictLater,
+    dismiss: dismissCollectionConflict,
+  } = useSyncConflict<CollectionRecord>('collections');
   
   // Load collections on component mount
   // Load collections from repository
@@ -53,6 +66,7 @@ const CollectionsPage: React.FC = () => {
     try {
       const allCollections = await collectionRepository.getAll();
       setCollections(allCollections);
+      setSmartBookCounts(await collectionRepository.countSmartCollectionBooks(allCollections));
       
       // Create default "Favorites" collection if it doesn't exist
       if (!allCollections.some(c => c.name.toLowerCase() === 'favorites')) {
@@ -99,6 +113,14 @@ const CollectionsPage: React.FC = () => {
   useEffect(() => {
     loadCollections();
   }, [loadCollections]);
+
+  // Reload after an undo, a redo or a sync pull
+  useHistoryRefresh(() => {
+    void loadCollections();
+  });
+  useSyncRefresh(() => {
+    void loadCollections();
+  });
   
   // Filter and sort collections when collections, searchQuery, or sortOrder changes
   useEffect(() => {
@@ -152,6 +174,33 @@ const CollectionsPage: React.FC = () => {
     }
   };
   
+  // Save the merge of a change that was refused because the collection had
+  // been changed elsewhere; the local copy already holds the other version
+  const handleResolveCollectionConflict = async (changes: Partial<CollectionRecord>) => {
+    if (!collectionConflict) return;
+
+    try {
+      if (Object.keys(changes).length > 0) {
+        await collectionRepository.update(collectionConflict.id, changes as CollectionUpdateData);
+      }
+      await dismissCollectionConflict();
+      await loadCollections();
+
+      toast({
+        title: 'Changes merged',
+        description: `"${collectionConflict.local.name}" now has the versions you picked`
+      });
+    } catch (error) {
+      console.error('Error merging collection changes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the merged collection',
+        variant: 'destructive'
+      });
+      throw error;
+    }
+  };
+  
   // Handle editing a collection
   const handleEditCollection = async () => {
     if (!selectedCollection || !formData.name.trim()) {
@@ -248,9 +297,20 @@ const CollectionsPage: React.FC = () => {
     navigate(`/collections/${collectionId}`);
   };
   
+  const getBookCount = (collection: Collection) =>
+    collection.rules ? smartBookCounts[collection.id] ?? 0 : collection.bookIds.length;
+
+  const renderSmartBadge = (collection: Collection) =>
+    collection.rules ? (
+      <Badge variant="secondary" className="gap-1" title="Books are picked by rules">
+        <Sparkles size={12} />
+        Smart
+      </Badge>
+    ) : null;
+
   // Render collection card for grid view
   const renderCollectionCard = (collection: Collection) => {
-    const bookCount = collection.bookIds.length;
+    const bookCount = getBookCount(collection);
     const isFavorites = collection.name.toLowerCase() === 'favorites';
     
     return (
@@ -283,9 +343,12 @@ const CollectionsPage: React.FC = () => {
           {collection.description && (
             <p className="text-sm text-gray-600 line-clamp-2 mb-2">{collection.description}</p>
           )}
-          <p className="text-sm text-gray-500">
-            {bookCount} {bookCount === 1 ? 'book' : 'books'}
-          </p>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-gray-500">
+              {bookCount} {bookCount === 1 ? 'book' : 'books'}
+            </p>
+            {renderSmartBadge(collection)}
+          </div>
         </div>
         
         <div className="p-3 border-t flex justify-end gap-2">
@@ -321,7 +384,7 @@ const CollectionsPage: React.FC = () => {
   
   // Render collection row for list view
   const renderCollectionRow = (collection: Collection) => {
-    const bookCount = collection.bookIds.length;
+    const bookCount = getBookCount(collection);
     const isFavorites = collection.name.toLowerCase() === 'favorites';
     
     return (
@@ -348,7 +411,10 @@ const CollectionsPage: React.FC = () => {
         </div>
         
         <div className="flex-grow">
-          <h3 className="font-medium">{collection.name}</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="font-medium">{collection.name}</h3>
+            {renderSmartBadge(collection)}
+          </div>
           {collection.description && (
             <p className="text-sm text-gray-600 truncate">{collection.description}</p>
           )}
@@ -659,6 +725,15 @@ const CollectionsPage: React.FC = () => {
         </DialogContent>
       </Dialog>
       
+      {/* Merge a change that conflicted with one made elsewhere */}
+      <MergeConflictDialog
+        conflict={collectionConflict}
+        fields={COLLECTION_CONFLICT_FIELDS}
+        itemName={collectionConflict?.local.name ?? ''}
+        onResolve={handleResolveCollectionConflict}
+        onResolveLater={resolveCollectionConflictLater}
+      />
+
       {/* Settings Modal */}
       <Settings {...settingsProps} />
     </AppLayout>
@@ -1,5 +1,5 @@
-import { Dispatch, SetStateAction, useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Dispatch, SetStateAction, useState, useEffect, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useSettings } from "@/contexts/SettingsContext";
 import { Book } from "@/types/book";
 import { BookShelf } from "@/components/BookShelf";
@@ -27,7 +27,8 @@ import {
   X, 
   Filter, 
   ChevronDown,
-  SortAsc
+  SortAsc,
+  CheckSquare
 } from "lucide-react";
 import { ManualAddBookDialog } from "@/components/dialogs/ManualAddBookDialog";
 import { BookSearchDialog } from "@/components/dialogs/BookSearchDialog";
@@ -50,6 +51,30 @@ import { GoalTracker } from "@/components/GoalTracker";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { useLibrarySettings } from '@/hooks/useLibrarySettings';
 import { bookRepository } from '@/repositories/BookRepository';
+import { BookBatchActionBar } from "@/components/BookBatchActionBar";
+import { useBookSelection } from "@/hooks/useBookSelection";
+import { bookBatchService } from "@/services/BookBatchService";
+import { BookBatchAction, describeBookBatchAction } from "@/utils/bookBatch";
+import { summarizeTags } from "@/utils/bookTags";
+import { UndoToastAction } from "@/components/UndoToastAction";
+import { historyService } from "@/services/HistoryService";
+import { useHistoryRefresh } from "@/hooks/useHistory";
+import { useSyncRefresh, useSyncStatus } from "@/hooks/useSync";
+import { useAuth } from "@/hooks/useAuth";
+import { useBookPages } from "@/hooks/useBookPages";
+import { BookFilterPanel } from "@/components/filters/BookFilterPanel";
+import { seriesRepository } from "@/repositories/SeriesRepository";
+import { collectionRepository } from "@/repositories/CollectionRepository";
+import {
+  BookFilters,
+  BookSort,
+  DEFAULT_BOOK_SORT,
+  countActiveBookFilters,
+  filterBooks,
+  sortBooks,
+  toBookListParams
+} from "@/utils/bookFilters";
+import { normalizeGenreData } from "@/utils/genreUtils";
 
 declare global {
   interface Window {
@@ -74,6 +99,15 @@ const Index = () => {
     exactMatch: false,
     limit: 100
   });
+  // The tags page links here with ?tag= to show the books carrying a tag
+  const [searchParams] = useSearchParams();
+  const [filters, setFilters] = useState<BookFilters>(() => {
+    const tag = searchParams.get('tag');
+    return tag ? { tags: [tag] } : {};
+  });
+  const [sort, setSort] = useState<BookSort>(DEFAULT_BOOK_SORT);
+  const [seriesOptions, setSeriesOptions] = useState<{ id: string; name: string }[]>([]);
+  const [collectionOptions, setCollectionOptions] = useState<{ id: string; name: string }[]>([]);
   const [showSearchDialog, setShowSearchDialog] = useState(false);
   const [showManualAddDialog, setShowManualAddDialog] = useState(false);
   
@@ -92,6 +126,19 @@ const Index = () => {
   // Calculate books completed in the current month
   const [booksCompletedThisMonth, setBooksCompletedThisMonth] = useState<number>(0);
   
+  const bookIds = useMemo(() => books.map(book => book.id), [books]);
+  const {
+    selection,
+    selectedIds,
+    setSelectionMode,
+    selectAll,
+    clearSelection,
+  } = useBookSelection(bookIds);
+  const [isBatchWorking, setIsBatchWorking] = useState(false);
+  const selectedBooks = selectedIds
+    .map(id => books.find(book => book.id === id))
+    .filter((book): book is Book => Boolean(book));
+
   const { settingsProps, setShowSettings } = useLibrarySettings({
     externalBooks: books,
     externalSetBooks: (newBooks) => {
@@ -103,6 +150,31 @@ const Index = () => {
     },
   });
   
+  // Bumped after an undo, a redo or a sync pull so the library is reloaded
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  useHistoryRefresh(() => setLibraryVersion(version => version + 1));
+  useSyncRefresh(() => setLibraryVersion(version => version + 1));
+
+  // Signed-in libraries are paged from the server as the reader scrolls.
+  // Until the first page arrives, offline, or when paging fails, the copy on
+  // this device is filtered instead.
+  const { isAuthenticated } = useAuth();
+  const syncStatus = useSyncStatus();
+  const pageParams = useMemo(() => toBookListParams(filters, sort, searchQuery), [filters, sort, searchQuery]);
+  const pages = useBookPages(pageParams, isAuthenticated && syncStatus.state !== 'offline', libraryVersion);
+  const showServerPages = isAuthenticated && syncStatus.state !== 'offline' && pages.isLoaded && !pages.error;
+  const localBooks = useMemo(
+    () => sortBooks(filterBooks(filteredBooks, filters), sort),
+    [filteredBooks, filters, sort]
+  );
+  const visibleBooks = showServerPages ? pages.books : localBooks;
+  const visibleTotal = showServerPages ? pages.total : localBooks.length;
+  const genreOptions = useMemo(
+    () => Array.from(new Set(books.flatMap(book => normalizeGenreData(book.genre)))).sort(),
+    [books]
+  );
+  const tagOptions = useMemo(() => summarizeTags(books).map(tag => tag.name), [books]);
+  
   useEffect(() => {
     const loadBooks = async () => {
       try {
@@ -110,6 +182,7 @@ const Index = () => {
         
         setBooks(loadedBooks);
         setFilteredBooks(loadedBooks);
+        setSelectedBook(current => current ? loadedBooks.find(book => book.id === current.id) || null : null);
         
         searchService.clearIndex();
         searchService.indexBooks(loadedBooks);
@@ -126,7 +199,22 @@ const Index = () => {
     };
     
     loadBooks();
-  }, [toast]);
+  }, [toast, libraryVersion]);
+
+  // Options for the series and collection filters; search also finds books
+  // by these names
+  useEffect(() => {
+    Promise.all([seriesRepository.getAll(), collectionRepository.getAll()])
+      .then(([series, collections]) => {
+        const seriesNames = series.map(({ id, name }) => ({ id, name }));
+        const collectionNames = collections.map(({ id, name }) => ({ id, name }));
+
+        setSeriesOptions(seriesNames);
+        setCollectionOptions(collectionNames);
+        searchService.setLibraryNames(seriesNames, collectionNames);
+      })
+      .catch(error => console.error("Error loading filter options:", error));
+  }, [libraryVersion]);
   
   // Calculate books completed in the current month whenever books change
   useEffect(() => {
@@ -183,6 +271,9 @@ const Index = () => {
     setBooks((prev) =>
       prev.map((book) => (book.id === updatedBook.id ? updatedBook : book))
     );
+    pages.setBooks((prev) =>
+      prev.map((book) => (book.id === updatedBook.id ? updatedBook : book))
+    );
     
     // Update the book in the search index
     searchService.updateBook(updatedBook);
@@ -202,11 +293,13 @@ const Index = () => {
       await bookRepository.delete(bookId);
       
       setBooks((prevBooks) => prevBooks.filter((book) => book.id !== bookId));
+      pages.setBooks((prevBooks) => prevBooks.filter((book) => book.id !== bookId));
       setSelectedBook(null);
       
       toast({
         title: "Book Deleted",
-        description: "Book removed from your library"
+        description: "Book removed from your library",
+        action: <UndoToastAction command={historyService.peekUndo()} />
       });
     } catch (error) {
       console.error('Error deleting book:', error);
@@ -218,6 +311,58 @@ const Index = () => {
     }
   };
 
+  // Apply the outcome of a batch to the library state
+  const applyBatchResult = (changedBooks: Book[], removedIds: string[] = []) => {
+    const changedById = new Map(changedBooks.map(book => [book.id, book]));
+    const applyChanges = (list: Book[]) => {
+      const existingIds = new Set(list.map(book => book.id));
+      return [
+        ...list
+          .filter(book => !removedIds.includes(book.id))
+          .map(book => changedById.get(book.id) || book),
+        ...changedBooks.filter(book => !existingIds.has(book.id)),
+      ];
+    };
+
+    setBooks(applyChanges);
+    setFilteredBooks(applyChanges);
+    // Server pages only change in place; new books arrive with the next sync
+    pages.setBooks(list => list
+      .filter(book => !removedIds.includes(book.id))
+      .map(book => changedById.get(book.id) || book));
+    removedIds.forEach(id => searchService.removeBook(id));
+    changedBooks.forEach(book => searchService.updateBook(book));
+  };
+
+  const handleBatchAction = async (action: BookBatchAction) => {
+    if (selectedBooks.length === 0) return;
+
+    setIsBatchWorking(true);
+    try {
+      const result = await bookBatchService.applyAction(selectedBooks, action);
+      applyBatchResult(result.books, result.deletedIds);
+
+      if (action.type === 'delete') {
+        clearSelection();
+      }
+
+      toast({
+        title: "Books Updated",
+        description: describeBookBatchAction(action, selectedBooks.length),
+        action: <UndoToastAction command={result.command} />
+      });
+    } catch (error) {
+      console.error('Error applying batch action:', error);
+      toast({
+        title: "Batch Update Failed",
+        description: `Error updating books: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsBatchWorking(false);
+    }
+  };
+
   // Handle search with advanced options
   const handleSearch = (query: string, options: SearchOptions) => {
     setSearchQuery(query);
@@ -355,35 +500,73 @@ const Index = () => {
               <h2 className="text-xl font-serif font-semibold text-foreground">
                 Your Library
               </h2>
-              {searchQuery && (
+              {(searchQuery || countActiveBookFilters(filters) > 0) && (
                 <span className="text-sm text-muted-foreground">
-                  ({filteredBooks.length} of {books.length} books)
+                  ({visibleTotal} of {books.length} books)
                 </span>
               )}
             </div>
+            <div className="flex items-center gap-2">
+              <BookFilterPanel
+                filters={filters}
+                onFiltersChange={setFilters}
+                sort={sort}
+                onSortChange={setSort}
+                genres={genreOptions}
+                tags={tagOptions}
+                series={seriesOptions}
+                collections={collectionOptions}
+              />
+              <Button
+                variant={selection.active ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => (selection.active ? clearSelection() : setSelectionMode(true))}
+                title="Select books (or shift/ctrl-click a book)"
+              >
+                <CheckSquare className="h-4 w-4 mr-1" />
+                {selection.active ? 'Done' : 'Select'}
+              </Button>
+            </div>
           </div>
           
           {/* Dynamic View Rendering with transition effects */}
           <div className="transition-all duration-500 ease-in-out">
             {viewMode === 'shelf' && (
               <div className="animate-fade-in">
-                <BookShelf books={filteredBooks} onBookClick={setSelectedBook} />
+                <BookShelf books={visibleBooks} onBookClick={setSelectedBook} selection={selection} />
               </div>
             )}
             {viewMode === 'list' && (
               <div className="animate-fade-in">
-                <BookListView books={filteredBooks} onBookClick={setSelectedBook} />
+                <BookListView books={visibleBooks} onBookClick={setSelectedBook} selection={selection} />
               </div>
             )}
             {viewMode === 'cover' && (
               <div className="animate-fade-in">
-                <BookCoverView books={filteredBooks} onBookClick={setSelectedBook} />
+                <BookCoverView books={visibleBooks} onBookClick={setSelectedBook} selection={selection} />
               </div>
             )}
             {/* Insights view moved to its own page */}
           </div>
+
+          {showServerPages && pages.hasMore && (
+            <div ref={pages.sentinelRef} className="py-6 text-center text-sm text-muted-foreground">
+              {pages.isLoading ? 'Loading more books...' : `Showing ${visibleBooks.length} of ${visibleTotal} books`}
+            </div>
+          )}
         </div>
 
+        {selection.active && (
+          <BookBatchActionBar
+            selectedBooks={selectedBooks}
+            visibleCount={visibleBooks.length}
+            isWorking={isBatchWorking}
+            onSelectAll={() => selectAll(visibleBooks.map(book => book.id))}
+            onClear={clearSelection}
+            onAction={handleBatchAction}
+          />
+        )}
+
         {/* Book Details Modal */}
         {selectedBook && (
           <BookDetails
@@ -398,12 +581,16 @@ const Index = () => {
         <ManualAddBookDialog 
           isOpen={showManualAddDialog} 
           onClose={() => setShowManualAddDialog(false)}
-          onSave={(newBook) => {
-            addBook(newBook);
+          onSave={async (newBook) => {
             setShowManualAddDialog(false);
+            const previousCommand = historyService.peekUndo();
+            await addBook(newBook);
+            // addBook reports its own failure, in which case nothing was recorded
+            const command = historyService.peekUndo();
             toast({
               title: "Book Added",
-              description: `${newBook.title} has been added to your library.`
+              description: `${newBook.title} has been added to your library.`,
+              action: <UndoToastAction command={command !== previousCommand ? command : undefined} />
             });
           }}
         />
@@ -8,6 +8,7 @@ import { useSettings } from '@/contexts/SettingsContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useLibrarySettings } from '@/hooks/useLibrarySettings';
 import { bookRepository } from '@/repositories/BookRepository';
+import { getCompletedReadsInYear } from '@/utils/statisticsUtils';
 
 const InsightsPage = () => {
   const { settings } = useSettings();
@@ -38,20 +39,10 @@ const InsightsPage = () => {
         const currentMonth = currentDate.getMonth();
         const currentYear = currentDate.getFullYear();
         
-        // Count books completed in the current month
-        const completedThisMonth = uiBooks.filter(book => {
-          // Check if the book has a completedDate
-          if (!book.completedDate) return false;
-          
-          // Parse the completed date
-          const completedDate = new Date(book.completedDate);
-          
-          // Check if it's the current month and year
-          return (
-            completedDate.getMonth() === currentMonth &&
-            completedDate.getFullYear() === currentYear
-          );
-        }).length;
+        // Count reads finished in the current month, including re-reads
+        const completedThisMonth = getCompletedReadsInYear(uiBooks, currentYear).filter(read =>
+          new Date(read.finishedDate).getMonth() === currentMonth
+        ).length;
         
         setBooksCompletedThisMonth(completedThisMonth);
       } catch (error) {
@@ -0,0 +1,490 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlarmClock, Check, ChevronsUpDown, Edit, Handshake, Search, Trash2, X } from 'lucide-react';
+import { Settings } from '@/components/Settings';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { useLoans } from '@/contexts/loans-context';
+import { useHistoryRefresh } from '@/hooks/useHistory';
+import { useLibrarySettings } from '@/hooks/useLibrarySettings';
+import { useSyncRefresh } from '@/hooks/useSync';
+import { bookRepository } from '@/repositories/BookRepository';
+import { loanRepository } from '@/repositories/LoanRepository';
+import { Book } from '@/types/book';
+import { Loan, LoanDirection } from '@/types/loan';
+import {
+  LOAN_DIRECTION_LABELS,
+  describeLoan,
+  getDaysOverdue,
+  getOverdueLoans,
+  isLoanActive,
+  isLoanOverdue,
+} from '@/utils/loanUtils';
+
+type LoanDialog =
+  | { type: 'create' }
+  | { type: 'edit'; loan: Loan }
+  | { type: 'delete'; loan: Loan };
+
+interface LoanForm {
+  bookId: string;
+  direction: LoanDirection;
+  person: string;
+  loanedDate: string;
+  dueDate: string;
+  returnedDate: string;
+  notes: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const toDateInput = (value?: string) => (value ? value.split('T')[0] : '');
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const emptyForm = (): LoanForm => ({
+  bookId: '',
+  direction: 'lent',
+  person: '',
+  loanedDate: today(),
+  dueDate: '',
+  returnedDate: '',
+  notes: '',
+});
+
+const LoansPage: React.FC = () => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [dialog, setDialog] = useState<LoanDialog | null>(null);
+  const [form, setForm] = useState<LoanForm>(emptyForm);
+  const [bookPickerOpen, setBookPickerOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { loans, refreshLoans } = useLoans();
+  const { books, setBooks, settingsProps, setShowSettings } = useLibrarySettings();
+  const { toast } = useToast();
+
+  const booksById = useMemo(() => new Map(books.map(book => [book.id, book])), [books]);
+
+  const loadBooks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBooks(await bookRepository.getAll());
+      await refreshLoans();
+    } catch (error) {
+      console.error('Error loading books:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your loans. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [setBooks, refreshLoans, toast]);
+
+  useEffect(() => {
+    void loadBooks();
+  }, [loadBooks]);
+
+  // Reload after an undo, a redo or a sync pull
+  useHistoryRefresh(() => {
+    void loadBooks();
+  });
+  useSyncRefresh(() => {
+    void loadBooks();
+  });
+
+  const visibleLoans = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return loans;
+
+    return loans.filter(loan => {
+      const book = booksById.get(loan.bookId);
+      return loan.person.toLowerCase().includes(query) || Boolean(book?.title.toLowerCase().includes(query));
+    });
+  }, [loans, booksById, searchQuery]);
+
+  const sections = useMemo(() => {
+    const active = visibleLoans.filter(loan => isLoanActive(loan) && !isLoanOverdue(loan));
+
+    return [
+      { title: 'Overdue', loans: getOverdueLoans(visibleLoans) },
+      { title: 'Lent out', loans: active.filter(loan => loan.direction === 'lent') },
+      { title: 'Borrowed', loans: active.filter(loan => loan.direction === 'borrowed') },
+      { title: 'Returned', loans: visibleLoans.filter(loan => !isLoanActive(loan)) },
+    ].filter(section => section.loans.length > 0);
+  }, [visibleLoans]);
+
+  const openDialog = (next: LoanDialog) => {
+    setForm(next.type === 'create'
+      ? emptyForm()
+      : {
+          bookId: next.loan.bookId,
+          direction: next.loan.direction,
+          person: next.loan.person,
+          loanedDate: toDateInput(next.loan.loanedDate),
+          dueDate: toDateInput(next.loan.dueDate),
+          returnedDate: toDateInput(next.loan.returnedDate),
+          notes: next.loan.notes || '',
+        });
+    setDialog(next);
+  };
+
+  const formError =
+    dialog?.type === 'delete'
+      ? null
+      : !form.bookId
+        ? 'Choose a book'
+        : !form.person.trim()
+          ? form.direction === 'lent' ? 'Enter who borrowed the book' : 'Enter who lent you the book'
+          : !form.loanedDate
+            ? 'Enter the date the book went out'
+            : form.dueDate && form.dueDate < form.loanedDate
+              ? 'The due date must not be before the loan date'
+              : form.returnedDate && form.returnedDate < form.loanedDate
+                ? 'The return date must not be before the loan date'
+                : null;
+
+  const runAction = async (action: () => Promise<unknown>, title: string, description: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await refreshLoans();
+      setDialog(null);
+      toast({ title, description });
+    } catch (error) {
+      console.error('Error updating loan:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update the loan. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!dialog || formError) return;
+
+    if (dialog.type === 'delete') {
+      await runAction(() => loanRepository.delete(dialog.loan.id), 'Loan Deleted', 'The loan was removed.');
+      return;
+    }
+
+    const data = {
+      direction: form.direction,
+      person: form.person.trim(),
+      loanedDate: form.loanedDate,
+      dueDate: form.dueDate || undefined,
+      returnedDate: form.returnedDate || undefined,
+      notes: form.notes.trim() || undefined,
+    };
+
+    if (dialog.type === 'create') {
+      await runAction(
+        () => loanRepository.create({ ...data, bookId: form.bookId }),
+        'Loan Added',
+        describeLoan(data)
+      );
+    } else {
+      await runAction(() => loanRepository.update(dialog.loan.id, data), 'Loan Updated', describeLoan(data));
+    }
+  };
+
+  const markReturned = (loan: Loan) =>
+    runAction(
+      () => loanRepository.update(loan.id, { returnedDate: today() }),
+      'Marked as Returned',
+      `"${booksById.get(loan.bookId)?.title || 'The book'}" is back.`
+    );
+
+  const renderDueStatus = (loan: Loan) => {
+    if (loan.returnedDate) {
+      return <span>Returned {formatDate(loan.returnedDate)}</span>;
+    }
+
+    if (isLoanOverdue(loan)) {
+      const days = getDaysOverdue(loan);
+      return (
+        <Badge variant="destructive" className="text-[10px] py-0">
+          {days === 1 ? '1 day' : `${days} days`} overdue
+        </Badge>
+      );
+    }
+
+    return <span>{loan.dueDate ? `Due ${formatDate(loan.dueDate)}` : 'No due date'}</span>;
+  };
+
+  const renderLoanRow = (loan: Loan) => {
+    const book = booksById.get(loan.bookId);
+
+    return (
+      <div key={loan.id} className="flex items-center gap-3 rounded-md border p-3 hover:bg-muted/50">
+        <div className="flex-grow min-w-0">
+          <h3 className="font-medium truncate">{book?.title || 'Unknown book'}</h3>
+          <p className="text-sm text-muted-foreground truncate">
+            {describeLoan(loan)} on {formatDate(loan.loanedDate)}
+          </p>
+        </div>
+        <div className="text-sm text-muted-foreground mx-2 whitespace-nowrap">{renderDueStatus(loan)}</div>
+        <div className="flex gap-1">
+          {isLoanActive(loan) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Mark returned"
+              aria-label={`Mark ${book?.title || 'loan'} returned`}
+              disabled={isSaving}
+              onClick={() => void markReturned(loan)}
+            >
+              <Check size={16} />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Edit"
+            aria-label={`Edit loan of ${book?.title || 'book'}`}
+            onClick={() => openDialog({ type: 'edit', loan })}
+          >
+            <Edit size={16} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Delete"
+            aria-label={`Delete loan of ${book?.title || 'book'}`}
+            onClick={() => openDialog({ type: 'delete', loan })}
+          >
+            <Trash2 size={16} />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBookPicker = () => {
+    const selectedBook: Book | undefined = booksById.get(form.bookId);
+
+    return (
+      <Popover open={bookPickerOpen} onOpenChange={setBookPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id="loan-book"
+            variant="outline"
+            role="combobox"
+            aria-expanded={bookPickerOpen}
+            className="w-full justify-between font-normal"
+          >
+            <span className="truncate">{selectedBook ? selectedBook.title : 'Choose a book...'}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+          <Command>
+            <CommandInput placeholder="Search your books..." />
+            <CommandList>
+              <CommandEmpty>No books found.</CommandEmpty>
+              {books.map(book => (
+                <CommandItem
+                  key={book.id}
+                  value={`${book.title} ${book.author} ${book.id}`}
+                  onSelect={() => {
+                    setForm({ ...form, bookId: book.id });
+                    setBookPickerOpen(false);
+                  }}
+                >
+                  <Check className={`mr-2 h-4 w-4 ${book.id === form.bookId ? 'opacity-100' : 'opacity-0'}`} />
+                  <span className="truncate">{book.title}</span>
+                  <span className="ml-2 truncate text-xs text-muted-foreground">{book.author}</span>
+                </CommandItem>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  const dialogBook = dialog && dialog.type !== 'create' ? booksById.get(dialog.loan.bookId) : undefined;
+
+  return (
+    <AppLayout
+      onSettingsClick={() => setShowSettings(true)}
+      onAddClick={() => openDialog({ type: 'create' })}
+      searchComponent={
+        <div className="relative w-full">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search by book or person..."
+            className="pl-10 h-10 text-sm w-full"
+          />
+          {searchQuery && (
+            <button
+              type="button"
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 flex items-center justify-center text-muted-foreground hover:text-foreground"
+              onClick={() => setSearchQuery('')}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      }
+    >
+      <div className="py-4 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : sections.length === 0 ? (
+          <div className="text-center py-12">
+            <Handshake className="h-10 w-10 mx-auto mb-3 text-muted-foreground/50" />
+            <h3 className="text-lg font-medium text-gray-600 mb-2">No loans found</h3>
+            <p className="text-gray-500">
+              {searchQuery
+                ? 'Try a different search term'
+                : 'Record the books you lend to friends or borrow from them'}
+            </p>
+          </div>
+        ) : (
+          sections.map(section => (
+            <section key={section.title} className="space-y-2">
+              <h2 className="flex items-center gap-2 text-lg font-medium">
+                {section.title === 'Overdue' && <AlarmClock className="h-5 w-5 text-destructive" />}
+                {section.title}
+                <span className="text-sm font-normal text-muted-foreground">({section.loans.length})</span>
+              </h2>
+              <Card className="p-4 space-y-2">
+                {section.loans.map(renderLoanRow)}
+              </Card>
+            </section>
+          ))
+        )}
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.type === 'create' ? 'New Loan' : dialog?.type === 'edit' ? 'Edit Loan' : 'Delete Loan'}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog?.type === 'create' && 'Record a book you lent out or borrowed.'}
+              {dialog?.type === 'edit' && `"${dialogBook?.title || 'Unknown book'}"`}
+              {dialog?.type === 'delete' &&
+                `The loan of "${dialogBook?.title || 'Unknown book'}" is removed. The book itself is kept.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialog && dialog.type !== 'delete' && (
+            <div className="space-y-4 py-2">
+              {dialog.type === 'create' && (
+                <div className="space-y-2">
+                  <Label htmlFor="loan-book">Book</Label>
+                  {renderBookPicker()}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="loan-direction">Type</Label>
+                  <Select
+                    value={form.direction}
+                    onValueChange={(value) => setForm({ ...form, direction: value as LoanDirection })}
+                  >
+                    <SelectTrigger id="loan-direction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(LOAN_DIRECTION_LABELS) as LoanDirection[]).map(direction => (
+                        <SelectItem key={direction} value={direction}>
+                          {LOAN_DIRECTION_LABELS[direction]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="loan-person">{form.direction === 'lent' ? 'Borrower' : 'Lender'}</Label>
+                  <Input
+                    id="loan-person"
+                    value={form.person}
+                    onChange={(e) => setForm({ ...form, person: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="loan-date">Date out</Label>
+                  <Input
+                    id="loan-date"
+                    type="date"
+                    value={form.loanedDate}
+                    onChange={(e) => setForm({ ...form, loanedDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="loan-due">Due back</Label>
+                  <Input
+                    id="loan-due"
+                    type="date"
+                    value={form.dueDate}
+                    onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                  />
+                </div>
+                {dialog.type === 'edit' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="loan-returned">Returned</Label>
+                    <Input
+                      id="loan-returned"
+                      type="date"
+                      value={form.returnedDate}
+                      onChange={(e) => setForm({ ...form, returnedDate: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="loan-notes">Notes</Label>
+                <Textarea
+                  id="loan-notes"
+                  placeholder="Optional, e.g. lent with the bookmark"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button
+              variant={dialog?.type === 'delete' ? 'destructive' : 'default'}
+              onClick={() => void handleConfirm()}
+              disabled={Boolean(formError) || isSaving}
+            >
+              {dialog?.type === 'create' ? 'Add Loan' : dialog?.type === 'edit' ? 'Save' : 'Delete Loan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Settings Modal */}
+      <Settings {...settingsProps} />
+    </AppLayout>
+  );
+};
+
+export default LoansPage;
@@ -13,6 +13,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { PasswordInput } from "@/components/ui/password-input";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import appScreenshot from "../../docs/app-screenshot.png";
 
 type LocationState = {
@@ -23,11 +24,16 @@ type LocationState = {
 export default function LoginPage() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { authError, isAuthenticated, isLoadingAuth, login } = useAuth();
+  const { authError, completeTwoFactorLogin, isAuthenticated, isLoadingAuth, login } =
+    useAuth();
+  const { toast } = useToast();
   const locationState = location.state as LocationState | null;
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [pageError, setPageError] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [secondFactorCode, setSecondFactorCode] = useState("");
 
   if (isAuthenticated) {
     return <Navigate to="/" replace />;
@@ -38,7 +44,14 @@ export default function LoginPage() {
     setPageError(null);
 
     try {
-      await login({ email, password });
+      const result = await login({ email, password });
+
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        setSecondFactorCode("");
+        return;
+      }
+
       const from = (location.state as LocationState | null)?.from || "/";
       navigate(from, { replace: true });
     } catch (error) {
@@ -46,55 +59,163 @@ export default function LoginPage() {
     }
   };
 
+  const handleSecondFactorSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!challengeToken) {
+      return;
+    }
+
+    setPageError(null);
+
+    try {
+      const { recoveryCodesRemaining } = await completeTwoFactorLogin(
+        useRecoveryCode
+          ? { challengeToken, recoveryCode: secondFactorCode }
+          : { challengeToken, code: secondFactorCode },
+      );
+      if (recoveryCodesRemaining !== undefined) {
+        toast({
+          title: "Recovery code used",
+          description: `You have ${recoveryCodesRemaining} recovery codes left. You can generate new ones in Settings.`,
+        });
+      }
+
+      const from = (location.state as LocationState | null)?.from || "/";
+      navigate(from, { replace: true });
+    } catch (error) {
+      setPageError(error instanceof Error ? error.message : "Login failed.");
+    }
+  };
+
+  const handleStartOver = () => {
+    setChallengeToken(null);
+    setUseRecoveryCode(false);
+    setSecondFactorCode("");
+    setPageError(null);
+  };
+
+  const secondFactorForm = (
+    <form className="space-y-4" onSubmit={handleSecondFactorSubmit}>
+      <div className="space-y-2">
+        <label className="text-sm font-medium" htmlFor="second-factor-code">
+          {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+        </label>
+        {useRecoveryCode ? (
+          <Input
+            autoComplete="off"
+            id="second-factor-code"
+            onChange={(event) => setSecondFactorCode(event.target.value)}
+            placeholder="xxxxx-xxxxx"
+            value={secondFactorCode}
+          />
+        ) : (
+          <Input
+            autoComplete="one-time-code"
+            id="second-factor-code"
+            inputMode="numeric"
+            maxLength={6}
+            onChange={(event) =>
+              setSecondFactorCode(event.target.value.replace(/\D/g, "").slice(0, 6))
+            }
+            placeholder="6-digit code"
+            value={secondFactorCode}
+          />
+        )}
+      </div>
+
+      {(pageError || authError) && (
+        <p className="text-sm text-destructive">{pageError || authError}</p>
+      )}
+
+      <Button
+        className="w-full"
+        disabled={isLoadingAuth || !secondFactorCode.trim()}
+        type="submit"
+      >
+        {isLoadingAuth ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex flex-wrap justify-between gap-2 text-sm">
+        <button
+          className="text-primary underline-offset-4 hover:underline"
+          onClick={() => {
+            setUseRecoveryCode((current) => !current);
+            setSecondFactorCode("");
+            setPageError(null);
+          }}
+          type="button"
+        >
+          {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+        </button>
+        <button
+          className="text-muted-foreground underline-offset-4 hover:underline"
+          onClick={handleStartOver}
+          type="button"
+        >
+          Start over
+        </button>
+      </div>
+    </form>
+  );
+
   return (
     <AuthEntryShell
       authCard={
         <Card className="w-full border-border/60 bg-card/95 shadow-elegant">
           <CardHeader>
-            <CardTitle>Sign In</CardTitle>
+            <CardTitle>{challengeToken ? "Two-Factor Authentication" : "Sign In"}</CardTitle>
             <CardDescription>
-              Access your account-backed library with your credentials.
+              {challengeToken
+                ? useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when turning on two-factor authentication."
+                  : "Enter the 6-digit code from your authenticator app."
+                : "Access your account-backed library with your credentials."}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form className="space-y-4" onSubmit={handleSubmit}>
-              {locationState?.message && !pageError && !authError && (
-                <p className="text-sm text-muted-foreground">{locationState.message}</p>
-              )}
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="email">
-                  Email
-                </label>
-                <Input
-                  autoComplete="email"
-                  id="email"
-                  onChange={(event) => setEmail(event.target.value)}
-                  type="email"
-                  value={email}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="password">
-                  Password
-                </label>
-                <PasswordInput
-                  autoComplete="current-password"
-                  id="password"
-                  onChange={(event) => setPassword(event.target.value)}
-                  value={password}
-                />
-              </div>
-
-              {(pageError || authError) && (
-                <p className="text-sm text-destructive">{pageError || authError}</p>
-              )}
-
-              <Button className="w-full" disabled={isLoadingAuth} type="submit">
-                {isLoadingAuth ? "Signing in..." : "Sign In"}
-              </Button>
-            </form>
+            {challengeToken ? (
+              secondFactorForm
+            ) : (
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                {locationState?.message && !pageError && !authError && (
+                  <p className="text-sm text-muted-foreground">{locationState.message}</p>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium" htmlFor="email">
+                    Email
+                  </label>
+                  <Input
+                    autoComplete="email"
+                    id="email"
+                    onChange={(event) => setEmail(event.target.value)}
+                    type="email"
+                    value={email}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium" htmlFor="password">
+                    Password
+                  </label>
+                  <PasswordInput
+                    autoComplete="current-password"
+                    id="password"
+                    onChange={(event) => setPassword(event.target.value)}
+                    value={password}
+                  />
+                </div>
+
+                {(pageError || authError) && (
+                  <p className="text-sm text-destructive">{pageError || authError}</p>
+                )}
+
+                <Button className="w-full" disabled={isLoadingAuth} type="submit">
+                  {isLoadingAuth ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+            )}
 
             <p className="mt-4 text-sm text-muted-foreground">
               Forgot your password?{" "}
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useHistoryRefresh } from '@/hooks/useHistory';
+import { useSyncRefresh } from '@/hooks/useSync';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useSettings } from "@/contexts/SettingsContext";
 import { useToast } from "@/hooks/use-toast";
@@ -77,6 +79,11 @@ const SeriesDetailPage = () => {
     }
   }, [isRefreshing]);
 
+  // Reload after an undo, a redo or a sync pull
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  useHistoryRefresh(() => setLibraryVersion(version => version + 1));
+  useSyncRefresh(() => setLibraryVersion(version => version + 1));
+
   // Load series and related books
   useEffect(() => {
     const loadData = async () => {
@@ -121,7 +128,7 @@ const SeriesDetailPage = () => {
     };
     
     loadData();
-  }, [navigate, refreshSeriesData, seriesId, toast]);
+  }, [navigate, refreshSeriesData, seriesId, toast, libraryVersion]);
   
   // Function to check for upcoming releases
   const checkForUpcomingReleases = async (currentSeries: Series) => {
@@ -1,4 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
+import { useHistoryRefresh } from "@/hooks/useHistory";
+import { useSyncRefresh } from "@/hooks/useSync";
 import { Settings } from "@/components/Settings";
 import { useNavigate } from "react-router-dom";
 import { useLibrarySettings } from '@/hooks/useLibrarySettings';
@@ -117,6 +119,11 @@ const SeriesPage = () => {
     setFilter({});
   };
   
+  // Reload after an undo, a redo or a sync pull
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  useHistoryRefresh(() => setLibraryVersion(version => version + 1));
+  useSyncRefresh(() => setLibraryVersion(version => version + 1));
+
   // Load books through the repository so authenticated sessions use the API path.
   useEffect(() => {
     setIsLoading(true);
@@ -145,7 +152,7 @@ const SeriesPage = () => {
     };
     
     loadData();
-  }, [setBooks, toast]);
+  }, [setBooks, toast, libraryVersion]);
   
   // Handle deleting a series
   const handleDeleteSeries = async (seriesId: string) => {
@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Edit, Library, Merge, Palette, Search, Tags, Trash2, X } from 'lucide-react';
+import { Settings } from '@/components/Settings';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { UndoToastAction } from '@/components/UndoToastAction';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/components/ui/use-toast';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useHistoryRefresh } from '@/hooks/useHistory';
+import { useLibrarySettings } from '@/hooks/useLibrarySettings';
+import { useSyncRefresh } from '@/hooks/useSync';
+import { bookRepository } from '@/repositories/BookRepository';
+import { tagService } from '@/services/TagService';
+import {
+  DEFAULT_TAG_COLOR,
+  MAX_TAG_LENGTH,
+  TagAction,
+  TagSummary,
+  describeTagAction,
+  getTagActionColors,
+  summarizeTags,
+} from '@/utils/bookTags';
+
+const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+type TagDialog =
+  | { type: 'rename'; tag: TagSummary }
+  | { type: 'merge'; tags: TagSummary[] }
+  | { type: 'delete'; tag: TagSummary };
+
+const TagsPage: React.FC = () => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [dialog, setDialog] = useState<TagDialog | null>(null);
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { settings, updateSettings } = useSettings();
+  const { books, setBooks, settingsProps, setShowSettings } = useLibrarySettings({
+    onLibraryCleared: () => setSelectedTags([]),
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const tagColors = useMemo(() => settings.tagColors ?? {}, [settings.tagColors]);
+  const tags = useMemo(() => summarizeTags(books), [books]);
+  const visibleTags = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return query ? tags.filter(tag => tag.name.toLowerCase().includes(query)) : tags;
+  }, [tags, searchQuery]);
+
+  const loadBooks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBooks(await bookRepository.getAll());
+    } catch (error) {
+      console.error('Error loading books:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your tags. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [setBooks, toast]);
+
+  useEffect(() => {
+    void loadBooks();
+  }, [loadBooks]);
+
+  // Reload after an undo, a redo or a sync pull
+  useHistoryRefresh(() => {
+    void loadBooks();
+  });
+  useSyncRefresh(() => {
+    void loadBooks();
+  });
+
+  // Selected tags that no longer exist, e.g. after a merge, drop out
+  useEffect(() => {
+    setSelectedTags(current => current.filter(tag => tags.some(summary => summary.name === tag)));
+  }, [tags]);
+
+  const openDialog = (next: TagDialog) => {
+    setName(next.type === 'rename' ? next.tag.name : next.type === 'merge' ? next.tags[0].name : '');
+    setDialog(next);
+  };
+
+  const saveColor = async (tag: string, color: string | null) => {
+    const nextColors = { ...tagColors };
+    if (color) {
+      nextColors[tag] = color;
+    } else {
+      delete nextColors[tag];
+    }
+
+    try {
+      await updateSettings({ tagColors: nextColors });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to save the tag colour. Please try again.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const getDialogAction = (current: TagDialog): TagAction => {
+    switch (current.type) {
+      case 'rename':
+        return { type: 'rename', tag: current.tag.name, name };
+      case 'merge':
+        return { type: 'merge', tags: current.tags.map(tag => tag.name), into: name };
+      case 'delete':
+        return { type: 'delete', tag: current.tag.name };
+    }
+  };
+
+  const trimmedName = name.trim();
+  const nameError =
+    dialog?.type === 'delete'
+      ? null
+      : !trimmedName
+        ? 'Enter a tag name'
+        : trimmedName.length > MAX_TAG_LENGTH
+          ? `Tags can be at most ${MAX_TAG_LENGTH} characters`
+          : null;
+
+  const handleConfirm = async () => {
+    if (!dialog || nameError) return;
+
+    const action = getDialogAction(dialog);
+    setIsSaving(true);
+    try {
+      const result = await tagService.applyAction(books, action);
+      const nextColors = getTagActionColors(tagColors, action);
+
+      if (JSON.stringify(nextColors) !== JSON.stringify(tagColors)) {
+        await updateSettings({ tagColors: nextColors });
+      }
+
+      setDialog(null);
+      setSelectedTags([]);
+      await loadBooks();
+
+      toast({
+        title: 'Tags Updated',
+        description: describeTagAction(action, result.books.length),
+        action: <UndoToastAction command={result.command} />
+      });
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update the tags. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleSelected = (tag: string) => {
+    setSelectedTags(current => (current.includes(tag) ? current.filter(name => name !== tag) : [...current, tag]));
+  };
+
+  const renderColorPicker = (tag: TagSummary) => {
+    const color = tagColors[tag.name];
+
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label={`Colour for ${tag.name}`} title="Change colour">
+            <span
+              className="h-4 w-4 rounded-full border"
+              style={{ backgroundColor: color || DEFAULT_TAG_COLOR }}
+            />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-3">
+          <div className="grid grid-cols-4 gap-2">
+            {TAG_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                className={`h-7 w-7 rounded-full border-2 ${option === color ? 'border-foreground' : 'border-transparent'}`}
+                style={{ backgroundColor: option }}
+                aria-label={option}
+                onClick={() => void saveColor(tag.name, option)}
+              />
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-2 w-full text-xs"
+            disabled={!color}
+            onClick={() => void saveColor(tag.name, null)}
+          >
+            <Palette size={14} className="mr-1" />
+            Default colour
+          </Button>
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  const renderTagRow = (tag: TagSummary) => (
+    <div key={tag.name} className="flex items-center gap-3 rounded-md border p-3 hover:bg-muted/50">
+      <Checkbox
+        checked={selectedTags.includes(tag.name)}
+        onCheckedChange={() => toggleSelected(tag.name)}
+        aria-label={`Select ${tag.name}`}
+      />
+      {renderColorPicker(tag)}
+      <div className="flex-grow min-w-0">
+        <h3 className="font-medium truncate">{tag.name}</h3>
+      </div>
+      <div className="text-sm text-muted-foreground mx-2">
+        {tag.count} {tag.count === 1 ? 'book' : 'books'}
+      </div>
+      <div className="flex gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Show books"
+          aria-label={`Show books tagged ${tag.name}`}
+          onClick={() => navigate(`/?tag=${encodeURIComponent(tag.name)}`)}
+        >
+          <Library size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Rename"
+          aria-label={`Rename ${tag.name}`}
+          onClick={() => openDialog({ type: 'rename', tag })}
+        >
+          <Edit size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Delete"
+          aria-label={`Delete ${tag.name}`}
+          onClick={() => openDialog({ type: 'delete', tag })}
+        >
+          <Trash2 size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+
+  const dialogBookCount = dialog
+    ? dialog.type === 'merge'
+      ? books.filter(book => book.tags?.some(tag => dialog.tags.some(summary => summary.name === tag))).length
+      : dialog.tag.count
+    : 0;
+  const bookLabel = `${dialogBookCount} ${dialogBookCount === 1 ? 'book' : 'books'}`;
+
+  return (
+    <AppLayout
+      onSettingsClick={() => setShowSettings(true)}
+      searchComponent={
+        <div className="flex w-full flex-wrap items-center gap-2 sm:flex-nowrap">
+          <div className="relative w-full min-w-0 sm:flex-grow">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search tags..."
+              className="pl-10 h-10 text-sm w-full"
+            />
+            {searchQuery && (
+              <button
+                type="button"
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 flex items-center justify-center text-muted-foreground hover:text-foreground"
+                onClick={() => setSearchQuery('')}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            className="h-10"
+            disabled={selectedTags.length < 2}
+            onClick={() => openDialog({
+              type: 'merge',
+              tags: tags.filter(tag => selectedTags.includes(tag.name)),
+            })}
+          >
+            <Merge size={16} className="mr-2" />
+            Merge{selectedTags.length > 1 ? ` ${selectedTags.length} tags` : ''}
+          </Button>
+        </div>
+      }
+    >
+      <div className="py-4">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : visibleTags.length === 0 ? (
+          <div className="text-center py-12">
+            <Tags className="h-10 w-10 mx-auto mb-3 text-muted-foreground/50" />
+            <h3 className="text-lg font-medium text-gray-600 mb-2">No tags found</h3>
+            <p className="text-gray-500">
+              {searchQuery
+                ? 'Try a different search term'
+                : 'Add tags like "signed copy" or "audiobook" from a book\'s details'}
+            </p>
+          </div>
+        ) : (
+          <Card className="p-4 space-y-2">
+            {visibleTags.map(renderTagRow)}
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.type === 'rename' ? 'Rename Tag' : dialog?.type === 'merge' ? 'Merge Tags' : 'Delete Tag'}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog?.type === 'rename' && `The new name is used on all ${bookLabel} tagged "${dialog.tag.name}".`}
+              {dialog?.type === 'merge' &&
+                `${dialog.tags.map(tag => `"${tag.name}"`).join(', ')} become one tag on ${bookLabel}.`}
+              {dialog?.type === 'delete' &&
+                `"${dialog.tag.name}" is removed from ${bookLabel}. The books themselves are kept.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialog && dialog.type !== 'delete' && (
+            <div className="space-y-2 py-2">
+              <Label htmlFor="tag-name">{dialog.type === 'merge' ? 'Merged tag name' : 'Name'}</Label>
+              <Input
+                id="tag-name"
+                value={name}
+                maxLength={MAX_TAG_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') void handleConfirm();
+                }}
+              />
+              {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button
+              variant={dialog?.type === 'delete' ? 'destructive' : 'default'}
+              onClick={() => void handleConfirm()}
+              disabled={Boolean(nameError) || isSaving}
+            >
+              {dialog?.type === 'rename' ? 'Rename' : dialog?.type === 'merge' ? 'Merge' : 'Delete Tag'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Settings Modal */}
+      <Settings {...settingsProps} />
+    </AppLayout>
+  );
+};
+
+export default TagsPage;
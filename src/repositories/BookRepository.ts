@@ -1,8 +1,12 @@
-import { ApiClientError, booksApi } from "@/lib/apiClient";
+import { BookListParams, BookRecordPatch, booksApi, readingSessionsApi } from "@/lib/apiClient";
 import { getStoredAuthToken } from "@/lib/auth-storage";
 import { Book } from "@/types/book";
+import { ReadingSession } from "@/types/reading-session";
+import { historyService } from "@/services/HistoryService";
+import { syncService } from "@/services/sync/SyncService";
 import { enhancedStorageService } from "@/services/storage/EnhancedStorageService";
 import { convertDbBookToUiBook, convertUiBookToDbBook } from "@/adapters/BookTypeAdapter";
+import { getBatchRestoreChanges } from "@/utils/bookBatch";
 
 const isAuthenticatedSession = (): boolean => Boolean(getStoredAuthToken());
 
@@ -25,26 +29,33 @@ const normalizeLocalBook = (book: Book): Book => {
 export class BookRepository {
   async getAll(): Promise<Book[]> {
     if (isAuthenticatedSession()) {
-      const remoteBooks = await booksApi.getAll();
-      return remoteBooks.map((book) => normalizeRemoteBook(book as Book));
+      const remoteBooks = await syncService.getAll<Book>("books");
+      return remoteBooks.map(normalizeRemoteBook);
     }
 
     const localBooks = await enhancedStorageService.getBooks();
     return localBooks.map(normalizeLocalBook);
   }
 
+  /**
+   * One page of books filtered and sorted by the server, for libraries too
+   * big to show at once. Only available while signed in and online; the page
+   * does not include changes still waiting to sync.
+   */
+  async getPage(params: BookListParams): Promise<{ books: Book[]; nextCursor: string | null; total: number }> {
+    const page = await booksApi.list(params);
+
+    return {
+      books: page.items.map(book => normalizeRemoteBook(book as Book & { updatedAt?: string })),
+      nextCursor: page.nextCursor,
+      total: page.total,
+    };
+  }
+
   async getById(id: string): Promise<Book | null> {
     if (isAuthenticatedSession()) {
-      try {
-        const remoteBook = await booksApi.getById(id);
-        return normalizeRemoteBook(remoteBook as Book);
-      } catch (error) {
-        if (error instanceof ApiClientError && error.status === 404) {
-          return null;
-        }
-
-        throw error;
-      }
+      const remoteBook = await syncService.get<Book>("books", id);
+      return remoteBook ? normalizeRemoteBook(remoteBook) : null;
     }
 
     const localBook = await enhancedStorageService.getBookById(id);
@@ -57,49 +68,244 @@ export class BookRepository {
   }
 
   async create(book: Book): Promise<Book> {
+    let createdBook: Book;
+
     if (isAuthenticatedSession()) {
-      const createdBook = await booksApi.create(normalizeRemoteBook(book));
-      return normalizeRemoteBook(createdBook as Book);
+      createdBook = normalizeRemoteBook(book);
+      await syncService.save("books", [createdBook], { method: "POST", path: "/books", body: createdBook });
+    } else {
+      const bookId = await enhancedStorageService.saveBook(convertUiBookToDbBook(book));
+      createdBook = {
+        ...book,
+        id: bookId || book.id,
+      };
     }
 
-    const bookId = await enhancedStorageService.saveBook(convertUiBookToDbBook(book));
+    historyService.record(
+      `Add "${createdBook.title}"`,
+      () => this.delete(createdBook.id),
+      async () => {
+        await this.create(createdBook);
+      },
+    );
 
-    return {
-      ...book,
-      id: bookId || book.id,
-    };
+    return createdBook;
   }
 
   async update(id: string, updates: Partial<Book>): Promise<Book> {
+    const previousBook = historyService.isRecording() ? await this.getById(id) : null;
+    let savedBook: Book;
+
     if (isAuthenticatedSession()) {
-      const updatedBook = await booksApi.update(id, updates);
-      return normalizeRemoteBook(updatedBook as Book);
+      const existingBook = await syncService.get<Book>("books", id);
+
+      if (!existingBook) {
+        throw new Error("Book not found.");
+      }
+
+      savedBook = normalizeRemoteBook({ ...existingBook, ...updates, id });
+      await syncService.save("books", [savedBook], {
+        method: "PUT",
+        path: `/books/${id}`,
+        body: updates,
+        conditional: true,
+      });
+    } else {
+      const existingBook = await enhancedStorageService.getBookById(id);
+
+      if (!existingBook) {
+        throw new Error("Book not found.");
+      }
+
+      const updatedBook = convertUiBookToDbBook({
+        ...convertDbBookToUiBook(existingBook),
+        ...updates,
+        id,
+      });
+
+      await enhancedStorageService.saveBook(updatedBook);
+      savedBook = normalizeLocalBook(convertDbBookToUiBook(updatedBook));
     }
 
-    const existingBook = await enhancedStorageService.getBookById(id);
+    if (previousBook) {
+      this.recordUpdate([previousBook], { patch: updates as BookRecordPatch, patches: {} });
+    }
 
-    if (!existingBook) {
-      throw new Error("Book not found.");
+    return savedBook;
+  }
+
+  /**
+   * Apply a patch to many books at once, with optional per-book changes on
+   * top. Fields set to null are cleared.
+   */
+  async updateMany(
+    ids: string[],
+    patch: BookRecordPatch,
+    patches: Record<string, BookRecordPatch> = {},
+  ): Promise<Book[]> {
+    if (ids.length === 0) {
+      return [];
     }
 
-    const updatedBook = convertUiBookToDbBook({
-      ...convertDbBookToUiBook(existingBook),
-      ...updates,
-      id,
-    });
+    const previousBooks = historyService.isRecording() ? await this.getManyById(ids) : [];
+
+    const updatedBooks: Book[] = [];
 
-    await enhancedStorageService.saveBook(updatedBook);
+    for (const id of ids) {
+      const existingBook = isAuthenticatedSession()
+        ? await syncService.get<Book>("books", id)
+        : await enhancedStorageService.getBookById(id);
 
-    return normalizeLocalBook(convertDbBookToUiBook(updatedBook));
+      if (!existingBook) {
+        throw new Error(`Book ${id} not found.`);
+      }
+
+      const updatedBook: Book = { ...existingBook, id };
+
+      for (const [field, value] of Object.entries({ ...patch, ...patches[id] })) {
+        if (value === null) {
+          delete updatedBook[field as keyof Book];
+        } else {
+          Object.assign(updatedBook, { [field]: value });
+        }
+      }
+
+      updatedBooks.push(normalizeLocalBook(updatedBook));
+    }
+
+    if (isAuthenticatedSession()) {
+      await syncService.save("books", updatedBooks, {
+        method: "PATCH",
+        path: "/books",
+        body: { ids, patch, patches },
+      });
+    } else {
+      await enhancedStorageService.saveBooks(updatedBooks);
+    }
+
+    this.recordUpdate(previousBooks, { patch, patches });
+
+    return updatedBooks;
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const snapshot = historyService.isRecording() ? await this.getDeletionSnapshot(ids) : null;
+
+    if (isAuthenticatedSession()) {
+      await syncService.remove("books", ids, { method: "DELETE", path: "/books", body: { ids } });
+    } else {
+      for (const id of ids) {
+        await enhancedStorageService.deleteBook(id);
+      }
+    }
+
+    if (snapshot) {
+      this.recordDeletion(snapshot, () => this.deleteMany(ids));
+    }
   }
 
   async delete(id: string): Promise<void> {
+    const snapshot = historyService.isRecording() ? await this.getDeletionSnapshot([id]) : null;
+
     if (isAuthenticatedSession()) {
-      await booksApi.delete(id);
-      return;
+      await syncService.remove("books", [id], { method: "DELETE", path: `/books/${id}` });
+    } else {
+      await enhancedStorageService.deleteBook(id);
+    }
+
+    if (snapshot) {
+      this.recordDeletion(snapshot, () => this.delete(id));
+    }
+  }
+
+  private async getManyById(ids: string[]): Promise<Book[]> {
+    const books: Book[] = [];
+
+    for (const id of ids) {
+      const book = await this.getById(id);
+      if (book) books.push(book);
+    }
+
+    return books;
+  }
+
+  private recordUpdate(previousBooks: Book[], changes: { patch: BookRecordPatch; patches: Record<string, BookRecordPatch> }): void {
+    const restore = getBatchRestoreChanges(previousBooks, changes);
+    const restoreIds = Object.keys(restore.patches);
+    if (restoreIds.length === 0) return;
+
+    const label = previousBooks.length === 1
+      ? `Edit "${previousBooks[0].title}"`
+      : `Edit ${previousBooks.length} books`;
+
+    historyService.record(
+      label,
+      async () => {
+        await this.updateMany(restoreIds, {}, restore.patches);
+      },
+      async () => {
+        await this.updateMany(previousBooks.map((book) => book.id), changes.patch, changes.patches);
+      },
+    );
+  }
+
+  /**
+   * The books about to be deleted and their reading logs, which are deleted
+   * with them
+   */
+  private async getDeletionSnapshot(ids: string[]): Promise<{ books: Book[]; sessions: ReadingSession[] }> {
+    const books = await this.getManyById(ids);
+    const sessions: ReadingSession[] = [];
+
+    for (const id of ids) {
+      if (!isAuthenticatedSession()) {
+        sessions.push(...await enhancedStorageService.getReadingSessions(id));
+        continue;
+      }
+
+      // Reading logs are not kept offline; without a connection the delete
+      // still goes ahead and undo restores just the books
+      try {
+        sessions.push(...await readingSessionsApi.getAll(id));
+      } catch (error) {
+        console.warn(`Could not load reading sessions for book ${id}:`, error);
+      }
     }
 
-    await enhancedStorageService.deleteBook(id);
+    return { books, sessions };
+  }
+
+  private recordDeletion(
+    snapshot: { books: Book[]; sessions: ReadingSession[] },
+    redo: () => Promise<void>,
+  ): void {
+    if (snapshot.books.length === 0) return;
+
+    const label = snapshot.books.length === 1
+      ? `Delete "${snapshot.books[0].title}"`
+      : `Delete ${snapshot.books.length} books`;
+
+    historyService.record(
+      label,
+      async () => {
+        for (const book of snapshot.books) {
+          await this.create(book);
+        }
+
+        for (const session of snapshot.sessions) {
+          if (isAuthenticatedSession()) {
+            await readingSessionsApi.create(session);
+          } else {
+            await enhancedStorageService.saveReadingSession(session);
+          }
+        }
+      },
+      redo,
+    );
   }
 }
 
@@ -3,9 +3,13 @@ import { Book } from '@/types/book';
 import { DatabaseService } from '@/services/DatabaseService';
 import { enhancedStorageService } from '@/services/storage/EnhancedStorageService';
 import { bookRepository } from '@/repositories/BookRepository';
+import { seriesRepository } from '@/repositories/SeriesRepository';
 import { v4 as uuidv4 } from 'uuid';
-import { ApiClientError, collectionsApi, CollectionRecord } from '@/lib/apiClient';
+import { CollectionRecord } from '@/lib/apiClient';
 import { getStoredAuthToken } from '@/lib/auth-storage';
+import { historyService } from '@/services/HistoryService';
+import { syncService } from '@/services/sync/SyncService';
+import { CollectionRuleContext, matchesCollectionRules } from '@/utils/collectionRules';
 
 type StoredCollection = Collection & {
   dateAdded?: string;
@@ -19,6 +23,7 @@ const normalizeRemoteCollection = (collection: CollectionRecord): Collection =>
   name: collection.name,
   description: collection.description,
   bookIds: collection.bookIds || [],
+  rules: collection.rules ?? null,
   color: collection.color,
   imageUrl: collection.imageUrl,
   createdAt: new Date(collection.createdAt),
@@ -30,6 +35,7 @@ const serializeCollection = (collection: Collection): CollectionRecord => ({
   name: collection.name,
   description: collection.description,
   bookIds: collection.bookIds || [],
+  rules: collection.rules ?? null,
   color: collection.color,
   imageUrl: collection.imageUrl,
   createdAt: collection.createdAt.toISOString(),
@@ -53,7 +59,7 @@ export class CollectionRepository {
    */
   async getAll(): Promise<Collection[]> {
     if (isAuthenticatedSession()) {
-      const collections = await collectionsApi.getAll();
+      const collections = await syncService.getAll<CollectionRecord>('collections');
       return collections.map(normalizeRemoteCollection);
     }
 
@@ -86,16 +92,8 @@ export class CollectionRepository {
    */
   async getById(id: string): Promise<Collection | null> {
     if (isAuthenticatedSession()) {
-      try {
-        const collection = await collectionsApi.getById(id);
-        return normalizeRemoteCollection(collection);
-      } catch (error) {
-        if (error instanceof ApiClientError && error.status === 404) {
-          return null;
-        }
-
-        throw error;
-      }
+      const collection = await syncService.get<CollectionRecord>('collections', id);
+      return collection ? normalizeRemoteCollection(collection) : null;
     }
 
     try {
@@ -145,25 +143,36 @@ export class CollectionRepository {
     };
     
     if (isAuthenticatedSession()) {
-      const createdCollection = await collectionsApi.create(serializeCollection(newCollection));
-      return normalizeRemoteCollection(createdCollection);
+      const record = serializeCollection(newCollection);
+      await syncService.save('collections', [record], { method: 'POST', path: '/collections', body: record });
+    } else {
+      try {
+        // Add to IndexedDB as the source of truth
+        const enhancedCollection = {
+          ...newCollection,
+          // Add required IndexedDB fields
+          dateAdded: now.toISOString(),
+          lastModified: now.toISOString(),
+        };
+        
+        await enhancedStorageService.saveCollection(enhancedCollection as StoredCollection);
+      } catch (error) {
+        console.error('Error adding collection:', error);
+        throw error;
+      }
     }
 
-    try {
-      // Add to IndexedDB as the source of truth
-      const enhancedCollection = {
-        ...newCollection,
-        // Add required IndexedDB fields
-        dateAdded: now.toISOString(),
-        lastModified: now.toISOString(),
-      };
-      
-      await enhancedStorageService.saveCollection(enhancedCollection as StoredCollection);
-      return newCollection;
-    } catch (error) {
-      console.error('Error adding collection:', error);
-      throw error;
-    }
+    historyService.record(
+      `Add collection "${newCollection.name}"`,
+      async () => {
+        await this.delete(newCollection.id);
+      },
+      async () => {
+        await this.add(newCollection);
+      },
+    );
+
+    return newCollection;
   }
   
   /**
@@ -181,27 +190,44 @@ export class CollectionRepository {
     };
     
     if (isAuthenticatedSession()) {
-      const remoteCollection = await collectionsApi.update(
-        id,
-        serializeCollection(updatedCollection),
-      );
-      return normalizeRemoteCollection(remoteCollection);
+      const record = serializeCollection(updatedCollection);
+      await syncService.save('collections', [record], {
+        method: 'PUT',
+        path: `/collections/${id}`,
+        body: record,
+        conditional: true,
+      });
+    } else {
+      try {
+        // Update IndexedDB as the source of truth
+        const enhancedCollection = {
+          ...updatedCollection,
+          // Add required IndexedDB fields
+          dateAdded: updatedCollection.createdAt.toISOString(),
+          lastModified: now.toISOString()
+        };
+        
+        await enhancedStorageService.saveCollection(enhancedCollection as StoredCollection);
+      } catch (error) {
+        console.error(`Error updating collection ${id}:`, error);
+        throw error; // Re-throw to notify calling code of the failure
+      }
     }
 
-    try {
-      // Update IndexedDB as the source of truth
-      const enhancedCollection = {
-        ...updatedCollection,
-        // Add required IndexedDB fields
-        dateAdded: updatedCollection.createdAt.toISOString(),
-        lastModified: now.toISOString()
-      };
-      
-      await enhancedStorageService.saveCollection(enhancedCollection as StoredCollection);
-    } catch (error) {
-      console.error(`Error updating collection ${id}:`, error);
-      throw error; // Re-throw to notify calling code of the failure
-    }
+    // Put back the previous value of every field this update touched
+    const previousValues = Object.fromEntries(
+      Object.keys(updates).map(key => [key, collection[key as keyof Collection]])
+    ) as CollectionUpdateData;
+
+    historyService.record(
+      `Edit collection "${collection.name}"`,
+      async () => {
+        await this.update(id, previousValues);
+      },
+      async () => {
+        await this.update(id, updates);
+      },
+    );
     
     return updatedCollection;
   }
@@ -213,6 +239,10 @@ export class CollectionRepository {
     const collection = await this.getById(id);
     if (!collection) return null;
     
+    if (collection.rules) {
+      throw new Error('Books in a smart collection are picked by its rules');
+    }
+
     if (collection.bookIds.includes(bookId)) {
       return collection; // Book already in collection
     }
@@ -242,25 +272,56 @@ export class CollectionRepository {
    */
   async removeBookFromCollection(collectionId: string, bookId: string): Promise<boolean> {
     try {
-      // Update the collection
-      const updatedCollection = await this.removeBook(collectionId, bookId);
-      if (!updatedCollection) return false;
-      
-      // Update the book's collection references
-      const book = await bookRepository.getById(bookId);
-      if (book && book.collectionIds) {
-        await bookRepository.update(bookId, {
-          collectionIds: book.collectionIds.filter(id => id !== collectionId),
-        });
-      }
-      
-      return true;
+      return await historyService.group(async () => {
+        // Update the collection
+        const updatedCollection = await this.removeBook(collectionId, bookId);
+        if (!updatedCollection) return false;
+        
+        // Update the book's collection references
+        const book = await bookRepository.getById(bookId);
+        if (book && book.collectionIds) {
+          await bookRepository.update(bookId, {
+            collectionIds: book.collectionIds.filter(id => id !== collectionId),
+          });
+        }
+        
+        return true;
+      }, 'Remove book from collection');
     } catch (error) {
       console.error(`Error removing book ${bookId} from collection ${collectionId}:`, error);
       return false;
     }
   }
   
+  /**
+   * Series names for rules, which match series by name
+   */
+  private async getRuleContext(): Promise<CollectionRuleContext> {
+    const series = await seriesRepository.getAll();
+    const seriesNames = new Map(series.map(entry => [entry.id, entry.name]));
+
+    return {
+      seriesName: book => (book.seriesId && seriesNames.get(book.seriesId)) || book._legacySeriesName,
+    };
+  }
+
+  /**
+   * How many books each smart collection holds right now, by collection id
+   */
+  async countSmartCollectionBooks(collections: Collection[]): Promise<Record<string, number>> {
+    const smartCollections = collections.filter(collection => collection.rules);
+    if (!smartCollections.length) return {};
+
+    const [books, context] = await Promise.all([bookRepository.getAll(), this.getRuleContext()]);
+
+    return Object.fromEntries(
+      smartCollections.map(collection => [
+        collection.id,
+        books.filter(book => matchesCollectionRules(collection.rules!, book, context)).length,
+      ])
+    );
+  }
+
   /**
    * Get all books in a collection
    */
@@ -272,6 +333,13 @@ export class CollectionRepository {
       
       // Get all books
       const allBooks = await bookRepository.getAll();
+
+      // Smart collections hold whatever matches their rules right now
+      if (collection.rules) {
+        const context = await this.getRuleContext();
+        const rules = collection.rules;
+        return allBooks.filter(book => matchesCollectionRules(rules, book, context));
+      }
       
       // Filter books that are in this collection
       return allBooks.filter(book => {
@@ -296,21 +364,38 @@ export class CollectionRepository {
       const collection = await this.getById(id);
       if (!collection) return false;
       
-      if (isAuthenticatedSession()) {
-        await collectionsApi.delete(id);
-      } else {
-        await enhancedStorageService.deleteCollection(id);
-      }
-      
-      // Update all books that reference this collection
-      const books = await bookRepository.getAll();
-      for (const book of books) {
-        if (book.collectionIds && book.collectionIds.includes(id)) {
-          await bookRepository.update(book.id, {
-            collectionIds: book.collectionIds.filter(collId => collId !== id),
-          });
+      // The collection and the book references it leaves behind are undone together
+      await historyService.group(async () => {
+        if (isAuthenticatedSession()) {
+          await syncService.remove('collections', [id], { method: 'DELETE', path: `/collections/${id}` });
+        } else {
+          await enhancedStorageService.deleteCollection(id);
         }
-      }
+
+        historyService.record(
+          `Delete collection "${collection.name}"`,
+          async () => {
+            await this.add(collection);
+          },
+          async () => {
+            if (isAuthenticatedSession()) {
+              await syncService.remove('collections', [id], { method: 'DELETE', path: `/collections/${id}` });
+            } else {
+              await enhancedStorageService.deleteCollection(id);
+            }
+          },
+        );
+        
+        // Update all books that reference this collection
+        const books = await bookRepository.getAll();
+        for (const book of books) {
+          if (book.collectionIds && book.collectionIds.includes(id)) {
+            await bookRepository.update(book.id, {
+              collectionIds: book.collectionIds.filter(collId => collId !== id),
+            });
+          }
+        }
+      }, `Delete collection "${collection.name}"`);
       
       return true;
     } catch (error) {
@@ -0,0 +1,119 @@
+import { v4 as uuidv4 } from "uuid";
+
+import { LoanRecord, LoanRecordPatch } from "@/lib/apiClient";
+import { getStoredAuthToken } from "@/lib/auth-storage";
+import { enhancedStorageService } from "@/services/storage/EnhancedStorageService";
+import { syncService } from "@/services/sync/SyncService";
+import { Loan, LoanCreationData } from "@/types/loan";
+
+const isAuthenticatedSession = (): boolean => Boolean(getStoredAuthToken());
+
+// Fields the server clears come back as null rather than missing
+const normalizeRemoteLoan = (loan: LoanRecord): Loan => ({
+  id: loan.id,
+  bookId: loan.bookId,
+  direction: loan.direction,
+  person: loan.person,
+  loanedDate: loan.loanedDate,
+  dueDate: loan.dueDate ?? undefined,
+  returnedDate: loan.returnedDate ?? undefined,
+  notes: loan.notes ?? undefined,
+  remindedAt: loan.remindedAt ?? undefined,
+  createdAt: loan.createdAt,
+  updatedAt: loan.updatedAt,
+});
+
+// Most recent first, as the server and local storage list them
+const sortLoansNewestFirst = (loans: Loan[]): Loan[] =>
+  loans.sort(
+    (a, b) =>
+      b.loanedDate.localeCompare(a.loanedDate) ||
+      (b.createdAt || "").localeCompare(a.createdAt || ""),
+  );
+
+export class LoanRepository {
+  async getAll(): Promise<Loan[]> {
+    if (isAuthenticatedSession()) {
+      const syncedLoans = await syncService.getAll<LoanRecord>("loans");
+      return sortLoansNewestFirst(syncedLoans.map(normalizeRemoteLoan));
+    }
+
+    return enhancedStorageService.getLoans();
+  }
+
+  async getByBookId(bookId: string): Promise<Loan[]> {
+    if (isAuthenticatedSession()) {
+      const loans = await this.getAll();
+      return loans.filter((loan) => loan.bookId === bookId);
+    }
+
+    return enhancedStorageService.getLoans(bookId);
+  }
+
+  async getById(id: string): Promise<Loan | null> {
+    if (isAuthenticatedSession()) {
+      const syncedLoan = await syncService.get<LoanRecord>("loans", id);
+      return syncedLoan ? normalizeRemoteLoan(syncedLoan) : null;
+    }
+
+    const localLoans = await enhancedStorageService.getLoans();
+    return localLoans.find((loan) => loan.id === id) || null;
+  }
+
+  async create(data: LoanCreationData): Promise<Loan> {
+    const loan: Loan = {
+      ...data,
+      id: data.id || `loan-${uuidv4()}`,
+    };
+
+    if (isAuthenticatedSession()) {
+      const now = new Date().toISOString();
+      const record: LoanRecord = { ...loan, createdAt: now, updatedAt: now };
+      await syncService.save("loans", [record], { method: "POST", path: "/loans", body: record });
+      return normalizeRemoteLoan(record);
+    }
+
+    await enhancedStorageService.saveLoan(loan);
+    return loan;
+  }
+
+  async update(id: string, updates: Partial<Loan>): Promise<Loan> {
+    const existingLoan = await this.getById(id);
+
+    if (!existingLoan) {
+      throw new Error("Loan not found.");
+    }
+
+    const updatedLoan: Loan = {
+      ...existingLoan,
+      ...updates,
+      id,
+      bookId: existingLoan.bookId,
+    };
+
+    if (isAuthenticatedSession()) {
+      // Undefined would be dropped from the request body, so cleared fields
+      // such as an undone return date are sent as null
+      const patch = Object.fromEntries(
+        Object.entries(updates).map(([field, value]) => [field, value ?? null]),
+      ) as LoanRecordPatch;
+      const record: LoanRecord = { ...updatedLoan, updatedAt: new Date().toISOString() };
+      await syncService.save("loans", [record], { method: "PUT", path: `/loans/${id}`, body: patch });
+      return normalizeRemoteLoan(record);
+    }
+
+    await enhancedStorageService.saveLoan(updatedLoan);
+    return updatedLoan;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (isAuthenticatedSession()) {
+      await syncService.remove("loans", [id], { method: "DELETE", path: `/loans/${id}` });
+      return;
+    }
+
+    await enhancedStorageService.deleteLoan(id);
+  }
+}
+
+export const loanRepository = new LoanRepository();
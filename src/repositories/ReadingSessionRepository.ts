@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from "uuid";
+
+import { ApiClientError, readingSessionsApi, ReadingSessionRecord } from "@/lib/apiClient";
+import { getStoredAuthToken } from "@/lib/auth-storage";
+import { bookRepository } from "@/repositories/BookRepository";
+import { enhancedStorageService } from "@/services/storage/EnhancedStorageService";
+import { ReadingSession, ReadingSessionCreationData } from "@/types/reading-session";
+import { deriveProgressFromSessions, sortSessionsNewestFirst } from "@/utils/readingSessionUtils";
+
+const isAuthenticatedSession = (): boolean => Boolean(getStoredAuthToken());
+
+const normalizeRemoteReadingSession = (session: ReadingSessionRecord): ReadingSession => ({
+  id: session.id,
+  bookId: session.bookId,
+  date: session.date,
+  startPage: session.startPage,
+  endPage: session.endPage,
+  minutes: session.minutes,
+  notes: session.notes,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+});
+
+export class ReadingSessionRepository {
+  async getAll(): Promise<ReadingSession[]> {
+    if (isAuthenticatedSession()) {
+      const remoteSessions = await readingSessionsApi.getAll();
+      return sortSessionsNewestFirst(remoteSessions.map(normalizeRemoteReadingSession));
+    }
+
+    return sortSessionsNewestFirst(await enhancedStorageService.getReadingSessions());
+  }
+
+  async getByBookId(bookId: string): Promise<ReadingSession[]> {
+    if (isAuthenticatedSession()) {
+      const remoteSessions = await readingSessionsApi.getAll(bookId);
+      return sortSessionsNewestFirst(remoteSessions.map(normalizeRemoteReadingSession));
+    }
+
+    return sortSessionsNewestFirst(await enhancedStorageService.getReadingSessions(bookId));
+  }
+
+  async getById(id: string): Promise<ReadingSession | null> {
+    if (isAuthenticatedSession()) {
+      try {
+        const remoteSession = await readingSessionsApi.getById(id);
+        return normalizeRemoteReadingSession(remoteSession);
+      } catch (error) {
+        if (error instanceof ApiClientError && error.status === 404) {
+          return null;
+        }
+
+        throw error;
+      }
+    }
+
+    const localSessions = await enhancedStorageService.getReadingSessions();
+    return localSessions.find((session) => session.id === id) || null;
+  }
+
+  async create(data: ReadingSessionCreationData): Promise<ReadingSession> {
+    const session: ReadingSession = {
+      ...data,
+      id: data.id || `session-${uuidv4()}`,
+    };
+
+    if (isAuthenticatedSession()) {
+      const createdSession = await readingSessionsApi.create(session);
+      await this.refreshBookProgress(session.bookId);
+      return normalizeRemoteReadingSession(createdSession);
+    }
+
+    await enhancedStorageService.saveReadingSession(session);
+    await this.refreshBookProgress(session.bookId);
+    return session;
+  }
+
+  async update(id: string, updates: Partial<ReadingSession>): Promise<ReadingSession> {
+    if (isAuthenticatedSession()) {
+      const updatedSession = normalizeRemoteReadingSession(
+        await readingSessionsApi.update(id, updates),
+      );
+      await this.refreshBookProgress(updatedSession.bookId);
+      return updatedSession;
+    }
+
+    const existingSession = await this.getById(id);
+
+    if (!existingSession) {
+      throw new Error("Reading session not found.");
+    }
+
+    const updatedSession: ReadingSession = {
+      ...existingSession,
+      ...updates,
+      id,
+      bookId: existingSession.bookId,
+    };
+
+    await enhancedStorageService.saveReadingSession(updatedSession);
+    await this.refreshBookProgress(updatedSession.bookId);
+    return updatedSession;
+  }
+
+  async delete(session: ReadingSession): Promise<void> {
+    if (isAuthenticatedSession()) {
+      await readingSessionsApi.delete(session.id);
+    } else {
+      await enhancedStorageService.deleteReadingSession(session.id);
+    }
+
+    await this.refreshBookProgress(session.bookId);
+  }
+
+  /**
+   * Recomputes a book's progress from its latest session so progress always
+   * reflects the reading log rather than a hand-edited value.
+   */
+  async refreshBookProgress(bookId: string): Promise<number | undefined> {
+    const book = await bookRepository.getById(bookId);
+
+    if (!book) {
+      return undefined;
+    }
+
+    const sessions = await this.getByBookId(bookId);
+    const progress = deriveProgressFromSessions(sessions, book.pageCount);
+
+    // Sent as a patch so a cleared progress goes out as null; left undefined
+    // it would drop out of the request and the server would keep the old value
+    if (progress !== (book.progress ?? undefined)) {
+      await bookRepository.updateMany([bookId], { progress: progress ?? null });
+    }
+
+    return progress;
+  }
+}
+
+export const readingSessionRepository = new ReadingSessionRepository();
@@ -4,7 +4,11 @@ import { DatabaseService } from '@/services/DatabaseService';
 import { enhancedStorageService } from '@/services/storage/EnhancedStorageService';
 import { v4 as uuidv4 } from 'uuid';
 import { getStoredAuthToken } from '@/lib/auth-storage';
-import { ApiClientError, seriesApi, SeriesRecord } from '@/lib/apiClient';
+import { SeriesRecord } from '@/lib/apiClient';
+import { bookRepository } from '@/repositories/BookRepository';
+import { historyService } from '@/services/HistoryService';
+import { syncService } from '@/services/sync/SyncService';
+import { getBatchRestoreChanges } from '@/utils/bookBatch';
 
 const isAuthenticatedSession = (): boolean => Boolean(getStoredAuthToken());
 
@@ -108,7 +112,7 @@ export class SeriesRepository {
    */
   async getAll(): Promise<Series[]> {
     if (isAuthenticatedSession()) {
-      const remoteSeries = await seriesApi.getAll();
+      const remoteSeries = await syncService.getAll<SeriesRecord>('series');
       return remoteSeries.map(normalizeRemoteSeries);
     }
 
@@ -126,16 +130,8 @@ export class SeriesRepository {
    */
   async getById(id: string): Promise<Series | null> {
     if (isAuthenticatedSession()) {
-      try {
-        const remoteSeries = await seriesApi.getById(id);
-        return normalizeRemoteSeries(remoteSeries);
-      } catch (error) {
-        if (error instanceof ApiClientError && error.status === 404) {
-          return null;
-        }
-
-        throw error;
-      }
+      const remoteSeries = await syncService.get<SeriesRecord>('series', id);
+      return remoteSeries ? normalizeRemoteSeries(remoteSeries) : null;
     }
 
     try {
@@ -183,18 +179,33 @@ export class SeriesRepository {
       updatedAt: now
     };
     
+    let createdSeries: Series;
+
     if (isAuthenticatedSession()) {
-      const createdSeries = await seriesApi.create(serializeSeriesRecord(newSeries));
-      return normalizeRemoteSeries(createdSeries);
+      const record = serializeSeriesRecord(newSeries);
+      await syncService.save('series', [record], { method: 'POST', path: '/series', body: record });
+      createdSeries = normalizeRemoteSeries(record);
+    } else {
+      try {
+        await enhancedStorageService.saveSeries(toIndexedDbSeries(newSeries));
+        createdSeries = newSeries;
+      } catch (error) {
+        console.error('Error adding series:', error);
+        throw error;
+      }
     }
 
-    try {
-      await enhancedStorageService.saveSeries(toIndexedDbSeries(newSeries));
-      return newSeries;
-    } catch (error) {
-      console.error('Error adding series:', error);
-      throw error;
-    }
+    historyService.record(
+      `Add series "${createdSeries.name}"`,
+      async () => {
+        await this.delete(createdSeries.id);
+      },
+      async () => {
+        await this.add(createdSeries);
+      },
+    );
+
+    return createdSeries;
   }
   
   /**
@@ -211,19 +222,42 @@ export class SeriesRepository {
       updatedAt: now
     };
     
+    let savedSeries: Series = updatedSeries;
+
     if (isAuthenticatedSession()) {
-      const remoteSeries = await seriesApi.update(id, serializeSeriesRecord(updatedSeries));
-      return normalizeRemoteSeries(remoteSeries);
+      const record = serializeSeriesRecord(updatedSeries);
+      await syncService.save('series', [record], {
+        method: 'PUT',
+        path: `/series/${id}`,
+        body: record,
+        conditional: true,
+      });
+      savedSeries = normalizeRemoteSeries(record);
+    } else {
+      try {
+        await enhancedStorageService.saveSeries(toIndexedDbSeries(updatedSeries));
+      } catch (error) {
+        console.error(`Error updating series ${id}:`, error);
+        throw error; // Re-throw to notify calling code of the failure
+      }
     }
 
-    try {
-      await enhancedStorageService.saveSeries(toIndexedDbSeries(updatedSeries));
-    } catch (error) {
-      console.error(`Error updating series ${id}:`, error);
-      throw error; // Re-throw to notify calling code of the failure
-    }
+    // Put back the previous value of every field this update touched
+    const previousValues = Object.fromEntries(
+      Object.keys(updates).map(key => [key, series[key as keyof Series]])
+    ) as Partial<Series>;
+
+    historyService.record(
+      `Edit series "${series.name}"`,
+      async () => {
+        await this.update(id, previousValues);
+      },
+      async () => {
+        await this.update(id, updates);
+      },
+    );
     
-    return updatedSeries;
+    return savedSeries;
   }
   
   /**
@@ -274,18 +308,42 @@ export class SeriesRepository {
    * Delete a series from the database
    */
   async delete(id: string): Promise<boolean> {
+    const series = historyService.isRecording() ? await this.getById(id) : null;
+    // Deleting locally also detaches the series' books, so undo re-attaches them
+    const detachedBooks = series && !isAuthenticatedSession()
+      ? (await bookRepository.getAll()).filter(book => book.seriesId === id)
+      : [];
+
     if (isAuthenticatedSession()) {
-      await seriesApi.delete(id);
-      return true;
+      await syncService.remove('series', [id], { method: 'DELETE', path: `/series/${id}` });
+    } else {
+      try {
+        await enhancedStorageService.deleteSeries(id);
+      } catch (error) {
+        console.error(`Error deleting series ${id}:`, error);
+        return false;
+      }
     }
 
-    try {
-      await enhancedStorageService.deleteSeries(id);
-      return true;
-    } catch (error) {
-      console.error(`Error deleting series ${id}:`, error);
-      return false;
+    if (series) {
+      const restore = getBatchRestoreChanges(detachedBooks, {
+        patch: { seriesId: null, isPartOfSeries: null, seriesPosition: null },
+        patches: {},
+      });
+
+      historyService.record(
+        `Delete series "${series.name}"`,
+        async () => {
+          await this.add(series);
+          await bookRepository.updateMany(Object.keys(restore.patches), {}, restore.patches);
+        },
+        async () => {
+          await this.delete(id);
+        },
+      );
     }
+
+    return true;
   }
   
   /**
@@ -0,0 +1,64 @@
+jest.mock("@/lib/apiClient", () => ({
+  ApiClientError: class ApiClientError extends Error {},
+  readingSessionsApi: {
+    getAll: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock("@/lib/auth-storage", () => ({
+  getStoredAuthToken: jest.fn(() => "token"),
+}));
+
+jest.mock("@/repositories/BookRepository", () => ({
+  bookRepository: {
+    getById: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+
+jest.mock("@/services/storage/EnhancedStorageService", () => ({
+  enhancedStorageService: {},
+}));
+
+import { readingSessionsApi } from "@/lib/apiClient";
+import { bookRepository } from "@/repositories/BookRepository";
+import { readingSessionRepository } from "@/repositories/ReadingSessionRepository";
+
+describe("ReadingSessionRepository", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (bookRepository.getById as jest.Mock).mockResolvedValue({
+      id: "book-1",
+      title: "A Wizard of Earthsea",
+      author: "Ursula K. Le Guin",
+      pageCount: 200,
+      progress: 0.4,
+    });
+    (readingSessionsApi.delete as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  it("clears the book's progress on the server when its last session is deleted while signed in", async () => {
+    (readingSessionsApi.getAll as jest.Mock).mockResolvedValue([]);
+
+    await readingSessionRepository.delete({ id: "session-1", bookId: "book-1", date: "2026-02-01", endPage: 80 });
+
+    expect(readingSessionsApi.delete).toHaveBeenCalledWith("session-1");
+    expect(bookRepository.update).not.toHaveBeenCalled();
+    expect(bookRepository.updateMany).toHaveBeenCalledWith(["book-1"], { progress: null });
+
+    // The cleared value has to survive being sent as JSON
+    const [, patch] = (bookRepository.updateMany as jest.Mock).mock.calls[0];
+    expect(JSON.parse(JSON.stringify(patch))).toEqual({ progress: null });
+  });
+
+  it("keeps progress the server already cleared", async () => {
+    (bookRepository.getById as jest.Mock).mockResolvedValue({ id: "book-1", pageCount: 200, progress: null });
+    (readingSessionsApi.getAll as jest.Mock).mockResolvedValue([]);
+
+    await readingSessionRepository.delete({ id: "session-1", bookId: "book-1", date: "2026-02-01", endPage: 80 });
+
+    expect(bookRepository.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  getAccountArchiveProjection,
+  parseAccountArchive,
+  withoutUndefinedFields,
+} from "@/server/lib/account-archive";
+
+const book = {
+  id: "book-1",
+  title: "The Hobbit",
+  author: "J.R.R. Tolkien",
+  status: "reading",
+  spineColor: 2,
+};
+
+describe("account archive", () => {
+  it("refuses an app backup that has no archive version", () => {
+    expect(() => parseAccountArchive({ version: "2.0.0", books: [book] })).toThrow(
+      /app backup rather than an account archive/,
+    );
+  });
+
+  it("refuses archives from a newer server", () => {
+    expect(() => parseAccountArchive({ version: "2.0.0", archiveVersion: 2 })).toThrow(
+      /newer than this server supports/,
+    );
+  });
+
+  it("requires every record to carry a unique id", () => {
+    const { id: _id, ...bookWithoutId } = book;
+
+    expect(() =>
+      parseAccountArchive({ version: "2.0.0", archiveVersion: 1, books: [bookWithoutId] }),
+    ).toThrow("books[0] must be an object with an id.");
+    expect(() =>
+      parseAccountArchive({ version: "2.0.0", archiveVersion: 1, books: [book, book] }),
+    ).toThrow('books[1] repeats the id "book-1".');
+  });
+
+  it("validates records and treats missing sections as empty", () => {
+    const archive = parseAccountArchive({
+      version: "2.0.0",
+      archiveVersion: 1,
+      books: [book],
+      settings: null,
+      announcementStates: [
+        { announcementId: "announcement-1", dismissedAt: "2026-03-01T12:00:00Z" },
+      ],
+    });
+
+    expect(archive.books[0]).toMatchObject({ id: "book-1", status: "reading" });
+    expect(archive.series).toEqual([]);
+    expect(archive.settings).toBeUndefined();
+    expect(archive.announcementStates).toEqual([
+      {
+        announcementId: "announcement-1",
+        seenAt: undefined,
+        dismissedAt: "2026-03-01T12:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("leaves server bookkeeping out of exported records", () => {
+    expect(getAccountArchiveProjection("collections")).toEqual({
+      _id: 0,
+      userId: 0,
+      revision: 0,
+      createdAtDate: 0,
+      updatedAtDate: 0,
+      modifiedAt: 0,
+    });
+    expect(withoutUndefinedFields({ id: "book-1", notes: undefined })).toEqual({ id: "book-1" });
+  });
+});
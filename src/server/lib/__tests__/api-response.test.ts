@@ -0,0 +1,63 @@
+import { VercelResponse } from "@vercel/node";
+
+import { RateLimitError, sendError } from "@/server/lib/api-response";
+
+const createMockResponse = () => {
+  const response = {
+    headers: {} as Record<string, string>,
+    jsonBody: undefined as unknown,
+    statusCode: 200,
+    json: jest.fn((body: unknown) => {
+      response.jsonBody = body;
+      return response;
+    }),
+    setHeader: jest.fn((name: string, value: string) => {
+      response.headers[name] = value;
+      return response;
+    }),
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode;
+      return response;
+    }),
+  };
+
+  return response;
+};
+
+describe("sendError", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("answers a rate limit from any handler with 429 and Retry-After", () => {
+    const response = createMockResponse();
+
+    sendError(
+      response as unknown as VercelResponse,
+      new RateLimitError(90_500, "Too many exports. Please try again in 2 minutes."),
+    );
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers["Retry-After"]).toBe("91");
+    expect(response.jsonBody).toEqual({
+      error: {
+        code: "RATE_LIMITED",
+        message: "Too many exports. Please try again in 2 minutes.",
+        details: { retryAfterSeconds: 91 },
+      },
+    });
+  });
+
+  it("answers unexpected errors with 500", () => {
+    const response = createMockResponse();
+
+    sendError(response as unknown as VercelResponse, new Error("Boom"));
+
+    expect(response.statusCode).toBe(500);
+    expect(response.headers["Retry-After"]).toBeUndefined();
+  });
+});
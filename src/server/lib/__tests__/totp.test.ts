@@ -0,0 +1,71 @@
+import {
+  buildTotpProvisioningUri,
+  decodeBase32,
+  encodeBase32,
+  generateHotpCode,
+  generateRecoveryCodes,
+  generateTotpCode,
+  hashRecoveryCode,
+  verifyTotpCode,
+} from "@/server/lib/totp";
+
+// The RFC 6238 SHA-1 test key, "12345678901234567890"
+const rfcSecret = encodeBase32(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("round-trips base32", () => {
+    expect(rfcSecret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(decodeBase32(rfcSecret).toString()).toBe("12345678901234567890");
+  });
+
+  it("matches the RFC 4226 HOTP test values", () => {
+    const key = Buffer.from("12345678901234567890");
+
+    expect([0, 1, 2, 9].map((counter) => generateHotpCode(key, counter))).toEqual([
+      "755224",
+      "287082",
+      "359152",
+      "520489",
+    ]);
+  });
+
+  it("matches the RFC 6238 test values at fixed times", () => {
+    expect(generateTotpCode(rfcSecret, new Date(59 * 1000))).toBe("287082");
+    expect(generateTotpCode(rfcSecret, new Date(1111111109 * 1000))).toBe("081804");
+    expect(generateTotpCode(rfcSecret, new Date(1234567890 * 1000))).toBe("005924");
+    expect(generateTotpCode(rfcSecret, new Date(2000000000 * 1000))).toBe("279037");
+  });
+
+  it("accepts codes one step either side of now and returns their step", () => {
+    const now = new Date("2026-03-20T12:00:15.000Z");
+    const previous = generateTotpCode(rfcSecret, new Date(now.getTime() - 30_000));
+    const tooOld = generateTotpCode(rfcSecret, new Date(now.getTime() - 90_000));
+    const currentStep = Math.floor(now.getTime() / 30_000);
+
+    expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, now), now)).toBe(currentStep);
+    expect(verifyTotpCode(rfcSecret, previous, now)).toBe(currentStep - 1);
+    expect(verifyTotpCode(rfcSecret, tooOld, now)).toBeNull();
+    expect(verifyTotpCode(rfcSecret, "12345", now)).toBeNull();
+  });
+
+  it("builds an otpauth provisioning URI", () => {
+    expect(
+      buildTotpProvisioningUri({
+        accountName: "reader@example.com",
+        issuer: "Book Collection",
+        secret: rfcSecret,
+      }),
+    ).toBe(
+      "otpauth://totp/Book%20Collection:reader%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=Book+Collection&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+
+  it("generates distinct recovery codes and hashes them ignoring formatting", () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+    expect(hashRecoveryCode("ABCDE-FGHJK")).toBe(hashRecoveryCode(" abcdefghjk "));
+  });
+});
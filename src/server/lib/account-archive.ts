@@ -0,0 +1,259 @@
+import { ApiError } from "./api-response.js";
+import { BookPayload, validateCreateBookPayload } from "./book-payload.js";
+import { CollectionPayload, validateCreateCollectionPayload } from "./collection-payload.js";
+import { LoanPayload, validateCreateLoanPayload } from "./loan-payload.js";
+import {
+  NotificationPayload,
+  validateCreateNotificationPayload,
+} from "./notification-payload.js";
+import {
+  ReadingSessionPayload,
+  validateCreateReadingSessionPayload,
+} from "./reading-session-payload.js";
+import { SeriesPayload, validateCreateSeriesPayload } from "./series-payload.js";
+import {
+  UpcomingReleasePayload,
+  validateCreateUpcomingReleasePayload,
+} from "./upcoming-release-payload.js";
+import {
+  UserSettingsPayload,
+  validateUpdateUserSettingsPayload,
+} from "./user-settings-payload.js";
+
+/**
+ * The archive is a superset of the app's JSON backup (`version` 2.0.0 with
+ * books, series and collections), so the in-app importer reads it as is.
+ * `archiveVersion` covers the extra account sections and goes up whenever
+ * their shape changes.
+ */
+export const ACCOUNT_ARCHIVE_BACKUP_VERSION = "2.0.0";
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+export const MAX_ACCOUNT_ARCHIVE_RECORDS = 20_000;
+
+/** Sections holding one record per id, in the order they are written */
+export const ACCOUNT_ARCHIVE_RECORD_SECTIONS = [
+  "books",
+  "series",
+  "collections",
+  "upcomingReleases",
+  "notifications",
+  "readingSessions",
+  "loans",
+] as const;
+
+export type AccountArchiveRecordSection = (typeof ACCOUNT_ARCHIVE_RECORD_SECTIONS)[number];
+
+/**
+ * Bookkeeping fields the server adds to each stored record. They are left out
+ * of the archive and written afresh on import.
+ */
+const ACCOUNT_ARCHIVE_SERVER_FIELDS: Record<
+  AccountArchiveRecordSection | "settings" | "announcementStates",
+  string[]
+> = {
+  books: ["revision", "createdAt", "updatedAt"],
+  series: ["revision", "createdAt", "updatedAt"],
+  collections: ["revision", "createdAtDate", "updatedAtDate", "modifiedAt"],
+  upcomingReleases: ["createdAt", "updatedAt"],
+  notifications: ["updatedAt"],
+  readingSessions: ["createdAt", "updatedAt"],
+  loans: ["createdAt", "updatedAt"],
+  settings: ["createdAt", "updatedAt", "migration"],
+  announcementStates: ["createdAt", "updatedAt"],
+};
+
+export const getAccountArchiveProjection = (
+  section: keyof typeof ACCOUNT_ARCHIVE_SERVER_FIELDS,
+): Record<string, 0> => {
+  return Object.fromEntries(
+    ["_id", "userId", ...ACCOUNT_ARCHIVE_SERVER_FIELDS[section]].map((field) => [field, 0]),
+  ) as Record<string, 0>;
+};
+
+export type AnnouncementStateArchiveRecord = {
+  announcementId: string;
+  seenAt?: string;
+  dismissedAt?: string;
+};
+
+export type AccountArchive = {
+  books: BookPayload[];
+  series: SeriesPayload[];
+  collections: CollectionPayload[];
+  upcomingReleases: UpcomingReleasePayload[];
+  notifications: NotificationPayload[];
+  readingSessions: ReadingSessionPayload[];
+  loans: LoanPayload[];
+  settings?: UserSettingsPayload;
+  announcementStates: AnnouncementStateArchiveRecord[];
+};
+
+const RECORD_VALIDATORS: {
+  [Section in AccountArchiveRecordSection]: (value: unknown) => AccountArchive[Section][number];
+} = {
+  books: validateCreateBookPayload,
+  series: validateCreateSeriesPayload,
+  collections: validateCreateCollectionPayload,
+  upcomingReleases: validateCreateUpcomingReleasePayload,
+  notifications: validateCreateNotificationPayload,
+  readingSessions: validateCreateReadingSessionPayload,
+  loans: validateCreateLoanPayload,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const invalidArchive = (message: string): ApiError =>
+  new ApiError(400, "BAD_REQUEST", message);
+
+/**
+ * Drops undefined fields so an upsert leaves them out rather than storing
+ * nulls in their place.
+ */
+export const withoutUndefinedFields = <T extends object>(value: T): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined),
+  ) as Partial<T>;
+};
+
+const parseRecordSection = <Section extends AccountArchiveRecordSection>(
+  archive: Record<string, unknown>,
+  section: Section,
+): AccountArchive[Section] => {
+  const rawRecords = archive[section];
+
+  if (rawRecords === undefined || rawRecords === null) {
+    return [] as AccountArchive[Section];
+  }
+
+  if (!Array.isArray(rawRecords)) {
+    throw invalidArchive(`Archive section "${section}" must be an array.`);
+  }
+
+  const seenIds = new Set<string>();
+
+  return rawRecords.map((rawRecord, index) => {
+    // Records are restored by id, so an archive without them cannot be
+    // imported twice without duplicating everything
+    if (!isPlainObject(rawRecord) || typeof rawRecord.id !== "string" || !rawRecord.id.trim()) {
+      throw invalidArchive(`${section}[${index}] must be an object with an id.`);
+    }
+
+    if (seenIds.has(rawRecord.id)) {
+      throw invalidArchive(`${section}[${index}] repeats the id "${rawRecord.id}".`);
+    }
+
+    seenIds.add(rawRecord.id);
+
+    try {
+      return RECORD_VALIDATORS[section](rawRecord);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw invalidArchive(`${section}[${index}]: ${error.message}`);
+      }
+
+      throw error;
+    }
+  }) as AccountArchive[Section];
+};
+
+const parseOptionalDate = (value: unknown, label: string): string | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) {
+    throw invalidArchive(`${label} must be a valid date.`);
+  }
+
+  return new Date(value).toISOString();
+};
+
+const parseAnnouncementStates = (value: unknown): AnnouncementStateArchiveRecord[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    throw invalidArchive('Archive section "announcementStates" must be an array.');
+  }
+
+  return value.map((rawState, index) => {
+    if (
+      !isPlainObject(rawState) ||
+      typeof rawState.announcementId !== "string" ||
+      !rawState.announcementId.trim()
+    ) {
+      throw invalidArchive(`announcementStates[${index}] must have an announcementId.`);
+    }
+
+    return {
+      announcementId: rawState.announcementId.trim(),
+      seenAt: parseOptionalDate(rawState.seenAt, `announcementStates[${index}].seenAt`),
+      dismissedAt: parseOptionalDate(
+        rawState.dismissedAt,
+        `announcementStates[${index}].dismissedAt`,
+      ),
+    };
+  });
+};
+
+/**
+ * Checks an uploaded archive and validates every record the same way the
+ * create endpoints do. Any bad record rejects the whole archive, naming the
+ * section and position, so nothing is half imported.
+ */
+export const parseAccountArchive = (value: unknown): AccountArchive => {
+  if (!isPlainObject(value) || typeof value.version !== "string") {
+    throw invalidArchive("Archive must be a JSON object with a version.");
+  }
+
+  if (typeof value.archiveVersion !== "number") {
+    throw invalidArchive(
+      "This is an app backup rather than an account archive. Use Import in the app to load it.",
+    );
+  }
+
+  if (value.archiveVersion > ACCOUNT_ARCHIVE_VERSION) {
+    throw invalidArchive(
+      `Archive version ${value.archiveVersion} is newer than this server supports.`,
+    );
+  }
+
+  const recordCount = ACCOUNT_ARCHIVE_RECORD_SECTIONS.reduce((total, section) => {
+    const records = value[section];
+    return total + (Array.isArray(records) ? records.length : 0);
+  }, 0);
+
+  if (recordCount > MAX_ACCOUNT_ARCHIVE_RECORDS) {
+    throw invalidArchive(
+      `Archive holds ${recordCount} records; at most ${MAX_ACCOUNT_ARCHIVE_RECORDS} can be imported at once.`,
+    );
+  }
+
+  let settings: UserSettingsPayload | undefined;
+
+  if (value.settings !== undefined && value.settings !== null) {
+    try {
+      settings = validateUpdateUserSettingsPayload(value.settings);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw invalidArchive(`settings: ${error.message}`);
+      }
+
+      throw error;
+    }
+  }
+
+  return {
+    books: parseRecordSection(value, "books"),
+    series: parseRecordSection(value, "series"),
+    collections: parseRecordSection(value, "collections"),
+    upcomingReleases: parseRecordSection(value, "upcomingReleases"),
+    notifications: parseRecordSection(value, "notifications"),
+    readingSessions: parseRecordSection(value, "readingSessions"),
+    loans: parseRecordSection(value, "loans"),
+    settings,
+    announcementStates: parseAnnouncementStates(value.announcementStates),
+  };
+};
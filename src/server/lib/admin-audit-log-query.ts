@@ -0,0 +1,257 @@
+import { ADMIN_AUDIT_ACTIONS, AdminAuditAction } from "../models/admin-audit-log.js";
+import { ApiError } from "./api-response.js";
+
+export const DEFAULT_ADMIN_AUDIT_LOG_PAGE_SIZE = 50;
+export const MAX_ADMIN_AUDIT_LOG_PAGE_SIZE = 200;
+const MAX_ACTOR_LENGTH = 320;
+
+export const ADMIN_AUDIT_LOG_EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type AdminAuditLogExportFormat = (typeof ADMIN_AUDIT_LOG_EXPORT_FORMATS)[number];
+
+/** From inclusive and before exclusive */
+export type AdminAuditLogDateRange = {
+  from?: Date;
+  before?: Date;
+};
+
+/** Where the previous page ended: its last entry's time and id */
+export type AdminAuditLogCursor = {
+  createdAt: Date;
+  id: string;
+};
+
+export type AdminAuditLogListQuery = {
+  limit: number;
+  cursor?: AdminAuditLogCursor;
+  actions?: AdminAuditAction[];
+  /** A user id or email address */
+  actor?: string;
+  /** A user id or email address */
+  target?: string;
+  created?: AdminAuditLogDateRange;
+};
+
+type RawQuery = Record<string, string | string[] | undefined>;
+
+// The route itself is picked by the action parameter, so the action filter
+// goes by another name
+const ADMIN_AUDIT_LOG_LIST_PARAMS = [
+  "limit",
+  "cursor",
+  "auditAction",
+  "actor",
+  "target",
+  "from",
+  "to",
+];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the request asks for a page of entries. Without any paging or
+ * filter parameters the latest 100 entries are returned as a plain list,
+ * which older admin pages expect.
+ */
+export const isAdminAuditLogPageRequest = (query: RawQuery): boolean => {
+  return ADMIN_AUDIT_LOG_LIST_PARAMS.some((key) => query[key] !== undefined);
+};
+
+const getValue = (query: RawQuery, key: string): string | undefined => {
+  const raw = query[key];
+  const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+  return value || undefined;
+};
+
+/** Values given either as repeated parameters or comma separated */
+const getValues = (query: RawQuery, key: string): string[] | undefined => {
+  const raw = query[key];
+  const values = (Array.isArray(raw) ? raw : raw === undefined ? [] : [raw])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return values.length ? Array.from(new Set(values)) : undefined;
+};
+
+const parseLimit = (query: RawQuery): number => {
+  const value = getValue(query, "limit");
+
+  if (value === undefined) {
+    return DEFAULT_ADMIN_AUDIT_LOG_PAGE_SIZE;
+  }
+
+  const parsed = Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_ADMIN_AUDIT_LOG_PAGE_SIZE) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `limit must be a whole number from 1 to ${MAX_ADMIN_AUDIT_LOG_PAGE_SIZE}.`,
+    );
+  }
+
+  return parsed;
+};
+
+const parseDate = (value: string, key: string): Date => {
+  const date = new Date(DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00.000Z` : value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError(400, "BAD_REQUEST", `${key} must be an ISO date.`);
+  }
+
+  return date;
+};
+
+/** A bare date as the upper bound includes that whole day */
+const parseDateRange = (query: RawQuery): AdminAuditLogDateRange | undefined => {
+  const from = getValue(query, "from");
+  const to = getValue(query, "to");
+
+  if (!from && !to) {
+    return undefined;
+  }
+
+  const range: AdminAuditLogDateRange = {};
+
+  if (from) {
+    range.from = parseDate(from, "from");
+  }
+
+  if (to) {
+    const date = parseDate(to, "to");
+    range.before = new Date(date.getTime() + (DATE_ONLY_PATTERN.test(to) ? DAY_MS : 1));
+  }
+
+  if (range.from && range.before && range.from >= range.before) {
+    throw new ApiError(400, "BAD_REQUEST", "from must not be after to.");
+  }
+
+  return range;
+};
+
+const parseActions = (query: RawQuery): AdminAuditAction[] | undefined => {
+  const actions = getValues(query, "auditAction");
+
+  if (actions?.some((action) => !ADMIN_AUDIT_ACTIONS.includes(action as AdminAuditAction))) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `auditAction must be one of ${ADMIN_AUDIT_ACTIONS.join(", ")}.`,
+    );
+  }
+
+  return actions as AdminAuditAction[] | undefined;
+};
+
+const parseUserReference = (query: RawQuery, key: string): string | undefined => {
+  const value = getValue(query, key);
+
+  if (value && value.length > MAX_ACTOR_LENGTH) {
+    throw new ApiError(400, "BAD_REQUEST", `${key} must be at most ${MAX_ACTOR_LENGTH} characters.`);
+  }
+
+  return value;
+};
+
+export const encodeAdminAuditLogCursor = (log: {
+  _id?: { toString(): string };
+  createdAt: Date;
+}): string => {
+  return Buffer.from(
+    JSON.stringify([log.createdAt.toISOString(), log._id?.toString()]),
+  ).toString("base64url");
+};
+
+const decodeAdminAuditLogCursor = (value: string): AdminAuditLogCursor => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    parsed = null;
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 2 ||
+    typeof parsed[0] !== "string" ||
+    Number.isNaN(new Date(parsed[0]).getTime()) ||
+    typeof parsed[1] !== "string" ||
+    !OBJECT_ID_PATTERN.test(parsed[1])
+  ) {
+    throw new ApiError(400, "BAD_REQUEST", "cursor is invalid.");
+  }
+
+  return { createdAt: new Date(parsed[0]), id: parsed[1] };
+};
+
+export const parseAdminAuditLogQuery = (query: RawQuery): AdminAuditLogListQuery => {
+  const cursor = getValue(query, "cursor");
+
+  return {
+    limit: parseLimit(query),
+    cursor: cursor ? decodeAdminAuditLogCursor(cursor) : undefined,
+    actions: parseActions(query),
+    actor: parseUserReference(query, "actor"),
+    target: parseUserReference(query, "target"),
+    created: parseDateRange(query),
+  };
+};
+
+export const parseAdminAuditLogExportFormat = (query: RawQuery): AdminAuditLogExportFormat => {
+  const format = getValue(query, "format") ?? "csv";
+
+  if (!ADMIN_AUDIT_LOG_EXPORT_FORMATS.includes(format as AdminAuditLogExportFormat)) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `format must be one of ${ADMIN_AUDIT_LOG_EXPORT_FORMATS.join(", ")}.`,
+    );
+  }
+
+  return format as AdminAuditLogExportFormat;
+};
+
+export const ADMIN_AUDIT_LOG_CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "action",
+  "actorUserId",
+  "actorEmail",
+  "targetUserId",
+  "targetUserEmail",
+  "details",
+  "sequence",
+  "previousHash",
+  "hash",
+] as const;
+
+/**
+ * Quotes a CSV cell when needed. Cells that a spreadsheet would read as a
+ * formula get a leading apostrophe so opening an export cannot run one.
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  let text = typeof value === "string" ? value : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toAdminAuditLogCsvRow = (
+  entry: Partial<Record<(typeof ADMIN_AUDIT_LOG_CSV_COLUMNS)[number], unknown>>,
+): string => {
+  return `${ADMIN_AUDIT_LOG_CSV_COLUMNS.map((column) =>
+    toCsvCell(column === "details" && entry.details ? JSON.stringify(entry.details) : entry[column]),
+  ).join(",")}\r\n`;
+};
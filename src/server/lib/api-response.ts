@@ -1,13 +1,20 @@
 import { VercelResponse } from "@vercel/node";
 
 export type ApiErrorCode =
+  | "ACCOUNT_LOCKED"
   | "BAD_REQUEST"
   | "UNAUTHORIZED"
   | "FORBIDDEN"
   | "NOT_FOUND"
   | "CONFLICT"
+  | "INVALID_REFRESH_TOKEN"
   | "INVALID_RESET_OTP"
+  | "INVALID_TWO_FACTOR_CODE"
   | "METHOD_NOT_ALLOWED"
+  | "PRECONDITION_FAILED"
+  | "RATE_LIMITED"
+  | "REFRESH_TOKEN_REUSED"
+  | "REFRESH_TOKEN_SUPERSEDED"
   | "RESET_OTP_ATTEMPTS_EXHAUSTED"
   | "INTERNAL_SERVER_ERROR";
 
@@ -30,6 +37,27 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * A request refused by a rate limit or an account lockout. Any handler can
+ * throw it; sendError answers 429 with Retry-After.
+ */
+export class RateLimitError extends Error {
+  statusCode = 429;
+  code: Extract<ApiErrorCode, "ACCOUNT_LOCKED" | "RATE_LIMITED">;
+  retryAfterSeconds: number;
+
+  constructor(
+    retryAfterMs: number,
+    message = "Too many requests. Please try again later.",
+    code: Extract<ApiErrorCode, "ACCOUNT_LOCKED" | "RATE_LIMITED"> = "RATE_LIMITED",
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+    this.code = code;
+    this.retryAfterSeconds = Math.max(Math.ceil(retryAfterMs / 1000), 1);
+  }
+}
+
 export const sendJson = <T>(
   response: VercelResponse,
   statusCode: number,
@@ -42,6 +70,17 @@ export const sendError = (
   response: VercelResponse,
   error: unknown,
 ): VercelResponse => {
+  if (error instanceof RateLimitError) {
+    response.setHeader("Retry-After", String(error.retryAfterSeconds));
+
+    return sendError(
+      response,
+      new ApiError(429, error.code, error.message, {
+        retryAfterSeconds: error.retryAfterSeconds,
+      }),
+    );
+  }
+
   if (error instanceof ApiError) {
     console.error("[API_ERROR]", {
       code: error.code,
@@ -4,6 +4,8 @@ export type AuthTokenPayload = {
   sub: string;
   email?: string;
   issuedAt?: number;
+  /** The signed-in device session the token was issued for */
+  sid?: string;
 };
 
 const getJwtSecret = (): string => {
@@ -16,7 +18,9 @@ const getJwtSecret = (): string => {
   return secret;
 };
 
-const getJwtExpiresIn = (): string => process.env.JWT_EXPIRES_IN || "7d";
+const getJwtExpiresIn = (): string => process.env.JWT_EXPIRES_IN || "15m";
+
+const TWO_FACTOR_CHALLENGE_PURPOSE = "two-factor-challenge";
 
 export const signAuthToken = (
   payload: AuthTokenPayload,
@@ -39,9 +43,42 @@ export const verifyAuthToken = (token: string): AuthTokenPayload => {
     throw new Error("JWT payload is missing a subject.");
   }
 
+  if (decoded.purpose !== undefined) {
+    throw new Error("JWT is not an access token.");
+  }
+
   return {
     sub: decoded.sub,
     email: typeof decoded.email === "string" ? decoded.email : undefined,
     issuedAt: typeof decoded.iat === "number" ? decoded.iat : undefined,
+    sid: typeof decoded.sid === "string" ? decoded.sid : undefined,
   };
 };
+
+/**
+ * A short-lived token proving the password was right, exchanged for a
+ * session once the second factor is checked. It is refused as an access
+ * token.
+ */
+export const signTwoFactorChallengeToken = (userId: string): string => {
+  return jwt.sign(
+    { sub: userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+    getJwtSecret(),
+    { expiresIn: "5m" },
+  );
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): string => {
+  const decoded = jwt.verify(token, getJwtSecret());
+
+  if (
+    typeof decoded === "string" ||
+    decoded.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE ||
+    typeof decoded.sub !== "string" ||
+    !decoded.sub
+  ) {
+    throw new Error("Invalid two-factor challenge token.");
+  }
+
+  return decoded.sub;
+};
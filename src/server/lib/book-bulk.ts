@@ -0,0 +1,91 @@
+import { ApiError } from "./api-response.js";
+import { BookPayload, validateUpdateBookPayload } from "./book-payload.js";
+
+/** Most books a single bulk request may touch */
+export const MAX_BULK_BOOK_IDS = 500;
+
+export type BookBulkUpdatePayload = {
+  ids: string[];
+  /** Applied to every book */
+  patch: Partial<BookPayload>;
+  /** Per-book changes applied on top of patch, e.g. sequential series positions */
+  patches: Record<string, Partial<BookPayload>>;
+};
+
+export type BookBulkDeletePayload = {
+  ids: string[];
+};
+
+const assertObject = (value: unknown): Record<string, unknown> => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Bulk payload must be an object.");
+  }
+
+  return value as Record<string, unknown>;
+};
+
+const normalizeBookIds = (value: unknown): string[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ApiError(400, "BAD_REQUEST", "At least one book id is required.");
+  }
+
+  const ids = value.map((id) => {
+    if (typeof id !== "string" || !id.trim()) {
+      throw new ApiError(400, "BAD_REQUEST", "Book ids must be non-empty strings.");
+    }
+
+    return id.trim();
+  });
+
+  const uniqueIds = Array.from(new Set(ids));
+
+  if (uniqueIds.length > MAX_BULK_BOOK_IDS) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `A bulk request can change at most ${MAX_BULK_BOOK_IDS} books.`,
+    );
+  }
+
+  return uniqueIds;
+};
+
+const validateBookPatch = (value: unknown): Partial<BookPayload> => {
+  const patch = validateUpdateBookPayload(value ?? {});
+  delete patch.id;
+  return patch;
+};
+
+export const validateBookBulkUpdatePayload = (value: unknown): BookBulkUpdatePayload => {
+  const payload = assertObject(value);
+  const ids = normalizeBookIds(payload.ids);
+  const patch = validateBookPatch(payload.patch);
+  const patches: Record<string, Partial<BookPayload>> = {};
+
+  if (payload.patches !== undefined && payload.patches !== null) {
+    const rawPatches = assertObject(payload.patches);
+
+    for (const [id, bookPatch] of Object.entries(rawPatches)) {
+      if (!ids.includes(id)) {
+        throw new ApiError(400, "BAD_REQUEST", `Book ${id} has changes but is not in ids.`);
+      }
+
+      patches[id] = validateBookPatch(bookPatch);
+    }
+  }
+
+  const hasChanges =
+    Object.keys(patch).length > 0 ||
+    Object.values(patches).some((bookPatch) => Object.keys(bookPatch).length > 0);
+
+  if (!hasChanges) {
+    throw new ApiError(400, "BAD_REQUEST", "Bulk update has no changes.");
+  }
+
+  return { ids, patch, patches };
+};
+
+export const validateBookBulkDeletePayload = (value: unknown): BookBulkDeletePayload => {
+  const payload = assertObject(value);
+  return { ids: normalizeBookIds(payload.ids) };
+};
@@ -0,0 +1,70 @@
+import { ApiError } from "./api-response.js";
+import { BookPayload, validateUpdateBookPayload } from "./book-payload.js";
+
+export type BookMergePayload = {
+  targetId: string;
+  sourceIds: string[];
+  updates: Partial<BookPayload>;
+};
+
+const normalizeBookId = (value: unknown, fieldName: string): string => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} is required.`);
+  }
+
+  return value.trim();
+};
+
+export const validateBookMergePayload = (value: unknown): BookMergePayload => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Merge payload must be an object.");
+  }
+
+  const payload = value as Record<string, unknown>;
+  const targetId = normalizeBookId(payload.targetId, "Target book id");
+
+  if (!Array.isArray(payload.sourceIds) || payload.sourceIds.length === 0) {
+    throw new ApiError(400, "BAD_REQUEST", "At least one book to merge is required.");
+  }
+
+  const sourceIds = Array.from(
+    new Set(payload.sourceIds.map((id) => normalizeBookId(id, "Merged book id"))),
+  );
+
+  if (sourceIds.includes(targetId)) {
+    throw new ApiError(400, "BAD_REQUEST", "A book cannot be merged into itself.");
+  }
+
+  const updates = validateUpdateBookPayload(payload.updates ?? {});
+  delete updates.id;
+
+  return { targetId, sourceIds, updates };
+};
+
+/**
+ * Rewrite a list of book ids after a merge. Where the surviving book belongs,
+ * the first merged id is replaced by it and the rest dropped; elsewhere every
+ * merged id is removed.
+ */
+export const remapMergedBookIds = (
+  bookIds: string[] | undefined,
+  mergedIds: string[],
+  targetId: string,
+  keepTarget: boolean,
+): string[] => {
+  const remapped: string[] = [];
+
+  for (const id of bookIds || []) {
+    if (!mergedIds.includes(id)) {
+      remapped.push(id);
+    } else if (keepTarget && !remapped.includes(targetId)) {
+      remapped.push(targetId);
+    }
+  }
+
+  if (keepTarget && !remapped.includes(targetId)) {
+    remapped.push(targetId);
+  }
+
+  return remapped;
+};
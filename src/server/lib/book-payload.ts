@@ -2,7 +2,7 @@ import { v4 as uuidv4 } from "uuid";
 
 import { ApiError } from "./api-response.js";
 
-const BOOK_STATUS_VALUES = [
+export const BOOK_STATUS_VALUES = [
   "reading",
   "completed",
   "want-to-read",
@@ -10,11 +10,57 @@ const BOOK_STATUS_VALUES = [
   "on-hold",
 ] as const;
 
+export const BOOK_FORMAT_VALUES = [
+  "hardcover",
+  "paperback",
+  "ebook",
+  "audiobook",
+  "library",
+  "wishlist",
+] as const;
+
+const COPY_CONDITION_VALUES = [
+  "new",
+  "like-new",
+  "very-good",
+  "good",
+  "fair",
+  "poor",
+] as const;
+
 const BOOK_SOURCE_VALUES = ["google", "openlib", "manual"] as const;
+const MAX_BOOK_TAGS = 50;
+const MAX_TAG_LENGTH = 50;
+const MAX_BOOK_COPIES = 20;
 
-type BookStatus = (typeof BOOK_STATUS_VALUES)[number];
+export type BookStatus = (typeof BOOK_STATUS_VALUES)[number];
+export type BookFormat = (typeof BOOK_FORMAT_VALUES)[number];
+type CopyCondition = (typeof COPY_CONDITION_VALUES)[number];
 type BookSource = (typeof BOOK_SOURCE_VALUES)[number];
 
+export type ReadThroughPayload = {
+  id: string;
+  startedDate?: string;
+  finishedDate?: string;
+  rating?: number;
+  notes?: string;
+  dnf?: boolean;
+};
+
+export type BookCopyPayload = {
+  id: string;
+  format: BookFormat;
+  edition?: string;
+  publisher?: string;
+  purchaseDate?: string;
+  purchasePrice?: number;
+  purchaseLocation?: string;
+  condition?: CopyCondition;
+  shelfLocation?: string;
+  /** Running time of an audiobook */
+  audioMinutes?: number;
+};
+
 export type BookPayload = {
   id: string;
   title: string;
@@ -35,11 +81,16 @@ export type BookPayload = {
   rating?: number;
   notes?: string;
   progress?: number;
+  readThroughs?: ReadThroughPayload[];
   isPartOfSeries?: boolean;
   seriesId?: string;
   volumeNumber?: number;
   seriesPosition?: number;
   collectionIds?: string[];
+  /** Free-form labels such as "signed copy", kept once each ignoring case */
+  tags?: string[];
+  /** Owned, borrowed and wished-for copies, the main one first */
+  copies?: BookCopyPayload[];
   _legacySeriesName?: string;
   _legacyNextBookTitle?: string;
   _legacyNextBookExpectedYear?: number;
@@ -111,6 +162,32 @@ const normalizeGenre = (value: unknown): string | string[] | undefined => {
   return normalizeStringArray(value);
 };
 
+const normalizeTags = (value: unknown): string[] | undefined => {
+  const tags = normalizeStringArray(value);
+
+  if (!tags) {
+    return undefined;
+  }
+
+  const uniqueTags = tags.filter(
+    (tag, index) => tags.findIndex((other) => other.toLowerCase() === tag.toLowerCase()) === index,
+  );
+
+  if (uniqueTags.length > MAX_BOOK_TAGS) {
+    throw new ApiError(400, "BAD_REQUEST", `A book can have at most ${MAX_BOOK_TAGS} tags.`);
+  }
+
+  if (uniqueTags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `Book tags must be at most ${MAX_TAG_LENGTH} characters.`,
+    );
+  }
+
+  return uniqueTags;
+};
+
 const normalizeOptionalNumber = (
   value: unknown,
   fieldName: string,
@@ -262,6 +339,148 @@ const normalizeBoolean = (
   return value;
 };
 
+const normalizeReadThrough = (
+  value: unknown,
+  index: number,
+): ReadThroughPayload => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Book read-through must be an object.");
+  }
+
+  const readThrough = value as Record<string, unknown>;
+  const label = `Book read-through ${index + 1}`;
+  const startedDate = normalizeDateString(readThrough.startedDate, `${label} started date`);
+  const finishedDate = normalizeDateString(readThrough.finishedDate, `${label} finished date`);
+
+  if (
+    startedDate &&
+    finishedDate &&
+    new Date(finishedDate).getTime() < new Date(startedDate).getTime()
+  ) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${label} finished date must not be before its started date.`,
+    );
+  }
+
+  return {
+    id: normalizeOptionalString(readThrough.id) || `read-${uuidv4()}`,
+    startedDate,
+    finishedDate,
+    rating: normalizeRating(readThrough.rating),
+    notes: normalizeOptionalString(readThrough.notes),
+    dnf: normalizeBoolean(readThrough.dnf, false),
+  };
+};
+
+const normalizeReadThroughs = (
+  value: unknown,
+): ReadThroughPayload[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Book read-throughs must be an array.");
+  }
+
+  const readThroughs = value.map((entry, index) => normalizeReadThrough(entry, index));
+  const ids = new Set(readThroughs.map((readThrough) => readThrough.id));
+
+  if (ids.size !== readThroughs.length) {
+    throw new ApiError(400, "BAD_REQUEST", "Book read-through ids must be unique.");
+  }
+
+  return readThroughs.length ? readThroughs : undefined;
+};
+
+const normalizeCopyChoice = <T extends string>(
+  value: unknown,
+  values: readonly T[],
+  fieldName: string,
+): T | undefined => {
+  const normalized = normalizeOptionalString(value);
+
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (!values.includes(normalized as T)) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${fieldName} must be one of ${values.join(", ")}.`,
+    );
+  }
+
+  return normalized as T;
+};
+
+const normalizeCopy = (value: unknown, index: number): BookCopyPayload => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Book copy must be an object.");
+  }
+
+  const copy = value as Record<string, unknown>;
+  const label = `Book copy ${index + 1}`;
+  const format = normalizeCopyChoice(copy.format, BOOK_FORMAT_VALUES, `${label} format`);
+
+  if (!format) {
+    throw new ApiError(400, "BAD_REQUEST", `${label} format is required.`);
+  }
+
+  const purchasePrice = normalizeOptionalNumber(copy.purchasePrice, `${label} purchase price`);
+
+  if (purchasePrice !== undefined && purchasePrice < 0) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${label} purchase price must not be negative.`,
+    );
+  }
+
+  return {
+    id: normalizeOptionalString(copy.id) || `copy-${uuidv4()}`,
+    format,
+    edition: normalizeOptionalString(copy.edition),
+    publisher: normalizeOptionalString(copy.publisher),
+    purchaseDate: normalizeDateString(copy.purchaseDate, `${label} purchase date`),
+    purchasePrice,
+    purchaseLocation: normalizeOptionalString(copy.purchaseLocation),
+    condition: normalizeCopyChoice(copy.condition, COPY_CONDITION_VALUES, `${label} condition`),
+    shelfLocation: normalizeOptionalString(copy.shelfLocation),
+    audioMinutes: normalizePositiveInteger(copy.audioMinutes, `${label} audio length`),
+  };
+};
+
+const normalizeCopies = (value: unknown): BookCopyPayload[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Book copies must be an array.");
+  }
+
+  if (value.length > MAX_BOOK_COPIES) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `A book can have at most ${MAX_BOOK_COPIES} copies.`,
+    );
+  }
+
+  const copies = value.map((entry, index) => normalizeCopy(entry, index));
+  const ids = new Set(copies.map((copy) => copy.id));
+
+  if (ids.size !== copies.length) {
+    throw new ApiError(400, "BAD_REQUEST", "Book copy ids must be unique.");
+  }
+
+  return copies.length ? copies : undefined;
+};
+
 export const validateCreateBookPayload = (value: unknown): BookPayload => {
   const payload = assertObject(value);
   const now = new Date().toISOString();
@@ -286,6 +505,7 @@ export const validateCreateBookPayload = (value: unknown): BookPayload => {
     rating: normalizeRating(payload.rating),
     notes: normalizeOptionalString(payload.notes),
     progress: normalizeProgress(payload.progress),
+    readThroughs: normalizeReadThroughs(payload.readThroughs),
     isPartOfSeries: normalizeBoolean(payload.isPartOfSeries, false),
     seriesId: normalizeOptionalString(payload.seriesId),
     volumeNumber: normalizePositiveInteger(payload.volumeNumber, "Book volume number"),
@@ -294,6 +514,8 @@ export const validateCreateBookPayload = (value: unknown): BookPayload => {
       "Book series position",
     ),
     collectionIds: normalizeStringArray(payload.collectionIds),
+    tags: normalizeTags(payload.tags),
+    copies: normalizeCopies(payload.copies),
     _legacySeriesName: normalizeOptionalString(payload._legacySeriesName),
     _legacyNextBookTitle: normalizeOptionalString(payload._legacyNextBookTitle),
     _legacyNextBookExpectedYear: normalizePositiveInteger(
@@ -392,6 +614,10 @@ export const validateUpdateBookPayload = (
     updates.progress = normalizeProgress(payload.progress);
   }
 
+  if ("readThroughs" in payload) {
+    updates.readThroughs = normalizeReadThroughs(payload.readThroughs);
+  }
+
   if ("isPartOfSeries" in payload) {
     updates.isPartOfSeries = normalizeBoolean(payload.isPartOfSeries);
   }
@@ -418,6 +644,14 @@ export const validateUpdateBookPayload = (
     updates.collectionIds = normalizeStringArray(payload.collectionIds);
   }
 
+  if ("tags" in payload) {
+    updates.tags = normalizeTags(payload.tags);
+  }
+
+  if ("copies" in payload) {
+    updates.copies = normalizeCopies(payload.copies);
+  }
+
   if ("_legacySeriesName" in payload) {
     updates._legacySeriesName = normalizeOptionalString(payload._legacySeriesName);
   }
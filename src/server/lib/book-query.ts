@@ -0,0 +1,333 @@
+import { ApiError } from "./api-response.js";
+import {
+  BOOK_FORMAT_VALUES,
+  BOOK_STATUS_VALUES,
+  BookFormat,
+  BookPayload,
+  BookStatus,
+} from "./book-payload.js";
+
+export const DEFAULT_BOOK_PAGE_SIZE = 50;
+export const MAX_BOOK_PAGE_SIZE = 200;
+const MAX_BOOK_SEARCH_LENGTH = 200;
+
+export const BOOK_SORT_FIELDS = [
+  "addedDate",
+  "updatedAt",
+  "title",
+  "author",
+  "rating",
+  "completedDate",
+] as const;
+
+export type BookSortField = (typeof BOOK_SORT_FIELDS)[number];
+export type BookSortOrder = "asc" | "desc";
+
+/** Dates as ISO strings, from inclusive and before exclusive */
+export type BookDateRange = {
+  from?: string;
+  before?: string;
+};
+
+/** Where the previous page ended: its last book's sort value and id */
+export type BookListCursor = {
+  value: string | number | Date | null;
+  id: string;
+};
+
+export type BookListQuery = {
+  limit: number;
+  sort: BookSortField;
+  order: BookSortOrder;
+  cursor?: BookListCursor;
+  statuses?: BookStatus[];
+  genres?: string[];
+  /** Matches books with any of these tags */
+  tags?: string[];
+  /** Matches books with a copy in any of these formats */
+  formats?: BookFormat[];
+  /** Matches any part of the author, ignoring case */
+  author?: string;
+  seriesId?: string;
+  collectionId?: string;
+  minRating?: number;
+  maxRating?: number;
+  added?: BookDateRange;
+  completed?: BookDateRange;
+  /** Matches any part of the title, author, description, notes or ISBNs */
+  search?: string;
+};
+
+type RawQuery = Record<string, string | string[] | undefined>;
+
+type CursorBook = Pick<BookPayload, "id" | Exclude<BookSortField, "updatedAt">> & {
+  updatedAt: Date;
+};
+
+const BOOK_LIST_PARAMS = [
+  "limit",
+  "cursor",
+  "sort",
+  "order",
+  "status",
+  "genre",
+  "tag",
+  "format",
+  "author",
+  "seriesId",
+  "collectionId",
+  "minRating",
+  "maxRating",
+  "addedFrom",
+  "addedTo",
+  "completedFrom",
+  "completedTo",
+  "q",
+];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the request asks for a page of books. Without any paging or filter
+ * parameters the whole library is returned, which older clients expect.
+ */
+export const isBookListPageRequest = (query: RawQuery): boolean => {
+  return BOOK_LIST_PARAMS.some((key) => query[key] !== undefined);
+};
+
+const getValue = (query: RawQuery, key: string): string | undefined => {
+  const raw = query[key];
+  const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+  return value || undefined;
+};
+
+/** Values given either as repeated parameters or comma separated */
+const getValues = (query: RawQuery, key: string): string[] | undefined => {
+  const raw = query[key];
+  const values = (Array.isArray(raw) ? raw : raw === undefined ? [] : [raw])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return values.length ? Array.from(new Set(values)) : undefined;
+};
+
+const parseInteger = (
+  query: RawQuery,
+  key: string,
+  min: number,
+  max: number,
+): number | undefined => {
+  const value = getValue(query, key);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${key} must be a whole number from ${min} to ${max}.`,
+    );
+  }
+
+  return parsed;
+};
+
+const parseDate = (value: string, key: string): Date => {
+  const date = new Date(DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00.000Z` : value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError(400, "BAD_REQUEST", `${key} must be an ISO date.`);
+  }
+
+  return date;
+};
+
+/**
+ * A date range from two parameters. A bare date as the upper bound includes
+ * that whole day. Bare dates stay bare so they also match books whose dates
+ * were saved without a time.
+ */
+const parseDateRange = (
+  query: RawQuery,
+  fromKey: string,
+  toKey: string,
+): BookDateRange | undefined => {
+  const from = getValue(query, fromKey);
+  const to = getValue(query, toKey);
+
+  if (!from && !to) {
+    return undefined;
+  }
+
+  const range: BookDateRange = {};
+
+  if (from) {
+    const date = parseDate(from, fromKey);
+    range.from = DATE_ONLY_PATTERN.test(from) ? from : date.toISOString();
+  }
+
+  if (to) {
+    const date = parseDate(to, toKey);
+    range.before = DATE_ONLY_PATTERN.test(to)
+      ? new Date(date.getTime() + DAY_MS).toISOString().slice(0, 10)
+      : new Date(date.getTime() + 1).toISOString();
+  }
+
+  if (range.from && range.before && range.from >= range.before) {
+    throw new ApiError(400, "BAD_REQUEST", `${fromKey} must not be after ${toKey}.`);
+  }
+
+  return range;
+};
+
+const parseSortField = (query: RawQuery): BookSortField => {
+  const value = getValue(query, "sort") ?? "addedDate";
+
+  if (!BOOK_SORT_FIELDS.includes(value as BookSortField)) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `sort must be one of ${BOOK_SORT_FIELDS.join(", ")}.`,
+    );
+  }
+
+  return value as BookSortField;
+};
+
+const parseSortOrder = (query: RawQuery): BookSortOrder => {
+  const value = getValue(query, "order") ?? "desc";
+
+  if (value !== "asc" && value !== "desc") {
+    throw new ApiError(400, "BAD_REQUEST", "order must be asc or desc.");
+  }
+
+  return value;
+};
+
+const parseStatuses = (query: RawQuery): BookStatus[] | undefined => {
+  const statuses = getValues(query, "status");
+
+  if (statuses?.some((status) => !BOOK_STATUS_VALUES.includes(status as BookStatus))) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `status must be one of ${BOOK_STATUS_VALUES.join(", ")}.`,
+    );
+  }
+
+  return statuses as BookStatus[] | undefined;
+};
+
+const parseFormats = (query: RawQuery): BookFormat[] | undefined => {
+  const formats = getValues(query, "format");
+
+  if (formats?.some((format) => !BOOK_FORMAT_VALUES.includes(format as BookFormat))) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `format must be one of ${BOOK_FORMAT_VALUES.join(", ")}.`,
+    );
+  }
+
+  return formats as BookFormat[] | undefined;
+};
+
+export const encodeBookListCursor = (
+  query: Pick<BookListQuery, "sort" | "order">,
+  book: CursorBook,
+): string => {
+  const value = book[query.sort] ?? null;
+
+  return Buffer.from(
+    JSON.stringify([
+      query.sort,
+      query.order,
+      value instanceof Date ? value.toISOString() : value,
+      book.id,
+    ]),
+  ).toString("base64url");
+};
+
+const decodeBookListCursor = (
+  value: string,
+  sort: BookSortField,
+  order: BookSortOrder,
+): BookListCursor => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    parsed = null;
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 4 ||
+    typeof parsed[3] !== "string" ||
+    !(parsed[2] === null || typeof parsed[2] === "string" || typeof parsed[2] === "number")
+  ) {
+    throw new ApiError(400, "BAD_REQUEST", "cursor is invalid.");
+  }
+
+  if (parsed[0] !== sort || parsed[1] !== order) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      "cursor was returned for a different sort; start again without it.",
+    );
+  }
+
+  const sortValue = parsed[2] as string | number | null;
+
+  return {
+    value: sort === "updatedAt" && typeof sortValue === "string" ? new Date(sortValue) : sortValue,
+    id: parsed[3],
+  };
+};
+
+export const parseBookListQuery = (query: RawQuery): BookListQuery => {
+  const sort = parseSortField(query);
+  const order = parseSortOrder(query);
+  const cursor = getValue(query, "cursor");
+  const minRating = parseInteger(query, "minRating", 1, 5);
+  const maxRating = parseInteger(query, "maxRating", 1, 5);
+  const search = getValue(query, "q");
+
+  if (minRating !== undefined && maxRating !== undefined && minRating > maxRating) {
+    throw new ApiError(400, "BAD_REQUEST", "minRating must not be above maxRating.");
+  }
+
+  if (search && search.length > MAX_BOOK_SEARCH_LENGTH) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `q must be at most ${MAX_BOOK_SEARCH_LENGTH} characters.`,
+    );
+  }
+
+  return {
+    limit: parseInteger(query, "limit", 1, MAX_BOOK_PAGE_SIZE) ?? DEFAULT_BOOK_PAGE_SIZE,
+    sort,
+    order,
+    cursor: cursor ? decodeBookListCursor(cursor, sort, order) : undefined,
+    statuses: parseStatuses(query),
+    genres: getValues(query, "genre"),
+    tags: getValues(query, "tag"),
+    formats: parseFormats(query),
+    author: getValue(query, "author"),
+    seriesId: getValue(query, "seriesId"),
+    collectionId: getValue(query, "collectionId"),
+    minRating,
+    maxRating,
+    added: parseDateRange(query, "addedFrom", "addedTo"),
+    completed: parseDateRange(query, "completedFrom", "completedTo"),
+    search,
+  };
+};
@@ -1,12 +1,59 @@
 import { v4 as uuidv4 } from "uuid";
 
 import { ApiError } from "./api-response.js";
+import { BOOK_STATUS_VALUES, BookStatus } from "./book-payload.js";
+
+export const COLLECTION_RULE_TEXT_FIELDS = ["genre", "author", "series", "tags"] as const;
+export const COLLECTION_RULE_NUMBER_FIELDS = ["rating", "pages"] as const;
+export const COLLECTION_RULE_DATE_FIELDS = ["added", "completed"] as const;
+
+const MAX_COLLECTION_RULES = 20;
+const MAX_RULE_DAYS = 36500;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * One condition of a smart collection. Text rules match any part of the
+ * value, ignoring case; number ranges and date ranges include both ends;
+ * withinDays counts back from today.
+ */
+export type CollectionRule =
+  | { field: "status"; operator: "is" | "isNot"; value: BookStatus }
+  | {
+      field: (typeof COLLECTION_RULE_TEXT_FIELDS)[number];
+      operator: "contains" | "notContains";
+      value: string;
+    }
+  | {
+      field: (typeof COLLECTION_RULE_NUMBER_FIELDS)[number];
+      operator: "between";
+      min?: number;
+      max?: number;
+    }
+  | {
+      field: (typeof COLLECTION_RULE_DATE_FIELDS)[number];
+      operator: "between";
+      from?: string;
+      to?: string;
+    }
+  | {
+      field: (typeof COLLECTION_RULE_DATE_FIELDS)[number];
+      operator: "withinDays";
+      days: number;
+    };
+
+/** A smart collection holds the books matching all or any of its rules */
+export type CollectionRules = {
+  match: "all" | "any";
+  conditions: CollectionRule[];
+};
 
 export type CollectionPayload = {
   id: string;
   name: string;
   description?: string;
   bookIds: string[];
+  /** Set for smart collections, whose books are picked by rules, not bookIds */
+  rules?: CollectionRules | null;
   color?: string;
   imageUrl?: string;
   createdAt: string;
@@ -80,6 +127,162 @@ const normalizeDateString = (
   return normalized;
 };
 
+const includes = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.includes(value as T);
+
+const normalizeRuleNumber = (value: unknown, fieldName: string): number | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} must be a number of at least 0.`);
+  }
+
+  return value;
+};
+
+const normalizeRuleDate = (value: unknown, fieldName: string): string | undefined => {
+  const normalized = normalizeOptionalString(value);
+
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (
+    !DATE_ONLY_PATTERN.test(normalized) ||
+    Number.isNaN(new Date(`${normalized}T00:00:00Z`).getTime())
+  ) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} must be a YYYY-MM-DD date.`);
+  }
+
+  return normalized;
+};
+
+const normalizeRule = (value: unknown, index: number): CollectionRule => {
+  const fieldName = `Collection rules.conditions[${index}]`;
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} must be an object.`);
+  }
+
+  const rawRule = value as Record<string, unknown>;
+  const { field, operator } = rawRule;
+  const invalidOperator = () =>
+    new ApiError(400, "BAD_REQUEST", `${fieldName}.operator is invalid for ${String(field)}.`);
+
+  if (field === "status") {
+    if (operator !== "is" && operator !== "isNot") {
+      throw invalidOperator();
+    }
+
+    if (!includes(BOOK_STATUS_VALUES, rawRule.value)) {
+      throw new ApiError(400, "BAD_REQUEST", `${fieldName}.value must be a reading status.`);
+    }
+
+    return { field, operator, value: rawRule.value };
+  }
+
+  if (includes(COLLECTION_RULE_TEXT_FIELDS, field)) {
+    if (operator !== "contains" && operator !== "notContains") {
+      throw invalidOperator();
+    }
+
+    return { field, operator, value: normalizeRequiredString(rawRule.value, `${fieldName}.value`) };
+  }
+
+  if (includes(COLLECTION_RULE_NUMBER_FIELDS, field)) {
+    if (operator !== "between") {
+      throw invalidOperator();
+    }
+
+    const min = normalizeRuleNumber(rawRule.min, `${fieldName}.min`);
+    const max = normalizeRuleNumber(rawRule.max, `${fieldName}.max`);
+
+    if (min === undefined && max === undefined) {
+      throw new ApiError(400, "BAD_REQUEST", `${fieldName} needs a min or a max.`);
+    }
+
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new ApiError(400, "BAD_REQUEST", `${fieldName}.min must not be above its max.`);
+    }
+
+    return { field, operator, min, max };
+  }
+
+  if (includes(COLLECTION_RULE_DATE_FIELDS, field)) {
+    if (operator === "withinDays") {
+      const days = rawRule.days;
+
+      if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_RULE_DAYS) {
+        throw new ApiError(
+          400,
+          "BAD_REQUEST",
+          `${fieldName}.days must be a whole number from 1 to ${MAX_RULE_DAYS}.`,
+        );
+      }
+
+      return { field, operator, days };
+    }
+
+    if (operator !== "between") {
+      throw invalidOperator();
+    }
+
+    const from = normalizeRuleDate(rawRule.from, `${fieldName}.from`);
+    const to = normalizeRuleDate(rawRule.to, `${fieldName}.to`);
+
+    if (!from && !to) {
+      throw new ApiError(400, "BAD_REQUEST", `${fieldName} needs a from or a to date.`);
+    }
+
+    if (from && to && to < from) {
+      throw new ApiError(400, "BAD_REQUEST", `${fieldName}.to must not be before its from.`);
+    }
+
+    return { field, operator, from, to };
+  }
+
+  throw new ApiError(400, "BAD_REQUEST", `${fieldName}.field is invalid.`);
+};
+
+/**
+ * Rules of a smart collection; null when a collection has none, or has them
+ * removed
+ */
+const normalizeRules = (value: unknown): CollectionRules | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Collection rules must be an object.");
+  }
+
+  const rawRules = value as Record<string, unknown>;
+
+  if (rawRules.match !== "all" && rawRules.match !== "any") {
+    throw new ApiError(400, "BAD_REQUEST", "Collection rules.match must be all or any.");
+  }
+
+  if (!Array.isArray(rawRules.conditions) || rawRules.conditions.length === 0) {
+    throw new ApiError(400, "BAD_REQUEST", "Collection rules need at least one condition.");
+  }
+
+  if (rawRules.conditions.length > MAX_COLLECTION_RULES) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `Collection rules can have at most ${MAX_COLLECTION_RULES} conditions.`,
+    );
+  }
+
+  return {
+    match: rawRules.match,
+    conditions: rawRules.conditions.map((rule, index) => normalizeRule(rule, index)),
+  };
+};
+
 export const validateCreateCollectionPayload = (value: unknown): CollectionPayload => {
   const rawPayload = assertObject(value);
   const now = new Date().toISOString();
@@ -89,6 +292,7 @@ export const validateCreateCollectionPayload = (value: unknown): CollectionPaylo
     name: normalizeRequiredString(rawPayload.name, "Collection name"),
     description: normalizeOptionalString(rawPayload.description),
     bookIds: normalizeStringArray(rawPayload.bookIds, "Collection bookIds"),
+    rules: normalizeRules(rawPayload.rules),
     color: normalizeOptionalString(rawPayload.color),
     imageUrl: normalizeOptionalString(rawPayload.imageUrl),
     createdAt: normalizeDateString(rawPayload.createdAt, "Collection createdAt", now),
@@ -118,6 +322,10 @@ export const validateUpdateCollectionPayload = (
     updates.bookIds = normalizeStringArray(rawPayload.bookIds, "Collection bookIds");
   }
 
+  if ("rules" in rawPayload) {
+    updates.rules = normalizeRules(rawPayload.rules);
+  }
+
   if ("color" in rawPayload) {
     updates.color = normalizeOptionalString(rawPayload.color);
   }
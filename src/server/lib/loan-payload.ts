@@ -0,0 +1,195 @@
+import { v4 as uuidv4 } from "uuid";
+
+import { ApiError } from "./api-response.js";
+
+export const LOAN_DIRECTION_VALUES = ["lent", "borrowed"] as const;
+
+export type LoanDirection = (typeof LOAN_DIRECTION_VALUES)[number];
+
+export const LOAN_STATUS_VALUES = ["active", "overdue", "returned"] as const;
+
+export type LoanStatus = (typeof LOAN_STATUS_VALUES)[number];
+
+export type LoanPayload = {
+  id: string;
+  bookId: string;
+  /** "lent" when the user lent the book out, "borrowed" when they borrowed it */
+  direction: LoanDirection;
+  /** The borrower for lent books, the lender for borrowed ones */
+  person: string;
+  loanedDate: string;
+  dueDate?: string;
+  returnedDate?: string;
+  notes?: string;
+  /** When the last overdue reminder was raised for this loan */
+  remindedAt?: string;
+};
+
+type RawLoanPayload = Partial<LoanPayload> & Record<string, unknown>;
+
+const assertObject = (value: unknown): RawLoanPayload => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Loan payload must be an object.");
+  }
+
+  return value as RawLoanPayload;
+};
+
+const normalizeOptionalString = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string") {
+    throw new ApiError(400, "BAD_REQUEST", "Loan field must be a string.");
+  }
+
+  const normalized = value.trim();
+  return normalized || undefined;
+};
+
+const normalizeRequiredString = (value: unknown, fieldName: string): string => {
+  const normalized = normalizeOptionalString(value);
+
+  if (!normalized) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} is required.`);
+  }
+
+  return normalized;
+};
+
+const normalizeDateString = (value: unknown, fieldName: string): string | undefined => {
+  const normalized = normalizeOptionalString(value);
+
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (Number.isNaN(new Date(normalized).getTime())) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} must be a valid date.`);
+  }
+
+  return normalized;
+};
+
+const normalizeDirection = (value: unknown): LoanDirection => {
+  if (
+    typeof value !== "string" ||
+    !LOAN_DIRECTION_VALUES.includes(value as LoanDirection)
+  ) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `Loan direction must be one of: ${LOAN_DIRECTION_VALUES.join(", ")}.`,
+    );
+  }
+
+  return value as LoanDirection;
+};
+
+/**
+ * Due and returned dates are checked against the date the book went out.
+ * Updates pass the stored dates for fields they leave alone.
+ */
+export const assertLoanDates = (
+  dates: Pick<LoanPayload, "loanedDate" | "dueDate" | "returnedDate">,
+): void => {
+  const loanedAt = new Date(dates.loanedDate).getTime();
+
+  if (dates.dueDate && new Date(dates.dueDate).getTime() < loanedAt) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      "Loan due date must not be before the loaned date.",
+    );
+  }
+
+  if (dates.returnedDate && new Date(dates.returnedDate).getTime() < loanedAt) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      "Loan returned date must not be before the loaned date.",
+    );
+  }
+};
+
+export const validateCreateLoanPayload = (value: unknown): LoanPayload => {
+  const payload = assertObject(value);
+  const loan: LoanPayload = {
+    id: normalizeOptionalString(payload.id) || `loan-${uuidv4()}`,
+    bookId: normalizeRequiredString(payload.bookId, "Loan book id"),
+    direction: normalizeDirection(payload.direction),
+    person: normalizeRequiredString(payload.person, "Loan person"),
+    loanedDate:
+      normalizeDateString(payload.loanedDate, "Loan loaned date") ||
+      new Date().toISOString(),
+    dueDate: normalizeDateString(payload.dueDate, "Loan due date"),
+    returnedDate: normalizeDateString(payload.returnedDate, "Loan returned date"),
+    notes: normalizeOptionalString(payload.notes),
+    remindedAt: normalizeDateString(payload.remindedAt, "Loan reminder date"),
+  };
+
+  assertLoanDates(loan);
+
+  return loan;
+};
+
+export const validateUpdateLoanPayload = (value: unknown): Partial<LoanPayload> => {
+  const payload = assertObject(value);
+  const updates: Partial<LoanPayload> = {};
+
+  if ("direction" in payload) {
+    updates.direction = normalizeDirection(payload.direction);
+  }
+
+  if ("person" in payload) {
+    updates.person = normalizeRequiredString(payload.person, "Loan person");
+  }
+
+  if ("loanedDate" in payload) {
+    updates.loanedDate = normalizeDateString(payload.loanedDate, "Loan loaned date");
+
+    if (!updates.loanedDate) {
+      throw new ApiError(400, "BAD_REQUEST", "Loan loaned date is required.");
+    }
+  }
+
+  if ("dueDate" in payload) {
+    updates.dueDate = normalizeDateString(payload.dueDate, "Loan due date");
+  }
+
+  if ("returnedDate" in payload) {
+    updates.returnedDate = normalizeDateString(
+      payload.returnedDate,
+      "Loan returned date",
+    );
+  }
+
+  if ("notes" in payload) {
+    updates.notes = normalizeOptionalString(payload.notes);
+  }
+
+  if ("remindedAt" in payload) {
+    updates.remindedAt = normalizeDateString(payload.remindedAt, "Loan reminder date");
+  }
+
+  return updates;
+};
+
+export const parseLoanStatus = (value: unknown): LoanStatus | undefined => {
+  const status = Array.isArray(value) ? value[0] : value;
+
+  if (status === undefined || status === "") {
+    return undefined;
+  }
+
+  if (typeof status !== "string" || !LOAN_STATUS_VALUES.includes(status as LoanStatus)) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `Loan status must be one of: ${LOAN_STATUS_VALUES.join(", ")}.`,
+    );
+  }
+
+  return status as LoanStatus;
+};
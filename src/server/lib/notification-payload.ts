@@ -1,6 +1,6 @@
 import { ApiError } from "./api-response.js";
 
-const NOTIFICATION_TYPE_VALUES = ["release", "system", "update", "alert"] as const;
+const NOTIFICATION_TYPE_VALUES = ["release", "system", "update", "alert", "loan"] as const;
 
 type NotificationType = (typeof NOTIFICATION_TYPE_VALUES)[number];
 
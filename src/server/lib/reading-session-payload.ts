@@ -0,0 +1,155 @@
+import { v4 as uuidv4 } from "uuid";
+
+import { ApiError } from "./api-response.js";
+
+export type ReadingSessionPayload = {
+  id: string;
+  bookId: string;
+  date: string;
+  startPage?: number;
+  endPage?: number;
+  minutes?: number;
+  notes?: string;
+};
+
+type RawReadingSessionPayload = Partial<ReadingSessionPayload> & Record<string, unknown>;
+
+const assertObject = (value: unknown): RawReadingSessionPayload => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Reading session payload must be an object.");
+  }
+
+  return value as RawReadingSessionPayload;
+};
+
+const normalizeOptionalString = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string") {
+    throw new ApiError(400, "BAD_REQUEST", "Reading session field must be a string.");
+  }
+
+  const normalized = value.trim();
+  return normalized || undefined;
+};
+
+const normalizeRequiredString = (value: unknown, fieldName: string): string => {
+  const normalized = normalizeOptionalString(value);
+
+  if (!normalized) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} is required.`);
+  }
+
+  return normalized;
+};
+
+const normalizePositiveInteger = (
+  value: unknown,
+  fieldName: string,
+): number | undefined => {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${fieldName} must be a positive whole number.`,
+    );
+  }
+
+  return value;
+};
+
+const normalizeDateString = (value: unknown, fieldName: string): string | undefined => {
+  const normalized = normalizeOptionalString(value);
+
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (Number.isNaN(new Date(normalized).getTime())) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} must be a valid date.`);
+  }
+
+  return normalized;
+};
+
+const assertPageRange = (startPage?: number, endPage?: number): void => {
+  if (startPage !== undefined && endPage !== undefined && endPage < startPage) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      "Reading session end page must not be before the start page.",
+    );
+  }
+};
+
+export const validateCreateReadingSessionPayload = (
+  value: unknown,
+): ReadingSessionPayload => {
+  const payload = assertObject(value);
+  const startPage = normalizePositiveInteger(payload.startPage, "Reading session start page");
+  const endPage = normalizePositiveInteger(payload.endPage, "Reading session end page");
+
+  assertPageRange(startPage, endPage);
+
+  return {
+    id: normalizeOptionalString(payload.id) || `session-${uuidv4()}`,
+    bookId: normalizeRequiredString(payload.bookId, "Reading session book id"),
+    date:
+      normalizeDateString(payload.date, "Reading session date") ||
+      new Date().toISOString(),
+    startPage,
+    endPage,
+    minutes: normalizePositiveInteger(payload.minutes, "Reading session minutes"),
+    notes: normalizeOptionalString(payload.notes),
+  };
+};
+
+export const validateUpdateReadingSessionPayload = (
+  value: unknown,
+): Partial<ReadingSessionPayload> => {
+  const payload = assertObject(value);
+  const updates: Partial<ReadingSessionPayload> = {};
+
+  if ("date" in payload) {
+    updates.date = normalizeDateString(payload.date, "Reading session date");
+
+    if (!updates.date) {
+      throw new ApiError(400, "BAD_REQUEST", "Reading session date is required.");
+    }
+  }
+
+  if ("startPage" in payload) {
+    updates.startPage = normalizePositiveInteger(
+      payload.startPage,
+      "Reading session start page",
+    );
+  }
+
+  if ("endPage" in payload) {
+    updates.endPage = normalizePositiveInteger(
+      payload.endPage,
+      "Reading session end page",
+    );
+  }
+
+  if ("minutes" in payload) {
+    updates.minutes = normalizePositiveInteger(
+      payload.minutes,
+      "Reading session minutes",
+    );
+  }
+
+  if ("notes" in payload) {
+    updates.notes = normalizeOptionalString(payload.notes);
+  }
+
+  assertPageRange(updates.startPage, updates.endPage);
+
+  return updates;
+};
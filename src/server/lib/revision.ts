@@ -0,0 +1,87 @@
+import { VercelRequest, VercelResponse } from "@vercel/node";
+
+import { ApiError } from "./api-response.js";
+
+/**
+ * The revision a client based its change on. Sent as an If-Match header
+ * (412 when stale) or as expectedRevision in the body (409 when stale).
+ */
+export type RevisionPrecondition = {
+  revision: number;
+  source: "header" | "body";
+};
+
+export const toETag = (revision: number): string => `"${revision}"`;
+
+const parseRevision = (value: unknown): number | null => {
+  const revision = typeof value === "string" ? Number(value) : value;
+
+  return typeof revision === "number" && Number.isInteger(revision) && revision >= 0
+    ? revision
+    : null;
+};
+
+export const getRevisionPrecondition = (
+  request: VercelRequest,
+): RevisionPrecondition | null => {
+  const rawHeader = request.headers["if-match"];
+  const header = (Array.isArray(rawHeader) ? rawHeader[0] : rawHeader)?.trim();
+
+  if (header && header !== "*") {
+    const revision = parseRevision(header.replace(/^W\//, "").replace(/^"|"$/g, ""));
+
+    if (revision === null) {
+      throw new ApiError(400, "BAD_REQUEST", "If-Match must be an ETag returned by the API.");
+    }
+
+    return { revision, source: "header" };
+  }
+
+  const body = request.body as Record<string, unknown> | undefined;
+
+  if (body?.expectedRevision === undefined) {
+    return null;
+  }
+
+  const revision = parseRevision(body.expectedRevision);
+
+  if (revision === null) {
+    throw new ApiError(400, "BAD_REQUEST", "expectedRevision must be a non-negative integer.");
+  }
+
+  return { revision, source: "body" };
+};
+
+/**
+ * Filter matching a document at the given revision. Documents written before
+ * revisions were tracked have none and count as revision 0.
+ */
+export const revisionFilter = (
+  revision: number | undefined,
+): { revision?: number | { $in: (number | null)[] } } => {
+  if (revision === undefined) {
+    return {};
+  }
+
+  return revision === 0 ? { revision: { $in: [0, null] } } : { revision };
+};
+
+/**
+ * The error for a change based on an old revision, carrying the server's
+ * current copy so the client can merge
+ */
+export const revisionConflictError = (
+  precondition: RevisionPrecondition,
+  resourceName: string,
+  current: { revision: number },
+): ApiError => {
+  const message = `${resourceName} was changed since revision ${precondition.revision}.`;
+
+  return precondition.source === "header"
+    ? new ApiError(412, "PRECONDITION_FAILED", message, { current })
+    : new ApiError(409, "CONFLICT", message, { current });
+};
+
+export const setETag = (response: VercelResponse, revision: number): void => {
+  response.setHeader("ETag", toETag(revision));
+};
@@ -0,0 +1,362 @@
+import { ApiError } from "./api-response.js";
+
+export const SEARCH_FIELDS = [
+  "title",
+  "author",
+  "genre",
+  "tags",
+  "description",
+  "notes",
+  "seriesName",
+  "collectionName",
+] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+/**
+ * How much a match in each field counts towards a result's score. Book fields
+ * are weighted by the books text index; series and collection names are
+ * searched in their own collections and scaled by their weight here.
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  author: 8,
+  seriesName: 6,
+  genre: 4,
+  tags: 4,
+  collectionName: 3,
+  description: 2,
+  notes: 2,
+};
+
+export const BOOK_TEXT_WEIGHTS = {
+  title: SEARCH_FIELD_WEIGHTS.title,
+  author: SEARCH_FIELD_WEIGHTS.author,
+  genre: SEARCH_FIELD_WEIGHTS.genre,
+  tags: SEARCH_FIELD_WEIGHTS.tags,
+  description: SEARCH_FIELD_WEIGHTS.description,
+  notes: SEARCH_FIELD_WEIGHTS.notes,
+};
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 100;
+const MAX_SEARCH_LENGTH = 200;
+
+export type SearchSegment = {
+  text: string;
+  match: boolean;
+};
+
+export type SearchMatch = {
+  field: SearchField;
+  segments: SearchSegment[];
+};
+
+/** Same shape as SearchResult in the client's SearchService */
+export type SearchResult<T> = {
+  item: T;
+  score: number;
+  matches: SearchMatch[];
+};
+
+export type SearchQuery = {
+  text: string;
+  /** Only results matching in these fields; null for all fields */
+  fields: SearchField[] | null;
+  exactMatch: boolean;
+  caseSensitive: boolean;
+  limit: number;
+};
+
+export type SearchableBook = {
+  id: string;
+  title: string;
+  author: string;
+  genre?: string | string[];
+  tags?: string[];
+  description?: string;
+  notes?: string;
+  seriesId?: string;
+  collectionIds?: string[];
+};
+
+export type SeriesNameMatch = {
+  id: string;
+  name: string;
+  books: string[];
+  score: number;
+};
+
+export type CollectionNameMatch = {
+  id: string;
+  name: string;
+  bookIds: string[];
+  score: number;
+};
+
+type RawQuery = Record<string, string | string[] | undefined>;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const getValue = (query: RawQuery, key: string): string | undefined => {
+  const raw = query[key];
+  const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+  return value || undefined;
+};
+
+const parseBoolean = (query: RawQuery, key: string): boolean => {
+  const value = getValue(query, key);
+
+  if (value === undefined || value === "false" || value === "0") {
+    return false;
+  }
+
+  if (value === "true" || value === "1") {
+    return true;
+  }
+
+  throw new ApiError(400, "BAD_REQUEST", `${key} must be true or false.`);
+};
+
+const parseFields = (query: RawQuery): SearchField[] | null => {
+  const fields = (getValue(query, "fields") ?? "all")
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+  if (fields.length === 0 || fields.includes("all")) {
+    return null;
+  }
+
+  const unknownField = fields.find((field) => !SEARCH_FIELDS.includes(field as SearchField));
+
+  if (unknownField) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `fields must be all or any of ${SEARCH_FIELDS.join(", ")}.`,
+    );
+  }
+
+  return Array.from(new Set(fields)) as SearchField[];
+};
+
+const parseLimit = (query: RawQuery): number => {
+  const value = getValue(query, "limit");
+
+  if (value === undefined) {
+    return DEFAULT_SEARCH_LIMIT;
+  }
+
+  const limit = Number(value);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}.`,
+    );
+  }
+
+  return limit;
+};
+
+export const parseSearchQuery = (query: RawQuery): SearchQuery => {
+  const text = getValue(query, "q");
+
+  if (!text) {
+    throw new ApiError(400, "BAD_REQUEST", "q is required.");
+  }
+
+  if (text.length > MAX_SEARCH_LENGTH) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `q must be at most ${MAX_SEARCH_LENGTH} characters.`,
+    );
+  }
+
+  return {
+    text,
+    fields: parseFields(query),
+    exactMatch: parseBoolean(query, "exact"),
+    caseSensitive: parseBoolean(query, "caseSensitive"),
+    limit: parseLimit(query),
+  };
+};
+
+/**
+ * The $text search string. An exact match searches the whole query as one
+ * phrase.
+ */
+export const toTextSearch = (query: SearchQuery): string => {
+  return query.exactMatch ? `"${query.text.replace(/"/g, " ").trim()}"` : query.text;
+};
+
+const normalizeCase = (value: string, caseSensitive: boolean): string =>
+  caseSensitive ? value : value.toLowerCase();
+
+/**
+ * The words of a query worth highlighting, ignoring negated terms
+ */
+export const getSearchTerms = (query: SearchQuery): string[] => {
+  const text = query.text.replace(/(^|\s)-("[^"]*"|\S+)/g, " ");
+  const words: string[] = text.match(WORD_PATTERN) ?? [];
+
+  return Array.from(
+    new Set(
+      words
+        .filter((word) => word.length > 1)
+        .map((word) => normalizeCase(word, query.caseSensitive)),
+    ),
+  );
+};
+
+// The text index stems words, so "reading" finds "read"; highlight words
+// sharing a prefix with a term rather than only identical ones
+const isTermMatch = (word: string, term: string): boolean =>
+  word.startsWith(term) || (word.length >= 3 && term.startsWith(word));
+
+const toSegments = (text: string, ranges: [number, number][]): SearchSegment[] => {
+  const segments: SearchSegment[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), match: false });
+    }
+
+    const previous = segments[segments.length - 1];
+
+    // Ranges that touch become one highlight
+    if (previous?.match && start === position) {
+      previous.text += text.slice(start, end);
+    } else {
+      segments.push({ text: text.slice(start, end), match: true });
+    }
+
+    position = end;
+  });
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: false });
+  }
+
+  return segments;
+};
+
+/**
+ * Split text into matched and unmatched segments, or null when nothing in
+ * it matches the query
+ */
+export const highlightText = (
+  text: string | undefined,
+  query: SearchQuery,
+  terms: string[] = getSearchTerms(query),
+): SearchSegment[] | null => {
+  if (!text) {
+    return null;
+  }
+
+  const ranges: [number, number][] = [];
+  const haystack = normalizeCase(text, query.caseSensitive);
+
+  if (query.exactMatch) {
+    const phrase = normalizeCase(query.text.replace(/"/g, " ").trim(), query.caseSensitive);
+    let index = phrase ? haystack.indexOf(phrase) : -1;
+
+    while (index !== -1) {
+      ranges.push([index, index + phrase.length]);
+      index = haystack.indexOf(phrase, index + phrase.length);
+    }
+  } else {
+    for (const word of haystack.matchAll(WORD_PATTERN)) {
+      if (terms.some((term) => isTermMatch(word[0], term))) {
+        ranges.push([word.index ?? 0, (word.index ?? 0) + word[0].length]);
+      }
+    }
+  }
+
+  return ranges.length ? toSegments(text, ranges) : null;
+};
+
+const joinGenre = (genre: string | string[] | undefined): string | undefined =>
+  Array.isArray(genre) ? genre.join(", ") : genre;
+
+const roundScore = (score: number): number => Math.round(score * 1000) / 1000;
+
+/**
+ * Combine books matched on their own fields with books in matched series and
+ * collections into ranked results with highlighted fields. Text scores are
+ * already weighted for book fields; series and collection name scores are
+ * weighted here and added.
+ */
+export const rankSearchResults = <T extends SearchableBook>(
+  query: SearchQuery,
+  matches: {
+    books: (T & { score: number })[];
+    linkedBooks: T[];
+    series: SeriesNameMatch[];
+    collections: CollectionNameMatch[];
+  },
+): SearchResult<T>[] => {
+  const terms = getSearchTerms(query);
+  const scoredBooks = new Map<string, { book: T; score: number }>();
+
+  matches.books.forEach(({ score, ...book }) => {
+    scoredBooks.set(book.id, { book: book as unknown as T, score });
+  });
+
+  matches.linkedBooks.forEach((book) => {
+    if (!scoredBooks.has(book.id)) {
+      scoredBooks.set(book.id, { book, score: 0 });
+    }
+  });
+
+  const results: SearchResult<T>[] = [];
+
+  scoredBooks.forEach(({ book, score }) => {
+    const series = matches.series.find(
+      (candidate) => candidate.id === book.seriesId || candidate.books.includes(book.id),
+    );
+    const collections = matches.collections.filter(
+      (candidate) =>
+        book.collectionIds?.includes(candidate.id) || candidate.bookIds.includes(book.id),
+    );
+
+    const fieldValues: Record<SearchField, string | undefined> = {
+      title: book.title,
+      author: book.author,
+      genre: joinGenre(book.genre),
+      tags: book.tags?.join(", ") || undefined,
+      description: book.description,
+      notes: book.notes,
+      seriesName: series?.name,
+      collectionName: collections.map((collection) => collection.name).join(", ") || undefined,
+    };
+
+    const fieldMatches = SEARCH_FIELDS.filter((field) => !query.fields || query.fields.includes(field))
+      .map((field) => ({ field, segments: highlightText(fieldValues[field], query, terms) }))
+      .filter((match): match is SearchMatch => match.segments !== null);
+
+    // With chosen fields, a book must match in one of them; stemmed matches
+    // can leave nothing to highlight, so only drop those when fields are chosen
+    if (query.fields && fieldMatches.length === 0) {
+      return;
+    }
+
+    const collectionScore = Math.max(0, ...collections.map((collection) => collection.score));
+    const totalScore =
+      score +
+      (series?.score ?? 0) * SEARCH_FIELD_WEIGHTS.seriesName +
+      collectionScore * SEARCH_FIELD_WEIGHTS.collectionName;
+
+    if (totalScore > 0 || fieldMatches.length > 0) {
+      results.push({ item: book, score: roundScore(totalScore), matches: fieldMatches });
+    }
+  });
+
+  return results
+    .sort((left, right) => right.score - left.score || left.item.title.localeCompare(right.item.title))
+    .slice(0, query.limit);
+};
@@ -0,0 +1,85 @@
+import { IncomingHttpHeaders } from "http";
+
+export type SessionDeviceInfo = {
+  deviceName: string;
+  ip?: string;
+  userAgent?: string;
+};
+
+type DeviceRequest = {
+  headers: IncomingHttpHeaders;
+  socket?: { remoteAddress?: string };
+};
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone/, "iPhone"],
+  [/iPad/, "iPad"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+const getHeader = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+};
+
+/**
+ * A readable name such as "Firefox on Windows". Only the common browsers
+ * and platforms are recognised; anything else falls back to a generic name.
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+
+  return browser || platform || "Unknown device";
+};
+
+/**
+ * The client address as seen by the first proxy in front of the function,
+ * falling back to the socket when the request was not proxied.
+ */
+export const getRequestIp = (request: DeviceRequest): string | undefined => {
+  const forwardedFor = getHeader(request.headers, "x-forwarded-for");
+
+  if (forwardedFor) {
+    return forwardedFor.split(",")[0].trim() || undefined;
+  }
+
+  return getHeader(request.headers, "x-real-ip") || request.socket?.remoteAddress;
+};
+
+export const getRequestDeviceInfo = (request: DeviceRequest): SessionDeviceInfo => {
+  const userAgent = getHeader(request.headers, "user-agent")?.slice(
+    0,
+    MAX_USER_AGENT_LENGTH,
+  );
+
+  return {
+    deviceName: describeUserAgent(userAgent),
+    ip: getRequestIp(request),
+    userAgent,
+  };
+};
@@ -0,0 +1,173 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+/** Lower-case letters and digits without the look-alikes 0, 1, i, l and o */
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export const encodeBase32 = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const decodeBase32 = (encoded: string): Buffer => {
+  const normalized = encoded.toUpperCase().replace(/=+$/, "").replace(/\s+/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const character of normalized) {
+    const index = BASE32_ALPHABET.indexOf(character);
+
+    if (index === -1) {
+      throw new Error("Invalid base32 character.");
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => {
+  return encodeBase32(randomBytes(TOTP_SECRET_BYTES));
+};
+
+/**
+ * The 30-second time step a moment falls in (RFC 6238 "T")
+ */
+export const getTotpTimeStep = (now: Date): number => {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+};
+
+/**
+ * HOTP (RFC 4226) with HMAC-SHA1 and dynamic truncation
+ */
+export const generateHotpCode = (
+  secret: Buffer,
+  counter: number,
+  digits = TOTP_DIGITS,
+): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+};
+
+export const generateTotpCode = (secret: string, now: Date): string => {
+  return generateHotpCode(decodeBase32(secret), getTotpTimeStep(now));
+};
+
+const codesMatch = (expected: string, actual: string): boolean => {
+  return (
+    expected.length === actual.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(actual))
+  );
+};
+
+/**
+ * Checks a code against the current time step and one step either side, to
+ * allow for clock drift. Returns the matching step so the caller can refuse
+ * a code that has already been used, or null when nothing matches.
+ */
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  now: Date,
+  window = 1,
+): number | null => {
+  const normalized = code.replace(/\s+/g, "");
+
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const key = decodeBase32(secret);
+  const currentStep = getTotpTimeStep(now);
+
+  for (let offset = -window; offset <= window; offset += 1) {
+    const step = currentStep + offset;
+
+    if (codesMatch(generateHotpCode(key, step), normalized)) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * The otpauth:// URI authenticator apps read from a QR code
+ */
+export const buildTotpProvisioningUri = ({
+  accountName,
+  issuer,
+  secret,
+}: {
+  accountName: string;
+  issuer: string;
+  secret: string;
+}): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Recovery codes are shown once as "abcde-fghjk" and stored only as hashes
+ */
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT): string[] => {
+  return Array.from({ length: count }, () => {
+    const characters = Array.from(
+      { length: 10 },
+      () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)],
+    ).join("");
+
+    return `${characters.slice(0, 5)}-${characters.slice(5)}`;
+  });
+};
+
+export const normalizeRecoveryCode = (code: string): string => {
+  return code.trim().toLowerCase().replace(/[\s-]+/g, "");
+};
+
+export const hashRecoveryCode = (code: string): string => {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+};
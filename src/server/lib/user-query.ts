@@ -0,0 +1,245 @@
+import { ApiError } from "./api-response.js";
+
+export const DEFAULT_USER_PAGE_SIZE = 50;
+export const MAX_USER_PAGE_SIZE = 200;
+const MAX_USER_SEARCH_LENGTH = 200;
+const MAX_INACTIVE_DAYS = 3650;
+
+export const USER_SORT_FIELDS = ["createdAt", "lastLoginAt", "email", "preferredName"] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+export type UserSortOrder = "asc" | "desc";
+
+/** From inclusive and before exclusive */
+export type UserDateRange = {
+  from?: Date;
+  before?: Date;
+};
+
+/** Where the previous page ended: its last user's sort value and id */
+export type UserListCursor = {
+  value: string | Date | null;
+  id: string;
+};
+
+export type UserListQuery = {
+  limit: number;
+  sort: UserSortField;
+  order: UserSortOrder;
+  cursor?: UserListCursor;
+  /** Matches any part of the email or preferred name, ignoring case */
+  search?: string;
+  role?: "user" | "admin";
+  twoFactor?: "enabled" | "disabled";
+  created?: UserDateRange;
+  lastLogin?: UserDateRange;
+  /** Users who have not signed in for at least this many days */
+  inactiveDays?: number;
+};
+
+type RawQuery = Record<string, string | string[] | undefined>;
+
+type CursorUser = {
+  _id?: { toString(): string };
+  email: string;
+  preferredName?: string;
+  createdAt: Date;
+  lastLoginAt?: Date;
+};
+
+const USER_LIST_PARAMS = [
+  "limit",
+  "cursor",
+  "sort",
+  "order",
+  "q",
+  "role",
+  "twoFactor",
+  "createdFrom",
+  "createdTo",
+  "lastLoginFrom",
+  "lastLoginTo",
+  "inactiveDays",
+];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the request asks for a page of users. Without any paging or filter
+ * parameters every user is returned, which older admin pages expect.
+ */
+export const isUserListPageRequest = (query: RawQuery): boolean => {
+  return USER_LIST_PARAMS.some((key) => query[key] !== undefined);
+};
+
+const getValue = (query: RawQuery, key: string): string | undefined => {
+  const raw = query[key];
+  const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+  return value || undefined;
+};
+
+const parseInteger = (
+  query: RawQuery,
+  key: string,
+  min: number,
+  max: number,
+): number | undefined => {
+  const value = getValue(query, key);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${key} must be a whole number from ${min} to ${max}.`,
+    );
+  }
+
+  return parsed;
+};
+
+const parseDate = (value: string, key: string): Date => {
+  const date = new Date(DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00.000Z` : value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError(400, "BAD_REQUEST", `${key} must be an ISO date.`);
+  }
+
+  return date;
+};
+
+/** A bare date as the upper bound includes that whole day */
+const parseDateRange = (
+  query: RawQuery,
+  fromKey: string,
+  toKey: string,
+): UserDateRange | undefined => {
+  const from = getValue(query, fromKey);
+  const to = getValue(query, toKey);
+
+  if (!from && !to) {
+    return undefined;
+  }
+
+  const range: UserDateRange = {};
+
+  if (from) {
+    range.from = parseDate(from, fromKey);
+  }
+
+  if (to) {
+    const date = parseDate(to, toKey);
+    range.before = new Date(date.getTime() + (DATE_ONLY_PATTERN.test(to) ? DAY_MS : 1));
+  }
+
+  if (range.from && range.before && range.from >= range.before) {
+    throw new ApiError(400, "BAD_REQUEST", `${fromKey} must not be after ${toKey}.`);
+  }
+
+  return range;
+};
+
+const parseChoice = <T extends string>(
+  query: RawQuery,
+  key: string,
+  choices: readonly T[],
+): T | undefined => {
+  const value = getValue(query, key);
+
+  if (value !== undefined && !choices.includes(value as T)) {
+    throw new ApiError(400, "BAD_REQUEST", `${key} must be one of ${choices.join(", ")}.`);
+  }
+
+  return value as T | undefined;
+};
+
+export const encodeUserListCursor = (
+  query: Pick<UserListQuery, "sort" | "order">,
+  user: CursorUser,
+): string => {
+  const value = user[query.sort] ?? null;
+
+  return Buffer.from(
+    JSON.stringify([
+      query.sort,
+      query.order,
+      value instanceof Date ? value.toISOString() : value,
+      user._id?.toString(),
+    ]),
+  ).toString("base64url");
+};
+
+const decodeUserListCursor = (
+  value: string,
+  sort: UserSortField,
+  order: UserSortOrder,
+): UserListCursor => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    parsed = null;
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 4 ||
+    typeof parsed[3] !== "string" ||
+    !OBJECT_ID_PATTERN.test(parsed[3]) ||
+    !(parsed[2] === null || typeof parsed[2] === "string")
+  ) {
+    throw new ApiError(400, "BAD_REQUEST", "cursor is invalid.");
+  }
+
+  if (parsed[0] !== sort || parsed[1] !== order) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      "cursor was returned for a different sort; start again without it.",
+    );
+  }
+
+  const sortValue = parsed[2] as string | null;
+  const isDateSort = sort === "createdAt" || sort === "lastLoginAt";
+
+  return {
+    value: isDateSort && sortValue !== null ? new Date(sortValue) : sortValue,
+    id: parsed[3],
+  };
+};
+
+export const parseUserListQuery = (query: RawQuery): UserListQuery => {
+  const sort = parseChoice(query, "sort", USER_SORT_FIELDS) ?? "createdAt";
+  const order = parseChoice(query, "order", ["asc", "desc"] as const) ?? "desc";
+  const cursor = getValue(query, "cursor");
+  const search = getValue(query, "q");
+
+  if (search && search.length > MAX_USER_SEARCH_LENGTH) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `q must be at most ${MAX_USER_SEARCH_LENGTH} characters.`,
+    );
+  }
+
+  return {
+    limit: parseInteger(query, "limit", 1, MAX_USER_PAGE_SIZE) ?? DEFAULT_USER_PAGE_SIZE,
+    sort,
+    order,
+    cursor: cursor ? decodeUserListCursor(cursor, sort, order) : undefined,
+    search,
+    role: parseChoice(query, "role", ["user", "admin"] as const),
+    twoFactor: parseChoice(query, "twoFactor", ["enabled", "disabled"] as const),
+    created: parseDateRange(query, "createdFrom", "createdTo"),
+    lastLogin: parseDateRange(query, "lastLoginFrom", "lastLoginTo"),
+    inactiveDays: parseInteger(query, "inactiveDays", 1, MAX_INACTIVE_DAYS),
+  };
+};
@@ -3,10 +3,37 @@ import { ApiError } from "./api-response.js";
 const DEFAULT_VIEW_VALUES = ["shelf", "list", "cover", "insights"] as const;
 const DEFAULT_API_VALUES = ["google", "openlibrary"] as const;
 const DEFAULT_STATUS_VALUES = ["want-to-read", "reading", "completed"] as const;
+const GOAL_TYPE_VALUES = ["books", "pages", "genres"] as const;
+const GOAL_PERIOD_VALUES = ["monthly", "yearly", "custom"] as const;
+const MAX_SAVED_SEARCHES = 50;
+const MAX_SAVED_SEARCH_QUERY_LENGTH = 500;
+const MAX_TAG_COLORS = 500;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
 
 type DefaultView = (typeof DEFAULT_VIEW_VALUES)[number];
 type DefaultApi = (typeof DEFAULT_API_VALUES)[number];
 type DefaultStatus = (typeof DEFAULT_STATUS_VALUES)[number];
+type GoalType = (typeof GOAL_TYPE_VALUES)[number];
+type GoalPeriod = (typeof GOAL_PERIOD_VALUES)[number];
+
+export type ReadingGoalPayload = {
+  id: string;
+  name?: string;
+  type: GoalType;
+  period: GoalPeriod;
+  target: number;
+  startDate?: string;
+  endDate?: string;
+  createdAt?: string;
+};
+
+/** A search query from the advanced search, kept under a name */
+export type SavedSearchPayload = {
+  id: string;
+  name: string;
+  query: string;
+  createdAt?: string;
+};
 
 export type UserSettingsPayload = {
   preferredName?: string;
@@ -18,6 +45,7 @@ export type UserSettingsPayload = {
   goals?: {
     enabled: boolean;
     monthlyTarget: number;
+    definitions?: ReadingGoalPayload[];
   };
   displayOptions?: {
     groupSpecialStatuses: boolean;
@@ -25,6 +53,9 @@ export type UserSettingsPayload = {
     shelfOrder: string[];
   };
   notifications?: Record<string, boolean>;
+  savedSearches?: SavedSearchPayload[];
+  /** Hex colours for book tags, keyed by tag name */
+  tagColors?: Record<string, string>;
   migration?: {
     legacyImport?: {
       status: "not-started" | "in-progress" | "completed" | "failed";
@@ -157,6 +188,7 @@ const normalizeGoals = (
   return {
     enabled: enabled ?? false,
     monthlyTarget: typeof monthlyTarget === "number" ? monthlyTarget : 4,
+    definitions: normalizeGoalDefinitions(rawValue.definitions),
   };
 };
 
@@ -216,6 +248,33 @@ const normalizeNotifications = (
   return normalizedNotifications;
 };
 
+const normalizeTagColors = (
+  value: unknown,
+): Record<string, string> | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const rawValue = assertObject(value, "tagColors must be an object.");
+  const entries = Object.entries(rawValue);
+
+  if (entries.length > MAX_TAG_COLORS) {
+    throw new ApiError(400, "BAD_REQUEST", `tagColors can hold at most ${MAX_TAG_COLORS} tags.`);
+  }
+
+  const normalizedTagColors: Record<string, string> = {};
+
+  entries.forEach(([tag, color]) => {
+    if (typeof color !== "string" || !HEX_COLOR_PATTERN.test(color)) {
+      throw new ApiError(400, "BAD_REQUEST", `tagColors.${tag} must be a hex color like #3b82f6.`);
+    }
+
+    normalizedTagColors[tag] = color.toLowerCase();
+  });
+
+  return normalizedTagColors;
+};
+
 const LEGACY_MIGRATION_STATUS_VALUES = [
   "not-started",
   "in-progress",
@@ -402,6 +461,158 @@ const normalizeLegacyImport = (
   } as UserSettingsPayload["migration"] extends { legacyImport?: infer T } ? T : never;
 };
 
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const normalizeDateOnly = (value: unknown, fieldName: string): string | undefined => {
+  const normalized = normalizeOptionalString(value, fieldName);
+
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (
+    !DATE_ONLY_PATTERN.test(normalized) ||
+    Number.isNaN(new Date(`${normalized}T00:00:00Z`).getTime())
+  ) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} must be a YYYY-MM-DD date.`);
+  }
+
+  return normalized;
+};
+
+const normalizeGoalDefinition = (
+  value: unknown,
+  index: number,
+): ReadingGoalPayload => {
+  const fieldName = `goals.definitions[${index}]`;
+  const rawValue = assertObject(value, `${fieldName} must be an object.`);
+  const id = normalizeOptionalString(rawValue.id, `${fieldName}.id`);
+
+  if (!id) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName}.id is required.`);
+  }
+
+  const type = normalizeStringEnum(rawValue.type, `${fieldName}.type`, GOAL_TYPE_VALUES);
+  const period = normalizeStringEnum(rawValue.period, `${fieldName}.period`, GOAL_PERIOD_VALUES);
+
+  if (!type || !period) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} requires a type and period.`);
+  }
+
+  const target = rawValue.target;
+
+  if (typeof target !== "number" || !Number.isInteger(target) || target < 1) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${fieldName}.target must be a whole number of at least 1.`,
+    );
+  }
+
+  const startDate = normalizeDateOnly(rawValue.startDate, `${fieldName}.startDate`);
+  const endDate = normalizeDateOnly(rawValue.endDate, `${fieldName}.endDate`);
+
+  if (period === "custom") {
+    if (!startDate || !endDate) {
+      throw new ApiError(
+        400,
+        "BAD_REQUEST",
+        `${fieldName} needs a startDate and endDate for a custom period.`,
+      );
+    }
+
+    if (endDate < startDate) {
+      throw new ApiError(
+        400,
+        "BAD_REQUEST",
+        `${fieldName}.endDate must not be before its startDate.`,
+      );
+    }
+  }
+
+  return {
+    id,
+    name: normalizeOptionalString(rawValue.name, `${fieldName}.name`),
+    type,
+    period,
+    target,
+    startDate: period === "custom" ? startDate : undefined,
+    endDate: period === "custom" ? endDate : undefined,
+    createdAt: normalizeOptionalString(rawValue.createdAt, `${fieldName}.createdAt`),
+  };
+};
+
+const normalizeGoalDefinitions = (value: unknown): ReadingGoalPayload[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "goals.definitions must be an array.");
+  }
+
+  const definitions = value.map((entry, index) => normalizeGoalDefinition(entry, index));
+
+  if (new Set(definitions.map((definition) => definition.id)).size !== definitions.length) {
+    throw new ApiError(400, "BAD_REQUEST", "goals.definitions ids must be unique.");
+  }
+
+  return definitions;
+};
+
+const normalizeSavedSearch = (value: unknown, index: number): SavedSearchPayload => {
+  const fieldName = `savedSearches[${index}]`;
+  const rawValue = assertObject(value, `${fieldName} must be an object.`);
+  const id = normalizeOptionalString(rawValue.id, `${fieldName}.id`);
+  const name = normalizeOptionalString(rawValue.name, `${fieldName}.name`);
+  const query = normalizeOptionalString(rawValue.query, `${fieldName}.query`);
+
+  if (!id || !name || !query) {
+    throw new ApiError(400, "BAD_REQUEST", `${fieldName} requires an id, name and query.`);
+  }
+
+  if (query.length > MAX_SAVED_SEARCH_QUERY_LENGTH) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `${fieldName}.query must be at most ${MAX_SAVED_SEARCH_QUERY_LENGTH} characters.`,
+    );
+  }
+
+  return {
+    id,
+    name,
+    query,
+    createdAt: normalizeOptionalString(rawValue.createdAt, `${fieldName}.createdAt`),
+  };
+};
+
+const normalizeSavedSearches = (value: unknown): SavedSearchPayload[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "savedSearches must be an array.");
+  }
+
+  if (value.length > MAX_SAVED_SEARCHES) {
+    throw new ApiError(
+      400,
+      "BAD_REQUEST",
+      `savedSearches can hold at most ${MAX_SAVED_SEARCHES} searches.`,
+    );
+  }
+
+  const savedSearches = value.map((entry, index) => normalizeSavedSearch(entry, index));
+
+  if (new Set(savedSearches.map((search) => search.id)).size !== savedSearches.length) {
+    throw new ApiError(400, "BAD_REQUEST", "savedSearches ids must be unique.");
+  }
+
+  return savedSearches;
+};
+
 const normalizeMigration = (
   value: unknown,
 ): UserSettingsPayload["migration"] | undefined => {
@@ -434,6 +645,8 @@ export const validateUpdateUserSettingsPayload = (
     goals: normalizeGoals(rawPayload.goals),
     displayOptions: normalizeDisplayOptions(rawPayload.displayOptions),
     notifications: normalizeNotifications(rawPayload.notifications),
+    savedSearches: normalizeSavedSearches(rawPayload.savedSearches),
+    tagColors: normalizeTagColors(rawPayload.tagColors),
     migration: normalizeMigration(rawPayload.migration),
   };
 };
@@ -14,11 +14,19 @@ jest.mock("@/server/models/user", () => ({
   findUserById: jest.fn(),
 }));
 
+jest.mock("@/server/models/session", () => ({
+  findActiveSessionById: jest.fn(),
+}));
+
 import { verifyAuthToken } from "@/server/lib/auth";
+import { findActiveSessionById } from "@/server/models/session";
 import { findUserById } from "@/server/models/user";
 
 const mockedVerifyAuthToken = verifyAuthToken as jest.MockedFunction<typeof verifyAuthToken>;
 const mockedFindUserById = findUserById as jest.MockedFunction<typeof findUserById>;
+const mockedFindActiveSessionById = findActiveSessionById as jest.MockedFunction<
+  typeof findActiveSessionById
+>;
 
 describe("auth middleware", () => {
   beforeEach(() => {
@@ -115,6 +123,44 @@ describe("auth middleware", () => {
         }),
       ).resolves.toEqual({ sub: "user-1", issuedAt: 200 });
     });
+    it("throws when the device session has been revoked", async () => {
+      mockedVerifyAuthToken.mockReturnValue({ sub: "user-1", issuedAt: 200, sid: "session-1" });
+      mockedFindUserById.mockResolvedValue({
+        _id: "mongo-id" as never,
+        email: "reader@example.com",
+        passwordHash: "hash",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as never);
+      mockedFindActiveSessionById.mockResolvedValue(null);
+
+      await expect(
+        requireAuthenticatedUser({
+          headers: { authorization: "Bearer valid-token" },
+        }),
+      ).rejects.toMatchObject({
+        message: "This device has been signed out. Please sign in again.",
+      });
+      expect(mockedFindActiveSessionById).toHaveBeenCalledWith("user-1", "session-1");
+    });
+
+    it("accepts a token whose device session is still active", async () => {
+      mockedVerifyAuthToken.mockReturnValue({ sub: "user-1", issuedAt: 200, sid: "session-1" });
+      mockedFindUserById.mockResolvedValue({
+        _id: "mongo-id" as never,
+        email: "reader@example.com",
+        passwordHash: "hash",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as never);
+      mockedFindActiveSessionById.mockResolvedValue({ id: "session-1" } as never);
+
+      await expect(
+        requireAuthenticatedUser({
+          headers: { authorization: "Bearer valid-token" },
+        }),
+      ).resolves.toEqual({ sub: "user-1", issuedAt: 200, sid: "session-1" });
+    });
   });
 
   describe("requireAdminUser", () => {
@@ -137,6 +183,28 @@ describe("auth middleware", () => {
       ).rejects.toBeInstanceOf(ForbiddenError);
     });
 
+    it("requires admins to have two-factor authentication on", async () => {
+      mockedVerifyAuthToken.mockReturnValue({ sub: "admin-1", issuedAt: 200 });
+      mockedFindUserById.mockResolvedValue({
+        _id: "mongo-id" as never,
+        id: "admin-1",
+        email: "admin@example.com",
+        passwordHash: "hash",
+        role: "admin",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as never);
+
+      await expect(
+        requireAdminUser({
+          headers: { authorization: "Bearer valid-token" },
+        }),
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        message: "Turn on two-factor authentication in your account settings to use admin tools.",
+      });
+    });
+
     it("returns the user record for an admin", async () => {
       mockedVerifyAuthToken.mockReturnValue({ sub: "admin-1", issuedAt: 200 });
       mockedFindUserById.mockResolvedValue({
@@ -145,6 +213,11 @@ describe("auth middleware", () => {
         email: "admin@example.com",
         passwordHash: "hash",
         role: "admin",
+        twoFactor: {
+          secret: "SECRET",
+          enabledAt: new Date(),
+          recoveryCodeHashes: [],
+        },
         createdAt: new Date(),
         updatedAt: new Date(),
       } as never);
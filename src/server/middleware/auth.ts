@@ -1,6 +1,7 @@
 import { IncomingHttpHeaders } from "http";
 
 import { AuthTokenPayload, verifyAuthToken } from "../lib/auth.js";
+import { findActiveSessionById } from "../models/session.js";
 import { findUserById, UserDocument } from "../models/user.js";
 
 type WrappedHeaderSource = {
@@ -117,6 +118,10 @@ export const requireAuthenticatedUser = async (
     }
   }
 
+  if (authPayload.sid && !(await findActiveSessionById(authPayload.sub, authPayload.sid))) {
+    throw new UnauthorizedError("This device has been signed out. Please sign in again.");
+  }
+
   return authPayload;
 };
 
@@ -134,5 +139,11 @@ export const requireAdminUser = async (
     throw new ForbiddenError();
   }
 
+  if (!user.twoFactor) {
+    throw new ForbiddenError(
+      "Turn on two-factor authentication in your account settings to use admin tools.",
+    );
+  }
+
   return user as UserDocument & { _id: NonNullable<UserDocument["_id"]> };
 };
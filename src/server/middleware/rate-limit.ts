@@ -0,0 +1,96 @@
+import { IncomingHttpHeaders } from "http";
+
+import { RateLimitError } from "../lib/api-response.js";
+import { getRequestIp } from "../lib/session-device.js";
+import {
+  clearAccountLockout,
+  findActiveAccountLockout,
+  recordFailedAccountAttempt,
+} from "../models/account-lockout.js";
+import { consumeRateLimit } from "../models/rate-limit.js";
+
+type LimitedRequest = {
+  headers: IncomingHttpHeaders;
+  socket?: { remoteAddress?: string };
+};
+
+export type RateLimitRule = {
+  /** Prefix for the stored keys; rules with the same name share a budget */
+  name: string;
+  limit: number;
+  windowMs: number;
+};
+
+const describeWait = (retryAfterMs: number): string => {
+  const minutes = Math.ceil(retryAfterMs / 60_000);
+
+  if (minutes <= 1) {
+    return "a minute";
+  }
+
+  if (minutes < 120) {
+    return `${minutes} minutes`;
+  }
+
+  return `${Math.ceil(minutes / 60)} hours`;
+};
+
+/**
+ * Counts the request against a rule and throws once the rule's budget for
+ * the window is spent. Requests are counted per client IP unless a subject
+ * (such as an email address) is given.
+ */
+export const enforceRateLimit = async (
+  request: LimitedRequest,
+  rule: RateLimitRule,
+  options: { subject?: string; now?: Date } = {},
+): Promise<void> => {
+  const subject = options.subject ?? `ip:${getRequestIp(request) || "unknown"}`;
+  const result = await consumeRateLimit(
+    `${rule.name}:${subject}`,
+    rule.limit,
+    rule.windowMs,
+    options.now,
+  );
+
+  if (result.status === "limited") {
+    throw new RateLimitError(
+      result.retryAfterMs,
+      `Too many attempts. Please try again in ${describeWait(result.retryAfterMs)}.`,
+    );
+  }
+};
+
+/**
+ * Refuses sign-in style requests for an email while it is locked out after
+ * repeated failures. Unknown emails lock out the same way, so the response
+ * does not reveal whether an account exists.
+ */
+export const requireAccountNotLocked = async (
+  email: string,
+  now = new Date(),
+): Promise<void> => {
+  const lockout = await findActiveAccountLockout(email, now);
+
+  if (lockout?.lockedUntil) {
+    const retryAfterMs = lockout.lockedUntil.getTime() - now.getTime();
+
+    throw new RateLimitError(
+      retryAfterMs,
+      `Too many failed attempts. Please try again in ${describeWait(retryAfterMs)}.`,
+      "ACCOUNT_LOCKED",
+    );
+  }
+};
+
+export const recordFailedSignIn = async (
+  request: LimitedRequest,
+  email: string,
+  now = new Date(),
+): Promise<void> => {
+  await recordFailedAccountAttempt(email, getRequestIp(request), now);
+};
+
+export const clearFailedSignIns = async (email: string): Promise<void> => {
+  await clearAccountLockout(email);
+};
@@ -0,0 +1,165 @@
+jest.mock("mongodb", () => {
+  class ObjectId {
+    constructor(private readonly value = "65f9a0c0e4b0a1b2c3d4e5f6") {}
+
+    toString() {
+      return this.value;
+    }
+  }
+
+  class MongoServerError extends Error {
+    constructor(readonly code: number) {
+      super(`E${code}`);
+    }
+  }
+
+  return { ObjectId, MongoServerError };
+});
+
+jest.mock("@/server/lib/mongodb", () => ({
+  getMongoDb: jest.fn(),
+}));
+
+import { MongoServerError, ObjectId } from "mongodb";
+
+import { getMongoDb } from "@/server/lib/mongodb";
+import {
+  ADMIN_AUDIT_LOG_GENESIS_HASH,
+  AdminAuditLogDocument,
+  computeAdminAuditLogHash,
+  createAdminAuditLog,
+  verifyAdminAuditLogChain,
+} from "@/server/models/admin-audit-log";
+
+const input = {
+  actorUserId: "admin-1",
+  actorEmail: "admin@example.com",
+  action: "admin.user.promoted" as const,
+  targetUserId: "user-1",
+  targetUserEmail: "reader@example.com",
+  details: { previousRole: "user", nextRole: "admin" },
+};
+
+/** Entries 1 to count, each correctly linked to the one before */
+const buildChain = (count: number): AdminAuditLogDocument[] => {
+  const logs: AdminAuditLogDocument[] = [];
+
+  for (let sequence = 1; sequence <= count; sequence += 1) {
+    const log: AdminAuditLogDocument = {
+      ...input,
+      _id: new ObjectId(`65f9a0c0e4b0a1b2c3d4e5f${sequence}`),
+      createdAt: new Date(`2026-03-0${sequence}T12:00:00.000Z`),
+      sequence,
+      previousHash: logs[logs.length - 1]?.hash ?? ADMIN_AUDIT_LOG_GENESIS_HASH,
+    };
+
+    log.hash = computeAdminAuditLogHash(log);
+    logs.push(log);
+  }
+
+  return logs;
+};
+
+const mockCollection = (logs: AdminAuditLogDocument[] = []) => {
+  const collection = {
+    createIndex: jest.fn().mockResolvedValue("index"),
+    dropIndex: jest.fn().mockResolvedValue(undefined),
+    findOne: jest.fn().mockResolvedValue(logs[logs.length - 1] ?? null),
+    insertOne: jest.fn().mockResolvedValue({ acknowledged: true }),
+    find: jest.fn(() => ({ sort: jest.fn(() => logs) })),
+    countDocuments: jest.fn().mockResolvedValue(0),
+  };
+
+  (getMongoDb as jest.Mock).mockResolvedValue({
+    collection: jest.fn().mockReturnValue(collection),
+    command: jest.fn(),
+  });
+
+  return collection;
+};
+
+describe("admin audit log chain", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.ADMIN_AUDIT_LOG_RETENTION_DAYS;
+  });
+
+  it("links a new entry to the current head of the chain", async () => {
+    const [head] = buildChain(1);
+    const collection = mockCollection([head]);
+
+    const log = await createAdminAuditLog(input);
+
+    expect(log).toMatchObject({ sequence: 2, previousHash: head.hash });
+    expect(log.hash).toBe(computeAdminAuditLogHash(log));
+    expect(collection.insertOne).toHaveBeenCalledWith(log);
+  });
+
+  it("tries again on the new head when another write takes the sequence number", async () => {
+    const [first, second] = buildChain(2);
+    const collection = mockCollection();
+    collection.findOne.mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+    collection.insertOne.mockRejectedValueOnce(new MongoServerError(11000 as never));
+
+    const log = await createAdminAuditLog(input);
+
+    expect(collection.insertOne).toHaveBeenCalledTimes(2);
+    expect(log).toMatchObject({ sequence: 3, previousHash: second.hash });
+  });
+
+  it("hashes the same before storing and after undefined fields come back as null", () => {
+    const [log] = buildChain(1);
+
+    expect(
+      computeAdminAuditLogHash({
+        ...log,
+        targetUserEmail: null as never,
+        details: { ...log.details, note: null },
+      }),
+    ).toBe(
+      computeAdminAuditLogHash({
+        ...log,
+        targetUserEmail: undefined,
+        details: { ...log.details, note: undefined },
+      }),
+    );
+  });
+
+  it("reports an edited entry and a removed one", async () => {
+    const logs = buildChain(5);
+    logs[1] = { ...logs[1], targetUserEmail: "someone-else@example.com" };
+    mockCollection([logs[0], logs[1], logs[2], logs[4]]);
+
+    const result = await verifyAdminAuditLogChain();
+
+    expect(result).toMatchObject({
+      valid: false,
+      checked: 4,
+      firstSequence: 1,
+      lastSequence: 5,
+      prunedBefore: null,
+    });
+    expect(result.breaks).toEqual([
+      { sequence: 2, id: logs[1]._id!.toString(), reason: "hash-mismatch" },
+      {
+        sequence: 5,
+        id: logs[4]._id!.toString(),
+        reason: "missing-entries",
+        missingFrom: 4,
+        missingTo: 4,
+      },
+    ]);
+  });
+
+  it("accepts a chain whose oldest entries were removed by the retention policy", async () => {
+    process.env.ADMIN_AUDIT_LOG_RETENTION_DAYS = "90";
+    mockCollection(buildChain(4).slice(2));
+
+    await expect(verifyAdminAuditLogChain()).resolves.toMatchObject({
+      valid: true,
+      checked: 2,
+      prunedBefore: 3,
+      breaks: [],
+    });
+  });
+});
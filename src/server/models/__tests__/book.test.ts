@@ -0,0 +1,121 @@
+// The mongodb package loads bson as an ES module, which jest can't parse
+jest.mock("mongodb", () => ({
+  MongoServerError: class MongoServerError extends Error {},
+}));
+
+jest.mock("@/server/lib/mongodb", () => ({
+  getMongoDb: jest.fn(),
+}));
+
+import { buildCollectionRulesFilter } from "@/server/models/book";
+
+describe("buildCollectionRulesFilter", () => {
+  const series = [
+    { id: "series-1", name: "Earthsea Cycle" },
+    { id: "series-2", name: "Dune" },
+  ];
+  const now = new Date("2026-03-20T15:00:00.000Z");
+
+  it("requires every rule to match for all and one for any", () => {
+    const conditions = [
+      { field: "status" as const, operator: "is" as const, value: "completed" as const },
+      { field: "status" as const, operator: "isNot" as const, value: "dnf" as const },
+    ];
+
+    expect(buildCollectionRulesFilter({ match: "all", conditions }, series, now)).toEqual({
+      $and: [{ status: "completed" }, { status: { $ne: "dnf" } }],
+    });
+    expect(buildCollectionRulesFilter({ match: "any", conditions }, series, now)).toEqual({
+      $or: [{ status: "completed" }, { status: { $ne: "dnf" } }],
+    });
+  });
+
+  it("matches text anywhere, ignoring case, and escapes it", () => {
+    expect(
+      buildCollectionRulesFilter(
+        {
+          match: "all",
+          conditions: [
+            { field: "author", operator: "contains", value: "le guin" },
+            { field: "genre", operator: "notContains", value: "sci-fi (old)" },
+            { field: "tags", operator: "contains", value: "signed" },
+          ],
+        },
+        series,
+        now,
+      ),
+    ).toEqual({
+      $and: [
+        { author: { $regex: "le guin", $options: "i" } },
+        { genre: { $not: { $regex: "sci-fi \\(old\\)", $options: "i" } } },
+        { tags: { $regex: "signed", $options: "i" } },
+      ],
+    });
+  });
+
+  it("matches series by name, including names kept on older books", () => {
+    const filter = buildCollectionRulesFilter(
+      {
+        match: "any",
+        conditions: [
+          { field: "series", operator: "contains", value: "EARTH" },
+          { field: "series", operator: "notContains", value: "dune" },
+        ],
+      },
+      series,
+      now,
+    );
+
+    expect(filter).toEqual({
+      $or: [
+        {
+          $or: [
+            { seriesId: { $in: ["series-1"] } },
+            { _legacySeriesName: { $regex: "EARTH", $options: "i" } },
+          ],
+        },
+        {
+          $nor: [
+            { seriesId: { $in: ["series-2"] } },
+            { _legacySeriesName: { $regex: "dune", $options: "i" } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("includes both ends of number and date ranges", () => {
+    expect(
+      buildCollectionRulesFilter(
+        {
+          match: "all",
+          conditions: [
+            { field: "rating", operator: "between", min: 4 },
+            { field: "pages", operator: "between", min: 100, max: 300 },
+            { field: "completed", operator: "between", from: "2026-01-01", to: "2026-01-31" },
+            { field: "added", operator: "between", to: "2025-12-31" },
+          ],
+        },
+        series,
+        now,
+      ),
+    ).toEqual({
+      $and: [
+        { rating: { $gte: 4 } },
+        { pageCount: { $gte: 100, $lte: 300 } },
+        { completedDate: { $gte: "2026-01-01", $lt: "2026-02-01" } },
+        { addedDate: { $lt: "2026-01-01" } },
+      ],
+    });
+  });
+
+  it("counts whole days back from now", () => {
+    expect(
+      buildCollectionRulesFilter(
+        { match: "all", conditions: [{ field: "added", operator: "withinDays", days: 30 }] },
+        series,
+        now,
+      ),
+    ).toEqual({ $and: [{ addedDate: { $gte: "2026-02-18" } }] });
+  });
+});
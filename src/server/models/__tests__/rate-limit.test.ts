@@ -0,0 +1,136 @@
+jest.mock("@/server/lib/mongodb", () => ({
+  getMongoDb: jest.fn(),
+}));
+
+import { getMongoDb } from "@/server/lib/mongodb";
+import { getLockoutDurationMs, recordFailedAccountAttempt } from "@/server/models/account-lockout";
+import { consumeRateLimit } from "@/server/models/rate-limit";
+
+const now = new Date("2026-03-20T12:00:00.000Z");
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000);
+
+const mockCollection = (overrides: Record<string, unknown> = {}) => {
+  const cursor = {
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    toArray: jest.fn().mockResolvedValue([]),
+  };
+  const collection = {
+    createIndexes: jest.fn().mockResolvedValue([]),
+    insertOne: jest.fn().mockResolvedValue({ insertedId: "hit-new" }),
+    countDocuments: jest.fn().mockResolvedValue(1),
+    deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    find: jest.fn().mockReturnValue(cursor),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    ...overrides,
+  };
+
+  (getMongoDb as jest.Mock).mockResolvedValue({
+    collection: jest.fn().mockReturnValue(collection),
+  });
+
+  return { collection, cursor };
+};
+
+describe("consumeRateLimit", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("records the hit and counts only the current window", async () => {
+    const { collection } = mockCollection({
+      countDocuments: jest.fn().mockResolvedValue(3),
+    });
+
+    const result = await consumeRateLimit("login:ip:203.0.113.7", 5, 15 * 60_000, now);
+
+    expect(result).toEqual({ status: "allowed", remaining: 2 });
+    expect(collection.insertOne).toHaveBeenCalledWith({
+      key: "login:ip:203.0.113.7",
+      createdAt: now,
+      expiresAt: new Date("2026-03-20T12:15:00.000Z"),
+    });
+    expect(collection.countDocuments).toHaveBeenCalledWith({
+      key: "login:ip:203.0.113.7",
+      createdAt: { $gt: minutesAgo(15) },
+    });
+    expect(collection.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it("takes the hit back and waits for enough older hits to age out", async () => {
+    const { collection, cursor } = mockCollection({
+      countDocuments: jest.fn().mockResolvedValue(7),
+    });
+    cursor.toArray.mockResolvedValue([{ createdAt: minutesAgo(12) }]);
+
+    const result = await consumeRateLimit("login:ip:203.0.113.7", 5, 15 * 60_000, now);
+
+    expect(collection.deleteOne).toHaveBeenCalledWith({ _id: "hit-new" });
+    // Seven hits against a limit of five: the two oldest have to expire
+    expect(cursor.skip).toHaveBeenCalledWith(1);
+    expect(result).toEqual({ status: "limited", retryAfterMs: 3 * 60_000 });
+  });
+});
+
+describe("account lockout", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("backs off exponentially once the threshold is reached, up to a day", () => {
+    expect(getLockoutDurationMs(4)).toBe(0);
+    expect(getLockoutDurationMs(5)).toBe(60_000);
+    expect(getLockoutDurationMs(6)).toBe(2 * 60_000);
+    expect(getLockoutDurationMs(8)).toBe(8 * 60_000);
+    expect(getLockoutDurationMs(40)).toBe(24 * 60 * 60_000);
+  });
+
+  it("locks the account when a failure crosses the threshold", async () => {
+    const { collection } = mockCollection({
+      findOneAndUpdate: jest.fn().mockResolvedValue({
+        email: "reader@example.com",
+        failedAttempts: 6,
+        lastFailedAt: now,
+        createdAt: minutesAgo(30),
+        expiresAt: now,
+      }),
+    });
+
+    const lockout = await recordFailedAccountAttempt("reader@example.com", "203.0.113.7", now);
+
+    expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+      { email: "reader@example.com" },
+      expect.objectContaining({ $inc: { failedAttempts: 1 } }),
+      { upsert: true, returnDocument: "after" },
+    );
+    expect(lockout?.lockedUntil).toEqual(new Date("2026-03-20T12:02:00.000Z"));
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { email: "reader@example.com" },
+      {
+        $set: {
+          lockedUntil: new Date("2026-03-20T12:02:00.000Z"),
+          expiresAt: new Date("2026-03-21T12:02:00.000Z"),
+        },
+      },
+    );
+  });
+
+  it("only counts failures below the threshold", async () => {
+    const { collection } = mockCollection({
+      findOneAndUpdate: jest.fn().mockResolvedValue({
+        email: "reader@example.com",
+        failedAttempts: 2,
+        lastFailedAt: now,
+        createdAt: now,
+        expiresAt: now,
+      }),
+    });
+
+    const lockout = await recordFailedAccountAttempt("reader@example.com", undefined, now);
+
+    expect(lockout?.lockedUntil).toBeUndefined();
+    expect(collection.updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+jest.mock("@/server/lib/mongodb", () => ({
+  getMongoDb: jest.fn(),
+}));
+
+import { createHash } from "node:crypto";
+
+import { getMongoDb } from "@/server/lib/mongodb";
+import { rotateSessionRefreshToken, SessionDocument } from "@/server/models/session";
+
+const hash = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const device = { deviceName: "Firefox on Linux", ip: "203.0.113.7" };
+const now = new Date("2026-03-20T12:00:00.000Z");
+
+const buildSession = (overrides: Partial<SessionDocument> = {}): SessionDocument => ({
+  id: "session-1",
+  userId: "user-1",
+  deviceName: "Firefox on Linux",
+  refreshTokenHash: hash("session-1.current"),
+  rotatedTokenHashes: [hash("session-1.older"), hash("session-1.previous")],
+  createdAt: new Date("2026-03-01T12:00:00.000Z"),
+  lastSeenAt: new Date("2026-03-20T09:00:00.000Z"),
+  lastRotatedAt: new Date("2026-03-20T09:00:00.000Z"),
+  expiresAt: new Date("2026-04-19T09:00:00.000Z"),
+  ...overrides,
+});
+
+const mockCollection = (session: SessionDocument | null) => {
+  const collection = {
+    findOne: jest.fn().mockResolvedValue(session),
+    findOneAndUpdate: jest.fn().mockResolvedValue(session),
+    updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+  };
+
+  (getMongoDb as jest.Mock).mockResolvedValue({
+    collection: jest.fn().mockReturnValue(collection),
+  });
+
+  return collection;
+};
+
+describe("rotateSessionRefreshToken", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("swaps the current token for a new one, remembering the old hash", async () => {
+    const collection = mockCollection(buildSession());
+
+    const result = await rotateSessionRefreshToken("session-1.current", device, now);
+
+    expect(result.status).toBe("rotated");
+    const nextToken = result.status === "rotated" ? result.refreshToken : "";
+    expect(nextToken.startsWith("session-1.")).toBe(true);
+    expect(nextToken).not.toBe("session-1.current");
+
+    const [filter, update] = collection.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({
+      id: "session-1",
+      refreshTokenHash: hash("session-1.current"),
+      revokedAt: { $exists: false },
+    });
+    expect(update.$set).toMatchObject({
+      refreshTokenHash: hash(nextToken),
+      lastSeenAt: now,
+      ip: "203.0.113.7",
+    });
+    expect(update.$push.rotatedTokenHashes.$each).toEqual([hash("session-1.current")]);
+  });
+
+  it("revokes the session when an older token is presented again", async () => {
+    const collection = mockCollection(buildSession());
+
+    const result = await rotateSessionRefreshToken("session-1.older", device, now);
+
+    expect(result.status).toBe("reused");
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { userId: "user-1", id: "session-1", revokedAt: { $exists: false } },
+      { $set: { revokedAt: expect.any(Date), revokedReason: "token-reused" } },
+    );
+  });
+
+  it("lets the token rotated a moment ago through without revoking", async () => {
+    const collection = mockCollection(
+      buildSession({ lastRotatedAt: new Date("2026-03-20T11:59:50.000Z") }),
+    );
+
+    const result = await rotateSessionRefreshToken("session-1.previous", device, now);
+
+    expect(result.status).toBe("superseded");
+    expect(collection.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown, revoked and expired sessions", async () => {
+    mockCollection(null);
+    await expect(rotateSessionRefreshToken("not-a-token", device, now)).resolves.toEqual({
+      status: "invalid",
+    });
+    await expect(rotateSessionRefreshToken("session-9.secret", device, now)).resolves.toEqual({
+      status: "invalid",
+    });
+
+    mockCollection(buildSession({ revokedAt: new Date("2026-03-19T12:00:00.000Z") }));
+    await expect(rotateSessionRefreshToken("session-1.current", device, now)).resolves.toEqual({
+      status: "revoked",
+    });
+
+    mockCollection(buildSession({ expiresAt: new Date("2026-03-20T11:00:00.000Z") }));
+    await expect(rotateSessionRefreshToken("session-1.current", device, now)).resolves.toEqual({
+      status: "expired",
+    });
+  });
+});
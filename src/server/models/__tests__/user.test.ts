@@ -0,0 +1,75 @@
+jest.mock("mongodb", () => ({
+  ObjectId: jest.fn(),
+}));
+
+jest.mock("@/server/lib/mongodb", () => ({
+  getMongoDb: jest.fn(),
+}));
+
+import { ApiError } from "@/server/lib/api-response";
+import { parseUserListQuery } from "@/server/lib/user-query";
+import { buildUserListFilter } from "@/server/models/user";
+
+describe("buildUserListFilter", () => {
+  const now = new Date("2026-03-20T15:00:00.000Z");
+
+  it("matches every user without filters", () => {
+    expect(buildUserListFilter(parseUserListQuery({ limit: "10" }), now)).toEqual({});
+  });
+
+  it("combines search, role, two-factor and date filters", () => {
+    const query = parseUserListQuery({
+      q: "o'brien (admin)",
+      role: "user",
+      twoFactor: "disabled",
+      createdFrom: "2026-01-01",
+      createdTo: "2026-01-31",
+    });
+
+    expect(buildUserListFilter(query, now)).toEqual({
+      $and: [
+        {
+          $or: [
+            { email: { $regex: "o'brien \\(admin\\)", $options: "i" } },
+            { preferredName: { $regex: "o'brien \\(admin\\)", $options: "i" } },
+          ],
+        },
+        { role: { $ne: "admin" } },
+        { twoFactor: { $exists: false } },
+        {
+          createdAt: {
+            $gte: new Date("2026-01-01T00:00:00.000Z"),
+            $lt: new Date("2026-02-01T00:00:00.000Z"),
+          },
+        },
+      ],
+    });
+  });
+
+  it("counts users who never signed in as inactive from when they registered", () => {
+    const cutoff = new Date("2026-02-18T15:00:00.000Z");
+
+    expect(buildUserListFilter(parseUserListQuery({ inactiveDays: "30" }), now)).toEqual({
+      $and: [
+        {
+          $or: [
+            { lastLoginAt: { $lt: cutoff } },
+            { lastLoginAt: { $exists: false }, createdAt: { $lt: cutoff } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("refuses a cursor from a different sort", () => {
+    const cursor = Buffer.from(
+      JSON.stringify(["email", "asc", "reader@example.com", "65f9a0c0e4b0a1b2c3d4e5f6"]),
+    ).toString("base64url");
+
+    expect(() => parseUserListQuery({ cursor, sort: "createdAt" })).toThrow(ApiError);
+    expect(parseUserListQuery({ cursor, sort: "email", order: "asc" }).cursor).toEqual({
+      value: "reader@example.com",
+      id: "65f9a0c0e4b0a1b2c3d4e5f6",
+    });
+  });
+});
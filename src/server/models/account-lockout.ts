@@ -0,0 +1,164 @@
+import { Collection, ObjectId } from "mongodb";
+
+import { getMongoDb } from "../lib/mongodb.js";
+
+export const ACCOUNT_LOCKOUTS_COLLECTION = "account_lockouts";
+/** Failures allowed before the first lockout */
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 1000 * 60;
+const LOCKOUT_MAX_MS = 1000 * 60 * 60 * 24;
+/** A day without failures forgets the history and starts the backoff over */
+const FAILURE_MEMORY_MS = 1000 * 60 * 60 * 24;
+let ensureAccountLockoutIndexesPromise: Promise<string[]> | null = null;
+
+export type AccountLockoutDocument = {
+  _id?: ObjectId;
+  /** Normalised email the sign-in attempts were made for */
+  email: string;
+  failedAttempts: number;
+  lockedUntil?: Date;
+  lastFailedAt: Date;
+  lastFailedIp?: string;
+  createdAt: Date;
+  expiresAt: Date;
+};
+
+export type LockedAccount = {
+  email: string;
+  failedAttempts: number;
+  lockedUntil: string;
+  lastFailedAt: string;
+  lastFailedIp?: string;
+};
+
+export const getAccountLockoutsCollection = async (): Promise<
+  Collection<AccountLockoutDocument>
+> => {
+  const db = await getMongoDb();
+  return db.collection<AccountLockoutDocument>(ACCOUNT_LOCKOUTS_COLLECTION);
+};
+
+export const ensureAccountLockoutIndexes = async (): Promise<void> => {
+  if (!ensureAccountLockoutIndexesPromise) {
+    ensureAccountLockoutIndexesPromise = getAccountLockoutsCollection().then(
+      (collection) =>
+        collection.createIndexes([
+          {
+            key: { email: 1 },
+            name: "account_lockouts_email_unique",
+            unique: true,
+          },
+          {
+            key: { lockedUntil: -1 },
+            name: "account_lockouts_locked_until",
+          },
+          {
+            key: { expiresAt: 1 },
+            name: "account_lockouts_expires_at_ttl",
+            expireAfterSeconds: 0,
+          },
+        ]),
+    );
+  }
+
+  await ensureAccountLockoutIndexesPromise;
+};
+
+/**
+ * How long the account is locked after its nth consecutive failure: nothing
+ * until the threshold, then one minute doubling with every further failure,
+ * up to a day.
+ */
+export const getLockoutDurationMs = (failedAttempts: number): number => {
+  if (failedAttempts < LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+
+  return Math.min(
+    LOCKOUT_BASE_MS * 2 ** (failedAttempts - LOCKOUT_THRESHOLD),
+    LOCKOUT_MAX_MS,
+  );
+};
+
+export const toLockedAccount = (lockout: AccountLockoutDocument): LockedAccount => ({
+  email: lockout.email,
+  failedAttempts: lockout.failedAttempts,
+  lockedUntil: (lockout.lockedUntil || lockout.lastFailedAt).toISOString(),
+  lastFailedAt: lockout.lastFailedAt.toISOString(),
+  lastFailedIp: lockout.lastFailedIp,
+});
+
+export const findActiveAccountLockout = async (
+  email: string,
+  now = new Date(),
+): Promise<AccountLockoutDocument | null> => {
+  const collection = await getAccountLockoutsCollection();
+
+  return collection.findOne({ email, lockedUntil: { $gt: now } });
+};
+
+export const recordFailedAccountAttempt = async (
+  email: string,
+  ip: string | undefined,
+  now = new Date(),
+): Promise<AccountLockoutDocument | null> => {
+  await ensureAccountLockoutIndexes();
+
+  const collection = await getAccountLockoutsCollection();
+  const lockout = await collection.findOneAndUpdate(
+    { email },
+    {
+      $inc: { failedAttempts: 1 },
+      $set: {
+        lastFailedAt: now,
+        lastFailedIp: ip,
+        expiresAt: new Date(now.getTime() + FAILURE_MEMORY_MS),
+      },
+      $setOnInsert: { email, createdAt: now },
+    },
+    { upsert: true, returnDocument: "after" },
+  );
+
+  if (!lockout) {
+    return null;
+  }
+
+  const lockoutMs = getLockoutDurationMs(lockout.failedAttempts);
+
+  if (!lockoutMs) {
+    return lockout;
+  }
+
+  const lockedUntil = new Date(now.getTime() + lockoutMs);
+  await collection.updateOne(
+    { email },
+    {
+      $set: {
+        lockedUntil,
+        // Keep the record at least as long as the lock it holds
+        expiresAt: new Date(lockedUntil.getTime() + FAILURE_MEMORY_MS),
+      },
+    },
+  );
+
+  return { ...lockout, lockedUntil };
+};
+
+export const clearAccountLockout = async (
+  email: string,
+): Promise<AccountLockoutDocument | null> => {
+  const collection = await getAccountLockoutsCollection();
+  return collection.findOneAndDelete({ email });
+};
+
+export const listLockedAccounts = async (
+  now = new Date(),
+): Promise<AccountLockoutDocument[]> => {
+  const collection = await getAccountLockoutsCollection();
+
+  return collection
+    .find({ lockedUntil: { $gt: now } })
+    .sort({ lockedUntil: -1 })
+    .limit(200)
+    .toArray();
+};
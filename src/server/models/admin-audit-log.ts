@@ -1,21 +1,46 @@
-import { Collection, ObjectId } from "mongodb";
+import { createHash } from "node:crypto";
+import { Collection, Filter, FindCursor, MongoServerError, ObjectId } from "mongodb";
 
+import type { AdminAuditLogListQuery } from "../lib/admin-audit-log-query.js";
 import { getMongoDb } from "../lib/mongodb.js";
 
 export const ADMIN_AUDIT_LOGS_COLLECTION = "admin_audit_logs";
-let ensureAdminAuditLogIndexesPromise: Promise<string[]> | null = null;
-
-export type AdminAuditAction =
-  | "admin.user.promoted"
-  | "admin.user.demoted"
-  | "admin.user.password_reset"
-  | "admin.user.deleted"
-  | "admin.announcement.created"
-  | "admin.announcement.updated"
-  | "admin.announcement.deleted"
-  | "admin.announcement.activated"
-  | "admin.announcement.deactivated";
+const ADMIN_AUDIT_LOG_RETENTION_INDEX = "admin_audit_logs_retention";
+let ensureAdminAuditLogIndexesPromise: Promise<unknown> | null = null;
 
+/** What the first chained entry links back to */
+export const ADMIN_AUDIT_LOG_GENESIS_HASH = "0".repeat(64);
+
+// Appends race for the next sequence number; the loser reads the new head
+// and tries again
+const MAX_APPEND_ATTEMPTS = 5;
+const MAX_REPORTED_CHAIN_BREAKS = 100;
+
+export const ADMIN_AUDIT_ACTIONS = [
+  "admin.user.promoted",
+  "admin.user.demoted",
+  "admin.user.password_reset",
+  "admin.user.deleted",
+  "admin.user.two_factor_reset",
+  "admin.user.unlocked",
+  "admin.user.signed_out",
+  "admin.announcement.created",
+  "admin.announcement.updated",
+  "admin.announcement.deleted",
+  "admin.announcement.activated",
+  "admin.announcement.deactivated",
+  "user.two_factor.enabled",
+  "user.two_factor.disabled",
+] as const;
+
+export type AdminAuditAction = (typeof ADMIN_AUDIT_ACTIONS)[number];
+
+/**
+ * Entries written since the log became tamper-evident carry their place in
+ * the chain. Each hash covers the entry and the hash before it, so editing,
+ * removing or reordering an entry breaks every link after it. Older entries
+ * have no chain fields and are listed but not verified.
+ */
 export type AdminAuditLogDocument = {
   _id?: ObjectId;
   actorUserId: string;
@@ -25,6 +50,9 @@ export type AdminAuditLogDocument = {
   targetUserEmail?: string;
   details?: Record<string, unknown>;
   createdAt: Date;
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
 };
 
 export type AdminAuditLogEntry = {
@@ -36,6 +64,41 @@ export type AdminAuditLogEntry = {
   targetUserEmail?: string;
   details?: Record<string, unknown>;
   createdAt: string;
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+};
+
+export type AdminAuditLogPage = {
+  logs: AdminAuditLogDocument[];
+  hasMore: boolean;
+  total: number;
+};
+
+export type AdminAuditLogChainBreak = {
+  sequence: number;
+  id: string;
+  reason: "hash-mismatch" | "previous-hash-mismatch" | "missing-entries";
+  /** Sequence numbers that should sit between this entry and the one before */
+  missingFrom?: number;
+  missingTo?: number;
+};
+
+export type AdminAuditLogVerification = {
+  valid: boolean;
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  /** Entries written before chaining began, which cannot be verified */
+  unchained: number;
+  /**
+   * Set when the oldest chained entries are gone, as the retention policy
+   * removes them. Without a retention policy this is reported as a break.
+   */
+  prunedBefore: number | null;
+  breaks: AdminAuditLogChainBreak[];
+  /** More breaks were found than are listed */
+  truncated: boolean;
 };
 
 export type CreateAdminAuditLogInput = {
@@ -54,6 +117,59 @@ export const getAdminAuditLogsCollection = async (): Promise<
   return db.collection<AdminAuditLogDocument>(ADMIN_AUDIT_LOGS_COLLECTION);
 };
 
+/**
+ * How many days audit entries are kept, from ADMIN_AUDIT_LOG_RETENTION_DAYS.
+ * Unset or zero keeps them forever.
+ */
+export const getAdminAuditLogRetentionDays = (): number | null => {
+  const days = Number(process.env.ADMIN_AUDIT_LOG_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : null;
+};
+
+/**
+ * Creates, changes or drops the TTL index that expires old entries so it
+ * follows the configured retention. A TTL index keeps its options when
+ * created again, so a changed retention is applied with collMod.
+ */
+const ensureAdminAuditLogRetentionIndex = async (
+  collection: Collection<AdminAuditLogDocument>,
+): Promise<void> => {
+  const retentionDays = getAdminAuditLogRetentionDays();
+
+  if (retentionDays === null) {
+    try {
+      await collection.dropIndex(ADMIN_AUDIT_LOG_RETENTION_INDEX);
+    } catch (error) {
+      // IndexNotFound, or NamespaceNotFound before the first entry
+      if (!(error instanceof MongoServerError && (error.code === 27 || error.code === 26))) {
+        throw error;
+      }
+    }
+
+    return;
+  }
+
+  const expireAfterSeconds = retentionDays * 24 * 60 * 60;
+
+  try {
+    await collection.createIndex(
+      { createdAt: 1 },
+      { name: ADMIN_AUDIT_LOG_RETENTION_INDEX, expireAfterSeconds },
+    );
+  } catch (error) {
+    // IndexOptionsConflict: the index exists with another retention
+    if (!(error instanceof MongoServerError && error.code === 85)) {
+      throw error;
+    }
+
+    const db = await getMongoDb();
+    await db.command({
+      collMod: ADMIN_AUDIT_LOGS_COLLECTION,
+      index: { name: ADMIN_AUDIT_LOG_RETENTION_INDEX, expireAfterSeconds },
+    });
+  }
+};
+
 export const ensureAdminAuditLogIndexes = async (): Promise<void> => {
   if (!ensureAdminAuditLogIndexesPromise) {
     ensureAdminAuditLogIndexesPromise = getAdminAuditLogsCollection().then(
@@ -63,6 +179,10 @@ export const ensureAdminAuditLogIndexes = async (): Promise<void> => {
             { createdAt: -1 },
             { name: "admin_audit_logs_created_at_desc" },
           ),
+          collection.createIndex(
+            { createdAt: -1, _id: -1 },
+            { name: "admin_audit_logs_created_at_id" },
+          ),
           collection.createIndex(
             { actorUserId: 1, createdAt: -1 },
             { name: "admin_audit_logs_actor_created_at" },
@@ -71,6 +191,19 @@ export const ensureAdminAuditLogIndexes = async (): Promise<void> => {
             { targetUserId: 1, createdAt: -1 },
             { name: "admin_audit_logs_target_created_at" },
           ),
+          collection.createIndex(
+            { action: 1, createdAt: -1 },
+            { name: "admin_audit_logs_action_created_at" },
+          ),
+          collection.createIndex(
+            { sequence: 1 },
+            {
+              name: "admin_audit_logs_sequence",
+              unique: true,
+              partialFilterExpression: { sequence: { $exists: true } },
+            },
+          ),
+          ensureAdminAuditLogRetentionIndex(collection),
         ]),
     );
   }
@@ -78,28 +211,93 @@ export const ensureAdminAuditLogIndexes = async (): Promise<void> => {
   await ensureAdminAuditLogIndexesPromise;
 };
 
+/**
+ * Serializes a value with object keys in sorted order and absent fields left
+ * out, so an entry hashes the same before it is stored and after it is read
+ * back (the driver stores undefined fields as null).
+ */
+const toCanonicalJson = (value: unknown): string => {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => toCanonicalJson(item ?? null)).join(",")}]`;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    if (value instanceof ObjectId) {
+      return JSON.stringify(value.toString());
+    }
+
+    const fields = Object.entries(value)
+      .filter(([, fieldValue]) => fieldValue !== undefined && fieldValue !== null)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0))
+      .map(([key, fieldValue]) => `${JSON.stringify(key)}:${toCanonicalJson(fieldValue)}`);
+
+    return `{${fields.join(",")}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+};
+
+export const computeAdminAuditLogHash = (log: AdminAuditLogDocument): string => {
+  return createHash("sha256")
+    .update(
+      toCanonicalJson({
+        id: log._id?.toString(),
+        sequence: log.sequence,
+        previousHash: log.previousHash,
+        actorUserId: log.actorUserId,
+        actorEmail: log.actorEmail,
+        action: log.action,
+        targetUserId: log.targetUserId,
+        targetUserEmail: log.targetUserEmail,
+        details: log.details,
+        createdAt: log.createdAt,
+      }),
+    )
+    .digest("hex");
+};
+
 export const createAdminAuditLog = async (
   input: CreateAdminAuditLogInput,
 ): Promise<AdminAuditLogDocument> => {
   await ensureAdminAuditLogIndexes();
 
   const collection = await getAdminAuditLogsCollection();
-  const document: AdminAuditLogDocument = {
-    actorUserId: input.actorUserId,
-    actorEmail: input.actorEmail,
-    action: input.action,
-    targetUserId: input.targetUserId,
-    targetUserEmail: input.targetUserEmail,
-    details: input.details,
-    createdAt: new Date(),
-  };
 
-  const result = await collection.insertOne(document);
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt += 1) {
+    const head = await collection.findOne(
+      { sequence: { $exists: true } },
+      { sort: { sequence: -1 }, projection: { sequence: 1, hash: 1 } },
+    );
+    const document: AdminAuditLogDocument = {
+      _id: new ObjectId(),
+      actorUserId: input.actorUserId,
+      actorEmail: input.actorEmail,
+      action: input.action,
+      targetUserId: input.targetUserId,
+      targetUserEmail: input.targetUserEmail,
+      details: input.details,
+      createdAt: new Date(),
+      sequence: (head?.sequence ?? 0) + 1,
+      previousHash: head?.hash ?? ADMIN_AUDIT_LOG_GENESIS_HASH,
+    };
+
+    document.hash = computeAdminAuditLogHash(document);
 
-  return {
-    ...document,
-    _id: result.insertedId,
-  };
+    try {
+      await collection.insertOne(document);
+      return document;
+    } catch (error) {
+      if (!(error instanceof MongoServerError && error.code === 11000)) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("Could not append to the admin audit log; too many concurrent writes.");
 };
 
 export const listAdminAuditLogs = async (
@@ -111,6 +309,173 @@ export const listAdminAuditLogs = async (
     .toArray();
 };
 
+export const buildAdminAuditLogFilter = (
+  query: Omit<AdminAuditLogListQuery, "limit" | "cursor">,
+): Filter<AdminAuditLogDocument> => {
+  const conditions: Filter<AdminAuditLogDocument>[] = [];
+
+  if (query.actions) {
+    conditions.push({ action: { $in: query.actions } });
+  }
+
+  // Actors and targets are matched by id or by email, which is kept even
+  // after the account is deleted
+  if (query.actor) {
+    conditions.push({
+      $or: [{ actorUserId: query.actor }, { actorEmail: query.actor.toLowerCase() }],
+    });
+  }
+
+  if (query.target) {
+    conditions.push({
+      $or: [{ targetUserId: query.target }, { targetUserEmail: query.target.toLowerCase() }],
+    });
+  }
+
+  if (query.created) {
+    conditions.push({
+      createdAt: {
+        ...(query.created.from ? { $gte: query.created.from } : {}),
+        ...(query.created.before ? { $lt: query.created.before } : {}),
+      },
+    });
+  }
+
+  return conditions.length > 0 ? { $and: conditions } : {};
+};
+
+/**
+ * A page of audit entries, newest first. The id breaks ties between entries
+ * written in the same millisecond.
+ */
+export const listAdminAuditLogsPage = async (
+  query: AdminAuditLogListQuery,
+): Promise<AdminAuditLogPage> => {
+  await ensureAdminAuditLogIndexes();
+
+  const collection = await getAdminAuditLogsCollection();
+  const filter = buildAdminAuditLogFilter(query);
+  const pageFilter: Filter<AdminAuditLogDocument> = query.cursor
+    ? {
+        $and: [
+          filter,
+          {
+            $or: [
+              { createdAt: { $lt: query.cursor.createdAt } },
+              {
+                createdAt: query.cursor.createdAt,
+                _id: { $lt: new ObjectId(query.cursor.id) },
+              },
+            ],
+          },
+        ],
+      }
+    : filter;
+  const [logs, total] = await Promise.all([
+    collection
+      .find(pageFilter, { sort: { createdAt: -1, _id: -1 }, limit: query.limit + 1 })
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+
+  return {
+    logs: logs.slice(0, query.limit),
+    hasMore: logs.length > query.limit,
+    total,
+  };
+};
+
+/** Every matching entry, oldest first, for streaming an export */
+export const findAdminAuditLogs = async (
+  query: Omit<AdminAuditLogListQuery, "limit" | "cursor">,
+): Promise<FindCursor<AdminAuditLogDocument>> => {
+  const collection = await getAdminAuditLogsCollection();
+  return collection.find(buildAdminAuditLogFilter(query), { sort: { createdAt: 1, _id: 1 } });
+};
+
+/**
+ * Walks the chain in sequence order, recomputing each hash and checking it
+ * links to the entry before. A gap at the start is expected once retention
+ * has removed the oldest entries.
+ */
+export const verifyAdminAuditLogChain = async (): Promise<AdminAuditLogVerification> => {
+  const collection = await getAdminAuditLogsCollection();
+  const retentionDays = getAdminAuditLogRetentionDays();
+  const breaks: AdminAuditLogChainBreak[] = [];
+  let truncated = false;
+  let checked = 0;
+  let firstSequence: number | null = null;
+  let previous: AdminAuditLogDocument | null = null;
+  let prunedBefore: number | null = null;
+
+  const reportBreak = (chainBreak: AdminAuditLogChainBreak) => {
+    if (breaks.length < MAX_REPORTED_CHAIN_BREAKS) {
+      breaks.push(chainBreak);
+    } else {
+      truncated = true;
+    }
+  };
+
+  const cursor = collection
+    .find({ sequence: { $exists: true } })
+    .sort({ sequence: 1 });
+
+  for await (const log of cursor) {
+    const sequence = log.sequence!;
+    const id = log._id?.toString() ?? "";
+
+    if (previous === null) {
+      firstSequence = sequence;
+
+      if (sequence > 1) {
+        if (retentionDays === null) {
+          reportBreak({
+            sequence,
+            id,
+            reason: "missing-entries",
+            missingFrom: 1,
+            missingTo: sequence - 1,
+          });
+        } else {
+          prunedBefore = sequence;
+        }
+      } else if (log.previousHash !== ADMIN_AUDIT_LOG_GENESIS_HASH) {
+        reportBreak({ sequence, id, reason: "previous-hash-mismatch" });
+      }
+    } else if (sequence !== previous.sequence! + 1) {
+      reportBreak({
+        sequence,
+        id,
+        reason: "missing-entries",
+        missingFrom: previous.sequence! + 1,
+        missingTo: sequence - 1,
+      });
+    } else if (log.previousHash !== previous.hash) {
+      reportBreak({ sequence, id, reason: "previous-hash-mismatch" });
+    }
+
+    if (computeAdminAuditLogHash(log) !== log.hash) {
+      reportBreak({ sequence, id, reason: "hash-mismatch" });
+    }
+
+    previous = log;
+    checked += 1;
+  }
+
+  const unchained = await collection.countDocuments({ sequence: { $exists: false } });
+
+  return {
+    valid: breaks.length === 0 && !truncated,
+    checked,
+    firstSequence,
+    lastSequence: previous?.sequence ?? null,
+    unchained,
+    prunedBefore,
+    breaks,
+    truncated,
+  };
+};
+
 export const toAdminAuditLogEntry = (
   log: AdminAuditLogDocument,
 ): AdminAuditLogEntry => {
@@ -127,5 +492,8 @@ export const toAdminAuditLogEntry = (
     targetUserEmail: log.targetUserEmail,
     details: log.details,
     createdAt: log.createdAt.toISOString(),
+    sequence: log.sequence,
+    previousHash: log.previousHash,
+    hash: log.hash,
   };
 };
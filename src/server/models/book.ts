@@ -1,30 +1,128 @@
-import { Collection } from "mongodb";
+import { Collection, Filter, MongoServerError, Sort } from "mongodb";
 
 import { BookPayload } from "../lib/book-payload.js";
+import { CollectionRule, CollectionRules } from "../lib/collection-payload.js";
+import { BOOK_TEXT_WEIGHTS } from "../lib/search.js";
+import {
+  BookDateRange,
+  BookListCursor,
+  BookListQuery,
+  BookSortField,
+  BookSortOrder,
+} from "../lib/book-query.js";
 import { getMongoDb } from "../lib/mongodb.js";
+import { revisionFilter } from "../lib/revision.js";
+import { recordSyncTombstones } from "./sync-tombstone.js";
 
 export const BOOKS_COLLECTION = "books";
 
 export type BookDocument = BookPayload & {
   userId: string;
+  /** Bumped on every write; missing on books saved before it was tracked */
+  revision?: number;
   createdAt: Date;
   updatedAt: Date;
 };
 
-let ensureBookIndexesPromise: Promise<string> | null = null;
+let ensureBookIndexesPromise: Promise<string[]> | null = null;
+
+// The text index before tags were searched; replaced by BOOKS_TEXT_INDEX
+const LEGACY_BOOKS_TEXT_INDEX = "books_text";
+const BOOKS_TEXT_INDEX = "books_text_tags";
 
 export const getBooksCollection = async (): Promise<Collection<BookDocument>> => {
   const db = await getMongoDb();
   return db.collection<BookDocument>(BOOKS_COLLECTION);
 };
 
+/**
+ * A collection can only have one text index, so the one without tags is
+ * dropped before the current one is created
+ */
+const ensureBookTextIndex = async (
+  collection: Collection<BookDocument>,
+): Promise<string> => {
+  try {
+    await collection.dropIndex(LEGACY_BOOKS_TEXT_INDEX);
+  } catch (error) {
+    // IndexNotFound, or NamespaceNotFound before the first book
+    if (!(error instanceof MongoServerError && (error.code === 27 || error.code === 26))) {
+      throw error;
+    }
+  }
+
+  return collection.createIndex(
+    {
+      userId: 1,
+      title: "text",
+      author: "text",
+      genre: "text",
+      tags: "text",
+      description: "text",
+      notes: "text",
+    },
+    { name: BOOKS_TEXT_INDEX, weights: BOOK_TEXT_WEIGHTS },
+  );
+};
+
 export const ensureBookIndexes = async (): Promise<void> => {
   if (!ensureBookIndexesPromise) {
     ensureBookIndexesPromise = getBooksCollection().then((collection) =>
-      collection.createIndex(
-        { userId: 1, id: 1 },
-        { unique: true, name: "books_user_id_unique" },
-      ),
+      Promise.all([
+        collection.createIndex(
+          { userId: 1, id: 1 },
+          { unique: true, name: "books_user_id_unique" },
+        ),
+        collection.createIndex(
+          { userId: 1, updatedAt: 1 },
+          { name: "books_user_updated_at" },
+        ),
+        collection.createIndex(
+          { userId: 1, addedDate: -1, id: -1 },
+          { name: "books_user_added_date" },
+        ),
+        collection.createIndex(
+          { userId: 1, completedDate: -1, id: -1 },
+          { name: "books_user_completed_date" },
+        ),
+        collection.createIndex(
+          { userId: 1, title: 1, id: 1 },
+          { name: "books_user_title" },
+        ),
+        collection.createIndex(
+          { userId: 1, author: 1, id: 1 },
+          { name: "books_user_author" },
+        ),
+        collection.createIndex(
+          { userId: 1, rating: -1, id: -1 },
+          { name: "books_user_rating" },
+        ),
+        collection.createIndex(
+          { userId: 1, status: 1, addedDate: -1 },
+          { name: "books_user_status" },
+        ),
+        collection.createIndex(
+          { userId: 1, genre: 1 },
+          { name: "books_user_genre" },
+        ),
+        collection.createIndex(
+          { userId: 1, seriesId: 1 },
+          { name: "books_user_series" },
+        ),
+        collection.createIndex(
+          { userId: 1, collectionIds: 1 },
+          { name: "books_user_collections" },
+        ),
+        collection.createIndex(
+          { userId: 1, tags: 1 },
+          { name: "books_user_tags" },
+        ),
+        collection.createIndex(
+          { userId: 1, "copies.format": 1 },
+          { name: "books_user_copy_formats" },
+        ),
+        ensureBookTextIndex(collection),
+      ]),
     );
   }
 
@@ -34,6 +132,7 @@ export const ensureBookIndexes = async (): Promise<void> => {
 export const toPublicBook = (
   document: BookDocument,
 ): BookPayload & {
+  revision: number;
   createdAt: string;
   updatedAt: string;
 } => {
@@ -57,16 +156,20 @@ export const toPublicBook = (
     rating: document.rating,
     notes: document.notes,
     progress: document.progress,
+    readThroughs: document.readThroughs,
     isPartOfSeries: document.isPartOfSeries,
     seriesId: document.seriesId,
     volumeNumber: document.volumeNumber,
     seriesPosition: document.seriesPosition,
     collectionIds: document.collectionIds,
+    tags: document.tags,
+    copies: document.copies,
     _legacySeriesName: document._legacySeriesName,
     _legacyNextBookTitle: document._legacyNextBookTitle,
     _legacyNextBookExpectedYear: document._legacyNextBookExpectedYear,
     spineColor: document.spineColor,
     addedDate: document.addedDate,
+    revision: document.revision ?? 0,
     createdAt: document.createdAt.toISOString(),
     updatedAt: document.updatedAt.toISOString(),
   };
@@ -83,6 +186,233 @@ export const listBooksByUserId = async (
     .toArray();
 };
 
+export type BookPage = {
+  books: BookDocument[];
+  hasMore: boolean;
+  /** Books matching the filters across all pages */
+  total: number;
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const containsText = (value: string) => ({
+  $regex: escapeRegExp(value),
+  $options: "i",
+});
+
+const dateRangeFilter = (range: BookDateRange) => ({
+  ...(range.from ? { $gte: range.from } : {}),
+  ...(range.before ? { $lt: range.before } : {}),
+});
+
+const buildBookListFilter = (
+  userId: string,
+  query: BookListQuery,
+): Filter<BookDocument> => {
+  const filter: Filter<BookDocument> = { userId };
+
+  if (query.statuses) {
+    filter.status = { $in: query.statuses };
+  }
+
+  if (query.genres) {
+    // Matches a book whose genre is one of these or whose genre list has one
+    filter.genre = { $in: query.genres };
+  }
+
+  if (query.tags) {
+    filter.tags = { $in: query.tags };
+  }
+
+  if (query.formats) {
+    // Matches a book with a copy in any of these formats
+    filter["copies.format"] = { $in: query.formats };
+  }
+
+  if (query.author) {
+    filter.author = containsText(query.author);
+  }
+
+  if (query.seriesId) {
+    filter.seriesId = query.seriesId;
+  }
+
+  if (query.collectionId) {
+    filter.collectionIds = query.collectionId;
+  }
+
+  if (query.minRating !== undefined || query.maxRating !== undefined) {
+    filter.rating = {
+      ...(query.minRating !== undefined ? { $gte: query.minRating } : {}),
+      ...(query.maxRating !== undefined ? { $lte: query.maxRating } : {}),
+    };
+  }
+
+  if (query.added) {
+    filter.addedDate = dateRangeFilter(query.added);
+  }
+
+  if (query.completed) {
+    filter.completedDate = dateRangeFilter(query.completed);
+  }
+
+  if (query.search) {
+    const text = containsText(query.search);
+    filter.$or = [
+      { title: text },
+      { author: text },
+      { description: text },
+      { notes: text },
+      { isbn10: text },
+      { isbn13: text },
+    ];
+  }
+
+  return filter;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/** Series ids whose name contains the text, ignoring case */
+const findSeriesIds = (series: { id: string; name: string }[], value: string): string[] => {
+  const needle = value.toLowerCase();
+  return series.filter((entry) => entry.name.toLowerCase().includes(needle)).map((entry) => entry.id);
+};
+
+const buildCollectionRuleFilter = (
+  rule: CollectionRule,
+  series: { id: string; name: string }[],
+  now: Date,
+): Filter<BookDocument> => {
+  switch (rule.field) {
+    case "status":
+      return { status: rule.operator === "is" ? rule.value : { $ne: rule.value } };
+    case "genre":
+    case "author":
+    case "tags": {
+      const text = containsText(rule.value);
+      return { [rule.field]: rule.operator === "contains" ? text : { $not: text } };
+    }
+    case "series": {
+      // Books from before series were stored separately only have a name
+      const matches: Filter<BookDocument>[] = [
+        { seriesId: { $in: findSeriesIds(series, rule.value) } },
+        { _legacySeriesName: containsText(rule.value) },
+      ];
+      return rule.operator === "contains" ? { $or: matches } : { $nor: matches };
+    }
+    case "rating":
+    case "pages":
+      return {
+        [rule.field === "pages" ? "pageCount" : "rating"]: {
+          ...(rule.min !== undefined ? { $gte: rule.min } : {}),
+          ...(rule.max !== undefined ? { $lte: rule.max } : {}),
+        },
+      };
+    case "added":
+    case "completed": {
+      const field = rule.field === "added" ? "addedDate" : "completedDate";
+
+      if (rule.operator === "withinDays") {
+        return { [field]: { $gte: toDay(new Date(now.getTime() - rule.days * DAY_MS)) } };
+      }
+
+      return {
+        [field]: dateRangeFilter({
+          from: rule.from,
+          before: rule.to
+            ? toDay(new Date(new Date(`${rule.to}T00:00:00Z`).getTime() + DAY_MS))
+            : undefined,
+        }),
+      };
+    }
+  }
+};
+
+/**
+ * Books matching a smart collection's rules. Series rules match by the
+ * names of the given series; withinDays counts whole days back from now.
+ */
+export const buildCollectionRulesFilter = (
+  rules: CollectionRules,
+  series: { id: string; name: string }[],
+  now: Date,
+): Filter<BookDocument> => {
+  const conditions = rules.conditions.map((rule) => buildCollectionRuleFilter(rule, series, now));
+  return rules.match === "any" ? { $or: conditions } : { $and: conditions };
+};
+
+/**
+ * Books after the cursor in page order. Books without the sort field sort
+ * first ascending and last descending, as Mongo orders missing values.
+ */
+const buildCursorFilter = (
+  sort: BookSortField,
+  order: BookSortOrder,
+  cursor: BookListCursor,
+): Filter<BookDocument> => {
+  const after = order === "asc" ? "$gt" : "$lt";
+  const sameValueLaterId = { [sort]: cursor.value, id: { [after]: cursor.id } };
+
+  if (cursor.value === null) {
+    return (
+      order === "asc"
+        ? { $or: [sameValueLaterId, { [sort]: { $ne: null } }] }
+        : sameValueLaterId
+    ) as Filter<BookDocument>;
+  }
+
+  const laterValue = { [sort]: { [after]: cursor.value } };
+
+  return {
+    $or:
+      order === "asc"
+        ? [laterValue, sameValueLaterId]
+        : [laterValue, sameValueLaterId, { [sort]: null }],
+  } as Filter<BookDocument>;
+};
+
+/**
+ * One page of a user's books, filtered and sorted as asked. Ties are broken
+ * by id so every book appears on exactly one page. A rules filter, from
+ * buildCollectionRulesFilter, narrows the books further.
+ */
+export const listBooksPage = async (
+  userId: string,
+  query: BookListQuery,
+  rulesFilter?: Filter<BookDocument>,
+): Promise<BookPage> => {
+  await ensureBookIndexes();
+
+  const booksCollection = await getBooksCollection();
+  const listFilter = buildBookListFilter(userId, query);
+  const filter = rulesFilter ? { $and: [listFilter, rulesFilter] } : listFilter;
+  const direction = query.order === "asc" ? 1 : -1;
+  const sort: Sort = { [query.sort]: direction, id: direction };
+
+  const [books, total] = await Promise.all([
+    booksCollection
+      .find(
+        query.cursor
+          ? { $and: [filter, buildCursorFilter(query.sort, query.order, query.cursor)] }
+          : filter,
+      )
+      .sort(sort)
+      .limit(query.limit + 1)
+      .toArray(),
+    booksCollection.countDocuments(filter),
+  ]);
+
+  return {
+    books: books.slice(0, query.limit),
+    hasMore: books.length > query.limit,
+    total,
+  };
+};
+
 export const findBookById = async (
   userId: string,
   id: string,
@@ -102,6 +432,7 @@ export const insertBook = async (
   const bookDocument: BookDocument = {
     ...payload,
     userId,
+    revision: 1,
     createdAt: now,
     updatedAt: now,
   };
@@ -110,21 +441,27 @@ export const insertBook = async (
   return bookDocument;
 };
 
+/**
+ * Update a book. With expectedRevision, only a book still at that revision is
+ * updated; null is returned for a missing or changed book.
+ */
 export const updateBook = async (
   userId: string,
   id: string,
   updates: Partial<BookPayload>,
+  expectedRevision?: number,
 ): Promise<BookDocument | null> => {
   const booksCollection = await getBooksCollection();
   const now = new Date();
 
   const result = await booksCollection.findOneAndUpdate(
-    { userId, id },
+    { userId, id, ...revisionFilter(expectedRevision) },
     {
       $set: {
         ...updates,
         updatedAt: now,
       },
+      $inc: { revision: 1 },
     },
     {
       returnDocument: "after",
@@ -140,5 +477,131 @@ export const deleteBook = async (
 ): Promise<boolean> => {
   const booksCollection = await getBooksCollection();
   const result = await booksCollection.deleteOne({ userId, id });
+
+  if (result.deletedCount === 1) {
+    await recordSyncTombstones(userId, "books", [id]);
+  }
+
   return result.deletedCount === 1;
 };
+
+export const findBooksByIds = async (
+  userId: string,
+  ids: string[],
+): Promise<BookDocument[]> => {
+  const booksCollection = await getBooksCollection();
+  return booksCollection.find({ userId, id: { $in: ids } }).toArray();
+};
+
+/**
+ * Apply a set of per-book updates in one round trip and return the updated
+ * documents in the order of the given ids
+ */
+export const updateBooks = async (
+  userId: string,
+  updatesById: Record<string, Partial<BookPayload>>,
+): Promise<BookDocument[]> => {
+  const ids = Object.keys(updatesById);
+
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const booksCollection = await getBooksCollection();
+  const now = new Date();
+
+  await booksCollection.bulkWrite(
+    ids.map((id) => ({
+      updateOne: {
+        filter: { userId, id },
+        update: { $set: { ...updatesById[id], updatedAt: now }, $inc: { revision: 1 } },
+      },
+    })),
+    { ordered: false },
+  );
+
+  const books = await findBooksByIds(userId, ids);
+  const booksById = new Map(books.map((book) => [book.id, book]));
+
+  return ids
+    .map((id) => booksById.get(id))
+    .filter((book): book is BookDocument => Boolean(book));
+};
+
+export const deleteBooks = async (
+  userId: string,
+  ids: string[],
+): Promise<number> => {
+  const booksCollection = await getBooksCollection();
+  const result = await booksCollection.deleteMany({ userId, id: { $in: ids } });
+
+  if (result.deletedCount > 0) {
+    await recordSyncTombstones(userId, "books", ids);
+  }
+
+  return result.deletedCount;
+};
+
+/**
+ * Books added or changed after a point in time, for sync clients
+ */
+export const listBooksUpdatedSince = async (
+  userId: string,
+  since: Date,
+): Promise<BookDocument[]> => {
+  const booksCollection = await getBooksCollection();
+  return booksCollection.find({ userId, updatedAt: { $gt: since } }).toArray();
+};
+
+export type ScoredBookDocument = BookDocument & { score: number };
+
+/**
+ * Books whose own fields match a text search, best first. Scores follow the
+ * field weights of the text index.
+ */
+export const searchBooksByText = async (
+  userId: string,
+  search: string,
+  options: { caseSensitive: boolean; limit: number },
+): Promise<ScoredBookDocument[]> => {
+  await ensureBookIndexes();
+
+  const booksCollection = await getBooksCollection();
+
+  return booksCollection
+    .find<ScoredBookDocument>(
+      { userId, $text: { $search: search, $caseSensitive: options.caseSensitive } },
+      { projection: { score: { $meta: "textScore" } } },
+    )
+    .sort({ score: { $meta: "textScore" } })
+    .limit(options.limit)
+    .toArray();
+};
+
+/**
+ * Books in any of the given series or collections, whether the link is kept
+ * on the book or in the series' or collection's book list
+ */
+export const listBooksInSeriesOrCollections = async (
+  userId: string,
+  links: { seriesIds: string[]; collectionIds: string[]; bookIds: string[] },
+  limit: number,
+): Promise<BookDocument[]> => {
+  if (!links.seriesIds.length && !links.collectionIds.length && !links.bookIds.length) {
+    return [];
+  }
+
+  const booksCollection = await getBooksCollection();
+
+  return booksCollection
+    .find({
+      userId,
+      $or: [
+        { seriesId: { $in: links.seriesIds } },
+        { collectionIds: { $in: links.collectionIds } },
+        { id: { $in: links.bookIds } },
+      ],
+    })
+    .limit(limit)
+    .toArray();
+};
@@ -1,7 +1,10 @@
 import { Collection } from "mongodb";
 
 import { CollectionPayload } from "../lib/collection-payload.js";
+import { remapMergedBookIds } from "../lib/book-merge.js";
 import { getMongoDb } from "../lib/mongodb.js";
+import { revisionFilter } from "../lib/revision.js";
+import { recordSyncTombstones } from "./sync-tombstone.js";
 
 export const COLLECTIONS_COLLECTION = "collections";
 
@@ -9,9 +12,13 @@ export type CollectionDocument = CollectionPayload & {
   userId: string;
   createdAtDate: Date;
   updatedAtDate: Date;
+  /** Server time of the last write; updatedAt comes from the client */
+  modifiedAt?: Date;
+  /** Bumped on every write; missing on collections saved before it was tracked */
+  revision?: number;
 };
 
-let ensureCollectionIndexesPromise: Promise<string> | null = null;
+let ensureCollectionIndexesPromise: Promise<string[]> | null = null;
 
 export const getCollectionsCollection = async (): Promise<Collection<CollectionDocument>> => {
   const db = await getMongoDb();
@@ -21,25 +28,39 @@ export const getCollectionsCollection = async (): Promise<Collection<CollectionD
 export const ensureCollectionIndexes = async (): Promise<void> => {
   if (!ensureCollectionIndexesPromise) {
     ensureCollectionIndexesPromise = getCollectionsCollection().then((collection) =>
-      collection.createIndex(
-        { userId: 1, id: 1 },
-        { unique: true, name: "collections_user_id_unique" },
-      ),
+      Promise.all([
+        collection.createIndex(
+          { userId: 1, id: 1 },
+          { unique: true, name: "collections_user_id_unique" },
+        ),
+        collection.createIndex(
+          { userId: 1, modifiedAt: 1 },
+          { name: "collections_user_modified_at" },
+        ),
+        collection.createIndex(
+          { userId: 1, name: "text" },
+          { name: "collections_name_text" },
+        ),
+      ]),
     );
   }
 
   await ensureCollectionIndexesPromise;
 };
 
-export const toPublicCollection = (document: CollectionDocument): CollectionPayload => ({
+export const toPublicCollection = (
+  document: CollectionDocument,
+): CollectionPayload & { revision: number } => ({
   id: document.id,
   name: document.name,
   description: document.description,
   bookIds: document.bookIds,
+  rules: document.rules ?? null,
   color: document.color,
   imageUrl: document.imageUrl,
   createdAt: document.createdAt,
   updatedAt: document.updatedAt,
+  revision: document.revision ?? 0,
 });
 
 export const listCollectionsByUserId = async (
@@ -73,29 +94,38 @@ export const insertCollection = async (
     userId,
     createdAtDate: new Date(payload.createdAt),
     updatedAtDate: new Date(payload.updatedAt),
+    modifiedAt: new Date(),
+    revision: 1,
   };
 
   await collectionsCollection.insertOne(collectionDocument);
   return collectionDocument;
 };
 
+/**
+ * Update a collection. With expectedRevision, only a collection still at that
+ * revision is updated; null is returned for a missing or changed collection.
+ */
 export const updateCollection = async (
   userId: string,
   id: string,
   updates: Partial<CollectionPayload>,
+  expectedRevision?: number,
 ): Promise<CollectionDocument | null> => {
   const collectionsCollection = await getCollectionsCollection();
   const updatedAt = updates.updatedAt || new Date().toISOString();
 
   return collectionsCollection.findOneAndUpdate(
-    { userId, id },
+    { userId, id, ...revisionFilter(expectedRevision) },
     {
       $set: {
         ...updates,
         updatedAt,
         updatedAtDate: new Date(updatedAt),
+        modifiedAt: new Date(),
         ...(updates.createdAt ? { createdAtDate: new Date(updates.createdAt) } : {}),
       },
+      $inc: { revision: 1 },
     },
     {
       returnDocument: "after",
@@ -109,5 +139,80 @@ export const deleteCollection = async (
 ): Promise<boolean> => {
   const collectionsCollection = await getCollectionsCollection();
   const result = await collectionsCollection.deleteOne({ userId, id });
+
+  if (result.deletedCount === 1) {
+    await recordSyncTombstones(userId, "collections", [id]);
+  }
+
   return result.deletedCount === 1;
 };
+
+/**
+ * Collections added or changed after a point in time, for sync clients
+ */
+export const listCollectionsModifiedSince = async (
+  userId: string,
+  since: Date,
+): Promise<CollectionDocument[]> => {
+  const collectionsCollection = await getCollectionsCollection();
+  return collectionsCollection.find({ userId, modifiedAt: { $gt: since } }).toArray();
+};
+
+/**
+ * Point collections at the survivor of a book merge. Collections listed on
+ * the merged book keep it; every other collection drops all of the merged ids.
+ */
+export const remapCollectionBookReferences = async (
+  userId: string,
+  mergedIds: string[],
+  targetId: string,
+  keepCollectionIds: string[] = [],
+): Promise<void> => {
+  const collectionsCollection = await getCollectionsCollection();
+  const affectedCollections = await collectionsCollection
+    .find({
+      userId,
+      $or: [
+        { bookIds: { $in: mergedIds } },
+        { id: { $in: keepCollectionIds } },
+      ],
+    })
+    .toArray();
+
+  for (const collection of affectedCollections) {
+    await updateCollection(userId, collection.id, {
+      bookIds: remapMergedBookIds(
+        collection.bookIds,
+        mergedIds,
+        targetId,
+        keepCollectionIds.includes(collection.id),
+      ),
+    });
+  }
+};
+
+export type CollectionTextMatch = Pick<CollectionDocument, "id" | "name" | "bookIds"> & {
+  score: number;
+};
+
+/**
+ * Collections whose name matches a text search, best first
+ */
+export const searchCollectionsByText = async (
+  userId: string,
+  search: string,
+  options: { caseSensitive: boolean; limit: number },
+): Promise<CollectionTextMatch[]> => {
+  await ensureCollectionIndexes();
+
+  const collectionsCollection = await getCollectionsCollection();
+
+  return collectionsCollection
+    .find<CollectionTextMatch>(
+      { userId, $text: { $search: search, $caseSensitive: options.caseSensitive } },
+      { projection: { _id: 0, id: 1, name: 1, bookIds: 1, score: { $meta: "textScore" } } },
+    )
+    .sort({ score: { $meta: "textScore" } })
+    .limit(options.limit)
+    .toArray();
+};
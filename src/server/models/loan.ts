@@ -0,0 +1,227 @@
+import { Collection, Filter } from "mongodb";
+
+import { LoanPayload, LoanStatus } from "../lib/loan-payload.js";
+import { getMongoDb } from "../lib/mongodb.js";
+import { recordSyncTombstones } from "./sync-tombstone.js";
+
+export const LOANS_COLLECTION = "loans";
+
+export type LoanDocument = LoanPayload & {
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type LoanListQuery = {
+  bookId?: string;
+  status?: LoanStatus;
+};
+
+let ensureLoanIndexesPromise: Promise<string[]> | null = null;
+
+export const getLoansCollection = async (): Promise<Collection<LoanDocument>> => {
+  const db = await getMongoDb();
+  return db.collection<LoanDocument>(LOANS_COLLECTION);
+};
+
+export const ensureLoanIndexes = async (): Promise<void> => {
+  if (!ensureLoanIndexesPromise) {
+    ensureLoanIndexesPromise = getLoansCollection().then((collection) =>
+      Promise.all([
+        collection.createIndex(
+          { userId: 1, id: 1 },
+          { unique: true, name: "loans_user_id_unique" },
+        ),
+        collection.createIndex(
+          { userId: 1, updatedAt: 1 },
+          { name: "loans_user_updated_at" },
+        ),
+        collection.createIndex(
+          { userId: 1, bookId: 1, loanedDate: -1 },
+          { name: "loans_user_book_loaned_date" },
+        ),
+        collection.createIndex(
+          { userId: 1, returnedDate: 1, dueDate: 1 },
+          { name: "loans_user_returned_due" },
+        ),
+      ]),
+    );
+  }
+
+  await ensureLoanIndexesPromise;
+};
+
+export const toPublicLoan = (
+  document: LoanDocument,
+): LoanPayload & {
+  createdAt: string;
+  updatedAt: string;
+} => ({
+  id: document.id,
+  bookId: document.bookId,
+  direction: document.direction,
+  person: document.person,
+  loanedDate: document.loanedDate,
+  dueDate: document.dueDate,
+  returnedDate: document.returnedDate,
+  notes: document.notes,
+  remindedAt: document.remindedAt,
+  createdAt: document.createdAt.toISOString(),
+  updatedAt: document.updatedAt.toISOString(),
+});
+
+/**
+ * Loans still out have no returned date. A loan is overdue once its due
+ * date is before today, so a book due today is not yet overdue.
+ */
+const buildLoanFilter = (
+  userId: string,
+  query: LoanListQuery,
+  now: Date,
+): Filter<LoanDocument> => {
+  const filter: Record<string, unknown> = { userId };
+
+  if (query.bookId) {
+    filter.bookId = query.bookId;
+  }
+
+  if (query.status === "returned") {
+    filter.returnedDate = { $ne: null };
+  } else if (query.status === "active" || query.status === "overdue") {
+    filter.returnedDate = null;
+  }
+
+  if (query.status === "overdue") {
+    filter.dueDate = { $lt: now.toISOString().slice(0, 10) };
+  }
+
+  return filter as Filter<LoanDocument>;
+};
+
+export const listLoansByUserId = async (
+  userId: string,
+  query: LoanListQuery = {},
+  now = new Date(),
+): Promise<LoanDocument[]> => {
+  const collection = await getLoansCollection();
+
+  return collection
+    .find(buildLoanFilter(userId, query, now))
+    .sort({ loanedDate: -1, createdAt: -1 })
+    .toArray();
+};
+
+/**
+ * Loans added or changed after a point in time, for sync clients
+ */
+export const listLoansUpdatedSince = async (
+  userId: string,
+  since: Date,
+): Promise<LoanDocument[]> => {
+  const collection = await getLoansCollection();
+  return collection.find({ userId, updatedAt: { $gt: since } }).toArray();
+};
+
+export const findLoanById = async (
+  userId: string,
+  id: string,
+): Promise<LoanDocument | null> => {
+  const collection = await getLoansCollection();
+  return collection.findOne({ userId, id });
+};
+
+export const insertLoan = async (
+  userId: string,
+  payload: LoanPayload,
+): Promise<LoanDocument> => {
+  await ensureLoanIndexes();
+
+  const collection = await getLoansCollection();
+  const now = new Date();
+  const document: LoanDocument = {
+    ...payload,
+    userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await collection.insertOne(document);
+  return document;
+};
+
+export const updateLoan = async (
+  userId: string,
+  id: string,
+  updates: Partial<LoanPayload>,
+): Promise<LoanDocument | null> => {
+  const collection = await getLoansCollection();
+  const now = new Date();
+
+  return collection.findOneAndUpdate(
+    { userId, id },
+    {
+      $set: {
+        ...updates,
+        updatedAt: now,
+      },
+    },
+    {
+      returnDocument: "after",
+    },
+  );
+};
+
+export const deleteLoan = async (userId: string, id: string): Promise<boolean> => {
+  const collection = await getLoansCollection();
+  const result = await collection.deleteOne({ userId, id });
+
+  if (result.deletedCount === 1) {
+    await recordSyncTombstones(userId, "loans", [id]);
+  }
+
+  return result.deletedCount === 1;
+};
+
+/**
+ * Delete the loans of deleted books, remembering them for sync clients
+ */
+const deleteLoansMatching = async (
+  userId: string,
+  filter: Filter<LoanDocument>,
+): Promise<number> => {
+  const collection = await getLoansCollection();
+  const loans = await collection.find(filter, { projection: { id: 1 } }).toArray();
+
+  if (loans.length === 0) {
+    return 0;
+  }
+
+  const ids = loans.map((loan) => loan.id);
+  const result = await collection.deleteMany({ userId, id: { $in: ids } });
+  await recordSyncTombstones(userId, "loans", ids);
+
+  return result.deletedCount;
+};
+
+export const deleteLoansByBookId = async (
+  userId: string,
+  bookId: string,
+): Promise<number> => deleteLoansMatching(userId, { userId, bookId });
+
+export const deleteLoansByBookIds = async (
+  userId: string,
+  bookIds: string[],
+): Promise<number> => deleteLoansMatching(userId, { userId, bookId: { $in: bookIds } });
+
+export const reassignLoansToBook = async (
+  userId: string,
+  fromBookIds: string[],
+  toBookId: string,
+): Promise<number> => {
+  const collection = await getLoansCollection();
+  const result = await collection.updateMany(
+    { userId, bookId: { $in: fromBookIds } },
+    { $set: { bookId: toBookId, updatedAt: new Date() } },
+  );
+  return result.modifiedCount;
+};
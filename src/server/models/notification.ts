@@ -113,3 +113,16 @@ export const deleteNotification = async (
   const result = await collection.deleteOne({ userId, id });
   return result.deletedCount === 1;
 };
+
+export const reassignNotificationsToBook = async (
+  userId: string,
+  fromBookIds: string[],
+  toBookId: string,
+): Promise<number> => {
+  const collection = await getNotificationsCollection();
+  const result = await collection.updateMany(
+    { userId, bookId: { $in: fromBookIds } },
+    { $set: { bookId: toBookId, updatedAt: new Date() } },
+  );
+  return result.modifiedCount;
+};
@@ -0,0 +1,98 @@
+import { Collection, ObjectId } from "mongodb";
+
+import { getMongoDb } from "../lib/mongodb.js";
+
+export const RATE_LIMIT_HITS_COLLECTION = "rate_limit_hits";
+let ensureRateLimitIndexesPromise: Promise<string[]> | null = null;
+
+export type RateLimitHitDocument = {
+  _id?: ObjectId;
+  /** Rule name and subject, e.g. "login:ip:203.0.113.7" */
+  key: string;
+  createdAt: Date;
+  expiresAt: Date;
+};
+
+export type RateLimitResult =
+  | {
+      status: "allowed";
+      remaining: number;
+    }
+  | {
+      status: "limited";
+      retryAfterMs: number;
+    };
+
+export const getRateLimitHitsCollection = async (): Promise<
+  Collection<RateLimitHitDocument>
+> => {
+  const db = await getMongoDb();
+  return db.collection<RateLimitHitDocument>(RATE_LIMIT_HITS_COLLECTION);
+};
+
+export const ensureRateLimitIndexes = async (): Promise<void> => {
+  if (!ensureRateLimitIndexesPromise) {
+    ensureRateLimitIndexesPromise = getRateLimitHitsCollection().then((collection) =>
+      collection.createIndexes([
+        {
+          key: { key: 1, createdAt: 1 },
+          name: "rate_limit_hits_key_created_at",
+        },
+        {
+          key: { expiresAt: 1 },
+          name: "rate_limit_hits_expires_at_ttl",
+          expireAfterSeconds: 0,
+        },
+      ]),
+    );
+  }
+
+  await ensureRateLimitIndexesPromise;
+};
+
+/**
+ * Sliding-window log: every allowed request leaves a hit that counts against
+ * the key until it is `windowMs` old. The hit is written before counting so
+ * concurrent requests cannot all slip under the limit, and is taken back
+ * again when the request turns out to be over it.
+ */
+export const consumeRateLimit = async (
+  key: string,
+  limit: number,
+  windowMs: number,
+  now = new Date(),
+): Promise<RateLimitResult> => {
+  await ensureRateLimitIndexes();
+
+  const collection = await getRateLimitHitsCollection();
+  const windowStart = new Date(now.getTime() - windowMs);
+  const { insertedId } = await collection.insertOne({
+    key,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + windowMs),
+  });
+  const count = await collection.countDocuments({
+    key,
+    createdAt: { $gt: windowStart },
+  });
+
+  if (count <= limit) {
+    return { status: "allowed", remaining: limit - count };
+  }
+
+  await collection.deleteOne({ _id: insertedId });
+
+  // Once this hit is gone, count - limit of the others have to age out
+  // before there is room again; the last of those decides the wait
+  const [blockingHit] = await collection
+    .find({ key, createdAt: { $gt: windowStart } })
+    .sort({ createdAt: 1 })
+    .skip(Math.max(count - limit - 1, 0))
+    .limit(1)
+    .toArray();
+  const retryAfterMs = blockingHit
+    ? blockingHit.createdAt.getTime() + windowMs - now.getTime()
+    : windowMs;
+
+  return { status: "limited", retryAfterMs: Math.max(retryAfterMs, 1000) };
+};
@@ -0,0 +1,156 @@
+import { Collection } from "mongodb";
+
+import { ReadingSessionPayload } from "../lib/reading-session-payload.js";
+import { getMongoDb } from "../lib/mongodb.js";
+
+export const READING_SESSIONS_COLLECTION = "reading_sessions";
+
+export type ReadingSessionDocument = ReadingSessionPayload & {
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+let ensureReadingSessionIndexesPromise: Promise<string[]> | null = null;
+
+export const getReadingSessionsCollection = async (): Promise<
+  Collection<ReadingSessionDocument>
+> => {
+  const db = await getMongoDb();
+  return db.collection<ReadingSessionDocument>(READING_SESSIONS_COLLECTION);
+};
+
+export const ensureReadingSessionIndexes = async (): Promise<void> => {
+  if (!ensureReadingSessionIndexesPromise) {
+    ensureReadingSessionIndexesPromise = getReadingSessionsCollection().then((collection) =>
+      Promise.all([
+        collection.createIndex(
+          { userId: 1, id: 1 },
+          { unique: true, name: "reading_sessions_user_id_unique" },
+        ),
+        collection.createIndex(
+          { userId: 1, bookId: 1, date: -1 },
+          { name: "reading_sessions_user_book_date" },
+        ),
+      ]),
+    );
+  }
+
+  await ensureReadingSessionIndexesPromise;
+};
+
+export const toPublicReadingSession = (
+  document: ReadingSessionDocument,
+): ReadingSessionPayload & {
+  createdAt: string;
+  updatedAt: string;
+} => ({
+  id: document.id,
+  bookId: document.bookId,
+  date: document.date,
+  startPage: document.startPage,
+  endPage: document.endPage,
+  minutes: document.minutes,
+  notes: document.notes,
+  createdAt: document.createdAt.toISOString(),
+  updatedAt: document.updatedAt.toISOString(),
+});
+
+export const listReadingSessionsByUserId = async (
+  userId: string,
+  bookId?: string,
+): Promise<ReadingSessionDocument[]> => {
+  const collection = await getReadingSessionsCollection();
+  const filter = bookId ? { userId, bookId } : { userId };
+
+  return collection.find(filter).sort({ date: -1, createdAt: -1 }).toArray();
+};
+
+export const findReadingSessionById = async (
+  userId: string,
+  id: string,
+): Promise<ReadingSessionDocument | null> => {
+  const collection = await getReadingSessionsCollection();
+  return collection.findOne({ userId, id });
+};
+
+export const insertReadingSession = async (
+  userId: string,
+  payload: ReadingSessionPayload,
+): Promise<ReadingSessionDocument> => {
+  await ensureReadingSessionIndexes();
+
+  const collection = await getReadingSessionsCollection();
+  const now = new Date();
+  const document: ReadingSessionDocument = {
+    ...payload,
+    userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await collection.insertOne(document);
+  return document;
+};
+
+export const updateReadingSession = async (
+  userId: string,
+  id: string,
+  updates: Partial<ReadingSessionPayload>,
+): Promise<ReadingSessionDocument | null> => {
+  const collection = await getReadingSessionsCollection();
+  const now = new Date();
+
+  return collection.findOneAndUpdate(
+    { userId, id },
+    {
+      $set: {
+        ...updates,
+        updatedAt: now,
+      },
+    },
+    {
+      returnDocument: "after",
+    },
+  );
+};
+
+export const deleteReadingSession = async (
+  userId: string,
+  id: string,
+): Promise<boolean> => {
+  const collection = await getReadingSessionsCollection();
+  const result = await collection.deleteOne({ userId, id });
+  return result.deletedCount === 1;
+};
+
+export const deleteReadingSessionsByBookId = async (
+  userId: string,
+  bookId: string,
+): Promise<number> => {
+  const collection = await getReadingSessionsCollection();
+  const result = await collection.deleteMany({ userId, bookId });
+  return result.deletedCount;
+};
+
+export const reassignReadingSessionsToBook = async (
+  userId: string,
+  fromBookIds: string[],
+  toBookId: string,
+): Promise<number> => {
+  const collection = await getReadingSessionsCollection();
+  const result = await collection.updateMany(
+    { userId, bookId: { $in: fromBookIds } },
+    { $set: { bookId: toBookId, updatedAt: new Date() } },
+  );
+  return result.modifiedCount;
+};
+
+export const deleteReadingSessionsByBookIds = async (
+  userId: string,
+  bookIds: string[],
+): Promise<number> => {
+  const collection = await getReadingSessionsCollection();
+  const result = await collection.deleteMany({ userId, bookId: { $in: bookIds } });
+  return result.deletedCount;
+};
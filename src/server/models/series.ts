@@ -1,17 +1,22 @@
 import { Collection } from "mongodb";
 
 import { SeriesPayload } from "../lib/series-payload.js";
+import { remapMergedBookIds } from "../lib/book-merge.js";
 import { getMongoDb } from "../lib/mongodb.js";
+import { revisionFilter } from "../lib/revision.js";
+import { recordSyncTombstones } from "./sync-tombstone.js";
 
 export const SERIES_COLLECTION = "series";
 
 export type SeriesDocument = SeriesPayload & {
   userId: string;
+  /** Bumped on every write; missing on series saved before it was tracked */
+  revision?: number;
   createdAt: Date;
   updatedAt: Date;
 };
 
-let ensureSeriesIndexesPromise: Promise<string> | null = null;
+let ensureSeriesIndexesPromise: Promise<string[]> | null = null;
 
 export const getSeriesCollection = async (): Promise<Collection<SeriesDocument>> => {
   const db = await getMongoDb();
@@ -21,10 +26,20 @@ export const getSeriesCollection = async (): Promise<Collection<SeriesDocument>>
 export const ensureSeriesIndexes = async (): Promise<void> => {
   if (!ensureSeriesIndexesPromise) {
     ensureSeriesIndexesPromise = getSeriesCollection().then((collection) =>
-      collection.createIndex(
-        { userId: 1, id: 1 },
-        { unique: true, name: "series_user_id_unique" },
-      ),
+      Promise.all([
+        collection.createIndex(
+          { userId: 1, id: 1 },
+          { unique: true, name: "series_user_id_unique" },
+        ),
+        collection.createIndex(
+          { userId: 1, updatedAt: 1 },
+          { name: "series_user_updated_at" },
+        ),
+        collection.createIndex(
+          { userId: 1, name: "text" },
+          { name: "series_name_text" },
+        ),
+      ]),
     );
   }
 
@@ -34,6 +49,7 @@ export const ensureSeriesIndexes = async (): Promise<void> => {
 export const toPublicSeries = (
   document: SeriesDocument,
 ): SeriesPayload & {
+  revision: number;
   createdAt: string;
   updatedAt: string;
 } => {
@@ -55,6 +71,7 @@ export const toPublicSeries = (
     timestamps: document.timestamps,
     dateAdded: document.dateAdded,
     lastModified: document.lastModified,
+    revision: document.revision ?? 0,
     createdAt: document.createdAt.toISOString(),
     updatedAt: document.updatedAt.toISOString(),
   };
@@ -90,6 +107,7 @@ export const insertSeries = async (
   const seriesDocument: SeriesDocument = {
     ...payload,
     userId,
+    revision: 1,
     createdAt: now,
     updatedAt: now,
   };
@@ -98,21 +116,27 @@ export const insertSeries = async (
   return seriesDocument;
 };
 
+/**
+ * Update a series. With expectedRevision, only a series still at that
+ * revision is updated; null is returned for a missing or changed series.
+ */
 export const updateSeries = async (
   userId: string,
   id: string,
   updates: Partial<SeriesPayload>,
+  expectedRevision?: number,
 ): Promise<SeriesDocument | null> => {
   const seriesCollection = await getSeriesCollection();
   const now = new Date();
 
   return seriesCollection.findOneAndUpdate(
-    { userId, id },
+    { userId, id, ...revisionFilter(expectedRevision) },
     {
       $set: {
         ...updates,
         updatedAt: now,
       },
+      $inc: { revision: 1 },
     },
     {
       returnDocument: "after",
@@ -126,5 +150,84 @@ export const deleteSeries = async (
 ): Promise<boolean> => {
   const seriesCollection = await getSeriesCollection();
   const result = await seriesCollection.deleteOne({ userId, id });
+
+  if (result.deletedCount === 1) {
+    await recordSyncTombstones(userId, "series", [id]);
+  }
+
   return result.deletedCount === 1;
 };
+
+/**
+ * Series added or changed after a point in time, for sync clients
+ */
+export const listSeriesUpdatedSince = async (
+  userId: string,
+  since: Date,
+): Promise<SeriesDocument[]> => {
+  const seriesCollection = await getSeriesCollection();
+  return seriesCollection.find({ userId, updatedAt: { $gt: since } }).toArray();
+};
+
+/**
+ * Point series at the survivor of a book merge. Only the series the merged
+ * book belongs to keeps it; every other series drops all of the merged ids.
+ */
+export const remapSeriesBookReferences = async (
+  userId: string,
+  mergedIds: string[],
+  targetId: string,
+  keepSeriesId?: string,
+): Promise<void> => {
+  const seriesCollection = await getSeriesCollection();
+  const affectedSeries = await seriesCollection
+    .find({
+      userId,
+      $or: [
+        { books: { $in: mergedIds } },
+        { customOrder: { $in: mergedIds } },
+        ...(keepSeriesId ? [{ id: keepSeriesId }] : []),
+      ],
+    })
+    .toArray();
+
+  for (const series of affectedSeries) {
+    const keepTarget = series.id === keepSeriesId;
+
+    const updates: Partial<SeriesPayload> = {
+      books: remapMergedBookIds(series.books, mergedIds, targetId, keepTarget),
+    };
+
+    if (series.customOrder) {
+      updates.customOrder = remapMergedBookIds(series.customOrder, mergedIds, targetId, keepTarget);
+    }
+
+    await updateSeries(userId, series.id, updates);
+  }
+};
+
+export type SeriesTextMatch = Pick<SeriesDocument, "id" | "name" | "books"> & {
+  score: number;
+};
+
+/**
+ * Series whose name matches a text search, best first
+ */
+export const searchSeriesByText = async (
+  userId: string,
+  search: string,
+  options: { caseSensitive: boolean; limit: number },
+): Promise<SeriesTextMatch[]> => {
+  await ensureSeriesIndexes();
+
+  const seriesCollection = await getSeriesCollection();
+
+  return seriesCollection
+    .find<SeriesTextMatch>(
+      { userId, $text: { $search: search, $caseSensitive: options.caseSensitive } },
+      { projection: { _id: 0, id: 1, name: 1, books: 1, score: { $meta: "textScore" } } },
+    )
+    .sort({ score: { $meta: "textScore" } })
+    .limit(options.limit)
+    .toArray();
+};
@@ -0,0 +1,356 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+
+import { Collection, ObjectId } from "mongodb";
+
+import { getMongoDb } from "../lib/mongodb.js";
+import { SessionDeviceInfo } from "../lib/session-device.js";
+
+export const SESSIONS_COLLECTION = "sessions";
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const MAX_ROTATED_TOKEN_HASHES = 20;
+/**
+ * Two tabs refreshing at the same moment both present the same token; the
+ * one that loses the race gets a short grace period instead of tripping
+ * reuse detection.
+ */
+const REFRESH_ROTATION_GRACE_MS = 1000 * 30;
+let ensureSessionIndexesPromise: Promise<string[]> | null = null;
+
+export type SessionRevokedReason =
+  | "signed-out"
+  | "revoked"
+  | "password-changed"
+  | "token-reused"
+  | "account-signed-out";
+
+export type SessionDocument = {
+  _id?: ObjectId;
+  id: string;
+  userId: string;
+  deviceName: string;
+  ip?: string;
+  userAgent?: string;
+  refreshTokenHash: string;
+  /** Hashes of refresh tokens already rotated away, kept to detect reuse */
+  rotatedTokenHashes: string[];
+  createdAt: Date;
+  lastSeenAt: Date;
+  lastRotatedAt?: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+};
+
+export type PublicSession = {
+  id: string;
+  deviceName: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+export type RefreshSessionResult =
+  | {
+      status: "rotated";
+      session: SessionDocument;
+      refreshToken: string;
+    }
+  | {
+      /** Another request rotated this token a moment ago */
+      status: "superseded";
+    }
+  | {
+      /** An already rotated token came back; the session has been revoked */
+      status: "reused";
+      session: SessionDocument;
+    }
+  | {
+      status: "expired" | "invalid" | "revoked";
+    };
+
+/**
+ * How long a refresh token stays usable without being rotated. Each refresh
+ * starts the window again, so a device in regular use stays signed in.
+ */
+const getRefreshTokenTtlMs = (): number => {
+  const days = Number(process.env.REFRESH_TOKEN_TTL_DAYS);
+  const ttlDays = Number.isFinite(days) && days > 0 ? days : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+
+  return ttlDays * 24 * 60 * 60 * 1000;
+};
+
+const hashRefreshToken = (token: string): string => {
+  return createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Refresh tokens carry their session id so the session can be looked up
+ * without storing the token itself.
+ */
+const generateRefreshToken = (sessionId: string): string => {
+  return `${sessionId}.${randomBytes(32).toString("base64url")}`;
+};
+
+const parseRefreshTokenSessionId = (token: string): string | null => {
+  const separatorIndex = token.indexOf(".");
+
+  if (separatorIndex <= 0 || separatorIndex === token.length - 1) {
+    return null;
+  }
+
+  return token.slice(0, separatorIndex);
+};
+
+export const getSessionsCollection = async (): Promise<Collection<SessionDocument>> => {
+  const db = await getMongoDb();
+  return db.collection<SessionDocument>(SESSIONS_COLLECTION);
+};
+
+export const ensureSessionIndexes = async (): Promise<void> => {
+  if (!ensureSessionIndexesPromise) {
+    ensureSessionIndexesPromise = getSessionsCollection().then((collection) =>
+      collection.createIndexes([
+        {
+          key: { id: 1 },
+          name: "sessions_id_unique",
+          unique: true,
+        },
+        {
+          key: { userId: 1, lastSeenAt: -1 },
+          name: "sessions_user_last_seen",
+        },
+        {
+          key: { expiresAt: 1 },
+          name: "sessions_expires_at_ttl",
+          expireAfterSeconds: 0,
+        },
+      ]),
+    );
+  }
+
+  await ensureSessionIndexesPromise;
+};
+
+export const toPublicSession = (
+  session: SessionDocument,
+  currentSessionId?: string,
+): PublicSession => ({
+  id: session.id,
+  deviceName: session.deviceName,
+  ip: session.ip,
+  userAgent: session.userAgent,
+  createdAt: session.createdAt.toISOString(),
+  lastSeenAt: session.lastSeenAt.toISOString(),
+  expiresAt: session.expiresAt.toISOString(),
+  current: session.id === currentSessionId,
+});
+
+export const createSession = async (
+  userId: string,
+  device: SessionDeviceInfo,
+  now = new Date(),
+): Promise<{ session: SessionDocument; refreshToken: string }> => {
+  await ensureSessionIndexes();
+
+  const collection = await getSessionsCollection();
+  const id = randomUUID();
+  const refreshToken = generateRefreshToken(id);
+  const session: SessionDocument = {
+    id,
+    userId,
+    deviceName: device.deviceName,
+    ip: device.ip,
+    userAgent: device.userAgent,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    rotatedTokenHashes: [],
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: new Date(now.getTime() + getRefreshTokenTtlMs()),
+  };
+
+  await collection.insertOne(session);
+
+  return { session, refreshToken };
+};
+
+export const findActiveSessionById = async (
+  userId: string,
+  id: string,
+  now = new Date(),
+): Promise<SessionDocument | null> => {
+  const collection = await getSessionsCollection();
+
+  return collection.findOne({
+    userId,
+    id,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: now },
+  });
+};
+
+export const listActiveSessionsByUserId = async (
+  userId: string,
+  now = new Date(),
+): Promise<SessionDocument[]> => {
+  const collection = await getSessionsCollection();
+
+  return collection
+    .find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now },
+    })
+    .sort({ lastSeenAt: -1 })
+    .toArray();
+};
+
+export const revokeSession = async (
+  userId: string,
+  id: string,
+  reason: SessionRevokedReason,
+): Promise<boolean> => {
+  const collection = await getSessionsCollection();
+  const result = await collection.updateOne(
+    { userId, id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } },
+  );
+
+  return result.modifiedCount === 1;
+};
+
+export const revokeSessionsByUserId = async (
+  userId: string,
+  reason: SessionRevokedReason,
+  options: { exceptSessionId?: string } = {},
+): Promise<number> => {
+  const collection = await getSessionsCollection();
+  const result = await collection.updateMany(
+    {
+      userId,
+      revokedAt: { $exists: false },
+      ...(options.exceptSessionId ? { id: { $ne: options.exceptSessionId } } : {}),
+    },
+    { $set: { revokedAt: new Date(), revokedReason: reason } },
+  );
+
+  return result.modifiedCount;
+};
+
+/**
+ * Ends the session a refresh token belongs to. Only the current token is
+ * accepted, so a stale copy cannot sign anyone out.
+ */
+export const revokeSessionByRefreshToken = async (
+  refreshToken: string,
+  reason: SessionRevokedReason,
+): Promise<boolean> => {
+  const sessionId = parseRefreshTokenSessionId(refreshToken);
+
+  if (!sessionId) {
+    return false;
+  }
+
+  const collection = await getSessionsCollection();
+  const result = await collection.updateOne(
+    {
+      id: sessionId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      revokedAt: { $exists: false },
+    },
+    { $set: { revokedAt: new Date(), revokedReason: reason } },
+  );
+
+  return result.modifiedCount === 1;
+};
+
+export const deleteSessionsByUserId = async (userId: string): Promise<number> => {
+  const collection = await getSessionsCollection();
+  const result = await collection.deleteMany({ userId });
+  return result.deletedCount;
+};
+
+/**
+ * Swaps a refresh token for a new one. The swap only succeeds while the
+ * presented token is still the current one, so a token can be used once.
+ * Presenting a token that was already rotated away means it has leaked, and
+ * the whole session is revoked.
+ */
+export const rotateSessionRefreshToken = async (
+  refreshToken: string,
+  device: SessionDeviceInfo,
+  now = new Date(),
+): Promise<RefreshSessionResult> => {
+  const sessionId = parseRefreshTokenSessionId(refreshToken);
+
+  if (!sessionId) {
+    return { status: "invalid" };
+  }
+
+  const collection = await getSessionsCollection();
+  const session = await collection.findOne({ id: sessionId });
+
+  if (!session) {
+    return { status: "invalid" };
+  }
+
+  if (session.revokedAt) {
+    return { status: "revoked" };
+  }
+
+  if (session.expiresAt.getTime() <= now.getTime()) {
+    return { status: "expired" };
+  }
+
+  const tokenHash = hashRefreshToken(refreshToken);
+
+  if (tokenHash === session.refreshTokenHash) {
+    const nextRefreshToken = generateRefreshToken(session.id);
+    const rotated = await collection.findOneAndUpdate(
+      { id: session.id, refreshTokenHash: tokenHash, revokedAt: { $exists: false } },
+      {
+        $set: {
+          refreshTokenHash: hashRefreshToken(nextRefreshToken),
+          lastSeenAt: now,
+          lastRotatedAt: now,
+          expiresAt: new Date(now.getTime() + getRefreshTokenTtlMs()),
+          ip: device.ip,
+          userAgent: device.userAgent,
+          deviceName: device.deviceName,
+        },
+        $push: {
+          rotatedTokenHashes: {
+            $each: [tokenHash],
+            $slice: -MAX_ROTATED_TOKEN_HASHES,
+          },
+        },
+      },
+      { returnDocument: "after" },
+    );
+
+    return rotated
+      ? { status: "rotated", session: rotated, refreshToken: nextRefreshToken }
+      : { status: "superseded" };
+  }
+
+  if (!session.rotatedTokenHashes.includes(tokenHash)) {
+    return { status: "invalid" };
+  }
+
+  const isLatestRotation =
+    session.rotatedTokenHashes[session.rotatedTokenHashes.length - 1] === tokenHash;
+
+  if (
+    isLatestRotation &&
+    session.lastRotatedAt &&
+    now.getTime() - session.lastRotatedAt.getTime() < REFRESH_ROTATION_GRACE_MS
+  ) {
+    return { status: "superseded" };
+  }
+
+  await revokeSession(session.userId, session.id, "token-reused");
+
+  return { status: "reused", session };
+};
@@ -0,0 +1,82 @@
+import { Collection } from "mongodb";
+
+import { getMongoDb } from "../lib/mongodb.js";
+
+export const SYNC_TOMBSTONES_COLLECTION = "sync_tombstones";
+
+/**
+ * How long deletions are remembered. A client that last synced before this
+ * has to pull the whole library again.
+ */
+export const SYNC_TOMBSTONE_RETENTION_DAYS = 30;
+
+export type SyncEntity = "books" | "series" | "collections" | "loans";
+
+export type SyncTombstoneDocument = {
+  userId: string;
+  entity: SyncEntity;
+  entityId: string;
+  deletedAt: Date;
+};
+
+let ensureSyncTombstoneIndexesPromise: Promise<string[]> | null = null;
+
+export const getSyncTombstonesCollection = async (): Promise<
+  Collection<SyncTombstoneDocument>
+> => {
+  const db = await getMongoDb();
+  return db.collection<SyncTombstoneDocument>(SYNC_TOMBSTONES_COLLECTION);
+};
+
+export const ensureSyncTombstoneIndexes = async (): Promise<void> => {
+  if (!ensureSyncTombstoneIndexesPromise) {
+    ensureSyncTombstoneIndexesPromise = getSyncTombstonesCollection().then(
+      (collection) =>
+        Promise.all([
+          collection.createIndex(
+            { userId: 1, deletedAt: 1 },
+            { name: "sync_tombstones_user_deleted_at" },
+          ),
+          collection.createIndex(
+            { deletedAt: 1 },
+            {
+              name: "sync_tombstones_ttl",
+              expireAfterSeconds: SYNC_TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60,
+            },
+          ),
+        ]),
+    );
+  }
+
+  await ensureSyncTombstoneIndexesPromise;
+};
+
+/**
+ * Remember deleted records so clients pulling changes can remove them too
+ */
+export const recordSyncTombstones = async (
+  userId: string,
+  entity: SyncEntity,
+  entityIds: string[],
+): Promise<void> => {
+  if (entityIds.length === 0) {
+    return;
+  }
+
+  await ensureSyncTombstoneIndexes();
+
+  const collection = await getSyncTombstonesCollection();
+  const deletedAt = new Date();
+
+  await collection.insertMany(
+    entityIds.map((entityId) => ({ userId, entity, entityId, deletedAt })),
+  );
+};
+
+export const listSyncTombstonesSince = async (
+  userId: string,
+  since: Date,
+): Promise<SyncTombstoneDocument[]> => {
+  const collection = await getSyncTombstonesCollection();
+  return collection.find({ userId, deletedAt: { $gt: since } }).toArray();
+};
@@ -43,6 +43,8 @@ export const toPublicUserSettings = (
   goals: document.goals,
   displayOptions: document.displayOptions,
   notifications: document.notifications,
+  savedSearches: document.savedSearches,
+  tagColors: document.tagColors,
 });
 
 export const findUserSettingsByUserId = async (
@@ -1,11 +1,27 @@
-import { Collection, ObjectId } from "mongodb";
+import { Collection, Filter, ObjectId, Sort } from "mongodb";
 
 import { getMongoDb } from "../lib/mongodb.js";
+import {
+  UserDateRange,
+  UserListCursor,
+  UserListQuery,
+  UserSortField,
+  UserSortOrder,
+} from "../lib/user-query.js";
 
 export const USERS_COLLECTION = "users";
-let ensureUserIndexesPromise: Promise<string> | null = null;
+let ensureUserIndexesPromise: Promise<string[]> | null = null;
 export type UserRole = "user" | "admin";
 
+export type UserTwoFactor = {
+  /** Base32 TOTP secret shared with the authenticator app */
+  secret: string;
+  enabledAt: Date;
+  /** The last TOTP time step accepted, so a code cannot be used twice */
+  lastUsedStep?: number;
+  recoveryCodeHashes: string[];
+};
+
 export type UserDocument = {
   _id?: ObjectId;
   email: string;
@@ -15,6 +31,9 @@ export type UserDocument = {
   createdAt: Date;
   lastLoginAt?: Date;
   sessionInvalidBefore?: Date;
+  twoFactor?: UserTwoFactor;
+  /** A secret handed out for enrolment but not yet confirmed with a code */
+  twoFactorPendingSecret?: string;
   updatedAt: Date;
 };
 
@@ -25,6 +44,7 @@ export type PublicUser = {
   role: UserRole;
   createdAt: string;
   lastLoginAt?: string;
+  twoFactorEnabled: boolean;
   updatedAt: string;
 };
 
@@ -46,7 +66,11 @@ export const getUsersCollection = async (): Promise<Collection<UserDocument>> =>
 export const ensureUserIndexes = async (): Promise<void> => {
   if (!ensureUserIndexesPromise) {
     ensureUserIndexesPromise = getUsersCollection().then((collection) =>
-      collection.createIndex({ email: 1 }, { unique: true, name: "users_email_unique" }),
+      Promise.all([
+        collection.createIndex({ email: 1 }, { unique: true, name: "users_email_unique" }),
+        collection.createIndex({ createdAt: -1, _id: -1 }, { name: "users_created_at" }),
+        collection.createIndex({ lastLoginAt: -1, _id: -1 }, { name: "users_last_login_at" }),
+      ]),
     );
   }
 
@@ -76,6 +100,173 @@ export const listUsers = async (): Promise<UserDocument[]> => {
   return usersCollection.find({}, { sort: { createdAt: -1 } }).toArray();
 };
 
+export type UserPage = {
+  users: UserDocument[];
+  hasMore: boolean;
+  /** Users matching the filters across all pages */
+  total: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const dateRangeFilter = (range: UserDateRange) => ({
+  ...(range.from ? { $gte: range.from } : {}),
+  ...(range.before ? { $lt: range.before } : {}),
+});
+
+/**
+ * The admin directory filters. Users saved before roles were tracked count
+ * as plain users, and users who never signed in count as inactive from when
+ * they registered.
+ */
+export const buildUserListFilter = (
+  query: UserListQuery,
+  now: Date,
+): Filter<UserDocument> => {
+  const conditions: Filter<UserDocument>[] = [];
+
+  if (query.search) {
+    const pattern = { $regex: escapeRegExp(query.search), $options: "i" };
+    conditions.push({ $or: [{ email: pattern }, { preferredName: pattern }] });
+  }
+
+  if (query.role) {
+    conditions.push({ role: query.role === "admin" ? "admin" : { $ne: "admin" } });
+  }
+
+  if (query.twoFactor) {
+    conditions.push({ twoFactor: { $exists: query.twoFactor === "enabled" } });
+  }
+
+  if (query.created) {
+    conditions.push({ createdAt: dateRangeFilter(query.created) });
+  }
+
+  if (query.lastLogin) {
+    conditions.push({ lastLoginAt: dateRangeFilter(query.lastLogin) });
+  }
+
+  if (query.inactiveDays) {
+    const cutoff = new Date(now.getTime() - query.inactiveDays * DAY_MS);
+
+    conditions.push({
+      $or: [
+        { lastLoginAt: { $lt: cutoff } },
+        { lastLoginAt: { $exists: false }, createdAt: { $lt: cutoff } },
+      ],
+    });
+  }
+
+  return conditions.length ? { $and: conditions } : {};
+};
+
+/**
+ * Users after the cursor in page order. Users without the sort field sort
+ * first ascending and last descending, as Mongo orders missing values.
+ */
+const buildUserCursorFilter = (
+  sort: UserSortField,
+  order: UserSortOrder,
+  cursor: UserListCursor,
+): Filter<UserDocument> => {
+  const after = order === "asc" ? "$gt" : "$lt";
+  const sameValueLaterId = {
+    [sort]: cursor.value,
+    _id: { [after]: new ObjectId(cursor.id) },
+  };
+
+  if (cursor.value === null) {
+    return (
+      order === "asc"
+        ? { $or: [sameValueLaterId, { [sort]: { $ne: null } }] }
+        : sameValueLaterId
+    ) as Filter<UserDocument>;
+  }
+
+  const laterValue = { [sort]: { [after]: cursor.value } };
+
+  return {
+    $or:
+      order === "asc"
+        ? [laterValue, sameValueLaterId]
+        : [laterValue, sameValueLaterId, { [sort]: null }],
+  } as Filter<UserDocument>;
+};
+
+/**
+ * One page of the user directory, filtered and sorted as asked. Ties are
+ * broken by id so every user appears on exactly one page.
+ */
+export const listUsersPage = async (
+  query: UserListQuery,
+  now = new Date(),
+): Promise<UserPage> => {
+  await ensureUserIndexes();
+
+  const usersCollection = await getUsersCollection();
+  const filter = buildUserListFilter(query, now);
+  const direction = query.order === "asc" ? 1 : -1;
+  const sort: Sort = { [query.sort]: direction, _id: direction };
+
+  const [users, total] = await Promise.all([
+    usersCollection
+      .find(
+        query.cursor
+          ? { $and: [filter, buildUserCursorFilter(query.sort, query.order, query.cursor)] }
+          : filter,
+      )
+      .sort(sort)
+      .limit(query.limit + 1)
+      .toArray(),
+    usersCollection.countDocuments(filter),
+  ]);
+
+  return {
+    users: users.slice(0, query.limit),
+    hasMore: users.length > query.limit,
+    total,
+  };
+};
+
+const toObjectIds = (ids: string[]): ObjectId[] =>
+  ids.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+
+export const findUsersByIds = async (ids: string[]): Promise<UserDocument[]> => {
+  const usersCollection = await getUsersCollection();
+  return usersCollection.find({ _id: { $in: toObjectIds(ids) } }).toArray();
+};
+
+/**
+ * Signs the users out everywhere: access tokens issued before now stop
+ * working and their sessions can no longer be refreshed
+ */
+export const invalidateUserSessionsByIds = async (ids: string[]): Promise<number> => {
+  const usersCollection = await getUsersCollection();
+  const now = new Date();
+  const result = await usersCollection.updateMany(
+    { _id: { $in: toObjectIds(ids) } },
+    { $set: { sessionInvalidBefore: now, updatedAt: now } },
+  );
+
+  return result.matchedCount;
+};
+
+export const updateUserRolesByIds = async (
+  ids: string[],
+  role: UserRole,
+): Promise<number> => {
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateMany(
+    { _id: { $in: toObjectIds(ids) } },
+    { $set: { role, updatedAt: new Date() } },
+  );
+
+  return result.matchedCount;
+};
+
 export const countAdmins = async (): Promise<number> => {
   const usersCollection = await getUsersCollection();
   return usersCollection.countDocuments({ role: "admin" });
@@ -241,6 +432,158 @@ export const invalidateUserSessionsById = async (id: string): Promise<boolean> =
   return result.matchedCount === 1;
 };
 
+export const setUserPendingTwoFactorSecret = async (
+  id: string,
+  secret: string,
+): Promise<boolean> => {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateOne(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        twoFactorPendingSecret: secret,
+        updatedAt: new Date(),
+      },
+    },
+  );
+
+  return result.matchedCount === 1;
+};
+
+export const enableUserTwoFactor = async (
+  id: string,
+  twoFactor: UserTwoFactor,
+): Promise<UserDocument | null> => {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateOne(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        twoFactor,
+        updatedAt: new Date(),
+      },
+      $unset: {
+        twoFactorPendingSecret: "",
+      },
+    },
+  );
+
+  if (result.matchedCount !== 1) {
+    return null;
+  }
+
+  return findUserById(id);
+};
+
+export const disableUserTwoFactor = async (id: string): Promise<boolean> => {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateOne(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        updatedAt: new Date(),
+      },
+      $unset: {
+        twoFactor: "",
+        twoFactorPendingSecret: "",
+      },
+    },
+  );
+
+  return result.matchedCount === 1;
+};
+
+export const replaceUserRecoveryCodes = async (
+  id: string,
+  recoveryCodeHashes: string[],
+): Promise<boolean> => {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateOne(
+    { _id: new ObjectId(id), twoFactor: { $exists: true } },
+    {
+      $set: {
+        "twoFactor.recoveryCodeHashes": recoveryCodeHashes,
+        updatedAt: new Date(),
+      },
+    },
+  );
+
+  return result.matchedCount === 1;
+};
+
+/**
+ * Removes a recovery code in the same update that checks it, so two
+ * requests racing with one code cannot both succeed
+ */
+export const consumeUserRecoveryCode = async (
+  id: string,
+  recoveryCodeHash: string,
+): Promise<boolean> => {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateOne(
+    { _id: new ObjectId(id), "twoFactor.recoveryCodeHashes": recoveryCodeHash },
+    {
+      $pull: {
+        "twoFactor.recoveryCodeHashes": recoveryCodeHash,
+      },
+    },
+  );
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Records a TOTP time step as used. Fails when that step, or a later one,
+ * was already accepted.
+ */
+export const recordUserTotpStep = async (
+  id: string,
+  step: number,
+): Promise<boolean> => {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const usersCollection = await getUsersCollection();
+  const result = await usersCollection.updateOne(
+    {
+      _id: new ObjectId(id),
+      twoFactor: { $exists: true },
+      $or: [
+        { "twoFactor.lastUsedStep": { $exists: false } },
+        { "twoFactor.lastUsedStep": { $lt: step } },
+      ],
+    },
+    {
+      $set: {
+        "twoFactor.lastUsedStep": step,
+      },
+    },
+  );
+
+  return result.modifiedCount === 1;
+};
+
 export const insertUser = async (
   input: CreateUserInput,
 ): Promise<UserDocument> => {
@@ -286,6 +629,7 @@ export const toPublicUser = (user: UserDocument): PublicUser => {
     role: user.role || "user",
     createdAt: user.createdAt.toISOString(),
     lastLoginAt: user.lastLoginAt?.toISOString(),
+    twoFactorEnabled: Boolean(user.twoFactor),
     updatedAt: user.updatedAt.toISOString(),
   };
 };
@@ -0,0 +1,133 @@
+import { bookRepository } from '@/repositories/BookRepository';
+import { collectionRepository } from '@/repositories/CollectionRepository';
+import { seriesRepository } from '@/repositories/SeriesRepository';
+import { HistoryCommand, historyService } from '@/services/HistoryService';
+import { Book } from '@/types/book';
+import { Series } from '@/types/series';
+import {
+  BookBatchAction,
+  BookBatchChanges,
+  describeBookBatchAction,
+  getBatchBookChanges,
+  hasBatchBookChanges,
+} from '@/utils/bookBatch';
+
+export interface BookBatchResult {
+  /** The books after the batch; empty when they were deleted */
+  books: Book[];
+  deletedIds: string[];
+  /** The history entry that reverts the whole batch */
+  command?: HistoryCommand;
+}
+
+const getChangedIds = (books: Book[], changes: BookBatchChanges): string[] => {
+  if (Object.keys(changes.patch).length > 0) {
+    return books.map(book => book.id);
+  }
+
+  return books.map(book => book.id).filter(id => id in changes.patches);
+};
+
+/**
+ * Service for applying one action to many books: the book changes go out in
+ * a single bulk update, and series and collection membership is kept in step.
+ */
+export class BookBatchService {
+  async applyAction(books: Book[], action: BookBatchAction): Promise<BookBatchResult> {
+    // Every change the batch makes is undone and redone as one history entry
+    const result = await historyService.group(
+      () => this.runAction(books, action),
+      describeBookBatchAction(action, books.length),
+    );
+
+    return { ...result, command: historyService.peekUndo() };
+  }
+
+  private async runAction(books: Book[], action: BookBatchAction): Promise<BookBatchResult> {
+    const ids = books.map(book => book.id);
+    const changes = getBatchBookChanges(books, action);
+
+    if (action.type === 'delete') {
+      await this.detachFromSeries(ids);
+      await this.detachFromCollections(ids);
+      await bookRepository.deleteMany(ids);
+      return { books: [], deletedIds: ids };
+    }
+
+    if (action.type === 'add-collection' || action.type === 'remove-collection') {
+      const collection = await collectionRepository.getById(action.collectionId);
+
+      if (collection) {
+        const bookIds = action.type === 'add-collection'
+          ? [...collection.bookIds, ...ids.filter(id => !collection.bookIds.includes(id))]
+          : collection.bookIds.filter(id => !ids.includes(id));
+        await collectionRepository.update(collection.id, { bookIds });
+      }
+    }
+
+    if (action.type === 'series') {
+      // Books leave whichever series they were in before
+      const detached = await this.detachFromSeries(ids, action.seriesId);
+      const series = detached.find(entry => entry.id === action.seriesId)
+        || await seriesRepository.getById(action.seriesId);
+
+      if (series) {
+        await seriesRepository.update(series.id, {
+          books: [...series.books.filter(id => !ids.includes(id)), ...ids],
+        });
+      }
+    }
+
+    const changedIds = getChangedIds(books, changes);
+    const updatedBooks = hasBatchBookChanges(changes)
+      ? await bookRepository.updateMany(changedIds, changes.patch, changes.patches)
+      : [];
+    const updatedById = new Map(updatedBooks.map(book => [book.id, book]));
+
+    return {
+      books: books.map(book => updatedById.get(book.id) || book),
+      deletedIds: [],
+    };
+  }
+
+  /**
+   * Remove books from every series listing them, except keepSeriesId, and
+   * return those series as they were
+   */
+  private async detachFromSeries(ids: string[], keepSeriesId?: string): Promise<Series[]> {
+    const seriesList = await seriesRepository.getAll();
+    const affected: Series[] = [];
+
+    for (const series of seriesList) {
+      if (series.id === keepSeriesId) {
+        affected.push(series);
+        continue;
+      }
+
+      const references = [...series.books, ...(series.customOrder || [])];
+      if (!references.some(id => ids.includes(id))) continue;
+
+      affected.push(series);
+      await seriesRepository.update(series.id, {
+        books: series.books.filter(id => !ids.includes(id)),
+        ...(series.customOrder ? { customOrder: series.customOrder.filter(id => !ids.includes(id)) } : {}),
+      });
+    }
+
+    return affected;
+  }
+
+  private async detachFromCollections(ids: string[]): Promise<void> {
+    const collections = await collectionRepository.getAll();
+
+    for (const collection of collections) {
+      if (!collection.bookIds.some(id => ids.includes(id))) continue;
+
+      await collectionRepository.update(collection.id, {
+        bookIds: collection.bookIds.filter(id => !ids.includes(id)),
+      });
+    }
+  }
+}
+
+export const bookBatchService = new BookBatchService();
@@ -0,0 +1,101 @@
+import { booksApi } from '@/lib/apiClient';
+import { getStoredAuthToken } from '@/lib/auth-storage';
+import { bookRepository } from '@/repositories/BookRepository';
+import { collectionRepository } from '@/repositories/CollectionRepository';
+import { notificationRepository } from '@/repositories/NotificationRepository';
+import { seriesRepository } from '@/repositories/SeriesRepository';
+import { enhancedStorageService } from '@/services/storage/EnhancedStorageService';
+import { syncService } from '@/services/sync/SyncService';
+import { Book } from '@/types/book';
+import { MergeFieldChoices, buildMergedBook, remapMergedBookIds } from '@/utils/duplicateBooks';
+
+const isAuthenticatedSession = (): boolean => Boolean(getStoredAuthToken());
+
+/**
+ * Service for merging duplicate books into one. The surviving book keeps its
+ * id; series, collections, reading sessions, loans and release notifications that
+ * pointed at the other books are moved onto it before those books are removed.
+ */
+export class BookMergeService {
+  /**
+   * Merge a group of books into the one with targetId, taking each field from
+   * the book chosen for it
+   */
+  async mergeBooks(books: Book[], targetId: string, choices: MergeFieldChoices): Promise<Book> {
+    const merged = buildMergedBook(books, targetId, choices);
+    const sourceIds = books.map(book => book.id).filter(id => id !== targetId);
+    const updates: Partial<Book> = { ...merged };
+    delete updates.id;
+
+    if (isAuthenticatedSession()) {
+      // The merge runs on the server, so it needs the pending local changes
+      // first and the local copy pulls its outcome afterwards
+      await syncService.sync();
+      const { book } = await booksApi.merge({ targetId, sourceIds, updates });
+      await syncService.sync();
+      return book as Book;
+    }
+
+    const mergedIds = [targetId, ...sourceIds];
+    const savedBook = await bookRepository.update(targetId, updates);
+
+    await this.remapSeries(mergedIds, targetId, merged.seriesId);
+    await this.remapCollections(mergedIds, targetId, merged.collectionIds || []);
+
+    // Move the reading log before deleting, which would otherwise remove it
+    const sessions = await enhancedStorageService.getReadingSessions();
+    for (const session of sessions.filter(session => sourceIds.includes(session.bookId))) {
+      await enhancedStorageService.saveReadingSession({ ...session, bookId: targetId });
+    }
+
+    const loans = await enhancedStorageService.getLoans();
+    for (const loan of loans.filter(loan => sourceIds.includes(loan.bookId))) {
+      await enhancedStorageService.saveLoan({ ...loan, bookId: targetId });
+    }
+
+    const notifications = await notificationRepository.getAll();
+    for (const notification of notifications) {
+      if (notification.bookId && sourceIds.includes(notification.bookId)) {
+        await notificationRepository.update(notification.id, { bookId: targetId });
+      }
+    }
+
+    for (const id of sourceIds) {
+      await bookRepository.delete(id);
+    }
+
+    return savedBook;
+  }
+
+  private async remapSeries(mergedIds: string[], targetId: string, keepSeriesId?: string): Promise<void> {
+    const seriesList = await seriesRepository.getAll();
+
+    for (const series of seriesList) {
+      const keepTarget = series.id === keepSeriesId;
+      const references = [...series.books, ...(series.customOrder || [])];
+      if (!keepTarget && !references.some(id => mergedIds.includes(id))) continue;
+
+      await seriesRepository.update(series.id, {
+        books: remapMergedBookIds(series.books, mergedIds, targetId, keepTarget),
+        customOrder: series.customOrder
+          ? remapMergedBookIds(series.customOrder, mergedIds, targetId, keepTarget)
+          : undefined,
+      });
+    }
+  }
+
+  private async remapCollections(mergedIds: string[], targetId: string, keepCollectionIds: string[]): Promise<void> {
+    const collections = await collectionRepository.getAll();
+
+    for (const collection of collections) {
+      const keepTarget = keepCollectionIds.includes(collection.id);
+      if (!keepTarget && !collection.bookIds.some(id => mergedIds.includes(id))) continue;
+
+      await collectionRepository.update(collection.id, {
+        bookIds: remapMergedBookIds(collection.bookIds, mergedIds, targetId, keepTarget),
+      });
+    }
+  }
+}
+
+export const bookMergeService = new BookMergeService();
@@ -0,0 +1,214 @@
+/**
+ * A reversible library change. Undo and redo replay repository calls, which
+ * are not recorded again while they run.
+ */
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export type HistoryEvent =
+  | { type: 'record' | 'undo' | 'redo'; command: HistoryCommand }
+  | { type: 'clear' };
+
+type HistoryListener = (event: HistoryEvent) => void;
+
+interface HistoryStep {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+/** Oldest commands are dropped beyond this many */
+export const MAX_HISTORY_SIZE = 50;
+
+/**
+ * Undo/redo history for library changes. Repositories record the inverse of
+ * each mutation; calls made inside group() become one command, so a change
+ * that touches several records is undone in one step. The history lives in
+ * this singleton, not in component state, so it survives route changes.
+ */
+export class HistoryService {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private listeners = new Set<HistoryListener>();
+  private openGroup: { label?: string; steps: HistoryStep[] } | null = null;
+  private pausedDepth = 0;
+  private nextId = 1;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Whether mutations are currently being recorded. Repositories check this
+   * before loading the "before" state, to skip that work while replaying.
+   */
+  isRecording(): boolean {
+    return this.pausedDepth === 0;
+  }
+
+  /**
+   * Record the inverse of a mutation that has just succeeded
+   */
+  record(label: string, undo: () => Promise<void>, redo: () => Promise<void>): void {
+    if (!this.isRecording()) return;
+
+    if (this.openGroup) {
+      this.openGroup.steps.push({ label, undo, redo });
+      return;
+    }
+
+    this.push({ label, undo, redo });
+  }
+
+  /**
+   * Run a change made of several mutations and record them as one command.
+   * Nested groups join the outermost one.
+   */
+  async group<T>(run: () => Promise<T>, label?: string): Promise<T> {
+    if (this.openGroup || !this.isRecording()) {
+      return run();
+    }
+
+    const group: { label?: string; steps: HistoryStep[] } = { label, steps: [] };
+    this.openGroup = group;
+
+    try {
+      return await run();
+    } finally {
+      this.openGroup = null;
+
+      if (group.steps.length > 0) {
+        const steps = group.steps;
+        this.push({
+          label: group.label || steps[0].label,
+          undo: async () => {
+            for (const step of [...steps].reverse()) {
+              await step.undo();
+            }
+          },
+          redo: async () => {
+            for (const step of steps) {
+              await step.redo();
+            }
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Run mutations without recording them, e.g. when a caller records its own
+   * command for the whole change
+   */
+  async withoutRecording<T>(run: () => Promise<T>): Promise<T> {
+    this.pausedDepth++;
+    try {
+      return await run();
+    } finally {
+      this.pausedDepth--;
+    }
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * The command the next undo() would revert
+   */
+  peekUndo(): HistoryCommand | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  peekRedo(): HistoryCommand | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Revert the latest command, or a specific one (e.g. from an older toast).
+   * Resolves to the reverted command, or null if there was nothing to undo.
+   */
+  undo(command?: HistoryCommand): Promise<HistoryCommand | null> {
+    return this.enqueue(async () => {
+      const target = command || this.peekUndo();
+      const index = target ? this.undoStack.indexOf(target) : -1;
+      if (!target || index === -1) return null;
+
+      // A command that fails to undo is dropped; its records have moved on
+      this.undoStack.splice(index, 1);
+      await this.withoutRecording(target.undo);
+
+      this.redoStack.push(target);
+      this.emit({ type: 'undo', command: target });
+      return target;
+    });
+  }
+
+  /**
+   * Re-apply the most recently undone command
+   */
+  redo(): Promise<HistoryCommand | null> {
+    return this.enqueue(async () => {
+      const target = this.redoStack.pop();
+      if (!target) return null;
+
+      await this.withoutRecording(target.redo);
+
+      this.undoStack.push(target);
+      this.emit({ type: 'redo', command: target });
+      return target;
+    });
+  }
+
+  /**
+   * Forget all history, e.g. when a different account signs in
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emit({ type: 'clear' });
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private push(step: HistoryStep): void {
+    const command: HistoryCommand = { id: `history-${this.nextId++}`, ...step };
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > MAX_HISTORY_SIZE) {
+      this.undoStack.splice(0, this.undoStack.length - MAX_HISTORY_SIZE);
+    }
+    this.redoStack = [];
+
+    this.emit({ type: 'record', command });
+  }
+
+  // Undo and redo run one at a time so repeated shortcuts replay in order
+  private enqueue<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private emit(event: HistoryEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in history listener:', error);
+      }
+    });
+  }
+}
+
+export const historyService = new HistoryService();
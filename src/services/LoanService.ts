@@ -0,0 +1,42 @@
+import { bookRepository } from '@/repositories/BookRepository';
+import { loanRepository } from '@/repositories/LoanRepository';
+import { notificationService } from '@/services/NotificationService';
+import { Loan } from '@/types/loan';
+import { getLoanReminder, getLoansNeedingReminder } from '@/utils/loanUtils';
+
+/**
+ * Service for overdue loan reminders. Each overdue loan raises one 'loan'
+ * notification; the loan then records when it was reminded about so the
+ * reminder is not repeated on every visit.
+ */
+export class LoanService {
+  /**
+   * Raise a reminder for every overdue loan that has not had one yet
+   *
+   * @returns The loans that were reminded about, as they are now
+   */
+  async sendOverdueReminders(loans: Loan[], now = new Date()): Promise<Loan[]> {
+    const reminded: Loan[] = [];
+
+    for (const loan of getLoansNeedingReminder(loans, now)) {
+      const book = await bookRepository.getById(loan.bookId);
+      if (!book) continue;
+
+      const { title, message } = getLoanReminder(loan, book.title, now);
+
+      await notificationService.addNotification({
+        title,
+        message,
+        type: 'loan',
+        bookId: loan.bookId,
+        actionUrl: '/loans',
+      });
+
+      reminded.push(await loanRepository.update(loan.id, { remindedAt: now.toISOString() }));
+    }
+
+    return reminded;
+  }
+}
+
+export const loanService = new LoanService();
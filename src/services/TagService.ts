@@ -0,0 +1,45 @@
+import { bookRepository } from '@/repositories/BookRepository';
+import { HistoryCommand, historyService } from '@/services/HistoryService';
+import { Book } from '@/types/book';
+import { TagAction, describeTagAction, getTagActionPatches } from '@/utils/bookTags';
+
+/** The server changes at most this many books in one bulk update */
+const MAX_BOOKS_PER_UPDATE = 500;
+
+export interface TagActionResult {
+  /** The books the action changed, as they are now */
+  books: Book[];
+  /** The history entry that reverts the whole action */
+  command?: HistoryCommand;
+}
+
+/**
+ * Service for renaming, merging and deleting tags across the library. Books
+ * are updated in bulk, and every change is undone as one history entry.
+ */
+export class TagService {
+  async applyAction(books: Book[], action: TagAction): Promise<TagActionResult> {
+    const patches = getTagActionPatches(books, action);
+    const ids = Object.keys(patches);
+
+    if (ids.length === 0) {
+      return { books: [] };
+    }
+
+    const updatedBooks = await historyService.group(async () => {
+      const updated: Book[] = [];
+
+      for (let start = 0; start < ids.length; start += MAX_BOOKS_PER_UPDATE) {
+        const chunk = ids.slice(start, start + MAX_BOOKS_PER_UPDATE);
+        const chunkPatches = Object.fromEntries(chunk.map(id => [id, patches[id]]));
+        updated.push(...await bookRepository.updateMany(chunk, {}, chunkPatches));
+      }
+
+      return updated;
+    }, describeTagAction(action, ids.length));
+
+    return { books: updatedBooks, command: historyService.peekUndo() };
+  }
+}
+
+export const tagService = new TagService();
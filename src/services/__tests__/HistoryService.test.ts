@@ -0,0 +1,114 @@
+import { HistoryService, MAX_HISTORY_SIZE } from '../HistoryService';
+
+// A counter whose changes are recorded the way the repositories record theirs
+const createCounter = (history: HistoryService) => {
+  const counter = {
+    value: 0,
+    async set(next: number) {
+      const previous = counter.value;
+      counter.value = next;
+      history.record(`Set ${next}`, () => counter.set(previous), () => counter.set(next));
+    },
+  };
+  return counter;
+};
+
+describe('HistoryService', () => {
+  let history: HistoryService;
+  let counter: ReturnType<typeof createCounter>;
+
+  beforeEach(() => {
+    history = new HistoryService();
+    counter = createCounter(history);
+  });
+
+  it('undoes and redoes recorded changes in order', async () => {
+    await counter.set(1);
+    await counter.set(2);
+
+    expect((await history.undo())?.label).toBe('Set 2');
+    expect(counter.value).toBe(1);
+    expect((await history.undo())?.label).toBe('Set 1');
+    expect(counter.value).toBe(0);
+    expect(await history.undo()).toBeNull();
+
+    await history.redo();
+    expect(counter.value).toBe(1);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('does not record the changes made while undoing', async () => {
+    await counter.set(1);
+    await history.undo();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.peekRedo()?.label).toBe('Set 1');
+  });
+
+  it('clears the redo stack when a new change is recorded', async () => {
+    await counter.set(1);
+    await history.undo();
+    await counter.set(5);
+
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('records a group as one command', async () => {
+    await history.group(async () => {
+      await counter.set(1);
+      await counter.set(2);
+      await counter.set(3);
+    }, 'Count up');
+
+    expect(history.peekUndo()?.label).toBe('Count up');
+    await history.undo();
+    expect(counter.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+
+    await history.redo();
+    expect(counter.value).toBe(3);
+  });
+
+  it('skips recording inside withoutRecording', async () => {
+    await history.withoutRecording(() => counter.set(1));
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.isRecording()).toBe(true);
+  });
+
+  it('undoes a specific command from an older notification', async () => {
+    await counter.set(1);
+    const first = history.peekUndo();
+    await counter.set(2);
+
+    await history.undo(first);
+
+    expect(counter.value).toBe(0);
+    expect(history.peekUndo()?.label).toBe('Set 2');
+    expect(await history.undo(first)).toBeNull();
+  });
+
+  it('keeps at most MAX_HISTORY_SIZE commands', async () => {
+    for (let index = 1; index <= MAX_HISTORY_SIZE + 5; index++) {
+      await counter.set(index);
+    }
+
+    let undone = 0;
+    while (await history.undo()) undone++;
+
+    expect(undone).toBe(MAX_HISTORY_SIZE);
+    expect(counter.value).toBe(5);
+  });
+
+  it('notifies subscribers of undo and redo', async () => {
+    const listener = jest.fn();
+    const unsubscribe = history.subscribe(listener);
+
+    await counter.set(1);
+    await history.undo();
+    unsubscribe();
+    await history.redo();
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['record', 'undo']);
+  });
+});
@@ -60,6 +60,7 @@ const ALLOWED_NOTIFICATION_TYPES = new Set<NotificationType>([
   'system',
   'update',
   'alert',
+  'loan',
 ]);
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -1,9 +1,20 @@
 import { Book } from '@/types/book';
+import { BookSearchParams, searchApi } from '@/lib/apiClient';
+import { getStoredAuthToken } from '@/lib/auth-storage';
+import { normalizeGenreData } from '@/utils/genreUtils';
+import {
+  QueryBookContext,
+  QuerySuggestionSource,
+  getCandidateTerms,
+  getPositiveText,
+  matchesQuery,
+  parseQuery
+} from './query';
 
 /**
  * Types of fields that can be searched
  */
-export type SearchableField = 'title' | 'author' | 'genre' | 'notes' | 'seriesName' | 'all';
+export type SearchableField = 'title' | 'author' | 'genre' | 'notes' | 'seriesName' | 'collectionName' | 'all';
 
 /**
  * Search options for advanced search
@@ -28,6 +39,12 @@ export interface SearchResult<T> {
   }[];
 }
 
+/**
+ * Where search results came from: the server's text index or the index of
+ * books on this device
+ */
+export type SearchSource = 'server' | 'local';
+
 /**
  * SearchIndex manages indexing and searching of items
  */
@@ -131,6 +148,23 @@ class SearchIndex<T> {
     this.tokenMap.clear();
   }
 
+  /**
+   * Every indexed item
+   */
+  getItems(): T[] {
+    return [...this.items];
+  }
+
+  /**
+   * Index the same items again, after something the field accessor reads
+   * has changed
+   */
+  rebuild(): void {
+    const items = this.items;
+    this.clear();
+    this.addItems(items);
+  }
+
   /**
    * Search the index
    */
@@ -400,12 +434,29 @@ class SearchIndex<T> {
   }
 }
 
+// The server has no fuzzy matching; its text index matches word stems instead
+const toSearchParams = (query: string, options: SearchOptions): BookSearchParams => ({
+  q: query.trim(),
+  fields: options.fields?.includes('all') ? undefined : options.fields,
+  exact: options.exactMatch || undefined,
+  caseSensitive: options.caseSensitive || undefined,
+  limit: options.limit ? Math.min(options.limit, 100) : undefined,
+});
+
+// The longest q GET /api/search accepts, and the most results it returns
+const MAX_SERVER_QUERY_LENGTH = 200;
+const MAX_SERVER_RESULTS = 100;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
 /**
  * SearchService manages search operations across the application
  */
 export class SearchService {
   private static instance: SearchService;
   private bookIndex: SearchIndex<Book>;
+  private seriesNames = new Map<string, string>();
+  private collectionNames = new Map<string, string>();
   
   private constructor() {
     this.bookIndex = new SearchIndex<Book>(
@@ -427,7 +478,11 @@ export class SearchService {
           author: book.author,
           genre: convertToSearchableString(book.genre),
           notes: book.notes || '',
-          seriesName: book._legacySeriesName || '',  // Use legacy series name field
+          seriesName: (book.seriesId && this.seriesNames.get(book.seriesId)) || book._legacySeriesName || '',
+          collectionName: (book.collectionIds || [])
+            .map(id => this.collectionNames.get(id))
+            .filter(Boolean)
+            .join(' '),
           description: book.description || '',
           status: book.status || '',
           googleId: book.googleBooksId || ''
@@ -481,12 +536,121 @@ export class SearchService {
     this.bookIndex.clear();
   }
 
+  /**
+   * Set the series and collection names books are found by, re-indexing the
+   * books already indexed
+   */
+  public setLibraryNames(
+    series: { id: string; name: string }[],
+    collections: { id: string; name: string }[]
+  ): void {
+    this.seriesNames = new Map(series.map(({ id, name }) => [id, name]));
+    this.collectionNames = new Map(collections.map(({ id, name }) => [id, name]));
+    this.bookIndex.rebuild();
+  }
+
   /**
    * Search for books matching the query
    */
   public searchBooks(query: string, options?: SearchOptions): SearchResult<Book>[] {
     return this.bookIndex.search(query, options);
   }
+
+  /**
+   * Search the library. Signed-in users search the server's text index, which
+   * covers every book plus series and collection names; offline, or if the
+   * server can't be reached, the index on this device is searched instead.
+   */
+  public async searchLibrary(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<{ results: SearchResult<Book>[]; source: SearchSource }> {
+    if (query.trim() && getStoredAuthToken() && isOnline()) {
+      try {
+        const { results } = await searchApi.books(toSearchParams(query, options));
+        return {
+          results: results.map(result => ({ ...result, item: result.item as Book })),
+          source: 'server',
+        };
+      } catch (error) {
+        console.warn('Server search failed, searching this device instead:', error);
+      }
+    }
+
+    return { results: this.searchBooks(query, options), source: 'local' };
+  }
+
+  /**
+   * Search the library with a structured query such as
+   * `author:"Le Guin" rating:>=4 -genre:horror`. Signed in, the server's text
+   * search finds candidates for the query's words and each is checked against
+   * the whole query. Queries without words every match must contain, like
+   * `status:reading`, words with more candidates than the server returns, and
+   * searches while offline check every book on this device. Throws a
+   * QuerySyntaxError for a query that can't be read.
+   */
+  public async searchQuery(
+    input: string,
+    options: { limit?: number } = {}
+  ): Promise<{ results: SearchResult<Book>[]; source: SearchSource }> {
+    const query = parseQuery(input);
+    const context = this.getQueryContext();
+    const candidateQuery = (getCandidateTerms(query) || []).join(' ');
+
+    if (candidateQuery && candidateQuery.length <= MAX_SERVER_QUERY_LENGTH && getStoredAuthToken() && isOnline()) {
+      try {
+        const { results } = await searchApi.books({ q: candidateQuery, limit: MAX_SERVER_RESULTS });
+
+        // A full page may have left out candidates that match the whole query
+        if (results.length < MAX_SERVER_RESULTS) {
+          const matches = results
+            .map(result => ({ ...result, item: result.item as Book }))
+            .filter(result => matchesQuery(query, result.item, context));
+
+          return { results: options.limit ? matches.slice(0, options.limit) : matches, source: 'server' };
+        }
+      } catch (error) {
+        console.warn('Server search failed, searching this device instead:', error);
+      }
+    }
+
+    // Rank by the words searched for; books matched only on fields like
+    // status or rating come after, by title
+    const text = getPositiveText(query).join(' ');
+    const ranked = new Map(text ? this.searchBooks(text).map(result => [result.item.id, result]) : []);
+    const results = this.bookIndex
+      .getItems()
+      .filter(book => matchesQuery(query, book, context))
+      .map(book => ranked.get(book.id) ?? { item: book, score: 0, matches: [] })
+      .sort((left, right) => right.score - left.score || left.item.title.localeCompare(right.item.title));
+
+    return { results: options.limit ? results.slice(0, options.limit) : results, source: 'local' };
+  }
+
+  /**
+   * Authors, genres, tags, series and collections to suggest while typing a query
+   */
+  public getQuerySuggestionSource(): QuerySuggestionSource {
+    const books = this.bookIndex.getItems();
+
+    return {
+      authors: Array.from(new Set(books.map(book => book.author).filter(Boolean))),
+      genres: Array.from(new Set(books.flatMap(book => normalizeGenreData(book.genre)))),
+      tags: Array.from(new Set(books.flatMap(book => book.tags || []))),
+      series: Array.from(new Set(this.seriesNames.values())),
+      collections: Array.from(new Set(this.collectionNames.values())),
+    };
+  }
+
+  private getQueryContext(): QueryBookContext {
+    return {
+      seriesName: book => (book.seriesId ? this.seriesNames.get(book.seriesId) : undefined),
+      collectionNames: book =>
+        (book.collectionIds || [])
+          .map(id => this.collectionNames.get(id))
+          .filter((name): name is string => Boolean(name)),
+    };
+  }
 }
 
 // Create and export the singleton instance
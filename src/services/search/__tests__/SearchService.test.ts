@@ -0,0 +1,188 @@
+jest.mock('@/lib/apiClient', () => ({
+  searchApi: { books: jest.fn() },
+}));
+
+jest.mock('@/lib/auth-storage', () => ({
+  getStoredAuthToken: jest.fn(),
+}));
+
+import { searchService } from '../SearchService';
+import { searchApi } from '@/lib/apiClient';
+import { getStoredAuthToken } from '@/lib/auth-storage';
+import type { Book } from '@/types/book';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book-1',
+  title: 'A Wizard of Earthsea',
+  author: 'Ursula K. Le Guin',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  ...overrides,
+});
+
+describe('SearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    searchService.clearIndex();
+    searchService.setLibraryNames([], []);
+    (getStoredAuthToken as jest.Mock).mockReturnValue(null);
+  });
+
+  it('finds books by the name of their series and collections', () => {
+    searchService.indexBooks([
+      book({ seriesId: 'series-1', collectionIds: ['collection-1'] }),
+      book({ id: 'book-2', title: 'Dune', author: 'Frank Herbert' }),
+    ]);
+    searchService.setLibraryNames(
+      [{ id: 'series-1', name: 'Earthsea Cycle' }],
+      [{ id: 'collection-1', name: 'Comfort reads' }]
+    );
+
+    const bySeries = searchService.searchBooks('cycle', { fields: ['seriesName'], fuzzy: false });
+    const byCollection = searchService.searchBooks('comfort', { fields: ['collectionName'], fuzzy: false });
+
+    expect(bySeries.map(result => result.item.id)).toEqual(['book-1']);
+    expect(byCollection.map(result => result.item.id)).toEqual(['book-1']);
+  });
+
+  it('searches the server while signed in', async () => {
+    const serverResult = { item: book({}), score: 10, matches: [] };
+    (getStoredAuthToken as jest.Mock).mockReturnValue('token');
+    (searchApi.books as jest.Mock).mockResolvedValue({ results: [serverResult] });
+
+    const { results, source } = await searchService.searchLibrary('wizard', {
+      fields: ['title', 'seriesName'],
+      exactMatch: true,
+      limit: 500,
+    });
+
+    expect(searchApi.books).toHaveBeenCalledWith({
+      q: 'wizard',
+      fields: ['title', 'seriesName'],
+      exact: true,
+      caseSensitive: undefined,
+      limit: 100,
+    });
+    expect(source).toBe('server');
+    expect(results).toEqual([serverResult]);
+  });
+
+  it('falls back to the local index when the server search fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    searchService.indexBooks([book({})]);
+    (getStoredAuthToken as jest.Mock).mockReturnValue('token');
+    (searchApi.books as jest.Mock).mockRejectedValue(new Error('Network down'));
+
+    const { results, source } = await searchService.searchLibrary('wizard');
+
+    expect(source).toBe('local');
+    expect(results.map(result => result.item.id)).toEqual(['book-1']);
+  });
+
+  it('searches locally when signed out', async () => {
+    searchService.indexBooks([book({})]);
+
+    const { source } = await searchService.searchLibrary('wizard');
+
+    expect(searchApi.books).not.toHaveBeenCalled();
+    expect(source).toBe('local');
+  });
+
+  describe('searchQuery', () => {
+    const library = [
+      book({ status: 'completed', rating: 5, seriesId: 'series-1' }),
+      book({ id: 'book-2', title: 'Dune', author: 'Frank Herbert', status: 'completed', rating: 4 }),
+      book({ id: 'book-3', title: 'The Tombs of Atuan', status: 'reading', seriesId: 'series-1' }),
+    ];
+
+    beforeEach(() => {
+      searchService.indexBooks(library);
+      searchService.setLibraryNames([{ id: 'series-1', name: 'Earthsea Cycle' }], []);
+    });
+
+    it('checks every book on this device for queries without words', async () => {
+      (getStoredAuthToken as jest.Mock).mockReturnValue('token');
+
+      const { results, source } = await searchService.searchQuery('status:completed rating:>=4 -series:earthsea');
+
+      expect(searchApi.books).not.toHaveBeenCalled();
+      expect(source).toBe('local');
+      expect(results.map(result => result.item.id)).toEqual(['book-2']);
+    });
+
+    it('ranks local matches by the words searched for, then by title', async () => {
+      const { results } = await searchService.searchQuery('tombs OR status:completed');
+
+      expect(results.map(result => result.item.id)).toEqual(['book-3', 'book-1', 'book-2']);
+    });
+
+    it('narrows the library with the server search and checks the whole query', async () => {
+      (getStoredAuthToken as jest.Mock).mockReturnValue('token');
+      (searchApi.books as jest.Mock).mockResolvedValue({
+        results: [
+          { item: library[0], score: 12, matches: [] },
+          { item: library[2], score: 8, matches: [] },
+        ],
+      });
+
+      const { results, source } = await searchService.searchQuery('author:"Le Guin" status:reading');
+
+      expect(searchApi.books).toHaveBeenCalledWith({ q: 'le guin', limit: 100 });
+      expect(source).toBe('server');
+      expect(results.map(result => result.item.id)).toEqual(['book-3']);
+    });
+
+    it('checks every book on this device when the server returns a full page of candidates', async () => {
+      (getStoredAuthToken as jest.Mock).mockReturnValue('token');
+      (searchApi.books as jest.Mock).mockResolvedValue({
+        results: Array.from({ length: 100 }, (_, index) => ({
+          item: book({ id: `other-${index}`, author: 'Ursula K. Le Guin', status: 'completed' }),
+          score: 12,
+          matches: [],
+        })),
+      });
+
+      const { results, source } = await searchService.searchQuery('author:"Le Guin" status:reading');
+
+      expect(searchApi.books).toHaveBeenCalled();
+      expect(source).toBe('local');
+      expect(results.map(result => result.item.id)).toEqual(['book-3']);
+    });
+
+    it('keeps server candidates matched only by a tag', async () => {
+      const signed = book({ id: 'book-4', title: 'Rocannon\'s World', tags: ['signed'] });
+      (getStoredAuthToken as jest.Mock).mockReturnValue('token');
+      (searchApi.books as jest.Mock).mockResolvedValue({
+        results: [{ item: signed, score: 4, matches: [] }],
+      });
+
+      const { results, source } = await searchService.searchQuery('tag:signed');
+
+      expect(searchApi.books).toHaveBeenCalledWith({ q: 'signed', limit: 100 });
+      expect(source).toBe('server');
+      expect(results.map(result => result.item.id)).toEqual(['book-4']);
+    });
+
+    it('throws for a query it cannot read', async () => {
+      await expect(searchService.searchQuery('rating:lots')).rejects.toThrow(
+        'rating expects a number, e.g. rating:>=4 or rating:3..5 at column 8'
+      );
+    });
+  });
+
+  it('suggests authors, genres, tags, series and collections from the library', () => {
+    searchService.indexBooks([
+      book({ genre: 'Fantasy', tags: ['signed'] }),
+      book({ id: 'book-2', genre: ['Fantasy', 'Classics'], tags: ['signed', 'first edition'] }),
+    ]);
+    searchService.setLibraryNames([{ id: 'series-1', name: 'Earthsea Cycle' }], [{ id: 'collection-1', name: 'Comfort reads' }]);
+
+    expect(searchService.getQuerySuggestionSource()).toEqual({
+      authors: ['Ursula K. Le Guin'],
+      genres: ['Fantasy', 'Classics'],
+      tags: ['signed', 'first edition'],
+      series: ['Earthsea Cycle'],
+      collections: ['Comfort reads'],
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { applyQuerySuggestion, getQuerySuggestions, QuerySuggestionSource } from '../autocomplete';
+
+const source: QuerySuggestionSource = {
+  authors: ['Ursula K. Le Guin', 'Frank Herbert', 'Ursula K. Le Guin'],
+  genres: ['Fantasy', 'Science Fiction', 'Horror'],
+  series: ['Earthsea Cycle', 'Dune'],
+  collections: ['Comfort reads'],
+};
+
+// The cursor goes where the | is
+const suggest = (input: string) => {
+  const cursor = input.indexOf('|');
+  return getQuerySuggestions(input.replace('|', ''), cursor, source);
+};
+
+const labels = (input: string) => suggest(input).suggestions.map(suggestion => suggestion.label);
+
+describe('getQuerySuggestions', () => {
+  it('suggests field names by name or alias', () => {
+    expect(labels('sta|')).toEqual(['status:', 'rating:']);
+    expect(labels('wizard p|')).toEqual(['pages:', 'published:']);
+    expect(labels('by|')).toEqual(['author:']);
+    expect(suggest('dune -ra|')).toMatchObject({ from: 6, to: 8 });
+  });
+
+  it('suggests nothing for an empty term or a phrase', () => {
+    expect(labels('|')).toEqual([]);
+    expect(labels('dune |')).toEqual([]);
+    expect(labels('"the h|')).toEqual([]);
+  });
+
+  it('suggests status values', () => {
+    expect(labels('status:|')).toEqual(['reading', 'completed', 'want-to-read', 'on-hold', 'dnf']);
+    expect(labels('is:w|')).toEqual(['want-to-read']);
+  });
+
+  it('suggests known values, starting matches first, without repeats', () => {
+    expect(labels('author:|')).toEqual(['Frank Herbert', 'Ursula K. Le Guin']);
+    expect(labels('genre:f|')).toEqual(['Fantasy', 'Science Fiction']);
+    expect(labels('(series:"earth|')).toEqual(['Earthsea Cycle']);
+  });
+
+  it('replaces the value, quoting values with spaces', () => {
+    const suggestions = suggest('-author:gu| dune');
+
+    expect(suggestions).toMatchObject({ from: 8, to: 10 });
+    expect(suggestions.suggestions).toEqual([{ label: 'Ursula K. Le Guin', insert: '"Ursula K. Le Guin" ' }]);
+  });
+
+  it('drops a suggestion that is already typed in full', () => {
+    expect(labels('series:dune|')).toEqual([]);
+  });
+
+  it('suggests nothing for unknown fields and fields without known values', () => {
+    expect(labels('colour:r|')).toEqual([]);
+    expect(labels('rating:>|')).toEqual([]);
+  });
+});
+
+describe('applyQuerySuggestion', () => {
+  it('replaces the term at the cursor and moves the cursor after it', () => {
+    const input = 'dune stat rating:5';
+    const suggestions = getQuerySuggestions(input, 8, source);
+
+    expect(applyQuerySuggestion(input, suggestions, suggestions.suggestions[0])).toEqual({
+      value: 'dune status: rating:5',
+      cursor: 12,
+    });
+  });
+
+  it('inserts values after the field', () => {
+    const input = 'genre:sci';
+    const suggestions = getQuerySuggestions(input, input.length, source);
+
+    expect(applyQuerySuggestion(input, suggestions, suggestions.suggestions[0])).toEqual({
+      value: 'genre:"Science Fiction" ',
+      cursor: 24,
+    });
+  });
+});
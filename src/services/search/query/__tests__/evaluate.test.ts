@@ -0,0 +1,136 @@
+import { Book } from '@/types/book';
+import { getCandidateTerms, getPositiveText, matchesQuery } from '../evaluate';
+import { QueryBookContext } from '../fields';
+import { parseQuery } from '../parser';
+
+const book = (overrides: Partial<Book> = {}): Book => ({
+  id: 'book-1',
+  title: 'A Wizard of Earthsea',
+  author: 'Ursula K. Le Guin',
+  genre: ['Fantasy', 'Young Adult'],
+  status: 'completed',
+  rating: 5,
+  pageCount: 183,
+  addedDate: '2025-03-14T10:00:00.000Z',
+  completedDate: '2025-04-02T21:30:00.000Z',
+  publishedDate: '1968',
+  isbn13: ['9780547773742'],
+  seriesId: 'series-1',
+  collectionIds: ['collection-1'],
+  spineColor: 1,
+  ...overrides,
+});
+
+const context: QueryBookContext = {
+  seriesName: candidate => (candidate.seriesId === 'series-1' ? 'Earthsea Cycle' : undefined),
+  collectionNames: candidate => (candidate.collectionIds?.includes('collection-1') ? ['Comfort reads'] : []),
+};
+
+const matches = (input: string, overrides: Partial<Book> = {}) =>
+  matchesQuery(parseQuery(input), book(overrides), context);
+
+describe('matchesQuery', () => {
+  it('matches the example query', () => {
+    expect(
+      matches('author:"Le Guin" status:completed rating:>=4 pages:<300 genre:fantasy -genre:horror added:2025 series:"Earthsea"')
+    ).toBe(true);
+    expect(matches('author:"Le Guin" -genre:"young adult"')).toBe(false);
+  });
+
+  it('matches everything for an empty query', () => {
+    expect(matchesQuery(null, book())).toBe(true);
+  });
+
+  it('matches words at the start of words, ignoring case', () => {
+    expect(matches('wiz')).toBe(true);
+    expect(matches('author:guin')).toBe(true);
+    expect(matches('author:uin')).toBe(false);
+    expect(matches('title:"wizard of"')).toBe(true);
+    expect(matches('title:"wizard earthsea"')).toBe(false);
+  });
+
+  it('looks in series and collection names, for fields and plain words', () => {
+    expect(matches('series:cycle')).toBe(true);
+    expect(matches('collection:comfort')).toBe(true);
+    expect(matches('comfort')).toBe(true);
+    expect(matches('series:cycle', { seriesId: undefined, _legacySeriesName: 'Old Cycle' })).toBe(true);
+    expect(matches('collection:comfort', { collectionIds: [] })).toBe(false);
+  });
+
+  it('matches genres stored as a string or a list', () => {
+    expect(matches('genre:fantasy', { genre: 'Fantasy' })).toBe(true);
+    expect(matches('genre:fantasy', { genre: undefined })).toBe(false);
+  });
+
+  it('matches statuses exactly', () => {
+    expect(matches('status:read')).toBe(true);
+    expect(matches('status:reading')).toBe(false);
+    expect(matches('status:reading', { status: undefined })).toBe(false);
+  });
+
+  it('compares numbers and skips books without them', () => {
+    expect(matches('rating:5')).toBe(true);
+    expect(matches('rating:>5')).toBe(false);
+    expect(matches('rating:3..5')).toBe(true);
+    expect(matches('pages:<183')).toBe(false);
+    expect(matches('pages:<=183')).toBe(true);
+    expect(matches('rating:<3', { rating: undefined })).toBe(false);
+  });
+
+  it('compares dates by day', () => {
+    expect(matches('added:2025-03-14')).toBe(true);
+    expect(matches('added:<2025-03-14')).toBe(false);
+    expect(matches('added:>2025-03')).toBe(false);
+    expect(matches('completed:2025-01..2025-04')).toBe(true);
+    expect(matches('completed:2025', { completedDate: undefined })).toBe(false);
+  });
+
+  it('reads partial published dates from their first day', () => {
+    expect(matches('published:1968')).toBe(true);
+    expect(matches('published:1968-01')).toBe(true);
+    expect(matches('published:>=1968-02')).toBe(false);
+    expect(matches('published:1968-06', { publishedDate: '1968-06' })).toBe(true);
+  });
+
+  it('matches ISBNs in either form', () => {
+    expect(matches('isbn:978-0-547-77374-2')).toBe(true);
+    expect(matches('isbn:0547773749')).toBe(true);
+    expect(matches('isbn:9780000000002')).toBe(false);
+  });
+
+  it('combines terms with OR, NOT and parentheses', () => {
+    expect(matches('status:reading OR rating:5')).toBe(true);
+    expect(matches('-(status:reading OR rating:5)')).toBe(false);
+    expect(matches('NOT dune')).toBe(true);
+    expect(matches('(dune OR wizard) author:guin')).toBe(true);
+  });
+});
+
+describe('getCandidateTerms', () => {
+  const terms = (input: string) => getCandidateTerms(parseQuery(input));
+
+  it('collects the words of text terms', () => {
+    expect(terms('author:"Le Guin" status:completed wizard')).toEqual(['le', 'guin', 'wizard']);
+  });
+
+  it('is null when a match need not contain any word', () => {
+    expect(terms('')).toBeNull();
+    expect(terms('status:completed rating:>=4')).toBeNull();
+    expect(terms('-wizard')).toBeNull();
+    expect(terms('wizard OR status:reading')).toBeNull();
+    expect(terms('isbn:9780547773742')).toBeNull();
+  });
+
+  it('needs every side of an OR to have words', () => {
+    expect(terms('wizard OR author:tolkien')).toEqual(['wizard', 'tolkien']);
+  });
+});
+
+describe('getPositiveText', () => {
+  it('skips negated terms and fields without text', () => {
+    expect(getPositiveText(parseQuery('wizard -dune author:"Le Guin" rating:5 isbn:123'))).toEqual([
+      'wizard',
+      'Le Guin',
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+import { QuerySyntaxError, tokenizeQuery } from '../tokenizer';
+import { hasQuerySyntax, parseQuery, QueryNode } from '../parser';
+
+// Positions make the trees noisy; most tests only care about the shape
+const strip = (node: QueryNode | null): unknown => {
+  if (!node) return node;
+  const { start, end, ...rest } = node;
+  if (rest.type === 'and' || rest.type === 'or') return { ...rest, children: rest.children.map(strip) };
+  if (rest.type === 'not') return { ...rest, child: strip(rest.child) };
+  return rest;
+};
+
+const parse = (input: string) => strip(parseQuery(input));
+
+const syntaxError = (input: string): QuerySyntaxError => {
+  try {
+    parseQuery(input);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${input}" not to parse`);
+};
+
+describe('tokenizeQuery', () => {
+  it('splits words, phrases, fields, keywords and parentheses with their positions', () => {
+    expect(tokenizeQuery('(dune OR "the hobbit") -author:>=x')).toEqual([
+      { type: 'lparen', start: 0, end: 1 },
+      { type: 'word', value: 'dune', start: 1, end: 5 },
+      { type: 'or', start: 6, end: 8 },
+      { type: 'phrase', value: 'the hobbit', start: 9, end: 21 },
+      { type: 'rparen', start: 21, end: 22 },
+      { type: 'not', start: 23, end: 24 },
+      {
+        type: 'field',
+        name: 'author',
+        comparator: '>=',
+        value: 'x',
+        quoted: false,
+        start: 24,
+        valueStart: 33,
+        end: 34,
+      },
+    ]);
+  });
+
+  it('reads quoted field values with spaces', () => {
+    expect(tokenizeQuery('series:"Earthsea Cycle"')).toEqual([
+      expect.objectContaining({ type: 'field', name: 'series', value: 'Earthsea Cycle', quoted: true, end: 23 }),
+    ]);
+  });
+
+  it('only treats capitalized keywords as keywords', () => {
+    expect(tokenizeQuery('or not and').map(token => token.type)).toEqual(['word', 'word', 'word']);
+    expect(tokenizeQuery('a AND NOT b').map(token => token.type)).toEqual(['word', 'and', 'not', 'word']);
+  });
+
+  it('keeps hyphens inside words and a lone minus as a word', () => {
+    expect(tokenizeQuery('sci-fi - x')).toEqual([
+      { type: 'word', value: 'sci-fi', start: 0, end: 6 },
+      { type: 'word', value: '-', start: 7, end: 8 },
+      { type: 'word', value: 'x', start: 9, end: 10 },
+    ]);
+  });
+
+  it('reports an unclosed quote where it opens', () => {
+    expect(() => tokenizeQuery('title:"dune')).toThrow('Missing closing quote at column 7');
+  });
+});
+
+describe('parseQuery', () => {
+  it('parses the example query into field conditions joined by AND', () => {
+    expect(
+      parse('author:"Le Guin" status:completed rating:>=4 pages:<300 genre:fantasy -genre:horror added:2025 series:"Earthsea"')
+    ).toEqual({
+      type: 'and',
+      children: [
+        { type: 'field', field: 'author', kind: 'text', value: 'Le Guin', phrase: true },
+        { type: 'field', field: 'status', kind: 'enum', value: 'completed' },
+        { type: 'field', field: 'rating', kind: 'number', range: { min: 4 } },
+        { type: 'field', field: 'pages', kind: 'number', range: { max: 300, maxExclusive: true } },
+        { type: 'field', field: 'genre', kind: 'text', value: 'fantasy', phrase: false },
+        { type: 'not', child: { type: 'field', field: 'genre', kind: 'text', value: 'horror', phrase: false } },
+        { type: 'field', field: 'added', kind: 'date', range: { from: '2025-01-01', before: '2026-01-01' } },
+        { type: 'field', field: 'series', kind: 'text', value: 'Earthsea', phrase: true },
+      ],
+    });
+  });
+
+  it('returns null for an empty query', () => {
+    expect(parseQuery('')).toBeNull();
+    expect(parseQuery('   ')).toBeNull();
+  });
+
+  it('parses plain words and phrases as text terms', () => {
+    expect(parse('dune')).toEqual({ type: 'text', value: 'dune', phrase: false });
+    expect(parse('"the left hand"')).toEqual({ type: 'text', value: 'the left hand', phrase: true });
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parse('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            { type: 'text', value: 'a', phrase: false },
+            { type: 'text', value: 'b', phrase: false },
+          ],
+        },
+        { type: 'text', value: 'c', phrase: false },
+      ],
+    });
+  });
+
+  it('treats an explicit AND like a space', () => {
+    expect(parse('a AND b')).toEqual(parse('a b'));
+  });
+
+  it('groups with parentheses', () => {
+    expect(parse('a (b OR c)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', value: 'a', phrase: false },
+        {
+          type: 'or',
+          children: [
+            { type: 'text', value: 'b', phrase: false },
+            { type: 'text', value: 'c', phrase: false },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('negates with NOT or a minus, including groups', () => {
+    expect(parse('NOT status:dnf')).toEqual(parse('-status:dnf'));
+    expect(parse('-(a OR b)')).toEqual({
+      type: 'not',
+      child: {
+        type: 'or',
+        children: [
+          { type: 'text', value: 'a', phrase: false },
+          { type: 'text', value: 'b', phrase: false },
+        ],
+      },
+    });
+  });
+
+  it('records where each node starts and ends', () => {
+    const node = parseQuery('dune -(a OR b)');
+
+    expect(node).toMatchObject({
+      type: 'and',
+      start: 0,
+      end: 14,
+      children: [
+        { type: 'text', start: 0, end: 4 },
+        { type: 'not', start: 5, end: 14, child: { type: 'or', start: 6, end: 14 } },
+      ],
+    });
+  });
+
+  it('resolves field aliases and is case-insensitive about names', () => {
+    expect(parse('by:tolkien')).toEqual({ type: 'field', field: 'author', kind: 'text', value: 'tolkien', phrase: false });
+    expect(parse('STATUS:Reading')).toEqual({ type: 'field', field: 'status', kind: 'enum', value: 'reading' });
+    expect(parse('is:tbr')).toEqual({ type: 'field', field: 'status', kind: 'enum', value: 'want-to-read' });
+    expect(parse('finished:2024')).toMatchObject({ field: 'completed' });
+  });
+
+  describe('numbers', () => {
+    it.each([
+      ['rating:4', { min: 4, max: 4 }],
+      ['rating:=4', { min: 4, max: 4 }],
+      ['rating:>4', { min: 4, minExclusive: true }],
+      ['rating:>=4', { min: 4 }],
+      ['rating:<4', { max: 4, maxExclusive: true }],
+      ['rating:<=4.5', { max: 4.5 }],
+      ['pages:100..300', { min: 100, max: 300 }],
+      ['pages:100..', { min: 100, max: undefined }],
+      ['pages:..300', { min: undefined, max: 300 }],
+    ])('parses %s', (input, range) => {
+      expect(parse(input)).toMatchObject({ kind: 'number', range });
+    });
+
+    it.each([
+      ['rating:four', 'rating expects a number, e.g. rating:>=4 or rating:3..5 at column 8'],
+      ['pages:300..100', 'pages range starts after it ends at column 7'],
+      ['pages:1..2..3', 'pages ranges look like pages:low..high at column 7'],
+      ['pages:>1..2', 'pages ranges look like pages:low..high at column 8'],
+      ['pages:..', 'pages ranges look like pages:low..high at column 7'],
+    ])('rejects %s', (input, message) => {
+      expect(syntaxError(input).message).toBe(message);
+    });
+  });
+
+  describe('dates', () => {
+    it.each([
+      ['added:2025', { from: '2025-01-01', before: '2026-01-01' }],
+      ['added:2025-02', { from: '2025-02-01', before: '2025-03-01' }],
+      ['added:2024-12', { from: '2024-12-01', before: '2025-01-01' }],
+      ['added:2024-02-29', { from: '2024-02-29', before: '2024-03-01' }],
+      ['added:>=2025-03', { from: '2025-03-01' }],
+      ['added:>2025', { from: '2026-01-01' }],
+      ['added:<=2025-03', { before: '2025-04-01' }],
+      ['added:<2025', { before: '2025-01-01' }],
+      ['added:2024..2025-06', { from: '2024-01-01', before: '2025-07-01' }],
+      ['published:..1970', { from: undefined, before: '1971-01-01' }],
+    ])('parses %s', (input, range) => {
+      expect(parse(input)).toMatchObject({ kind: 'date', range });
+    });
+
+    it.each(['added:2025-13', 'added:2025-02-30', 'added:25', 'added:yesterday'])('rejects %s', input => {
+      expect(syntaxError(input).message).toBe('added expects a date like 2025, 2025-03 or 2025-03-14 at column 7');
+    });
+
+    it('rejects a range that ends before it starts', () => {
+      expect(syntaxError('completed:2025..2024').message).toBe('completed range starts after it ends at column 11');
+    });
+  });
+
+  describe('errors', () => {
+    it('names unknown fields and underlines the name', () => {
+      const error = syntaxError('dune colour:red');
+
+      expect(error.message).toMatch(/^Unknown field "colour"; try one of title, author, .* at column 6$/);
+      expect([error.position, error.end]).toEqual([5, 11]);
+    });
+
+    it('lists the allowed values for an unknown status', () => {
+      expect(syntaxError('status:done').message).toBe(
+        'Unknown status "done"; expected one of reading, completed, want-to-read, on-hold, dnf at column 8'
+      );
+    });
+
+    it('requires a value after a field', () => {
+      expect(syntaxError('author: dune').message).toBe('Expected a value after author: at column 8');
+      expect(syntaxError('author:""').message).toBe('Expected a value after author: at column 8');
+    });
+
+    it('rejects comparisons on text and status', () => {
+      const error = syntaxError('title:>dune');
+
+      expect(error.message).toBe("title can't be compared with > at column 7");
+      expect([error.position, error.end]).toEqual([6, 7]);
+    });
+
+    it.each([
+      ['dune OR', 'Expected a search term after OR at column 8'],
+      ['OR dune', 'Expected a search term at column 1'],
+      ['dune AND', 'Expected a search term after AND at column 9'],
+      ['NOT', 'Expected a search term after NOT at column 4'],
+      ['dune NOT', 'Expected a search term after NOT at column 9'],
+      ['dune ()', 'Expected a search term at column 7'],
+      ['(dune', 'Missing ) to close ( at column 1'],
+      ['dune)', 'Unexpected ) at column 5'],
+      ['a OR OR b', 'Expected a search term after OR at column 6'],
+      ['""', 'Expected text between the quotes at column 1'],
+    ])('reports %s', (input, message) => {
+      expect(syntaxError(input).message).toBe(message);
+    });
+  });
+});
+
+describe('hasQuerySyntax', () => {
+  it('is false for plain words', () => {
+    expect(hasQuerySyntax('wizard of earthsea')).toBe(false);
+    expect(hasQuerySyntax('sci-fi')).toBe(false);
+  });
+
+  it.each(['author:tolkien', '"the hobbit"', 'a OR b', '-horror', '(a b)', 'title:"unclosed'])(
+    'is true for %s',
+    input => {
+      expect(hasQuerySyntax(input)).toBe(true);
+    }
+  );
+});
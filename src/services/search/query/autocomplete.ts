@@ -0,0 +1,130 @@
+import { QUERY_FIELDS, QueryFieldName, findQueryField } from './fields';
+
+/**
+ * Values the library already has, offered while typing a field's value
+ */
+export interface QuerySuggestionSource {
+  authors?: string[];
+  genres?: string[];
+  tags?: string[];
+  series?: string[];
+  collections?: string[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  /** Replaces the input from `from` to `to` */
+  insert: string;
+  description?: string;
+}
+
+export interface QuerySuggestions {
+  from: number;
+  to: number;
+  suggestions: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+const VALUE_SOURCES: Partial<Record<QueryFieldName, keyof QuerySuggestionSource>> = {
+  author: 'authors',
+  genre: 'genres',
+  tag: 'tags',
+  series: 'series',
+  collection: 'collections',
+};
+
+const quoteIfNeeded = (value: string) => (/[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/**
+ * The start of the term the cursor is in. Spaces inside an open quote belong
+ * to the term.
+ */
+function findTermStart(input: string, cursor: number): number {
+  let start = 0;
+  let quoted = false;
+
+  for (let index = 0; index < cursor; index++) {
+    const char = input[index];
+
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (/\s/.test(char) || char === '(' || char === ')')) {
+      start = index + 1;
+    }
+  }
+
+  return start;
+}
+
+/**
+ * Field names and known values that complete the term at the cursor
+ */
+export function getQuerySuggestions(
+  input: string,
+  cursor: number,
+  source: QuerySuggestionSource = {}
+): QuerySuggestions {
+  let from = findTermStart(input, cursor);
+  const none = { from, to: cursor, suggestions: [] };
+
+  if (input[from] === '-') from++;
+
+  const term = input.slice(from, cursor);
+  const colon = term.indexOf(':');
+
+  if (colon === -1) {
+    const prefix = term.toLowerCase();
+    if (!prefix || term.startsWith('"')) return none;
+
+    const suggestions = QUERY_FIELDS
+      .filter(field => [field.name, ...(field.aliases || [])].some(name => name.startsWith(prefix)))
+      .map(field => ({ label: `${field.name}:`, insert: `${field.name}:`, description: field.description }));
+
+    return { from, to: cursor, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  const field = findQueryField(term.slice(0, colon));
+  if (!field) return none;
+
+  const valueFrom = from + colon + 1;
+  const prefix = input.slice(valueFrom, cursor).replace(/^"/, '').toLowerCase();
+  const sourceKey = VALUE_SOURCES[field.name];
+  const values = field.values
+    ? field.values.map(value => value.value)
+    : sourceKey
+      ? Array.from(new Set(source[sourceKey] || [])).sort((left, right) => left.localeCompare(right))
+      : [];
+
+  // Values starting with what's typed come first, then ones containing it
+  const matches = [
+    ...values.filter(value => value.toLowerCase().startsWith(prefix)),
+    ...values.filter(value => !value.toLowerCase().startsWith(prefix) && value.toLowerCase().includes(prefix)),
+  ];
+
+  return {
+    from: valueFrom,
+    to: cursor,
+    suggestions: matches
+      .filter(value => value.toLowerCase() !== prefix)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({ label: value, insert: `${quoteIfNeeded(value)} ` })),
+  };
+}
+
+/**
+ * The input with a suggestion applied, and where the cursor goes after it
+ */
+export function applyQuerySuggestion(
+  input: string,
+  { from, to }: Pick<QuerySuggestions, 'from' | 'to'>,
+  suggestion: QuerySuggestion
+): { value: string; cursor: number } {
+  // Replace the rest of the term after the cursor too
+  let end = to;
+  while (end < input.length && !/[\s()]/.test(input[end])) end++;
+
+  return {
+    value: input.slice(0, from) + suggestion.insert + input.slice(end),
+    cursor: from + suggestion.insert.length,
+  };
+}
@@ -0,0 +1,167 @@
+import { Book } from '@/types/book';
+import { cleanISBN, normalizeISBN } from '@/utils/isbn';
+import { normalizeGenreData } from '@/utils/genreUtils';
+import { QueryBookContext, QueryFieldName } from './fields';
+import { DateRange, FieldNode, NumberRange, QueryNode } from './parser';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const toWords = (text: string): string[] => text.toLowerCase().match(WORD_PATTERN) ?? [];
+
+/**
+ * Whether text contains the value: a phrase anywhere in it, or every word of
+ * the value at the start of one of its words, so "guin" finds "Le Guin"
+ */
+function matchesText(text: string | undefined, value: string, phrase: boolean): boolean {
+  if (!text) return false;
+
+  if (phrase) {
+    return text.toLowerCase().includes(value.toLowerCase().trim());
+  }
+
+  const words = toWords(text);
+  return toWords(value).every(term => words.some(word => word.startsWith(term)));
+}
+
+function getTextValue(field: QueryFieldName, book: Book, context: QueryBookContext): string | undefined {
+  switch (field) {
+    case 'title':
+      return book.title;
+    case 'author':
+      return book.author;
+    case 'genre':
+      return normalizeGenreData(book.genre).join(', ');
+    case 'tag':
+      return book.tags?.join(', ');
+    case 'series':
+      return context.seriesName?.(book) || book._legacySeriesName;
+    case 'collection':
+      return context.collectionNames?.(book).join(', ');
+    case 'notes':
+      return book.notes;
+    case 'description':
+      return book.description;
+    default:
+      return undefined;
+  }
+}
+
+// Text terms without a field look everywhere a plain search does
+const ANY_TEXT_FIELDS: QueryFieldName[] = ['title', 'author', 'genre', 'tag', 'series', 'collection', 'notes', 'description'];
+
+function matchesISBN(book: Book, value: string): boolean {
+  const wanted = normalizeISBN(value) ?? cleanISBN(value);
+  const isbns = [...(book.isbn10 || []), ...(book.isbn13 || [])];
+
+  return Boolean(wanted) && isbns.some(isbn => (normalizeISBN(isbn) ?? cleanISBN(isbn)) === wanted);
+}
+
+function inNumberRange(value: number | undefined, range: NumberRange): boolean {
+  if (value === undefined || value === null) return false;
+
+  if (range.min !== undefined && (range.minExclusive ? value <= range.min : value < range.min)) return false;
+  if (range.max !== undefined && (range.maxExclusive ? value >= range.max : value > range.max)) return false;
+
+  return true;
+}
+
+/**
+ * Dates are compared as YYYY-MM-DD text; a published date of just a year or
+ * month counts from its first day
+ */
+function inDateRange(value: string | undefined, range: DateRange): boolean {
+  if (!value) return false;
+
+  const day = /^\d{4}$/.test(value) ? `${value}-01-01` : /^\d{4}-\d{2}$/.test(value) ? `${value}-01` : value.slice(0, 10);
+
+  if (range.from && day < range.from) return false;
+  if (range.before && day >= range.before) return false;
+
+  return true;
+}
+
+function matchesField(node: FieldNode, book: Book, context: QueryBookContext): boolean {
+  switch (node.kind) {
+    case 'text':
+      return node.field === 'isbn'
+        ? matchesISBN(book, node.value)
+        : matchesText(getTextValue(node.field, book, context), node.value, node.phrase);
+    case 'enum':
+      return book.status === node.value;
+    case 'number':
+      return inNumberRange(node.field === 'rating' ? book.rating : book.pageCount, node.range);
+    case 'date': {
+      const date = node.field === 'added' ? book.addedDate : node.field === 'completed' ? book.completedDate : book.publishedDate;
+      return inDateRange(date, node.range);
+    }
+  }
+}
+
+/**
+ * Whether a book matches a parsed query. A null query matches every book.
+ */
+export function matchesQuery(node: QueryNode | null, book: Book, context: QueryBookContext = {}): boolean {
+  if (!node) return true;
+
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesQuery(child, book, context));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, book, context));
+    case 'not':
+      return !matchesQuery(node.child, book, context);
+    case 'text':
+      return ANY_TEXT_FIELDS.some(field => matchesText(getTextValue(field, book, context), node.value, node.phrase));
+    case 'field':
+      return matchesField(node, book, context);
+  }
+}
+
+/**
+ * Words every match must contain at least one of, or null when a match might
+ * contain none of them (e.g. `status:reading` or a negated term). With words,
+ * the server's text search can narrow the library down before the query is
+ * checked against each candidate.
+ */
+export function getCandidateTerms(node: QueryNode | null): string[] | null {
+  if (!node) return null;
+
+  switch (node.type) {
+    case 'text':
+      return toWords(node.value);
+    case 'field':
+      // ISBNs are not in the server's text index
+      return node.kind === 'text' && node.field !== 'isbn' ? toWords(node.value) : null;
+    case 'not':
+      return null;
+    case 'and': {
+      // Any one child bounds the matches; use every child that can
+      const terms = node.children.map(getCandidateTerms).filter((child): child is string[] => child !== null);
+      return terms.length ? Array.from(new Set(terms.flat())) : null;
+    }
+    case 'or': {
+      const terms = node.children.map(getCandidateTerms);
+      return terms.every(child => child !== null) ? Array.from(new Set((terms as string[][]).flat())) : null;
+    }
+  }
+}
+
+/**
+ * The words and phrases searched for outside of negated terms, for ranking
+ * and highlighting matches
+ */
+export function getPositiveText(node: QueryNode | null): string[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'text':
+      return [node.value];
+    case 'field':
+      return node.kind === 'text' && node.field !== 'isbn' ? [node.value] : [];
+    case 'not':
+      return [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(getPositiveText);
+  }
+}
@@ -0,0 +1,94 @@
+import { Book } from '@/types/book';
+
+/**
+ * How a field's value is read: text is matched by words, enum against a fixed
+ * list, and numbers and dates as ranges
+ */
+export type QueryFieldType = 'text' | 'enum' | 'number' | 'date';
+
+export type QueryFieldName =
+  | 'title'
+  | 'author'
+  | 'genre'
+  | 'tag'
+  | 'series'
+  | 'collection'
+  | 'notes'
+  | 'description'
+  | 'isbn'
+  | 'status'
+  | 'rating'
+  | 'pages'
+  | 'added'
+  | 'completed'
+  | 'published';
+
+export interface QueryFieldValue {
+  value: string;
+  aliases?: string[];
+}
+
+export interface QueryFieldDefinition {
+  name: QueryFieldName;
+  type: QueryFieldType;
+  description: string;
+  aliases?: string[];
+  /** The allowed values of an enum field */
+  values?: QueryFieldValue[];
+}
+
+export const BOOK_STATUS_VALUES: QueryFieldValue[] = [
+  { value: 'reading' },
+  { value: 'completed', aliases: ['read', 'finished'] },
+  { value: 'want-to-read', aliases: ['tbr', 'want'] },
+  { value: 'on-hold', aliases: ['paused', 'hold'] },
+  { value: 'dnf', aliases: ['abandoned'] },
+];
+
+export const QUERY_FIELDS: QueryFieldDefinition[] = [
+  { name: 'title', type: 'text', description: 'Words in the title' },
+  { name: 'author', type: 'text', description: 'Words in the author', aliases: ['by'] },
+  { name: 'genre', type: 'text', description: 'A genre', aliases: ['genres'] },
+  { name: 'tag', type: 'text', description: 'One of your tags', aliases: ['tags'] },
+  { name: 'series', type: 'text', description: 'Words in the series name' },
+  { name: 'collection', type: 'text', description: 'Words in a collection name', aliases: ['in'] },
+  { name: 'notes', type: 'text', description: 'Words in your notes', aliases: ['note'] },
+  { name: 'description', type: 'text', description: 'Words in the description', aliases: ['desc'] },
+  { name: 'isbn', type: 'text', description: 'An ISBN-10 or ISBN-13' },
+  { name: 'status', type: 'enum', description: 'Reading status', aliases: ['is'], values: BOOK_STATUS_VALUES },
+  { name: 'rating', type: 'number', description: 'Star rating, e.g. >=4 or 3..5', aliases: ['stars'] },
+  { name: 'pages', type: 'number', description: 'Page count, e.g. <300' },
+  { name: 'added', type: 'date', description: 'Date added, e.g. 2025 or 2025-03..2025-06' },
+  { name: 'completed', type: 'date', description: 'Date finished', aliases: ['finished'] },
+  { name: 'published', type: 'date', description: 'Publication date' },
+];
+
+const FIELDS_BY_NAME = new Map<string, QueryFieldDefinition>(
+  QUERY_FIELDS.flatMap(field => [field.name, ...(field.aliases || [])].map(name => [name, field] as const))
+);
+
+/**
+ * The field a name or alias refers to, ignoring case
+ */
+export function findQueryField(name: string): QueryFieldDefinition | undefined {
+  return FIELDS_BY_NAME.get(name.toLowerCase());
+}
+
+/**
+ * The canonical value of an enum field for a value or alias, ignoring case
+ */
+export function findQueryFieldValue(field: QueryFieldDefinition, value: string): string | undefined {
+  const normalized = value.toLowerCase();
+
+  return field.values?.find(
+    candidate => candidate.value === normalized || candidate.aliases?.includes(normalized)
+  )?.value;
+}
+
+/**
+ * Names a book can be found by that are not stored on it
+ */
+export interface QueryBookContext {
+  seriesName?: (book: Book) => string | undefined;
+  collectionNames?: (book: Book) => string[];
+}
@@ -0,0 +1,14 @@
+// Parse structured queries such as `author:"Le Guin" rating:>=4`
+export { parseQuery, hasQuerySyntax } from './parser';
+export type { QueryNode, FieldNode, FieldCondition, NumberRange, DateRange } from './parser';
+export { tokenizeQuery, QuerySyntaxError } from './tokenizer';
+export type { QueryToken, QueryComparator } from './tokenizer';
+
+// Check books against a parsed query
+export { matchesQuery, getCandidateTerms, getPositiveText } from './evaluate';
+
+// Fields and autocomplete
+export { QUERY_FIELDS, findQueryField, findQueryFieldValue } from './fields';
+export type { QueryFieldDefinition, QueryFieldName, QueryFieldType, QueryBookContext } from './fields';
+export { getQuerySuggestions, applyQuerySuggestion } from './autocomplete';
+export type { QuerySuggestion, QuerySuggestions, QuerySuggestionSource } from './autocomplete';
@@ -0,0 +1,365 @@
+import {
+  QUERY_FIELDS,
+  QueryFieldDefinition,
+  QueryFieldName,
+  findQueryField,
+  findQueryFieldValue
+} from './fields';
+import { QuerySyntaxError, QueryToken, tokenizeQuery } from './tokenizer';
+
+/** Both ends are inclusive unless marked exclusive */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+/** YYYY-MM-DD days; before is exclusive, like BookDateRange on the server */
+export interface DateRange {
+  from?: string;
+  before?: string;
+}
+
+interface NodePosition {
+  start: number;
+  end: number;
+}
+
+export type QueryNode =
+  | ({ type: 'and' | 'or'; children: QueryNode[] } & NodePosition)
+  | ({ type: 'not'; child: QueryNode } & NodePosition)
+  /** Words or a quoted phrase matched against every text field */
+  | ({ type: 'text'; value: string; phrase: boolean } & NodePosition)
+  | ({ type: 'field'; field: QueryFieldName } & FieldCondition & NodePosition);
+
+export type FieldCondition =
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'enum'; value: string }
+  | { kind: 'number'; range: NumberRange }
+  | { kind: 'date'; range: DateRange };
+
+export type FieldNode = Extract<QueryNode, { type: 'field' }>;
+
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const RANGE_SEPARATOR = '..';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDay = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/**
+ * The first day of a year, month or day, and the first day after it
+ */
+function parseDatePeriod(value: string): { from: string; before: string } | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1));
+
+  // Date.UTC rolls 2025-02-30 over into March
+  if (day !== undefined && start.getUTCDate() !== day) return null;
+
+  const next = new Date(start);
+  if (day !== undefined) next.setUTCDate(next.getUTCDate() + 1);
+  else if (month !== undefined) next.setUTCMonth(next.getUTCMonth() + 1);
+  else next.setUTCFullYear(next.getUTCFullYear() + 1);
+
+  return { from: toDay(start), before: toDay(next) };
+}
+
+class QueryParser {
+  private index = 0;
+
+  constructor(private readonly input: string, private readonly tokens: QueryToken[]) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+
+    const node = this.parseOr();
+    const token = this.peek();
+
+    if (token) {
+      // Only a stray closing parenthesis stops an expression early
+      throw new QuerySyntaxError('Unexpected )', token.start, token.end);
+    }
+
+    return node;
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): QueryToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private expectTerm(after?: 'OR' | 'AND' | 'NOT'): never {
+    const token = this.peek();
+    const position = token?.start ?? this.input.length;
+    const keyword = after ? ` after ${after}` : '';
+
+    throw new QuerySyntaxError(`Expected a search term${keyword}`, position, token?.end ?? position + 1);
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      this.next();
+      if (!this.startsTerm()) this.expectTerm('OR');
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : this.group('or', children);
+  }
+
+  private parseAnd(): QueryNode {
+    if (!this.startsTerm()) this.expectTerm();
+
+    const children = [this.parseUnary()];
+
+    while (this.peek() && this.peek()!.type !== 'or' && this.peek()!.type !== 'rparen') {
+      if (this.peek()!.type === 'and') {
+        this.next();
+        if (!this.startsTerm()) this.expectTerm('AND');
+      }
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : this.group('and', children);
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+
+    if (token?.type === 'not') {
+      this.next();
+      if (!this.startsTerm()) this.expectTerm('NOT');
+      const child = this.parseUnary();
+      return { type: 'not', child, start: token.start, end: child.end };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+
+    if (!token) return this.expectTerm();
+
+    switch (token.type) {
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          this.expectTerm();
+        }
+
+        const node = this.parseOr();
+        const close = this.next();
+
+        if (close?.type !== 'rparen') {
+          throw new QuerySyntaxError('Missing ) to close (', token.start, token.end);
+        }
+
+        return { ...node, start: token.start, end: close.end };
+      }
+      case 'word':
+        return { type: 'text', value: token.value, phrase: false, start: token.start, end: token.end };
+      case 'phrase':
+        if (!token.value.trim()) {
+          throw new QuerySyntaxError('Expected text between the quotes', token.start, token.end);
+        }
+        return { type: 'text', value: token.value, phrase: true, start: token.start, end: token.end };
+      case 'field':
+        return this.parseField(token);
+      default:
+        this.index--;
+        return this.expectTerm();
+    }
+  }
+
+  private startsTerm(): boolean {
+    const type = this.peek()?.type;
+    return type === 'word' || type === 'phrase' || type === 'field' || type === 'lparen' || type === 'not';
+  }
+
+  private group(type: 'and' | 'or', children: QueryNode[]): QueryNode {
+    return { type, children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseField(token: Extract<QueryToken, { type: 'field' }>): FieldNode {
+    const field = findQueryField(token.name);
+    const position = { start: token.start, end: token.end };
+    const valueError = (message: string) => new QuerySyntaxError(message, token.valueStart, Math.max(token.end, token.valueStart + 1));
+
+    if (!field) {
+      throw new QuerySyntaxError(
+        `Unknown field "${token.name}"; try one of ${QUERY_FIELDS.map(candidate => candidate.name).join(', ')}`,
+        token.start,
+        token.start + token.name.length
+      );
+    }
+
+    if (!token.value.trim()) {
+      throw valueError(`Expected a value after ${token.name}:`);
+    }
+
+    if (token.comparator && (field.type === 'text' || field.type === 'enum')) {
+      throw new QuerySyntaxError(
+        `${field.name} can't be compared with ${token.comparator}`,
+        token.valueStart - token.comparator.length,
+        token.valueStart
+      );
+    }
+
+    switch (field.type) {
+      case 'text':
+        return { type: 'field', field: field.name, kind: 'text', value: token.value, phrase: token.quoted, ...position };
+      case 'enum': {
+        const value = findQueryFieldValue(field, token.value);
+        if (!value) {
+          throw valueError(
+            `Unknown ${field.name} "${token.value}"; expected one of ${field.values!.map(candidate => candidate.value).join(', ')}`
+          );
+        }
+        return { type: 'field', field: field.name, kind: 'enum', value, ...position };
+      }
+      case 'number':
+        return { type: 'field', field: field.name, kind: 'number', range: this.parseNumberRange(field, token, valueError), ...position };
+      case 'date':
+        return { type: 'field', field: field.name, kind: 'date', range: this.parseDateRange(field, token, valueError), ...position };
+    }
+  }
+
+  private parseNumberRange(
+    field: QueryFieldDefinition,
+    token: Extract<QueryToken, { type: 'field' }>,
+    valueError: (message: string) => QuerySyntaxError
+  ): NumberRange {
+    const parse = (value: string): number => {
+      if (!NUMBER_PATTERN.test(value)) {
+        throw valueError(`${field.name} expects a number, e.g. ${field.name}:>=4 or ${field.name}:3..5`);
+      }
+      return Number(value);
+    };
+
+    if (token.value.includes(RANGE_SEPARATOR)) {
+      const [low, high] = this.splitRange(field, token, valueError);
+      const range: NumberRange = {
+        min: low ? parse(low) : undefined,
+        max: high ? parse(high) : undefined,
+      };
+
+      if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+        throw valueError(`${field.name} range starts after it ends`);
+      }
+
+      return range;
+    }
+
+    const value = parse(token.value);
+
+    switch (token.comparator) {
+      case '>=':
+        return { min: value };
+      case '>':
+        return { min: value, minExclusive: true };
+      case '<=':
+        return { max: value };
+      case '<':
+        return { max: value, maxExclusive: true };
+      default:
+        return { min: value, max: value };
+    }
+  }
+
+  private parseDateRange(
+    field: QueryFieldDefinition,
+    token: Extract<QueryToken, { type: 'field' }>,
+    valueError: (message: string) => QuerySyntaxError
+  ): DateRange {
+    const parse = (value: string) => {
+      const period = parseDatePeriod(value);
+      if (!period) {
+        throw valueError(`${field.name} expects a date like 2025, 2025-03 or 2025-03-14`);
+      }
+      return period;
+    };
+
+    if (token.value.includes(RANGE_SEPARATOR)) {
+      const [low, high] = this.splitRange(field, token, valueError);
+      const range: DateRange = {
+        from: low ? parse(low).from : undefined,
+        before: high ? parse(high).before : undefined,
+      };
+
+      if (range.from && range.before && range.from >= range.before) {
+        throw valueError(`${field.name} range starts after it ends`);
+      }
+
+      return range;
+    }
+
+    const { from, before } = parse(token.value);
+
+    // A year, month or day is a period; comparisons are against its ends
+    switch (token.comparator) {
+      case '>=':
+        return { from };
+      case '>':
+        return { from: before };
+      case '<=':
+        return { before };
+      case '<':
+        return { before: from };
+      default:
+        return { from, before };
+    }
+  }
+
+  private splitRange(
+    field: QueryFieldDefinition,
+    token: Extract<QueryToken, { type: 'field' }>,
+    valueError: (message: string) => QuerySyntaxError
+  ): [string, string] {
+    const parts = token.value.split(RANGE_SEPARATOR);
+
+    if (token.comparator || parts.length !== 2 || (!parts[0] && !parts[1])) {
+      throw valueError(`${field.name} ranges look like ${field.name}:low..high`);
+    }
+
+    return [parts[0], parts[1]];
+  }
+}
+
+/**
+ * Parse a query such as `author:"Le Guin" status:completed rating:>=4 -genre:horror`.
+ * Terms side by side must all match; OR, NOT or a leading minus, and
+ * parentheses combine them. Returns null for an empty query, which matches
+ * everything, and throws a QuerySyntaxError for anything unreadable.
+ */
+export function parseQuery(input: string): QueryNode | null {
+  return new QueryParser(input, tokenizeQuery(input)).parse();
+}
+
+/**
+ * Whether input uses anything beyond plain words: fields, quotes, OR, NOT,
+ * negation or parentheses. Unreadable input counts, so its error can be shown.
+ */
+export function hasQuerySyntax(input: string): boolean {
+  try {
+    return tokenizeQuery(input).some(token => token.type !== 'word');
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return true;
+    throw error;
+  }
+}
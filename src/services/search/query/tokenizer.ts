@@ -0,0 +1,120 @@
+/**
+ * A query could not be read. Positions are offsets into the query text, so
+ * the mistake can be underlined; the message gives the column.
+ */
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly end: number = position + 1
+  ) {
+    super(`${message} at column ${position + 1}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+export type QueryComparator = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryToken =
+  | { type: 'word'; value: string; start: number; end: number }
+  | { type: 'phrase'; value: string; start: number; end: number }
+  | {
+      type: 'field';
+      /** The field name as typed, before aliases are resolved */
+      name: string;
+      comparator?: QueryComparator;
+      value: string;
+      quoted: boolean;
+      start: number;
+      /** Where the value starts, after the colon and any comparator */
+      valueStart: number;
+      end: number;
+    }
+  | { type: 'not' | 'or' | 'and' | 'lparen' | 'rparen'; start: number; end: number };
+
+const FIELD_PATTERN = /^([A-Za-z]+):/;
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)/;
+const KEYWORDS: Record<string, 'or' | 'and' | 'not'> = { OR: 'or', AND: 'and', NOT: 'not' };
+
+const isSpace = (char: string) => /\s/.test(char);
+
+// Bare words run until whitespace, a quote or a parenthesis
+const isWordChar = (char: string) => !isSpace(char) && char !== '"' && char !== '(' && char !== ')';
+
+/**
+ * Split a query into tokens. Keywords are only recognized in capitals, so
+ * "or" and "not" can still be searched for.
+ */
+export function tokenizeQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let position = 0;
+
+  const readWord = (start: number): number => {
+    let end = start;
+    while (end < input.length && isWordChar(input[end])) end++;
+    return end;
+  };
+
+  const readQuoted = (start: number): number => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QuerySyntaxError('Missing closing quote', start, input.length);
+    }
+    return close + 1;
+  };
+
+  while (position < input.length) {
+    const char = input[position];
+
+    if (isSpace(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: position, end: position + 1 });
+      position++;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = readQuoted(position);
+      tokens.push({ type: 'phrase', value: input.slice(position + 1, end - 1), start: position, end });
+      position = end;
+      continue;
+    }
+
+    // A minus directly before a term negates it; "sci-fi" keeps its hyphen
+    if (char === '-' && position + 1 < input.length && !isSpace(input[position + 1]) && input[position + 1] !== ')') {
+      tokens.push({ type: 'not', start: position, end: position + 1 });
+      position++;
+      continue;
+    }
+
+    const field = FIELD_PATTERN.exec(input.slice(position));
+
+    if (field) {
+      const start = position;
+      let valueStart = position + field[0].length;
+      const comparator = COMPARATOR_PATTERN.exec(input.slice(valueStart))?.[0] as QueryComparator | undefined;
+      valueStart += comparator?.length ?? 0;
+
+      const quoted = input[valueStart] === '"';
+      const end = quoted ? readQuoted(valueStart) : readWord(valueStart);
+      const value = quoted ? input.slice(valueStart + 1, end - 1) : input.slice(valueStart, end);
+
+      tokens.push({ type: 'field', name: field[1], comparator, value, quoted, start, valueStart, end });
+      position = end;
+      continue;
+    }
+
+    const end = readWord(position);
+    const value = input.slice(position, end);
+    const keyword = KEYWORDS[value];
+
+    tokens.push(keyword ? { type: keyword, start: position, end } : { type: 'word', value, start: position, end });
+    position = end;
+  }
+
+  return tokens;
+}
@@ -18,6 +18,8 @@ import { ReadingStatus } from '@/types/models/Book';
 import { Book as UIBook } from '@/types/book';
 import { Series as UISeries } from '@/types/series';
 import { Collection as UICollection } from '@/types/collection';
+import { ReadingSession } from '@/types/reading-session';
+import { Loan } from '@/types/loan';
 // Type adapter imports for conversion between UI and DB types
 import { convertDbBookToUiBook, convertUiBookToDbBook, DBBook } from '@/adapters/BookTypeAdapter';
 import { convertDbSeriesToUiSeries, convertUiSeriesToDbSeries, DBSeries } from '@/adapters/SeriesTypeAdapter';
@@ -532,6 +534,34 @@ export class EnhancedStorageService {
     }
   }
   
+  /**
+   * Save many books in a single IndexedDB transaction
+   */
+  public async saveBooks(books: UIBook[]): Promise<string[]> {
+    await this.ensureInitialized();
+
+    const endTiming = PerformanceMonitoring.startTiming('saveBooks');
+
+    try {
+      const db = await this.db.initDb();
+      const dbBooks = books.map(book => convertUiBookToDbBook(book));
+      const savedIds = await BatchOperations.saveMultipleBooks(db, dbBooks as unknown as IndexedDBBook[]);
+
+      this.invalidateCache('books');
+      if (books.some(book => book.seriesId)) {
+        this.invalidateCache('series');
+      }
+
+      endTiming();
+      return savedIds;
+    } catch (error) {
+      console.error('Error saving books:', error);
+      this.showUserNotification('Failed to save books. Please try again.');
+      endTiming();
+      throw error;
+    }
+  }
+
   /**
    * Delete a book from storage
    */
@@ -553,6 +583,18 @@ export class EnhancedStorageService {
       // Complete transaction
       await tx.done;
       
+      // Remove the reading log for this book
+      const sessions = await this.getReadingSessions(bookId);
+      for (const session of sessions) {
+        await db.delete(StoreNames.READING_SESSIONS, session.id);
+      }
+      
+      // Loans of a deleted book have nothing left to track
+      const loans = await this.getLoans(bookId);
+      for (const loan of loans) {
+        await db.delete(StoreNames.LOANS, loan.id);
+      }
+      
       // Invalidate the books cache
       this.invalidateCache('books');
       
@@ -1196,6 +1238,138 @@ export class EnhancedStorageService {
     }
   }
   
+  /**
+   * Get reading sessions, optionally limited to a single book, newest first
+   */
+  public async getReadingSessions(bookId?: string): Promise<ReadingSession[]> {
+    await this.ensureInitialized();
+    
+    try {
+      const db = await this.db.initDb();
+      
+      if (!db.objectStoreNames.contains(StoreNames.READING_SESSIONS)) {
+        return [];
+      }
+      
+      const sessions: ReadingSession[] = bookId
+        ? await db.getAllFromIndex(StoreNames.READING_SESSIONS, 'bookId', bookId)
+        : await db.getAll(StoreNames.READING_SESSIONS);
+      
+      return sessions.sort((a, b) => b.date.localeCompare(a.date));
+    } catch (error) {
+      console.error('Error getting reading sessions from IndexedDB:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Save a reading session
+   */
+  public async saveReadingSession(session: ReadingSession): Promise<string> {
+    await this.ensureInitialized();
+    
+    try {
+      const db = await this.db.initDb();
+      const now = new Date().toISOString();
+      
+      const sessionToSave: ReadingSession = {
+        ...session,
+        createdAt: session.createdAt || now,
+        updatedAt: now
+      };
+      
+      await db.put(StoreNames.READING_SESSIONS, sessionToSave);
+      
+      return sessionToSave.id;
+    } catch (error) {
+      console.error('Error saving reading session:', error);
+      this.showUserNotification('Failed to save reading session. Please try again.');
+      throw error;
+    }
+  }
+  
+  /**
+   * Delete a reading session
+   */
+  public async deleteReadingSession(sessionId: string): Promise<void> {
+    await this.ensureInitialized();
+    
+    try {
+      const db = await this.db.initDb();
+      await db.delete(StoreNames.READING_SESSIONS, sessionId);
+    } catch (error) {
+      console.error(`Error deleting reading session ${sessionId}:`, error);
+      this.showUserNotification('Failed to delete reading session. Please try again.');
+      throw error;
+    }
+  }
+  
+  /**
+   * Get loans, optionally limited to a single book, most recent first
+   */
+  public async getLoans(bookId?: string): Promise<Loan[]> {
+    await this.ensureInitialized();
+    
+    try {
+      const db = await this.db.initDb();
+      
+      if (!db.objectStoreNames.contains(StoreNames.LOANS)) {
+        return [];
+      }
+      
+      const loans: Loan[] = bookId
+        ? await db.getAllFromIndex(StoreNames.LOANS, 'bookId', bookId)
+        : await db.getAll(StoreNames.LOANS);
+      
+      return loans.sort((a, b) => b.loanedDate.localeCompare(a.loanedDate));
+    } catch (error) {
+      console.error('Error getting loans from IndexedDB:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Save a loan
+   */
+  public async saveLoan(loan: Loan): Promise<string> {
+    await this.ensureInitialized();
+    
+    try {
+      const db = await this.db.initDb();
+      const now = new Date().toISOString();
+      
+      const loanToSave: Loan = {
+        ...loan,
+        createdAt: loan.createdAt || now,
+        updatedAt: now
+      };
+      
+      await db.put(StoreNames.LOANS, loanToSave);
+      
+      return loanToSave.id;
+    } catch (error) {
+      console.error('Error saving loan:', error);
+      this.showUserNotification('Failed to save loan. Please try again.');
+      throw error;
+    }
+  }
+  
+  /**
+   * Delete a loan
+   */
+  public async deleteLoan(loanId: string): Promise<void> {
+    await this.ensureInitialized();
+    
+    try {
+      const db = await this.db.initDb();
+      await db.delete(StoreNames.LOANS, loanId);
+    } catch (error) {
+      console.error(`Error deleting loan ${loanId}:`, error);
+      this.showUserNotification('Failed to delete loan. Please try again.');
+      throw error;
+    }
+  }
+  
   /**
    * Close the database connection
    */
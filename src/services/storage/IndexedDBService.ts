@@ -218,8 +218,30 @@ export class IndexedDBService {
       // No schema changes in v3, just version bump to handle existing databases
     }
     
+    // Version 3 to 4: Add reading sessions store
+    if (oldVersion < 4 && newVersion >= 4) {
+      log.info('Applying migration to v4: Adding reading sessions store');
+      if (!db.objectStoreNames.contains(StoreNames.READING_SESSIONS)) {
+        this.createReadingSessionsStore(db);
+        log.info('Created reading sessions store in migration to v4');
+      } else {
+        log.info('Reading sessions store already exists, skipping creation');
+      }
+    }
+    
+    // Version 4 to 5: Add loans store
+    if (oldVersion < 5 && newVersion >= 5) {
+      log.info('Applying migration to v5: Adding loans store');
+      if (!db.objectStoreNames.contains(StoreNames.LOANS)) {
+        this.createLoansStore(db);
+        log.info('Created loans store in migration to v5');
+      } else {
+        log.info('Loans store already exists, skipping creation');
+      }
+    }
+    
     // Add future migrations here with the same pattern
-    // if (oldVersion < 4 && newVersion >= 4) { ... }
+    // if (oldVersion < 6 && newVersion >= 6) { ... }
   }
 
   /**
@@ -281,6 +303,35 @@ export class IndexedDBService {
       collectionsStore.createIndex('dateAdded', 'dateAdded', { unique: false });
       collectionsStore.createIndex('lastModified', 'lastModified', { unique: false });
     }
+
+    // Reading sessions store with indices
+    if (!db.objectStoreNames.contains(StoreNames.READING_SESSIONS)) {
+      this.createReadingSessionsStore(db);
+    }
+
+    // Loans store with indices
+    if (!db.objectStoreNames.contains(StoreNames.LOANS)) {
+      this.createLoansStore(db);
+    }
+  }
+
+  /**
+   * Create the reading sessions store with indices for per-book history lookups
+   */
+  private createReadingSessionsStore(db: IDBPDatabase): void {
+    const readingSessionsStore = db.createObjectStore(StoreNames.READING_SESSIONS, { keyPath: 'id' });
+    readingSessionsStore.createIndex('bookId', 'bookId', { unique: false });
+    readingSessionsStore.createIndex('date', 'date', { unique: false });
+    readingSessionsStore.createIndex('bookId_date', ['bookId', 'date'], { unique: false });
+  }
+
+  /**
+   * Create the loans store with indices for per-book and due date lookups
+   */
+  private createLoansStore(db: IDBPDatabase): void {
+    const loansStore = db.createObjectStore(StoreNames.LOANS, { keyPath: 'id' });
+    loansStore.createIndex('bookId', 'bookId', { unique: false });
+    loansStore.createIndex('dueDate', 'dueDate', { unique: false });
   }
 
   /**
@@ -672,6 +723,10 @@ export class IndexedDBService {
                   collectionsStore.createIndex('name', 'name', { unique: false });
                   collectionsStore.createIndex('dateAdded', 'dateAdded', { unique: false });
                   collectionsStore.createIndex('lastModified', 'lastModified', { unique: false });
+                } else if (storeName === StoreNames.READING_SESSIONS) {
+                  this.createReadingSessionsStore(db);
+                } else if (storeName === StoreNames.LOANS) {
+                  this.createLoansStore(db);
                 } else {
                   // Generic store creation for other stores
                   db.createObjectStore(storeName, { keyPath: 'id' });
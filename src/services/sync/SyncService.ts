@@ -0,0 +1,326 @@
+import {
+  ApiClientError,
+  apiRequest,
+  getRevisionConflictCurrent,
+  revisionHeaders,
+  syncApi,
+} from '@/lib/apiClient';
+import { getStoredAuthToken, getStoredAuthUser } from '@/lib/auth-storage';
+import { OutboxEntry, SyncConflict, SyncEntity, SyncStore, SyncedRecord } from './SyncStore';
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Changes waiting to be pushed */
+  pendingCount: number;
+  /** Changes refused because someone else changed the record first */
+  conflictCount: number;
+  lastSyncedAt: string | null;
+  lastError?: string;
+}
+
+export type SyncEvent =
+  | { type: 'status'; status: SyncStatus }
+  /** Server changes were written to the local copy */
+  | { type: 'pulled' }
+  /** A change was refused and needs merging; see getConflict */
+  | { type: 'conflict'; conflict: SyncConflict };
+
+type SyncListener = (event: SyncEvent) => void;
+
+/** The request that sends a local change to the server */
+export type SyncRequest = Pick<OutboxEntry, 'method' | 'path' | 'body' | 'conditional'>;
+
+/** How often to sync while the app is open */
+export const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Network failures, server errors and rate limits are retried on the next
+ * sync; anything else means the server rejected the change
+ */
+const isRetryableError = (error: unknown): boolean =>
+  !(error instanceof ApiClientError) ||
+  error.status >= 500 ||
+  error.status === 401 ||
+  error.status === 408 ||
+  error.status === 429;
+
+/**
+ * A change the server already reflects: the record was deleted elsewhere, or
+ * a create was sent before but its response was lost
+ */
+const isAlreadyApplied = (entry: OutboxEntry, error: unknown): boolean =>
+  error instanceof ApiClientError &&
+  ((error.status === 404 && entry.method !== 'POST') ||
+    (error.status === 409 && entry.method === 'POST'));
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Offline-first sync for signed-in users. Repositories read and write the
+ * account's copy of the library in IndexedDB; every write also queues its API
+ * request in a durable outbox. sync() pushes the outbox in order, then pulls
+ * server changes since the last pull from GET /api/sync.
+ */
+export class SyncService {
+  private store: SyncStore | null = null;
+  private status: SyncStatus = { state: 'idle', pendingCount: 0, conflictCount: 0, lastSyncedAt: null };
+  private listeners = new Set<SyncListener>();
+  private running: Promise<void> | null = null;
+  private rerun: Promise<void> | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  private handleOnline = () => {
+    void this.sync();
+  };
+
+  /**
+   * The store for the signed-in account, reopened when the account changes
+   */
+  private getStore(): SyncStore {
+    const userId = getStoredAuthUser()?.id;
+
+    if (!userId) {
+      throw new Error('Sync is only available while signed in.');
+    }
+
+    if (this.store?.userId !== userId) {
+      this.store?.close();
+      this.store = new SyncStore(userId);
+      this.status = { state: 'idle', pendingCount: 0, conflictCount: 0, lastSyncedAt: null };
+    }
+
+    return this.store;
+  }
+
+  /**
+   * Sync on start, whenever the browser comes back online, and periodically
+   */
+  start(): void {
+    if (this.intervalId) return;
+
+    window.addEventListener('online', this.handleOnline);
+    this.intervalId = setInterval(() => void this.sync(), SYNC_INTERVAL_MS);
+    void this.sync();
+  }
+
+  stop(): void {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getAll<T>(entity: SyncEntity): Promise<SyncedRecord<T>[]> {
+    const store = await this.getReadyStore();
+    return store.getAll<T>(entity);
+  }
+
+  async get<T>(entity: SyncEntity, id: string): Promise<SyncedRecord<T> | undefined> {
+    const store = await this.getReadyStore();
+    return store.get<T>(entity, id);
+  }
+
+  async getConflicts<T>(entity: SyncEntity): Promise<SyncConflict<T>[]> {
+    const conflicts = await this.getStore().getConflicts();
+    return conflicts.filter(conflict => conflict.entity === entity) as SyncConflict<T>[];
+  }
+
+  async getConflict<T>(entity: SyncEntity, id: string): Promise<SyncConflict<T> | undefined> {
+    return this.getStore().getConflict<T>(entity, id);
+  }
+
+  /**
+   * Forget a conflict once the user has merged it, or chosen the server's
+   * version that the local copy already holds
+   */
+  async dismissConflict(entity: SyncEntity, id: string): Promise<void> {
+    const store = this.getStore();
+    await store.deleteConflict(entity, id);
+    this.setStatus({ conflictCount: (await store.getConflicts()).length });
+  }
+
+  /**
+   * Save records locally and queue the request that saves them on the server
+   */
+  async save<T extends { id: string }>(entity: SyncEntity, records: T[], request: SyncRequest): Promise<void> {
+    const store = this.getStore();
+    await store.applyLocalChange(entity, records, [], {
+      ...request,
+      entity,
+      entityIds: records.map(record => record.id),
+    });
+    this.afterLocalChange();
+  }
+
+  /**
+   * Delete records locally and queue the request that deletes them on the server
+   */
+  async remove(entity: SyncEntity, ids: string[], request: SyncRequest): Promise<void> {
+    const store = this.getStore();
+    await store.applyLocalChange(entity, [], ids, { ...request, entity, entityIds: ids });
+    this.afterLocalChange();
+  }
+
+  /**
+   * Push pending changes, then pull the server's. Calls made while a sync is
+   * running share one more run after it, since the running one may have read
+   * the outbox before their changes were queued.
+   */
+  sync(): Promise<void> {
+    if (!getStoredAuthToken() || !getStoredAuthUser()) {
+      return Promise.resolve();
+    }
+
+    if (this.running) {
+      this.rerun ??= this.running.then(() => {
+        this.rerun = null;
+        return this.sync();
+      });
+      return this.rerun;
+    }
+
+    this.running = this.run().finally(() => {
+      this.running = null;
+    });
+
+    return this.running;
+  }
+
+  private async run(): Promise<void> {
+    const store = this.getStore();
+    this.setStatus({ state: 'syncing' });
+
+    try {
+      await this.push(store);
+
+      const changes = await syncApi.getChanges((await store.getLastSyncedAt()) || undefined);
+      const applied = await store.applyRemoteChanges(changes);
+
+      this.setStatus({
+        state: 'idle',
+        pendingCount: (await store.getOutbox()).length,
+        conflictCount: (await store.getConflicts()).length,
+        lastSyncedAt: changes.serverTime,
+        lastError: undefined,
+      });
+
+      if (applied > 0) {
+        this.emit({ type: 'pulled' });
+      }
+    } catch (error) {
+      const offline = isRetryableError(error) && typeof navigator !== 'undefined' && !navigator.onLine;
+
+      this.setStatus({
+        state: offline ? 'offline' : 'error',
+        pendingCount: (await store.getOutbox()).length,
+        lastError: getErrorMessage(error),
+      });
+    }
+  }
+
+  /**
+   * Replay the outbox in order. Stops at the first retryable failure so later
+   * changes never overtake earlier ones; rejected changes are dropped and
+   * their records marked as failed, and changes refused for an old revision
+   * become conflicts.
+   */
+  private async push(store: SyncStore): Promise<void> {
+    for (const entry of await store.getOutbox()) {
+      // An earlier conflict may have dropped this entry
+      if (entry.id !== undefined && !(await store.hasOutboxEntry(entry.id))) continue;
+
+      try {
+        const record = entry.conditional
+          ? await store.get<{ revision?: number }>(entry.entity, entry.entityIds[0])
+          : undefined;
+        const saved = await apiRequest<unknown>(entry.path, {
+          auth: true,
+          method: entry.method,
+          body: entry.body,
+          headers: revisionHeaders(record?.revision),
+        });
+        await store.completeOutboxEntry(entry, 'synced', saved);
+      } catch (error) {
+        const current = entry.conditional
+          ? getRevisionConflictCurrent<{ id: string; revision?: number }>(error)
+          : null;
+
+        if (current) {
+          const conflict = await store.recordConflict(entry, current);
+          this.setStatus({ conflictCount: (await store.getConflicts()).length });
+          this.emit({ type: 'conflict', conflict });
+          this.emit({ type: 'pulled' });
+          continue;
+        }
+
+        if (isAlreadyApplied(entry, error)) {
+          await store.completeOutboxEntry(entry, 'synced');
+          continue;
+        }
+
+        if (isRetryableError(error)) {
+          await store.updateOutboxEntry({
+            ...entry,
+            attempts: entry.attempts + 1,
+            lastError: getErrorMessage(error),
+          });
+          throw error;
+        }
+
+        console.error(`Sync rejected ${entry.method} ${entry.path}:`, error);
+        await store.completeOutboxEntry(entry, 'error');
+        this.setStatus({ lastError: getErrorMessage(error) });
+      }
+    }
+  }
+
+  /**
+   * Before the first pull there is nothing local to read, so wait for it
+   */
+  private async getReadyStore(): Promise<SyncStore> {
+    const store = this.getStore();
+
+    if (!(await store.getLastSyncedAt())) {
+      await this.sync();
+    }
+
+    return store;
+  }
+
+  private afterLocalChange(): void {
+    this.setStatus({ pendingCount: this.status.pendingCount + 1 });
+    void this.sync();
+  }
+
+  private setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.emit({ type: 'status', status: this.status });
+  }
+
+  private emit(event: SyncEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in sync listener:', error);
+      }
+    });
+  }
+}
+
+export const syncService = new SyncService();
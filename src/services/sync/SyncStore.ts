@@ -0,0 +1,295 @@
+import { openDB, IDBPDatabase } from 'idb';
+import type { SyncChangesResponse } from '@/lib/apiClient';
+import type { BookRecord } from '@/services/storage/types';
+
+export type SyncEntity = 'books' | 'series' | 'collections' | 'loans';
+
+export type SyncRecordStatus = NonNullable<BookRecord['syncStatus']>;
+
+/**
+ * A local copy of a server record. syncStatus is 'pending' while a change to
+ * it is waiting in the outbox and 'error' if the server rejected that change.
+ */
+export type SyncedRecord<T> = T & { syncStatus?: SyncRecordStatus };
+
+/**
+ * A mutation made while signed in, replayed against the API in the order it
+ * was made
+ */
+export interface OutboxEntry {
+  id?: number;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: unknown;
+  /**
+   * Send the record's revision as If-Match, so the change is refused if
+   * someone else changed the record first
+   */
+  conditional?: boolean;
+  entity: SyncEntity;
+  entityIds: string[];
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * A change the server refused because the record was changed elsewhere
+ * first. The local copy holds the server's version until the user merges.
+ */
+export interface SyncConflict<T = Record<string, unknown>> {
+  entity: SyncEntity;
+  id: string;
+  /** The local version with the refused changes */
+  local: T;
+  /** The server's version when the change was refused */
+  server: T;
+  detectedAt: string;
+}
+
+const SYNC_DB_PREFIX = 'miraLibrarySync';
+const SYNC_DB_VERSION = 3;
+const ENTITY_STORES: SyncEntity[] = ['books', 'series', 'collections', 'loans'];
+const OUTBOX_STORE = 'outbox';
+const META_STORE = 'meta';
+const CONFLICTS_STORE = 'conflicts';
+const LAST_SYNCED_AT_KEY = 'lastSyncedAt';
+
+type WithId = { id: string; revision?: number };
+
+type SyncedWithId = SyncedRecord<WithId & { updatedAt?: string }>;
+
+// Pulls overlap the previous one, so the same version of a record can come
+// back; records without revisions are told apart by when they changed
+const isSameVersion = (stored: SyncedWithId, pulled: SyncedWithId): boolean =>
+  stored.syncStatus === 'synced' &&
+  stored.revision === pulled.revision &&
+  stored.updatedAt === pulled.updatedAt;
+
+/**
+ * The signed-in user's library in IndexedDB, with the outbox of changes not
+ * yet pushed. Each account gets its own database so it never mixes with the
+ * local library used when signed out.
+ */
+export class SyncStore {
+  private dbPromise: Promise<IDBPDatabase> | null = null;
+
+  constructor(readonly userId: string) {}
+
+  private getDb(): Promise<IDBPDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB(`${SYNC_DB_PREFIX}-${this.userId}`, SYNC_DB_VERSION, {
+        upgrade(db, oldVersion, _newVersion, tx) {
+          if (oldVersion < 1) {
+            ['books', 'series', 'collections'].forEach(store => db.createObjectStore(store, { keyPath: 'id' }));
+            db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+            db.createObjectStore(META_STORE);
+          }
+          if (oldVersion < 2) {
+            db.createObjectStore(CONFLICTS_STORE, { keyPath: ['entity', 'id'] });
+          }
+          if (oldVersion < 3) {
+            db.createObjectStore('loans', { keyPath: 'id' });
+            // Earlier pulls had no loans, so start over with a full pull
+            void tx.objectStore(META_STORE).delete(LAST_SYNCED_AT_KEY);
+          }
+        },
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  async getAll<T>(entity: SyncEntity): Promise<SyncedRecord<T>[]> {
+    const db = await this.getDb();
+    return db.getAll(entity);
+  }
+
+  async get<T>(entity: SyncEntity, id: string): Promise<SyncedRecord<T> | undefined> {
+    const db = await this.getDb();
+    return db.get(entity, id);
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const db = await this.getDb();
+    return db.getAll(OUTBOX_STORE);
+  }
+
+  async hasOutboxEntry(id: number): Promise<boolean> {
+    const db = await this.getDb();
+    return (await db.getKey(OUTBOX_STORE, id)) !== undefined;
+  }
+
+  async getLastSyncedAt(): Promise<string | null> {
+    const db = await this.getDb();
+    return (await db.get(META_STORE, LAST_SYNCED_AT_KEY)) || null;
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    const db = await this.getDb();
+    return db.getAll(CONFLICTS_STORE);
+  }
+
+  async getConflict<T>(entity: SyncEntity, id: string): Promise<SyncConflict<T> | undefined> {
+    const db = await this.getDb();
+    return db.get(CONFLICTS_STORE, [entity, id]);
+  }
+
+  async deleteConflict(entity: SyncEntity, id: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(CONFLICTS_STORE, [entity, id]);
+  }
+
+  /**
+   * Save a local change and queue the request that sends it to the server, in
+   * one transaction. Records keep the revision of their stored copy, which
+   * only changes when the server confirms a write.
+   */
+  async applyLocalChange<T extends WithId>(
+    entity: SyncEntity,
+    records: T[],
+    deletedIds: string[],
+    entry: Omit<OutboxEntry, 'id' | 'queuedAt' | 'attempts'>,
+  ): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction([entity, OUTBOX_STORE], 'readwrite');
+    const store = tx.objectStore(entity);
+
+    for (const record of records) {
+      const existing: WithId | undefined = await store.get(record.id);
+      await store.put({ ...record, revision: existing?.revision, syncStatus: 'pending' });
+    }
+    for (const id of deletedIds) {
+      await store.delete(id);
+    }
+    await tx.objectStore(OUTBOX_STORE).add({
+      ...entry,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+    });
+
+    await tx.done;
+  }
+
+  /**
+   * Drop a pushed (or rejected) outbox entry and mark its records with the
+   * outcome once nothing else is pending for them. The record the server
+   * returned, if any, gives the revision the local copy is now based on.
+   */
+  async completeOutboxEntry(entry: OutboxEntry, status: SyncRecordStatus, saved?: unknown): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction([entry.entity, OUTBOX_STORE], 'readwrite');
+    const outbox = tx.objectStore(OUTBOX_STORE);
+
+    await outbox.delete(entry.id!);
+    const remaining: OutboxEntry[] = await outbox.getAll();
+    const stillPending = new Set(
+      remaining.filter(other => other.entity === entry.entity).flatMap(other => other.entityIds)
+    );
+
+    const savedRecord = saved && typeof saved === 'object' ? (saved as Partial<WithId>) : undefined;
+    const store = tx.objectStore(entry.entity);
+    for (const id of entry.entityIds) {
+      const record = await store.get(id);
+      if (!record) continue;
+
+      await store.put({
+        ...record,
+        revision: savedRecord?.id === id && savedRecord.revision !== undefined ? savedRecord.revision : record.revision,
+        syncStatus: stillPending.has(id) ? record.syncStatus : status,
+      });
+    }
+
+    await tx.done;
+  }
+
+  /**
+   * Set aside a change the server refused as a conflict: the local version
+   * is kept with the conflict, the server's replaces it locally, and later
+   * conditional changes to the record, already part of the local version,
+   * are dropped from the outbox
+   */
+  async recordConflict<T extends WithId>(entry: OutboxEntry, server: T): Promise<SyncConflict<T>> {
+    const db = await this.getDb();
+    const tx = db.transaction([entry.entity, OUTBOX_STORE, CONFLICTS_STORE], 'readwrite');
+    const outbox = tx.objectStore(OUTBOX_STORE);
+    const store = tx.objectStore(entry.entity);
+
+    const superseded = ((await outbox.getAll()) as OutboxEntry[]).filter(other =>
+      other.id === entry.id ||
+      (other.conditional && other.entity === entry.entity && other.entityIds.includes(server.id))
+    );
+    for (const other of superseded) {
+      await outbox.delete(other.id!);
+    }
+
+    const { syncStatus: _syncStatus, ...local } = (await store.get(server.id)) ?? server;
+    const conflict: SyncConflict<T> = {
+      entity: entry.entity,
+      id: server.id,
+      local: local as T,
+      server,
+      detectedAt: new Date().toISOString(),
+    };
+
+    await store.put({ ...server, syncStatus: 'synced' });
+    await tx.objectStore(CONFLICTS_STORE).put(conflict);
+    await tx.done;
+
+    return conflict;
+  }
+
+  async updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+    const db = await this.getDb();
+    await db.put(OUTBOX_STORE, entry);
+  }
+
+  /**
+   * Apply changes pulled from the server. Records with changes still in the
+   * outbox keep their local version; the push that follows wins. Deletions
+   * are applied before upserts, so a record deleted and re-created since the
+   * last pull survives. Changes this copy already holds are not counted.
+   */
+  async applyRemoteChanges(changes: SyncChangesResponse): Promise<number> {
+    const db = await this.getDb();
+    const tx = db.transaction([...ENTITY_STORES, OUTBOX_STORE, META_STORE], 'readwrite');
+    const outbox: OutboxEntry[] = await tx.objectStore(OUTBOX_STORE).getAll();
+    let applied = 0;
+
+    for (const entity of ENTITY_STORES) {
+      const store = tx.objectStore(entity);
+      const pendingIds = new Set(
+        outbox.filter(entry => entry.entity === entity).flatMap(entry => entry.entityIds)
+      );
+      const deletedIds = changes.full
+        ? ((await store.getAllKeys()) as string[])
+        : changes.deleted[entity];
+
+      for (const id of deletedIds) {
+        if (pendingIds.has(id) || (await store.getKey(id)) === undefined) continue;
+        await store.delete(id);
+        applied++;
+      }
+
+      for (const record of changes[entity] as SyncedWithId[]) {
+        if (pendingIds.has(record.id)) continue;
+
+        const stored: SyncedWithId | undefined = await store.get(record.id);
+        if (stored && isSameVersion(stored, record)) continue;
+
+        await store.put({ ...record, syncStatus: 'synced' });
+        applied++;
+      }
+    }
+
+    await tx.objectStore(META_STORE).put(changes.serverTime, LAST_SYNCED_AT_KEY);
+    await tx.done;
+
+    return applied;
+  }
+
+  close(): void {
+    void this.dbPromise?.then(db => db.close());
+    this.dbPromise = null;
+  }
+}
@@ -0,0 +1,255 @@
+import 'fake-indexeddb/auto';
+
+jest.mock('@/lib/apiClient', () => {
+  class ApiClientError extends Error {
+    status: number;
+    details?: unknown;
+
+    constructor(status: number, message: string, _code?: string, details?: unknown) {
+      super(message);
+      this.status = status;
+      this.details = details;
+    }
+  }
+
+  // apiClient reads import.meta, so its helpers are restated here
+  return {
+    ApiClientError,
+    apiRequest: jest.fn(),
+    getRevisionConflictCurrent: (error: unknown) =>
+      error instanceof ApiClientError && (error.status === 409 || error.status === 412)
+        ? (error.details as { current?: unknown } | undefined)?.current ?? null
+        : null,
+    revisionHeaders: (revision?: number) => (revision === undefined ? undefined : { 'If-Match': `"${revision}"` }),
+    syncApi: { getChanges: jest.fn() },
+  };
+});
+
+jest.mock('@/lib/auth-storage', () => ({
+  getStoredAuthToken: jest.fn(() => 'token'),
+  getStoredAuthUser: jest.fn(),
+}));
+
+import { ApiClientError, apiRequest, syncApi } from '@/lib/apiClient';
+import { getStoredAuthUser } from '@/lib/auth-storage';
+import { SyncService } from '../SyncService';
+import { SyncStore } from '../SyncStore';
+
+const mockedApiRequest = apiRequest as jest.Mock;
+const mockedGetChanges = syncApi.getChanges as jest.Mock;
+
+const emptyChanges = (overrides = {}) => ({
+  full: false,
+  serverTime: '2026-01-02T00:00:00.000Z',
+  books: [],
+  series: [],
+  collections: [],
+  loans: [],
+  deleted: { books: [], series: [], collections: [], loans: [] },
+  ...overrides,
+});
+
+// jsdom has no structuredClone, which fake-indexeddb uses to store values
+if (typeof globalThis.structuredClone === 'undefined') {
+  globalThis.structuredClone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+}
+
+let userCount = 0;
+
+describe('SyncService', () => {
+  let sync: SyncService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // A fresh account, and so a fresh database, for every test
+    (getStoredAuthUser as jest.Mock).mockReturnValue({ id: `user-${++userCount}` });
+    mockedApiRequest.mockResolvedValue({});
+    mockedGetChanges.mockResolvedValue(emptyChanges({ full: true }));
+    sync = new SyncService();
+  });
+
+  it('pulls the whole library before the first read', async () => {
+    mockedGetChanges.mockResolvedValue(emptyChanges({
+      full: true,
+      books: [{ id: 'book-1', title: 'Dune' }],
+    }));
+
+    const books = await sync.getAll<{ id: string; title: string }>('books');
+
+    expect(mockedGetChanges).toHaveBeenCalledWith(undefined);
+    expect(books).toEqual([{ id: 'book-1', title: 'Dune', syncStatus: 'synced' }]);
+  });
+
+  it('pushes queued changes in order, then pulls changes since the last sync', async () => {
+    await sync.sync();
+    mockedGetChanges.mockResolvedValue(emptyChanges());
+
+    await sync.save('books', [{ id: 'book-1', title: 'Dune' }], { method: 'POST', path: '/books', body: { id: 'book-1' } });
+    await sync.save('books', [{ id: 'book-1', title: 'Dune Messiah' }], { method: 'PUT', path: '/books/book-1', body: { title: 'Dune Messiah' } });
+    await sync.sync();
+
+    expect(mockedApiRequest.mock.calls.map(([path, options]) => `${options.method} ${path}`)).toEqual([
+      'POST /books',
+      'PUT /books/book-1',
+    ]);
+    expect(mockedGetChanges).toHaveBeenLastCalledWith('2026-01-02T00:00:00.000Z');
+    expect(await sync.get('books', 'book-1')).toEqual({ id: 'book-1', title: 'Dune Messiah', syncStatus: 'synced' });
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', pendingCount: 0 });
+  });
+
+  it('keeps changes queued while offline', async () => {
+    await sync.sync();
+    mockedApiRequest.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await sync.save('books', [{ id: 'book-1', title: 'Local title' }], { method: 'PUT', path: '/books/book-1', body: {} });
+    await sync.sync();
+
+    expect(sync.getStatus()).toMatchObject({ pendingCount: 1, lastError: 'Failed to fetch' });
+    expect(await sync.get('books', 'book-1')).toMatchObject({ title: 'Local title', syncStatus: 'pending' });
+
+    mockedApiRequest.mockResolvedValue({});
+    mockedGetChanges.mockResolvedValue(emptyChanges());
+    await sync.sync();
+
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', pendingCount: 0 });
+    expect(await sync.get('books', 'book-1')).toMatchObject({ syncStatus: 'synced' });
+  });
+
+  it('does not let a pull overwrite records with queued changes', async () => {
+    const store = new SyncStore(`user-${++userCount}`);
+    await store.applyLocalChange('books', [{ id: 'book-1', title: 'Local title' }], [], {
+      method: 'PUT',
+      path: '/books/book-1',
+      entity: 'books',
+      entityIds: ['book-1'],
+    });
+
+    await store.applyRemoteChanges(emptyChanges({
+      books: [{ id: 'book-1', title: 'Remote title' }, { id: 'book-2', title: 'Emma' }],
+    }));
+
+    expect(await store.get('books', 'book-1')).toMatchObject({ title: 'Local title', syncStatus: 'pending' });
+    expect(await store.get('books', 'book-2')).toMatchObject({ title: 'Emma', syncStatus: 'synced' });
+    store.close();
+  });
+
+  it('drops changes the server rejects and marks their records', async () => {
+    await sync.sync();
+    mockedGetChanges.mockResolvedValue(emptyChanges());
+    mockedApiRequest.mockRejectedValueOnce(new ApiClientError(400, 'Book title is required.'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await sync.save('books', [{ id: 'book-1', title: '' }], { method: 'POST', path: '/books', body: {} });
+    await sync.save('books', [{ id: 'book-2', title: 'Emma' }], { method: 'POST', path: '/books', body: {} });
+    await sync.sync();
+
+    expect(mockedApiRequest).toHaveBeenCalledTimes(2);
+    expect(await sync.get('books', 'book-1')).toMatchObject({ syncStatus: 'error' });
+    expect(await sync.get('books', 'book-2')).toMatchObject({ syncStatus: 'synced' });
+    expect(sync.getStatus()).toMatchObject({ pendingCount: 0 });
+    expect(consoleError).toHaveBeenCalledWith('Sync rejected POST /books:', expect.any(ApiClientError));
+    consoleError.mockRestore();
+  });
+
+  it('treats a delete of a record that is already gone as done', async () => {
+    await sync.sync();
+    mockedApiRequest.mockRejectedValueOnce(new ApiClientError(404, 'Book not found.'));
+
+    await sync.remove('books', ['book-1'], { method: 'DELETE', path: '/books/book-1' });
+    await sync.sync();
+
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', pendingCount: 0 });
+  });
+
+  it('sends the revision of conditional changes and keeps the one the server returns', async () => {
+    mockedGetChanges.mockResolvedValue(emptyChanges({ full: true, books: [{ id: 'book-1', title: 'Dune', revision: 3 }] }));
+    await sync.sync();
+    mockedGetChanges.mockResolvedValue(emptyChanges());
+    mockedApiRequest.mockResolvedValueOnce({ id: 'book-1', title: 'Dune Messiah', revision: 4 });
+
+    await sync.save('books', [{ id: 'book-1', title: 'Dune Messiah', revision: 1 }], {
+      method: 'PUT',
+      path: '/books/book-1',
+      body: { title: 'Dune Messiah' },
+      conditional: true,
+    });
+    await sync.sync();
+
+    expect(mockedApiRequest).toHaveBeenCalledWith('/books/book-1', expect.objectContaining({
+      headers: { 'If-Match': '"3"' },
+    }));
+    expect(await sync.get('books', 'book-1')).toEqual({
+      id: 'book-1',
+      title: 'Dune Messiah',
+      revision: 4,
+      syncStatus: 'synced',
+    });
+  });
+
+  it('turns a change refused for an old revision into a conflict', async () => {
+    mockedGetChanges.mockResolvedValue(emptyChanges({ full: true, books: [{ id: 'book-1', title: 'Dune', revision: 3 }] }));
+    await sync.sync();
+    mockedGetChanges.mockResolvedValue(emptyChanges());
+
+    const server = { id: 'book-1', title: 'Dune (edited elsewhere)', revision: 4 };
+    mockedApiRequest.mockRejectedValueOnce(
+      new ApiClientError(412, 'Book was changed since revision 3.', 'PRECONDITION_FAILED', { current: server })
+    );
+    const listener = jest.fn();
+    sync.subscribe(listener);
+
+    await sync.save('books', [{ id: 'book-1', title: 'Mine' }], { method: 'PUT', path: '/books/book-1', body: {}, conditional: true });
+    await sync.save('books', [{ id: 'book-1', title: 'Mine again' }], { method: 'PUT', path: '/books/book-1', body: {}, conditional: true });
+    await sync.sync();
+
+    // The later edit is part of the conflict, not pushed over the other version
+    expect(mockedApiRequest).toHaveBeenCalledTimes(1);
+    expect(await sync.get('books', 'book-1')).toEqual({ ...server, syncStatus: 'synced' });
+    expect(await sync.getConflict('books', 'book-1')).toMatchObject({
+      local: { id: 'book-1', title: 'Mine again', revision: 3 },
+      server,
+    });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'conflict' }));
+    expect(sync.getStatus()).toMatchObject({ pendingCount: 0, conflictCount: 1 });
+
+    await sync.dismissConflict('books', 'book-1');
+
+    expect(await sync.getConflict('books', 'book-1')).toBeUndefined();
+    expect(sync.getStatus()).toMatchObject({ conflictCount: 0 });
+  });
+
+  it('applies deletions from the server and notifies listeners', async () => {
+    mockedGetChanges.mockResolvedValue(emptyChanges({ full: true, series: [{ id: 'series-1' }, { id: 'series-2' }] }));
+    await sync.sync();
+
+    const listener = jest.fn();
+    sync.subscribe(listener);
+    mockedGetChanges.mockResolvedValue(emptyChanges({ deleted: { books: [], series: ['series-1'], collections: [], loans: [] } }));
+    await sync.sync();
+
+    expect((await sync.getAll<{ id: string }>('series')).map(series => series.id)).toEqual(['series-2']);
+    expect(listener).toHaveBeenCalledWith({ type: 'pulled' });
+  });
+
+  it('skips changes pulled again by an overlapping pull', async () => {
+    const book = { id: 'book-1', title: 'Dune', revision: 2, updatedAt: '2026-01-01T23:58:00.000Z' };
+    mockedGetChanges.mockResolvedValue(emptyChanges({ books: [book] }));
+    await sync.sync();
+
+    const listener = jest.fn();
+    sync.subscribe(listener);
+    mockedGetChanges.mockResolvedValue(emptyChanges({
+      books: [book],
+      deleted: { books: ['book-9'], series: [], collections: [], loans: [] },
+    }));
+    await sync.sync();
+
+    expect(listener).not.toHaveBeenCalledWith({ type: 'pulled' });
+
+    mockedGetChanges.mockResolvedValue(emptyChanges({ books: [{ ...book, title: 'Dune Messiah', revision: 3 }] }));
+    await sync.sync();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'pulled' });
+    expect(await sync.get('books', 'book-1')).toMatchObject({ title: 'Dune Messiah', revision: 3 });
+  });
+});
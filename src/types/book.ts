@@ -1,3 +1,37 @@
+/**
+ * One read-through of a book. A book can be read many times; each finished
+ * read-through counts towards the year it was finished in.
+ */
+export interface ReadThrough {
+  id: string;
+  startedDate?: string;
+  finishedDate?: string;
+  rating?: number; // 1-5 stars for this read-through
+  notes?: string;
+  dnf?: boolean; // Abandoned before finishing
+}
+
+export type BookFormat = 'hardcover' | 'paperback' | 'ebook' | 'audiobook' | 'library' | 'wishlist';
+
+export type CopyCondition = 'new' | 'like-new' | 'very-good' | 'good' | 'fair' | 'poor';
+
+/**
+ * One copy of a book: a physical or digital edition that is owned, borrowed
+ * from a library or still on the wishlist. A work can have several copies.
+ */
+export interface BookCopy {
+  id: string;
+  format: BookFormat;
+  edition?: string; // e.g. "First edition", "2nd printing"
+  publisher?: string;
+  purchaseDate?: string;
+  purchasePrice?: number;
+  purchaseLocation?: string;
+  condition?: CopyCondition;
+  shelfLocation?: string; // Where the copy lives, e.g. "Study, shelf 3"
+  audioMinutes?: number; // Running time of an audiobook
+}
+
 export interface Book {
   id: string;
   title: string;
@@ -24,6 +58,7 @@ export interface Book {
   rating?: number; // 1-5 stars
   notes?: string;
   progress?: number; // Reading progress as a number between 0 and 1
+  readThroughs?: ReadThrough[]; // History of previous and current read-throughs
   
   // Series fields - enhanced for new series feature
   isPartOfSeries?: boolean;
@@ -33,6 +68,8 @@ export interface Book {
   
   // Collection fields
   collectionIds?: string[]; // Books can belong to multiple collections (no limit)
+  tags?: string[]; // Free-form labels, separate from genres and collections
+  copies?: BookCopy[]; // Owned, borrowed and wished-for copies; the first is the main one
   
   // Legacy series fields - maintained for data migration
   _legacySeriesName?: string; // Renamed from seriesName
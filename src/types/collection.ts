@@ -2,6 +2,28 @@
  * Collection data type definitions
  */
 
+/**
+ * One condition of a smart collection. Text rules match any part of the
+ * value, ignoring case; ranges include both ends and dates are YYYY-MM-DD.
+ */
+export type CollectionRule =
+  | { field: 'status'; operator: 'is' | 'isNot'; value: 'reading' | 'completed' | 'want-to-read' | 'dnf' | 'on-hold' }
+  | { field: 'genre' | 'author' | 'series' | 'tags'; operator: 'contains' | 'notContains'; value: string }
+  | { field: 'rating' | 'pages'; operator: 'between'; min?: number; max?: number }
+  | { field: 'added' | 'completed'; operator: 'between'; from?: string; to?: string }
+  | { field: 'added' | 'completed'; operator: 'withinDays'; days: number };
+
+export type CollectionRuleField = CollectionRule['field'];
+
+/**
+ * Rules of a smart collection, which holds every book matching all or any
+ * of its conditions
+ */
+export interface CollectionRules {
+  match: 'all' | 'any';
+  conditions: CollectionRule[];
+}
+
 /**
  * Collection data type for organizing books into user-defined groups
  */
@@ -10,6 +32,7 @@ export interface Collection {
   name: string;
   description?: string;
   bookIds: string[]; // References to book IDs
+  rules?: CollectionRules | null; // Set for smart collections, whose books come from rules instead of bookIds
   createdAt: Date;
   updatedAt: Date;
   color?: string; // Optional visual identifier
@@ -32,6 +55,7 @@ export interface CollectionCreationData {
   name: string;
   description?: string;
   bookIds?: string[];
+  rules?: CollectionRules | null;
   color?: string;
   imageUrl?: string;
   createdAt?: Date;
@@ -45,6 +69,7 @@ export interface CollectionUpdateData {
   name?: string;
   description?: string;
   bookIds?: string[];
+  rules?: CollectionRules | null;
   color?: string;
   imageUrl?: string;
 }
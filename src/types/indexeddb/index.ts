@@ -16,7 +16,9 @@ export enum StoreNames {
   UPCOMING_BOOKS = 'upcomingBooks',
   NOTIFICATIONS = 'notifications',
   SETTINGS = 'settings',
-  COLLECTIONS = 'collections'
+  COLLECTIONS = 'collections',
+  READING_SESSIONS = 'readingSessions',
+  LOANS = 'loans'
 }
 
 /**
@@ -24,5 +26,5 @@ export enum StoreNames {
  */
 export const DB_CONFIG = {
   NAME: 'book-collection-db',
-  VERSION: 3
+  VERSION: 5
 };
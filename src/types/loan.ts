@@ -0,0 +1,34 @@
+/**
+ * Loan data type definitions
+ */
+
+/**
+ * 'lent' when the reader lent one of their books out, 'borrowed' when they
+ * borrowed a book from someone else
+ */
+export type LoanDirection = 'lent' | 'borrowed';
+
+/**
+ * A book out on loan: who has it (or who it came from), when it went out,
+ * when it is due back and when it was returned
+ */
+export interface Loan {
+  id: string;
+  bookId: string;
+  direction: LoanDirection;
+  person: string; // The borrower for lent books, the lender for borrowed ones
+  loanedDate: string; // ISO date string for the day the book changed hands
+  dueDate?: string;
+  returnedDate?: string;
+  notes?: string;
+  remindedAt?: string; // When the last overdue reminder was raised
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Data required to record a new loan
+ */
+export type LoanCreationData = Omit<Loan, 'id' | 'createdAt' | 'updatedAt'> & {
+  id?: string;
+};
@@ -1,3 +1,5 @@
+import type { ReadThrough } from '../book';
+
 /**
  * Core Book model representing a book in the collection
  */
@@ -44,6 +46,9 @@ export interface Book {
   completedDate?: string;
   startedDate?: string;
   
+  // Every read-through of this book, including re-reads
+  readThroughs?: ReadThrough[];
+  
   // Series information
   isPartOfSeries?: boolean;
   seriesName?: string;
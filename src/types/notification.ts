@@ -1,7 +1,7 @@
 /**
  * Types of notifications in the system
  */
-export type NotificationType = 'release' | 'system' | 'update' | 'alert';
+export type NotificationType = 'release' | 'system' | 'update' | 'alert' | 'loan';
 
 /**
  * Notification interface
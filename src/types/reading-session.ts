@@ -0,0 +1,26 @@
+/**
+ * Reading session data type definitions
+ */
+
+/**
+ * A single sitting with a book: where the reader started and stopped,
+ * and how long they spent reading
+ */
+export interface ReadingSession {
+  id: string;
+  bookId: string;
+  date: string; // ISO date string for the day the session happened
+  startPage?: number;
+  endPage?: number;
+  minutes?: number;
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Data required to log a new reading session
+ */
+export type ReadingSessionCreationData = Omit<ReadingSession, 'id' | 'createdAt' | 'updatedAt'> & {
+  id?: string;
+};
@@ -24,6 +24,36 @@ export interface LegacyImportStatus {
   lastError?: string;
 }
 
+export type ReadingGoalType = 'books' | 'pages' | 'genres';
+
+export type ReadingGoalPeriod = 'monthly' | 'yearly' | 'custom';
+
+/**
+ * A reading goal in addition to the legacy monthly book target.
+ * Custom goals run between startDate and endDate (inclusive, YYYY-MM-DD).
+ */
+export interface ReadingGoal {
+  id: string;
+  name?: string;
+  type: ReadingGoalType;
+  period: ReadingGoalPeriod;
+  target: number;
+  startDate?: string;
+  endDate?: string;
+  createdAt?: string;
+}
+
+/**
+ * An advanced search query kept under a name, to run again or turn into a
+ * smart collection
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  createdAt?: string;
+}
+
 export interface UserSettings {
   preferredName?: string;
   birthday?: string;
@@ -34,6 +64,7 @@ export interface UserSettings {
   goals?: {
     enabled: boolean;
     monthlyTarget: number;
+    definitions?: ReadingGoal[];
   };
   displayOptions?: {
     groupSpecialStatuses: boolean;
@@ -41,6 +72,9 @@ export interface UserSettings {
     shelfOrder: string[];
   };
   notifications?: Record<string, boolean>;
+  savedSearches?: SavedSearch[];
+  /** Hex colours for book tags, keyed by tag name */
+  tagColors?: Record<string, string>;
   migration?: {
     legacyImport?: LegacyImportStatus;
   };
@@ -56,6 +90,7 @@ export const defaultSettings: UserSettings = {
   goals: {
     enabled: false,
     monthlyTarget: 4,
+    definitions: [],
   },
   displayOptions: {
     groupSpecialStatuses: false,
@@ -63,6 +98,8 @@ export const defaultSettings: UserSettings = {
     shelfOrder: ['reading', 'want-to-read', 'completed', 'on-hold', 'dnf'],
   },
   notifications: {},
+  savedSearches: [],
+  tagColors: {},
   migration: {},
 };
 
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { BarcodeImage, decodeEAN13, decodeEAN13Line, decodeISBNBarcode } from '../barcodeDecoder';
+import { isValidISBN10, isValidISBN13, toValidISBN13 } from '../isbn';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'barcodes');
+
+/**
+ * Load a binary PGM (P5) fixture as RGBA pixels, the same shape a canvas
+ * hands the decoder in the browser
+ */
+const loadFixture = (name: string): BarcodeImage => {
+  const buffer = fs.readFileSync(path.join(FIXTURE_DIR, name));
+  const [magic, width, height, maxValue] = buffer.toString('latin1', 0, 20).split(/\s+/);
+  expect(magic).toBe('P5');
+  expect(maxValue).toBe('255');
+
+  const headerLength = `${magic}\n${width} ${height}\n${maxValue}\n`.length;
+  const pixels = buffer.subarray(headerLength);
+  const data = new Uint8ClampedArray(pixels.length * 4);
+  pixels.forEach((value, index) => {
+    data.set([value, value, value, 255], index * 4);
+  });
+
+  return { width: Number(width), height: Number(height), data };
+};
+
+describe('barcodeDecoder', () => {
+  it.each([
+    ['isbn-9780441013593-clean.pgm', '9780441013593'],
+    ['isbn-9781408855652-photo.pgm', '9781408855652'],
+    ['isbn-9780261102217-upside-down.pgm', '9780261102217'],
+    ['isbn-9791025550007-sideways.pgm', '9791025550007'],
+  ])('reads the ISBN from %s', (fixture, expected) => {
+    expect(decodeISBNBarcode(loadFixture(fixture))).toBe(expected);
+  });
+
+  it('reads EAN-13 codes outside the ISBN range but does not treat them as books', () => {
+    const image = loadFixture('ean-5901234123457-not-isbn.pgm');
+
+    expect(decodeEAN13(image)).toBe('5901234123457');
+    expect(decodeISBNBarcode(image)).toBeNull();
+  });
+
+  it('rejects a barcode whose check digit does not match', () => {
+    expect(decodeEAN13(loadFixture('bad-checksum-9780441013594.pgm'))).toBeNull();
+  });
+
+  it('finds nothing in an image without a barcode', () => {
+    expect(decodeEAN13(loadFixture('no-barcode.pgm'))).toBeNull();
+  });
+
+  it('decodes a single line of luminance values', () => {
+    const image = loadFixture('isbn-9780441013593-clean.pgm');
+    const row = Array.from({ length: image.width }, (_, x) => image.data[(50 * image.width + x) * 4]);
+
+    expect(decodeEAN13Line(row)).toBe('9780441013593');
+    expect(decodeEAN13Line(row.slice(0, 150))).toBeNull();
+  });
+});
+
+describe('ISBN validation', () => {
+  it('validates ISBN-10 and ISBN-13 check digits', () => {
+    expect(isValidISBN10('0-441-01359-7')).toBe(true);
+    expect(isValidISBN10('080442957X')).toBe(true);
+    expect(isValidISBN10('0441013598')).toBe(false);
+    expect(isValidISBN13('978-0-441-01359-3')).toBe(true);
+    expect(isValidISBN13('9780441013594')).toBe(false);
+    expect(isValidISBN13('5901234123457')).toBe(false);
+  });
+
+  it('converts typed ISBNs to ISBN-13 only when they are valid', () => {
+    expect(toValidISBN13('0441013597')).toBe('9780441013593');
+    expect(toValidISBN13('978-1-4088-5565-2')).toBe('9781408855652');
+    expect(toValidISBN13('0441013598')).toBeUndefined();
+    expect(toValidISBN13('12345')).toBeUndefined();
+  });
+});
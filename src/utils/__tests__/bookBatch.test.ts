@@ -0,0 +1,119 @@
+import {
+  applySelectionClick,
+  getBatchBookChanges,
+  getBatchRestoreChanges,
+  hasBatchBookChanges,
+} from '../bookBatch';
+import { Book } from '@/types/book';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book',
+  title: 'Book',
+  author: 'Author',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+describe('applySelectionClick', () => {
+  const ordered = ['a', 'b', 'c', 'd', 'e'];
+
+  it('toggles a book and makes it the anchor', () => {
+    const first = applySelectionClick({ selectedIds: [], anchorId: null }, 'b', ordered, false);
+    expect(first).toEqual({ selectedIds: ['b'], anchorId: 'b' });
+
+    const second = applySelectionClick(first, 'b', ordered, false);
+    expect(second).toEqual({ selectedIds: [], anchorId: 'b' });
+  });
+
+  it('adds the displayed range between the anchor and a shift-clicked book', () => {
+    const state = { selectedIds: ['e', 'b'], anchorId: 'b' };
+
+    expect(applySelectionClick(state, 'd', ordered, true)).toEqual({
+      selectedIds: ['e', 'b', 'c', 'd'],
+      anchorId: 'b',
+    });
+    expect(applySelectionClick(state, 'a', ordered, true).selectedIds).toEqual(['e', 'b', 'a']);
+  });
+
+  it('treats a shift-click without a visible anchor as a plain click', () => {
+    const state = { selectedIds: ['x'], anchorId: 'x' };
+    expect(applySelectionClick(state, 'c', ordered, true)).toEqual({ selectedIds: ['x', 'c'], anchorId: 'c' });
+  });
+});
+
+describe('getBatchBookChanges', () => {
+  it('dates newly completed books and keeps existing completion dates', () => {
+    const books = [book({ id: 'a' }), book({ id: 'b', completedDate: '2023-05-01' })];
+    const changes = getBatchBookChanges(books, { type: 'status', status: 'completed' });
+
+    expect(changes.patch).toEqual({ status: 'completed' });
+    expect(changes.patches.a.completedDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(changes.patches.b).toEqual({ completedDate: '2023-05-01' });
+  });
+
+  it('clears completion dates when books go back to the queue', () => {
+    const changes = getBatchBookChanges([book({ id: 'a', completedDate: '2023-05-01' })], {
+      type: 'status',
+      status: 'want-to-read',
+    });
+
+    expect(changes.patches).toEqual({ a: { completedDate: null } });
+  });
+
+  it('numbers books sequentially in the given order when assigning a series', () => {
+    const changes = getBatchBookChanges([book({ id: 'c' }), book({ id: 'a' })], {
+      type: 'series',
+      seriesId: 'series-1',
+      startPosition: 3,
+    });
+
+    expect(changes).toEqual({
+      patch: { seriesId: 'series-1', isPartOfSeries: true },
+      patches: {
+        c: { seriesPosition: 3, volumeNumber: 3 },
+        a: { seriesPosition: 4, volumeNumber: 4 },
+      },
+    });
+  });
+
+  it('only changes books whose collection membership actually changes', () => {
+    const books = [book({ id: 'a', collectionIds: ['col-1'] }), book({ id: 'b' })];
+
+    expect(getBatchBookChanges(books, { type: 'add-collection', collectionId: 'col-1' }).patches)
+      .toEqual({ b: { collectionIds: ['col-1'] } });
+    expect(getBatchBookChanges(books, { type: 'remove-collection', collectionId: 'col-1' }).patches)
+      .toEqual({ a: { collectionIds: [] } });
+  });
+
+  it('adds and removes genres case-insensitively', () => {
+    const books = [book({ id: 'a', genre: ['Fantasy', 'Classics'] }), book({ id: 'b', genre: 'fantasy' })];
+    const changes = getBatchBookChanges(books, { type: 'genres', add: ['Adventure', 'classics'], remove: ['FANTASY'] });
+
+    expect(changes.patches).toEqual({
+      a: { genre: ['Classics', 'Adventure'] },
+      b: { genre: ['Adventure', 'classics'] },
+    });
+  });
+});
+
+describe('getBatchRestoreChanges', () => {
+  it('puts back every changed field and clears fields that were empty', () => {
+    const books = [book({ id: 'a', rating: 4 }), book({ id: 'b' })];
+    const changes = getBatchBookChanges(books, { type: 'rating', rating: 2 });
+
+    expect(getBatchRestoreChanges(books, changes)).toEqual({
+      patch: {},
+      patches: { a: { rating: 4 }, b: { rating: null } },
+    });
+  });
+
+  it('has nothing to restore when a batch changed no books', () => {
+    const books = [book({ id: 'a', collectionIds: ['col-1'] })];
+    const changes = getBatchBookChanges(books, { type: 'add-collection', collectionId: 'col-1' });
+
+    expect(hasBatchBookChanges(changes)).toBe(false);
+    expect(hasBatchBookChanges(getBatchRestoreChanges(books, changes))).toBe(false);
+  });
+});
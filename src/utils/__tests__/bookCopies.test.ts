@@ -0,0 +1,51 @@
+import { calculateFormatBreakdown, formatAudioLength, getBookFormats, getMainFormat } from '../bookCopies';
+import type { Book, BookCopy } from '@/types/book';
+
+const book = (id: string, copies?: BookCopy[], pageCount?: number): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Ursula K. Le Guin',
+  spineColor: 1,
+  addedDate: '2024-01-15T10:00:00.000Z',
+  pageCount,
+  copies,
+});
+
+describe('getBookFormats', () => {
+  it('lists each format once, main copy first', () => {
+    const copies: BookCopy[] = [
+      { id: 'copy-1', format: 'hardcover' },
+      { id: 'copy-2', format: 'audiobook' },
+      { id: 'copy-3', format: 'hardcover' },
+    ];
+
+    expect(getBookFormats(book('a', copies))).toEqual(['hardcover', 'audiobook']);
+    expect(getMainFormat(book('a', copies))).toBe('hardcover');
+    expect(getMainFormat(book('b'))).toBeUndefined();
+  });
+});
+
+describe('formatAudioLength', () => {
+  it('shows hours and minutes, leaving out a zero part', () => {
+    expect(formatAudioLength(680)).toBe('11h 20m');
+    expect(formatAudioLength(120)).toBe('2h');
+    expect(formatAudioLength(45)).toBe('45m');
+  });
+});
+
+describe('calculateFormatBreakdown', () => {
+  it('counts pages for print and listening time for audiobooks, by main copy', () => {
+    const books = [
+      book('a', [{ id: 'copy-1', format: 'audiobook', audioMinutes: 600 }, { id: 'copy-2', format: 'paperback' }], 300),
+      book('b', [{ id: 'copy-3', format: 'audiobook', audioMinutes: 90 }], 250),
+      book('c', [{ id: 'copy-4', format: 'paperback' }], 412),
+      book('d', undefined, 180),
+    ];
+
+    expect(calculateFormatBreakdown(books)).toEqual([
+      { format: 'audiobook', label: 'Audiobook', books: 2, pages: 0, audioMinutes: 690 },
+      { format: undefined, label: 'No format', books: 1, pages: 180, audioMinutes: 0 },
+      { format: 'paperback', label: 'Paperback', books: 1, pages: 412, audioMinutes: 0 },
+    ]);
+  });
+});
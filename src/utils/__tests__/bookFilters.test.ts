@@ -0,0 +1,108 @@
+import {
+  countActiveBookFilters,
+  filterBooks,
+  sortBooks,
+  toBookListParams,
+} from '../bookFilters';
+import type { Book } from '@/types/book';
+
+const book = (id: string, overrides: Partial<Book> = {}): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Ursula K. Le Guin',
+  spineColor: 1,
+  addedDate: '2024-01-15T10:00:00.000Z',
+  ...overrides,
+});
+
+const ids = (books: Book[]) => books.map(({ id }) => id);
+
+describe('filterBooks', () => {
+  const books = [
+    book('a', { status: 'completed', genre: ['Fantasy', 'Classics'], rating: 5, completedDate: '2024-02-01' }),
+    book('b', {
+      status: 'reading',
+      genre: 'Science Fiction',
+      author: 'Frank Herbert',
+      seriesId: 'dune',
+      copies: [
+        { id: 'copy-1', format: 'paperback' },
+        { id: 'copy-2', format: 'audiobook', audioMinutes: 1293 },
+      ],
+    }),
+    book('c', {
+      status: 'completed',
+      rating: 2,
+      collectionIds: ['favourites'],
+      tags: ['signed copy', 'audiobook'],
+      addedDate: '2024-01-31T23:59:00.000Z',
+    }),
+  ];
+
+  it('matches statuses, genres in lists or strings, and author text', () => {
+    expect(ids(filterBooks(books, { statuses: ['completed'] }))).toEqual(['a', 'c']);
+    expect(ids(filterBooks(books, { genres: ['Classics', 'Science Fiction'] }))).toEqual(['a', 'b']);
+    expect(ids(filterBooks(books, { author: 'herb' }))).toEqual(['b']);
+  });
+
+  it('matches series and collections', () => {
+    expect(ids(filterBooks(books, { seriesId: 'dune' }))).toEqual(['b']);
+    expect(ids(filterBooks(books, { collectionId: 'favourites' }))).toEqual(['c']);
+  });
+
+  it('matches books with any of the tags', () => {
+    expect(ids(filterBooks(books, { tags: ['audiobook', 'lent out'] }))).toEqual(['c']);
+    expect(ids(filterBooks(books, { tags: ['lent out'] }))).toEqual([]);
+  });
+
+  it('matches books with a copy in any of the formats', () => {
+    expect(ids(filterBooks(books, { formats: ['audiobook', 'ebook'] }))).toEqual(['b']);
+    expect(ids(filterBooks(books, { formats: ['hardcover'] }))).toEqual([]);
+  });
+
+  it('leaves unrated books out of a rating range', () => {
+    expect(ids(filterBooks(books, { minRating: 3 }))).toEqual(['a']);
+    expect(ids(filterBooks(books, { maxRating: 3 }))).toEqual(['c']);
+  });
+
+  it('includes the whole last day of a date range', () => {
+    expect(ids(filterBooks(books, { addedFrom: '2024-01-20', addedTo: '2024-01-31' }))).toEqual(['c']);
+    expect(ids(filterBooks(books, { completedFrom: '2024-02-01', completedTo: '2024-02-01' }))).toEqual(['a']);
+  });
+});
+
+describe('sortBooks', () => {
+  it('sorts missing values first ascending and last descending, with ties by id', () => {
+    const books = [book('b', { rating: 4 }), book('c'), book('a', { rating: 4 }), book('d', { rating: 5 })];
+
+    expect(ids(sortBooks(books, { field: 'rating', order: 'asc' }))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(sortBooks(books, { field: 'rating', order: 'desc' }))).toEqual(['d', 'b', 'a', 'c']);
+  });
+});
+
+describe('toBookListParams', () => {
+  it('leaves out empty filters', () => {
+    expect(toBookListParams({ statuses: [], author: 'Le Guin' }, { field: 'title', order: 'asc' }, '  ')).toEqual({
+      sort: 'title',
+      order: 'asc',
+      status: undefined,
+      genre: undefined,
+      tag: undefined,
+      format: undefined,
+      author: 'Le Guin',
+      seriesId: undefined,
+      collectionId: undefined,
+      minRating: undefined,
+      maxRating: undefined,
+      addedFrom: undefined,
+      addedTo: undefined,
+      completedFrom: undefined,
+      completedTo: undefined,
+      q: undefined,
+    });
+  });
+
+  it('counts a range as one filter', () => {
+    expect(countActiveBookFilters({ minRating: 2, maxRating: 4, addedFrom: '2024-01-01', genres: [] })).toBe(2);
+  });
+});
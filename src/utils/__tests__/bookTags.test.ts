@@ -0,0 +1,93 @@
+import {
+  addTag,
+  describeTagAction,
+  getTagActionColors,
+  getTagActionPatches,
+  summarizeTags,
+} from '../bookTags';
+import type { Book } from '@/types/book';
+
+const book = (id: string, tags?: string[]): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Ursula K. Le Guin',
+  spineColor: 1,
+  addedDate: '2024-01-15T10:00:00.000Z',
+  tags,
+});
+
+describe('summarizeTags', () => {
+  it('counts books per tag, sorted by name ignoring case', () => {
+    expect(summarizeTags([book('a', ['signed', 'Audiobook']), book('b', ['signed']), book('c')])).toEqual([
+      { name: 'Audiobook', count: 1 },
+      { name: 'signed', count: 2 },
+    ]);
+  });
+});
+
+describe('addTag', () => {
+  it('trims the tag and skips tags already there, ignoring case', () => {
+    expect(addTag(undefined, '  signed ')).toEqual(['signed']);
+    expect(addTag(['Signed'], 'signed')).toEqual(['Signed']);
+    expect(addTag(['signed'], ' ')).toEqual(['signed']);
+  });
+});
+
+describe('getTagActionPatches', () => {
+  const books = [
+    book('a', ['first edition', 'signed', 'lent out']),
+    book('b', ['signed']),
+    book('c', ['audiobook']),
+    book('d'),
+  ];
+
+  it('renames a tag in place on the books carrying it', () => {
+    expect(getTagActionPatches(books, { type: 'rename', tag: 'signed', name: ' Signed copy ' })).toEqual({
+      a: { tags: ['first edition', 'Signed copy', 'lent out'] },
+      b: { tags: ['Signed copy'] },
+    });
+  });
+
+  it('merges tags without repeating the tag they merge into', () => {
+    expect(getTagActionPatches(books, { type: 'merge', tags: ['signed', 'audiobook'], into: 'first edition' })).toEqual({
+      a: { tags: ['first edition', 'lent out'] },
+      b: { tags: ['first edition'] },
+      c: { tags: ['first edition'] },
+    });
+  });
+
+  it('clears the tags of books left with none', () => {
+    expect(getTagActionPatches(books, { type: 'delete', tag: 'signed' })).toEqual({
+      a: { tags: ['first edition', 'lent out'] },
+      b: { tags: null },
+    });
+  });
+});
+
+describe('getTagActionColors', () => {
+  const colors = { signed: '#ef4444', audiobook: '#3b82f6' };
+
+  it('moves a colour to the renamed or merged tag unless it has its own', () => {
+    expect(getTagActionColors(colors, { type: 'rename', tag: 'signed', name: 'Signed copy' })).toEqual({
+      audiobook: '#3b82f6',
+      'Signed copy': '#ef4444',
+    });
+    expect(getTagActionColors(colors, { type: 'merge', tags: ['signed'], into: 'audiobook' })).toEqual({
+      audiobook: '#3b82f6',
+    });
+  });
+
+  it('drops the colour of a deleted tag', () => {
+    expect(getTagActionColors(colors, { type: 'delete', tag: 'audiobook' })).toEqual({ signed: '#ef4444' });
+  });
+});
+
+describe('describeTagAction', () => {
+  it('names the tags and counts the books', () => {
+    expect(describeTagAction({ type: 'rename', tag: 'signed', name: 'Signed copy' }, 2)).toBe(
+      'Renamed "signed" to "Signed copy" on 2 books'
+    );
+    expect(describeTagAction({ type: 'merge', tags: ['a', 'b'], into: 'c' }, 1)).toBe('Merged 2 tags into "c" on 1 book');
+    expect(describeTagAction({ type: 'delete', tag: 'signed' }, 3)).toBe('Removed "signed" from 3 books');
+  });
+});
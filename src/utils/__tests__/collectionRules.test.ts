@@ -0,0 +1,147 @@
+import {
+  describeCollectionRule,
+  isCollectionRuleComplete,
+  matchesCollectionRules,
+  queryToCollectionRules,
+} from '../collectionRules';
+import type { Book } from '@/types/book';
+import type { CollectionRule, CollectionRules } from '@/types/collection';
+
+const book = (overrides: Partial<Book> = {}): Book => ({
+  id: 'book-1',
+  title: 'A Wizard of Earthsea',
+  author: 'Ursula K. Le Guin',
+  genre: ['Fantasy', 'Young Adult'],
+  status: 'completed',
+  rating: 5,
+  pageCount: 183,
+  addedDate: '2026-03-01T10:00:00.000Z',
+  completedDate: '2026-03-14T21:30:00.000Z',
+  seriesId: 'series-1',
+  tags: ['Signed copy'],
+  spineColor: 1,
+  ...overrides,
+});
+
+const context = {
+  seriesName: (candidate: Book) => (candidate.seriesId === 'series-1' ? 'Earthsea Cycle' : undefined),
+};
+
+const now = new Date('2026-03-20T15:00:00.000Z');
+
+const matches = (conditions: CollectionRule[], overrides: Partial<Book> = {}, match: CollectionRules['match'] = 'all') =>
+  matchesCollectionRules({ match, conditions }, book(overrides), context, now);
+
+describe('matchesCollectionRules', () => {
+  it('matches statuses, counting a missing status as not matching', () => {
+    expect(matches([{ field: 'status', operator: 'is', value: 'completed' }])).toBe(true);
+    expect(matches([{ field: 'status', operator: 'isNot', value: 'completed' }])).toBe(false);
+    expect(matches([{ field: 'status', operator: 'isNot', value: 'dnf' }], { status: undefined })).toBe(true);
+  });
+
+  it('matches any part of text, ignoring case', () => {
+    expect(matches([{ field: 'author', operator: 'contains', value: 'LE GUIN' }])).toBe(true);
+    expect(matches([{ field: 'genre', operator: 'contains', value: 'young' }])).toBe(true);
+    expect(matches([{ field: 'genre', operator: 'contains', value: 'fant' }], { genre: 'Fantasy' })).toBe(true);
+    expect(matches([{ field: 'genre', operator: 'notContains', value: 'horror' }], { genre: undefined })).toBe(true);
+    expect(matches([{ field: 'series', operator: 'contains', value: 'cycle' }])).toBe(true);
+    expect(matches([{ field: 'tags', operator: 'contains', value: 'signed' }])).toBe(true);
+    expect(matches([{ field: 'tags', operator: 'notContains', value: 'signed' }], { tags: undefined })).toBe(true);
+    expect(
+      matches([{ field: 'series', operator: 'contains', value: 'old' }], { seriesId: undefined, _legacySeriesName: 'Old Series' })
+    ).toBe(true);
+  });
+
+  it('includes both ends of ranges and skips books without a value', () => {
+    expect(matches([{ field: 'rating', operator: 'between', min: 4, max: 5 }])).toBe(true);
+    expect(matches([{ field: 'pages', operator: 'between', max: 182 }])).toBe(false);
+    expect(matches([{ field: 'rating', operator: 'between', max: 3 }], { rating: undefined })).toBe(false);
+    expect(matches([{ field: 'completed', operator: 'between', from: '2026-03-01', to: '2026-03-14' }])).toBe(true);
+    expect(matches([{ field: 'completed', operator: 'between', to: '2026-03-13' }])).toBe(false);
+  });
+
+  it('counts whole days back from now', () => {
+    expect(matches([{ field: 'added', operator: 'withinDays', days: 19 }])).toBe(true);
+    expect(matches([{ field: 'added', operator: 'withinDays', days: 18 }])).toBe(false);
+    expect(matches([{ field: 'completed', operator: 'withinDays', days: 30 }], { completedDate: undefined })).toBe(false);
+  });
+
+  it('needs every condition for all and one for any', () => {
+    const conditions: CollectionRule[] = [
+      { field: 'status', operator: 'is', value: 'reading' },
+      { field: 'rating', operator: 'between', min: 5 },
+    ];
+
+    expect(matches(conditions, {}, 'all')).toBe(false);
+    expect(matches(conditions, {}, 'any')).toBe(true);
+  });
+});
+
+describe('isCollectionRuleComplete', () => {
+  it('needs text, a bound, or a date', () => {
+    expect(isCollectionRuleComplete({ field: 'author', operator: 'contains', value: ' ' })).toBe(false);
+    expect(isCollectionRuleComplete({ field: 'rating', operator: 'between' })).toBe(false);
+    expect(isCollectionRuleComplete({ field: 'pages', operator: 'between', min: 300, max: 100 })).toBe(false);
+    expect(isCollectionRuleComplete({ field: 'added', operator: 'between', from: '2026-01-01' })).toBe(true);
+    expect(isCollectionRuleComplete({ field: 'added', operator: 'withinDays', days: 0 })).toBe(false);
+  });
+});
+
+describe('describeCollectionRule', () => {
+  it.each<[CollectionRule, string]>([
+    [{ field: 'status', operator: 'isNot', value: 'dnf' }, 'Status is not Did Not Finish'],
+    [{ field: 'genre', operator: 'contains', value: 'fantasy' }, 'Genre contains "fantasy"'],
+    [{ field: 'rating', operator: 'between', min: 4 }, 'Rating at least 4'],
+    [{ field: 'rating', operator: 'between', min: 5, max: 5 }, 'Rating is 5'],
+    [{ field: 'pages', operator: 'between', max: 300 }, 'Pages at most 300'],
+    [{ field: 'completed', operator: 'between', from: '2026-01-01', to: '2026-01-31' }, 'Date finished from 2026-01-01 to 2026-01-31'],
+    [{ field: 'added', operator: 'withinDays', days: 1 }, 'Date added in the last 1 day'],
+  ])('describes %p', (rule, description) => {
+    expect(describeCollectionRule(rule)).toBe(description);
+  });
+});
+
+describe('queryToCollectionRules', () => {
+  it('turns terms joined by AND into rules that all match', () => {
+    expect(
+      queryToCollectionRules('author:"Le Guin" -status:dnf rating:>3 pages:<300 added:2025 -genre:horror')
+    ).toEqual({
+      rules: {
+        match: 'all',
+        conditions: [
+          { field: 'author', operator: 'contains', value: 'Le Guin' },
+          { field: 'status', operator: 'isNot', value: 'dnf' },
+          { field: 'rating', operator: 'between', min: 4, max: undefined },
+          { field: 'pages', operator: 'between', min: undefined, max: 299 },
+          { field: 'added', operator: 'between', from: '2025-01-01', to: '2025-12-31' },
+          { field: 'genre', operator: 'notContains', value: 'horror' },
+        ],
+      },
+    });
+  });
+
+  it('turns terms joined by OR into rules that any match', () => {
+    expect(queryToCollectionRules('status:reading OR series:dune OR tag:signed')).toEqual({
+      rules: {
+        match: 'any',
+        conditions: [
+          { field: 'status', operator: 'is', value: 'reading' },
+          { field: 'series', operator: 'contains', value: 'dune' },
+          { field: 'tags', operator: 'contains', value: 'signed' },
+        ],
+      },
+    });
+  });
+
+  it.each([
+    ['', 'Enter a search to make rules from'],
+    ['title:dune', "title: can't be used in a smart collection"],
+    ['wizard', 'Plain words like "wizard" can\'t be used in a smart collection; use a field such as author:'],
+    ['-rating:5', "-rating: can't be negated in a smart collection"],
+    ['rating:>3.5', 'rating: needs whole numbers with > or < in a smart collection'],
+    ['status:reading (genre:a OR genre:b)', 'Smart collections match all or any of their rules, so a query can only use one of AND and OR'],
+    ['status:done', 'Unknown status "done"; expected one of reading, completed, want-to-read, on-hold, dnf at column 8'],
+  ])('explains why %p has no rules', (input, error) => {
+    expect(queryToCollectionRules(input)).toEqual({ error });
+  });
+});
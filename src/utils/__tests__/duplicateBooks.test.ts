@@ -0,0 +1,149 @@
+import {
+  buildMergedBook,
+  findDuplicateGroups,
+  getDefaultMergeChoices,
+  remapMergedBookIds,
+} from '../duplicateBooks';
+import { isbn10To13, normalizeISBN } from '../isbn';
+import { Book } from '@/types/book';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book',
+  title: 'Book',
+  author: 'Author',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+describe('isbn', () => {
+  it('converts ISBN-10 to ISBN-13 with a recomputed check digit', () => {
+    expect(isbn10To13('0-441-01359-7')).toBe('9780441013593');
+    expect(isbn10To13('080442957X')).toBe('9780804429573');
+  });
+
+  it('normalizes both forms to ISBN-13 and rejects other values', () => {
+    expect(normalizeISBN('978-0-441-01359-3')).toBe('9780441013593');
+    expect(normalizeISBN('0441013597')).toBe('9780441013593');
+    expect(normalizeISBN('pD6arNyKyi8C')).toBeUndefined();
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups an ISBN-10 copy with its ISBN-13 copy', () => {
+    const groups = findDuplicateGroups([
+      book({ id: 'a', title: 'Dune', author: 'Frank Herbert', isbn13: ['9780441013593'] }),
+      book({ id: 'b', title: 'Dune Messiah', author: 'Frank Herbert', isbn13: ['9780593098233'] }),
+      book({ id: 'c', title: 'Dune (Ace)', author: 'Herbert', isbn10: ['0441013597'] }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].books.map(entry => entry.id)).toEqual(['a', 'c']);
+    expect(groups[0].reasons).toContain('isbn');
+  });
+
+  it('groups by Google Books and Open Library IDs', () => {
+    const groups = findDuplicateGroups([
+      book({ id: 'a', title: 'One', googleBooksId: 'pD6arNyKyi8C' }),
+      book({ id: 'b', title: 'Two', googleBooksId: 'pD6arNyKyi8C' }),
+      book({ id: 'c', title: 'Three', openLibraryId: 'OL1M' }),
+      book({ id: 'd', title: 'Four', openLibraryId: 'OL1M' }),
+    ]);
+
+    expect(groups.map(group => group.books.map(entry => entry.id))).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(groups.every(group => group.reasons.includes('provider-id'))).toBe(true);
+  });
+
+  it('links fuzzy title and author matches transitively and lists the oldest copy first', () => {
+    const groups = findDuplicateGroups([
+      book({ id: 'new', title: 'The Hobbit', author: 'Tolkien, J. R. R.', addedDate: '2024-05-01' }),
+      book({ id: 'old', title: 'Hobbit', author: 'J.R.R. Tolkien', addedDate: '2020-01-01', isbn13: ['9780261102217'] }),
+      book({ id: 'isbn', title: 'Der kleine Hobbit', author: 'Someone Else', isbn10: ['0261102214'], addedDate: '2022-01-01' }),
+      book({ id: 'other', title: 'The Silmarillion', author: 'J.R.R. Tolkien' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].books.map(entry => entry.id)).toEqual(['old', 'isbn', 'new']);
+    expect(groups[0].reasons.sort()).toEqual(['isbn', 'title-author']);
+  });
+
+  it('returns nothing for a library without duplicates', () => {
+    expect(findDuplicateGroups([
+      book({ id: 'a', title: 'Dune', author: 'Frank Herbert' }),
+      book({ id: 'b', title: 'Emma', author: 'Jane Austen' }),
+    ])).toEqual([]);
+  });
+});
+
+describe('merging', () => {
+  const copies = [
+    book({
+      id: 'keep',
+      title: 'Dune',
+      author: 'Frank Herbert',
+      status: 'want-to-read',
+      isbn13: ['9780441013593'],
+      collectionIds: ['favourites'],
+      addedDate: '2023-01-01',
+    }),
+    book({
+      id: 'other',
+      title: 'Dune (Ace Edition)',
+      author: 'Frank Herbert',
+      status: 'completed',
+      completedDate: '2022-06-01',
+      rating: 5,
+      thumbnail: 'cover.jpg',
+      isbn10: ['0441013597'],
+      collectionIds: ['sci-fi'],
+      seriesId: 'dune',
+      volumeNumber: 1,
+      isPartOfSeries: true,
+      readThroughs: [{ id: 'read-1', finishedDate: '2022-06-01' }],
+      addedDate: '2021-01-01',
+    }),
+  ];
+
+  it('defaults each field to the kept book, falling back to whichever copy has a value', () => {
+    const choices = getDefaultMergeChoices(copies, 'keep');
+
+    expect(choices.title).toBe('keep');
+    expect(choices.status).toBe('keep');
+    expect(choices.rating).toBe('other');
+    expect(choices.thumbnail).toBe('other');
+    expect(choices.series).toBe('other');
+  });
+
+  it('takes chosen fields together with their related properties and combines the rest', () => {
+    const merged = buildMergedBook(copies, 'keep', {
+      ...getDefaultMergeChoices(copies, 'keep'),
+      status: 'other',
+    });
+
+    expect(merged).toMatchObject({
+      id: 'keep',
+      title: 'Dune',
+      status: 'completed',
+      completedDate: '2022-06-01',
+      rating: 5,
+      seriesId: 'dune',
+      volumeNumber: 1,
+      isPartOfSeries: true,
+      isbn10: ['0441013597'],
+      isbn13: ['9780441013593'],
+      collectionIds: ['favourites', 'sci-fi'],
+      addedDate: '2021-01-01',
+    });
+    expect(merged.readThroughs).toHaveLength(1);
+  });
+
+  it('rejects a survivor outside the group', () => {
+    expect(() => buildMergedBook(copies, 'missing', {})).toThrow();
+  });
+
+  it('re-points book id lists to the survivor', () => {
+    expect(remapMergedBookIds(['a', 'other', 'b'], ['keep', 'other'], 'keep', true)).toEqual(['a', 'keep', 'b']);
+    expect(remapMergedBookIds(['a', 'other', 'keep'], ['keep', 'other'], 'keep', false)).toEqual(['a']);
+  });
+});
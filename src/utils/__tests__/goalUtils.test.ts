@@ -0,0 +1,112 @@
+import {
+  describeGoalPace,
+  getCurrentGoalProgress,
+  getGoalHistory,
+  getGoalPeriod,
+  measureGoal,
+} from '../goalUtils';
+import { Book } from '@/types/book';
+import { ReadingGoal } from '@/types/user-settings';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book',
+  title: 'Book',
+  author: 'Author',
+  spineColor: 1,
+  addedDate: '2025-01-01T12:00:00',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+const goal = (overrides: Partial<ReadingGoal>): ReadingGoal => ({
+  id: 'goal',
+  type: 'books',
+  period: 'yearly',
+  target: 12,
+  ...overrides,
+});
+
+describe('goalUtils', () => {
+  const now = new Date('2026-07-01T12:00:00');
+  const books = [
+    book({ id: 'a', completedDate: '2026-01-20T12:00:00', pageCount: 300, genre: ['Fantasy'] }),
+    book({
+      id: 'b',
+      pageCount: 200,
+      genre: 'Mystery',
+      readThroughs: [
+        { id: 'r1', finishedDate: '2025-05-01T12:00:00' },
+        { id: 'r2', finishedDate: '2026-03-15T12:00:00' },
+      ],
+    }),
+    book({ id: 'c', completedDate: '2026-06-10T12:00:00', pageCount: 150, genre: 'fantasy' }),
+  ];
+
+  it('builds calendar periods for monthly and yearly goals', () => {
+    const monthly = getGoalPeriod(goal({ period: 'monthly' }), now);
+    const yearly = getGoalPeriod(goal({ period: 'yearly' }), now);
+
+    expect(monthly.label).toBe('July 2026');
+    expect(yearly.start).toEqual(new Date('2026-01-01T00:00:00'));
+    expect(yearly.label).toBe('2026');
+  });
+
+  it('uses the stored range for custom goals', () => {
+    const period = getGoalPeriod(
+      goal({ period: 'custom', startDate: '2026-06-01', endDate: '2026-06-30' }),
+      now
+    );
+
+    expect(period.start).toEqual(new Date('2026-06-01T00:00:00'));
+    expect(period.end.getDate()).toBe(30);
+  });
+
+  it('measures books, pages and distinct genres in a period', () => {
+    const period = getGoalPeriod(goal({}), now);
+
+    expect(measureGoal('books', books, period)).toBe(3);
+    expect(measureGoal('pages', books, period)).toBe(650);
+    expect(measureGoal('genres', books, period)).toBe(2);
+  });
+
+  it('reports how far behind schedule a goal is', () => {
+    const progress = getCurrentGoalProgress(goal({ target: 12 }), books.slice(0, 1), now);
+
+    expect(progress.status).toBe('behind');
+    expect(describeGoalPace(progress)).toBe('4 books behind schedule');
+  });
+
+  it('reports goals that are ahead of schedule or met', () => {
+    const ahead = getCurrentGoalProgress(goal({ target: 4 }), books, now);
+    const met = getCurrentGoalProgress(goal({ type: 'pages', target: 500 }), books, now);
+
+    expect(describeGoalPace(ahead)).toBe('1 book ahead of schedule');
+    expect(met.status).toBe('met');
+  });
+
+  it('lists past periods with whether each goal was met', () => {
+    const history = getGoalHistory(goal({ target: 1 }), books, now, 2);
+
+    expect(history.map(entry => entry.period.label)).toEqual(['2025', '2024']);
+    expect(history.map(entry => entry.status)).toEqual(['met', 'missed']);
+    expect(describeGoalPace(history[1])).toBe('Missed by 1 book');
+  });
+
+  it('stops history at the period the goal was created in', () => {
+    const history = getGoalHistory(
+      goal({ period: 'monthly', createdAt: '2026-05-10T12:00:00' }),
+      books,
+      now
+    );
+
+    expect(history.map(entry => entry.period.label)).toEqual(['June 2026', 'May 2026']);
+  });
+
+  it('only reports a custom goal in history once its range has ended', () => {
+    const running = goal({ period: 'custom', startDate: '2026-06-01', endDate: '2026-07-31' });
+    const finished = goal({ period: 'custom', startDate: '2026-01-01', endDate: '2026-03-31', target: 2 });
+
+    expect(getGoalHistory(running, books, now)).toEqual([]);
+    expect(getGoalHistory(finished, books, now)[0].status).toBe('met');
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  findMatchingBook,
+  isFuzzyTitleAuthorMatch,
+  mergeImportedBook,
+  resolveStagedImport,
+  setStagedKindResolution,
+  setStagedRowResolution,
+  stageImport,
+} from '../importStaging';
+import { Book } from '@/types/book';
+import { CompleteImportResult } from '../importUtils';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book',
+  title: 'Book',
+  author: 'Author',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+describe('importStaging', () => {
+  const library = [
+    book({ id: 'lib-dune', title: 'Dune', author: 'Frank Herbert', isbn13: ['9780441013593'], rating: 5 }),
+    book({ id: 'lib-hobbit', title: 'The Hobbit', author: 'J.R.R. Tolkien', googleBooksId: 'pD6arNyKyi8C', status: 'completed' }),
+    book({ id: 'lib-piranesi', title: 'Piranesi', author: 'Susanna Clarke', notes: 'Loved it' }),
+  ];
+
+  describe('matching', () => {
+    it('matches by provider ID before ISBN and title', () => {
+      const match = findMatchingBook(book({ id: 'x', title: 'Something else', googleBooksId: 'pD6arNyKyi8C' }), library);
+      expect(match).toEqual({ book: library[1], matchedBy: 'provider-id' });
+    });
+
+    it('matches ISBNs kept in googleBooksId by plain imports', () => {
+      const match = findMatchingBook(book({ id: 'x', title: 'Dune (40th anniversary)', googleBooksId: '978-0441013593' }), library);
+      expect(match?.matchedBy).toBe('isbn');
+    });
+
+    it('matches titles and authors written slightly differently', () => {
+      expect(isFuzzyTitleAuthorMatch(
+        book({ title: 'The Hobbit: or There and Back Again', author: 'Tolkien, J. R. R.' }),
+        library[1]
+      )).toBe(true);
+      expect(isFuzzyTitleAuthorMatch(book({ title: 'Piranesí', author: 'S. Clarke' }), library[2])).toBe(true);
+      expect(isFuzzyTitleAuthorMatch(book({ title: 'Dune Messiah', author: 'Frank Herbert' }), library[0])).toBe(false);
+      expect(isFuzzyTitleAuthorMatch(book({ title: 'Piranesi', author: 'Someone Else' }), library[2])).toBe(false);
+    });
+  });
+
+  describe('stageImport', () => {
+    const result: CompleteImportResult = {
+      successful: [
+        book({ id: 'in-1', title: 'Dune', author: 'Frank Herbert', isbn13: ['9780441013593'], rating: 4 }),
+        book({ id: 'in-2', title: 'The Hobbit', author: 'J.R.R. Tolkien', status: 'completed' }),
+        book({ id: 'in-3', title: 'Circe', author: 'Madeline Miller' }),
+        book({ id: 'in-4', title: 'Circe', author: 'Madeline Miller', rating: 5 }),
+      ],
+      failed: [{ rawData: { title: '' }, reason: 'Missing title' }],
+      total: 5,
+      series: {
+        successful: [{ id: 's1', name: 'Dune', books: ['in-1', 'in-3'], readingOrder: 'publication' }],
+        failed: [],
+        total: 1,
+      },
+      collections: {
+        successful: [{ id: 'c1', name: 'Favourites', bookIds: ['in-1', 'in-2', 'in-3', 'in-4'] }],
+        failed: [],
+        total: 1,
+      },
+    };
+
+    it('classifies rows as new, updated, duplicate or invalid', () => {
+      const staged = stageImport(result, library, 'JSON');
+
+      expect(staged.rows.map(row => [row.kind, row.resolution])).toEqual([
+        ['updated', 'merge'],
+        ['duplicate', 'skip'],
+        ['new', 'keep'],
+        ['duplicate', 'skip'],
+        ['invalid', 'skip'],
+      ]);
+      expect(staged.rows[0].changedFields).toEqual(['rating']);
+      expect(staged.rows[3]).toMatchObject({ matchedInFile: true, matchedBy: 'title-author' });
+      expect(staged.rows[4].reason).toBe('Missing title');
+    });
+
+    it('ignores decisions a row does not allow', () => {
+      let staged = stageImport(result, library, 'JSON');
+      staged = setStagedRowResolution(staged, 'row-2', 'overwrite');
+      staged = setStagedKindResolution(staged, 'invalid', 'keep');
+
+      expect(staged.rows[2].resolution).toBe('keep');
+      expect(staged.rows[4].resolution).toBe('skip');
+    });
+
+    it('writes only what was chosen and keeps existing values on merge', () => {
+      const resolved = resolveStagedImport(stageImport(result, library, 'JSON'));
+
+      expect(resolved.successful.map(item => item.id)).toEqual(['lib-dune', 'in-3']);
+      expect(resolved.successful[0].rating).toBe(5);
+      expect(resolved.failed).toHaveLength(1);
+    });
+
+    it('overwrites matched books while keeping their identity', () => {
+      const staged = setStagedRowResolution(stageImport(result, library, 'JSON'), 'row-0', 'overwrite');
+      const [dune] = resolveStagedImport(staged).successful;
+
+      expect(dune).toMatchObject({ id: 'lib-dune', rating: 4, addedDate: '2024-01-01' });
+    });
+
+    it('merges a duplicate row into the earlier row from the same file', () => {
+      const staged = setStagedRowResolution(stageImport(result, library, 'JSON'), 'row-3', 'merge');
+      const resolved = resolveStagedImport(staged);
+
+      expect(resolved.successful.filter(item => item.title === 'Circe')).toEqual([
+        expect.objectContaining({ id: 'in-3', rating: 5 }),
+      ]);
+    });
+
+    it('points series and collections at the books each row became', () => {
+      let staged = stageImport(result, library, 'JSON');
+      staged = setStagedRowResolution(staged, 'row-2', 'skip');
+      const resolved = resolveStagedImport(staged);
+
+      expect(resolved.series?.successful[0].books).toEqual(['lib-dune']);
+      expect(resolved.collections?.successful[0].bookIds).toEqual(['lib-dune', 'lib-hobbit']);
+    });
+
+    it('gives kept rows a new ID when they reuse a library ID', () => {
+      const staged = stageImport(
+        { successful: [book({ id: 'lib-dune', title: 'Dune', author: 'Frank Herbert', rating: 2 })], failed: [], total: 1 },
+        library,
+        'JSON'
+      );
+      const [kept] = resolveStagedImport(setStagedRowResolution(staged, 'row-0', 'keep')).successful;
+
+      expect(staged.rows[0].matchedBy).toBe('provider-id');
+      expect(kept.id).not.toBe('lib-dune');
+    });
+  });
+
+  it('combines read history when merging', () => {
+    const merged = mergeImportedBook(
+      book({ id: 'a', readThroughs: [{ id: 'r1', finishedDate: '2020-01-01' }] }),
+      book({ id: 'b', notes: 'New notes', readThroughs: [
+        { id: 'r2', finishedDate: '2020-01-01T12:00:00.000Z' },
+        { id: 'r3', finishedDate: '2023-05-01' },
+      ] })
+    );
+
+    expect(merged.id).toBe('a');
+    expect(merged.notes).toBe('New notes');
+    expect(merged.readThroughs?.map(read => read.id)).toEqual(['r1', 'r3']);
+  });
+});
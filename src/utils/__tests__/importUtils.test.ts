@@ -1,4 +1,10 @@
-import { validateImportedBook } from '../importUtils';
+import {
+  cleanGoodreadsISBN,
+  mapGoodreadsShelfToStatus,
+  parseGoodreadsCSV,
+  parseGoodreadsTitle,
+  validateImportedBook
+} from '../importUtils';
 import { createLogger } from '@/utils/loggingUtils';
 
 // Mock the logger
@@ -92,5 +98,66 @@ describe('importUtils', () => {
     });
   });
 
+  describe('Goodreads import', () => {
+    const goodreadsHeader = 'Book Id,Title,Author,ISBN,ISBN13,My Rating,Number of Pages,Original Publication Year,Date Read,Date Added,Bookshelves,Exclusive Shelf,My Review,Private Notes';
+
+    test('should strip the ="..." wrapping from ISBNs', () => {
+      expect(cleanGoodreadsISBN('="0439023491"')).toBe('0439023491');
+      expect(cleanGoodreadsISBN('="9780439023498"')).toBe('9780439023498');
+      expect(cleanGoodreadsISBN('=""')).toBeUndefined();
+    });
+
+    test('should split the series suffix from the title', () => {
+      expect(parseGoodreadsTitle('Catching Fire (The Hunger Games, #2)')).toEqual({
+        title: 'Catching Fire',
+        seriesName: 'The Hunger Games',
+        volumeNumber: 2
+      });
+      expect(parseGoodreadsTitle('Harry Potter (Book 1) (Harry Potter, #1)').title).toBe('Harry Potter (Book 1)');
+      expect(parseGoodreadsTitle('The Color of Magic (Discworld, #1; Rincewind #1)').seriesName).toBe('Discworld');
+      expect(parseGoodreadsTitle('Dune')).toEqual({ title: 'Dune' });
+    });
+
+    test('should map exclusive shelves to statuses', () => {
+      expect(mapGoodreadsShelfToStatus('read')).toBe('completed');
+      expect(mapGoodreadsShelfToStatus('currently-reading')).toBe('reading');
+      expect(mapGoodreadsShelfToStatus('to-read')).toBe('want-to-read');
+      expect(mapGoodreadsShelfToStatus('did-not-finish')).toBe('dnf');
+      expect(mapGoodreadsShelfToStatus('on-hold')).toBe('on-hold');
+    });
+
+    test('should convert Goodreads rows into raw imports', () => {
+      const csv = [
+        goodreadsHeader,
+        '2767052,"Catching Fire (The Hunger Games, #2)",Suzanne Collins,"=""0439023491""","=""9780439023498""",4,391,2009,2024/03/14,2023/12/01,"favorites, sci-fi, read",read,"Great book.\nLoved the arena.",',
+        '1,Dune,Frank Herbert,"=""""","=""""",0,412,1965,,2024/01/01,to-read,to-read,,'
+      ].join('\n');
+
+      const [catchingFire, dune] = parseGoodreadsCSV(csv);
+
+      expect(catchingFire).toMatchObject({
+        title: 'Catching Fire',
+        author: 'Suzanne Collins',
+        isbn: '9780439023498',
+        status: 'completed',
+        rating: 4,
+        completedDate: '2024-03-14',
+        notes: 'Great book.\nLoved the arena.',
+        isPartOfSeries: true,
+        seriesName: 'The Hunger Games',
+        volumeNumber: 2,
+        collectionNames: ['favorites', 'sci-fi']
+      });
+      expect(dune).toMatchObject({ title: 'Dune', status: 'want-to-read', isPartOfSeries: false });
+      expect(dune.rating).toBeUndefined();
+      expect(dune.isbn).toBeUndefined();
+      expect(dune.collectionNames).toBeUndefined();
+    });
+
+    test('should reject files that are not Goodreads exports', () => {
+      expect(() => parseGoodreadsCSV('title,author\nDune,Frank Herbert')).toThrow('Goodreads library export');
+    });
+  });
+
   // Note: We're not testing convertRawToBook since it's a private function
 });
@@ -0,0 +1,145 @@
+import {
+  booksToLibraryThingJSON,
+  booksToLibraryThingTSV,
+  flipLibraryThingAuthor,
+  parseLibraryThingJSON,
+  parseLibraryThingSeries,
+  parseLibraryThingTSV,
+} from '../libraryThingFormat';
+import { Book } from '@/types/book';
+import { Collection } from '@/types/collection';
+import { Series } from '@/types/series';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book',
+  title: 'Book',
+  author: 'Author',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+const withoutIds = <T extends { id: string }>(items: T[] = []) =>
+  items.map(({ id: _id, ...rest }) => rest);
+
+describe('LibraryThing format', () => {
+  const books = [
+    book({
+      id: 'a',
+      title: 'Catching Fire',
+      author: 'Suzanne Collins',
+      isbn13: ['9780439023498'],
+      status: 'completed',
+      completedDate: '2024-03-09',
+      rating: 5,
+      notes: 'Better than the first',
+      pageCount: 391,
+      publishedDate: '2009',
+      isPartOfSeries: true,
+      seriesId: 's1',
+      volumeNumber: 2,
+      readThroughs: [{ id: 'r1', startedDate: '2024-03-01', finishedDate: '2024-03-09' }],
+    }),
+    book({ id: 'b', title: 'Dune', author: 'Frank Herbert', status: 'dnf' }),
+  ];
+  const collections: Collection[] = [
+    {
+      id: 'c1',
+      name: 'Favourites',
+      bookIds: ['a'],
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    },
+  ];
+  const series = [{ id: 's1', name: 'The Hunger Games' } as Series];
+
+  const expectRoundTrip = (parsed: ReturnType<typeof parseLibraryThingTSV>) => {
+    const [catchingFire, dune] = parsed;
+
+    expect(catchingFire).toMatchObject({
+      title: 'Catching Fire',
+      author: 'Suzanne Collins',
+      isbn: '9780439023498',
+      status: 'completed',
+      completedDate: '2024-03-09',
+      rating: 5,
+      notes: 'Better than the first',
+      pageCount: '391',
+      publishedDate: '2009',
+      isPartOfSeries: true,
+      seriesName: 'The Hunger Games',
+      volumeNumber: 2,
+      collectionNames: ['Favourites'],
+    });
+    expect(withoutIds(catchingFire.readThroughs)).toEqual([
+      { startedDate: '2024-03-01', finishedDate: '2024-03-09', dnf: undefined },
+    ]);
+    expect(dune).toMatchObject({ title: 'Dune', status: 'dnf', collectionNames: undefined });
+  };
+
+  it('keeps ratings, read dates and tags through a TSV round trip', () => {
+    expectRoundTrip(parseLibraryThingTSV(booksToLibraryThingTSV(books, collections, series)));
+  });
+
+  it('keeps ratings, read dates and tags through a JSON round trip', () => {
+    expectRoundTrip(parseLibraryThingJSON(booksToLibraryThingJSON(books, collections, series)));
+  });
+
+  it('maps a LibraryThing TSV export', () => {
+    const tsv = [
+      'Book Id\tTitle\tPrimary Author\tDate\tReview\tRating\tPrivate Comment\tPage Count\tDate Started\tDate Read\tTags\tCollections\tISBN\tSeries',
+      '101\tThe Hobbit\tTolkien, J.R.R.\t1937\tA classic\t3.5\t\t310\t\t2023-05-02\tfantasy, comfort\tYour library, Favorites\t[0261103342]\t',
+      '102\tDune\tHerbert, Frank\t1965\t\t\t\t\t2024-06-01\t\t\tCurrently reading\t\tDune (1)',
+    ].join('\n');
+
+    const [hobbit, dune] = parseLibraryThingTSV(tsv);
+
+    expect(hobbit).toMatchObject({
+      author: 'J.R.R. Tolkien',
+      isbn: '0261103342',
+      status: 'completed',
+      completedDate: '2023-05-02',
+      rating: 4,
+      notes: 'A classic',
+      collectionNames: ['fantasy', 'comfort', 'Favorites'],
+    });
+    expect(dune).toMatchObject({ status: 'reading', seriesName: 'Dune', volumeNumber: 1 });
+  });
+
+  it('maps a LibraryThing JSON export with ISBNs keyed by index', () => {
+    const json = JSON.stringify({
+      '101': {
+        books_id: '101',
+        title: 'Piranesi',
+        primaryauthor: 'Clarke, Susanna',
+        rating: 4,
+        isbn: { '0': '1635575637', '2': '9781635575637' },
+        collections: ['To read'],
+        tags: [],
+      },
+    });
+
+    expect(parseLibraryThingJSON(json)).toEqual([
+      expect.objectContaining({
+        title: 'Piranesi',
+        author: 'Susanna Clarke',
+        isbn: '9781635575637',
+        status: 'want-to-read',
+        rating: 4,
+      }),
+    ]);
+  });
+
+  it('rejects files that are not LibraryThing exports', () => {
+    expect(() => parseLibraryThingTSV('title\tauthor\nDune\tFrank Herbert')).toThrow('LibraryThing');
+    expect(() => parseLibraryThingJSON('{"1": {"name": "Dune"}}')).toThrow('LibraryThing');
+  });
+
+  it('parses author names and series entries', () => {
+    expect(flipLibraryThingAuthor('Le Guin, Ursula K.')).toBe('Ursula K. Le Guin');
+    expect(flipLibraryThingAuthor('Homer')).toBe('Homer');
+    expect(parseLibraryThingSeries('Discworld (12.5)')).toEqual({ seriesName: 'Discworld', volumeNumber: 12.5 });
+    expect(parseLibraryThingSeries('Standalone')).toEqual({ seriesName: 'Standalone' });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  getActiveLoansByBookId,
+  getDaysOverdue,
+  getLoanReminder,
+  getLoansNeedingReminder,
+  getOverdueLoans,
+  isLoanOverdue,
+} from '../loanUtils';
+import type { Loan } from '@/types/loan';
+
+const loan = (id: string, overrides: Partial<Loan> = {}): Loan => ({
+  id,
+  bookId: `book-${id}`,
+  direction: 'lent',
+  person: 'Sam',
+  loanedDate: '2026-03-01',
+  ...overrides,
+});
+
+const now = new Date('2026-03-20T09:00:00.000Z');
+
+describe('isLoanOverdue', () => {
+  it('counts a loan overdue from the day after it is due, until it is returned', () => {
+    expect(isLoanOverdue(loan('a', { dueDate: '2026-03-19' }), now)).toBe(true);
+    expect(isLoanOverdue(loan('b', { dueDate: '2026-03-20' }), now)).toBe(false);
+    expect(isLoanOverdue(loan('c'), now)).toBe(false);
+    expect(isLoanOverdue(loan('d', { dueDate: '2026-03-10', returnedDate: '2026-03-18' }), now)).toBe(false);
+  });
+
+  it('counts whole days overdue', () => {
+    expect(getDaysOverdue(loan('a', { dueDate: '2026-03-17' }), now)).toBe(3);
+    expect(getDaysOverdue(loan('b', { dueDate: '2026-03-25' }), now)).toBe(0);
+  });
+});
+
+describe('getOverdueLoans', () => {
+  it('lists the longest overdue first', () => {
+    const loans = [
+      loan('a', { dueDate: '2026-03-15' }),
+      loan('b', { dueDate: '2026-03-02' }),
+      loan('c', { dueDate: '2026-04-01' }),
+    ];
+
+    expect(getOverdueLoans(loans, now).map(entry => entry.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('getActiveLoansByBookId', () => {
+  it('keeps the most recent active loan of each book', () => {
+    const active = getActiveLoansByBookId([
+      loan('a', { bookId: 'book-1', loanedDate: '2026-01-05', returnedDate: '2026-02-01' }),
+      loan('b', { bookId: 'book-1', loanedDate: '2026-03-01' }),
+      loan('c', { bookId: 'book-2', loanedDate: '2026-02-10' }),
+    ]);
+
+    expect(active.get('book-1')?.id).toBe('b');
+    expect(active.get('book-2')?.id).toBe('c');
+    expect(active.size).toBe(2);
+  });
+});
+
+describe('getLoansNeedingReminder', () => {
+  it('reminds once, and again when the due date was pushed back after the reminder', () => {
+    const loans = [
+      loan('a', { dueDate: '2026-03-10' }),
+      loan('b', { dueDate: '2026-03-10', remindedAt: '2026-03-11T08:00:00.000Z' }),
+      loan('c', { dueDate: '2026-03-15', remindedAt: '2026-03-11T08:00:00.000Z' }),
+    ];
+
+    expect(getLoansNeedingReminder(loans, now).map(entry => entry.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('getLoanReminder', () => {
+  it('names the book and who has it', () => {
+    expect(getLoanReminder(loan('a', { dueDate: '2026-03-19' }), 'The Dispossessed', now)).toEqual({
+      title: '"The Dispossessed" is overdue',
+      message: 'Sam was due to give it back 1 day ago.',
+    });
+    expect(getLoanReminder(loan('b', { direction: 'borrowed', dueDate: '2026-03-15' }), 'Earthsea', now).message).toBe(
+      'It was due back to Sam 5 days ago.'
+    );
+  });
+});
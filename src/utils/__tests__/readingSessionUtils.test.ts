@@ -0,0 +1,46 @@
+import {
+  deriveProgressFromSessions,
+  getLatestSessionWithEndPage,
+  summarizeReadingSessions,
+} from '../readingSessionUtils';
+import { ReadingSession } from '@/types/reading-session';
+
+const session = (overrides: Partial<ReadingSession>): ReadingSession => ({
+  id: 'session',
+  bookId: 'book-1',
+  date: '2026-03-01T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('readingSessionUtils', () => {
+  const sessions = [
+    session({ id: 'a', date: '2026-03-01T12:00:00.000Z', startPage: 0, endPage: 50, minutes: 40 }),
+    session({ id: 'b', date: '2026-03-03T12:00:00.000Z', startPage: 50, endPage: 120, minutes: 55 }),
+    session({ id: 'c', date: '2026-03-04T12:00:00.000Z', minutes: 10 }),
+  ];
+
+  it('finds the latest session that recorded an end page', () => {
+    expect(getLatestSessionWithEndPage(sessions)?.id).toBe('b');
+  });
+
+  it('derives progress from the latest end page', () => {
+    expect(deriveProgressFromSessions(sessions, 240)).toBe(0.5);
+  });
+
+  it('clamps progress at 1 when the end page exceeds the page count', () => {
+    expect(deriveProgressFromSessions([session({ endPage: 400 })], 300)).toBe(1);
+  });
+
+  it('returns undefined without a page count or any end page', () => {
+    expect(deriveProgressFromSessions(sessions, undefined)).toBeUndefined();
+    expect(deriveProgressFromSessions([session({ minutes: 20 })], 300)).toBeUndefined();
+  });
+
+  it('summarizes minutes and pages across sessions', () => {
+    expect(summarizeReadingSessions(sessions)).toEqual({
+      sessionCount: 3,
+      totalMinutes: 105,
+      totalPages: 120,
+    });
+  });
+});
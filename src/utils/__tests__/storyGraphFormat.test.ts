@@ -0,0 +1,124 @@
+import { booksToStoryGraphCSV, parseStoryGraphCSV, parseStoryGraphDatesRead } from '../storyGraphFormat';
+import { Book } from '@/types/book';
+import { Collection } from '@/types/collection';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book',
+  title: 'Book',
+  author: 'Author',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+const collection = (overrides: Partial<Collection>): Collection => ({
+  id: 'collection',
+  name: 'Collection',
+  bookIds: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+const withoutIds = <T extends { id: string }>(items: T[] = []) =>
+  items.map(({ id: _id, ...rest }) => rest);
+
+describe('StoryGraph format', () => {
+  const sampleExport = [
+    'Title,Authors,Contributors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,Moods,Pace,Character- or Plot-Driven?,Strong Character Development?,Loveable Characters?,Diverse Characters?,Flawed Characters?,Star Rating,Review,Content Warnings,Content Warning Description,Tags,Owned?',
+    'Piranesi,Susanna Clarke,,9781635575637,hardcover,read,2023/01/02,2024/02/10,"2021/05/01-2021/05/09, 2024/02/01-2024/02/10",2,mysterious,medium,,,,,,4.75,"Strange, lovely.",,,"favourites, fantasy",Yes',
+    'The Hobbit,J.R.R. Tolkien,,,paperback,did-not-finish,2023/03/01,,2023/03/05-,0,,,,,,,,,,,,,No',
+    'Dune,Frank Herbert,,9780441013593,,to-read,2023/04/01,,,0,,,,,,,,,,,,sci-fi,No',
+  ].join('\n');
+
+  it('maps StoryGraph columns to our import fields', () => {
+    const [piranesi, hobbit, dune] = parseStoryGraphCSV(sampleExport);
+
+    expect(piranesi).toMatchObject({
+      title: 'Piranesi',
+      author: 'Susanna Clarke',
+      isbn: '9781635575637',
+      status: 'completed',
+      completedDate: '2024-02-10',
+      rating: 5,
+      notes: 'Strange, lovely.',
+      collectionNames: ['favourites', 'fantasy'],
+    });
+    expect(withoutIds(piranesi.readThroughs)).toEqual([
+      { startedDate: '2021-05-01', finishedDate: '2021-05-09' },
+      { startedDate: '2024-02-01', finishedDate: '2024-02-10' },
+    ]);
+    expect(hobbit.status).toBe('dnf');
+    expect(withoutIds(hobbit.readThroughs)).toEqual([
+      { startedDate: '2023-03-05', finishedDate: undefined, dnf: true },
+    ]);
+    expect(dune).toMatchObject({ status: 'want-to-read', rating: undefined, readThroughs: undefined });
+  });
+
+  it('treats a single date as the finish date', () => {
+    expect(withoutIds(parseStoryGraphDatesRead('2022/7/4'))).toEqual([
+      { startedDate: undefined, finishedDate: '2022-07-04' },
+    ]);
+  });
+
+  it('rejects files that are not StoryGraph exports', () => {
+    expect(() => parseStoryGraphCSV('title,author\nDune,Frank Herbert')).toThrow('StoryGraph');
+  });
+
+  it('keeps ratings, read dates and tags through a round trip', () => {
+    const books = [
+      book({
+        id: 'a',
+        title: 'Piranesi',
+        author: 'Susanna Clarke',
+        isbn13: ['9781635575637'],
+        status: 'completed',
+        completedDate: '2024-02-10',
+        rating: 4,
+        notes: 'Re-read, still "perfect"',
+        readThroughs: [{ id: 'r1', startedDate: '2021-05-01T12:00:00.000Z', finishedDate: '2021-05-09T12:00:00.000Z' }],
+      }),
+      book({ id: 'b', title: 'Dune', author: 'Frank Herbert', status: 'on-hold' }),
+    ];
+    const collections = [
+      collection({ id: 'c1', name: 'Favourites', bookIds: ['a'] }),
+      collection({ id: 'c2', name: 'Sci-fi, classics', bookIds: ['b'] }),
+    ];
+
+    const [piranesi, dune] = parseStoryGraphCSV(booksToStoryGraphCSV(books, collections));
+
+    expect(piranesi).toMatchObject({
+      title: 'Piranesi',
+      isbn: '9781635575637',
+      status: 'completed',
+      completedDate: '2024-02-10',
+      rating: 4,
+      notes: 'Re-read, still "perfect"',
+      collectionNames: ['Favourites'],
+    });
+    expect(withoutIds(piranesi.readThroughs)).toEqual([
+      { startedDate: '2021-05-01', finishedDate: '2021-05-09' },
+      { startedDate: undefined, finishedDate: '2024-02-10' },
+    ]);
+    expect(dune.status).toBe('on-hold');
+    // StoryGraph tags are comma-separated, so commas in a collection name split it
+    expect(dune.collectionNames).toEqual(['Sci-fi', 'classics']);
+  });
+
+  it('counts finished reads in the Read Count column', () => {
+    const csv = booksToStoryGraphCSV([
+      book({
+        status: 'completed',
+        completedDate: '2024-02-10',
+        readThroughs: [
+          { id: 'r1', finishedDate: '2020-01-01' },
+          { id: 'r2', startedDate: '2022-01-01', dnf: true },
+        ],
+      }),
+    ]);
+    const [, row] = csv.trim().split('\n');
+
+    expect(row).toContain('"2020/01/01, 2022/01/01-, 2024/02/10",2,');
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  BOOK_CONFLICT_FIELDS,
+  COLLECTION_CONFLICT_FIELDS,
+  formatConflictValue,
+  getConflictingFields,
+  mergeConflict,
+} from '../syncConflicts';
+import type { CollectionRecord } from '@/lib/apiClient';
+import type { Book } from '@/types/book';
+
+const book = (overrides: Partial<Book>): Book => ({
+  id: 'book-1',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  spineColor: 1,
+  addedDate: '2024-01-01',
+  isPartOfSeries: false,
+  ...overrides,
+});
+
+describe('getConflictingFields', () => {
+  it('lists only the fields that differ, grouping related ones', () => {
+    const local = book({ title: 'Dune (annotated)', status: 'completed', completedDate: '2024-02-01' });
+    const server = book({ status: 'completed', completedDate: '2024-03-01', rating: 4 });
+
+    expect(getConflictingFields(BOOK_CONFLICT_FIELDS, local, server).map(field => field.key)).toEqual([
+      'title',
+      'status',
+      'rating',
+    ]);
+  });
+
+  it('treats missing and empty values alike', () => {
+    expect(getConflictingFields(BOOK_CONFLICT_FIELDS, book({ notes: undefined }), book({}))).toEqual([]);
+  });
+});
+
+describe('mergeConflict', () => {
+  const local = book({ title: 'Dune (annotated)', status: 'completed', completedDate: '2024-02-01', progress: 100 });
+  const server = book({ status: 'reading', progress: 40, rating: 4 });
+
+  it('keeps local values unless the server version was chosen', () => {
+    expect(mergeConflict(BOOK_CONFLICT_FIELDS, local, server, { rating: 'server' })).toEqual({
+      title: 'Dune (annotated)',
+      status: 'completed',
+      completedDate: '2024-02-01',
+      progress: 100,
+      rating: undefined,
+    });
+  });
+
+  it('returns no changes when every field takes the server version', () => {
+    expect(
+      mergeConflict(BOOK_CONFLICT_FIELDS, local, server, { title: 'server', status: 'server', rating: 'server' })
+    ).toEqual({});
+  });
+});
+
+describe('formatConflictValue', () => {
+  it('uses the field formatter or falls back to text', () => {
+    const collection: CollectionRecord = {
+      id: 'collection-1',
+      name: 'Favorites',
+      bookIds: ['a', 'b'],
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01',
+    };
+    const [name, , , , books] = COLLECTION_CONFLICT_FIELDS;
+
+    expect(formatConflictValue(name, collection)).toBe('Favorites');
+    expect(formatConflictValue(books, collection)).toBe('2 books');
+    expect(formatConflictValue(BOOK_CONFLICT_FIELDS[4], book({ genre: ['Sci-fi', 'Classic'] }))).toBe('Sci-fi, Classic');
+  });
+});
@@ -0,0 +1,244 @@
+import { isValidEAN13, isValidISBN13 } from './isbn';
+
+/**
+ * Pixels in the layout of the browser's ImageData: RGBA, row by row. Canvas
+ * frames from the camera and decoded photos can be passed straight in.
+ */
+export interface BarcodeImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | number[];
+}
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+/**
+ * Relative widths of the four runs of each digit in the left half's odd
+ * parity (L) set, light run first. Right half digits use the same widths
+ * starting with a dark run.
+ */
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+/** Even parity (G) patterns are the L patterns mirrored */
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+/**
+ * The first digit is not drawn; it is encoded in which left-half digits use
+ * G patterns (1) instead of L patterns (0)
+ */
+const FIRST_DIGIT_PARITIES = [
+  '000000', '001011', '001101', '001110', '010011',
+  '011001', '011100', '010101', '010110', '011010',
+];
+
+/** Runs in a full EAN-13: 3 start guard, 24 left, 5 middle guard, 24 right, 3 end guard */
+const EAN13_RUN_COUNT = 59;
+const EAN13_MODULE_COUNT = 95;
+
+/** Largest summed width error (in modules) accepted for a digit */
+const MAX_DIGIT_ERROR = 1.4;
+
+/** Number of evenly spaced lines scanned across the image in each direction */
+const SCAN_LINE_COUNT = 15;
+
+const toLuminance = (image: BarcodeImage): Float32Array => {
+  const luminance = new Float32Array(image.width * image.height);
+
+  for (let index = 0; index < luminance.length; index++) {
+    const offset = index * 4;
+    luminance[index] =
+      0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+  }
+
+  return luminance;
+};
+
+/**
+ * Split a line of luminance values into dark and light runs. The threshold
+ * follows a moving average so uneven lighting across a photo is tolerated.
+ */
+const getRuns = (values: number[]): Run[] => {
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+
+  // Too little contrast to contain a barcode
+  if (max - min < 40) return [];
+
+  const radius = Math.max(8, Math.round(values.length / 16));
+  const prefixSums = [0];
+  values.forEach(value => prefixSums.push(prefixSums[prefixSums.length - 1] + value));
+  const margin = (max - min) * 0.05;
+
+  const runs: Run[] = [];
+  values.forEach((value, index) => {
+    const start = Math.max(0, index - radius);
+    const end = Math.min(values.length, index + radius + 1);
+    const localMean = (prefixSums[end] - prefixSums[start]) / (end - start);
+    const dark = value < localMean - margin;
+
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.width++;
+    } else {
+      runs.push({ dark, width: 1 });
+    }
+  });
+
+  return runs;
+};
+
+const matchDigit = (widths: number[], patterns: number[][]): { digit: number; error: number } => {
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  const normalized = widths.map(width => (width * 7) / total);
+
+  return patterns.reduce<{ digit: number; error: number }>((best, pattern, digit) => {
+    const error = pattern.reduce((sum, expected, index) => sum + Math.abs(normalized[index] - expected), 0);
+    return error < best.error ? { digit, error } : best;
+  }, { digit: -1, error: Infinity });
+};
+
+const isGuard = (runs: Run[], start: number, count: number, moduleWidth: number): boolean => {
+  for (let index = start; index < start + count; index++) {
+    const modules = runs[index].width / moduleWidth;
+    if (modules < 0.4 || modules > 1.8) return false;
+  }
+  return true;
+};
+
+/**
+ * Try to read an EAN-13 whose start guard begins at runs[start]
+ */
+const decodeAt = (runs: Run[], start: number): string | null => {
+  const totalWidth = runs
+    .slice(start, start + EAN13_RUN_COUNT)
+    .reduce((sum, run) => sum + run.width, 0);
+  const moduleWidth = totalWidth / EAN13_MODULE_COUNT;
+
+  // A barcode needs a light quiet zone before its start guard
+  if (runs[start - 1].width < moduleWidth * 3) return null;
+
+  if (
+    !isGuard(runs, start, 3, moduleWidth) ||
+    !isGuard(runs, start + 27, 5, moduleWidth) ||
+    !isGuard(runs, start + 56, 3, moduleWidth)
+  ) {
+    return null;
+  }
+
+  const digitWidths = (offset: number) => runs.slice(offset, offset + 4).map(run => run.width);
+
+  let parity = '';
+  let left = '';
+  for (let digit = 0; digit < 6; digit++) {
+    const widths = digitWidths(start + 3 + digit * 4);
+    const odd = matchDigit(widths, L_PATTERNS);
+    const even = matchDigit(widths, G_PATTERNS);
+    const best = odd.error <= even.error ? odd : even;
+
+    if (best.error > MAX_DIGIT_ERROR) return null;
+
+    parity += odd.error <= even.error ? '0' : '1';
+    left += best.digit;
+  }
+
+  let right = '';
+  for (let digit = 0; digit < 6; digit++) {
+    const match = matchDigit(digitWidths(start + 32 + digit * 4), L_PATTERNS);
+    if (match.error > MAX_DIGIT_ERROR) return null;
+    right += match.digit;
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITIES.indexOf(parity);
+  if (firstDigit === -1) return null;
+
+  const code = `${firstDigit}${left}${right}`;
+  return isValidEAN13(code) ? code : null;
+};
+
+/**
+ * Find an EAN-13 in a sequence of runs, reading in the given direction
+ */
+const decodeRuns = (runs: Run[]): string | null => {
+  for (let start = 1; start + EAN13_RUN_COUNT <= runs.length; start++) {
+    if (!runs[start].dark) continue;
+
+    const code = decodeAt(runs, start);
+    if (code) return code;
+  }
+
+  return null;
+};
+
+/**
+ * Decode a single line of luminance values in both directions, so upside-down
+ * barcodes are read too
+ */
+export function decodeEAN13Line(values: number[]): string | null {
+  const runs = getRuns(values);
+  return decodeRuns(runs) || decodeRuns([...runs].reverse());
+}
+
+/**
+ * Decode an EAN-13 barcode anywhere in an image. Horizontal lines are scanned
+ * first, then vertical ones for barcodes photographed on their side. Codes
+ * read from several lines win over a single, possibly misread, line.
+ */
+export function decodeEAN13(image: BarcodeImage): string | null {
+  const luminance = toLuminance(image);
+  const votes = new Map<string, number>();
+
+  const scan = (readLine: (position: number) => number[], length: number) => {
+    for (let line = 1; line <= SCAN_LINE_COUNT; line++) {
+      const position = Math.floor((length * line) / (SCAN_LINE_COUNT + 1));
+      const code = decodeEAN13Line(readLine(position));
+      if (code) votes.set(code, (votes.get(code) || 0) + 1);
+    }
+  };
+
+  scan(row => Array.from(luminance.subarray(row * image.width, (row + 1) * image.width)), image.height);
+
+  if (votes.size === 0) {
+    scan(
+      column => Array.from({ length: image.height }, (_, row) => luminance[row * image.width + column]),
+      image.width
+    );
+  }
+
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [code, count] of votes) {
+    if (count > bestCount) {
+      best = code;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Decode a book barcode from an image, returning its ISBN-13. Barcodes that
+ * are not in the ISBN range (978/979) are ignored.
+ */
+export function decodeISBNBarcode(image: BarcodeImage): string | null {
+  const code = decodeEAN13(image);
+  return code && isValidISBN13(code) ? code : null;
+}
@@ -0,0 +1,198 @@
+import { BookRecordPatch } from '@/lib/apiClient';
+import { Book } from '@/types/book';
+
+/**
+ * A change applied to every selected book at once from the batch action bar
+ */
+export type BookBatchAction =
+  | { type: 'status'; status: NonNullable<Book['status']> }
+  | { type: 'rating'; rating: number | null }
+  | { type: 'add-collection'; collectionId: string }
+  | { type: 'remove-collection'; collectionId: string }
+  | { type: 'series'; seriesId: string; startPosition: number }
+  | { type: 'genres'; add: string[]; remove: string[] }
+  | { type: 'delete' };
+
+/**
+ * Book changes for a batch: a patch shared by every book plus per-book
+ * patches layered on top. A null value clears the field.
+ */
+export interface BookBatchChanges {
+  patch: BookRecordPatch;
+  patches: Record<string, BookRecordPatch>;
+}
+
+export interface BookSelectionState {
+  selectedIds: string[];
+  anchorId: string | null;
+}
+
+/**
+ * Apply a click on a book to the selection. A plain (or ctrl/cmd) click
+ * toggles the book and makes it the anchor; a shift-click adds every book
+ * between the anchor and the clicked book, in the order they are displayed.
+ * Selected ids keep the order they were picked in, which batch series
+ * assignment uses for positions.
+ */
+export function applySelectionClick(
+  state: BookSelectionState,
+  bookId: string,
+  orderedIds: string[],
+  shiftKey: boolean
+): BookSelectionState {
+  const anchorIndex = state.anchorId ? orderedIds.indexOf(state.anchorId) : -1;
+  const targetIndex = orderedIds.indexOf(bookId);
+
+  if (shiftKey && anchorIndex !== -1 && targetIndex !== -1) {
+    const step = targetIndex >= anchorIndex ? 1 : -1;
+    const range: string[] = [];
+    for (let index = anchorIndex; index !== targetIndex + step; index += step) {
+      range.push(orderedIds[index]);
+    }
+
+    return {
+      selectedIds: [...state.selectedIds, ...range.filter(id => !state.selectedIds.includes(id))],
+      anchorId: state.anchorId,
+    };
+  }
+
+  return {
+    selectedIds: state.selectedIds.includes(bookId)
+      ? state.selectedIds.filter(id => id !== bookId)
+      : [...state.selectedIds, bookId],
+    anchorId: bookId,
+  };
+}
+
+const getGenreList = (genre: Book['genre']): string[] => {
+  if (!genre) return [];
+  return Array.isArray(genre) ? genre : [genre];
+};
+
+/**
+ * Work out the book changes for a batch action. Books are taken in the order
+ * given, so series positions follow it. Deleting has no book changes.
+ */
+export function getBatchBookChanges(books: Book[], action: BookBatchAction): BookBatchChanges {
+  const patches: Record<string, BookRecordPatch> = {};
+
+  switch (action.type) {
+    case 'status': {
+      const today = new Date().toISOString().split('T')[0];
+
+      // Completing a book dates it; moving it back to the queue clears the date
+      books.forEach(book => {
+        if (action.status === 'completed') {
+          patches[book.id] = { completedDate: book.completedDate || today };
+        } else if (action.status !== 'reading') {
+          patches[book.id] = { completedDate: null };
+        }
+      });
+      return { patch: { status: action.status }, patches };
+    }
+
+    case 'rating':
+      return { patch: { rating: action.rating }, patches };
+
+    case 'add-collection':
+      books.forEach(book => {
+        const collectionIds = book.collectionIds || [];
+        if (!collectionIds.includes(action.collectionId)) {
+          patches[book.id] = { collectionIds: [...collectionIds, action.collectionId] };
+        }
+      });
+      return { patch: {}, patches };
+
+    case 'remove-collection':
+      books.forEach(book => {
+        if (book.collectionIds?.includes(action.collectionId)) {
+          patches[book.id] = { collectionIds: book.collectionIds.filter(id => id !== action.collectionId) };
+        }
+      });
+      return { patch: {}, patches };
+
+    case 'series':
+      books.forEach((book, index) => {
+        const position = action.startPosition + index;
+        patches[book.id] = { seriesPosition: position, volumeNumber: position };
+      });
+      return { patch: { seriesId: action.seriesId, isPartOfSeries: true }, patches };
+
+    case 'genres': {
+      const removed = action.remove.map(genre => genre.toLowerCase());
+
+      books.forEach(book => {
+        const genres = getGenreList(book.genre).filter(genre => !removed.includes(genre.toLowerCase()));
+        action.add.forEach(genre => {
+          if (!genres.some(existing => existing.toLowerCase() === genre.toLowerCase())) {
+            genres.push(genre);
+          }
+        });
+
+        patches[book.id] = { genre: genres.length > 0 ? genres : null };
+      });
+      return { patch: {}, patches };
+    }
+
+    case 'delete':
+      return { patch: {}, patches };
+  }
+}
+
+/**
+ * Per-book patches that put back every field a batch changed, clearing
+ * fields that were empty before
+ */
+export function getBatchRestoreChanges(books: Book[], changes: BookBatchChanges): BookBatchChanges {
+  const patches: Record<string, BookRecordPatch> = {};
+
+  books.forEach(book => {
+    const fields = Object.keys({ ...changes.patch, ...changes.patches[book.id] }) as (keyof Book)[];
+    if (fields.length === 0) return;
+
+    patches[book.id] = Object.fromEntries(fields.map(field => [field, book[field] ?? null]));
+  });
+
+  return { patch: {}, patches };
+}
+
+/**
+ * Whether a batch leaves any book changed
+ */
+export function hasBatchBookChanges(changes: BookBatchChanges): boolean {
+  return Object.keys(changes.patch).length > 0 || Object.keys(changes.patches).length > 0;
+}
+
+const STATUS_LABELS: Record<NonNullable<Book['status']>, string> = {
+  'reading': 'Reading',
+  'want-to-read': 'Want to Read',
+  'completed': 'Read',
+  'on-hold': 'On Hold',
+  'dnf': 'Did Not Finish',
+};
+
+/**
+ * A short summary of a finished batch for notifications
+ */
+export function describeBookBatchAction(action: BookBatchAction, count: number): string {
+  const books = `${count} ${count === 1 ? 'book' : 'books'}`;
+
+  switch (action.type) {
+    case 'status':
+      return `Marked ${books} as ${STATUS_LABELS[action.status]}`;
+    case 'rating':
+      return action.rating === null
+        ? `Cleared the rating on ${books}`
+        : `Rated ${books} ${action.rating} ${action.rating === 1 ? 'star' : 'stars'}`;
+    case 'add-collection':
+      return `Added ${books} to the collection`;
+    case 'remove-collection':
+      return `Removed ${books} from the collection`;
+    case 'series':
+      return `Assigned ${books} to the series from position ${action.startPosition}`;
+    case 'genres':
+      return `Updated genres on ${books}`;
+    case 'delete':
+      return `Deleted ${books}`;
+  }
+}
@@ -0,0 +1,94 @@
+import type { Book, BookCopy, BookFormat, CopyCondition } from '@/types/book';
+
+/** The server keeps at most this many copies of one book */
+export const MAX_BOOK_COPIES = 20;
+
+export const BOOK_FORMATS: BookFormat[] = ['hardcover', 'paperback', 'ebook', 'audiobook', 'library', 'wishlist'];
+
+export const BOOK_FORMAT_LABELS: Record<BookFormat, string> = {
+  hardcover: 'Hardcover',
+  paperback: 'Paperback',
+  ebook: 'Ebook',
+  audiobook: 'Audiobook',
+  library: 'Library borrow',
+  wishlist: 'Wishlist',
+};
+
+export const COPY_CONDITIONS: CopyCondition[] = ['new', 'like-new', 'very-good', 'good', 'fair', 'poor'];
+
+export const COPY_CONDITION_LABELS: Record<CopyCondition, string> = {
+  new: 'New',
+  'like-new': 'Like new',
+  'very-good': 'Very good',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+};
+
+/** Library borrows and wishlist entries are tracked but not owned */
+export const isOwnedCopy = (copy: BookCopy): boolean =>
+  copy.format !== 'library' && copy.format !== 'wishlist';
+
+/** Every format the book has a copy in, in the order the copies are listed */
+export const getBookFormats = (book: Pick<Book, 'copies'>): BookFormat[] =>
+  Array.from(new Set((book.copies || []).map(copy => copy.format)));
+
+/** The format of the book's main copy, which reads are counted against */
+export const getMainFormat = (book: Pick<Book, 'copies'>): BookFormat | undefined =>
+  book.copies?.[0]?.format;
+
+export const getCopyCountLabel = (count: number): string => `${count} ${count === 1 ? 'copy' : 'copies'}`;
+
+/** An audiobook running time such as "11h 20m" */
+export const formatAudioLength = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Reads of one format. Print and ebook reads add up pages; audiobook reads
+ * add up listening time instead.
+ */
+export interface FormatBreakdown {
+  /** Undefined for books without any copies recorded */
+  format?: BookFormat;
+  label: string;
+  books: number;
+  pages: number;
+  audioMinutes: number;
+}
+
+/**
+ * Count books by the format of their main copy, most read first. Books
+ * without copies are grouped as "No format".
+ */
+export function calculateFormatBreakdown(books: Pick<Book, 'copies' | 'pageCount'>[]): FormatBreakdown[] {
+  const breakdown = new Map<BookFormat | undefined, FormatBreakdown>();
+
+  books.forEach(book => {
+    const mainCopy = book.copies?.[0];
+    const format = mainCopy?.format;
+    const entry = breakdown.get(format) ?? {
+      format,
+      label: format ? BOOK_FORMAT_LABELS[format] : 'No format',
+      books: 0,
+      pages: 0,
+      audioMinutes: 0,
+    };
+
+    entry.books += 1;
+
+    if (format === 'audiobook') {
+      entry.audioMinutes += mainCopy?.audioMinutes || 0;
+    } else {
+      entry.pages += book.pageCount || 0;
+    }
+
+    breakdown.set(format, entry);
+  });
+
+  return Array.from(breakdown.values()).sort((a, b) => b.books - a.books || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,158 @@
+import type { BookListParams } from '@/lib/apiClient';
+import { Book, BookFormat } from '@/types/book';
+import { getBookFormats } from '@/utils/bookCopies';
+import { normalizeGenreData } from '@/utils/genreUtils';
+
+export type BookStatus = NonNullable<Book['status']>;
+
+export type BookSortField = 'addedDate' | 'updatedAt' | 'title' | 'author' | 'rating' | 'completedDate';
+
+export interface BookSort {
+  field: BookSortField;
+  order: 'asc' | 'desc';
+}
+
+export const DEFAULT_BOOK_SORT: BookSort = { field: 'addedDate', order: 'desc' };
+
+/**
+ * Library filters. Dates are YYYY-MM-DD and both ends of a range are
+ * inclusive, matching GET /api/books.
+ */
+export interface BookFilters {
+  statuses?: BookStatus[];
+  genres?: string[];
+  /** Books with any of these tags */
+  tags?: string[];
+  /** Books with a copy in any of these formats */
+  formats?: BookFormat[];
+  /** Any part of the author, ignoring case */
+  author?: string;
+  seriesId?: string;
+  collectionId?: string;
+  minRating?: number;
+  maxRating?: number;
+  addedFrom?: string;
+  addedTo?: string;
+  completedFrom?: string;
+  completedTo?: string;
+}
+
+export const countActiveBookFilters = (filters: BookFilters): number =>
+  (filters.statuses?.length ? 1 : 0) +
+  (filters.genres?.length ? 1 : 0) +
+  (filters.tags?.length ? 1 : 0) +
+  (filters.formats?.length ? 1 : 0) +
+  (filters.author ? 1 : 0) +
+  (filters.seriesId ? 1 : 0) +
+  (filters.collectionId ? 1 : 0) +
+  (filters.minRating !== undefined || filters.maxRating !== undefined ? 1 : 0) +
+  (filters.addedFrom || filters.addedTo ? 1 : 0) +
+  (filters.completedFrom || filters.completedTo ? 1 : 0);
+
+/**
+ * The query for a page of books from the server
+ */
+export function toBookListParams(filters: BookFilters, sort: BookSort, search?: string): BookListParams {
+  return {
+    sort: sort.field,
+    order: sort.order,
+    status: filters.statuses?.length ? filters.statuses : undefined,
+    genre: filters.genres?.length ? filters.genres : undefined,
+    tag: filters.tags?.length ? filters.tags : undefined,
+    format: filters.formats?.length ? filters.formats : undefined,
+    author: filters.author,
+    seriesId: filters.seriesId,
+    collectionId: filters.collectionId,
+    minRating: filters.minRating,
+    maxRating: filters.maxRating,
+    addedFrom: filters.addedFrom,
+    addedTo: filters.addedTo,
+    completedFrom: filters.completedFrom,
+    completedTo: filters.completedTo,
+    q: search?.trim() || undefined,
+  };
+}
+
+const nextDay = (date: string): string => {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+// Dates are compared as ISO strings, so a bare date also matches times on that day
+const isInDateRange = (value: string | undefined, from?: string, to?: string): boolean => {
+  if (!from && !to) return true;
+  if (!value) return false;
+
+  return (!from || value >= from) && (!to || value < nextDay(to));
+};
+
+/**
+ * The books matching the filters, for when the library is read from this
+ * device rather than paged from the server
+ */
+export function filterBooks(books: Book[], filters: BookFilters): Book[] {
+  const author = filters.author?.toLowerCase();
+
+  return books.filter(book => {
+    if (filters.statuses?.length && (!book.status || !filters.statuses.includes(book.status))) {
+      return false;
+    }
+
+    if (filters.genres?.length && !normalizeGenreData(book.genre).some(genre => filters.genres?.includes(genre))) {
+      return false;
+    }
+
+    if (filters.tags?.length && !book.tags?.some(tag => filters.tags?.includes(tag))) {
+      return false;
+    }
+
+    if (filters.formats?.length && !getBookFormats(book).some(format => filters.formats?.includes(format))) {
+      return false;
+    }
+
+    if (author && !book.author.toLowerCase().includes(author)) {
+      return false;
+    }
+
+    if (filters.seriesId && book.seriesId !== filters.seriesId) {
+      return false;
+    }
+
+    if (filters.collectionId && !book.collectionIds?.includes(filters.collectionId)) {
+      return false;
+    }
+
+    if (filters.minRating !== undefined || filters.maxRating !== undefined) {
+      if (!book.rating) return false;
+      if (filters.minRating !== undefined && book.rating < filters.minRating) return false;
+      if (filters.maxRating !== undefined && book.rating > filters.maxRating) return false;
+    }
+
+    return (
+      isInDateRange(book.addedDate, filters.addedFrom, filters.addedTo) &&
+      isInDateRange(book.completedDate, filters.completedFrom, filters.completedTo)
+    );
+  });
+}
+
+/**
+ * Sort books the way the server pages them. Books without the sort field come
+ * first in ascending order and last in descending order; ties go by id.
+ */
+export function sortBooks(books: (Book & { updatedAt?: string })[], sort: BookSort): Book[] {
+  const direction = sort.order === 'asc' ? 1 : -1;
+
+  return [...books].sort((left, right) => {
+    const leftValue = left[sort.field] ?? null;
+    const rightValue = right[sort.field] ?? null;
+
+    if (leftValue !== rightValue) {
+      if (leftValue === null) return -direction;
+      if (rightValue === null) return direction;
+      return (leftValue < rightValue ? -1 : 1) * direction;
+    }
+
+    return (left.id < right.id ? -1 : left.id > right.id ? 1 : 0) * direction;
+  });
+}
@@ -0,0 +1,59 @@
+import { Book } from '@/types/book';
+import { BookSearchItem } from '@/types/api/BookApiProvider';
+import { Book as ApiBook } from '@/types/models/Book';
+
+/**
+ * Whether a search result is already in the library, by provider ID or by an
+ * exact title and first author
+ */
+export function isSearchItemInLibrary(item: BookSearchItem, existingBooks: Book[]): boolean {
+  const existsById = Boolean(item.id) && existingBooks.some(existingBook =>
+    existingBook.googleBooksId === item.id ||
+    existingBook.sourceId === item.id
+  );
+
+  if (existsById) return true;
+
+  const itemAuthor = typeof item.author === 'string' ? item.author.toLowerCase() :
+    (Array.isArray(item.author) && item.author.length > 0) ? item.author[0].toLowerCase() : '';
+
+  return existingBooks.some(existingBook =>
+    existingBook.title.toLowerCase() === item.title.toLowerCase() &&
+    existingBook.author.toLowerCase() === itemAuthor
+  );
+}
+
+/**
+ * Create a library book from a provider's detailed book record
+ * @param details The book details returned by bookApiClient.getBookDetails
+ * @param defaultStatus The reading status new books start with
+ */
+export function createBookFromDetails(details: ApiBook, defaultStatus: Book['status'] = 'want-to-read'): Book {
+  return {
+    id: `book-${Math.random().toString(36).substring(2, 10)}`,
+    title: details.title,
+    author: Array.isArray(details.author) && details.author.length > 0
+      ? details.author[0] : typeof details.author === 'string' ? details.author : 'Unknown',
+    thumbnail: details.thumbnail,
+    genre: Array.isArray(details.genre) && details.genre.length > 0
+      ? details.genre[0] : typeof details.genre === 'string' ? details.genre : undefined,
+    description: details.description,
+    publishedDate: details.publishedDate,
+    pageCount: details.pageCount,
+    googleBooksId: details.sourceType === 'google' ? details.id : undefined,
+    openLibraryId: details.sourceType === 'openlib' ? details.id : undefined,
+
+    // Set source tracking fields
+    sourceId: details.id,
+    sourceType: details.sourceType as 'google' | 'openlib' | 'manual',
+
+    // Set ISBN fields if available
+    isbn10: details.isbn10 || [],
+    isbn13: details.isbn13 || [],
+
+    status: defaultStatus,
+    isPartOfSeries: false, // Initially set to false
+    addedDate: new Date().toISOString(),
+    spineColor: Math.floor(Math.random() * 8) + 1, // Random spine color 1-8
+  };
+}
@@ -0,0 +1,126 @@
+import { BookRecordPatch } from '@/lib/apiClient';
+import { Book } from '@/types/book';
+
+/** The server keeps each book to this many tags of this many characters */
+export const MAX_BOOK_TAGS = 50;
+export const MAX_TAG_LENGTH = 50;
+
+/** Chip colour for tags that haven't been given one */
+export const DEFAULT_TAG_COLOR = '#64748b';
+
+export interface TagSummary {
+  name: string;
+  /** How many books carry the tag */
+  count: number;
+}
+
+/**
+ * A change made to a tag across the whole library from the tags page
+ */
+export type TagAction =
+  | { type: 'rename'; tag: string; name: string }
+  | { type: 'merge'; tags: string[]; into: string }
+  | { type: 'delete'; tag: string };
+
+const sameTag = (left: string, right: string) => left.toLowerCase() === right.toLowerCase();
+
+/**
+ * Every tag in the library with the number of books carrying it, by name
+ */
+export function summarizeTags(books: Book[]): TagSummary[] {
+  const counts = new Map<string, number>();
+
+  books.forEach(book => {
+    book.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((left, right) =>
+    left.name.localeCompare(right.name, undefined, { sensitivity: 'base' })
+  );
+}
+
+/**
+ * A book's tags with one more, trimmed; a tag the book already has, ignoring
+ * case, leaves them as they are
+ */
+export function addTag(tags: string[] | undefined, tag: string): string[] {
+  const current = tags || [];
+  const trimmed = tag.trim();
+
+  if (!trimmed || current.some(existing => sameTag(existing, trimmed))) {
+    return current;
+  }
+
+  return [...current, trimmed];
+}
+
+/**
+ * The tags an action takes off books and the tag, if any, put in their place
+ */
+const getReplacement = (action: TagAction): { from: string[]; to: string | null } => {
+  switch (action.type) {
+    case 'rename':
+      return { from: [action.tag], to: action.name.trim() };
+    case 'merge':
+      return { from: action.tags, to: action.into.trim() };
+    case 'delete':
+      return { from: [action.tag], to: null };
+  }
+};
+
+/**
+ * Per-book patches for a tag action, for books that carry one of its tags.
+ * The new tag takes the place of the first tag it replaces; books left
+ * without tags have them cleared.
+ */
+export function getTagActionPatches(books: Book[], action: TagAction): Record<string, BookRecordPatch> {
+  const { from, to } = getReplacement(action);
+  const patches: Record<string, BookRecordPatch> = {};
+
+  books.forEach(book => {
+    const tags = book.tags || [];
+    const position = tags.findIndex(tag => from.includes(tag));
+    if (position === -1) return;
+
+    const kept = tags.filter(tag => !from.includes(tag));
+    if (to && !kept.some(tag => sameTag(tag, to))) {
+      kept.splice(position, 0, to);
+    }
+
+    patches[book.id] = { tags: kept.length > 0 ? kept : null };
+  });
+
+  return patches;
+}
+
+/**
+ * Tag colours after an action. A renamed or merged tag keeps its own colour,
+ * or else takes the first colour of the tags merged into it.
+ */
+export function getTagActionColors(colors: Record<string, string>, action: TagAction): Record<string, string> {
+  const { from, to } = getReplacement(action);
+  const inherited = from.map(tag => colors[tag]).find(Boolean);
+  const next = Object.fromEntries(Object.entries(colors).filter(([tag]) => !from.includes(tag)));
+
+  if (to && !next[to] && inherited) {
+    next[to] = inherited;
+  }
+
+  return next;
+}
+
+/**
+ * A short summary of a tag action for notifications and undo
+ */
+export function describeTagAction(action: TagAction, count: number): string {
+  const books = `${count} ${count === 1 ? 'book' : 'books'}`;
+
+  switch (action.type) {
+    case 'rename':
+      return `Renamed "${action.tag}" to "${action.name.trim()}" on ${books}`;
+    case 'merge':
+      return `Merged ${action.tags.length} tags into "${action.into.trim()}" on ${books}`;
+    case 'delete':
+      return `Removed "${action.tag}" from ${books}`;
+  }
+}
@@ -0,0 +1,281 @@
+import { Book } from '@/types/book';
+import { CollectionRule, CollectionRuleField, CollectionRules } from '@/types/collection';
+import { FieldNode, QueryNode, parseQuery } from '@/services/search/query/parser';
+import { QuerySyntaxError } from '@/services/search/query/tokenizer';
+
+export type CollectionRuleStatus = Extract<CollectionRule, { field: 'status' }>['value'];
+
+/** The server keeps smart collections to this many conditions */
+export const MAX_COLLECTION_RULES = 20;
+
+export const COLLECTION_RULE_FIELDS: {
+  field: CollectionRuleField;
+  label: string;
+  kind: 'status' | 'text' | 'number' | 'date';
+}[] = [
+  { field: 'status', label: 'Status', kind: 'status' },
+  { field: 'genre', label: 'Genre', kind: 'text' },
+  { field: 'author', label: 'Author', kind: 'text' },
+  { field: 'series', label: 'Series', kind: 'text' },
+  { field: 'tags', label: 'Tag', kind: 'text' },
+  { field: 'rating', label: 'Rating', kind: 'number' },
+  { field: 'pages', label: 'Pages', kind: 'number' },
+  { field: 'added', label: 'Date added', kind: 'date' },
+  { field: 'completed', label: 'Date finished', kind: 'date' },
+];
+
+export const COLLECTION_RULE_STATUSES: { value: CollectionRuleStatus; label: string }[] = [
+  { value: 'reading', label: 'Reading' },
+  { value: 'want-to-read', label: 'Want to Read' },
+  { value: 'completed', label: 'Read' },
+  { value: 'on-hold', label: 'On Hold' },
+  { value: 'dnf', label: 'Did Not Finish' },
+];
+
+export const getCollectionRuleField = (field: CollectionRuleField) =>
+  COLLECTION_RULE_FIELDS.find(entry => entry.field === field)!;
+
+/**
+ * A starting condition for a field, ready to be filled in
+ */
+export function createCollectionRule(field: CollectionRuleField): CollectionRule {
+  switch (field) {
+    case 'status':
+      return { field, operator: 'is', value: 'completed' };
+    case 'genre':
+    case 'author':
+    case 'series':
+    case 'tags':
+      return { field, operator: 'contains', value: '' };
+    case 'rating':
+      return { field, operator: 'between', min: 4 };
+    case 'pages':
+      return { field, operator: 'between', max: 300 };
+    case 'added':
+    case 'completed':
+      return { field, operator: 'withinDays', days: 30 };
+  }
+}
+
+/** Extra book details rules look at that aren't stored on the book */
+export interface CollectionRuleContext {
+  seriesName?: (book: Book) => string | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+const nextDay = (date: string): string => toDay(new Date(new Date(`${date}T00:00:00.000Z`).getTime() + DAY_MS));
+
+const previousDay = (date: string): string => toDay(new Date(new Date(`${date}T00:00:00.000Z`).getTime() - DAY_MS));
+
+const containsText = (values: (string | undefined)[], text: string): boolean => {
+  const needle = text.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(needle));
+};
+
+const bookGenres = (book: Book): string[] => (Array.isArray(book.genre) ? book.genre : book.genre ? [book.genre] : []);
+
+function matchesRule(rule: CollectionRule, book: Book, context: CollectionRuleContext, now: Date): boolean {
+  switch (rule.field) {
+    case 'status':
+      return rule.operator === 'is' ? book.status === rule.value : book.status !== rule.value;
+    case 'genre':
+    case 'author':
+    case 'series':
+    case 'tags': {
+      const values =
+        rule.field === 'genre'
+          ? bookGenres(book)
+          : rule.field === 'author'
+            ? [book.author]
+            : rule.field === 'tags'
+              ? book.tags || []
+              : [context.seriesName?.(book) ?? book._legacySeriesName];
+      const found = containsText(values, rule.value);
+      return rule.operator === 'contains' ? found : !found;
+    }
+    case 'rating':
+    case 'pages': {
+      const value = rule.field === 'rating' ? book.rating : book.pageCount;
+      if (value === undefined || value === null) return false;
+      return (rule.min === undefined || value >= rule.min) && (rule.max === undefined || value <= rule.max);
+    }
+    case 'added':
+    case 'completed': {
+      // Dates are compared as ISO strings, so a bare day also matches times on that day
+      const value = rule.field === 'added' ? book.addedDate : book.completedDate;
+      if (!value) return false;
+      if (rule.operator === 'withinDays') return value >= toDay(new Date(now.getTime() - rule.days * DAY_MS));
+      return (!rule.from || value >= rule.from) && (!rule.to || value < nextDay(rule.to));
+    }
+  }
+}
+
+/**
+ * Whether a book belongs in a smart collection. Matches the server's
+ * filter for GET /api/books?collectionId, so both agree on the books.
+ */
+export function matchesCollectionRules(
+  rules: CollectionRules,
+  book: Book,
+  context: CollectionRuleContext = {},
+  now: Date = new Date()
+): boolean {
+  const check = (rule: CollectionRule) => matchesRule(rule, book, context, now);
+  return rules.match === 'any' ? rules.conditions.some(check) : rules.conditions.every(check);
+}
+
+/**
+ * Whether a condition has everything it needs to be saved
+ */
+export function isCollectionRuleComplete(rule: CollectionRule): boolean {
+  switch (rule.field) {
+    case 'status':
+      return true;
+    case 'genre':
+    case 'author':
+    case 'series':
+    case 'tags':
+      return Boolean(rule.value.trim());
+    case 'rating':
+    case 'pages':
+      return (
+        (rule.min !== undefined || rule.max !== undefined) &&
+        (rule.min === undefined || rule.max === undefined || rule.min <= rule.max)
+      );
+    case 'added':
+    case 'completed':
+      if (rule.operator === 'withinDays') return Number.isInteger(rule.days) && rule.days >= 1;
+      return Boolean(rule.from || rule.to) && (!rule.from || !rule.to || rule.from <= rule.to);
+  }
+}
+
+const describeRange = (from: string | number | undefined, to: string | number | undefined): string => {
+  if (from !== undefined && to !== undefined) return from === to ? `is ${from}` : `from ${from} to ${to}`;
+  if (from !== undefined) return `at least ${from}`;
+  return `at most ${to}`;
+};
+
+/**
+ * A condition in words, e.g. "Rating at least 4"
+ */
+export function describeCollectionRule(rule: CollectionRule): string {
+  const label = getCollectionRuleField(rule.field).label;
+
+  switch (rule.field) {
+    case 'status': {
+      const status = COLLECTION_RULE_STATUSES.find(entry => entry.value === rule.value)?.label ?? rule.value;
+      return `${label} ${rule.operator === 'is' ? 'is' : 'is not'} ${status}`;
+    }
+    case 'genre':
+    case 'author':
+    case 'series':
+    case 'tags':
+      return `${label} ${rule.operator === 'contains' ? 'contains' : 'does not contain'} "${rule.value}"`;
+    case 'rating':
+    case 'pages':
+      return `${label} ${describeRange(rule.min, rule.max)}`;
+    case 'added':
+    case 'completed':
+      if (rule.operator === 'withinDays') {
+        return `${label} in the last ${rule.days} ${rule.days === 1 ? 'day' : 'days'}`;
+      }
+      return `${label} ${describeRange(rule.from, rule.to)}`;
+  }
+}
+
+export type QueryRulesResult = { rules: CollectionRules; error?: undefined } | { rules?: undefined; error: string };
+
+/**
+ * Exclusive bounds only have an equivalent for whole numbers
+ */
+const inclusiveBound = (value: number, exclusive: boolean | undefined, step: 1 | -1): number | null => {
+  if (!exclusive) return value;
+  return Number.isInteger(value) ? value + step : null;
+};
+
+function fieldToRule(node: FieldNode, negated: boolean): CollectionRule | string {
+  const unsupported = `${node.field}: can't be used in a smart collection`;
+  const negation = `-${node.field}: can't be negated in a smart collection`;
+
+  switch (node.field) {
+    case 'status':
+      if (node.kind !== 'enum') return unsupported;
+      return { field: 'status', operator: negated ? 'isNot' : 'is', value: node.value as CollectionRuleStatus };
+    case 'genre':
+    case 'author':
+    case 'series':
+      if (node.kind !== 'text') return unsupported;
+      return { field: node.field, operator: negated ? 'notContains' : 'contains', value: node.value };
+    case 'tag':
+      if (node.kind !== 'text') return unsupported;
+      return { field: 'tags', operator: negated ? 'notContains' : 'contains', value: node.value };
+    case 'rating':
+    case 'pages': {
+      if (node.kind !== 'number') return unsupported;
+      if (negated) return negation;
+      const { range } = node;
+      const min = range.min === undefined ? undefined : inclusiveBound(range.min, range.minExclusive, 1);
+      const max = range.max === undefined ? undefined : inclusiveBound(range.max, range.maxExclusive, -1);
+      if (min === null || max === null) return `${node.field}: needs whole numbers with > or < in a smart collection`;
+      return { field: node.field, operator: 'between', min, max };
+    }
+    case 'added':
+    case 'completed':
+      if (node.kind !== 'date') return unsupported;
+      if (negated) return negation;
+      return {
+        field: node.field,
+        operator: 'between',
+        from: node.range.from,
+        to: node.range.before ? previousDay(node.range.before) : undefined,
+      };
+    default:
+      return unsupported;
+  }
+}
+
+function nodeToRule(node: QueryNode): CollectionRule | string {
+  if (node.type === 'field') return fieldToRule(node, false);
+  if (node.type === 'not' && node.child.type === 'field') return fieldToRule(node.child, true);
+  if (node.type === 'text') return `Plain words like "${node.value}" can't be used in a smart collection; use a field such as author:`;
+  return 'Smart collections match all or any of their rules, so a query can only use one of AND and OR';
+}
+
+/**
+ * Rules for a smart collection from a saved search. Works for terms on
+ * status, genre, tag, author, series, rating, pages and dates, all joined by AND
+ * or all by OR; anything else gives an error saying why. Text rules match
+ * any part of a value, so they can match a little more than the search.
+ */
+export function queryToCollectionRules(input: string): QueryRulesResult {
+  let node: QueryNode | null;
+
+  try {
+    node = parseQuery(input);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { error: error.message };
+    throw error;
+  }
+
+  if (!node) return { error: 'Enter a search to make rules from' };
+
+  const match = node.type === 'or' ? 'any' : 'all';
+  const terms = node.type === 'and' || node.type === 'or' ? node.children : [node];
+
+  if (terms.length > MAX_COLLECTION_RULES) {
+    return { error: `Smart collections can have up to ${MAX_COLLECTION_RULES} rules` };
+  }
+
+  const conditions: CollectionRule[] = [];
+
+  for (const term of terms) {
+    const rule = nodeToRule(term);
+    if (typeof rule === 'string') return { error: rule };
+    conditions.push(rule);
+  }
+
+  return { rules: { match, conditions } };
+}
@@ -83,6 +83,23 @@ export async function resetAndRecreateDatabase(): Promise<boolean> {
           collectionsStore.createIndex('lastModified', 'lastModified', { unique: false });
           log.info('Created collections store');
         }
+        
+        // Create reading sessions store
+        if (!db.objectStoreNames.contains(StoreNames.READING_SESSIONS)) {
+          const readingSessionsStore = db.createObjectStore(StoreNames.READING_SESSIONS, { keyPath: 'id' });
+          readingSessionsStore.createIndex('bookId', 'bookId', { unique: false });
+          readingSessionsStore.createIndex('date', 'date', { unique: false });
+          readingSessionsStore.createIndex('bookId_date', ['bookId', 'date'], { unique: false });
+          log.info('Created reading sessions store');
+        }
+        
+        // Create loans store
+        if (!db.objectStoreNames.contains(StoreNames.LOANS)) {
+          const loansStore = db.createObjectStore(StoreNames.LOANS, { keyPath: 'id' });
+          loansStore.createIndex('bookId', 'bookId', { unique: false });
+          loansStore.createIndex('dueDate', 'dueDate', { unique: false });
+          log.info('Created loans store');
+        }
       }
     });
     
@@ -0,0 +1,99 @@
+/**
+ * Utilities for reading and writing delimiter-separated text (CSV and TSV)
+ * used by the third-party import/export formats
+ */
+
+/**
+ * Parse delimited text into rows of fields. Quoted fields may contain the
+ * delimiter, escaped quotes ("") and line breaks.
+ * @param text The file content
+ * @param delimiter Field separator, e.g. ',' or '\t'
+ * @returns Array of rows, skipping blank lines
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse delimited text with a header row into objects keyed by header
+ */
+export function parseDelimitedRecords(text: string, delimiter: string): Record<string, string>[] {
+  const [headerRow, ...dataRows] = parseDelimitedText(text.replace(/^\uFEFF/, ''), delimiter);
+
+  if (!headerRow) {
+    return [];
+  }
+
+  const headers = headerRow.map(header => header.trim());
+
+  return dataRows.map(values => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (values[index] || '').trim();
+    });
+    return record;
+  });
+}
+
+/**
+ * Format one row of delimited text. CSV fields are quoted when needed; TSV
+ * fields have tabs and line breaks replaced since TSV has no quoting.
+ */
+export function formatDelimitedRow(values: Array<string | number | undefined>, delimiter: string): string {
+  return values
+    .map(value => {
+      const text = value === undefined ? '' : String(value);
+
+      if (delimiter === '\t') {
+        return text.replace(/[\t\r\n]+/g, ' ');
+      }
+
+      return /[",\r\n]/.test(text) || text.includes(delimiter)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    })
+    .join(delimiter);
+}
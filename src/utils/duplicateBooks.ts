@@ -0,0 +1,259 @@
+import { Book } from '@/types/book';
+import { MAX_BOOK_COPIES } from './bookCopies';
+import {
+  ImportMatchReason,
+  getBookISBNs,
+  getProviderIds,
+  isFuzzyTitleAuthorMatch,
+  normalizeMatchText,
+  uniqueReadThroughs,
+} from './importStaging';
+
+/**
+ * A set of books that are probably the same work, with every reason that
+ * linked two of its members
+ */
+export interface DuplicateGroup {
+  key: string;
+  books: Book[];
+  reasons: ImportMatchReason[];
+}
+
+/**
+ * Fields the reader picks a winner for when merging. Some cover several book
+ * properties that only make sense together, e.g. a series and its position.
+ */
+export type MergeField =
+  | 'title'
+  | 'author'
+  | 'thumbnail'
+  | 'description'
+  | 'genre'
+  | 'publishedDate'
+  | 'pageCount'
+  | 'googleBooksId'
+  | 'openLibraryId'
+  | 'status'
+  | 'rating'
+  | 'notes'
+  | 'series'
+  | 'spineColor';
+
+/** The book id chosen for each merge field */
+export type MergeFieldChoices = Partial<Record<MergeField, string>>;
+
+export const MERGE_FIELDS: { field: MergeField; label: string; bookFields: (keyof Book)[] }[] = [
+  { field: 'title', label: 'Title', bookFields: ['title'] },
+  { field: 'author', label: 'Author', bookFields: ['author'] },
+  { field: 'thumbnail', label: 'Cover', bookFields: ['thumbnail'] },
+  { field: 'description', label: 'Description', bookFields: ['description'] },
+  { field: 'genre', label: 'Genre', bookFields: ['genre'] },
+  { field: 'publishedDate', label: 'Published', bookFields: ['publishedDate'] },
+  { field: 'pageCount', label: 'Pages', bookFields: ['pageCount'] },
+  { field: 'googleBooksId', label: 'Google Books ID', bookFields: ['googleBooksId'] },
+  { field: 'openLibraryId', label: 'Open Library ID', bookFields: ['openLibraryId'] },
+  { field: 'status', label: 'Status', bookFields: ['status', 'completedDate', 'progress'] },
+  { field: 'rating', label: 'Rating', bookFields: ['rating'] },
+  { field: 'notes', label: 'Notes', bookFields: ['notes'] },
+  { field: 'series', label: 'Series', bookFields: ['seriesId', 'isPartOfSeries', 'volumeNumber', 'seriesPosition'] },
+  { field: 'spineColor', label: 'Spine color', bookFields: ['spineColor'] },
+];
+
+const hasValue = (value: unknown): boolean =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Whether a book has anything to offer for a merge field
+ */
+export function hasMergeFieldValue(book: Book, field: MergeField): boolean {
+  const definition = MERGE_FIELDS.find(entry => entry.field === field);
+  return hasValue(definition ? book[definition.bookFields[0]] : undefined);
+}
+
+/**
+ * Author name parts long enough to be meaningful. Fuzzy matches need to share
+ * one, so they double as buckets that keep the comparison count down.
+ */
+const getAuthorBuckets = (book: Book): string[] => {
+  const parts = normalizeMatchText(book.author)
+    .split(' ')
+    .filter(part => part.length > 2 && part !== 'and' && part !== 'unknown' && part !== 'author');
+
+  // A book with an unknown author can still match another on an identical title
+  return [...parts, `title:${normalizeMatchText(book.title)}`];
+};
+
+/**
+ * Group likely duplicates in a library by shared ISBN (ISBN-10 and ISBN-13
+ * compare equal), shared Google Books or Open Library ID, or a fuzzy title and
+ * author match. Books are linked transitively, so A~B and B~C form one group.
+ * Each group lists its oldest book first.
+ */
+export function findDuplicateGroups(books: Book[]): DuplicateGroup[] {
+  const parents = books.map((_, index) => index);
+  const reasonsByLink: { index: number; reason: ImportMatchReason }[] = [];
+
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number, reason: ImportMatchReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parents[rootB] = rootA;
+    reasonsByLink.push({ index: a, reason });
+  };
+
+  const firstByKey = new Map<string, number>();
+  const linkByKey = (index: number, key: string, reason: ImportMatchReason) => {
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, index);
+    } else {
+      union(first, index, reason);
+    }
+  };
+
+  const indicesByBucket = new Map<string, number[]>();
+
+  books.forEach((book, index) => {
+    getProviderIds(book)
+      .filter(id => !id.startsWith('id:'))
+      .forEach(id => linkByKey(index, id, 'provider-id'));
+    getBookISBNs(book).forEach(isbn => linkByKey(index, `isbn:${isbn}`, 'isbn'));
+
+    const compared = new Set<number>();
+    getAuthorBuckets(book).forEach(bucket => {
+      const candidates = indicesByBucket.get(bucket) || [];
+      candidates.forEach(candidate => {
+        if (compared.has(candidate)) return;
+        compared.add(candidate);
+        if (find(candidate) !== find(index) && isFuzzyTitleAuthorMatch(books[candidate], book)) {
+          union(candidate, index, 'title-author');
+        }
+      });
+      indicesByBucket.set(bucket, [...candidates, index]);
+    });
+  });
+
+  const membersByRoot = new Map<number, number[]>();
+  books.forEach((_, index) => {
+    const root = find(index);
+    membersByRoot.set(root, [...(membersByRoot.get(root) || []), index]);
+  });
+
+  const reasonsByRoot = new Map<number, Set<ImportMatchReason>>();
+  reasonsByLink.forEach(({ index, reason }) => {
+    const root = find(index);
+    reasonsByRoot.set(root, (reasonsByRoot.get(root) || new Set()).add(reason));
+  });
+
+  return Array.from(membersByRoot.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const groupBooks = members
+        .map(index => books[index])
+        .sort((a, b) => (a.addedDate || '').localeCompare(b.addedDate || ''));
+
+      return {
+        key: groupBooks.map(book => book.id).join('|'),
+        books: groupBooks,
+        reasons: Array.from(reasonsByRoot.get(root) || []),
+      };
+    })
+    .sort((a, b) => a.books[0].title.localeCompare(b.books[0].title));
+}
+
+/**
+ * Start every field at the surviving book's value, falling back to the first
+ * other book that has one
+ */
+export function getDefaultMergeChoices(books: Book[], targetId: string): MergeFieldChoices {
+  const target = books.find(book => book.id === targetId);
+  const ordered = target ? [target, ...books.filter(book => book.id !== targetId)] : books;
+
+  return MERGE_FIELDS.reduce<MergeFieldChoices>((choices, { field }) => {
+    const winner = ordered.find(book => hasMergeFieldValue(book, field)) || ordered[0];
+    if (winner) choices[field] = winner.id;
+    return choices;
+  }, {});
+}
+
+/**
+ * Build the surviving book from the chosen field winners. ISBNs, read history
+ * and collections are combined from every book rather than picked, and the
+ * earliest added date is kept.
+ */
+export function buildMergedBook(books: Book[], targetId: string, choices: MergeFieldChoices): Book {
+  const target = books.find(book => book.id === targetId);
+
+  if (!target) {
+    throw new Error('The book to keep must be one of the books being merged');
+  }
+
+  const merged: Book = { ...target };
+
+  MERGE_FIELDS.forEach(({ field, bookFields }) => {
+    const winner = books.find(book => book.id === choices[field]) || target;
+    bookFields.forEach(bookField => {
+      (merged as unknown as Record<string, unknown>)[bookField] = winner[bookField];
+    });
+  });
+
+  const union = (values: (string[] | undefined)[]): string[] | undefined => {
+    const combined = Array.from(new Set(values.flatMap(value => value || [])));
+    return combined.length > 0 ? combined : undefined;
+  };
+
+  const readThroughs = uniqueReadThroughs(books.flatMap(book => book.readThroughs || []));
+  // The kept book's copies stay first so its main copy is unchanged
+  const copies = [target, ...books.filter(book => book !== target)]
+    .flatMap(book => book.copies || [])
+    .filter((copy, index, all) => all.findIndex(other => other.id === copy.id) === index)
+    .slice(0, MAX_BOOK_COPIES);
+  const addedDates = books.map(book => book.addedDate).filter(Boolean).sort();
+
+  return {
+    ...merged,
+    id: target.id,
+    isbn10: union(books.map(book => book.isbn10)),
+    isbn13: union(books.map(book => book.isbn13)),
+    collectionIds: union(books.map(book => book.collectionIds)),
+    tags: union(books.map(book => book.tags)),
+    readThroughs: readThroughs.length > 0 ? readThroughs : undefined,
+    copies: copies.length > 0 ? copies : undefined,
+    addedDate: addedDates[0] || target.addedDate,
+  };
+}
+
+/**
+ * Rewrite a list of book ids after a merge. Where the surviving book belongs,
+ * the first merged id is replaced by it and the rest dropped; elsewhere every
+ * merged id is removed.
+ */
+export function remapMergedBookIds(
+  bookIds: string[] | undefined,
+  mergedIds: string[],
+  targetId: string,
+  keepTarget: boolean
+): string[] {
+  const remapped: string[] = [];
+
+  (bookIds || []).forEach(id => {
+    if (!mergedIds.includes(id)) {
+      remapped.push(id);
+    } else if (keepTarget && !remapped.includes(targetId)) {
+      remapped.push(targetId);
+    }
+  });
+
+  if (keepTarget && !remapped.includes(targetId)) {
+    remapped.push(targetId);
+  }
+
+  return remapped;
+}
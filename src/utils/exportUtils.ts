@@ -1,4 +1,4 @@
-import { Book } from '@/types/book';
+import { Book, BookCopy } from '@/types/book';
 import { Series } from '@/types/series';
 import { Collection } from '@/types/collection';
 
@@ -23,6 +23,8 @@ interface ExportableBook {
   addedDate: string;
   collectionIds?: string[];
   collectionNames?: string[];
+  tags?: string[];
+  copies?: BookCopy[];
 }
 
 /**
@@ -80,7 +82,8 @@ export function booksToCSV(books: Book[], collections: Collection[] = []): strin
     'pageCount',
     'publishedDate',
     'addedDate',
-    'collectionNames'
+    'collectionNames',
+    'tags'
   ];
   
   // Create CSV header row
@@ -122,6 +125,10 @@ export function booksToCSV(books: Book[], collections: Collection[] = []): strin
           }
           return '';
           
+        case 'tags':
+          // Join tags with semicolons and escape for CSV
+          return book.tags?.length ? `"${book.tags.join(';').replace(/"/g, '""')}"` : '';
+          
         default:
           // Get the value (or empty string if undefined)
           const value = book[header as keyof Book];
@@ -176,7 +183,9 @@ export function booksToJSON(books: Book[], collections: Collection[] = []): stri
       publishedDate: book.publishedDate || undefined,
       addedDate: book.addedDate,
       collectionIds: book.collectionIds || undefined,
-      collectionNames: bookCollections.length > 0 ? bookCollections : undefined
+      collectionNames: bookCollections.length > 0 ? bookCollections : undefined,
+      tags: book.tags?.length ? book.tags : undefined,
+      copies: book.copies?.length ? book.copies : undefined
     };
     return exportBook;
   });
@@ -387,6 +396,8 @@ export function createCompleteJSONExport(
         addedDate: book.addedDate,
         collectionIds: book.collectionIds || undefined,
         collectionNames: bookCollections.length > 0 ? bookCollections : undefined,
+        tags: book.tags?.length ? book.tags : undefined,
+        copies: book.copies?.length ? book.copies : undefined,
         id: book.id // Include ID for relationships
       };
     }),
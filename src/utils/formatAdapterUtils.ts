@@ -0,0 +1,62 @@
+import { Book } from '@/types/book';
+import { Collection } from '@/types/collection';
+import { Series } from '@/types/series';
+
+/**
+ * Helpers shared by the third-party format adapters
+ */
+
+/**
+ * Convert a YYYY/MM/DD or YYYY-MM-DD date to YYYY-MM-DD
+ */
+export function normalizeFormatDate(value?: string): string | undefined {
+  const match = value?.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+/**
+ * Round a rating such as 3.75 to a whole 1-5 star rating. Zero or missing
+ * values mean "not rated".
+ */
+export function normalizeFormatRating(value?: string | number): number | undefined {
+  const rating = typeof value === 'number' ? value : parseFloat(value || '');
+
+  if (isNaN(rating) || rating <= 0) {
+    return undefined;
+  }
+
+  return Math.min(5, Math.max(1, Math.round(rating)));
+}
+
+/**
+ * Pick the ISBN to export for a book, preferring ISBN-13
+ */
+export function getExportISBN(book: Book): string {
+  if (book.isbn13?.[0]) return book.isbn13[0];
+  if (book.isbn10?.[0]) return book.isbn10[0];
+
+  // Imports store the ISBN in googleBooksId when there is no Google Books match
+  return book.googleBooksId && /^(\d{9}[\dXx]|\d{13})$/.test(book.googleBooksId) ? book.googleBooksId : '';
+}
+
+/**
+ * Names of the collections a book belongs to
+ */
+export function getBookCollectionNames(book: Book, collections: Collection[] = []): string[] {
+  return collections
+    .filter(collection => collection.bookIds.includes(book.id) || book.collectionIds?.includes(collection.id))
+    .map(collection => collection.name);
+}
+
+/**
+ * Name of the series a book belongs to, if known
+ */
+export function getBookSeriesName(book: Book, series: Series[] = []): string | undefined {
+  const match = book.seriesId ? series.find(candidate => candidate.id === book.seriesId) : undefined;
+  return match?.name || book._legacySeriesName;
+}
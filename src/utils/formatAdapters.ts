@@ -0,0 +1,81 @@
+import { Book } from '@/types/book';
+import { Collection } from '@/types/collection';
+import { Series } from '@/types/series';
+import type { RawBookImport } from './importUtils';
+import { storyGraphAdapter } from './storyGraphFormat';
+import { libraryThingJSONAdapter, libraryThingTSVAdapter } from './libraryThingFormat';
+
+export type BookFormatId = 'storygraph' | 'librarything-tsv' | 'librarything-json';
+
+/**
+ * How a column or field of a third-party format maps onto our book fields.
+ * Shown in the import preview so users can check the mapping before committing.
+ */
+export interface FieldMapping {
+  source: string;
+  target: string;
+  note?: string;
+}
+
+/**
+ * Reads and writes one third-party library format
+ */
+export interface BookFormatAdapter {
+  id: BookFormatId;
+  label: string;
+  fileExtension: string;
+  mimeType: string;
+  fieldMappings: FieldMapping[];
+  /** Parse file content into raw book imports. Throws if the content is not in this format. */
+  parse: (content: string) => RawBookImport[];
+  /** Serialize books in this format. Collections are written as the format's tags. */
+  serialize: (books: Book[], collections?: Collection[], series?: Series[]) => string;
+}
+
+/**
+ * Result of parsing a file before anything is saved
+ */
+export interface FormatImportPreview {
+  adapter: BookFormatAdapter;
+  totalBooks: number;
+  sample: RawBookImport[];
+}
+
+export const BOOK_FORMAT_ADAPTERS: BookFormatAdapter[] = [
+  storyGraphAdapter,
+  libraryThingTSVAdapter,
+  libraryThingJSONAdapter,
+];
+
+/**
+ * Look up a format adapter by id
+ */
+export function getBookFormatAdapter(id: BookFormatId): BookFormatAdapter {
+  const adapter = BOOK_FORMAT_ADAPTERS.find(candidate => candidate.id === id);
+
+  if (!adapter) {
+    throw new Error(`Unknown import format: ${id}`);
+  }
+
+  return adapter;
+}
+
+/**
+ * Parse file content with an adapter so the mapping can be reviewed before importing
+ * @param adapter Format adapter to parse with
+ * @param content File content
+ * @param sampleSize Number of mapped books to include in the preview
+ */
+export function previewFormatImport(
+  adapter: BookFormatAdapter,
+  content: string,
+  sampleSize: number = 5
+): FormatImportPreview {
+  const books = adapter.parse(content);
+
+  return {
+    adapter,
+    totalBooks: books.length,
+    sample: books.slice(0, sampleSize),
+  };
+}
@@ -0,0 +1,256 @@
+import {
+  addMonths,
+  addYears,
+  endOfDay,
+  endOfMonth,
+  endOfYear,
+  format,
+  startOfMonth,
+  startOfYear,
+} from 'date-fns';
+import { Book } from '@/types/book';
+import { ReadingGoal, ReadingGoalType } from '@/types/user-settings';
+import { normalizeGenreData } from './genreUtils';
+import { getCompletedReads } from './statisticsUtils';
+
+/**
+ * A single period a goal is measured over, e.g. one month or one year
+ */
+export interface GoalPeriodRange {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export type GoalStatus = 'upcoming' | 'behind' | 'on-track' | 'ahead' | 'met' | 'missed';
+
+/**
+ * Progress towards a goal in one period, including where the reader
+ * should be by now if they read at an even pace
+ */
+export interface GoalProgress {
+  goal: ReadingGoal;
+  period: GoalPeriodRange;
+  current: number;
+  target: number;
+  /** Amount expected by now at an even pace */
+  expected: number;
+  /** Whole units ahead (positive) or behind (negative) of the expected pace */
+  paceDifference: number;
+  percent: number;
+  status: GoalStatus;
+}
+
+/** Number of past periods shown in a goal's history by default */
+export const DEFAULT_GOAL_HISTORY_LENGTH = 6;
+
+const parseDateOnly = (value: string): Date => new Date(`${value}T00:00:00`);
+
+const GOAL_UNITS: Record<ReadingGoalType, [string, string]> = {
+  books: ['book', 'books'],
+  pages: ['page', 'pages'],
+  genres: ['genre', 'genres'],
+};
+
+/**
+ * Returns the singular or plural unit for a goal type
+ */
+export const getGoalUnitLabel = (type: ReadingGoalType, count: number): string =>
+  GOAL_UNITS[type][count === 1 ? 0 : 1];
+
+/**
+ * Builds a readable name for a goal when the reader has not named it
+ */
+export const getGoalDisplayName = (goal: ReadingGoal): string => {
+  if (goal.name) return goal.name;
+
+  const unit = getGoalUnitLabel(goal.type, goal.target);
+  const subject = goal.type === 'genres' ? `${goal.target} different ${unit}` : `${goal.target} ${unit}`;
+
+  if (goal.period === 'monthly') return `${subject} per month`;
+  if (goal.period === 'yearly') return `${subject} per year`;
+  return subject;
+};
+
+/**
+ * Gets the period of a goal that contains the reference date. Custom goals
+ * always have exactly one period.
+ */
+export const getGoalPeriod = (goal: ReadingGoal, reference: Date): GoalPeriodRange => {
+  if (goal.period === 'monthly') {
+    return {
+      start: startOfMonth(reference),
+      end: endOfMonth(reference),
+      label: format(reference, 'MMMM yyyy'),
+    };
+  }
+
+  if (goal.period === 'yearly') {
+    return {
+      start: startOfYear(reference),
+      end: endOfYear(reference),
+      label: format(reference, 'yyyy'),
+    };
+  }
+
+  const start = parseDateOnly(goal.startDate || format(reference, 'yyyy-MM-dd'));
+  const end = endOfDay(parseDateOnly(goal.endDate || format(reference, 'yyyy-MM-dd')));
+
+  return {
+    start,
+    end,
+    label: `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`,
+  };
+};
+
+/**
+ * Lists finished periods before the current one, most recent first
+ *
+ * @param goal - Goal to list periods for
+ * @param now - Current date
+ * @param count - Maximum number of periods to return
+ */
+export const getPastGoalPeriods = (
+  goal: ReadingGoal,
+  now: Date,
+  count: number = DEFAULT_GOAL_HISTORY_LENGTH
+): GoalPeriodRange[] => {
+  if (goal.period === 'custom') {
+    const period = getGoalPeriod(goal, now);
+    return period.end < now ? [period] : [];
+  }
+
+  const step = goal.period === 'monthly' ? addMonths : addYears;
+  const earliest = goal.createdAt ? new Date(goal.createdAt) : undefined;
+  const periods: GoalPeriodRange[] = [];
+
+  for (let offset = 1; offset <= count; offset++) {
+    const period = getGoalPeriod(goal, step(now, -offset));
+
+    // Don't report periods that ended before the goal existed
+    if (earliest && !Number.isNaN(earliest.getTime()) && period.end < earliest) break;
+    periods.push(period);
+  }
+
+  return periods;
+};
+
+/**
+ * Measures how far the books got towards a goal within a period.
+ * Every finished read counts, so re-reads add to book and page goals.
+ */
+export const measureGoal = (
+  type: ReadingGoalType,
+  books: Book[],
+  period: GoalPeriodRange
+): number => {
+  const reads = getCompletedReads(books).filter(read => {
+    const finished = new Date(read.finishedDate);
+    return finished >= period.start && finished <= period.end;
+  });
+
+  if (type === 'pages') {
+    return reads.reduce((sum, read) => sum + (read.book.pageCount || 0), 0);
+  }
+
+  if (type === 'genres') {
+    const genres = new Set<string>();
+    reads.forEach(read => {
+      normalizeGenreData(read.book.genre).forEach(genre => genres.add(genre.toLowerCase()));
+    });
+    return genres.size;
+  }
+
+  return reads.length;
+};
+
+/**
+ * Evaluates a goal for one period, including pace against an even
+ * reading schedule
+ */
+export const evaluateGoal = (
+  goal: ReadingGoal,
+  books: Book[],
+  period: GoalPeriodRange,
+  now: Date
+): GoalProgress => {
+  const current = measureGoal(goal.type, books, period);
+  const target = goal.target;
+  const duration = period.end.getTime() - period.start.getTime();
+  const elapsed = Math.min(Math.max(now.getTime() - period.start.getTime(), 0), duration);
+  const expected = duration > 0 ? (target * elapsed) / duration : target;
+  const rawDifference = current - expected;
+  const paceDifference = rawDifference >= 0 ? Math.floor(rawDifference) : -Math.floor(-rawDifference);
+
+  let status: GoalStatus;
+  if (now < period.start) {
+    status = 'upcoming';
+  } else if (current >= target) {
+    status = 'met';
+  } else if (now > period.end) {
+    status = 'missed';
+  } else if (paceDifference < 0) {
+    status = 'behind';
+  } else if (paceDifference > 0) {
+    status = 'ahead';
+  } else {
+    status = 'on-track';
+  }
+
+  return {
+    goal,
+    period,
+    current,
+    target,
+    expected,
+    paceDifference,
+    percent: target > 0 ? Math.min(100, (current / target) * 100) : 0,
+    status,
+  };
+};
+
+/**
+ * Evaluates a goal for the period containing now
+ */
+export const getCurrentGoalProgress = (
+  goal: ReadingGoal,
+  books: Book[],
+  now: Date = new Date()
+): GoalProgress => evaluateGoal(goal, books, getGoalPeriod(goal, now), now);
+
+/**
+ * Evaluates a goal for its past periods, most recent first
+ */
+export const getGoalHistory = (
+  goal: ReadingGoal,
+  books: Book[],
+  now: Date = new Date(),
+  count: number = DEFAULT_GOAL_HISTORY_LENGTH
+): GoalProgress[] =>
+  getPastGoalPeriods(goal, now, count).map(period => evaluateGoal(goal, books, period, now));
+
+/**
+ * Describes a goal's pace, e.g. "3 books behind schedule"
+ */
+export const describeGoalPace = (progress: GoalProgress): string => {
+  const { goal, current, target, paceDifference, status } = progress;
+  const amount = Math.abs(paceDifference);
+  const unit = getGoalUnitLabel(goal.type, amount);
+
+  switch (status) {
+    case 'upcoming':
+      return `Starts ${format(progress.period.start, 'MMM d, yyyy')}`;
+    case 'met':
+      return 'Goal met';
+    case 'missed': {
+      const shortfall = target - current;
+      return `Missed by ${shortfall} ${getGoalUnitLabel(goal.type, shortfall)}`;
+    }
+    case 'behind':
+      return `${amount} ${unit} behind schedule`;
+    case 'ahead':
+      return `${amount} ${unit} ahead of schedule`;
+    default:
+      return 'On track';
+  }
+};
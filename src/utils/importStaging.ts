@@ -0,0 +1,486 @@
+import { Book, ReadThrough } from '@/types/book';
+import { normalizeGenreData } from './genreUtils';
+import { normalizeISBN } from './isbn';
+import type { CompleteImportResult, ImportResult, RawBookImport } from './importUtils';
+
+/**
+ * How an incoming row relates to the existing library
+ * - new: no matching book in the library
+ * - updated: matches a book but some fields differ
+ * - duplicate: matches a book (or an earlier row) with nothing new
+ * - invalid: failed validation and cannot be imported
+ */
+export type StagedRowKind = 'new' | 'updated' | 'duplicate' | 'invalid';
+
+/**
+ * What to do with a staged row when the import is committed
+ * - keep: add the incoming book as its own entry
+ * - overwrite: replace the matched book's fields with the incoming ones
+ * - merge: keep the matched book's values and fill gaps from the incoming book
+ * - skip: don't import the row
+ */
+export type ImportResolution = 'keep' | 'overwrite' | 'merge' | 'skip';
+
+export type ImportMatchReason = 'isbn' | 'provider-id' | 'title-author';
+
+export interface StagedImportRow {
+  key: string;
+  kind: StagedRowKind;
+  /** Book built from the row, absent for invalid rows */
+  incoming?: Book;
+  rawData?: RawBookImport;
+  /** Library book (or earlier row in the same file) the row matched */
+  existing?: Book;
+  /** Whether the match is a book from the same file rather than the library */
+  matchedInFile?: boolean;
+  matchedBy?: ImportMatchReason;
+  changedFields: (keyof Book)[];
+  reason?: string;
+  resolution: ImportResolution;
+}
+
+/**
+ * A parsed import that has not been written yet, with a decision per row
+ */
+export interface StagedImport {
+  source: string;
+  rows: StagedImportRow[];
+  result: ImportResult | CompleteImportResult;
+}
+
+export const DEFAULT_RESOLUTIONS: Record<StagedRowKind, ImportResolution> = {
+  new: 'keep',
+  updated: 'merge',
+  duplicate: 'skip',
+  invalid: 'skip',
+};
+
+export const ALLOWED_RESOLUTIONS: Record<StagedRowKind, ImportResolution[]> = {
+  new: ['keep', 'skip'],
+  updated: ['merge', 'overwrite', 'keep', 'skip'],
+  duplicate: ['skip', 'merge', 'overwrite', 'keep'],
+  invalid: ['skip'],
+};
+
+/** Fields compared when deciding whether a matched row changes anything */
+const COMPARED_FIELDS: (keyof Book)[] = [
+  'title',
+  'author',
+  'status',
+  'completedDate',
+  'rating',
+  'notes',
+  'genre',
+  'pageCount',
+  'publishedDate',
+  'isPartOfSeries',
+  'volumeNumber',
+  'readThroughs',
+];
+
+/** Minimum title similarity (0-1) for a fuzzy title+author match */
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+const ISBN_PATTERN = /^(\d{9}[\dX]|\d{13})$/;
+
+/**
+ * Lowercase, strip accents, punctuation and leading articles so titles and
+ * authors written slightly differently compare equal
+ */
+export function normalizeMatchText(value?: string): string {
+  return (value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two strings between 0 (nothing in common) and 1 (identical)
+ */
+export function getTextSimilarity(a: string, b: string): number {
+  if (!a && !b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return 1 - levenshteinDistance(a, b) / longest;
+}
+
+const isUnknownAuthor = (author?: string): boolean => {
+  const normalized = normalizeMatchText(author);
+  return !normalized || normalized === 'unknown' || normalized === 'unknown author';
+};
+
+/**
+ * Whether two books are probably the same work. Titles are compared with and
+ * without subtitles; authors must share a name unless one is unknown, in
+ * which case the titles must match exactly.
+ */
+export function isFuzzyTitleAuthorMatch(a: Book, b: Book): boolean {
+  const titleA = normalizeMatchText(a.title);
+  const titleB = normalizeMatchText(b.title);
+  const shortTitleA = normalizeMatchText(a.title.split(':')[0]);
+  const shortTitleB = normalizeMatchText(b.title.split(':')[0]);
+
+  if (!titleA || !titleB) return false;
+
+  const titleSimilarity = Math.max(
+    getTextSimilarity(titleA, titleB),
+    getTextSimilarity(shortTitleA, shortTitleB)
+  );
+
+  if (isUnknownAuthor(a.author) || isUnknownAuthor(b.author)) {
+    return titleA === titleB;
+  }
+
+  if (titleSimilarity < TITLE_SIMILARITY_THRESHOLD) return false;
+
+  // Sharing a full name part copes with "Last, First" and missing initials
+  const namePartsB = normalizeMatchText(b.author).split(' ');
+  return normalizeMatchText(a.author)
+    .split(' ')
+    .some(part => part.length > 2 && part !== 'and' && namePartsB.includes(part));
+}
+
+/**
+ * All ISBNs known for a book, normalized to ISBN-13. Imports keep the ISBN in
+ * googleBooksId when no Google Books match was found.
+ */
+export function getBookISBNs(book: Book): string[] {
+  const candidates = [...(book.isbn13 || []), ...(book.isbn10 || []), book.googleBooksId || ''];
+  return Array.from(new Set(
+    candidates
+      .map(isbn => normalizeISBN(isbn))
+      .filter((isbn): isbn is string => Boolean(isbn))
+  ));
+}
+
+/**
+ * Provider IDs for a book, prefixed by provider so IDs from different
+ * sources never collide
+ */
+export function getProviderIds(book: Book): string[] {
+  const ids = [`id:${book.id}`];
+  if (book.googleBooksId && !ISBN_PATTERN.test(book.googleBooksId)) ids.push(`google:${book.googleBooksId}`);
+  if (book.openLibraryId) ids.push(`openlib:${book.openLibraryId}`);
+  if (book.sourceType && book.sourceId) ids.push(`${book.sourceType}:${book.sourceId}`);
+  return ids;
+}
+
+/**
+ * Find the book an incoming book refers to, checking provider IDs first,
+ * then ISBNs, then a fuzzy title and author comparison
+ */
+export function findMatchingBook(
+  incoming: Book,
+  candidates: Book[]
+): { book: Book; matchedBy: ImportMatchReason } | undefined {
+  const providerIds = getProviderIds(incoming);
+  const byProvider = candidates.find(book => getProviderIds(book).some(id => providerIds.includes(id)));
+  if (byProvider) return { book: byProvider, matchedBy: 'provider-id' };
+
+  const isbns = getBookISBNs(incoming);
+  if (isbns.length > 0) {
+    const byISBN = candidates.find(book => getBookISBNs(book).some(isbn => isbns.includes(isbn)));
+    if (byISBN) return { book: byISBN, matchedBy: 'isbn' };
+  }
+
+  const byTitle = candidates.find(book => isFuzzyTitleAuthorMatch(book, incoming));
+  return byTitle ? { book: byTitle, matchedBy: 'title-author' } : undefined;
+}
+
+const comparableValue = (field: keyof Book, value: unknown): string => {
+  if (field === 'genre') return JSON.stringify(normalizeGenreData(value as Book['genre']).map(genre => genre.toLowerCase()).sort());
+  if (field === 'completedDate' || field === 'publishedDate') return String(value).slice(0, 10);
+  if (field === 'readThroughs') {
+    return JSON.stringify(
+      ((value as ReadThrough[]) || []).map(read => `${read.startedDate?.slice(0, 10)}|${read.finishedDate?.slice(0, 10)}`).sort()
+    );
+  }
+  return typeof value === 'string' ? value.trim() : JSON.stringify(value);
+};
+
+/**
+ * Fields the incoming book would change on the existing book. Fields the
+ * incoming book leaves empty are not counted as changes.
+ */
+export function getChangedFields(existing: Book, incoming: Book): (keyof Book)[] {
+  return COMPARED_FIELDS.filter(field => {
+    const value = incoming[field];
+    if (value === undefined || value === null || value === '') return false;
+    if (Array.isArray(value) && value.length === 0) return false;
+    return comparableValue(field, value) !== comparableValue(field, existing[field]);
+  });
+}
+
+/**
+ * Compare a dry-run import result against the library and give every row a
+ * default decision. Nothing is written.
+ * @param result Parsed and validated import result
+ * @param existingBooks Books currently in the library
+ * @param source Label of the file or format being imported
+ */
+export function stageImport(
+  result: ImportResult | CompleteImportResult,
+  existingBooks: Book[],
+  source: string
+): StagedImport {
+  const rows: StagedImportRow[] = [];
+  const seenInFile: Book[] = [];
+
+  result.successful.forEach((incoming, index) => {
+    const libraryMatch = findMatchingBook(incoming, existingBooks);
+    const fileMatch = libraryMatch ? undefined : findMatchingBook(incoming, seenInFile);
+    const match = libraryMatch || fileMatch;
+    const changedFields = match ? getChangedFields(match.book, incoming) : [];
+
+    let kind: StagedRowKind = 'new';
+    if (fileMatch) {
+      kind = 'duplicate';
+    } else if (libraryMatch) {
+      kind = changedFields.length > 0 ? 'updated' : 'duplicate';
+    }
+
+    seenInFile.push(incoming);
+    rows.push({
+      key: `row-${index}`,
+      kind,
+      incoming,
+      existing: match?.book,
+      matchedInFile: Boolean(fileMatch),
+      matchedBy: match?.matchedBy,
+      changedFields,
+      resolution: DEFAULT_RESOLUTIONS[kind],
+    });
+  });
+
+  result.failed.forEach((failure, index) => {
+    rows.push({
+      key: `invalid-${index}`,
+      kind: 'invalid',
+      rawData: failure.rawData,
+      changedFields: [],
+      reason: failure.reason,
+      resolution: 'skip',
+    });
+  });
+
+  return { source, rows, result };
+}
+
+/**
+ * Change the decision for one row. Decisions a row doesn't allow are ignored.
+ */
+export function setStagedRowResolution(
+  staged: StagedImport,
+  key: string,
+  resolution: ImportResolution
+): StagedImport {
+  return {
+    ...staged,
+    rows: staged.rows.map(row =>
+      row.key === key && ALLOWED_RESOLUTIONS[row.kind].includes(resolution) ? { ...row, resolution } : row
+    ),
+  };
+}
+
+/**
+ * Apply one decision to every row of a kind
+ */
+export function setStagedKindResolution(
+  staged: StagedImport,
+  kind: StagedRowKind,
+  resolution: ImportResolution
+): StagedImport {
+  return {
+    ...staged,
+    rows: staged.rows.map(row =>
+      row.kind === kind && ALLOWED_RESOLUTIONS[kind].includes(resolution) ? { ...row, resolution } : row
+    ),
+  };
+}
+
+export const uniqueReadThroughs = (readThroughs: ReadThrough[]): ReadThrough[] => {
+  const seen = new Set<string>();
+  return readThroughs.filter(read => {
+    const key = `${read.startedDate?.slice(0, 10)}|${read.finishedDate?.slice(0, 10)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Keep the existing book's values and fill any gaps from the incoming book.
+ * Read history and imported collection names are combined.
+ */
+export function mergeImportedBook(existing: Book, incoming: Book): Book {
+  const merged: Book = { ...existing };
+
+  (Object.keys(incoming) as (keyof Book)[]).forEach(field => {
+    const current = merged[field];
+    if (current === undefined || current === null || current === '') {
+      (merged as unknown as Record<string, unknown>)[field] = incoming[field];
+    }
+  });
+
+  const readThroughs = uniqueReadThroughs([...(existing.readThroughs || []), ...(incoming.readThroughs || [])]);
+  const collectionNames = Array.from(new Set([
+    ...(existing._importedCollectionNames || []),
+    ...(incoming._importedCollectionNames || []),
+  ]));
+
+  return {
+    ...merged,
+    id: existing.id,
+    addedDate: existing.addedDate,
+    readThroughs: readThroughs.length > 0 ? readThroughs : undefined,
+    _importedCollectionNames: collectionNames.length > 0 ? collectionNames : undefined,
+  };
+}
+
+/**
+ * Replace the existing book's fields with every value the incoming book has,
+ * keeping the existing book's identity, series and collection links
+ */
+export function overwriteImportedBook(existing: Book, incoming: Book): Book {
+  const overwritten: Book = { ...existing };
+
+  (Object.keys(incoming) as (keyof Book)[]).forEach(field => {
+    if (incoming[field] !== undefined) {
+      (overwritten as unknown as Record<string, unknown>)[field] = incoming[field];
+    }
+  });
+
+  return {
+    ...overwritten,
+    id: existing.id,
+    addedDate: existing.addedDate,
+    seriesId: incoming.seriesId || existing.seriesId,
+    collectionIds: incoming.collectionIds || existing.collectionIds,
+  };
+}
+
+/**
+ * Turn the row decisions into the books, series and collections to write.
+ * Series and collection book references are pointed at the book each row
+ * ended up as; references to skipped new rows are dropped.
+ */
+export function resolveStagedImport(staged: StagedImport): CompleteImportResult {
+  const output: Book[] = [];
+  const outputIndexById = new Map<string, number>();
+  const finalIdByIncomingId = new Map<string, string>();
+  const usedIds = new Set<string>();
+
+  const addBook = (book: Book) => {
+    outputIndexById.set(book.id, output.length);
+    usedIds.add(book.id);
+    output.push(book);
+  };
+
+  // A row matching an earlier row in the file resolves against what that row became
+  const resolveTarget = (row: StagedImportRow): Book | undefined => {
+    if (!row.existing || !row.matchedInFile) return row.existing;
+    const earlierId = finalIdByIncomingId.get(row.existing.id);
+    const index = earlierId ? outputIndexById.get(earlierId) : undefined;
+    return index !== undefined ? output[index] : undefined;
+  };
+
+  for (const row of staged.rows) {
+    const { incoming, existing } = row;
+    if (!incoming) continue;
+
+    const target = resolveTarget(row);
+
+    switch (row.resolution) {
+      case 'keep': {
+        const clash = usedIds.has(incoming.id) || (existing && existing.id === incoming.id);
+        const book = clash ? { ...incoming, id: crypto.randomUUID() } : incoming;
+        addBook(book);
+        finalIdByIncomingId.set(incoming.id, book.id);
+        break;
+      }
+      case 'overwrite':
+      case 'merge': {
+        if (!target) {
+          addBook(incoming);
+          finalIdByIncomingId.set(incoming.id, incoming.id);
+          break;
+        }
+        const resolved = row.resolution === 'merge'
+          ? mergeImportedBook(target, incoming)
+          : overwriteImportedBook(target, incoming);
+        const index = outputIndexById.get(target.id);
+        if (index !== undefined) {
+          output[index] = resolved;
+        } else {
+          addBook(resolved);
+        }
+        finalIdByIncomingId.set(incoming.id, resolved.id);
+        break;
+      }
+      default:
+        // Skipped rows that match a library book still refer to that book
+        if (existing && !row.matchedInFile) {
+          finalIdByIncomingId.set(incoming.id, existing.id);
+        } else if (existing) {
+          const earlierId = finalIdByIncomingId.get(existing.id);
+          if (earlierId) finalIdByIncomingId.set(incoming.id, earlierId);
+        }
+    }
+  }
+
+  const remapIds = (ids: string[]): string[] =>
+    Array.from(new Set(ids.map(id => finalIdByIncomingId.get(id)).filter((id): id is string => Boolean(id))));
+
+  const { series, collections } = staged.result as CompleteImportResult;
+
+  return {
+    successful: output,
+    failed: staged.result.failed,
+    total: staged.result.total,
+    series: series && {
+      ...series,
+      successful: series.successful.map(item => ({
+        ...item,
+        books: remapIds(item.books),
+        customOrder: item.customOrder ? remapIds(item.customOrder) : undefined,
+      })),
+    },
+    collections: collections && {
+      ...collections,
+      successful: collections.successful.map(item => ({ ...item, bookIds: remapIds(item.bookIds) })),
+    },
+  };
+}
+
+/**
+ * Number of rows in each kind, for the review summary
+ */
+export function countStagedRows(staged: StagedImport): Record<StagedRowKind, number> {
+  const counts: Record<StagedRowKind, number> = { new: 0, updated: 0, duplicate: 0, invalid: 0 };
+  staged.rows.forEach(row => {
+    counts[row.kind] += 1;
+  });
+  return counts;
+}
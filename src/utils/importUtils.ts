@@ -1,8 +1,11 @@
-import { Book } from '@/types/book';
+import { Book, BookCopy, ReadThrough } from '@/types/book';
 import { Book as ModelBook } from '@/types/models/Book';
 import { bookApiClient } from '@/services/api';
 import { createLogger } from './loggingUtils';
 import { normalizeGenreData, standardizeGenreData } from './genreUtils';
+import { MAX_BOOK_TAGS, MAX_TAG_LENGTH, addTag } from './bookTags';
+import { BOOK_FORMATS, MAX_BOOK_COPIES } from './bookCopies';
+import type { BookFormatAdapter } from './formatAdapters';
 
 // Create a logger for import functionality
 const log = createLogger('ImportUtils');
@@ -17,7 +20,7 @@ declare module '@/types/book' {
   }
 }
 
-interface RawBookImport {
+export interface RawBookImport {
   title: string;
   author?: string;
   isbn?: string;
@@ -36,13 +39,16 @@ interface RawBookImport {
   addedDate?: string; // Date the book was added to the library
   collectionIds?: string | string[];
   collectionNames?: string | string[];
+  tags?: string | string[]; // Semicolon-separated in CSV files
+  readThroughs?: ReadThrough[]; // Every read of the book, for formats that track re-reads
+  copies?: BookCopy[]; // Owned and borrowed copies, from JSON exports
   id?: string; // For enhanced imports that include IDs
 }
 
 /**
  * Raw series data from an imported JSON file
  */
-interface RawSeriesImport {
+export interface RawSeriesImport {
   id: string;
   name: string;
   description?: string;
@@ -61,7 +67,7 @@ interface RawSeriesImport {
 /**
  * Raw collection data from an imported JSON file
  */
-interface RawCollectionImport {
+export interface RawCollectionImport {
   id: string;
   name: string;
   description?: string;
@@ -175,6 +181,8 @@ export function parseCSV(csvString: string): RawBookImport[] {
         return 'collectionNames';
       case 'collection_ids':
         return 'collectionIds';
+      case 'tag':
+        return 'tags';
       default:
         return normalizedHeader;
     }
@@ -409,7 +417,13 @@ function convertRawToBook(rawBook: RawBookImport): Partial<Book> {
     log.trace('Normalized status value', { original: rawBook.status, normalized: status });
     
     // Handle various status values
-    if (status.includes('want') || status === 'to read' || status === 'to-read') {
+    if (status === 'dnf' || status.includes('did not finish') || status.includes('abandon')) {
+      book.status = 'dnf' as const;
+      log.debug('Status mapped to: dnf');
+    } else if (status === 'on-hold' || status === 'on hold' || status === 'paused') {
+      book.status = 'on-hold' as const;
+      log.debug('Status mapped to: on-hold');
+    } else if (status.includes('want') || status === 'to read' || status === 'to-read') {
       book.status = 'want-to-read' as const;
       log.debug('Status mapped to: want-to-read');
     } else if (status.includes('reading') || status === 'currently reading' || status === 'in progress') {
@@ -536,6 +550,22 @@ function convertRawToBook(rawBook: RawBookImport): Partial<Book> {
     }
   }
   
+  // Keep the full read history when the source format provides one
+  if (rawBook.readThroughs && rawBook.readThroughs.length > 0) {
+    book.readThroughs = rawBook.readThroughs;
+  }
+  
+  // Keep copies in a known format; the rest of each copy is checked by the server
+  if (Array.isArray(rawBook.copies)) {
+    const copies = rawBook.copies
+      .filter(copy => copy && typeof copy.id === 'string' && BOOK_FORMATS.includes(copy.format))
+      .slice(0, MAX_BOOK_COPIES);
+
+    if (copies.length > 0) {
+      book.copies = copies;
+    }
+  }
+  
   // Handle collection references
   if (rawBook.collectionIds) {
     // Convert string to array if needed
@@ -547,6 +577,20 @@ function convertRawToBook(rawBook: RawBookImport): Partial<Book> {
     log.debug('Processed collectionIds', { collectionIds });
   }
   
+  // Handle tags; names over the length limit and repeats ignoring case are dropped
+  if (rawBook.tags) {
+    const tagList = typeof rawBook.tags === 'string' ? rawBook.tags.split(';') : rawBook.tags;
+    const tags = tagList
+      .filter(tag => typeof tag === 'string' && tag.trim().length <= MAX_TAG_LENGTH)
+      .reduce<string[]>((current, tag) => addTag(current, tag), [])
+      .slice(0, MAX_BOOK_TAGS);
+
+    if (tags.length > 0) {
+      book.tags = tags;
+      log.debug('Processed tags', { tags });
+    }
+  }
+  
   // Handle collection names (from CSV imports)
   if (rawBook.collectionNames) {
     try {
@@ -667,6 +711,236 @@ export async function importFromCSV(file: File): Promise<ImportResult> {
   });
 }
 
+/**
+ * Goodreads shelves that decide a book's status rather than naming a collection
+ */
+const GOODREADS_EXCLUSIVE_SHELVES = ['read', 'currently-reading', 'to-read'];
+
+/**
+ * Split CSV content into records, keeping line breaks that appear inside
+ * quoted values (Goodreads reviews often span several lines)
+ */
+function splitCSVRecords(csvString: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csvString.length; i++) {
+    const char = csvString[i];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (char === '\r' && csvString[i + 1] === '\n') i++;
+      records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) records.push(current);
+
+  return records;
+}
+
+/**
+ * Strip the spreadsheet formula wrapping Goodreads puts around ISBNs,
+ * e.g. ="0439023483" becomes 0439023483
+ */
+export function cleanGoodreadsISBN(value?: string): string | undefined {
+  if (!value) return undefined;
+
+  const cleaned = value.trim().replace(/^="?|"$/g, '').replace(/[^0-9Xx]/g, '');
+  return cleaned || undefined;
+}
+
+/**
+ * Split a Goodreads title such as "Catching Fire (The Hunger Games, #2)"
+ * into the title, series name and volume number
+ */
+export function parseGoodreadsTitle(rawTitle: string): {
+  title: string;
+  seriesName?: string;
+  volumeNumber?: number;
+} {
+  const title = rawTitle.trim();
+  const match = title.match(/^(.*?)\s*\(([^()]+?),?\s*#(\d+(?:\.\d+)?)[^()]*\)\s*$/);
+
+  if (!match || !match[1]) {
+    return { title };
+  }
+
+  return {
+    title: match[1].trim(),
+    seriesName: match[2].trim(),
+    volumeNumber: Number(match[3])
+  };
+}
+
+/**
+ * Map a Goodreads exclusive shelf to one of our reading statuses
+ */
+export function mapGoodreadsShelfToStatus(shelf?: string): NonNullable<Book['status']> {
+  const normalized = (shelf || '').toLowerCase().trim();
+
+  switch (normalized) {
+    case 'read':
+      return 'completed';
+    case 'currently-reading':
+      return 'reading';
+    case 'to-read':
+    case '':
+      return 'want-to-read';
+    default:
+      // Custom exclusive shelves are usually "did-not-finish" or "on-hold" variants
+      if (/dnf|did-not-finish|abandon/.test(normalized)) return 'dnf';
+      if (/hold|paus/.test(normalized)) return 'on-hold';
+      return 'want-to-read';
+  }
+}
+
+/**
+ * Convert a Goodreads date (YYYY/MM/DD) to YYYY-MM-DD
+ */
+function normalizeGoodreadsDate(value?: string): string | undefined {
+  const match = value?.trim().match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+
+  if (!match) {
+    return value?.trim() || undefined;
+  }
+
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+/**
+ * Parse a Goodreads library export into raw book imports
+ * @param csvString The Goodreads CSV content as string
+ * @returns Array of raw book imports in our own import shape
+ */
+export function parseGoodreadsCSV(csvString: string): RawBookImport[] {
+  const records = splitCSVRecords(csvString).filter(record => record.trim());
+
+  if (records.length < 2) {
+    throw new Error('CSV file must contain at least a header row and one data row');
+  }
+
+  const headers = parseCSVLine(records[0]).map(header => header.trim());
+
+  if (!headers.includes('Title') || !headers.includes('Exclusive Shelf')) {
+    throw new Error('This does not look like a Goodreads library export (missing Title or Exclusive Shelf columns)');
+  }
+
+  log.info('Goodreads CSV parsing started', { recordCount: records.length - 1 });
+
+  return records.slice(1).map(record => {
+    const values = parseCSVLine(record);
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (values[index] || '').trim();
+    });
+
+    const { title, seriesName, volumeNumber } = parseGoodreadsTitle(row['Title'] || '');
+    const exclusiveShelf = (row['Exclusive Shelf'] || '').toLowerCase();
+    const rating = Number(row['My Rating']);
+    const collectionNames = (row['Bookshelves'] || '')
+      .split(',')
+      .map(shelf => shelf.trim())
+      .filter(shelf =>
+        shelf &&
+        shelf.toLowerCase() !== exclusiveShelf &&
+        !GOODREADS_EXCLUSIVE_SHELVES.includes(shelf.toLowerCase())
+      );
+
+    const rawBook: RawBookImport = {
+      title,
+      author: row['Author'] || undefined,
+      isbn: cleanGoodreadsISBN(row['ISBN13']) || cleanGoodreadsISBN(row['ISBN']),
+      status: mapGoodreadsShelfToStatus(exclusiveShelf),
+      // Goodreads uses 0 for "not rated"
+      rating: rating >= 1 && rating <= 5 ? rating : undefined,
+      completedDate: normalizeGoodreadsDate(row['Date Read']),
+      notes: row['Private Notes'] || row['My Review'] || undefined,
+      pageCount: row['Number of Pages'] || undefined,
+      publishedDate: row['Original Publication Year'] || row['Year Published'] || undefined,
+      isPartOfSeries: Boolean(seriesName),
+      seriesName,
+      volumeNumber,
+      collectionNames: collectionNames.length > 0 ? collectionNames : undefined
+    };
+
+    log.debug('Mapped Goodreads row', { title: rawBook.title, status: rawBook.status });
+    return rawBook;
+  });
+}
+
+/**
+ * Process a Goodreads library export file
+ * @param file The Goodreads CSV export to process
+ * @returns Result of the import operation
+ */
+export async function importFromGoodreadsCSV(file: File): Promise<ImportResult> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = async (e) => {
+      try {
+        const csvString = e.target?.result as string;
+        const rawBooks = parseGoodreadsCSV(csvString);
+        const result = await processImportedBooks(rawBooks);
+        resolve(result);
+      } catch (error) {
+        const errorMessage = `Failed to parse Goodreads CSV: ${error instanceof Error ? error.message : String(error)}`;
+        log.error(errorMessage);
+        reject(new Error(errorMessage));
+      }
+    };
+
+    reader.onerror = () => {
+      const errorMessage = 'Failed to read the Goodreads CSV file';
+      log.error(errorMessage);
+      reject(new Error(errorMessage));
+    };
+
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Process a file in one of the third-party formats (StoryGraph, LibraryThing)
+ * @param file The file to process
+ * @param adapter Format adapter that parses the file content
+ * @returns Result of the import operation
+ */
+export async function importWithFormatAdapter(file: File, adapter: BookFormatAdapter): Promise<ImportResult> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = async (e) => {
+      try {
+        const content = e.target?.result as string;
+        const rawBooks = adapter.parse(content);
+        log.info(`Parsed ${adapter.label} file`, { bookCount: rawBooks.length });
+        const result = await processImportedBooks(rawBooks);
+        resolve(result);
+      } catch (error) {
+        const errorMessage = `Failed to parse ${adapter.label} file: ${error instanceof Error ? error.message : String(error)}`;
+        log.error(errorMessage);
+        reject(new Error(errorMessage));
+      }
+    };
+
+    reader.onerror = () => {
+      const errorMessage = `Failed to read the ${adapter.label} file`;
+      log.error(errorMessage);
+      reject(new Error(errorMessage));
+    };
+
+    reader.readAsText(file);
+  });
+}
+
 /**
  * Process a JSON import file
  * @param file The JSON file to process
@@ -850,14 +1124,15 @@ async function processImportedBooks(rawBooks: RawBookImport[]): Promise<ImportRe
       // Create initial book from imported data
       const baseBook = {
         ...partialBook,
-        id: crypto.randomUUID(),
+        // Keep IDs from enhanced imports so series and collection references still resolve
+        id: partialBook.id || crypto.randomUUID(),
         title: rawBook.title,
         // Handle 'Unknown Author' as 'Unknown'
         author: (rawBook.author && rawBook.author.trim() !== 'Unknown Author') ? (rawBook.author || 'Unknown') : 'Unknown',
         spineColor: Math.floor(Math.random() * 8) + 1, // Random color between 1-8
         addedDate: new Date().toISOString().split('T')[0], // Today's date
         // Ensure status is one of the required types
-        status: (partialBook.status || 'want-to-read') as 'reading' | 'completed' | 'want-to-read'
+        status: (partialBook.status || 'want-to-read') as NonNullable<Book['status']>
       };
       
       // Try to enrich with API data
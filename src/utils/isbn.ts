@@ -0,0 +1,89 @@
+const ISBN_PATTERN = /^(\d{9}[\dX]|\d{13})$/;
+
+/** EAN-13 prefixes reserved for books ("Bookland") */
+const BOOKLAND_PREFIXES = ['978', '979'];
+
+/**
+ * Strip hyphens, spaces and other separators from an ISBN
+ */
+export function cleanISBN(value?: string): string {
+  return (value || '').replace(/[^0-9Xx]/g, '').toUpperCase();
+}
+
+/**
+ * Whether a cleaned value has the shape of an ISBN-10 or ISBN-13
+ */
+export function isISBNLike(value?: string): boolean {
+  return ISBN_PATTERN.test(cleanISBN(value));
+}
+
+/**
+ * Check digit for the first 12 digits of an EAN-13 (and so an ISBN-13)
+ */
+export function getEAN13CheckDigit(first12: string): number {
+  const sum = first12
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Whether a value is a 13-digit code with a correct EAN-13 check digit
+ */
+export function isValidEAN13(value: string): boolean {
+  return /^\d{13}$/.test(value) && getEAN13CheckDigit(value.slice(0, 12)) === Number(value[12]);
+}
+
+/**
+ * Whether a value is an ISBN-10 with a correct mod-11 check digit
+ */
+export function isValidISBN10(value: string): boolean {
+  const cleaned = cleanISBN(value);
+  if (!/^\d{9}[\dX]$/.test(cleaned)) return false;
+
+  const sum = cleaned
+    .split('')
+    .reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+
+  return sum % 11 === 0;
+}
+
+/**
+ * Whether a value is an ISBN-13: a valid EAN-13 in the Bookland range
+ */
+export function isValidISBN13(value: string): boolean {
+  const cleaned = cleanISBN(value);
+  return isValidEAN13(cleaned) && BOOKLAND_PREFIXES.includes(cleaned.slice(0, 3));
+}
+
+/**
+ * Convert an ISBN-10 to its 978-prefixed ISBN-13, recomputing the check digit
+ */
+export function isbn10To13(isbn10: string): string {
+  const core = `978${cleanISBN(isbn10).slice(0, 9)}`;
+  return `${core}${getEAN13CheckDigit(core)}`;
+}
+
+/**
+ * Normalize an ISBN-10 or ISBN-13 to ISBN-13 so both forms of the same
+ * edition compare equal. Returns undefined for anything that is not ISBN-shaped.
+ */
+export function normalizeISBN(value?: string): string | undefined {
+  const cleaned = cleanISBN(value);
+
+  if (!ISBN_PATTERN.test(cleaned)) return undefined;
+
+  return cleaned.length === 10 ? isbn10To13(cleaned) : cleaned;
+}
+
+/**
+ * Like normalizeISBN, but only for ISBNs whose check digit is correct. Use
+ * this for anything typed or scanned, where a misread digit is likely.
+ */
+export function toValidISBN13(value?: string): string | undefined {
+  const cleaned = cleanISBN(value);
+
+  if (cleaned.length === 10) return isValidISBN10(cleaned) ? isbn10To13(cleaned) : undefined;
+  return isValidISBN13(cleaned) ? cleaned : undefined;
+}
@@ -0,0 +1,384 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Book } from '@/types/book';
+import { Collection } from '@/types/collection';
+import { Series } from '@/types/series';
+import { formatDelimitedRow, parseDelimitedRecords } from './delimitedText';
+import {
+  getBookCollectionNames,
+  getBookSeriesName,
+  getExportISBN,
+  normalizeFormatDate,
+  normalizeFormatRating,
+} from './formatAdapterUtils';
+import type { BookFormatAdapter, FieldMapping } from './formatAdapters';
+import type { RawBookImport } from './importUtils';
+
+/**
+ * The fields we read from and write to a LibraryThing export. The TSV and
+ * JSON exports carry the same information under different names.
+ */
+export interface LibraryThingRecord {
+  bookId: string;
+  title: string;
+  primaryAuthor: string;
+  date: string;
+  rating?: number;
+  review: string;
+  privateComment: string;
+  pages: string;
+  dateStarted: string;
+  dateRead: string;
+  tags: string[];
+  collections: string[];
+  isbn: string;
+  series: string[];
+  entryDate: string;
+}
+
+/**
+ * Columns of a LibraryThing TSV export that we map, in export order
+ */
+const LIBRARYTHING_HEADERS = [
+  'Book Id',
+  'Title',
+  'Primary Author',
+  'Date',
+  'Review',
+  'Rating',
+  'Private Comment',
+  'Page Count',
+  'Date Started',
+  'Date Read',
+  'Tags',
+  'Collections',
+  'ISBN',
+  'Entry Date',
+  'Series',
+];
+
+/**
+ * LibraryThing collections that describe reading status rather than a user
+ * grouping. "Did not finish" and "On hold" are custom collections we write so
+ * those statuses survive a round trip.
+ */
+const STATUS_COLLECTIONS: Record<string, NonNullable<Book['status']>> = {
+  'currently reading': 'reading',
+  'to read': 'want-to-read',
+  'wishlist': 'want-to-read',
+  'read but unowned': 'completed',
+  'did not finish': 'dnf',
+  'on hold': 'on-hold',
+};
+
+const STATUS_TO_COLLECTION: Record<NonNullable<Book['status']>, string> = {
+  'reading': 'Currently reading',
+  'want-to-read': 'To read',
+  'completed': 'Your library',
+  'dnf': 'Did not finish',
+  'on-hold': 'On hold',
+};
+
+const DEFAULT_COLLECTION = 'your library';
+
+const LIBRARYTHING_FIELD_MAPPINGS: FieldMapping[] = [
+  { source: 'Title', target: 'Title' },
+  { source: 'Primary Author', target: 'Author', note: '"Last, First" is turned around' },
+  { source: 'ISBN', target: 'ISBN' },
+  { source: 'Collections', target: 'Status', note: 'Currently reading, To read, Wishlist, Did not finish, On hold' },
+  { source: 'Date Started / Date Read', target: 'Read history and completed date' },
+  { source: 'Rating', target: 'Rating', note: 'Half stars are rounded' },
+  { source: 'Private Comment / Review', target: 'Notes' },
+  { source: 'Page Count', target: 'Page count' },
+  { source: 'Date', target: 'Published date' },
+  { source: 'Series', target: 'Series and volume' },
+  { source: 'Tags and other collections', target: 'Collections' },
+];
+
+/**
+ * Turn "Collins, Suzanne" into "Suzanne Collins"
+ */
+export function flipLibraryThingAuthor(name: string): string {
+  const parts = name.split(',').map(part => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? `${parts[1]} ${parts[0]}` : name.trim();
+}
+
+/**
+ * Turn "Suzanne Collins" into LibraryThing's "Collins, Suzanne"
+ */
+function toLibraryThingAuthor(name: string): string {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2 || name.includes(',')) return name.trim();
+  return `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`;
+}
+
+/**
+ * Parse a series entry such as "The Hunger Games (2)"
+ */
+export function parseLibraryThingSeries(value?: string): { seriesName?: string; volumeNumber?: number } {
+  const entry = value?.trim();
+  if (!entry) return {};
+
+  const match = entry.match(/^(.*?)\s*\((\d+(?:\.\d+)?)\)$/);
+  return match ? { seriesName: match[1], volumeNumber: Number(match[2]) } : { seriesName: entry };
+}
+
+const splitList = (value?: string): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Map one LibraryThing record to our raw import shape
+ */
+export function libraryThingRecordToRawBook(record: LibraryThingRecord): RawBookImport {
+  const collectionKeys = record.collections.map(collection => collection.toLowerCase());
+  const dateRead = normalizeFormatDate(record.dateRead);
+  const dateStarted = normalizeFormatDate(record.dateStarted);
+  const statusCollection = collectionKeys.find(key => key in STATUS_COLLECTIONS);
+
+  let status: NonNullable<Book['status']> = 'want-to-read';
+  if (statusCollection) {
+    status = STATUS_COLLECTIONS[statusCollection];
+  } else if (dateRead) {
+    status = 'completed';
+  } else if (dateStarted) {
+    status = 'reading';
+  }
+
+  const collectionNames = [
+    ...record.tags,
+    ...record.collections.filter(collection => {
+      const key = collection.toLowerCase();
+      return key !== DEFAULT_COLLECTION && !(key in STATUS_COLLECTIONS);
+    }),
+  ];
+  const { seriesName, volumeNumber } = parseLibraryThingSeries(record.series[0]);
+  const isbn = record.isbn.replace(/[^0-9Xx]/g, '');
+
+  return {
+    title: record.title,
+    author: record.primaryAuthor ? flipLibraryThingAuthor(record.primaryAuthor) : undefined,
+    isbn: isbn || undefined,
+    status,
+    completedDate: status === 'completed' ? dateRead : undefined,
+    rating: normalizeFormatRating(record.rating),
+    notes: record.privateComment || record.review || undefined,
+    pageCount: record.pages || undefined,
+    publishedDate: record.date || undefined,
+    isPartOfSeries: Boolean(seriesName),
+    seriesName,
+    volumeNumber,
+    readThroughs: dateStarted || dateRead
+      ? [{
+          id: `read-${uuidv4()}`,
+          startedDate: dateStarted,
+          finishedDate: dateRead,
+          dnf: status === 'dnf' || undefined,
+        }]
+      : undefined,
+    collectionNames: collectionNames.length > 0 ? collectionNames : undefined,
+  };
+}
+
+/**
+ * Map one of our books to a LibraryThing record. LibraryThing keeps a single
+ * read, so only the most recent read-through is written.
+ */
+export function bookToLibraryThingRecord(
+  book: Book,
+  collections: Collection[] = [],
+  series: Series[] = []
+): LibraryThingRecord {
+  const latestRead = [...(book.readThroughs || [])]
+    .sort((a, b) => (a.finishedDate || a.startedDate || '').localeCompare(b.finishedDate || b.startedDate || ''))
+    .pop();
+  const seriesName = getBookSeriesName(book, series);
+  const volume = book.volumeNumber ?? book.seriesPosition;
+
+  return {
+    bookId: book.id,
+    title: book.title,
+    primaryAuthor: toLibraryThingAuthor(book.author || ''),
+    date: book.publishedDate || '',
+    rating: book.rating,
+    review: '',
+    privateComment: book.notes || '',
+    pages: book.pageCount ? String(book.pageCount) : '',
+    dateStarted: normalizeFormatDate(latestRead?.startedDate) || '',
+    dateRead: normalizeFormatDate(book.completedDate || latestRead?.finishedDate) || '',
+    tags: getBookCollectionNames(book, collections),
+    collections: [STATUS_TO_COLLECTION[book.status || 'want-to-read']],
+    isbn: getExportISBN(book),
+    series: seriesName ? [volume !== undefined ? `${seriesName} (${volume})` : seriesName] : [],
+    entryDate: normalizeFormatDate(book.addedDate) || '',
+  };
+}
+
+/**
+ * Parse a LibraryThing TSV export into raw book imports
+ */
+export function parseLibraryThingTSV(content: string): RawBookImport[] {
+  const records = parseDelimitedRecords(content, '\t');
+
+  if (records.length === 0) {
+    throw new Error('TSV file must contain at least a header row and one data row');
+  }
+
+  if (!('Title' in records[0]) || !('Primary Author' in records[0])) {
+    throw new Error('This does not look like a LibraryThing export (missing Title or Primary Author columns)');
+  }
+
+  return records.map(row => libraryThingRecordToRawBook({
+    bookId: row['Book Id'] || '',
+    title: row['Title'],
+    primaryAuthor: row['Primary Author'] || '',
+    date: row['Date'] || '',
+    rating: row['Rating'] ? parseFloat(row['Rating']) : undefined,
+    review: row['Review'] || '',
+    privateComment: row['Private Comment'] || '',
+    pages: row['Page Count'] || '',
+    dateStarted: row['Date Started'] || '',
+    dateRead: row['Date Read'] || '',
+    tags: splitList(row['Tags']),
+    collections: splitList(row['Collections']),
+    // ISBNs are exported in brackets, e.g. [0439023483]
+    isbn: (row['ISBN'] || '').replace(/[[\]]/g, ''),
+    series: row['Series'] ? row['Series'].split('|').map(entry => entry.trim()) : [],
+    entryDate: row['Entry Date'] || '',
+  }));
+}
+
+/**
+ * Write books as a LibraryThing-compatible TSV. Collections become tags.
+ */
+export function booksToLibraryThingTSV(books: Book[], collections: Collection[] = [], series: Series[] = []): string {
+  const rows = books.map(book => {
+    const record = bookToLibraryThingRecord(book, collections, series);
+
+    return formatDelimitedRow([
+      record.bookId,
+      record.title,
+      record.primaryAuthor,
+      record.date,
+      record.review,
+      record.rating,
+      record.privateComment,
+      record.pages,
+      record.dateStarted,
+      record.dateRead,
+      record.tags.join(', '),
+      record.collections.join(', '),
+      record.isbn ? `[${record.isbn}]` : '',
+      record.entryDate,
+      record.series.join(' | '),
+    ], '\t');
+  });
+
+  return [formatDelimitedRow(LIBRARYTHING_HEADERS, '\t'), ...rows].join('\n') + '\n';
+}
+
+/**
+ * LibraryThing JSON exports store ISBNs as a string, an array or an object
+ * keyed by index. Prefer the 13-digit one.
+ */
+function pickLibraryThingISBN(value: unknown): string {
+  const candidates = typeof value === 'string'
+    ? [value]
+    : Array.isArray(value)
+      ? value
+      : value && typeof value === 'object'
+        ? Object.values(value)
+        : [];
+  const isbns = candidates.filter((candidate): candidate is string => typeof candidate === 'string' && candidate.trim() !== '');
+
+  return isbns.find(isbn => isbn.replace(/[^0-9Xx]/g, '').length === 13) || isbns[0] || '';
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+const toText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/**
+ * Parse a LibraryThing JSON export into raw book imports
+ */
+export function parseLibraryThingJSON(content: string): RawBookImport[] {
+  const data = JSON.parse(content);
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('This does not look like a LibraryThing JSON export');
+  }
+
+  const entries: Record<string, unknown>[] = Array.isArray(data) ? data : Object.values(data);
+
+  if (entries.length === 0 || entries.some(entry => !entry || typeof entry !== 'object' || !('title' in entry))) {
+    throw new Error('This does not look like a LibraryThing JSON export (every entry needs a title)');
+  }
+
+  return entries.map(entry => libraryThingRecordToRawBook({
+    bookId: toText(entry.books_id),
+    title: toText(entry.title),
+    primaryAuthor: toText(entry.primaryauthor),
+    date: toText(entry.date),
+    rating: typeof entry.rating === 'number' ? entry.rating : entry.rating ? parseFloat(toText(entry.rating)) : undefined,
+    review: toText(entry.review),
+    privateComment: toText(entry.privatecomment),
+    pages: toText(entry.pages),
+    dateStarted: toText(entry.datestarted),
+    dateRead: toText(entry.dateread),
+    tags: toStringList(entry.tags),
+    collections: toStringList(entry.collections),
+    isbn: pickLibraryThingISBN(entry.isbn),
+    series: toStringList(entry.series),
+    entryDate: toText(entry.entrydate),
+  }));
+}
+
+/**
+ * Write books as a LibraryThing-compatible JSON export keyed by book id
+ */
+export function booksToLibraryThingJSON(books: Book[], collections: Collection[] = [], series: Series[] = []): string {
+  const exportData: Record<string, unknown> = {};
+
+  books.forEach(book => {
+    const record = bookToLibraryThingRecord(book, collections, series);
+
+    exportData[record.bookId] = {
+      books_id: record.bookId,
+      title: record.title,
+      primaryauthor: record.primaryAuthor,
+      date: record.date || undefined,
+      rating: record.rating,
+      privatecomment: record.privateComment || undefined,
+      pages: record.pages || undefined,
+      datestarted: record.dateStarted || undefined,
+      dateread: record.dateRead || undefined,
+      tags: record.tags,
+      collections: record.collections,
+      isbn: record.isbn ? [record.isbn] : undefined,
+      series: record.series,
+      entrydate: record.entryDate || undefined,
+    };
+  });
+
+  return JSON.stringify(exportData, null, 2);
+}
+
+export const libraryThingTSVAdapter: BookFormatAdapter = {
+  id: 'librarything-tsv',
+  label: 'LibraryThing (TSV)',
+  fileExtension: 'tsv',
+  mimeType: 'text/tab-separated-values',
+  fieldMappings: LIBRARYTHING_FIELD_MAPPINGS,
+  parse: parseLibraryThingTSV,
+  serialize: booksToLibraryThingTSV,
+};
+
+export const libraryThingJSONAdapter: BookFormatAdapter = {
+  id: 'librarything-json',
+  label: 'LibraryThing (JSON)',
+  fileExtension: 'json',
+  mimeType: 'application/json',
+  fieldMappings: LIBRARYTHING_FIELD_MAPPINGS,
+  parse: parseLibraryThingJSON,
+  serialize: booksToLibraryThingJSON,
+};
@@ -0,0 +1,100 @@
+import { Loan, LoanDirection } from '@/types/loan';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * The calendar day of a date string or date, as YYYY-MM-DD in UTC. Loans
+ * compare days rather than times so a due date entered as a plain date
+ * lines up with the server's overdue filter.
+ */
+const toDayKey = (value: string | Date): string =>
+  (typeof value === 'string' ? new Date(value) : value).toISOString().slice(0, 10);
+
+export const LOAN_DIRECTION_LABELS: Record<LoanDirection, string> = {
+  lent: 'Lent out',
+  borrowed: 'Borrowed',
+};
+
+/**
+ * A loan is active until the book comes back
+ */
+export function isLoanActive(loan: Loan): boolean {
+  return !loan.returnedDate;
+}
+
+/**
+ * An active loan is overdue from the day after its due date
+ */
+export function isLoanOverdue(loan: Loan, now = new Date()): boolean {
+  return isLoanActive(loan) && Boolean(loan.dueDate) && toDayKey(loan.dueDate as string) < toDayKey(now);
+}
+
+/**
+ * Whole days since the due date, or 0 for loans that are not overdue
+ */
+export function getDaysOverdue(loan: Loan, now = new Date()): number {
+  if (!isLoanOverdue(loan, now)) return 0;
+
+  const due = new Date(toDayKey(loan.dueDate as string)).getTime();
+  const today = new Date(toDayKey(now)).getTime();
+  return Math.round((today - due) / DAY_MS);
+}
+
+/**
+ * "Lent to Sam" or "Borrowed from Sam"
+ */
+export function describeLoan(loan: Pick<Loan, 'direction' | 'person'>): string {
+  return loan.direction === 'lent' ? `Lent to ${loan.person}` : `Borrowed from ${loan.person}`;
+}
+
+/**
+ * Active loans keyed by book id. A book only has one active loan at a time;
+ * if several are recorded, the most recent wins.
+ */
+export function getActiveLoansByBookId(loans: Loan[]): Map<string, Loan> {
+  const active = new Map<string, Loan>();
+
+  loans.filter(isLoanActive).forEach(loan => {
+    const existing = active.get(loan.bookId);
+    if (!existing || loan.loanedDate > existing.loanedDate) {
+      active.set(loan.bookId, loan);
+    }
+  });
+
+  return active;
+}
+
+/**
+ * Overdue loans, the longest overdue first
+ */
+export function getOverdueLoans(loans: Loan[], now = new Date()): Loan[] {
+  return loans
+    .filter(loan => isLoanOverdue(loan, now))
+    .sort((a, b) => (a.dueDate as string).localeCompare(b.dueDate as string));
+}
+
+/**
+ * Overdue loans that have not been reminded about yet. A loan whose due
+ * date was pushed back after its last reminder is reminded about again
+ * once the new date passes.
+ */
+export function getLoansNeedingReminder(loans: Loan[], now = new Date()): Loan[] {
+  return getOverdueLoans(loans, now).filter(
+    loan => !loan.remindedAt || toDayKey(loan.remindedAt) <= toDayKey(loan.dueDate as string)
+  );
+}
+
+/**
+ * Title and message for an overdue reminder notification
+ */
+export function getLoanReminder(loan: Loan, bookTitle: string, now = new Date()): { title: string; message: string } {
+  const days = getDaysOverdue(loan, now);
+  const overdueBy = days === 1 ? '1 day' : `${days} days`;
+
+  return {
+    title: `"${bookTitle}" is overdue`,
+    message: loan.direction === 'lent'
+      ? `${loan.person} was due to give it back ${overdueBy} ago.`
+      : `It was due back to ${loan.person} ${overdueBy} ago.`,
+  };
+}
@@ -0,0 +1,83 @@
+import { ReadingSession } from '@/types/reading-session';
+
+/**
+ * Totals across a set of reading sessions
+ */
+export interface ReadingSessionSummary {
+  /** Number of sessions logged */
+  sessionCount: number;
+  /** Total minutes spent reading */
+  totalMinutes: number;
+  /** Total pages read, counting only sessions with both a start and end page */
+  totalPages: number;
+}
+
+/**
+ * Orders sessions newest first, using the session date and falling back to
+ * when the session was logged for sessions on the same day
+ */
+export function sortSessionsNewestFirst(sessions: ReadingSession[]): ReadingSession[] {
+  return [...sessions].sort((a, b) => {
+    const byDate = new Date(b.date).getTime() - new Date(a.date).getTime();
+    if (byDate !== 0) return byDate;
+
+    return (b.createdAt || '').localeCompare(a.createdAt || '');
+  });
+}
+
+/**
+ * Returns the most recent session that recorded an end page
+ */
+export function getLatestSessionWithEndPage(sessions: ReadingSession[]): ReadingSession | undefined {
+  return sortSessionsNewestFirst(sessions).find(session => session.endPage !== undefined);
+}
+
+/**
+ * Derives book progress (0-1) from the latest session's end page
+ * 
+ * @param sessions - All sessions logged for the book
+ * @param pageCount - Total page count of the book
+ * @returns Progress between 0 and 1, or undefined when it cannot be derived
+ */
+export function deriveProgressFromSessions(
+  sessions: ReadingSession[],
+  pageCount?: number
+): number | undefined {
+  if (!pageCount || pageCount <= 0) {
+    return undefined;
+  }
+
+  const latestSession = getLatestSessionWithEndPage(sessions);
+
+  if (!latestSession) {
+    return undefined;
+  }
+
+  const progress = latestSession.endPage / pageCount;
+  return Math.min(1, Math.max(0, Math.round(progress * 1000) / 1000));
+}
+
+/**
+ * Pages read during a single session, when both ends are known
+ */
+export function getSessionPageCount(session: ReadingSession): number {
+  if (session.startPage === undefined || session.endPage === undefined) {
+    return 0;
+  }
+
+  return Math.max(0, session.endPage - session.startPage);
+}
+
+/**
+ * Summarizes time and pages across a set of sessions
+ */
+export function summarizeReadingSessions(sessions: ReadingSession[]): ReadingSessionSummary {
+  return sessions.reduce<ReadingSessionSummary>(
+    (summary, session) => ({
+      sessionCount: summary.sessionCount + 1,
+      totalMinutes: summary.totalMinutes + (session.minutes || 0),
+      totalPages: summary.totalPages + getSessionPageCount(session),
+    }),
+    { sessionCount: 0, totalMinutes: 0, totalPages: 0 }
+  );
+}
@@ -1,4 +1,4 @@
-import { calculateGenreStatistics, getTopGenresWithOthers, calculateReadingStatusStatistics, getReadingStatusChartData, GenreCount } from './statisticsUtils';
+import { calculateGenreStatistics, getTopGenresWithOthers, calculateReadingStatusStatistics, getReadingStatusChartData, getCompletedReads, getCompletedReadsInYear, GenreCount } from './statisticsUtils';
 import type { Book } from '@/types/models/Book';
 import { ReadingStatus } from '@/types/models/Book';
 
@@ -452,4 +452,117 @@ describe('statisticsUtils', () => {
       ]);
     });
   });
+
+  describe('getCompletedReads', () => {
+    it('should count every finished read-through of a re-read book', () => {
+      // Arrange
+      const books: Book[] = [
+        {
+          id: '1',
+          title: 'Book 1',
+          author: 'Author 1',
+          spineColor: 1,
+          addedDate: '2020-01-01',
+          rating: 5,
+          completedDate: '2024-03-10T12:00:00.000Z',
+          readThroughs: [
+            { id: 'r1', finishedDate: '2021-06-01T12:00:00.000Z', rating: 3 },
+            { id: 'r2', finishedDate: '2024-03-10T12:00:00.000Z', rating: 5 }
+          ]
+        }
+      ];
+
+      // Act
+      const result = getCompletedReads(books);
+
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(result.map(read => read.readThroughId)).toEqual(['r1', 'r2']);
+      expect(result.map(read => read.rating)).toEqual([3, 5]);
+    });
+
+    it('should skip DNF and unfinished read-throughs', () => {
+      // Arrange
+      const books: Book[] = [
+        {
+          id: '1',
+          title: 'Book 1',
+          author: 'Author 1',
+          spineColor: 1,
+          addedDate: '2020-01-01',
+          readThroughs: [
+            { id: 'r1', startedDate: '2022-01-01T12:00:00.000Z', finishedDate: '2022-02-01T12:00:00.000Z', dnf: true },
+            { id: 'r2', startedDate: '2023-01-01T12:00:00.000Z' }
+          ]
+        }
+      ];
+
+      // Act
+      const result = getCompletedReads(books);
+
+      // Assert
+      expect(result).toEqual([]);
+    });
+
+    it('should fall back to completedDate and book rating for books without history', () => {
+      // Arrange
+      const books: Book[] = [
+        {
+          id: '1',
+          title: 'Book 1',
+          author: 'Author 1',
+          spineColor: 1,
+          addedDate: '2020-01-01',
+          rating: 4,
+          completedDate: '2023-05-05'
+        },
+        {
+          id: '2',
+          title: 'Book 2',
+          author: 'Author 2',
+          spineColor: 2,
+          addedDate: '2020-01-01',
+          rating: 2,
+          readThroughs: [{ id: 'r1', finishedDate: '2022-01-01T12:00:00.000Z' }]
+        }
+      ];
+
+      // Act
+      const result = getCompletedReads(books);
+
+      // Assert
+      expect(result).toEqual([
+        { book: books[0], finishedDate: '2023-05-05', rating: 4 },
+        { book: books[1], finishedDate: '2022-01-01T12:00:00.000Z', rating: 2, readThroughId: 'r1' }
+      ]);
+    });
+  });
+
+  describe('getCompletedReadsInYear', () => {
+    it('should count each read in the year it finished', () => {
+      // Arrange
+      const books: Book[] = [
+        {
+          id: '1',
+          title: 'Book 1',
+          author: 'Author 1',
+          spineColor: 1,
+          addedDate: '2020-01-01',
+          readThroughs: [
+            { id: 'r1', finishedDate: '2023-02-01T12:00:00.000Z' },
+            { id: 'r2', finishedDate: '2023-11-01T12:00:00.000Z' },
+            { id: 'r3', finishedDate: '2024-01-15T12:00:00.000Z' }
+          ]
+        }
+      ];
+
+      // Act
+      const in2023 = getCompletedReadsInYear(books, 2023);
+      const in2024 = getCompletedReadsInYear(books, 2024);
+
+      // Assert
+      expect(in2023.map(read => read.readThroughId)).toEqual(['r1', 'r2']);
+      expect(in2024.map(read => read.readThroughId)).toEqual(['r3']);
+    });
+  });
 });
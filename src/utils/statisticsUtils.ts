@@ -184,3 +184,81 @@ export function getReadingStatusChartData(stats: ReadingStatusStats): GenreCount
     { name: 'On Hold', value: stats.onHold }
   ].filter(item => item.value > 0);  // Only include statuses with books
 }
+
+/**
+ * A single finished read of a book. Re-read books produce one entry per
+ * finished read-through.
+ */
+export interface CompletedRead<T extends Pick<Book, 'completedDate' | 'rating' | 'readThroughs'>> {
+  /** The book that was read */
+  book: T;
+  /** When this read-through was finished */
+  finishedDate: string;
+  /** Rating given for this read-through, falling back to the book rating */
+  rating?: number;
+  /** Read-through id, absent for books that only have a completedDate */
+  readThroughId?: string;
+}
+
+const toDayKey = (date: string): string | null => {
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+};
+
+/**
+ * Lists every finished read across the given books. Each finished, non-DNF
+ * read-through counts once; a book's completedDate is also counted unless
+ * a read-through already finished on the same day.
+ *
+ * @param books - Array of books to analyze
+ * @returns Completed reads in no particular order
+ */
+export function getCompletedReads<T extends Pick<Book, 'completedDate' | 'rating' | 'readThroughs'>>(
+  books: T[]
+): CompletedRead<T>[] {
+  const reads: CompletedRead<T>[] = [];
+
+  books.forEach(book => {
+    const finishedDays = new Set<string>();
+
+    (book.readThroughs || []).forEach(readThrough => {
+      if (readThrough.dnf || !readThrough.finishedDate) return;
+
+      const dayKey = toDayKey(readThrough.finishedDate);
+      if (!dayKey) return;
+
+      finishedDays.add(dayKey);
+      reads.push({
+        book,
+        finishedDate: readThrough.finishedDate,
+        rating: readThrough.rating ?? book.rating,
+        readThroughId: readThrough.id
+      });
+    });
+
+    if (book.completedDate) {
+      const dayKey = toDayKey(book.completedDate);
+      if (dayKey && !finishedDays.has(dayKey)) {
+        reads.push({ book, finishedDate: book.completedDate, rating: book.rating });
+      }
+    }
+  });
+
+  return reads;
+}
+
+/**
+ * Lists the reads finished in the given calendar year
+ *
+ * @param books - Array of books to analyze
+ * @param year - Full year, e.g. 2024
+ * @returns Completed reads finished in that year
+ */
+export function getCompletedReadsInYear<T extends Pick<Book, 'completedDate' | 'rating' | 'readThroughs'>>(
+  books: T[],
+  year: number
+): CompletedRead<T>[] {
+  return getCompletedReads(books).filter(
+    read => new Date(read.finishedDate).getFullYear() === year
+  );
+}
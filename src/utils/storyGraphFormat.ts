@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Book, ReadThrough } from '@/types/book';
+import { Collection } from '@/types/collection';
+import { formatDelimitedRow, parseDelimitedRecords } from './delimitedText';
+import {
+  getBookCollectionNames,
+  getExportISBN,
+  normalizeFormatDate,
+  normalizeFormatRating,
+} from './formatAdapterUtils';
+import type { BookFormatAdapter } from './formatAdapters';
+import type { RawBookImport } from './importUtils';
+
+/**
+ * Columns of a StoryGraph library export, in the order StoryGraph writes them.
+ * Only the columns we can map are filled in on export.
+ */
+const STORYGRAPH_HEADERS = [
+  'Title',
+  'Authors',
+  'Contributors',
+  'ISBN/UID',
+  'Format',
+  'Read Status',
+  'Date Added',
+  'Last Date Read',
+  'Dates Read',
+  'Read Count',
+  'Moods',
+  'Pace',
+  'Character- or Plot-Driven?',
+  'Strong Character Development?',
+  'Loveable Characters?',
+  'Diverse Characters?',
+  'Flawed Characters?',
+  'Star Rating',
+  'Review',
+  'Content Warnings',
+  'Content Warning Description',
+  'Tags',
+  'Owned?',
+];
+
+const STATUS_FROM_STORYGRAPH: Record<string, NonNullable<Book['status']>> = {
+  'read': 'completed',
+  'currently-reading': 'reading',
+  'to-read': 'want-to-read',
+  'did-not-finish': 'dnf',
+  'paused': 'on-hold',
+};
+
+const STATUS_TO_STORYGRAPH: Record<NonNullable<Book['status']>, string> = {
+  'completed': 'read',
+  'reading': 'currently-reading',
+  'want-to-read': 'to-read',
+  'dnf': 'did-not-finish',
+  'on-hold': 'paused',
+};
+
+/**
+ * Convert a YYYY-MM-DD date to StoryGraph's YYYY/MM/DD
+ */
+const toStoryGraphDate = (value?: string): string => normalizeFormatDate(value)?.replace(/-/g, '/') || '';
+
+/**
+ * Parse the "Dates Read" column, e.g. "2023/01/05-2023/01/20, 2024/03/01-2024/03/09".
+ * A read with only one date is treated as its finish date.
+ */
+export function parseStoryGraphDatesRead(value?: string): ReadThrough[] {
+  if (!value?.trim()) return [];
+
+  return value
+    .split(',')
+    .map(range => range.trim())
+    .filter(Boolean)
+    .map(range => {
+      const [first, second] = range.split('-').map(part => part.trim());
+      const startedDate = second !== undefined ? normalizeFormatDate(first) : undefined;
+      const finishedDate = normalizeFormatDate(second !== undefined ? second : first);
+
+      return { id: `read-${uuidv4()}`, startedDate, finishedDate };
+    })
+    .filter(readThrough => readThrough.startedDate || readThrough.finishedDate);
+}
+
+/**
+ * All reads of a book in finish order, including the current completion if it
+ * has not been archived as a read-through yet
+ */
+function getStoryGraphReads(book: Book): ReadThrough[] {
+  const reads = [...(book.readThroughs || [])];
+  const completedDay = normalizeFormatDate(book.completedDate);
+
+  if (completedDay && !reads.some(read => normalizeFormatDate(read.finishedDate) === completedDay)) {
+    reads.push({ id: 'current', finishedDate: book.completedDate });
+  }
+
+  return reads.sort((a, b) =>
+    (normalizeFormatDate(a.finishedDate || a.startedDate) || '').localeCompare(
+      normalizeFormatDate(b.finishedDate || b.startedDate) || ''
+    )
+  );
+}
+
+/**
+ * Parse a StoryGraph library export into raw book imports
+ * @param content The StoryGraph CSV content
+ * @returns Array of raw book imports in our own import shape
+ */
+export function parseStoryGraphCSV(content: string): RawBookImport[] {
+  const records = parseDelimitedRecords(content, ',');
+
+  if (records.length === 0) {
+    throw new Error('CSV file must contain at least a header row and one data row');
+  }
+
+  if (!('Title' in records[0]) || !('Read Status' in records[0])) {
+    throw new Error('This does not look like a StoryGraph export (missing Title or Read Status columns)');
+  }
+
+  return records.map(row => {
+    const status = STATUS_FROM_STORYGRAPH[(row['Read Status'] || '').toLowerCase()] || 'want-to-read';
+    const readThroughs = parseStoryGraphDatesRead(row['Dates Read']);
+    const lastRead = normalizeFormatDate(row['Last Date Read']);
+
+    // StoryGraph only knows the last read of an abandoned book
+    if (status === 'dnf' && readThroughs.length > 0) {
+      readThroughs[readThroughs.length - 1].dnf = true;
+    }
+
+    const tags = (row['Tags'] || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean);
+    const isbn = (row['ISBN/UID'] || '').replace(/[^0-9Xx]/g, '');
+
+    return {
+      title: row['Title'],
+      author: row['Authors'] || undefined,
+      isbn: isbn.length === 10 || isbn.length === 13 ? isbn : undefined,
+      status,
+      completedDate: status === 'completed'
+        ? lastRead || readThroughs[readThroughs.length - 1]?.finishedDate
+        : undefined,
+      rating: normalizeFormatRating(row['Star Rating']),
+      notes: row['Review'] || undefined,
+      readThroughs: readThroughs.length > 0 ? readThroughs : undefined,
+      collectionNames: tags.length > 0 ? tags : undefined,
+    };
+  });
+}
+
+/**
+ * Write books as a StoryGraph-compatible CSV. Collections become tags.
+ */
+export function booksToStoryGraphCSV(books: Book[], collections: Collection[] = []): string {
+  const rows = books.map(book => {
+    const reads = getStoryGraphReads(book);
+    const finishedReads = reads.filter(read => read.finishedDate && !read.dnf);
+    const datesRead = reads
+      .map(read => read.startedDate
+        ? `${toStoryGraphDate(read.startedDate)}-${toStoryGraphDate(read.finishedDate)}`
+        : toStoryGraphDate(read.finishedDate))
+      .filter(Boolean)
+      .join(', ');
+
+    const values: Record<string, string | number | undefined> = {
+      'Title': book.title,
+      'Authors': book.author,
+      'ISBN/UID': getExportISBN(book),
+      'Read Status': STATUS_TO_STORYGRAPH[book.status || 'want-to-read'],
+      'Date Added': toStoryGraphDate(book.addedDate),
+      'Last Date Read': toStoryGraphDate(finishedReads[finishedReads.length - 1]?.finishedDate),
+      'Dates Read': datesRead,
+      'Read Count': finishedReads.length,
+      'Star Rating': book.rating,
+      'Review': book.notes,
+      'Tags': getBookCollectionNames(book, collections).join(', '),
+    };
+
+    return formatDelimitedRow(STORYGRAPH_HEADERS.map(header => values[header]), ',');
+  });
+
+  return [formatDelimitedRow(STORYGRAPH_HEADERS, ','), ...rows].join('\n') + '\n';
+}
+
+export const storyGraphAdapter: BookFormatAdapter = {
+  id: 'storygraph',
+  label: 'StoryGraph',
+  fileExtension: 'csv',
+  mimeType: 'text/csv',
+  fieldMappings: [
+    { source: 'Title', target: 'Title' },
+    { source: 'Authors', target: 'Author' },
+    { source: 'ISBN/UID', target: 'ISBN', note: 'StoryGraph-only IDs are skipped' },
+    { source: 'Read Status', target: 'Status', note: 'did-not-finish and paused map to DNF and On hold' },
+    { source: 'Last Date Read', target: 'Completed date' },
+    { source: 'Dates Read', target: 'Read history', note: 'Each read becomes a read-through' },
+    { source: 'Star Rating', target: 'Rating', note: 'Quarter stars are rounded' },
+    { source: 'Review', target: 'Notes' },
+    { source: 'Tags', target: 'Collections' },
+  ],
+  parse: parseStoryGraphCSV,
+  serialize: booksToStoryGraphCSV,
+};
@@ -0,0 +1,163 @@
+import type { CollectionRecord, SeriesRecord } from '@/lib/apiClient';
+import type { Book } from '@/types/book';
+import { getCopyCountLabel } from '@/utils/bookCopies';
+
+/**
+ * A row in the merge dialog. Fields that only make sense together, like a
+ * status and its completion date, are merged as one.
+ */
+export interface ConflictField<T> {
+  key: string;
+  label: string;
+  fields: (keyof T)[];
+  /** How to show the value; defaults to the first field as text */
+  format?: (record: T) => string;
+}
+
+/** Whose value wins for a field: the refused local change or the server's */
+export type ConflictSide = 'local' | 'server';
+
+export type ConflictChoices = Record<string, ConflictSide>;
+
+const countLabel = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const BOOK_CONFLICT_FIELDS: ConflictField<Book>[] = [
+  { key: 'title', label: 'Title', fields: ['title'] },
+  { key: 'author', label: 'Author', fields: ['author'] },
+  { key: 'thumbnail', label: 'Cover', fields: ['thumbnail'] },
+  { key: 'description', label: 'Description', fields: ['description'] },
+  { key: 'genre', label: 'Genre', fields: ['genre'] },
+  { key: 'publishedDate', label: 'Published', fields: ['publishedDate'] },
+  { key: 'pageCount', label: 'Pages', fields: ['pageCount'] },
+  {
+    key: 'status',
+    label: 'Status',
+    fields: ['status', 'completedDate', 'progress'],
+    format: book => [book.status, book.completedDate?.slice(0, 10)].filter(Boolean).join(', '),
+  },
+  { key: 'rating', label: 'Rating', fields: ['rating'], format: book => (book.rating ? `${book.rating}/5` : '') },
+  { key: 'notes', label: 'Notes', fields: ['notes'] },
+  {
+    key: 'readThroughs',
+    label: 'Read history',
+    fields: ['readThroughs'],
+    format: book => (book.readThroughs?.length ? countLabel(book.readThroughs.length, 'read') : ''),
+  },
+  {
+    key: 'series',
+    label: 'Series',
+    fields: ['seriesId', 'isPartOfSeries', 'volumeNumber', 'seriesPosition'],
+    format: book => (book.seriesId ? `#${book.seriesPosition ?? book.volumeNumber ?? '?'}` : ''),
+  },
+  {
+    key: 'collectionIds',
+    label: 'Collections',
+    fields: ['collectionIds'],
+    format: book => (book.collectionIds?.length ? countLabel(book.collectionIds.length, 'collection') : ''),
+  },
+  { key: 'tags', label: 'Tags', fields: ['tags'], format: book => book.tags?.join(', ') ?? '' },
+  {
+    key: 'copies',
+    label: 'Copies',
+    fields: ['copies'],
+    format: book => (book.copies?.length ? getCopyCountLabel(book.copies.length) : ''),
+  },
+  { key: 'spineColor', label: 'Spine color', fields: ['spineColor'], format: book => `Color ${book.spineColor}` },
+];
+
+export const SERIES_CONFLICT_FIELDS: ConflictField<SeriesRecord>[] = [
+  { key: 'name', label: 'Name', fields: ['name'] },
+  { key: 'author', label: 'Author', fields: ['author'] },
+  { key: 'description', label: 'Description', fields: ['description'] },
+  { key: 'coverImage', label: 'Cover', fields: ['coverImage'] },
+  { key: 'genre', label: 'Genre', fields: ['genre'] },
+  { key: 'status', label: 'Status', fields: ['status'] },
+  { key: 'totalBooks', label: 'Total books', fields: ['totalBooks'] },
+  {
+    key: 'books',
+    label: 'Books',
+    fields: ['books', 'readingOrder', 'customOrder'],
+    format: series => `${countLabel(series.books.length, 'book')}, ${series.readingOrder} order`,
+  },
+  { key: 'isTracked', label: 'Tracked', fields: ['isTracked'], format: series => (series.isTracked ? 'Yes' : 'No') },
+];
+
+export const COLLECTION_CONFLICT_FIELDS: ConflictField<CollectionRecord>[] = [
+  { key: 'name', label: 'Name', fields: ['name'] },
+  { key: 'description', label: 'Description', fields: ['description'] },
+  { key: 'color', label: 'Color', fields: ['color'] },
+  { key: 'imageUrl', label: 'Image', fields: ['imageUrl'] },
+  {
+    key: 'bookIds',
+    label: 'Books',
+    fields: ['bookIds'],
+    format: collection => countLabel(collection.bookIds.length, 'book'),
+  },
+  {
+    key: 'rules',
+    label: 'Rules',
+    fields: ['rules'],
+    format: collection => (collection.rules ? countLabel(collection.rules.conditions.length, 'rule') : ''),
+  },
+];
+
+const isSameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+
+/**
+ * The fields where the two versions differ
+ */
+export function getConflictingFields<T>(
+  fields: ConflictField<T>[],
+  local: T,
+  server: T
+): ConflictField<T>[] {
+  return fields.filter(field => field.fields.some(name => !isSameValue(local[name], server[name])));
+}
+
+/**
+ * Show a field's value as text
+ */
+export function formatConflictValue<T>(field: ConflictField<T>, record: T): string {
+  if (field.format) {
+    return field.format(record);
+  }
+
+  const value = record[field.fields[0]];
+
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+
+  const text = String(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+/**
+ * The changes to make to the server's version so it carries every field
+ * where the user chose their local value. Fields without a choice keep the
+ * local value, since that is the change the user made last.
+ */
+export function mergeConflict<T>(
+  fields: ConflictField<T>[],
+  local: T,
+  server: T,
+  choices: ConflictChoices
+): Partial<T> {
+  const changes: Partial<T> = {};
+
+  getConflictingFields(fields, local, server)
+    .filter(field => (choices[field.key] ?? 'local') === 'local')
+    .forEach(field => {
+      field.fields.forEach(name => {
+        changes[name] = local[name];
+      });
+    });
+
+  return changes;
+}